@@ -0,0 +1,134 @@
+#!/usr/bin/env node
+/**
+ * Offline verifier for signed audit log exports
+ *
+ * Usage:
+ *   AUDIT_EXPORT_SIGNING_KEY=... node scripts/verify_audit_export.js <export file> <manifest.json>
+ *
+ * Checks the manifest HMAC, the file digest, the row count, first/last hashes and the
+ * prev_hash -> hash chain. Uses the same algorithm as src/lib/security/auditExport.ts and
+ * /api/admin/security/audit/integrity-check. Needs only Node.js.
+ */
+
+const fs = require('fs');
+const crypto = require('crypto');
+
+const COLUMNS = [
+  'id', 'created_at', 'actor_user_id', 'actor_role', 'session_id', 'ip_address', 'user_agent',
+  'event_type', 'entity_type', 'entity_id', 'severity', 'metadata', 'prev_hash', 'hash'
+];
+
+function computeHash(log) {
+  const input =
+    (log.created_at || '') +
+    (log.actor_user_id || '') +
+    (log.actor_role || '') +
+    (log.session_id || '') +
+    (log.ip_address || '') +
+    (log.user_agent || '') +
+    (log.event_type || '') +
+    (log.entity_type || '') +
+    (log.entity_id || '') +
+    (log.severity || '') +
+    JSON.stringify(log.metadata || {}) +
+    (log.prev_hash || '');
+  return crypto.createHash('sha256').update(input).digest('hex');
+}
+
+function parseCSV(content) {
+  const records = [];
+  let fields = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ',') { fields.push(field); field = ''; }
+    else if (char === '\n') { fields.push(field); records.push(fields); fields = []; field = ''; }
+    else if (char !== '\r') field += char;
+  }
+  if (field !== '' || fields.length > 0) { fields.push(field); records.push(fields); }
+  return records;
+}
+
+function parseRows(content, format) {
+  if (format === 'jsonl') {
+    return content.split('\n').filter(line => line.trim() !== '').map(line => JSON.parse(line));
+  }
+  return parseCSV(content).slice(1).map(fields => {
+    const row = {};
+    COLUMNS.forEach((column, index) => {
+      const value = fields[index] ?? '';
+      row[column] = column === 'metadata' ? JSON.parse(value || '{}') : value === '' ? null : value;
+    });
+    return row;
+  });
+}
+
+function canonical(value) {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().reduce((acc, key) => ({ ...acc, [key]: canonical(value[key]) }), {});
+  }
+  return value;
+}
+
+function main() {
+  const [file, manifestFile] = process.argv.slice(2);
+  const key = process.env.AUDIT_EXPORT_SIGNING_KEY;
+
+  if (!file || !manifestFile || !key) {
+    console.error('Usage: AUDIT_EXPORT_SIGNING_KEY=... node scripts/verify_audit_export.js <export file> <manifest.json>');
+    process.exit(2);
+  }
+
+  const content = fs.readFileSync(file, 'utf8');
+  const manifest = JSON.parse(fs.readFileSync(manifestFile, 'utf8'));
+  const failures = [];
+
+  const unsigned = { ...manifest };
+  delete unsigned.signature;
+  const expected = crypto.createHmac('sha256', key).update(JSON.stringify(canonical(unsigned))).digest();
+  const actual = Buffer.from(manifest.signature || '', 'hex');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    failures.push('manifest signature does not match');
+  }
+
+  if (crypto.createHash('sha256').update(content).digest('hex') !== manifest.content_sha256) {
+    failures.push('file digest does not match the manifest');
+  }
+
+  const rows = parseRows(content, manifest.format);
+  if (rows.length !== manifest.row_count) {
+    failures.push(`row count ${rows.length} does not match manifest ${manifest.row_count}`);
+  }
+  if ((rows[0]?.hash ?? null) !== manifest.first_hash || (rows[rows.length - 1]?.hash ?? null) !== manifest.last_hash) {
+    failures.push('first/last hash does not match the manifest');
+  }
+
+  let prevHash = manifest.anchor_prev_hash;
+  for (const row of rows) {
+    if (manifest.chain_contiguous && (row.prev_hash || null) !== (prevHash || null)) {
+      failures.push(`hash chain broken at entry ${row.id}`);
+      break;
+    }
+    if (computeHash(row) !== row.hash) {
+      failures.push(`hash mismatch at entry ${row.id}`);
+      break;
+    }
+    prevHash = row.hash;
+  }
+
+  if (failures.length > 0) {
+    failures.forEach(failure => console.error(`FAIL: ${failure}`));
+    process.exit(1);
+  }
+
+  console.log(`OK: ${rows.length} entries verified${manifest.chain_contiguous ? ' (full chain)' : ' (row hashes only, filtered export)'}`);
+}
+
+main();
@@ -0,0 +1,32 @@
+/**
+ * Unit tests for the brain-pack registry
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getBrainPack, listBrainPacksForRole, registerBrainPack } from '@/ai-brain/packs';
+import { ADMIN_COCKPIT_PACK } from '@/ai-brain/packs/admin-cockpit';
+import { STANDARD_REDACTION_RULES } from '@/ai-brain/core/redaction';
+
+describe('brain pack registry', () => {
+  it('registers a pack per context', () => {
+    expect(getBrainPack('admin_cockpit')?.name).toBe('Admin_Cockpit_V1');
+    expect(getBrainPack('technician_job_assist')?.grounding).toBe('repair_guides');
+    expect(getBrainPack('manager_pricing_review')?.grounding).toBe('pricing_rulesets');
+    expect(getBrainPack('support_agent')?.grounding).toBe('customer_timeline');
+    expect(getBrainPack('transporter_dispatch')).toBeUndefined();
+  });
+
+  it('lists only the packs a role may use', () => {
+    expect(listBrainPacksForRole('technician').map(p => p.context)).toEqual(['technician_job_assist']);
+    expect(listBrainPacksForRole('customer')).toEqual([]);
+    expect(listBrainPacksForRole('admin')).toHaveLength(4);
+  });
+
+  it('rejects packs that do not redact governance PII', () => {
+    expect(() => registerBrainPack({
+      ...ADMIN_COCKPIT_PACK,
+      redaction_rules: STANDARD_REDACTION_RULES.filter(rule => rule.category !== 'address'),
+    })).toThrow('address');
+    expect(getBrainPack('admin_cockpit')).toBe(ADMIN_COCKPIT_PACK);
+  });
+});
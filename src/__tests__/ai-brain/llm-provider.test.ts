@@ -0,0 +1,75 @@
+/**
+ * Unit tests for the AI Brain LLM provider layer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AiBrainResponseSchema } from '@/ai-brain/types';
+import {
+  DEFAULT_FIXTURE_RESPONSE,
+  FixtureProvider,
+  LlmChatRequest,
+  LlmProvider,
+  LlmProviderError,
+  completeWithRetries,
+} from '@/lib/services/llm-provider';
+
+const request = { model: 'test-model', system: 'system prompt', user: 'Generate Daily Briefing' };
+const parseJson = (content: string) => AiBrainResponseSchema.parse(JSON.parse(content));
+
+class FlakyProvider implements LlmProvider {
+  readonly kind = 'local' as const;
+  calls = 0;
+
+  constructor(private failures: LlmProviderError[]) {}
+
+  async complete(_request: LlmChatRequest): Promise<string> {
+    const failure = this.failures[this.calls++];
+    if (failure) throw failure;
+    return JSON.stringify(DEFAULT_FIXTURE_RESPONSE);
+  }
+}
+
+describe('FixtureProvider', () => {
+  it('returns deterministic, schema-valid output and records requests', async () => {
+    const provider = new FixtureProvider();
+    const first = await provider.complete(request);
+    const second = await provider.complete(request);
+
+    expect(first).toBe(second);
+    expect(AiBrainResponseSchema.safeParse(JSON.parse(first)).success).toBe(true);
+    expect(provider.requests).toHaveLength(2);
+  });
+});
+
+describe('completeWithRetries', () => {
+  it('retries retryable failures and then succeeds', async () => {
+    const provider = new FlakyProvider([new LlmProviderError('503', true), new LlmProviderError('timeout', true)]);
+    const result = await completeWithRetries(provider, request, parseJson, { timeoutMs: 1000, maxRetries: 2, backoffMs: 1 });
+
+    expect(result.summary).toBe(DEFAULT_FIXTURE_RESPONSE.summary);
+    expect(provider.calls).toBe(3);
+  });
+
+  it('does not retry non-retryable failures', async () => {
+    const provider = new FlakyProvider([new LlmProviderError('401', false)]);
+    await expect(
+      completeWithRetries(provider, request, parseJson, { timeoutMs: 1000, maxRetries: 3, backoffMs: 1 })
+    ).rejects.toThrow('401');
+    expect(provider.calls).toBe(1);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const provider = new FlakyProvider([1, 2, 3].map(n => new LlmProviderError(`fail ${n}`, true)));
+    await expect(
+      completeWithRetries(provider, request, parseJson, { timeoutMs: 1000, maxRetries: 1, backoffMs: 1 })
+    ).rejects.toThrow('fail 2');
+    expect(provider.calls).toBe(2);
+  });
+});
+
+describe('AiBrainResponseSchema', () => {
+  it('rejects out-of-range confidence and missing fields', () => {
+    expect(AiBrainResponseSchema.safeParse({ ...DEFAULT_FIXTURE_RESPONSE, confidence_score: 140 }).success).toBe(false);
+    expect(AiBrainResponseSchema.safeParse({ summary: 'Only a summary' }).success).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for AI Brain PII tokenisation and the PII vault encryption
+ */
+
+import { describe, it, expect } from 'vitest';
+import { randomBytes } from 'crypto';
+import {
+  PiiRedactor,
+  STANDARD_REDACTION_RULES,
+  missingGovernanceRedactions,
+  restoreTokens,
+  restoreValue,
+} from '@/ai-brain/core/redaction';
+import { decryptPiiValue, encryptPiiValue } from '@/lib/services/pii-vault';
+
+describe('PiiRedactor', () => {
+  it('covers every governance-required category', () => {
+    expect(missingGovernanceRedactions(STANDARD_REDACTION_RULES)).toEqual([]);
+    expect(missingGovernanceRedactions([])).toEqual(['phone', 'address', 'email', 'name']);
+  });
+
+  it.each([
+    '+919876543210',
+    '+91 98765 43210',
+    '+91-98765-43210',
+    '9876543210',
+    '98765 43210',
+    '098765 43210',
+    '040-2345 6789',
+    '+1-415-555-0100',
+  ])('tokenises the phone number %s', phone => {
+    const redactor = new PiiRedactor(STANDARD_REDACTION_RULES);
+    expect(redactor.redactText(`Call ${phone} today`)).toBe('Call [PHONE_1] today');
+  });
+
+  it('leaves ids, amounts and dates alone', () => {
+    const redactor = new PiiRedactor(STANDARD_REDACTION_RULES);
+    const text = 'Ticket 3f2c1a9e-9876-4321-a123-987654321012 quoted 12500 on 2025-12-14';
+    expect(redactor.redactText(text)).toBe(text);
+    expect(redactor.tokens).toEqual([]);
+  });
+
+  it('tokenises emails and street addresses', () => {
+    const redactor = new PiiRedactor(STANDARD_REDACTION_RULES);
+    const text = redactor.redactText('Mail ravi.k@example.com, pickup at 12-3 Jubilee Hills Road No 5, Hyderabad 500033');
+    expect(text).toBe('Mail [EMAIL_1], pickup at [ADDRESS_1]');
+  });
+
+  it('reuses tokens and catches field values inside free text', () => {
+    const redactor = new PiiRedactor(STANDARD_REDACTION_RULES);
+    const output = redactor.redact({
+      timeline: [
+        { title: 'Picked up', notes: 'Ravi Kumar asked to call 9876543210 before noon' },
+        { title: 'Contact', customer_name: 'Ravi Kumar', phone: '9876543210' },
+      ],
+    });
+
+    expect(output).toEqual({
+      timeline: [
+        { title: 'Picked up', notes: '[NAME_1] asked to call [PHONE_1] before noon' },
+        { title: 'Contact', customer_name: '[NAME_1]', phone: '[PHONE_1]' },
+      ],
+    });
+    expect(redactor.tokens).toHaveLength(2);
+  });
+
+  it('tokenises every value inside a structured PII field', () => {
+    const redactor = new PiiRedactor(STANDARD_REDACTION_RULES);
+    const output = redactor.redact({ address: { line1: 'Flat 4B', pincode: 500081 } });
+    expect(output).toEqual({ address: { line1: '[ADDRESS_1]', pincode: '[ADDRESS_2]' } });
+  });
+
+  it('restores tokens server-side', () => {
+    const redactor = new PiiRedactor(STANDARD_REDACTION_RULES);
+    const redacted = redactor.redact({ summary: 'Call 9876543210', risks: ['Email ravi@example.com'] });
+
+    expect(restoreValue(redacted, redactor.tokens)).toEqual({
+      summary: 'Call 9876543210',
+      risks: ['Email ravi@example.com'],
+    });
+    expect(restoreTokens('Unknown [PHONE_9]', redactor.tokens)).toBe('Unknown [PHONE_9]');
+  });
+});
+
+describe('PII vault encryption', () => {
+  it('round-trips values and rejects the wrong key', () => {
+    const key = randomBytes(32);
+    const encrypted = encryptPiiValue('+91 98765 43210', key);
+
+    expect(encrypted).not.toContain('98765');
+    expect(decryptPiiValue(encrypted, key)).toBe('+91 98765 43210');
+    expect(() => decryptPiiValue(encrypted, randomBytes(32))).toThrow();
+  });
+});
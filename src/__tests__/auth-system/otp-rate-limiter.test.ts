@@ -0,0 +1,165 @@
+/**
+ * Unit tests for OTP rate limiting, cooldowns and verification lockouts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  OTP_RATE_LIMIT_POLICY,
+  OtpRateLimiter,
+  OtpSecurityEvent,
+  OtpSubject,
+  getClientIp,
+} from '@/lib/auth-system/otpRateLimiter';
+import { InMemoryRateLimitBackend, takeToken } from '@/lib/auth-system/rateLimitBackend';
+
+const MINUTE = 60 * 1000;
+
+const subject = (overrides: Partial<OtpSubject> = {}): OtpSubject => ({
+  phone: '+919876543210',
+  ip: '203.0.113.7',
+  deviceFingerprint: 'device-1',
+  ...overrides,
+});
+
+describe('takeToken', () => {
+  const bucket = { capacity: 2, refillIntervalMs: 1000 };
+
+  it('starts full and refills one token per interval', () => {
+    let state = takeToken(null, bucket, 0).state;
+    state = takeToken(state, bucket, 0).state;
+
+    const empty = takeToken(state, bucket, 500);
+    expect(empty.result).toEqual({ allowed: false, retryAfterMs: 500 });
+
+    expect(takeToken(empty.state, bucket, 1000).result.allowed).toBe(true);
+  });
+
+  it('never refills past capacity', () => {
+    const { state } = takeToken({ tokens: 0, refilledAt: 0 }, bucket, 60_000);
+    expect(state.tokens).toBe(1);
+  });
+});
+
+describe('OtpRateLimiter', () => {
+  let events: OtpSecurityEvent[];
+  let limiter: OtpRateLimiter;
+
+  beforeEach(() => {
+    events = [];
+    limiter = new OtpRateLimiter(new InMemoryRateLimitBackend(), async (event) => { events.push(event); });
+  });
+
+  describe('checkRequest', () => {
+    it('allows a burst up to the phone bucket and then cools the phone down', async () => {
+      for (let i = 0; i < OTP_RATE_LIMIT_POLICY.request.phone.capacity; i++) {
+        expect((await limiter.checkRequest(subject(), 0)).allowed).toBe(true);
+      }
+
+      const denied = await limiter.checkRequest(subject(), 0);
+      expect(denied).toMatchObject({ allowed: false, reason: 'cooldown', dimension: 'phone' });
+      expect(denied.retryAfterSeconds).toBe(180);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ event_type: 'OTP_REQUEST_COOLDOWN', dimension: 'phone', strikes: 1 });
+    });
+
+    it('keys phone, IP and device separately', async () => {
+      for (let i = 0; i < 5; i++) await limiter.checkRequest(subject(), 0);
+
+      expect((await limiter.checkRequest(subject({ phone: '+919876543211' }), 0)).allowed).toBe(true);
+    });
+
+    it('limits one IP across many phone numbers', async () => {
+      const results = [];
+      for (let i = 0; i < 21; i++) {
+        results.push(await limiter.checkRequest(subject({ phone: `+9198765432${String(i).padStart(2, '0')}`, deviceFingerprint: null }), 0));
+      }
+
+      expect(results.slice(0, 20).every(result => result.allowed)).toBe(true);
+      expect(results[20]).toMatchObject({ allowed: false, dimension: 'ip' });
+    });
+
+    it('escalates cooldowns for repeat offenders', async () => {
+      for (let i = 0; i < 6; i++) await limiter.checkRequest(subject(), 0);
+
+      // Wait out the first cooldown, then drain the bucket again
+      let now = 3 * MINUTE;
+      let result;
+      do {
+        result = await limiter.checkRequest(subject(), now);
+        now += 1;
+      } while (result.allowed);
+
+      expect(events.map(event => event.strikes)).toEqual([1, 2]);
+      expect(result.retryAfterSeconds).toBe(5 * 60);
+    });
+
+    it('skips dimensions the request does not have', async () => {
+      for (let i = 0; i < 20; i++) {
+        expect((await limiter.checkRequest(subject({ phone: `+91987654${String(i).padStart(4, '0')}`, ip: null, deviceFingerprint: null }), 0)).allowed).toBe(true);
+      }
+    });
+  });
+
+  describe('verification lockouts', () => {
+    it('locks the phone after repeated wrong codes', async () => {
+      for (let i = 0; i < OTP_RATE_LIMIT_POLICY.maxVerifyFailures - 1; i++) {
+        expect((await limiter.recordVerifyFailure(subject(), i)).allowed).toBe(true);
+      }
+
+      const lockout = await limiter.recordVerifyFailure(subject(), 10);
+      expect(lockout).toMatchObject({ allowed: false, reason: 'locked', retryAfterSeconds: 15 * 60 });
+      expect(events).toEqual([expect.objectContaining({ event_type: 'OTP_VERIFY_LOCKOUT', severity: 'high', strikes: 1 })]);
+
+      expect(await limiter.checkVerify(subject(), 20)).toMatchObject({ allowed: false, reason: 'locked' });
+      expect((await limiter.checkVerify(subject(), 10 + 15 * MINUTE)).allowed).toBe(true);
+    });
+
+    it('forgets failures outside the window', async () => {
+      for (let i = 0; i < 4; i++) await limiter.recordVerifyFailure(subject(), 0);
+
+      expect((await limiter.recordVerifyFailure(subject(), 16 * MINUTE)).allowed).toBe(true);
+      expect(events).toHaveLength(0);
+    });
+
+    it('resets failures after a successful verification', async () => {
+      for (let i = 0; i < 4; i++) await limiter.recordVerifyFailure(subject(), 0);
+      await limiter.recordVerifySuccess(subject());
+
+      expect((await limiter.recordVerifyFailure(subject(), 1)).allowed).toBe(true);
+    });
+
+    it('lengthens each lockout', async () => {
+      for (let i = 0; i < 5; i++) await limiter.recordVerifyFailure(subject(), 0);
+      let second;
+      for (let i = 0; i < 5; i++) second = await limiter.recordVerifyFailure(subject(), 20 * MINUTE);
+
+      expect(second).toMatchObject({ allowed: false, retryAfterSeconds: 60 * 60 });
+    });
+
+    it('counts every one of several concurrent wrong codes', async () => {
+      const results = await Promise.all(
+        Array.from({ length: OTP_RATE_LIMIT_POLICY.maxVerifyFailures }, () => limiter.recordVerifyFailure(subject(), 0))
+      );
+
+      expect(results.filter(result => !result.allowed)).toHaveLength(1);
+      expect(events).toHaveLength(1);
+      expect(await limiter.checkVerify(subject(), 1)).toMatchObject({ allowed: false, reason: 'locked' });
+    });
+  });
+
+  it('does not fail the check when the security event cannot be recorded', async () => {
+    const failing = new OtpRateLimiter(new InMemoryRateLimitBackend(), async () => { throw new Error('down'); });
+    for (let i = 0; i < 5; i++) await failing.checkRequest(subject(), 0);
+
+    expect((await failing.checkRequest(subject(), 0)).allowed).toBe(false);
+  });
+});
+
+describe('getClientIp', () => {
+  it('uses the first forwarded hop', () => {
+    expect(getClientIp(new Headers({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }))).toBe('203.0.113.7');
+    expect(getClientIp(new Headers({ 'x-real-ip': '198.51.100.2' }))).toBe('198.51.100.2');
+    expect(getClientIp(new Headers())).toBeNull();
+  });
+});
@@ -279,7 +279,7 @@ describe('AdminMFAService', () => {
       
       vi.mocked(require('@/lib/supabase/supabase').createClient).mockReturnValue(mockSupabase as any);
       
-      const result = await AdminMFAService.verifyMFACode('admin-user-id', '123456', 'test-secret');
+      const result = await AdminMFAService.verifyMFACode('admin-user-id', '123456');
       
       expect(result.success).toBe(true);
     });
@@ -11,6 +11,7 @@ import { BookingState } from '@/lib/booking/BookingStates';
 import { BookingEvent } from '@/lib/booking/EventMap';
 import { TrustInjectionResult } from '@/lib/booking/TrustTriggerMap';
 import { ConversionHookResult } from '@/lib/booking/ConversionHooks';
+import { InMemoryBookingFlowStore } from '@/lib/booking/BookingFlowStore';
 
 describe('Booking Control & Conversion Layer Integration Tests', () => {
   let bookingFlowEngine: BookingFlowEngine;
@@ -316,4 +317,41 @@ describe('Booking Control & Conversion Layer Integration Tests', () => {
       expect(context?.customerId).toBe(data.customer);
     }
   });
-});
\ No newline at end of file
+
+  test('should resume a booking flow on another engine instance sharing a store', async () => {
+    const store = new InMemoryBookingFlowStore();
+    const firstInstance = new BookingFlowEngine({}, undefined, undefined, store);
+    const secondInstance = new BookingFlowEngine({}, undefined, undefined, store);
+    const bookingId = 'test-booking-resume';
+
+    await firstInstance.initializeBookingFlow(bookingId, 'test-customer-resume', 'test-session-resume');
+    await firstInstance.transitionBookingState(bookingId, BookingState.VALIDATING, 'inputs received');
+
+    // Second instance has nothing cached until it resumes from the store
+    expect(secondInstance.getBookingContext(bookingId)).toBeUndefined();
+    const resumeResult = await secondInstance.resumeBookingFlow(bookingId);
+    expect(resumeResult.success).toBe(true);
+    expect(resumeResult.newState).toBe(BookingState.VALIDATING);
+
+    const resumed = secondInstance.getBookingContext(bookingId);
+    expect(resumed?.stateMachine.stateHistory).toHaveLength(1);
+    expect(resumed?.stateMachine.stateHistory[0].reason).toBe('inputs received');
+    expect(resumed?.stateMachine.createdAt).toBeInstanceOf(Date);
+
+    // Second instance advances the flow; the stale first instance is rejected
+    const advanced = await secondInstance.transitionBookingState(bookingId, BookingState.TECHNICIAN_MATCH);
+    expect(advanced.success).toBe(true);
+
+    const stale = await firstInstance.transitionBookingState(bookingId, BookingState.TECHNICIAN_MATCH);
+    expect(stale.success).toBe(false);
+
+    // After the conflict the first instance reloads and continues from the stored state
+    const retried = await firstInstance.transitionBookingState(bookingId, BookingState.ASSIGNED);
+    expect(retried.success).toBe(true);
+    expect(firstInstance.getBookingContext(bookingId)?.stateMachine.stateHistory.map(t => t.to)).toEqual([
+      BookingState.VALIDATING,
+      BookingState.TECHNICIAN_MATCH,
+      BookingState.ASSIGNED,
+    ]);
+  });
+});
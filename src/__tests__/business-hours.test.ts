@@ -0,0 +1,114 @@
+/**
+ * Unit tests for business-hours calendars used by the SLA clock
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  BusinessCalendar,
+  ALWAYS_OPEN_CALENDAR,
+  calculateBusinessMinutes,
+  getBusinessCalendarForTicket,
+  subtractPausedIntervals,
+} from '@/lib/utils/business-hours';
+import { getSLAStatus } from '@/lib/utils/sla-utils';
+import { Ticket } from '@/lib/types/ticket';
+
+const SHOP_HOURS = [{ start: '10:00', end: '20:00' }];
+
+// Mon-Sat 10:00-20:00 IST, Sunday off, Republic Day holiday
+const shopCalendar: BusinessCalendar = {
+  id: 'hyd-default',
+  name: 'Hyderabad shop hours',
+  timezone: 'Asia/Kolkata',
+  city: 'Hyderabad',
+  weekly_hours: { 1: SHOP_HOURS, 2: SHOP_HOURS, 3: SHOP_HOURS, 4: SHOP_HOURS, 5: SHOP_HOURS, 6: SHOP_HOURS },
+  holidays: ['2026-01-26'],
+  active: true,
+};
+
+const ist = (local: string) => new Date(`${local}+05:30`);
+
+describe('calculateBusinessMinutes', () => {
+  it('matches wall-clock minutes for the always-open calendar', () => {
+    expect(calculateBusinessMinutes(ist('2026-03-01T22:00:00'), ist('2026-03-02T11:30:00'), ALWAYS_OPEN_CALENDAR)).toBe(810);
+  });
+
+  it('does not count a Sunday night before the shop opens', () => {
+    // Sunday 22:00 -> Monday 11:30 is 90 minutes of business time
+    expect(calculateBusinessMinutes(ist('2026-03-01T22:00:00'), ist('2026-03-02T11:30:00'), shopCalendar)).toBe(90);
+  });
+
+  it('counts only the open part of each day across several days', () => {
+    // Monday 18:00 -> Tuesday 12:00: 2h Monday + 2h Tuesday
+    expect(calculateBusinessMinutes(ist('2026-03-02T18:00:00'), ist('2026-03-03T12:00:00'), shopCalendar)).toBe(240);
+  });
+
+  it('skips public holidays', () => {
+    // Sunday 25 Jan -> Tuesday 27 Jan 12:00: Sunday off, Monday holiday
+    expect(calculateBusinessMinutes(ist('2026-01-25T09:00:00'), ist('2026-01-27T12:00:00'), shopCalendar)).toBe(120);
+  });
+
+  it('returns zero for empty or inverted intervals', () => {
+    expect(calculateBusinessMinutes(ist('2026-03-02T12:00:00'), ist('2026-03-02T11:00:00'), shopCalendar)).toBe(0);
+  });
+});
+
+describe('subtractPausedIntervals', () => {
+  it('removes overlapping pauses and trims pauses outside the interval', () => {
+    const running = subtractPausedIntervals(
+      { start: 0, end: 100 },
+      [{ start: 20, end: 40 }, { start: 30, end: 50 }, { start: 90, end: 120 }, { start: -10, end: 5 }]
+    );
+    expect(running).toEqual([{ start: 5, end: 20 }, { start: 50, end: 90 }]);
+  });
+});
+
+describe('getBusinessCalendarForTicket', () => {
+  const storeCalendar: BusinessCalendar = { ...shopCalendar, id: 'store-1', dark_store_id: 'store-1', city: null };
+  const defaultCalendar: BusinessCalendar = { ...shopCalendar, id: 'default', city: null };
+  const calendars = [defaultCalendar, shopCalendar, storeCalendar];
+
+  it('prefers the dark store calendar, then the city, then the default', () => {
+    expect(getBusinessCalendarForTicket({ dark_store_id: 'store-1', city: 'Hyderabad' }, calendars).id).toBe('store-1');
+    expect(getBusinessCalendarForTicket({ dark_store_id: null, city: 'hyderabad' }, calendars).id).toBe('hyd-default');
+    expect(getBusinessCalendarForTicket({ city: 'Pune' }, calendars).id).toBe('default');
+  });
+
+  it('falls back to round-the-clock timing when nothing is configured', () => {
+    expect(getBusinessCalendarForTicket({ city: 'Pune' }, [])).toBe(ALWAYS_OPEN_CALENDAR);
+  });
+});
+
+describe('getSLAStatus for open tickets', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Mobile repairs have a 24 hour target under the built-in policies
+  const openTicket = {
+    id: 'ticket-1',
+    device_category: 'Mobile',
+    city: 'Hyderabad',
+    created_at: ist('2026-03-06T19:00:00').toISOString(), // Friday evening
+  } as Ticket;
+
+  it('keeps the ticket in progress while the business clock is inside the target', () => {
+    // 30 wall-clock hours later, but only 1h Friday + 10h Saturday + 1h Monday of shop time
+    vi.useFakeTimers();
+    vi.setSystemTime(ist('2026-03-09T11:00:00'));
+    expect(getSLAStatus(openTicket, { calendars: [shopCalendar] })).toBe('in-progress');
+  });
+
+  it('breaches once the business time passes the target', () => {
+    // Friday 1h + Saturday 10h + Monday 10h + Tuesday 3h 30m = 24h 30m of shop time
+    vi.useFakeTimers();
+    vi.setSystemTime(ist('2026-03-10T13:30:00'));
+    expect(getSLAStatus(openTicket, { calendars: [shopCalendar] })).toBe('breached');
+  });
+
+  it('runs on the wall clock when no calendar is passed in', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(ist('2026-03-09T11:00:00'));
+    expect(getSLAStatus(openTicket)).toBe('breached');
+  });
+});
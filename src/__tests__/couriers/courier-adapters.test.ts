@@ -0,0 +1,173 @@
+/**
+ * Courier adapter tests against the local mock courier server: quote, book, cancel, track and
+ * status webhooks for Porter, Rapido and Dunzo
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  CourierDeliveryRequest,
+  CourierError,
+  CourierWebhookSignatureError,
+  DunzoCourier,
+  isCourierStatusAdvance,
+  ManualCourier,
+  PorterCourier,
+  RapidoCourier,
+} from '@/lib/couriers';
+import { MockCourierServer, mockCourierFare } from '@/lib/couriers/mock-server';
+
+const SECRET = 'courier-webhook-secret';
+
+const request: CourierDeliveryRequest = {
+  delivery_id: 'delivery-1',
+  pickup: { address: 'KPHB Colony, Kukatpally', lat: 17.4948, lng: 78.3996, contact_name: 'Branch desk', contact_phone: '+914012345678' },
+  drop: { address: 'Madhapur', lat: 17.4483, lng: 78.3915 },
+  weight_kg: 3,
+  is_fragile: true,
+  items_description: 'Laptop',
+};
+
+const rider = { name: 'Ravi', phone: '+919800000001', lat: 17.47, lng: 78.39 };
+
+const server = new MockCourierServer();
+let porter: PorterCourier;
+let rapido: RapidoCourier;
+let dunzo: DunzoCourier;
+
+beforeAll(async () => {
+  const baseUrl = await server.start();
+  porter = new PorterCourier(`${baseUrl}/porter`, 'porter-key', SECRET);
+  rapido = new RapidoCourier(`${baseUrl}/rapido`, 'rapido-key', SECRET);
+  dunzo = new DunzoCourier(`${baseUrl}/dunzo`, 'client-1', 'dunzo-token', SECRET);
+});
+
+afterAll(async () => {
+  await server.stop();
+});
+
+describe('PorterCourier', () => {
+  it('quotes a two-wheeler for a small parcel, in rupees', async () => {
+    const quote = await porter.quote(request);
+
+    expect(quote.vehicle).toBe('2 Wheeler');
+    expect(quote.amount).toBe(mockCourierFare(request.pickup, request.drop, 50, 10));
+    expect(quote.pickup_eta_minutes).toBe(8);
+  });
+
+  it('books once per idempotency key and maps tracking statuses', async () => {
+    const first = await porter.book(request, 'courier:delivery-1:external_porter:1');
+    const retry = await porter.book(request, 'courier:delivery-1:external_porter:1');
+
+    expect(retry.provider_order_id).toBe(first.provider_order_id);
+    expect(first.status).toBe('assigned');
+    expect(first.amount).toBe(mockCourierFare(request.pickup, request.drop, 50, 10));
+
+    server.setStatus('porter', first.provider_order_id, 'live', rider);
+    const tracking = await porter.track(first.provider_order_id);
+    expect(tracking.status).toBe('in_transit');
+    expect(tracking.rider).toEqual(rider);
+  });
+
+  it('parses signed webhooks and rejects forged ones', async () => {
+    const booking = await porter.book(request, 'courier:delivery-2:external_porter:1');
+    server.setStatus('porter', booking.provider_order_id, 'ended');
+    const { body, headers } = server.webhook('porter', booking.provider_order_id, SECRET);
+
+    const event = porter.parseWebhook(body, headers);
+    expect(event?.status).toBe('delivered');
+    expect(event?.amount).toBe(booking.amount);
+    expect(() => porter.parseWebhook(body.replace('ended', 'cancelled'), headers)).toThrow(CourierWebhookSignatureError);
+  });
+
+  it('cancels an open order', async () => {
+    const booking = await porter.book(request, 'courier:delivery-3:external_porter:1');
+    await porter.cancel(booking.provider_order_id);
+    expect((await porter.track(booking.provider_order_id)).status).toBe('cancelled');
+  });
+});
+
+describe('RapidoCourier', () => {
+  it('refuses parcels a bike cannot carry', async () => {
+    await expect(rapido.quote({ ...request, weight_kg: 25 })).rejects.toThrow(CourierError);
+  });
+
+  it('quotes before booking when no quote id is given and sends the idempotency key', async () => {
+    const booking = await rapido.book(request, 'courier:delivery-4:external_rapido:1');
+    const order = server.requests.filter(req => req.slug === 'rapido' && req.path === '/v1/orders').pop();
+
+    expect(order?.headers['idempotency-key']).toBe('courier:delivery-4:external_rapido:1');
+    expect(order?.body.quote_id).toContain('rp-quote-');
+    expect(booking.amount).toBe(mockCourierFare(request.pickup, request.drop, 40, 9));
+  });
+
+  it('maps a failed attempt from the webhook', async () => {
+    const booking = await rapido.book(request, 'courier:delivery-5:external_rapido:1');
+    server.setStatus('rapido', booking.provider_order_id, 'DELIVERY_FAILED');
+    const { body, headers } = server.webhook('rapido', booking.provider_order_id, SECRET);
+
+    expect(rapido.parseWebhook(body, headers)?.status).toBe('delivery_attempted');
+  });
+});
+
+describe('DunzoCourier', () => {
+  it('books, follows the task through pickup and cancels', async () => {
+    const booking = await dunzo.book(request, 'courier:delivery-6:external_dunzo:1');
+    expect(booking.status).toBe('assigned');
+    expect(booking.provider_status).toBe('created');
+
+    server.setStatus('dunzo', booking.provider_order_id, 'pickup_complete', rider);
+    const { body, headers } = server.webhook('dunzo', booking.provider_order_id, SECRET);
+    const event = dunzo.parseWebhook(body, headers);
+    expect(event?.status).toBe('picked_up');
+    expect(event?.rider?.name).toBe('Ravi');
+
+    const other = await dunzo.book(request, 'courier:delivery-7:external_dunzo:1');
+    await dunzo.cancel(other.provider_order_id, 'Customer rescheduled');
+    expect((await dunzo.track(other.provider_order_id)).status).toBe('cancelled');
+  });
+
+  it('ignores statuses it does not track', async () => {
+    const booking = await dunzo.book(request, 'courier:delivery-8:external_dunzo:1');
+    server.setStatus('dunzo', booking.provider_order_id, 'some_new_state');
+    const { body, headers } = server.webhook('dunzo', booking.provider_order_id, SECRET);
+
+    expect(dunzo.parseWebhook(body, headers)).toBeNull();
+  });
+});
+
+describe('courier errors', () => {
+  it('marks server errors retryable and client errors final', async () => {
+    server.failNext('porter', 503);
+    const retryable = await porter.quote(request).catch(error => error);
+    expect(retryable.retryable).toBe(true);
+
+    server.failNext('porter', 400);
+    const final = await porter.quote(request).catch(error => error);
+    expect(final.retryable).toBe(false);
+  });
+
+  it('fails without credentials', async () => {
+    const unconfigured = new PorterCourier('http://127.0.0.1:1/porter', undefined, SECRET);
+    await expect(unconfigured.quote(request)).rejects.toThrow('Porter configuration is missing');
+  });
+});
+
+describe('ManualCourier', () => {
+  it('estimates the fare from distance and books without calling anyone', async () => {
+    const manual = new ManualCourier(60, 12);
+    const booking = await manual.book(request);
+
+    expect(booking.amount).toBe(mockCourierFare(request.pickup, request.drop, 60, 12));
+    expect(booking.provider_order_id).toBe('MANUAL-delivery-1');
+  });
+});
+
+describe('isCourierStatusAdvance', () => {
+  it('only moves deliveries forward and never out of a final state', () => {
+    expect(isCourierStatusAdvance('assigned', 'picked_up')).toBe(true);
+    expect(isCourierStatusAdvance('in_transit', 'picked_up')).toBe(false);
+    expect(isCourierStatusAdvance('delivery_attempted', 'in_transit')).toBe(true);
+    expect(isCourierStatusAdvance('delivered', 'cancelled')).toBe(false);
+    expect(isCourierStatusAdvance('assigned', 'cancelled')).toBe(true);
+  });
+});
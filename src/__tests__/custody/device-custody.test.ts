@@ -0,0 +1,167 @@
+/**
+ * Unit tests for the device chain of custody: geofence, hand-off rules, holder chain and OTP codes
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { checkGeofence, distanceMeters, isValidPosition } from '@/lib/custody/geofence';
+import {
+  buildCustodyChain,
+  CustodyEvent,
+  custodyEndpoint,
+  currentCustodian,
+  describeCustodyEvent,
+  requiresCustomerOtp,
+} from '@/lib/custody/chain';
+import {
+  CUSTODY_OTP_MAX_ATTEMPTS,
+  custodyOtpAttemptsUsed,
+  custodyOtpMatches,
+  custodyOtpSendError,
+  generateCustodyOtp,
+  hashCustodyOtp
+} from '@/lib/custody/otp';
+
+// Two points ~111 m apart along a meridian (0.001 degrees of latitude)
+const pickup = { lat: 17.385, lng: 78.4867 };
+const nearby = { lat: 17.386, lng: 78.4867 };
+
+function event(overrides: Partial<CustodyEvent>): CustodyEvent {
+  return {
+    id: 'e',
+    ticket_id: 'ticket-1',
+    transport_job_id: 'job-1',
+    event_type: 'picked_up',
+    holder_type: 'transporter',
+    holder_id: 'driver-1',
+    holder_name: 'Ravi',
+    lat: null,
+    lng: null,
+    accuracy_m: null,
+    distance_m: null,
+    geofence_status: null,
+    otp_verified: false,
+    photo_paths: [],
+    note: null,
+    recorded_by: null,
+    recorded_at: '2025-12-01T10:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('distanceMeters', () => {
+  it('measures great-circle distance', () => {
+    expect(distanceMeters(pickup, pickup)).toBe(0);
+    expect(Math.round(distanceMeters(pickup, nearby))).toBe(111);
+  });
+});
+
+describe('checkGeofence', () => {
+  it('accepts a fix inside the radius', () => {
+    expect(checkGeofence({ ...nearby, accuracy_m: 10 }, pickup)).toEqual({ status: 'inside', distance_m: 111, allowed_m: 155 });
+  });
+
+  it('rejects a fix outside the radius and widens it by half the accuracy', () => {
+    expect(checkGeofence({ ...nearby, accuracy_m: 10 }, pickup, 100).status).toBe('outside');
+    expect(checkGeofence({ ...nearby, accuracy_m: 30 }, pickup, 100).status).toBe('inside');
+  });
+
+  it('refuses to decide on poor fixes or missing coordinates', () => {
+    expect(checkGeofence({ ...pickup, accuracy_m: 500 }, pickup).status).toBe('low_accuracy');
+    expect(checkGeofence(pickup, { lat: null, lng: null })).toEqual({ status: 'no_target', distance_m: null, allowed_m: 150 });
+  });
+});
+
+describe('isValidPosition', () => {
+  it('rejects out-of-range and missing coordinates', () => {
+    expect(isValidPosition(pickup)).toBe(true);
+    expect(isValidPosition({ lat: 95, lng: 0 })).toBe(false);
+    expect(isValidPosition({ lat: 10 })).toBe(false);
+    expect(isValidPosition(null)).toBe(false);
+  });
+});
+
+describe('custody hand-off rules', () => {
+  it('puts the customer at the pickup end of pickup jobs and the drop end of returns', () => {
+    expect(custodyEndpoint('pickup', 'pickup')).toBe('customer');
+    expect(custodyEndpoint('pickup', 'drop')).toBe('branch');
+    expect(custodyEndpoint('delivery', 'pickup')).toBe('branch');
+    expect(custodyEndpoint('delivery', 'drop')).toBe('customer');
+  });
+
+  it('only asks for the OTP at the customer end', () => {
+    expect(requiresCustomerOtp('pickup', 'pickup')).toBe(true);
+    expect(requiresCustomerOtp('pickup', 'drop')).toBe(false);
+    expect(requiresCustomerOtp('delivery', 'drop')).toBe(true);
+  });
+});
+
+describe('buildCustodyChain', () => {
+  const customer = { type: 'customer' as const, id: 'cust-1', name: null };
+
+  it('starts a period at each change of holder and ignores arrivals', () => {
+    const chain = buildCustodyChain([
+      event({ id: 'e3', event_type: 'delivered', holder_type: 'branch', holder_id: 'br-1', holder_name: 'Ameerpet', recorded_at: '2025-12-01T11:00:00Z' }),
+      event({ id: 'e1', event_type: 'arrived_pickup', holder_type: 'customer', holder_id: 'cust-1', holder_name: null, recorded_at: '2025-12-01T09:50:00Z' }),
+      event({ id: 'e2', recorded_at: '2025-12-01T10:00:00Z' }),
+      event({ id: 'e2b', event_type: 'arrived_drop', recorded_at: '2025-12-01T10:55:00Z' }),
+    ], customer);
+
+    expect(chain.map(period => [period.holder.type, period.from, period.until, period.started_by_event_id])).toEqual([
+      ['customer', null, '2025-12-01T10:00:00Z', null],
+      ['transporter', '2025-12-01T10:00:00Z', '2025-12-01T11:00:00Z', 'e2'],
+      ['branch', '2025-12-01T11:00:00Z', null, 'e3'],
+    ]);
+  });
+
+  it('fills in an initial holder given without an identity', () => {
+    const chain = buildCustodyChain([
+      event({ id: 'e1', event_type: 'arrived_pickup', holder_type: 'customer', holder_id: 'cust-1', holder_name: 'Asha' }),
+    ], { type: 'customer', id: null, name: null });
+
+    expect(chain).toHaveLength(1);
+    expect(chain[0].holder).toEqual({ type: 'customer', id: 'cust-1', name: 'Asha' });
+  });
+
+  it('reports the last holder as the current custodian', () => {
+    expect(currentCustodian([], customer)).toEqual(customer);
+    expect(currentCustodian([event({})], customer)?.name).toBe('Ravi');
+    expect(currentCustodian([])).toBeNull();
+  });
+});
+
+describe('describeCustodyEvent', () => {
+  it('tells the customer where their device is', () => {
+    expect(describeCustodyEvent({ event_type: 'picked_up', holder_type: 'transporter', holder_name: 'Ravi' }))
+      .toBe('Your device was handed to Ravi');
+    expect(describeCustodyEvent({ event_type: 'delivered', holder_type: 'branch', holder_name: null }))
+      .toBe('Your device was received by our service centre');
+    expect(describeCustodyEvent({ event_type: 'delivered', holder_type: 'customer', holder_name: 'Asha' }))
+      .toBe('Your device was handed back to you');
+  });
+});
+
+describe('custody OTP', () => {
+  beforeAll(() => {
+    process.env.CUSTODY_OTP_SECRET = 'test-secret';
+  });
+
+  it('generates six-digit codes', () => {
+    expect(generateCustodyOtp()).toHaveLength(6);
+  });
+
+  it('matches only the same code for the same job and stage', () => {
+    const stored = hashCustodyOtp('job-1', 'pickup', '042917');
+    expect(custodyOtpMatches('job-1', 'pickup', '042917', stored)).toBe(true);
+    expect(custodyOtpMatches('job-1', 'pickup', '042918', stored)).toBe(false);
+    expect(custodyOtpMatches('job-1', 'drop', '042917', stored)).toBe(false);
+    expect(custodyOtpMatches('job-2', 'pickup', '042917', stored)).toBe(false);
+    expect(custodyOtpMatches('job-1', 'pickup', '42917', stored)).toBe(false);
+  });
+  it('carries wrong guesses over to resent codes and caps the resends', () => {
+    expect(custodyOtpSendError([])).toBeNull();
+    expect(custodyOtpAttemptsUsed([{ attempts: 2 }, { attempts: 4 }])).toBe(4);
+    expect(custodyOtpSendError([{ attempts: 2 }, { attempts: 4 }])).toBeNull();
+    expect(custodyOtpSendError([{ attempts: 1 }, { attempts: CUSTODY_OTP_MAX_ATTEMPTS }])).toBe('otp_attempts_exceeded');
+    expect(custodyOtpSendError([{ attempts: 0 }, { attempts: 1 }, { attempts: 1 }])).toBe('otp_send_limit');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for notification routing and the channel adapter fakes
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const queued: Array<{ row: Record<string, any>; options: Record<string, any> }> = [];
+
+vi.mock('@/lib/supabase/supabase', () => ({
+  supabase: {
+    from: vi.fn(() => ({
+      upsert: vi.fn(async (row: Record<string, any>, options: Record<string, any>) => {
+        queued.push({ row, options });
+        return { error: null };
+      })
+    }))
+  }
+}));
+
+import { getNotificationRoute, routeNotification } from '@/lib/services/notificationRouter';
+import {
+  ChannelDeliveryError,
+  FakeChannelAdapter,
+  createFakeChannelAdapters,
+  httpDeliveryError,
+} from '@/lib/notifications/channels';
+
+const notification = {
+  id: 'row-1',
+  ticket_id: 'ticket-1',
+  customer_id: 'customer-1',
+  event_type: 'job_completed',
+  channel: 'whatsapp' as const,
+  message: 'Your device is ready',
+  priority: 4,
+};
+
+describe('getNotificationRoute', () => {
+  it('routes by priority', () => {
+    expect(getNotificationRoute(5).channels).toEqual(['push', 'whatsapp', 'in_app']);
+    expect(getNotificationRoute(2).channels).toEqual(['push', 'in_app']);
+    expect(getNotificationRoute(0).priority).toBe('low');
+  });
+
+  it('always includes the channel the rule asks for', () => {
+    expect(getNotificationRoute(2, 'email').channels).toEqual(['push', 'in_app', 'email']);
+    expect(getNotificationRoute(5, 'whatsapp').channels).toEqual(['push', 'whatsapp', 'in_app']);
+  });
+});
+
+describe('routeNotification', () => {
+  beforeEach(() => {
+    queued.length = 0;
+  });
+
+  it('queues one row per channel with per-channel idempotency keys', async () => {
+    const ok = await routeNotification({
+      ticketId: 'ticket-1',
+      customerId: 'customer-1',
+      eventKey: 'job_completed',
+      message: 'Your device is ready',
+      priority: 4,
+      idempotencyKey: 'job_completed:ticket-1',
+    });
+
+    expect(ok).toBe(true);
+    expect(queued.map(q => [q.row.channel, q.row.idempotency_key])).toEqual([
+      ['push', 'job_completed:ticket-1:push'],
+      ['whatsapp', 'job_completed:ticket-1:whatsapp'],
+      ['in_app', 'job_completed:ticket-1:in_app'],
+    ]);
+    expect(queued[0].options).toEqual({ onConflict: 'idempotency_key', ignoreDuplicates: true });
+  });
+});
+
+describe('FakeChannelAdapter', () => {
+  it('provides a fake for every channel', () => {
+    expect(createFakeChannelAdapters().map(adapter => adapter.channel)).toEqual(['push', 'whatsapp', 'sms', 'email', 'in_app']);
+  });
+
+  it('records a message once per idempotency key', async () => {
+    const adapter = new FakeChannelAdapter('whatsapp');
+    const first = await adapter.send(notification, 'key-1');
+    const repeat = await adapter.send(notification, 'key-1');
+
+    expect(repeat).toEqual(first);
+    expect(adapter.deliveries).toHaveLength(1);
+  });
+
+  it('fails on demand, then recovers', async () => {
+    const adapter = new FakeChannelAdapter('sms').failWith(new ChannelDeliveryError('503'));
+
+    await expect(adapter.send(notification, 'key-1')).rejects.toThrow('503');
+    await expect(adapter.send(notification, 'key-1')).resolves.toEqual({ provider_message_id: 'fake-sms-1' });
+  });
+});
+
+describe('httpDeliveryError', () => {
+  it('retries rate limits and server errors only', () => {
+    expect(httpDeliveryError('Interakt', 429, '').retryable).toBe(true);
+    expect(httpDeliveryError('Interakt', 502, '').retryable).toBe(true);
+    expect(httpDeliveryError('Interakt', 400, 'bad template').retryable).toBe(false);
+  });
+});
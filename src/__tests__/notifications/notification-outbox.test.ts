@@ -0,0 +1,303 @@
+/**
+ * Unit tests for the customer notification outbox worker
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  ChannelDeliveryError,
+  FakeChannelAdapter,
+  NotificationChannelAdapter,
+  OutboundNotification,
+} from '@/lib/notifications/channels';
+import {
+  DEFAULT_OUTBOX_OPTIONS,
+  NotificationOutboxWorker,
+  QueuedNotification,
+  computeBackoffSeconds,
+  planFailure,
+  toProviderIdempotencyKey,
+} from '@/lib/notifications/notification-outbox';
+import { CustomerNotificationPreferences, defaultNotificationPreferences } from '@/lib/notifications/preferences';
+import type { TemplateApproval } from '@/lib/notifications/templates';
+import { verifyUnsubscribeToken } from '@/lib/notifications/unsubscribe';
+
+process.env.NOTIFICATION_UNSUBSCRIBE_SECRET = 'test-unsubscribe-secret';
+
+const NOW = new Date('2025-12-16T10:00:00Z');
+
+function queuedRow(overrides: Partial<QueuedNotification> = {}): QueuedNotification {
+  return {
+    id: 'row-1',
+    ticket_id: 'ticket-1',
+    customer_id: 'customer-1',
+    event_type: 'job_completed',
+    channel: 'push',
+    message: 'Your device is ready',
+    priority: 3,
+    status: 'processing',
+    idempotency_key: 'ticket-1:job_completed:push:2025-12-16T10',
+    attempt_count: 1,
+    retry_count: 0,
+    next_attempt_at: NOW.toISOString(),
+    locked_by: null,
+    lease_expires_at: null,
+    last_error: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Just enough of the Supabase client for the worker: the claim RPC, row updates and log inserts
+ */
+function fakeSupabase(claimed: QueuedNotification[]) {
+  const updates: Array<{ id: string; lockedBy: string; changes: Record<string, any> }> = [];
+  const logs: Record<string, any>[] = [];
+
+  const client = {
+    rpc: async () => ({ data: claimed, error: null }),
+    from: (table: string) => ({
+      update: (changes: Record<string, any>) => ({
+        eq: (_column: string, id: string) => ({
+          eq: async (_lockColumn: string, lockedBy: string) => {
+            updates.push({ id, lockedBy, changes });
+            return { error: null };
+          },
+        }),
+      }),
+      insert: async (rows: Record<string, any>[]) => {
+        if (table === 'customer_notifications_log') logs.push(...rows);
+        return { error: null };
+      },
+    }),
+  };
+
+  return { client: client as unknown as SupabaseClient, updates, logs };
+}
+
+/**
+ * Preferences loader returning the same preferences for every customer
+ */
+function preferencesLoader(overrides: Partial<CustomerNotificationPreferences> = {}) {
+  return {
+    get: async (customerId: string) => ({ ...defaultNotificationPreferences(customerId), ...overrides }),
+  };
+}
+
+class FakePushAdapter implements NotificationChannelAdapter {
+  readonly channel = 'push' as const;
+  readonly keys: string[] = [];
+  readonly notifications: OutboundNotification[] = [];
+
+  constructor(private failure?: Error) {}
+
+  async send(notification: OutboundNotification, idempotencyKey: string) {
+    this.keys.push(idempotencyKey);
+    this.notifications.push(notification);
+    if (this.failure) throw this.failure;
+    return { provider_message_id: 'provider-1' };
+  }
+}
+
+describe('computeBackoffSeconds', () => {
+  it('doubles per attempt up to the cap', () => {
+    const options = { baseBackoffSeconds: 30, maxBackoffSeconds: 600 };
+    expect([1, 2, 3, 4, 5, 6].map(attempt => computeBackoffSeconds(attempt, options))).toEqual([30, 60, 120, 240, 480, 600]);
+  });
+});
+
+describe('planFailure', () => {
+  it('schedules a retry with backoff', () => {
+    const plan = planFailure({ attempt_count: 2 }, new ChannelDeliveryError('503'), DEFAULT_OUTBOX_OPTIONS, NOW);
+    expect(plan.status).toBe('pending');
+    expect(plan.next_attempt_at).toBe('2025-12-16T10:01:00.000Z');
+  });
+
+  it('dead-letters after the maximum attempts', () => {
+    const plan = planFailure({ attempt_count: 5 }, new Error('timeout'), DEFAULT_OUTBOX_OPTIONS, NOW);
+    expect(plan.status).toBe('dead_letter');
+    expect(plan.last_error).toBe('Gave up after 5 attempts: timeout');
+  });
+
+  it('dead-letters non-retryable errors immediately', () => {
+    const plan = planFailure({ attempt_count: 1 }, new ChannelDeliveryError('No push subscription', false), DEFAULT_OUTBOX_OPTIONS, NOW);
+    expect(plan.status).toBe('dead_letter');
+    expect(plan.dead_lettered_at).toBe(NOW.toISOString());
+  });
+});
+
+describe('toProviderIdempotencyKey', () => {
+  it('derives a stable UUID per key', () => {
+    const key = toProviderIdempotencyKey('ticket-1:job_completed:push:2025-12-16T10');
+    expect(key).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-a[0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(toProviderIdempotencyKey('ticket-1:job_completed:push:2025-12-16T10')).toBe(key);
+    expect(toProviderIdempotencyKey('ticket-2:job_completed:push:2025-12-16T10')).not.toBe(key);
+  });
+});
+
+describe('NotificationOutboxWorker', () => {
+  it('marks delivered rows sent and logs them', async () => {
+    const { client, updates, logs } = fakeSupabase([queuedRow()]);
+    const adapter = new FakePushAdapter();
+    const worker = new NotificationOutboxWorker({}, client, [adapter], preferencesLoader());
+
+    const summary = await worker.run();
+
+    expect(summary).toMatchObject({ claimed: 1, sent: 1, retried: 0, dead_lettered: 0 });
+    expect(adapter.keys).toEqual([toProviderIdempotencyKey('ticket-1:job_completed:push:2025-12-16T10')]);
+    expect(updates[0]).toMatchObject({ id: 'row-1', lockedBy: worker.workerId, changes: { status: 'sent', provider_message_id: 'provider-1', locked_by: null } });
+    expect(logs).toHaveLength(1);
+  });
+
+  it('retries retryable failures and dead-letters rows without an adapter', async () => {
+    const { client, updates } = fakeSupabase([queuedRow(), queuedRow({ id: 'row-2', channel: 'sms' })]);
+    const worker = new NotificationOutboxWorker({}, client, [new FakePushAdapter(new ChannelDeliveryError('503'))], preferencesLoader());
+
+    const summary = await worker.run();
+
+    expect(summary).toMatchObject({ claimed: 2, sent: 0, retried: 1, dead_lettered: 1 });
+    expect(updates.map(update => [update.id, update.changes.status, update.changes.retry_count])).toEqual([
+      ['row-1', 'pending', 1],
+      ['row-2', 'dead_letter', 1],
+    ]);
+  });
+
+  it('attaches a one-click unsubscribe link for the channel', async () => {
+    const { client } = fakeSupabase([queuedRow()]);
+    const adapter = new FakePushAdapter();
+    await new NotificationOutboxWorker({}, client, [adapter], preferencesLoader()).run();
+
+    const url = new URL(adapter.notifications[0].unsubscribe_url!, 'https://app.example');
+    expect(verifyUnsubscribeToken(url.searchParams.get('token')!)).toEqual({ customer_id: 'customer-1', channel: 'push' });
+  });
+
+  it('sends without the unsubscribe link when the signing secret is missing', async () => {
+    const secret = process.env.NOTIFICATION_UNSUBSCRIBE_SECRET;
+    delete process.env.NOTIFICATION_UNSUBSCRIBE_SECRET;
+    try {
+      const { client, updates } = fakeSupabase([queuedRow()]);
+      const adapter = new FakePushAdapter();
+      const summary = await new NotificationOutboxWorker({}, client, [adapter], preferencesLoader()).run();
+
+      expect(summary).toMatchObject({ sent: 1, retried: 0, dead_lettered: 0 });
+      expect(adapter.notifications[0].unsubscribe_url).toBeUndefined();
+      expect(updates.map(update => update.changes.status)).toEqual(['sent']);
+    } finally {
+      process.env.NOTIFICATION_UNSUBSCRIBE_SECRET = secret;
+    }
+  });
+
+  it('suppresses channels the customer opted out of', async () => {
+    const { client, updates, logs } = fakeSupabase([queuedRow(), queuedRow({ id: 'row-2', channel: 'whatsapp' })]);
+    const adapter = new FakePushAdapter();
+    const worker = new NotificationOutboxWorker({}, client, [adapter], preferencesLoader({ channel_opt_outs: { job_completed: ['push'] } }));
+
+    const summary = await worker.run();
+
+    // Push was switched off for this event; WhatsApp was never consented to
+    expect(summary).toMatchObject({ claimed: 2, sent: 0, suppressed: 2 });
+    expect(adapter.keys).toEqual([]);
+    expect(updates.map(update => update.changes.status)).toEqual(['suppressed', 'suppressed']);
+    expect(logs).toHaveLength(0);
+  });
+
+  it('defers messages in quiet hours without using up an attempt', async () => {
+    const hour = new Date().getUTCHours();
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const { client, updates } = fakeSupabase([queuedRow({ attempt_count: 1 })]);
+    const adapter = new FakePushAdapter();
+    const worker = new NotificationOutboxWorker({}, client, [adapter], preferencesLoader({
+      timezone: 'UTC',
+      quiet_hours_start: `${pad((hour + 23) % 24)}:00`,
+      quiet_hours_end: `${pad((hour + 1) % 24)}:00`,
+    }));
+
+    const summary = await worker.run();
+
+    expect(summary).toMatchObject({ claimed: 1, sent: 0, deferred: 1 });
+    expect(adapter.keys).toEqual([]);
+    expect(updates[0].changes).toMatchObject({ status: 'pending', attempt_count: 0, locked_by: null });
+    expect(new Date(updates[0].changes.next_attempt_at).getUTCHours()).toBe((hour + 1) % 24);
+  });
+
+  describe('templated messages', () => {
+    const templated = (overrides: Partial<QueuedNotification> = {}) => queuedRow({
+      channel: 'whatsapp',
+      message: 'Your ticket is pending',
+      template_key: 'ticket_pending',
+      template_values: { name: 'Ravi', ticket_id: 'A1B2C3D4' },
+      ...overrides,
+    });
+    const approval = (locale: TemplateApproval['locale'], status: TemplateApproval['status']): TemplateApproval => ({
+      template_key: 'ticket_pending',
+      version: 1,
+      locale,
+      status,
+      provider_template_name: null,
+      rejection_reason: null,
+    });
+    const consented = { whatsapp_consent_at: '2025-12-01T00:00:00Z' };
+
+    it('sends the approved version in the customer language', async () => {
+      const { client, logs } = fakeSupabase([templated()]);
+      const adapter = new FakeChannelAdapter('whatsapp');
+      const worker = new NotificationOutboxWorker({}, client, [adapter], preferencesLoader({ ...consented, language: 'hi' }), async () => [
+        approval('en', 'approved'),
+        approval('hi', 'approved'),
+      ]);
+
+      expect(await worker.run()).toMatchObject({ sent: 1 });
+      expect(adapter.deliveries[0].notification.message).toMatch(/^नमस्ते Ravi, आपका टिकट A1B2C3D4/);
+      expect(logs[0].message).toBe(adapter.deliveries[0].notification.message);
+    });
+
+    it('falls back to English when the customer language is not approved', async () => {
+      const { client } = fakeSupabase([templated()]);
+      const adapter = new FakeChannelAdapter('whatsapp');
+      const worker = new NotificationOutboxWorker({}, client, [adapter], preferencesLoader({ ...consented, language: 'hi' }), async () => [
+        approval('en', 'approved'),
+        approval('hi', 'pending'),
+      ]);
+
+      await worker.run();
+      expect(adapter.deliveries[0].notification.message).toMatch(/^Hi Ravi, your ticket A1B2C3D4/);
+    });
+
+    it('holds back WhatsApp messages with no approved version', async () => {
+      const { client, updates } = fakeSupabase([templated()]);
+      const adapter = new FakeChannelAdapter('whatsapp');
+      const worker = new NotificationOutboxWorker({}, client, [adapter], preferencesLoader(consented), async () => [
+        approval('en', 'paused'),
+      ]);
+
+      expect(await worker.run()).toMatchObject({ sent: 0, suppressed: 1 });
+      expect(adapter.deliveries).toHaveLength(0);
+      expect(updates[0].changes).toMatchObject({ status: 'suppressed', last_error: 'No approved whatsapp version of template ticket_pending' });
+    });
+
+    it('renders other channels without waiting for approval', async () => {
+      const { client } = fakeSupabase([templated({ channel: 'sms' }), templated({ id: 'row-2', channel: 'push' })]);
+      const sms = new FakeChannelAdapter('sms');
+      const push = new FakeChannelAdapter('push');
+      let approvalLookups = 0;
+      const worker = new NotificationOutboxWorker({}, client, [sms, push], preferencesLoader(), async () => {
+        approvalLookups++;
+        return [];
+      });
+
+      expect(await worker.run()).toMatchObject({ sent: 2 });
+      expect(sms.deliveries[0].notification.message).toMatch(/^Hi Ravi, your ticket A1B2C3D4/);
+      // No version of the template covers push, so its own message goes out
+      expect(push.deliveries[0].notification.message).toBe('Your ticket is pending');
+      expect(approvalLookups).toBe(0);
+    });
+
+    it('dead-letters a template whose values are missing', async () => {
+      const { client, updates } = fakeSupabase([templated({ channel: 'sms', template_values: { name: 'Ravi' } })]);
+      const worker = new NotificationOutboxWorker({}, client, [new FakeChannelAdapter('sms')], preferencesLoader(), async () => []);
+
+      expect(await worker.run()).toMatchObject({ dead_lettered: 1 });
+      expect(updates[0].changes.status).toBe('dead_letter');
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for customer notification preferences and unsubscribe tokens
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CustomerNotificationPreferences,
+  defaultNotificationPreferences,
+  diffConsent,
+  evaluateDelivery,
+  getQuietHoursEnd,
+  isChannelEnabled,
+} from '@/lib/notifications/preferences';
+import { createUnsubscribeToken, verifyUnsubscribeToken } from '@/lib/notifications/unsubscribe';
+
+process.env.NOTIFICATION_UNSUBSCRIBE_SECRET = 'test-unsubscribe-secret';
+
+function preferences(overrides: Partial<CustomerNotificationPreferences> = {}): CustomerNotificationPreferences {
+  return { ...defaultNotificationPreferences('customer-1'), ...overrides };
+}
+
+describe('isChannelEnabled', () => {
+  it('needs WhatsApp consent', () => {
+    expect(isChannelEnabled(preferences(), 'job_completed', 'whatsapp')).toBe(false);
+    expect(isChannelEnabled(preferences({ whatsapp_consent_at: '2025-12-01T00:00:00Z' }), 'job_completed', 'whatsapp')).toBe(true);
+  });
+
+  it('applies opt-outs for all events and for one event', () => {
+    const prefs = preferences({ channel_opt_outs: { '*': ['sms'], sla_risk: ['push'] } });
+    expect(isChannelEnabled(prefs, 'job_completed', 'sms')).toBe(false);
+    expect(isChannelEnabled(prefs, 'job_completed', 'push')).toBe(true);
+    expect(isChannelEnabled(prefs, 'sla_risk', 'push')).toBe(false);
+  });
+
+  it('covers related event types with the same preference', () => {
+    const prefs = preferences({ channel_opt_outs: { sla_risk: ['push'] } });
+    expect(isChannelEnabled(prefs, 'part_delay', 'push')).toBe(false);
+    expect(isChannelEnabled(prefs, 'sla_breached', 'push')).toBe(false);
+  });
+});
+
+describe('getQuietHoursEnd', () => {
+  // 22:00-07:00 in India (UTC+05:30)
+  const quiet = preferences({ quiet_hours_start: '22:00', quiet_hours_end: '07:00' });
+
+  it('is null outside quiet hours', () => {
+    expect(getQuietHoursEnd(quiet, new Date('2025-12-16T10:00:00Z'))).toBeNull(); // 15:30 IST
+    expect(getQuietHoursEnd(preferences(), new Date('2025-12-16T18:00:00Z'))).toBeNull();
+  });
+
+  it('ends the next morning when quiet hours span midnight', () => {
+    // 23:30 IST -> 07:00 IST the next day
+    expect(getQuietHoursEnd(quiet, new Date('2025-12-16T18:00:00Z'))?.toISOString()).toBe('2025-12-17T01:30:00.000Z');
+    // 02:00 IST -> 07:00 IST the same day
+    expect(getQuietHoursEnd(quiet, new Date('2025-12-16T20:30:00Z'))?.toISOString()).toBe('2025-12-17T01:30:00.000Z');
+  });
+
+  it('uses the customer timezone', () => {
+    const london = preferences({ timezone: 'Europe/London', quiet_hours_start: '22:00', quiet_hours_end: '07:00' });
+    expect(getQuietHoursEnd(london, new Date('2025-12-16T18:00:00Z'))).toBeNull();
+    expect(getQuietHoursEnd(london, new Date('2025-12-16T23:00:00Z'))?.toISOString()).toBe('2025-12-17T07:00:00.000Z');
+  });
+});
+
+describe('evaluateDelivery', () => {
+  const quiet = preferences({ quiet_hours_start: '22:00', quiet_hours_end: '07:00' });
+  const night = new Date('2025-12-16T18:00:00Z');
+
+  it('defers during quiet hours instead of dropping', () => {
+    expect(evaluateDelivery(quiet, 'job_completed', 'push', night)).toEqual({ action: 'defer', until: new Date('2025-12-17T01:30:00Z') });
+  });
+
+  it('always delivers to the in-app inbox', () => {
+    expect(evaluateDelivery(quiet, 'job_completed', 'in_app', night)).toEqual({ action: 'send' });
+  });
+
+  it('suppresses opted-out channels even in quiet hours', () => {
+    expect(evaluateDelivery(quiet, 'job_completed', 'whatsapp', night).action).toBe('suppress');
+  });
+
+  it('sends transactional codes through quiet hours and opt-outs, but not to WhatsApp without consent', () => {
+    const optedOut = preferences({ ...quiet, channel_opt_outs: { '*': ['sms', 'push'] } });
+
+    expect(evaluateDelivery(optedOut, 'custody_otp', 'sms', night)).toEqual({ action: 'send' });
+    expect(evaluateDelivery(optedOut, 'custody_otp', 'push', night)).toEqual({ action: 'send' });
+    expect(evaluateDelivery(optedOut, 'custody_otp', 'whatsapp', night).action).toBe('suppress');
+    expect(evaluateDelivery(optedOut, 'job_completed', 'sms', night).action).toBe('suppress');
+  });
+});
+
+describe('diffConsent', () => {
+  it('lists each granted and revoked channel', () => {
+    const before = preferences({ channel_opt_outs: { '*': ['sms'] } });
+    const after = preferences({ channel_opt_outs: { '*': ['email'] }, whatsapp_consent_at: '2025-12-16T10:00:00Z' });
+
+    expect(diffConsent(before, after)).toEqual([
+      { channel: 'whatsapp', event_type: '*', action: 'granted' },
+      { channel: 'sms', event_type: '*', action: 'granted' },
+      { channel: 'email', event_type: '*', action: 'revoked' },
+    ]);
+    expect(diffConsent(after, after)).toEqual([]);
+  });
+});
+
+describe('unsubscribe tokens', () => {
+  it('round-trips a customer and channel', () => {
+    const token = createUnsubscribeToken({ customer_id: 'customer-1', channel: 'sms' });
+    expect(verifyUnsubscribeToken(token)).toEqual({ customer_id: 'customer-1', channel: 'sms' });
+  });
+
+  it('rejects tampered tokens', () => {
+    const token = createUnsubscribeToken({ customer_id: 'customer-1', channel: 'sms' });
+    expect(verifyUnsubscribeToken(token.replace('customer-1', 'customer-2'))).toBeNull();
+    expect(verifyUnsubscribeToken(token.replace('.sms.', '.email.'))).toBeNull();
+    expect(verifyUnsubscribeToken('garbage')).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Unit tests for the versioned notification template registry
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  canTransitionApproval,
+  getNotificationTemplate,
+  parseTemplate,
+  previewNotificationTemplate,
+  registerNotificationTemplate,
+  renderNotificationTemplate,
+  renderTemplate,
+  sampleTemplateVariables,
+  selectTemplateVersion,
+  TemplateApproval,
+  TemplateRenderError,
+  TemplateSyntaxError,
+} from '@/lib/notifications/templates';
+import { WhatsAppTemplate } from '@/lib/utils/whatsapp-template';
+
+function approval(overrides: Partial<TemplateApproval>): TemplateApproval {
+  return {
+    template_key: 'test_versions',
+    version: 1,
+    locale: 'en',
+    status: 'approved',
+    provider_template_name: null,
+    rejection_reason: null,
+    ...overrides,
+  };
+}
+
+describe('renderTemplate', () => {
+  const PARTS = '{{count, plural, =0 {no parts} one {# part} other {# parts for {{name}}}}}';
+
+  it('substitutes variables', () => {
+    expect(renderTemplate('Hi {{name}}, ticket {{ ticket_id }}', { name: 'Ravi', ticket_id: 'T1' }, { locale: 'en' }))
+      .toBe('Hi Ravi, ticket T1');
+  });
+
+  it('selects plural branches with exact matches first', () => {
+    expect(renderTemplate(PARTS, { count: 0, name: 'Ravi' }, { locale: 'en' })).toBe('no parts');
+    expect(renderTemplate(PARTS, { count: 1, name: 'Ravi' }, { locale: 'en' })).toBe('1 part');
+    expect(renderTemplate(PARTS, { count: 1200, name: 'Ravi' }, { locale: 'en' })).toBe('1,200 parts for Ravi');
+  });
+
+  it('formats typed variables for the locale', () => {
+    const variables = [
+      { name: 'amount', type: 'currency' as const, required: true, example: 100 },
+      { name: 'on', type: 'date' as const, required: true, example: '2025-12-20' },
+    ];
+    const rendered = renderTemplate('{{amount}} on {{on}}', { amount: 1499, on: '2025-12-20T10:00:00+05:30' }, { locale: 'en', variables });
+
+    expect(rendered).toContain('₹1,499');
+    expect(rendered).toContain('2025');
+  });
+
+  it('rejects missing and mistyped values', () => {
+    const variables = [
+      { name: 'name', type: 'string' as const, required: true, example: 'Ravi' },
+      { name: 'link', type: 'url' as const, required: false, example: 'https://example.com' },
+    ];
+
+    expect(() => renderTemplate('Hi {{name}}', {}, { locale: 'en', variables })).toThrow(TemplateRenderError);
+    expect(() => renderTemplate('Hi {{name}}', {}, { locale: 'en' })).toThrow(TemplateRenderError);
+    expect(() => renderTemplate('{{link}}', { name: 'Ravi', link: 'javascript:alert(1)' }, { locale: 'en', variables }))
+      .toThrow(TemplateRenderError);
+    expect(renderTemplate('Hi {{name}}{{link}}', { name: 'Ravi' }, { locale: 'en', variables })).toBe('Hi Ravi');
+  });
+
+  it('escapes values for WhatsApp and SMS', () => {
+    const value = 'Line one\n\t*bold*     _x_';
+
+    const fenced = (marker: string) => `\u200B${marker}\u200B`;
+
+    expect(renderTemplate('*{{v}}*', { v: value }, { locale: 'en', format: 'whatsapp' }))
+      .toBe(`*Line one ${fenced('*')}bold${fenced('*')}   ${fenced('_')}x${fenced('_')}*`);
+    expect(renderTemplate('{{v}}', { v: 'a\r\nb' }, { locale: 'en', format: 'sms' })).toBe('a b');
+  });
+
+  it('leaves markers inside words and URLs alone on WhatsApp', () => {
+    const variables = [{ name: 'link', type: 'url' as const, required: true, example: 'https://example.com' }];
+    const link = 'https://jamestronic.com/track/_a1_~b*?ref=wa_share';
+
+    expect(renderTemplate('{{status}}', { status: 'quality_check' }, { locale: 'en', format: 'whatsapp' })).toBe('quality_check');
+    expect(renderTemplate('Track: {{link}}', { link }, { locale: 'en', format: 'whatsapp', variables })).toBe(`Track: ${link}`);
+  });
+
+  it('escapes the whole output for HTML', () => {
+    expect(renderTemplate('<b>{{v}}</b>\nbye', { v: '<script>&' }, { locale: 'en', format: 'html' }))
+      .toBe('&lt;b&gt;&lt;script&gt;&amp;&lt;/b&gt;<br>bye');
+  });
+});
+
+describe('parseTemplate', () => {
+  it.each([
+    '{{',
+    '{{name',
+    '{{count, plural, one {a}}}',
+    '{{count, plural, other {a}',
+  ])('rejects %s', (source) => {
+    expect(() => parseTemplate(source)).toThrow(TemplateSyntaxError);
+  });
+});
+
+describe('template registry', () => {
+  registerNotificationTemplate({
+    key: 'test_versions',
+    version: 1,
+    description: 'Test',
+    channels: ['whatsapp', 'sms'],
+    variables: [{ name: 'name', type: 'string', required: true, example: 'Ravi' }],
+    translations: { en: 'v1 {{name}}', hi: 'v1 hi {{name}}' },
+  });
+  registerNotificationTemplate({
+    key: 'test_versions',
+    version: 2,
+    description: 'Test',
+    channels: ['whatsapp', 'sms'],
+    variables: [{ name: 'name', type: 'string', required: true, example: 'Ravi' }],
+    translations: { en: 'v2 {{name}}', hi: 'v2 hi {{name}}' },
+  });
+
+  it('returns the latest version by default', () => {
+    expect(getNotificationTemplate('test_versions')?.version).toBe(2);
+    expect(renderNotificationTemplate('test_versions', { name: 'Ravi' }, { locale: 'hi', version: 1 })).toBe('v1 hi Ravi');
+  });
+
+  it('rejects duplicate versions, missing English and undeclared variables', () => {
+    const base = {
+      key: 'test_invalid',
+      version: 1,
+      description: 'Test',
+      channels: ['sms' as const],
+      variables: [],
+    };
+
+    expect(() => registerNotificationTemplate({ ...base, key: 'test_versions', version: 2, translations: { en: 'x' } })).toThrow(/already registered/);
+    expect(() => registerNotificationTemplate({ ...base, translations: { hi: 'x' } })).toThrow(/English/);
+    expect(() => registerNotificationTemplate({ ...base, translations: { en: 'Hi {{name}}' } })).toThrow(/undeclared/);
+  });
+
+  it('only sends approved translations on WhatsApp', () => {
+    expect(selectTemplateVersion('test_versions', 'hi', 'whatsapp', [])).toBeNull();
+
+    const olderHindi = selectTemplateVersion('test_versions', 'hi', 'whatsapp', [
+      approval({ version: 1, locale: 'hi' }),
+      approval({ version: 2, locale: 'hi', status: 'pending' }),
+    ]);
+    expect(olderHindi?.template.version).toBe(1);
+    expect(olderHindi?.locale).toBe('hi');
+
+    const english = selectTemplateVersion('test_versions', 'hi', 'whatsapp', [
+      approval({ version: 2, locale: 'en' }),
+      approval({ version: 2, locale: 'hi', status: 'paused' }),
+    ]);
+    expect(english?.locale).toBe('en');
+  });
+
+  it('uses the latest version on other channels', () => {
+    const selected = selectTemplateVersion('test_versions', 'te', 'sms');
+    expect(selected?.template.version).toBe(2);
+    expect(selected?.locale).toBe('en');
+  });
+
+  it('follows WhatsApp review transitions', () => {
+    expect(canTransitionApproval('draft', 'pending')).toBe(true);
+    expect(canTransitionApproval('draft', 'approved')).toBe(false);
+    expect(canTransitionApproval('rejected', 'pending')).toBe(true);
+    expect(canTransitionApproval('disabled', 'approved')).toBe(false);
+  });
+
+  it('previews every locale with example values', () => {
+    const previews = previewNotificationTemplate(getNotificationTemplate('pickup_reminder')!);
+
+    expect(previews.map(preview => preview.locale)).toEqual(['en', 'hi', 'te']);
+    expect(previews.every(preview => preview.error === null)).toBe(true);
+    expect(previews[0].rendered).toContain('3 days');
+  });
+
+  it('marks untranslated locales in previews', () => {
+    const previews = previewNotificationTemplate(getNotificationTemplate('test_versions')!);
+    expect(previews.find(preview => preview.locale === 'te')).toEqual({ locale: 'te', rendered: null, error: 'Not translated' });
+  });
+});
+
+describe('sampleTemplateVariables', () => {
+  it('takes types and examples from registered declarations of the same name', () => {
+    const source = 'Hi {{name}}, pay {{amount_due}} for {{ticket_id}} within {{days, plural, one {# day} other {# days}}} at {{counter}}';
+    const variables = sampleTemplateVariables(source);
+
+    expect(variables.map(variable => [variable.name, variable.type, variable.example])).toEqual([
+      ['name', 'string', 'Ravi'],
+      ['amount_due', 'currency', 1499],
+      ['ticket_id', 'string', 'A1B2C3D4'],
+      ['days', 'number', 2],
+      ['counter', 'string', 'counter'],
+    ]);
+
+    const examples = Object.fromEntries(variables.map(variable => [variable.name, variable.example]));
+    expect(renderTemplate(source, examples, { locale: 'en', variables })).toContain('within 2 days at counter');
+  });
+});
+
+describe('WhatsAppTemplate.fillTemplate', () => {
+  it('renders the status template in the requested locale', () => {
+    expect(WhatsAppTemplate.fillTemplate('ready', { name: 'Ravi', ticket_id: 'T1' }, 'hi')).toContain('टिकट T1');
+  });
+
+  it('falls back to the generic status update', () => {
+    expect(WhatsAppTemplate.fillTemplate('quality_check', { name: 'Ravi', ticket_id: 'T1' }))
+      .toBe('Hi Ravi, your ticket T1 status is quality_check. — JamesTronic');
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Unit tests for the ticket payment ledger and the payment gateways
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  allocateRefund,
+  defaultAdvanceAmount,
+  paymentAmountError,
+  settledStatus,
+  summarizeTicketLedger,
+  TicketPaymentEntry,
+} from '@/lib/payments/ledger';
+import {
+  FAKE_SIGNATURE_HEADER,
+  FakePaymentGateway,
+  PaymentGatewayError,
+  PaymentWebhookSignatureError,
+  RazorpayGateway,
+  signWebhookBody,
+} from '@/lib/payments/gateways';
+
+let nextId = 0;
+
+function entry(overrides: Partial<TicketPaymentEntry> = {}): TicketPaymentEntry {
+  nextId += 1;
+  return {
+    id: `entry-${nextId}`,
+    ticket_id: 'ticket-1',
+    customer_id: 'customer-1',
+    kind: 'advance',
+    method: 'upi',
+    amount: 500,
+    currency: 'INR',
+    status: 'succeeded',
+    provider: 'fake',
+    provider_payment_id: `pay-${nextId}`,
+    provider_charge_id: `charge-${nextId}`,
+    provider_refund_id: null,
+    checkout_url: null,
+    upi_intent_url: null,
+    refund_of: null,
+    quotation_id: null,
+    reason: null,
+    failure_reason: null,
+    idempotency_key: `key-${nextId}`,
+    created_at: `2025-12-01T10:00:${String(nextId % 60).padStart(2, '0')}Z`,
+    settled_at: null,
+    ...overrides,
+  };
+}
+
+describe('summarizeTicketLedger', () => {
+  it('nets refunds and pending entries out of the balance', () => {
+    const advance = entry({ amount: 500 });
+    const summary = summarizeTicketLedger([
+      advance,
+      entry({ kind: 'balance', amount: 300 }),
+      entry({ kind: 'balance', amount: 200, status: 'pending' }),
+      entry({ kind: 'balance', amount: 999, status: 'failed' }),
+      entry({ kind: 'refund', amount: 100, refund_of: advance.id }),
+      entry({ kind: 'refund', amount: 50, refund_of: advance.id, status: 'pending' }),
+    ], 1500);
+
+    expect(summary).toEqual({
+      amount_due: 1500,
+      paid: 800,
+      refunded: 100,
+      pending_payments: 200,
+      pending_refunds: 50,
+      net_paid: 700,
+      balance_due: 800,
+      refundable: 650,
+    });
+  });
+
+  it('never reports a negative balance', () => {
+    expect(summarizeTicketLedger([entry({ amount: 800 })], 500).balance_due).toBe(0);
+  });
+});
+
+describe('defaultAdvanceAmount', () => {
+  it('takes a share of the quotation rounded up to the rupee', () => {
+    expect(defaultAdvanceAmount(1999)).toBe(600);
+    expect(defaultAdvanceAmount(1000, 50)).toBe(500);
+    expect(defaultAdvanceAmount(100, 150)).toBe(100);
+  });
+});
+
+describe('paymentAmountError', () => {
+  const summary = (entries: TicketPaymentEntry[], due: number) => summarizeTicketLedger(entries, due);
+
+  it('allows partial payments up to what is outstanding', () => {
+    const ledger = summary([entry({ amount: 300 }), entry({ kind: 'balance', amount: 200, status: 'pending' })], 1000);
+    expect(paymentAmountError('balance', 250, ledger)).toBeNull();
+    expect(paymentAmountError('balance', 500, ledger)).toBeNull();
+    expect(paymentAmountError('balance', 501, ledger)).toBe('amount_exceeds_balance');
+  });
+
+  it('rejects invalid amounts and fully paid tickets', () => {
+    expect(paymentAmountError('advance', 0, summary([], 1000))).toBe('invalid_amount');
+    expect(paymentAmountError('advance', 10.005, summary([], 1000))).toBe('invalid_amount');
+    expect(paymentAmountError('balance', 100, summary([entry({ amount: 1000 })], 1000))).toBe('nothing_due');
+  });
+
+  it('only takes an advance before there is an approved quotation', () => {
+    expect(paymentAmountError('advance', 299, summary([], 0))).toBeNull();
+    expect(paymentAmountError('balance', 299, summary([], 0))).toBe('no_approved_quotation');
+  });
+});
+
+describe('allocateRefund', () => {
+  it('refunds the newest payment first and spills into older ones', () => {
+    const advance = entry({ amount: 500, settled_at: '2025-12-01T10:00:00Z' });
+    const balance = entry({ kind: 'balance', amount: 300, settled_at: '2025-12-03T10:00:00Z' });
+
+    const allocations = allocateRefund([advance, balance], 600);
+    expect(allocations.map(a => [a.refund_of, a.amount])).toEqual([[balance.id, 300], [advance.id, 300]]);
+    expect(allocations[0].provider_charge_id).toBe(balance.provider_charge_id);
+  });
+
+  it('skips what is already refunded or being refunded', () => {
+    const advance = entry({ amount: 500 });
+    const entries = [
+      advance,
+      entry({ kind: 'refund', amount: 200, refund_of: advance.id }),
+      entry({ kind: 'refund', amount: 100, refund_of: advance.id, status: 'pending' }),
+      entry({ kind: 'refund', amount: 500, refund_of: advance.id, status: 'failed' }),
+    ];
+
+    expect(allocateRefund(entries, 200)).toEqual([
+      { refund_of: advance.id, provider_charge_id: advance.provider_charge_id!, method: 'upi', amount: 200 },
+    ]);
+    expect(() => allocateRefund(entries, 201)).toThrow('refund_exceeds_refundable');
+  });
+
+  it('ignores payments that were never captured', () => {
+    expect(() => allocateRefund([entry({ status: 'pending' }), entry({ status: 'failed' })], 100))
+      .toThrow('refund_exceeds_refundable');
+  });
+});
+
+describe('settledStatus', () => {
+  it('settles pending entries and leaves settled ones alone', () => {
+    expect(settledStatus(entry({ status: 'pending' }), 'payment.succeeded')).toBe('succeeded');
+    expect(settledStatus(entry({ status: 'pending' }), 'payment.failed')).toBe('failed');
+    expect(settledStatus(entry({ status: 'succeeded' }), 'payment.failed')).toBeNull();
+    expect(settledStatus(entry({ status: 'cancelled' }), 'payment.succeeded')).toBeNull();
+    expect(settledStatus(entry({ kind: 'refund', status: 'failed' }), 'refund.succeeded')).toBeNull();
+  });
+
+  it('lets a capture after a failed attempt on the same order settle the payment', () => {
+    process.env.RAZORPAY_WEBHOOK_SECRET = 'rzp-secret';
+    const gateway = new RazorpayGateway();
+    const deliver = (event: string, payment: Record<string, unknown>) => {
+      const raw = JSON.stringify({ event, payload: { payment: { entity: { order_id: 'order_9', ...payment } } } });
+      return gateway.parseWebhook(raw, new Headers({ 'x-razorpay-signature': signWebhookBody(raw, 'rzp-secret') }))!;
+    };
+
+    const failed = deliver('payment.failed', { id: 'pay_1', error_description: 'UPI collect request expired' });
+    const captured = deliver('payment.captured', { id: 'pay_2' });
+    expect(captured.provider_payment_id).toBe(failed.provider_payment_id);
+    expect(captured.event_id).not.toBe(failed.event_id);
+
+    const advance = entry({ status: 'pending', provider_payment_id: 'order_9', provider_charge_id: null });
+    const afterFailure = { ...advance, status: settledStatus(advance, failed.type)! };
+    expect(afterFailure.status).toBe('failed');
+
+    const afterCapture = { ...afterFailure, status: settledStatus(afterFailure, captured.type)!, provider_charge_id: captured.provider_charge_id };
+    expect(afterCapture.status).toBe('succeeded');
+    expect(summarizeTicketLedger([afterCapture], 1000).paid).toBe(500);
+    expect(allocateRefund([afterCapture], 500)[0].provider_charge_id).toBe('pay_2');
+  });
+});
+
+describe('FakePaymentGateway', () => {
+  const request = {
+    ledger_entry_id: 'entry-1',
+    ticket_id: 'ticket-1',
+    amount: 450,
+    currency: 'INR',
+    method: 'upi' as const,
+    description: 'Advance',
+  };
+
+  it('returns the same intent for a repeated idempotency key', async () => {
+    const gateway = new FakePaymentGateway('secret');
+    const first = await gateway.createPayment(request, 'key-1');
+    const again = await gateway.createPayment(request, 'key-1');
+
+    expect(again.provider_payment_id).toBe(first.provider_payment_id);
+    expect(first.upi_intent_url).toContain('am=450.00');
+    expect(gateway.payments).toHaveLength(1);
+  });
+
+  it('fails the next calls in order', async () => {
+    const gateway = new FakePaymentGateway('secret').failWith(new PaymentGatewayError('declined', false));
+    await expect(gateway.refund({ ledger_entry_id: 'r1', provider_charge_id: 'c1', amount: 10, reason: 'x' }, 'k'))
+      .rejects.toThrow('declined');
+    expect((await gateway.refund({ ledger_entry_id: 'r1', provider_charge_id: 'c1', amount: 10, reason: 'x' }, 'k')).provider_refund_id)
+      .toBe('fake_rfnd_1');
+  });
+
+  it('accepts its own signed webhooks and rejects tampered ones', () => {
+    const gateway = new FakePaymentGateway('secret');
+    const { body, headers } = gateway.signedWebhook({ id: 'evt-1', type: 'payment.succeeded', payment_id: 'fake_pay_1' });
+
+    expect(gateway.parseWebhook(body, headers)).toEqual({
+      event_id: 'evt-1',
+      type: 'payment.succeeded',
+      provider_payment_id: 'fake_pay_1',
+      provider_charge_id: 'fake_pay_1',
+      provider_refund_id: null,
+      failure_reason: null,
+      payload: JSON.parse(body),
+    });
+
+    expect(() => gateway.parseWebhook(body.replace('fake_pay_1', 'fake_pay_2'), headers))
+      .toThrow(PaymentWebhookSignatureError);
+    expect(() => new FakePaymentGateway('other').parseWebhook(body, headers)).toThrow(PaymentWebhookSignatureError);
+    expect(() => gateway.parseWebhook(body, new Headers({ [FAKE_SIGNATURE_HEADER]: '' }))).toThrow(PaymentWebhookSignatureError);
+  });
+});
+
+describe('RazorpayGateway.parseWebhook', () => {
+  const gateway = new RazorpayGateway();
+
+  function delivery(body: Record<string, unknown>) {
+    process.env.RAZORPAY_WEBHOOK_SECRET = 'rzp-secret';
+    const raw = JSON.stringify(body);
+    return {
+      raw,
+      headers: new Headers({ 'x-razorpay-signature': signWebhookBody(raw, 'rzp-secret'), 'x-razorpay-event-id': 'evt_rzp_1' }),
+    };
+  }
+
+  it('maps captured payments to the order they were requested under', () => {
+    const { raw, headers } = delivery({
+      event: 'payment.captured',
+      payload: { payment: { entity: { id: 'pay_123', order_id: 'order_9' } } },
+    });
+
+    const event = gateway.parseWebhook(raw, headers);
+    expect(event?.type).toBe('payment.succeeded');
+    expect(event?.event_id).toBe('evt_rzp_1');
+    expect(event?.provider_payment_id).toBe('order_9');
+    expect(event?.provider_charge_id).toBe('pay_123');
+  });
+
+  it('maps processed refunds by refund id', () => {
+    const { raw, headers } = delivery({
+      event: 'refund.processed',
+      payload: { refund: { entity: { id: 'rfnd_7', payment_id: 'pay_123' } } },
+    });
+
+    const event = gateway.parseWebhook(raw, headers);
+    expect(event?.type).toBe('refund.succeeded');
+    expect(event?.provider_refund_id).toBe('rfnd_7');
+  });
+
+  it('ignores untracked events and rejects bad signatures', () => {
+    const { raw, headers } = delivery({ event: 'order.paid', payload: {} });
+    expect(gateway.parseWebhook(raw, headers)).toBeNull();
+
+    headers.set('x-razorpay-signature', 'deadbeef');
+    expect(() => gateway.parseWebhook(raw, headers)).toThrow(PaymentWebhookSignatureError);
+  });
+});
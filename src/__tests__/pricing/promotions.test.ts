@@ -0,0 +1,196 @@
+/**
+ * Unit tests for the promo and referral campaign engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyPromoStacking,
+  evaluatePromoCampaign,
+  parsePromoCampaignInput,
+  parsePromoCodes,
+  PromoCampaign,
+  PromoContext,
+  promoDiscount,
+  validatePromoCampaign,
+} from '@/lib/pricing/promotions';
+
+const now = new Date('2025-11-01T12:00:00Z');
+
+function campaign(overrides: Partial<PromoCampaign> = {}): PromoCampaign {
+  return {
+    id: 'c1',
+    code: 'DIWALI25',
+    name: 'Diwali',
+    kind: 'promo',
+    discount_type: 'percent',
+    discount_value: 25,
+    max_discount_amount: null,
+    city_ids: null,
+    service_codes: null,
+    device_brands: null,
+    first_time_only: false,
+    max_redemptions: null,
+    max_redemptions_per_customer: 1,
+    stacking: 'exclusive',
+    referrer_reward_amount: null,
+    starts_at: '2025-10-01T00:00:00Z',
+    expires_at: '2025-11-30T00:00:00Z',
+    is_active: true,
+    ...overrides,
+  };
+}
+
+const context: PromoContext = {
+  city_id: 'hyd',
+  service_code: 'MOBILE_SCREEN',
+  customer_id: 'cust-1',
+  device_brand: 'Samsung',
+  is_first_time: true,
+  subtotal: 1000,
+};
+
+const noUsage = { total: 0, by_customer: 0 };
+
+describe('parsePromoCodes', () => {
+  it('splits, normalizes and de-duplicates codes', () => {
+    expect(parsePromoCodes(' diwali25, first50  DIWALI25')).toEqual(['DIWALI25', 'FIRST50']);
+    expect(parsePromoCodes(['a1b', ' A1B '])).toEqual(['A1B']);
+    expect(parsePromoCodes(null)).toEqual([]);
+  });
+});
+
+describe('promoDiscount', () => {
+  it('applies percent discounts with their cap', () => {
+    expect(promoDiscount({ discount_type: 'percent', discount_value: 25, max_discount_amount: null }, 1000)).toBe(250);
+    expect(promoDiscount({ discount_type: 'percent', discount_value: 25, max_discount_amount: 100 }, 1000)).toBe(100);
+  });
+
+  it('never discounts more than the subtotal', () => {
+    expect(promoDiscount({ discount_type: 'flat', discount_value: 500, max_discount_amount: null }, 300)).toBe(300);
+  });
+});
+
+describe('evaluatePromoCampaign', () => {
+  it('accepts an eligible code', () => {
+    const result = evaluatePromoCampaign('DIWALI25', campaign(), context, noUsage, { now });
+    expect(result.eligible).toBe(true);
+    expect(result.discount_amount).toBe(250);
+  });
+
+  it('rejects unknown, paused, future and expired campaigns', () => {
+    expect(evaluatePromoCampaign('NOPE', null, context, noUsage, { now }).reason).toBe('not_found');
+    expect(evaluatePromoCampaign('X', campaign({ is_active: false }), context, noUsage, { now }).reason).toBe('inactive');
+    expect(evaluatePromoCampaign('X', campaign({ starts_at: '2025-11-05T00:00:00Z' }), context, noUsage, { now }).reason).toBe('not_started');
+    expect(evaluatePromoCampaign('X', campaign({ expires_at: '2025-11-01T12:00:00Z' }), context, noUsage, { now }).reason).toBe('expired');
+  });
+
+  it('checks city, service and device brand eligibility', () => {
+    expect(evaluatePromoCampaign('X', campaign({ city_ids: ['blr'] }), context, noUsage, { now }).reason).toBe('city_not_eligible');
+    expect(evaluatePromoCampaign('X', campaign({ service_codes: ['TV_REPAIR'] }), context, noUsage, { now }).reason).toBe('service_not_eligible');
+    expect(evaluatePromoCampaign('X', campaign({ device_brands: ['Apple'] }), context, noUsage, { now }).reason).toBe('brand_not_eligible');
+    expect(evaluatePromoCampaign('X', campaign({ device_brands: ['samsung'] }), context, noUsage, { now }).eligible).toBe(true);
+  });
+
+  it('limits first-time campaigns to first-time customers', () => {
+    const firstTime = campaign({ first_time_only: true });
+    expect(evaluatePromoCampaign('X', firstTime, { ...context, is_first_time: false }, noUsage, { now }).reason).toBe('not_first_time');
+    expect(evaluatePromoCampaign('X', firstTime, { ...context, customer_id: null }, noUsage, { now }).reason).toBe('customer_required');
+  });
+
+  it('enforces global and per-customer caps', () => {
+    const capped = campaign({ max_redemptions: 100, max_redemptions_per_customer: 2 });
+    expect(evaluatePromoCampaign('X', capped, context, { total: 100, by_customer: 0 }, { now }).reason).toBe('global_cap_reached');
+    expect(evaluatePromoCampaign('X', capped, context, { total: 10, by_customer: 2 }, { now }).reason).toBe('customer_cap_reached');
+    expect(evaluatePromoCampaign('X', capped, context, { total: 10, by_customer: 1 }, { now }).eligible).toBe(true);
+  });
+
+  it('rejects customers using their own referral code', () => {
+    const referral = campaign({ kind: 'referral', referrer_reward_amount: 200 });
+    const own = evaluatePromoCampaign('REF-1', referral, context, noUsage, { now, referrerCustomerId: 'cust-1' });
+    expect(own.reason).toBe('self_referral');
+
+    const friend = evaluatePromoCampaign('REF-2', referral, context, noUsage, { now, referrerCustomerId: 'cust-2' });
+    expect(friend.eligible).toBe(true);
+    expect(friend.referrer_customer_id).toBe('cust-2');
+  });
+});
+
+describe('applyPromoStacking', () => {
+  const evaluate = (id: string, stacking: 'exclusive' | 'stackable', amount: number) =>
+    evaluatePromoCampaign(id, campaign({ id, code: id, stacking, discount_type: 'flat', discount_value: amount }), context, noUsage, { now });
+
+  it('combines stackable codes', () => {
+    const result = applyPromoStacking([evaluate('A', 'stackable', 100), evaluate('B', 'stackable', 50)], 1000);
+    expect(result.discount_amount).toBe(150);
+    expect(result.applied.map(a => a.code)).toEqual(['A', 'B']);
+  });
+
+  it('uses the best exclusive code when it beats the stackable total', () => {
+    const result = applyPromoStacking([
+      evaluate('A', 'stackable', 100),
+      evaluate('B', 'exclusive', 300),
+      evaluate('C', 'exclusive', 200),
+    ], 1000);
+    expect(result.applied.map(a => a.code)).toEqual(['B']);
+    expect(result.rejected.map(r => [r.code, r.reason])).toEqual([
+      ['C', 'not_stackable'],
+      ['A', 'not_stackable'],
+    ]);
+  });
+
+  it('prefers stackable codes on a tie and caps the total at the subtotal', () => {
+    const tie = applyPromoStacking([evaluate('A', 'stackable', 200), evaluate('B', 'exclusive', 200)], 1000);
+    expect(tie.applied.map(a => a.code)).toEqual(['A']);
+
+    const capped = applyPromoStacking([evaluate('A', 'stackable', 800), evaluate('B', 'stackable', 800)], 1000);
+    expect(capped.discount_amount).toBe(1000);
+  });
+
+  it('applies a campaign once even if two of its codes are given', () => {
+    const first = evaluate('A', 'stackable', 100);
+    const result = applyPromoStacking([first, { ...first, code: 'A2' }], 1000);
+    expect(result.applied).toHaveLength(1);
+    expect(result.rejected[0].code).toBe('A2');
+  });
+
+  it('keeps ineligible codes with their reason', () => {
+    const result = applyPromoStacking([evaluatePromoCampaign('NOPE', null, context, noUsage, { now })], 1000);
+    expect(result.discount_amount).toBe(0);
+    expect(result.rejected[0].reason).toBe('not_found');
+  });
+});
+
+describe('validatePromoCampaign', () => {
+  it('accepts a complete campaign', () => {
+    expect(validatePromoCampaign(campaign())).toEqual({});
+  });
+
+  it('reports invalid fields', () => {
+    const errors = validatePromoCampaign(campaign({
+      code: 'x',
+      discount_value: 120,
+      expires_at: '2025-09-01T00:00:00Z',
+      kind: 'referral',
+    }));
+    expect(Object.keys(errors).sort()).toEqual(['code', 'discount_value', 'expires_at', 'referrer_reward_amount']);
+  });
+});
+
+describe('parsePromoCampaignInput', () => {
+  it('coerces body fields and only sets the ones present', () => {
+    const input = parsePromoCampaignInput({
+      code: ' diwali25 ',
+      discount_value: '25',
+      service_codes: 'mobile_screen, tv_repair',
+      device_brands: [],
+      max_redemptions: '',
+    });
+    expect(input).toEqual({
+      code: 'DIWALI25',
+      discount_value: 25,
+      service_codes: ['MOBILE_SCREEN', 'TV_REPAIR'],
+      device_brands: null,
+      max_redemptions: null,
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for quote revision line items and diffs
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  diffQuoteLineItems,
+  invalidDeclinedLineItems,
+  latestRevision,
+  newLineItemCode,
+  previousRevision,
+  quoteLineItems,
+  quoteRevisionTotal,
+} from '@/components/pricing/quotes/revisions';
+import { Quote, QuoteLineItem } from '@/components/pricing/quotes/types';
+
+function quote(overrides: Partial<Quote> = {}): Quote {
+  return {
+    id: 'q1',
+    quote_key: 'k1',
+    city_id: 'c1',
+    service_code: 'SCREEN',
+    labor_amount: 400,
+    parts_amount: 1200,
+    parts_cost: 1000,
+    transport_amount: 100,
+    diagnostic_amount: 0,
+    urgency_surcharge: 50,
+    complexity_surcharge: 0,
+    discount_amount: 0,
+    tax_amount: 0,
+    total_amount: 1750,
+    ruleset_id: 'r1',
+    ruleset_version: '1',
+    base_rate_ref: {},
+    guardrail_ref: {},
+    breakdown: {
+      labor: 400,
+      parts: 1200,
+      transport: 100,
+      diagnostic: 0,
+      urgency_surcharge: 50,
+      complexity_surcharge: 0,
+      subtotal_before_guardrails: 1750,
+    },
+    reason_codes: [],
+    status: 'pending',
+    expires_at: '2025-12-22T00:00:00Z',
+    created_at: '2025-12-21T00:00:00Z',
+    created_by: 'u1',
+    ...overrides,
+  };
+}
+
+const item = (code: string, amount: number, optional = false): QuoteLineItem => ({
+  code,
+  label: code,
+  kind: 'parts',
+  amount,
+  optional,
+});
+
+describe('quoteLineItems', () => {
+  it('derives required items from the breakdown, skipping zero amounts', () => {
+    expect(quoteLineItems(quote()).map(i => [i.code, i.amount, i.optional])).toEqual([
+      ['labor', 400, false],
+      ['parts', 1200, false],
+      ['transport', 100, false],
+      ['urgency_surcharge', 50, false],
+    ]);
+  });
+
+  it('adds an adjustment when guardrails changed the total', () => {
+    const items = quoteLineItems(quote({ total_amount: 1500 }));
+    expect(items[items.length - 1]).toMatchObject({ code: 'adjustment', amount: -250 });
+    expect(quoteRevisionTotal(items)).toBe(1500);
+  });
+
+  it('prefers stored line items', () => {
+    const stored = [item('screen', 900)];
+    expect(quoteLineItems(quote({ line_items: stored }))).toBe(stored);
+  });
+});
+
+describe('diffQuoteLineItems', () => {
+  it('reports added, changed, unchanged and removed items', () => {
+    const diffs = diffQuoteLineItems(
+      [item('labor', 400), item('parts', 1200), item('transport', 100)],
+      [item('labor', 400), item('parts', 1500), item('battery', 800, true)]
+    );
+
+    expect(diffs.map(d => [d.code, d.change, d.before, d.after])).toEqual([
+      ['labor', 'unchanged', 400, 400],
+      ['parts', 'changed', 1200, 1500],
+      ['battery', 'added', null, 800],
+      ['transport', 'removed', 100, null],
+    ]);
+  });
+
+  it('treats a change of the optional flag as a change', () => {
+    expect(diffQuoteLineItems([item('battery', 800)], [item('battery', 800, true)])[0].change).toBe('changed');
+  });
+});
+
+describe('declining optional items', () => {
+  const items = [item('labor', 400), item('battery', 800, true), item('case', 99.5, true)];
+
+  it('leaves declined optional items out of the total', () => {
+    expect(quoteRevisionTotal(items)).toBe(1299.5);
+    expect(quoteRevisionTotal(items, ['battery'])).toBe(499.5);
+  });
+
+  it('never leaves out required items', () => {
+    expect(quoteRevisionTotal(items, ['labor'])).toBe(1299.5);
+    expect(invalidDeclinedLineItems(items, ['labor', 'case', 'unknown'])).toEqual(['labor', 'unknown']);
+  });
+});
+
+describe('revision chains', () => {
+  it('generates unique codes from labels', () => {
+    expect(newLineItemCode('Screen Guard (Tempered)', [])).toBe('screen_guard_tempered');
+    expect(newLineItemCode('Parts', [item('parts', 1), item('parts_2', 1)])).toBe('parts_3');
+    expect(newLineItemCode('!!!', [])).toBe('item');
+  });
+
+  it('finds the latest and previous revisions', () => {
+    const r1 = quote({ id: 'q1', superseded_by: 'q2', status: 'expired' });
+    const r2 = quote({ id: 'q2', root_quote_id: 'q1', revision_of: 'q1', revision_number: 2 });
+
+    expect(latestRevision([r1, r2])?.id).toBe('q2');
+    expect(previousRevision([r1, r2], r2)?.id).toBe('q1');
+    expect(previousRevision([r1, r2], r1)).toBeNull();
+    expect(latestRevision([])).toBeNull();
+  });
+});
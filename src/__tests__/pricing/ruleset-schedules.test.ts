@@ -0,0 +1,211 @@
+/**
+ * Unit tests for scheduled ruleset activations and overrides
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applicableOverrides,
+  buildPricingTimeline,
+  mergeRulePatches,
+  PricingSchedule,
+  scheduleHealthAlerts,
+} from '@/lib/pricing/schedules';
+import { DEFAULT_SIMULATION_RULES, HistoricalQuote, parseSimulationRules, simulateQuote } from '@/lib/pricing/simulator';
+
+function schedule(overrides: Partial<PricingSchedule> = {}): PricingSchedule {
+  return {
+    id: 's1',
+    kind: 'activation',
+    ruleset_id: 'r2',
+    ruleset_version: 'v2',
+    previous_ruleset_id: null,
+    city_id: null,
+    service_code: null,
+    rules_patch: null,
+    priority: 0,
+    starts_at: '2025-11-01T00:00:00Z',
+    ends_at: '2025-11-03T00:00:00Z',
+    status: 'scheduled',
+    max_guardrail_breach_pct: null,
+    min_acceptance_pct: null,
+    min_health_sample: 20,
+    reason: 'Diwali weekend',
+    created_by: 'u1',
+    created_at: '2025-10-20T00:00:00Z',
+    activated_at: null,
+    ended_at: null,
+    end_reason: null,
+    ...overrides,
+  };
+}
+
+describe('buildPricingTimeline', () => {
+  it('orders entries newest first with their phase', () => {
+    const entries = buildPricingTimeline([
+      schedule({ id: 'past', status: 'completed', starts_at: '2025-10-01T00:00:00Z', activated_at: '2025-10-01T00:00:00Z' }),
+      schedule({ id: 'live', status: 'active', starts_at: '2025-10-10T00:00:00Z', activated_at: '2025-10-10T00:01:00Z' }),
+      schedule({ id: 'next', status: 'scheduled', starts_at: '2025-11-01T00:00:00Z' }),
+    ], []);
+
+    expect(entries.map(entry => [entry.id, entry.phase])).toEqual([
+      ['next', 'upcoming'],
+      ['live', 'live'],
+      ['past', 'past'],
+    ]);
+  });
+
+  it('leaves out cancelled schedules', () => {
+    const entries = buildPricingTimeline([schedule({ status: 'cancelled' })], []);
+    expect(entries).toEqual([]);
+  });
+
+  it('adds direct activations that no schedule accounts for', () => {
+    const entries = buildPricingTimeline(
+      [schedule({ status: 'active', ruleset_id: 'r2', activated_at: '2025-10-10T00:00:00Z' })],
+      [
+        { id: 'r1', version: 'v1', activated_at: '2025-09-01T00:00:00Z' },
+        { id: 'r2', version: 'v2', activated_at: '2025-10-10T00:02:00Z' },
+      ]
+    );
+
+    expect(entries).toHaveLength(2);
+    const manual = entries.find(entry => entry.kind === 'manual')!;
+    expect(manual.label).toBe('Ruleset v1');
+    expect(manual.phase).toBe('past');
+    expect(manual.ends_at).toBe('2025-10-10T00:00:00Z');
+  });
+
+  it('marks the latest direct activation as live', () => {
+    const entries = buildPricingTimeline([], [{ id: 'r1', version: 'v1', activated_at: '2025-09-01T00:00:00Z' }]);
+    expect(entries[0].phase).toBe('live');
+    expect(entries[0].ends_at).toBeNull();
+  });
+
+  it('labels overrides with their service and patched keys', () => {
+    const entries = buildPricingTimeline([
+      schedule({ kind: 'override', ruleset_id: null, city_id: 'hyd', service_code: 'MOBILE', rules_patch: { urgency_surcharge_pct: { same_day: 80 } } }),
+    ], []);
+    expect(entries[0].label).toBe('Override MOBILE: urgency_surcharge_pct');
+  });
+});
+
+describe('mergeRulePatches', () => {
+  const rules = {
+    urgency_surcharge_pct: { standard: 0, next_day: 20, same_day: 50 },
+    tax_pct: 18,
+  };
+
+  it('merges top-level objects key by key and replaces other values', () => {
+    const merged = mergeRulePatches(rules, [
+      { rules_patch: { urgency_surcharge_pct: { same_day: 80 }, tax_pct: 12 }, priority: 0, starts_at: '2025-11-01T00:00:00Z' },
+    ]);
+    expect(merged).toEqual({
+      urgency_surcharge_pct: { standard: 0, next_day: 20, same_day: 80 },
+      tax_pct: 12,
+    });
+  });
+
+  it('applies higher priority patches last', () => {
+    const merged = mergeRulePatches(rules, [
+      { rules_patch: { urgency_surcharge_pct: { same_day: 100 } }, priority: 5, starts_at: '2025-11-01T00:00:00Z' },
+      { rules_patch: { urgency_surcharge_pct: { same_day: 80 } }, priority: 1, starts_at: '2025-11-02T00:00:00Z' },
+    ]);
+    expect((merged.urgency_surcharge_pct as Record<string, number>).same_day).toBe(100);
+  });
+
+  it('does not modify the ruleset rules', () => {
+    mergeRulePatches(rules, [{ rules_patch: { tax_pct: 5 }, priority: 0, starts_at: '2025-11-01T00:00:00Z' }]);
+    expect(rules.tax_pct).toBe(18);
+  });
+});
+
+describe('applicableOverrides', () => {
+  it('matches active overrides for the city and service, or all services', () => {
+    const schedules = [
+      schedule({ id: 'all', kind: 'override', status: 'active', city_id: 'hyd' }),
+      schedule({ id: 'mobile', kind: 'override', status: 'active', city_id: 'hyd', service_code: 'MOBILE' }),
+      schedule({ id: 'tv', kind: 'override', status: 'active', city_id: 'hyd', service_code: 'TV_REPAIR' }),
+      schedule({ id: 'other-city', kind: 'override', status: 'active', city_id: 'blr' }),
+      schedule({ id: 'upcoming', kind: 'override', status: 'scheduled', city_id: 'hyd' }),
+    ];
+    expect(applicableOverrides(schedules, 'hyd', 'MOBILE').map(s => s.id)).toEqual(['all', 'mobile']);
+  });
+});
+
+describe('quoting with effective rules', () => {
+  const rate = { city_id: 'hyd', service_code: 'MOBILE', labor_base: 500, diagnostic_fee: 100, transport_base: 100, parts_markup_pct: 0 };
+  const sameDay: HistoricalQuote = {
+    id: 'q1',
+    quote_key: 'k1',
+    city_id: 'hyd',
+    service_code: 'MOBILE',
+    ruleset_id: 'r1',
+    labor_amount: 500,
+    parts_cost: 0,
+    urgency_surcharge: 250,
+    complexity_surcharge: 0,
+    discount_amount: 0,
+    tax_amount: 0,
+    total_amount: 950,
+    created_at: '2025-11-01T12:00:00Z',
+  };
+
+  // Same order as the quote RPCs: active ruleset, then get_effective_pricing_rules for the city and service
+  const quoteTotal = (schedules: PricingSchedule[], serviceCode: string) => {
+    const rules = parseSimulationRules(
+      mergeRulePatches({ ...DEFAULT_SIMULATION_RULES }, applicableOverrides(schedules, 'hyd', serviceCode))
+    );
+    return simulateQuote({ ...sameDay, service_code: serviceCode }, rules, DEFAULT_SIMULATION_RULES, { ...rate, service_code: serviceCode }, null).simulated_total;
+  };
+
+  const surge = schedule({
+    kind: 'override',
+    status: 'active',
+    city_id: 'hyd',
+    service_code: 'MOBILE',
+    rules_patch: { urgency_surcharge_pct: { same_day: 80 } },
+  });
+
+  it('an active override changes the quoted total', () => {
+    expect(quoteTotal([], 'MOBILE')).toBe(950);
+    expect(quoteTotal([surge], 'MOBILE')).toBe(1100);
+  });
+
+  it('leaves quotes outside the override scope or window unchanged', () => {
+    expect(quoteTotal([surge], 'TV_REPAIR')).toBe(950);
+    expect(quoteTotal([{ ...surge, status: 'scheduled' }], 'MOBILE')).toBe(950);
+  });
+});
+
+describe('scheduleHealthAlerts', () => {
+  const health = {
+    schedule_id: 's1',
+    quote_count: 40,
+    guardrail_breaches: 8,
+    accepted: 10,
+    guardrail_breach_pct: 20,
+    acceptance_pct: 25,
+    breached: true,
+  };
+
+  it('reports each crossed threshold', () => {
+    const alerts = scheduleHealthAlerts(schedule({ status: 'active', max_guardrail_breach_pct: 10, min_acceptance_pct: 30, health }));
+    expect(alerts).toHaveLength(2);
+    expect(alerts[0]).toContain('20%');
+    expect(alerts[1]).toContain('minimum 30%');
+  });
+
+  it('ignores thresholds that are not set or not crossed', () => {
+    expect(scheduleHealthAlerts(schedule({ status: 'active', max_guardrail_breach_pct: 25, health }))).toEqual([]);
+  });
+
+  it('waits for the minimum sample', () => {
+    const alerts = scheduleHealthAlerts(schedule({
+      status: 'active',
+      max_guardrail_breach_pct: 10,
+      min_health_sample: 50,
+      health,
+    }));
+    expect(alerts).toEqual([]);
+  });
+});
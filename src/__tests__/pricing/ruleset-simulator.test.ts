@@ -0,0 +1,152 @@
+/**
+ * Unit tests for the pricing ruleset simulator
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SIMULATION_RULES,
+  HistoricalQuote,
+  parseSimulationRules,
+  runPricingSimulation,
+  SimulationBaseRate,
+  SimulationGuardrail,
+  simulateQuote,
+  simulationReportToCsv,
+} from '@/lib/pricing/simulator';
+
+const rate: SimulationBaseRate = {
+  city_id: 'hyd',
+  service_code: 'TV_REPAIR',
+  labor_base: 500,
+  diagnostic_fee: 100,
+  transport_base: 100,
+  parts_markup_pct: 20,
+};
+
+const guardrail: SimulationGuardrail = {
+  city_id: 'hyd',
+  service_code: 'TV_REPAIR',
+  min_total: 0,
+  max_total: 0,
+  max_discount_pct: 100,
+  max_surge_pct: 300,
+  floor_margin_pct: 0,
+};
+
+function quote(overrides: Partial<HistoricalQuote> = {}): HistoricalQuote {
+  return {
+    id: 'q1',
+    quote_key: 'k1',
+    city_id: 'hyd',
+    service_code: 'TV_REPAIR',
+    ruleset_id: 'rs1',
+    labor_amount: 500,
+    parts_cost: 1000,
+    urgency_surcharge: 0,
+    complexity_surcharge: 0,
+    discount_amount: 0,
+    tax_amount: 0,
+    total_amount: 1900,
+    created_at: '2025-12-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const replay = (q: HistoricalQuote, g: SimulationGuardrail | null = guardrail, rules = DEFAULT_SIMULATION_RULES) =>
+  simulateQuote(q, rules, DEFAULT_SIMULATION_RULES, rate, g);
+
+describe('parseSimulationRules', () => {
+  it('reads surcharge tables and keeps defaults for missing levels', () => {
+    const rules = parseSimulationRules({ urgency_surcharge_pct: { same_day: 80, next_day: 'x' } });
+
+    expect(rules.urgency_surcharge_pct).toEqual({ standard: 0, next_day: 20, same_day: 80 });
+    expect(rules.complexity_surcharge_pct).toEqual(DEFAULT_SIMULATION_RULES.complexity_surcharge_pct);
+    expect(parseSimulationRules(null)).toEqual(DEFAULT_SIMULATION_RULES);
+  });
+});
+
+describe('simulateQuote', () => {
+  it('reprices the base components with the draft rates', () => {
+    // 500 labor + 1200 parts + 100 transport + 100 diagnostic
+    const result = replay(quote());
+
+    expect(result.simulated_total).toBe(1900);
+    expect(result.delta).toBe(0);
+    expect(result.simulated_margin).toBe(900);
+    expect(result.guardrail_hits).toEqual([]);
+  });
+
+  it('infers urgency from the historical surcharge and applies the draft percentage', () => {
+    const sameDay = quote({ urgency_surcharge: 250, total_amount: 2150 });
+    const rules = parseSimulationRules({ urgency_surcharge_pct: { same_day: 80 } });
+
+    expect(replay(sameDay, guardrail, rules)).toMatchObject({ simulated_total: 2300, delta: 150 });
+  });
+
+  it('keeps the original tax rate', () => {
+    expect(replay(quote({ tax_amount: 190, total_amount: 2090 })).simulated_total).toBe(2090);
+  });
+
+  it('caps surcharges at the surge limit', () => {
+    const result = replay(quote({ urgency_surcharge: 250 }), { ...guardrail, max_surge_pct: 10 });
+
+    // 10% of the 1900 base instead of the 250 surcharge
+    expect(result.simulated_total).toBe(2090);
+    expect(result.guardrail_hits).toEqual(['max_surge']);
+  });
+
+  it('caps discounts and raises prices to the margin floor', () => {
+    const result = replay(quote({ discount_amount: 800 }), { ...guardrail, max_discount_pct: 10, floor_margin_pct: 50 });
+
+    expect(result.guardrail_hits).toEqual(['max_discount', 'floor_margin']);
+    expect(result.simulated_total).toBe(2000);
+  });
+
+  it('clamps to the min and max totals', () => {
+    expect(replay(quote(), { ...guardrail, max_total: 1500 })).toMatchObject({ simulated_total: 1500, guardrail_hits: ['max_total'] });
+    expect(replay(quote(), { ...guardrail, min_total: 2500 })).toMatchObject({ simulated_total: 2500, guardrail_hits: ['min_total'] });
+  });
+
+  it('ignores disabled guardrails', () => {
+    expect(replay(quote(), { ...guardrail, max_total: 1500, is_enabled: false }).guardrail_hits).toEqual([]);
+  });
+});
+
+describe('runPricingSimulation', () => {
+  const report = runPricingSimulation({
+    quotes: [
+      quote({ id: 'a', total_amount: 1800 }),
+      quote({ id: 'b', total_amount: 2000 }),
+      quote({ id: 'c', city_id: 'blr' }),
+    ],
+    rules: DEFAULT_SIMULATION_RULES,
+    historicalRules: {},
+    baseRates: [rate],
+    guardrails: [{ ...guardrail, max_total: 1850 }],
+  });
+
+  it('aggregates deltas, guardrail hits and margin per service and city', () => {
+    expect(report.summary).toMatchObject({
+      quote_count: 2,
+      historical_total: 3800,
+      simulated_total: 3700,
+      delta: -100,
+      guardrail_quotes: 2,
+      margin_delta: -100,
+    });
+    expect(report.by_service.map(group => group.key)).toEqual(['TV_REPAIR']);
+    expect(report.guardrail_hits.max_total).toBe(2);
+  });
+
+  it('skips quotes without a base rate', () => {
+    expect(report.skipped).toEqual([{ quote_id: 'c', city_id: 'blr', service_code: 'TV_REPAIR', reason: 'no_base_rate' }]);
+  });
+
+  it('exports quotes and groups as CSV', () => {
+    const lines = simulationReportToCsv(report).trim().split('\n');
+
+    expect(lines[0]).toContain('"historical_total","simulated_total","delta"');
+    expect(lines).toHaveLength(1 + 2 + 1 + 1 + 1);
+    expect(lines[lines.length - 1]).toMatch(/^"total","all"/);
+  });
+});
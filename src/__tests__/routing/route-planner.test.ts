@@ -0,0 +1,195 @@
+/**
+ * Unit tests for the transporter route planner: travel matrices and the pickup-and-drop solver
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fetchOsrmMatrix, haversineMatrix, LatLng } from '@/lib/routing/distance';
+import { RouteTask, RouteVehicle, routingPoints, RoutingProblem, solveRoutes } from '@/lib/routing/vrp';
+
+const SHIFT_START = Date.parse('2025-12-01T09:00:00Z') / 1000;
+const SHIFT_END = SHIFT_START + 12 * 3600;
+
+// Points ~1.1 km apart heading north
+const at = (step: number, address = `Stop ${step}`) => ({ lat: 17.4 + step * 0.01, lng: 78.4, address, window: null });
+
+function vehicle(overrides: Partial<RouteVehicle> = {}): RouteVehicle {
+  return {
+    id: 'bike-1',
+    vehicle_type: 'motorbike',
+    capacity_kg: 15,
+    start: { lat: 17.4, lng: 78.4 },
+    shift_start: SHIFT_START,
+    shift_end: SHIFT_END,
+    ...overrides,
+  };
+}
+
+function task(id: string, overrides: Partial<RouteTask> = {}): RouteTask {
+  return {
+    id,
+    source: 'transport_job',
+    ref_id: id,
+    label: id,
+    weight_kg: 3,
+    pickup: at(1),
+    drop: at(2),
+    vehicle_id: 'bike-1',
+    ...overrides,
+  };
+}
+
+function solve(problem: RoutingProblem) {
+  const points = routingPoints(problem);
+  return solveRoutes(problem, v => haversineMatrix(points, v.vehicle_type));
+}
+
+const stopOrder = (problem: RoutingProblem, vehicleIndex = 0) =>
+  solve(problem).routes[vehicleIndex].stops.map(stop => `${stop.task_id}:${stop.kind}`);
+
+describe('haversineMatrix', () => {
+  it('is symmetric with road-stretched distances and speed-based durations', () => {
+    const points: LatLng[] = [{ lat: 17.4, lng: 78.4 }, { lat: 17.41, lng: 78.4 }];
+    const matrix = haversineMatrix(points, 'motorbike');
+
+    expect(matrix.source).toBe('haversine');
+    expect(matrix.distances_m[0][0]).toBe(0);
+    expect(matrix.distances_m[0][1]).toBe(matrix.distances_m[1][0]);
+    expect(matrix.distances_m[0][1]).toBe(1501);
+    expect(matrix.durations_s[0][1]).toBe(Math.round(1501 / (22 / 3.6)));
+  });
+});
+
+describe('fetchOsrmMatrix', () => {
+  const points: LatLng[] = [{ lat: 17.4, lng: 78.4 }, { lat: 17.41, lng: 78.4 }];
+
+  it('reads the OSRM table and fills unroutable cells from the estimate', async () => {
+    let requested = '';
+    const fetchImpl = (async (url: string) => {
+      requested = url;
+      return {
+        ok: true,
+        json: async () => ({ code: 'Ok', distances: [[0, 1800], [null, 0]], durations: [[0, 240], [260, 0]] }),
+      };
+    }) as unknown as typeof fetch;
+
+    const matrix = await fetchOsrmMatrix('https://osrm.example/', points, { fetchImpl });
+
+    expect(requested).toBe('https://osrm.example/table/v1/driving/78.400000,17.400000;78.400000,17.410000?annotations=distance,duration');
+    expect(matrix?.source).toBe('osrm');
+    expect(matrix?.distances_m).toEqual([[0, 1800], [1501, 0]]);
+    expect(matrix?.durations_s).toEqual([[0, 240], [260, 0]]);
+  });
+
+  it('returns null when the service refuses', async () => {
+    const fetchImpl = (async () => ({ ok: false, json: async () => ({}) })) as unknown as typeof fetch;
+    expect(await fetchOsrmMatrix('https://osrm.example', points, { fetchImpl })).toBeNull();
+  });
+});
+
+describe('solveRoutes', () => {
+  it('orders stops along the way and always picks up before dropping', () => {
+    const problem = {
+      vehicles: [vehicle()],
+      tasks: [
+        task('far', { pickup: at(3), drop: at(4) }),
+        task('near', { pickup: at(1), drop: at(2) }),
+      ],
+    };
+
+    expect(stopOrder(problem)).toEqual(['near:pickup', 'near:drop', 'far:pickup', 'far:drop']);
+    expect(solve(problem).routes[0].stops[0].sequence).toBe(1);
+  });
+
+  it('never loads the vehicle beyond its capacity', () => {
+    const problem = {
+      vehicles: [vehicle({ capacity_kg: 15 })],
+      tasks: [
+        task('a', { weight_kg: 10, pickup: at(1), drop: at(4) }),
+        task('b', { weight_kg: 10, pickup: at(2), drop: at(3) }),
+      ],
+    };
+
+    const route = solve(problem).routes[0];
+    expect(route.stops).toHaveLength(4);
+    expect(route.max_load_kg).toBe(10);
+  });
+
+  it('starts when the first window opens and leaves out stops no slot can reach', () => {
+    const problem = {
+      vehicles: [vehicle({ start: null })],
+      tasks: [
+        task('late', { pickup: { ...at(1), window: { start: SHIFT_START + 3 * 3600, end: SHIFT_START + 5 * 3600 } } }),
+        task('missed', { pickup: { ...at(2), window: { start: SHIFT_START - 3600, end: SHIFT_START - 60 } } }),
+      ],
+    };
+
+    const solution = solve(problem);
+    expect(solution.routes[0].stops[0].arrival_at).toBe('2025-12-01T12:00:00.000Z');
+    expect(solution.routes[0].stops[0].wait_s).toBe(0);
+    expect(solution.routes[0].start_at).toBe('2025-12-01T12:00:00.000Z');
+    expect(solution.unplanned).toEqual([{ task_id: 'missed', source: 'transport_job', ref_id: 'missed', reason: 'no_feasible_slot' }]);
+  });
+
+  it('counts devices already on board and only plans their drop', () => {
+    const problem = {
+      vehicles: [vehicle({ capacity_kg: 10 })],
+      tasks: [
+        task('onboard', { weight_kg: 6, pickup: null, drop: at(5) }),
+        task('new', { weight_kg: 6, pickup: at(1), drop: at(2) }),
+      ],
+    };
+
+    // Both cannot be carried together, so the drop comes first
+    expect(stopOrder(problem)).toEqual(['onboard:drop', 'new:pickup', 'new:drop']);
+  });
+
+  it('keeps assigned tasks on their vehicle and proposes pending ones to the nearest', () => {
+    const problem = {
+      vehicles: [
+        vehicle({ id: 'south', start: { lat: 17.4, lng: 78.4 } }),
+        vehicle({ id: 'north', start: { lat: 17.5, lng: 78.4 } }),
+      ],
+      tasks: [
+        task('assigned', { vehicle_id: 'south', pickup: at(1), drop: at(2) }),
+        task('pending', { vehicle_id: null, pickup: at(11), drop: at(12) }),
+      ],
+    };
+
+    const [south, north] = solve(problem).routes;
+    expect(south.stops.map(stop => stop.task_id)).toEqual(['assigned', 'assigned']);
+    expect(north.stops.map(stop => [stop.task_id, stop.proposed])).toEqual([['pending', true], ['pending', true]]);
+  });
+
+  it('explains why a task was not planned', () => {
+    const problem = {
+      vehicles: [vehicle()],
+      tasks: [
+        task('heavy', { weight_kg: 40 }),
+        task('unmapped', { drop: { ...at(2), lat: NaN } }),
+        task('other-vehicle', { vehicle_id: 'van-9' }),
+      ],
+    };
+
+    expect(solve(problem).unplanned.map(item => [item.task_id, item.reason])).toEqual([
+      ['heavy', 'over_capacity'],
+      ['other-vehicle', 'vehicle_unavailable'],
+      ['unmapped', 'missing_coordinates'],
+    ]);
+  });
+
+  it('keeps tasks without coordinates out of the travel matrix points', () => {
+    const problem = {
+      vehicles: [vehicle(), vehicle({ id: 'bike-2', start: null })],
+      tasks: [
+        task('unmapped', { pickup: { ...at(1), lat: NaN }, drop: { ...at(2), lng: NaN } }),
+        task('mapped'),
+      ],
+    };
+
+    const points = routingPoints(problem);
+    expect(points).toHaveLength(6);
+    expect(points.every(point => Number.isFinite(point.lat) && Number.isFinite(point.lng))).toBe(true);
+    expect(points.slice(0, 2)).toEqual([{ lat: 17.4, lng: 78.4 }, { lat: 17.4, lng: 78.4 }]);
+    expect(solve(problem).routes[0].stops.map(stop => stop.task_id)).toEqual(['mapped', 'mapped']);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Unit tests for the technician scheduler: repair standards, day plans, overrun re-plans and the
+ * checks behind manual moves on the calendar
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyMove,
+  buildDayPlan,
+  PlanJob,
+  PlanProblem,
+  PlanTechnician,
+  replanAfterOverrun,
+  TravelEstimator,
+  validateMove
+} from '@/lib/scheduling/day-plan';
+import { FALLBACK_REPAIR_MINUTES, repairRequirement } from '@/lib/scheduling/repair-standards';
+import { toPlanProblem } from '@/lib/scheduling/calendar';
+import type { ScheduleEntry, TechnicianDayPlan } from '@/lib/types/scheduling';
+
+const SHIFT_START = Date.parse('2025-12-01T09:00:00Z') / 1000;
+const SHIFT_END = SHIFT_START + 8 * 3600;
+const MIN = 60;
+
+const SOLDERING = '00000000-0000-4000-8000-0000000000aa';
+
+// Addresses along a line: 0.001° of latitude is one minute's ride
+const at = (minutes: number) => ({ lat: 17.4 + minutes * 0.001, lng: 78.4 });
+const travel: TravelEstimator = (from, to) => {
+  const minutes = Math.round(Math.abs(from.lat - to.lat) * 1000);
+  return { duration_s: minutes * MIN, distance_m: minutes * 400 };
+};
+
+function technician(id: string, overrides: Partial<PlanTechnician> = {}): PlanTechnician {
+  return { id, shift_start: SHIFT_START, shift_end: SHIFT_END, start: at(0), skills: {}, ...overrides };
+}
+
+function job(id: string, minutesAway: number, overrides: Partial<PlanJob> = {}): PlanJob {
+  return {
+    id,
+    location: at(minutesAway),
+    duration_s: 30 * MIN,
+    skill: null,
+    sla_due: null,
+    technician_id: null,
+    pinned_start: null,
+    in_progress: false,
+    ...overrides,
+  };
+}
+
+const order = (plan: ReturnType<typeof buildDayPlan>, technicianId: string) =>
+  plan.days.find(day => day.technician_id === technicianId)!.visits.map(visit => visit.job_id);
+
+describe('repairRequirement', () => {
+  it('uses the category default, a stored standard, or the fallback', () => {
+    const standards = [{ device_category: 'Laptop', repair_minutes: 100, skill_id: SOLDERING, min_skill_level: 3 }];
+
+    expect(repairRequirement('Mobile', [])).toEqual({ duration_s: 45 * MIN, skill: null });
+    expect(repairRequirement('washing_machine', []).duration_s).toBe(105 * MIN);
+    expect(repairRequirement('laptop', standards)).toEqual({ duration_s: 100 * MIN, skill: { skill_id: SOLDERING, min_level: 3 } });
+    expect(repairRequirement('Drone', []).duration_s).toBe(FALLBACK_REPAIR_MINUTES * MIN);
+  });
+});
+
+describe('buildDayPlan', () => {
+  it('gives skilled repairs only to technicians at the required level', () => {
+    const problem: PlanProblem = {
+      technicians: [technician('near'), technician('skilled', { start: at(30), skills: { [SOLDERING]: 2 } })],
+      jobs: [
+        job('board', 5, { skill: { skill_id: SOLDERING, min_level: 2 } }),
+        job('chip', 5, { skill: { skill_id: SOLDERING, min_level: 4 } }),
+      ],
+    };
+    const plan = buildDayPlan(problem, travel);
+
+    expect(order(plan, 'skilled')).toEqual(['board']);
+    expect(order(plan, 'near')).toEqual([]);
+    expect(plan.unscheduled).toEqual([{ job_id: 'chip', reason: 'no_skilled_technician' }]);
+  });
+
+  it('does not let a nearby job make an urgent one late', () => {
+    const problem: PlanProblem = {
+      technicians: [technician('tech')],
+      jobs: [job('nearby', 10), job('urgent', 60, { sla_due: SHIFT_START + 90 * MIN })],
+    };
+    const plan = buildDayPlan(problem, travel);
+    const [urgent, nearby] = plan.days[0].visits;
+
+    expect(order(plan, 'tech')).toEqual(['urgent', 'nearby']);
+    expect(urgent.end).toBe(SHIFT_START + 90 * MIN);
+    expect(urgent.sla_breach).toBe(false);
+    expect(nearby.travel_s).toBe(50 * MIN);
+  });
+
+  it('places a job nobody can finish in time at its earliest finish and flags it', () => {
+    const problem: PlanProblem = {
+      technicians: [technician('a'), technician('b', { start: at(40) })],
+      jobs: [job('overdue', 50, { sla_due: SHIFT_START })],
+    };
+    const plan = buildDayPlan(problem, travel);
+
+    expect(order(plan, 'b')).toEqual(['overdue']);
+    expect(plan.days[1].visits[0]).toEqual({
+      job_id: 'overdue', start: SHIFT_START + 10 * MIN, end: SHIFT_START + 40 * MIN, travel_s: 10 * MIN, distance_m: 4000, sla_breach: true,
+    });
+  });
+
+  it('keeps repairs inside the shift and explains what it could not place', () => {
+    const problem: PlanProblem = {
+      technicians: [technician('tech', { shift_end: SHIFT_START + 2 * 3600 })],
+      jobs: [
+        job('long', 10, { duration_s: 3 * 3600 }),
+        job('theirs', 10, { technician_id: 'off-today' }),
+        job('nowhere', 10, { location: { lat: NaN, lng: NaN } }),
+      ],
+    };
+
+    expect(buildDayPlan(problem, travel).unscheduled).toEqual([
+      { job_id: 'long', reason: 'no_feasible_slot' },
+      { job_id: 'theirs', reason: 'technician_unavailable' },
+      { job_id: 'nowhere', reason: 'missing_coordinates' },
+    ]);
+  });
+
+  it('keeps pinned jobs at their time', () => {
+    const problem: PlanProblem = {
+      technicians: [technician('tech')],
+      jobs: [job('free', 10), job('pinned', 20, { technician_id: 'tech', pinned_start: SHIFT_START + 3 * 3600 })],
+    };
+    const plan = buildDayPlan(problem, travel);
+
+    expect(order(plan, 'tech')).toEqual(['free', 'pinned']);
+    expect(plan.days[0].visits[1].start).toBe(SHIFT_START + 3 * 3600);
+  });
+});
+
+describe('replanAfterOverrun', () => {
+  const problem: PlanProblem = {
+    technicians: [technician('a'), technician('b', { start: at(100) })],
+    jobs: [
+      job('first', 10),
+      job('second', 20),
+      job('third', 30, { sla_due: SHIFT_START + 3 * 3600 }),
+    ],
+  };
+
+  it('re-times the later jobs and moves the ones that no longer fit', () => {
+    const plan = buildDayPlan(problem, travel);
+    expect(order(plan, 'a')).toEqual(['first', 'second', 'third']);
+
+    // first now ends at 12:40 instead of 09:40
+    const result = replanAfterOverrun(problem, plan, 'first', SHIFT_START + 220 * MIN, SHIFT_START + 60 * MIN, travel)!;
+    const [first, second] = result.days[0].visits;
+
+    expect(order(result, 'a')).toEqual(['first', 'second']);
+    expect(first.end).toBe(SHIFT_START + 220 * MIN);
+    expect(second.start).toBe(SHIFT_START + 230 * MIN);
+    expect(order(result, 'b')).toEqual(['third']);
+    expect(result.moved).toEqual([{ job_id: 'third', from_technician_id: 'a', to_technician_id: 'b' }]);
+  });
+
+  it('leaves a short overrun on the same technician', () => {
+    const plan = buildDayPlan(problem, travel);
+    const result = replanAfterOverrun(problem, plan, 'first', SHIFT_START + 60 * MIN, SHIFT_START + 30 * MIN, travel)!;
+
+    expect(order(result, 'a')).toEqual(['first', 'second', 'third']);
+    expect(result.moved).toEqual([]);
+    expect(replanAfterOverrun(problem, plan, 'missing', SHIFT_START, SHIFT_START, travel)).toBeNull();
+  });
+});
+
+describe('validateMove', () => {
+  const problem: PlanProblem = {
+    technicians: [technician('a'), technician('b', { start: at(50), skills: { [SOLDERING]: 1 } })],
+    jobs: [
+      job('one', 10),
+      job('two', 50, { skill: { skill_id: SOLDERING, min_level: 1 }, sla_due: SHIFT_START + 4 * 3600 }),
+    ],
+  };
+  const plan = buildDayPlan(problem, travel);
+
+  it('accepts a move into a gap with time to travel', () => {
+    expect(order(plan, 'a')).toEqual(['one']);
+    expect(order(plan, 'b')).toEqual(['two']);
+
+    const start = SHIFT_START + 2 * 3600;
+    expect(validateMove(problem, plan, { job_id: 'one', technician_id: 'b', start }, travel)).toEqual([]);
+
+    const moved = applyMove(problem, plan, { job_id: 'one', technician_id: 'b', start }, travel);
+    expect(order(moved.plan, 'a')).toEqual([]);
+    expect(order(moved.plan, 'b')).toEqual(['two', 'one']);
+    expect(moved.problem.jobs.find(candidate => candidate.id === 'one')!.pinned_start).toBe(start);
+  });
+
+  it('refuses moves that break a constraint', () => {
+    const two = plan.days[1].visits[0];
+
+    expect(validateMove(problem, plan, { job_id: 'two', technician_id: 'a', start: SHIFT_START + 3 * 3600 }, travel)).toEqual(['missing_skill']);
+    expect(validateMove(problem, plan, { job_id: 'one', technician_id: 'b', start: two.start + 10 * MIN }, travel)).toEqual(['overlaps']);
+    expect(validateMove(problem, plan, { job_id: 'one', technician_id: 'b', start: two.end + 40 * MIN }, travel)).toEqual([]);
+    expect(validateMove(problem, plan, { job_id: 'one', technician_id: 'b', start: SHIFT_END - 10 * MIN }, travel)).toEqual(['outside_shift']);
+    expect(validateMove(problem, plan, { job_id: 'two', technician_id: 'b', start: SHIFT_START + 5 * 3600 }, travel)).toEqual(['sla_breach']);
+    expect(validateMove(problem, plan, { job_id: 'one', technician_id: 'c', start: SHIFT_START }, travel)).toEqual(['unknown_technician']);
+  });
+
+  it('needs travel time from the previous job', () => {
+    const far: PlanProblem = { ...problem, jobs: [...problem.jobs, job('far', 90)] };
+    const farPlan = { ...plan, unscheduled: [{ job_id: 'far', reason: 'no_feasible_slot' as const }] };
+    const two = plan.days[1].visits[0];
+
+    expect(validateMove(far, farPlan, { job_id: 'far', technician_id: 'b', start: two.end + 20 * MIN }, travel)).toEqual(['no_time_to_travel']);
+    expect(validateMove(far, farPlan, { job_id: 'far', technician_id: 'b', start: two.end + 40 * MIN }, travel)).toEqual([]);
+  });
+});
+
+describe('toPlanProblem', () => {
+  const entry = (overrides: Partial<ScheduleEntry>): ScheduleEntry => ({
+    id: '00000000-0000-4000-8000-000000000101',
+    ticket_id: '00000000-0000-4000-8000-000000000201',
+    technician_id: '00000000-0000-4000-8000-000000000301',
+    label: 'Mobile #00000000',
+    device_category: 'Mobile',
+    lat: 17.4,
+    lng: 78.4,
+    repair_s: 45 * MIN,
+    required_skill_id: null,
+    min_skill_level: null,
+    sla_due_at: null,
+    assigned_technician_id: null,
+    start_at: '2025-12-01T09:00:00.000Z',
+    end_at: '2025-12-01T10:30:00.000Z',
+    travel_s: 0,
+    distance_m: 0,
+    sla_breach: false,
+    pinned: false,
+    status: 'in_progress',
+    ...overrides,
+  });
+
+  it('keeps a job under way at its start for as long as its entry says, and drops finished ones', () => {
+    const dayPlan: TechnicianDayPlan = {
+      plan_date: '2025-12-01',
+      run: null,
+      technicians: [{
+        technician_id: '00000000-0000-4000-8000-000000000301',
+        full_name: 'Ravi',
+        shift_id: '00000000-0000-4000-8000-000000000401',
+        shift_start: '2025-12-01T09:00:00.000Z',
+        shift_end: '2025-12-01T17:00:00.000Z',
+        start_lat: null,
+        start_lng: null,
+        skills: {},
+      }],
+      entries: [entry({}), entry({ id: '00000000-0000-4000-8000-000000000102', ticket_id: '00000000-0000-4000-8000-000000000202', status: 'done' })],
+      unplanned: [],
+    };
+    const { problem, plan } = toPlanProblem(dayPlan);
+
+    expect(problem.jobs).toHaveLength(1);
+    expect(problem.jobs[0].duration_s).toBe(90 * MIN);
+    expect(problem.jobs[0].pinned_start).toBe(SHIFT_START);
+    expect(problem.technicians[0].start).toBeNull();
+    expect(plan.days[0].visits.map(visit => visit.job_id)).toEqual(['00000000-0000-4000-8000-000000000201']);
+  });
+});
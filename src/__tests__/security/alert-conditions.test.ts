@@ -0,0 +1,142 @@
+/**
+ * Unit tests for expression-based security alert conditions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AlertEvaluationContext,
+  TimedEvent,
+  evaluateAlertExpression,
+  getLookbackMinutes,
+  matchesFilter,
+} from '@/lib/security/alertConditions';
+
+const NOW = Date.parse('2026-03-02T12:00:00Z');
+const minutesAgo = (minutes: number) => NOW - minutes * 60 * 1000;
+
+const event = (minutes: number, data: Record<string, any>): TimedEvent => ({ at: minutesAgo(minutes), data });
+
+const context = (events: Record<string, TimedEvent[]>, overrides: Partial<AlertEvaluationContext> = {}): AlertEvaluationContext => ({
+  key: 'admin-1',
+  groupBy: 'actor_user_id',
+  primarySource: 'audit_log_entries',
+  windowMinutes: 15,
+  now: NOW,
+  events,
+  ...overrides,
+});
+
+describe('matchesFilter', () => {
+  const row = { event_type: 'ADMIN_MFA_FAILED', metadata: { ip: '10.0.0.7' } };
+
+  it('supports eq, neq, in and regex on nested fields', () => {
+    expect(matchesFilter(row, { field: 'event_type', op: 'eq', value: 'ADMIN_MFA_FAILED' })).toBe(true);
+    expect(matchesFilter(row, { field: 'event_type', op: 'neq', value: 'ADMIN_MFA_FAILED' })).toBe(false);
+    expect(matchesFilter(row, { field: 'event_type', op: 'in', value: ['ADMIN_LOGIN_FAILED', 'ADMIN_MFA_FAILED'] })).toBe(true);
+    expect(matchesFilter(row, { field: 'metadata.ip', op: 'regex', value: '^10\\.' })).toBe(true);
+  });
+
+  it('never matches an invalid regex', () => {
+    expect(matchesFilter(row, { field: 'event_type', op: 'regex', value: '(' })).toBe(false);
+  });
+});
+
+describe('evaluateAlertExpression', () => {
+  it('counts only the group key inside the window', () => {
+    const events = {
+      audit_log_entries: [
+        event(1, { actor_user_id: 'admin-1' }),
+        event(5, { actor_user_id: 'admin-1' }),
+        event(6, { actor_user_id: 'admin-2' }),
+        event(30, { actor_user_id: 'admin-1' }),
+      ],
+    };
+    expect(evaluateAlertExpression({ type: 'count', threshold: 2 }, context(events)).matched).toBe(true);
+    expect(evaluateAlertExpression({ type: 'count', threshold: 3 }, context(events)).matched).toBe(false);
+  });
+
+  it('counts distinct values of a field', () => {
+    const events = {
+      audit_log_entries: ['1.1.1.1', '2.2.2.2', '2.2.2.2'].map((ip, i) => event(i + 1, { actor_user_id: 'admin-1', ip_address: ip })),
+    };
+    const result = evaluateAlertExpression({ type: 'distinct_count', field: 'ip_address', threshold: 2 }, context(events));
+    expect(result.matched).toBe(true);
+    expect(result.details.distinct_count).toBe(2);
+  });
+
+  it('compares the current window with the previous one', () => {
+    const events = {
+      audit_log_entries: [
+        ...[1, 2, 3, 4, 5, 6].map(m => event(m, { actor_user_id: 'admin-1' })),
+        ...[20, 25].map(m => event(m, { actor_user_id: 'admin-1' })),
+      ],
+    };
+    expect(evaluateAlertExpression({ type: 'rate_of_change', ratio: 3 }, context(events)).matched).toBe(true);
+    expect(evaluateAlertExpression({ type: 'rate_of_change', ratio: 4 }, context(events)).matched).toBe(false);
+  });
+
+  it('matches ordered steps within the time limit', () => {
+    const failed = { field: 'event_type', op: 'eq' as const, value: 'ADMIN_MFA_FAILED' };
+    const unlocked = { field: 'event_type', op: 'eq' as const, value: 'DEVICE_UNLOCK_PERFORMED' };
+    const expression = {
+      type: 'sequence' as const,
+      within_minutes: 10,
+      steps: [{ min_count: 2, filters: [failed] }, { filters: [unlocked] }],
+    };
+
+    const inOrder = {
+      audit_log_entries: [
+        event(9, { actor_user_id: 'admin-1', event_type: 'ADMIN_MFA_FAILED' }),
+        event(8, { actor_user_id: 'admin-1', event_type: 'ADMIN_MFA_FAILED' }),
+        event(2, { actor_user_id: 'admin-1', event_type: 'DEVICE_UNLOCK_PERFORMED' }),
+      ],
+    };
+    expect(evaluateAlertExpression(expression, context(inOrder)).matched).toBe(true);
+
+    const unlockFirst = {
+      audit_log_entries: [
+        event(9, { actor_user_id: 'admin-1', event_type: 'DEVICE_UNLOCK_PERFORMED' }),
+        event(8, { actor_user_id: 'admin-1', event_type: 'ADMIN_MFA_FAILED' }),
+        event(2, { actor_user_id: 'admin-1', event_type: 'ADMIN_MFA_FAILED' }),
+      ],
+    };
+    expect(evaluateAlertExpression(expression, context(unlockFirst)).matched).toBe(false);
+
+    const tooSlow = {
+      audit_log_entries: [
+        event(25, { actor_user_id: 'admin-1', event_type: 'ADMIN_MFA_FAILED' }),
+        event(24, { actor_user_id: 'admin-1', event_type: 'ADMIN_MFA_FAILED' }),
+        event(2, { actor_user_id: 'admin-1', event_type: 'DEVICE_UNLOCK_PERFORMED' }),
+      ],
+    };
+    expect(evaluateAlertExpression(expression, context(tooSlow)).matched).toBe(false);
+  });
+
+  it('reads sequence steps from other sources with their own group field', () => {
+    const expression = {
+      type: 'sequence' as const,
+      within_minutes: 10,
+      steps: [{}, { source: 'device_lock_conflicts', group_by: 'user_id' }],
+    };
+    const events = {
+      audit_log_entries: [event(5, { actor_user_id: 'admin-1' })],
+      device_lock_conflicts: [event(3, { user_id: 'admin-1' })],
+    };
+    expect(evaluateAlertExpression(expression, context(events)).matched).toBe(true);
+  });
+
+  it('combines conditions with all and any', () => {
+    const events = { audit_log_entries: [event(1, { actor_user_id: 'admin-1' })] };
+    const count = { type: 'count' as const, threshold: 1 };
+    const tooMany = { type: 'count' as const, threshold: 5 };
+    expect(evaluateAlertExpression({ all: [count, tooMany] }, context(events)).matched).toBe(false);
+    expect(evaluateAlertExpression({ any: [count, tooMany] }, context(events)).matched).toBe(true);
+  });
+});
+
+describe('getLookbackMinutes', () => {
+  it('covers the previous window for rate-of-change and the sequence limit', () => {
+    expect(getLookbackMinutes({ type: 'count', threshold: 1 }, 15)).toBe(15);
+    expect(getLookbackMinutes({ all: [{ type: 'rate_of_change', ratio: 2 }, { type: 'sequence', steps: [], within_minutes: 60 }] }, 15)).toBe(60);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for signed audit log exports and offline chain verification
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import {
+  AuditExportFormat,
+  AuditLogRow,
+  computeAuditLogHash,
+  csvHeaderLine,
+  signAuditManifest,
+  toCSVLine,
+  toJSONLLine,
+  verifyAuditExport,
+} from '@/lib/security/auditExport';
+
+const KEY = 'test-signing-key';
+
+function buildChain(count: number): AuditLogRow[] {
+  const rows: AuditLogRow[] = [];
+  let prevHash: string | null = null;
+  for (let i = 0; i < count; i++) {
+    const row: AuditLogRow = {
+      id: `entry-${i}`,
+      created_at: `2026-03-02T10:0${i}:00.000Z`,
+      actor_user_id: 'admin-1',
+      actor_role: 'admin',
+      session_id: null,
+      ip_address: '10.0.0.1',
+      user_agent: 'Mozilla/5.0, "quoted"',
+      event_type: 'ADMIN_LOGIN_SUCCESS',
+      entity_type: 'session',
+      entity_id: null,
+      severity: 'info',
+      metadata: { note: 'line one\nline two, with comma', attempt: i },
+      prev_hash: prevHash,
+      hash: '',
+    };
+    row.hash = computeAuditLogHash(row);
+    prevHash = row.hash;
+    rows.push(row);
+  }
+  return rows;
+}
+
+function exportRows(rows: AuditLogRow[], format: AuditExportFormat) {
+  const content = format === 'jsonl'
+    ? rows.map(toJSONLLine).join('')
+    : csvHeaderLine() + rows.map(toCSVLine).join('');
+
+  const manifest = signAuditManifest({
+    version: 1,
+    export_id: 'export-1',
+    format,
+    generated_at: '2026-03-02T11:00:00.000Z',
+    filters: { date_from: null, date_to: null },
+    chain_contiguous: true,
+    row_count: rows.length,
+    anchor_prev_hash: rows[0]?.prev_hash ?? null,
+    first_hash: rows[0]?.hash ?? null,
+    last_hash: rows[rows.length - 1]?.hash ?? null,
+    content_sha256: createHash('sha256').update(content).digest('hex'),
+    signature_algorithm: 'HMAC-SHA256',
+  }, KEY);
+
+  return { content, manifest };
+}
+
+describe('verifyAuditExport', () => {
+  for (const format of ['jsonl', 'csv'] as const) {
+    it(`verifies an untouched ${format} export`, () => {
+      const { content, manifest } = exportRows(buildChain(4), format);
+      const result = verifyAuditExport(content, manifest, KEY);
+      expect(result.ok).toBe(true);
+      expect(result.signature_valid).toBe(true);
+    });
+  }
+
+  it('rejects a manifest signed with another key', () => {
+    const { content, manifest } = exportRows(buildChain(2), 'jsonl');
+    expect(verifyAuditExport(content, manifest, 'other-key').signature_valid).toBe(false);
+  });
+
+  it('pinpoints a tampered entry even when the file digest is re-signed', () => {
+    const rows = buildChain(3);
+    rows[1] = { ...rows[1], severity: 'critical' };
+    const { content, manifest } = exportRows(rows, 'csv');
+
+    const result = verifyAuditExport(content, manifest, KEY);
+    expect(result.ok).toBe(false);
+    expect(result.signature_valid).toBe(true);
+    expect(result.first_invalid_id).toBe('entry-1');
+    expect(result.reason).toBe('hash_mismatch');
+  });
+
+  it('detects a removed entry through the prev_hash links', () => {
+    const rows = buildChain(3);
+    const { content, manifest } = exportRows([rows[0], rows[2]], 'jsonl');
+
+    const result = verifyAuditExport(content, manifest, KEY);
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('chain_broken');
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Unit tests for checkpointed audit chain verification and tamper alerts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AuditLogRow, computeAuditLogHash } from '@/lib/security/auditExport';
+import { AuditChainCheckpoint, AuditIntegrityService, signCheckpoint } from '@/lib/security/auditIntegrity';
+
+process.env.AUDIT_CHECKPOINT_SIGNING_KEY = 'test-checkpoint-key';
+
+function buildChain(count: number): AuditLogRow[] {
+  const rows: AuditLogRow[] = [];
+  let prevHash: string | null = null;
+  for (let i = 0; i < count; i++) {
+    const row: AuditLogRow = {
+      id: `entry-${String(i).padStart(2, '0')}`,
+      created_at: `2026-03-02T10:${String(i).padStart(2, '0')}:00.000Z`,
+      actor_user_id: 'admin-1',
+      actor_role: 'admin',
+      session_id: null,
+      ip_address: '10.0.0.1',
+      user_agent: 'Mozilla/5.0',
+      event_type: 'ADMIN_LOGIN_SUCCESS',
+      entity_type: 'session',
+      entity_id: null,
+      severity: 'info',
+      metadata: { attempt: i },
+      prev_hash: prevHash,
+      hash: '',
+    };
+    row.hash = computeAuditLogHash(row);
+    prevHash = row.hash;
+    rows.push(row);
+  }
+  return rows;
+}
+
+function checkpointAt(entry: AuditLogRow, id: string, signature?: string): AuditChainCheckpoint {
+  return {
+    id,
+    entry_id: entry.id,
+    entry_created_at: entry.created_at,
+    hash: entry.hash,
+    signature: signature ?? signCheckpoint(entry.id, entry.hash),
+    created_at: '2026-03-02T12:00:00.000Z',
+  };
+}
+
+type Row = Record<string, any>;
+
+// Column defaults the database applies on insert
+const TABLE_DEFAULTS: Record<string, Row> = {
+  security_alerts: { status: 'open' },
+};
+
+const field = (row: Row, column: string) =>
+  column.split('->>').reduce<any>((value, key) => (value == null ? undefined : value[key]), row);
+
+/**
+ * Just enough of the PostgREST query builder for the integrity service, over in-memory tables
+ */
+function fakeSupabase(tables: Record<string, Row[]>) {
+  const from = (table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    const orders: Array<{ column: string; ascending: boolean }> = [];
+    let limit = Infinity;
+    let head = false;
+    let inserted: Row[] | null = null;
+
+    const run = () => {
+      if (inserted) return { data: inserted, error: null, count: null };
+      const rows = (tables[table] || [])
+        .filter(row => filters.every(filter => filter(row)))
+        .sort((a, b) => {
+          for (const { column, ascending } of orders) {
+            if (a[column] !== b[column]) return (a[column] < b[column] ? -1 : 1) * (ascending ? 1 : -1);
+          }
+          return 0;
+        })
+        .slice(0, limit);
+      return { data: head ? null : rows, error: null, count: rows.length };
+    };
+
+    const query: any = {
+      select: (_columns: string, options?: { head?: boolean }) => {
+        head = Boolean(options?.head);
+        return query;
+      },
+      eq: (column: string, value: unknown) => (filters.push(row => field(row, column) === value), query),
+      lt: (column: string, value: string) => (filters.push(row => row[column] < value), query),
+      lte: (column: string, value: string) => (filters.push(row => row[column] <= value), query),
+      gte: (column: string, value: string) => (filters.push(row => row[column] >= value), query),
+      or: (expression: string) => {
+        // Keyset cursor: created_at.gt."<at>",and(created_at.eq."<at>",id.gt.<id>)
+        const [, at, id] = expression.match(/^created_at\.gt\."([^"]+)",and\(created_at\.eq\."[^"]+",id\.gt\.(.+)\)$/)!;
+        filters.push(row => row.created_at > at || (row.created_at === at && row.id > id));
+        return query;
+      },
+      order: (column: string, options: { ascending: boolean }) => (orders.push({ column, ...options }), query),
+      limit: (count: number) => ((limit = count), query),
+      insert: (rows: Row[]) => {
+        inserted = rows.map((row, index) => ({
+          id: `${table}-${(tables[table] || []).length + index + 1}`,
+          ...TABLE_DEFAULTS[table],
+          ...row,
+        }));
+        (tables[table] = tables[table] || []).push(...inserted);
+        return query;
+      },
+      maybeSingle: async () => ({ data: run().data?.[0] ?? null, error: null }),
+      single: async () => ({ data: run().data?.[0] ?? null, error: null }),
+      then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+        Promise.resolve(run()).then(resolve, reject),
+    };
+    return query;
+  };
+
+  return { from } as unknown as SupabaseClient;
+}
+
+describe('AuditIntegrityService.verify', () => {
+  let entries: AuditLogRow[];
+  let tables: Record<string, Row[]>;
+  let service: AuditIntegrityService;
+
+  beforeEach(() => {
+    entries = buildChain(10);
+    tables = { audit_log_entries: entries, audit_chain_checkpoints: [], security_alerts: [] };
+    service = new AuditIntegrityService(fakeSupabase(tables));
+  });
+
+  it('verifies the whole chain when there is no checkpoint', async () => {
+    const result = await service.verify();
+    expect(result.ok).toBe(true);
+    expect(result.checkpoint_id).toBeNull();
+    expect(result.verified_count).toBe(10);
+    expect(result.last_verified_id).toBe('entry-09');
+  });
+
+  it('starts from the newest checkpoint with a valid signature', async () => {
+    tables.audit_chain_checkpoints.push(
+      checkpointAt(entries[3], 'checkpoint-3'),
+      checkpointAt(entries[6], 'checkpoint-6'),
+      checkpointAt(entries[8], 'checkpoint-forged', 'ab'.repeat(32))
+    );
+
+    const result = await service.verify();
+    expect(result.ok).toBe(true);
+    expect(result.checkpoint_id).toBe('checkpoint-6');
+    expect(result.verified_count).toBe(3); // entry-07 .. entry-09
+  });
+
+  it('uses the checkpoint at or before dateFrom', async () => {
+    tables.audit_chain_checkpoints.push(checkpointAt(entries[3], 'checkpoint-3'), checkpointAt(entries[6], 'checkpoint-6'));
+
+    const result = await service.verify(entries[5].created_at);
+    expect(result.checkpoint_id).toBe('checkpoint-3');
+    expect(result.verified_count).toBe(6);
+  });
+
+  it('only re-hashes the tail after the checkpoint', async () => {
+    tables.audit_chain_checkpoints.push(checkpointAt(entries[6], 'checkpoint-6'));
+    entries[2].metadata = { attempt: 99 }; // Covered by the signed checkpoint
+
+    const result = await service.verify();
+    expect(result.ok).toBe(true);
+    expect(result.verified_count).toBe(3);
+  });
+
+  it('reports an edited tail entry with the surrounding entries', async () => {
+    tables.audit_chain_checkpoints.push(checkpointAt(entries[3], 'checkpoint-3'));
+    entries[7].metadata = { attempt: 99 };
+
+    const result = await service.verify();
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('hash_mismatch');
+    expect(result.first_invalid_id).toBe('entry-07');
+    expect(result.last_verified_id).toBe('entry-06');
+    expect(result.context.map(entry => entry.id)).toEqual(['entry-05', 'entry-06', 'entry-07', 'entry-08', 'entry-09']);
+    expect(result.alert_raised).toBe(true);
+  });
+
+  it('reports a deleted tail entry as a broken chain', async () => {
+    entries.splice(5, 1);
+
+    const result = await service.verify();
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('chain_broken');
+    expect(result.first_invalid_id).toBe('entry-06');
+  });
+
+  it('reports a checkpointed entry that was rewritten and re-hashed', async () => {
+    tables.audit_chain_checkpoints.push(checkpointAt(entries[6], 'checkpoint-6'));
+    entries[6].metadata = { attempt: 99 };
+    entries[6].hash = computeAuditLogHash(entries[6]); // Self-consistent, but not what was signed
+
+    const result = await service.verify();
+    expect(result.ok).toBe(false);
+    expect(result.reason).toBe('checkpoint_mismatch');
+    expect(result.first_invalid_id).toBe('entry-06');
+    expect(result.checkpoint_id).toBe('checkpoint-6');
+    expect(result.verified_count).toBe(0);
+    expect(result.alert_raised).toBe(true);
+  });
+
+  it('reports a checkpoint whose entry was deleted', async () => {
+    tables.audit_chain_checkpoints.push(checkpointAt(entries[6], 'checkpoint-6'));
+    entries.splice(6, 1);
+
+    const result = await service.verify();
+    expect(result.reason).toBe('checkpoint_mismatch');
+    expect(result.first_invalid_id).toBe('entry-06');
+  });
+
+  it('raises one open alert per broken entry across runs', async () => {
+    entries[4].metadata = { attempt: 99 };
+
+    const first = await service.verify();
+    const second = await service.verify();
+
+    expect(first.alert_raised).toBe(true);
+    expect(second.alert_raised).toBe(false);
+    expect(second.context).toHaveLength(5);
+    expect(tables.security_alerts).toHaveLength(1);
+    expect(tables.security_alerts[0].metadata.key).toBe('entry-04');
+    expect(tables.security_alerts[0].metadata.reason).toBe('hash_mismatch');
+  });
+
+  it('raises a new alert once the previous one is no longer open', async () => {
+    entries[4].metadata = { attempt: 99 };
+
+    await service.verify();
+    tables.security_alerts[0].status = 'resolved';
+    const again = await service.verify();
+
+    expect(again.alert_raised).toBe(true);
+    expect(tables.security_alerts).toHaveLength(2);
+  });
+});
+
+describe('AuditIntegrityService.createCheckpoint', () => {
+  it('signs a checkpoint at the newest verified entry', async () => {
+    const entries = buildChain(5);
+    const tables: Record<string, Row[]> = { audit_log_entries: entries, audit_chain_checkpoints: [], security_alerts: [] };
+    const service = new AuditIntegrityService(fakeSupabase(tables));
+
+    const { result, checkpoint } = await service.createCheckpoint();
+    expect(result.ok).toBe(true);
+    expect(checkpoint?.entry_id).toBe('entry-04');
+    expect(checkpoint?.signature).toBe(signCheckpoint('entry-04', entries[4].hash));
+
+    // Nothing new to verify: no second checkpoint
+    const next = await service.createCheckpoint();
+    expect(next.result.verified_count).toBe(0);
+    expect(next.checkpoint).toBeNull();
+    expect(tables.audit_chain_checkpoints).toHaveLength(1);
+  });
+
+  it('does not checkpoint a broken chain', async () => {
+    const entries = buildChain(5);
+    entries[2].metadata = { attempt: 99 };
+    const tables: Record<string, Row[]> = { audit_log_entries: entries, audit_chain_checkpoints: [], security_alerts: [] };
+
+    const { result, checkpoint } = await new AuditIntegrityService(fakeSupabase(tables)).createCheckpoint();
+    expect(result.ok).toBe(false);
+    expect(checkpoint).toBeNull();
+    expect(tables.audit_chain_checkpoints).toHaveLength(0);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for hierarchical SLA policy resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SLAPolicy } from '@/lib/services/sla-service';
+import {
+  DEFAULT_SLA_POLICIES,
+  getSLATarget,
+  resolveSLAPolicy,
+} from '@/lib/utils/sla-policy';
+
+const policy = (id: string, baseMinutes: number, overrides: Partial<SLAPolicy> = {}): SLAPolicy => ({
+  id,
+  name: id,
+  scope: 'global',
+  base_minutes: baseMinutes,
+  logic: {},
+  active: true,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const at = new Date('2026-03-02T10:00:00.000Z');
+
+describe('resolveSLAPolicy specificity', () => {
+  const policies = [
+    policy('global', 2880),
+    policy('mobile', 1440, { device_category: 'Mobile' }),
+    policy('hyd-mobile', 720, { city: 'Hyderabad', device_category: 'Mobile' }),
+    policy('samsung', 960, { brand: 'Samsung' }),
+    policy('vip', 240, { customer_segment: 'vip' }),
+  ];
+
+  it('falls back to the global policy when nothing more specific matches', () => {
+    expect(resolveSLAPolicy({ deviceCategory: 'TV', at }, policies)?.policy.id).toBe('global');
+  });
+
+  it('prefers a city + category policy over a category-only policy', () => {
+    const resolved = resolveSLAPolicy({ city: 'Hyderabad', deviceCategory: 'Mobile', at }, policies);
+    expect(resolved?.policy.id).toBe('hyd-mobile');
+    expect(resolved?.targetMinutes).toBe(720);
+  });
+
+  it('ranks a brand policy above a city + category policy', () => {
+    const resolved = resolveSLAPolicy({ city: 'Hyderabad', deviceCategory: 'Mobile', brand: 'Samsung', at }, policies);
+    expect(resolved?.policy.id).toBe('samsung');
+  });
+
+  it('ranks the customer segment above every other dimension', () => {
+    const resolved = resolveSLAPolicy(
+      { city: 'Hyderabad', deviceCategory: 'Mobile', brand: 'Samsung', customerSegment: 'VIP', at },
+      policies
+    );
+    expect(resolved?.policy.id).toBe('vip');
+  });
+
+  it('matches dimensions case-insensitively and ignores surrounding whitespace', () => {
+    expect(resolveSLAPolicy({ city: ' hyderabad ', deviceCategory: 'MOBILE', at }, policies)?.policy.id).toBe('hyd-mobile');
+  });
+
+  it('does not apply a policy whose dimension the ticket lacks', () => {
+    expect(resolveSLAPolicy({ deviceCategory: 'Mobile', at }, policies)?.policy.id).toBe('mobile');
+  });
+
+  it('returns null when no policy matches at all', () => {
+    expect(resolveSLAPolicy({ deviceCategory: 'TV', at }, [policies[1]])).toBeNull();
+  });
+});
+
+describe('resolveSLAPolicy tie-breaks', () => {
+  it('uses priority between equally specific policies', () => {
+    const policies = [
+      policy('standard', 1440, { device_category: 'Mobile', priority: 0 }),
+      policy('escalated', 600, { device_category: 'Mobile', priority: 10 }),
+    ];
+    expect(resolveSLAPolicy({ deviceCategory: 'Mobile', at }, policies)?.policy.id).toBe('escalated');
+    expect(resolveSLAPolicy({ deviceCategory: 'Mobile', at }, [...policies].reverse())?.policy.id).toBe('escalated');
+  });
+
+  it('does not let priority outrank specificity', () => {
+    const policies = [
+      policy('global-urgent', 60, { priority: 100 }),
+      policy('mobile', 1440, { device_category: 'Mobile' }),
+    ];
+    expect(resolveSLAPolicy({ deviceCategory: 'Mobile', at }, policies)?.policy.id).toBe('mobile');
+  });
+
+  it('uses the most recent effective_from when specificity and priority tie', () => {
+    const policies = [
+      policy('2025-terms', 1440, { device_category: 'Mobile', effective_from: '2025-01-01T00:00:00.000Z' }),
+      policy('2026-terms', 1200, { device_category: 'Mobile', effective_from: '2026-01-01T00:00:00.000Z' }),
+      policy('open-ended', 2000, { device_category: 'Mobile' }),
+    ];
+    expect(resolveSLAPolicy({ deviceCategory: 'Mobile', at }, policies)?.policy.id).toBe('2026-terms');
+  });
+});
+
+describe('resolveSLAPolicy effective windows', () => {
+  const policies = [
+    policy('mobile', 1440, { device_category: 'Mobile' }),
+    policy('festive', 2880, {
+      device_category: 'Mobile',
+      priority: 5,
+      effective_from: '2026-10-15T00:00:00.000Z',
+      effective_to: '2026-11-15T00:00:00.000Z',
+    }),
+  ];
+
+  it('ignores a policy before its window opens', () => {
+    expect(resolveSLAPolicy({ deviceCategory: 'Mobile', at: new Date('2026-10-14T23:59:59.000Z') }, policies)?.policy.id).toBe('mobile');
+  });
+
+  it('applies a policy inside its window', () => {
+    expect(resolveSLAPolicy({ deviceCategory: 'Mobile', at: new Date('2026-10-15T00:00:00.000Z') }, policies)?.policy.id).toBe('festive');
+  });
+
+  it('treats effective_to as exclusive', () => {
+    expect(resolveSLAPolicy({ deviceCategory: 'Mobile', at: new Date('2026-11-15T00:00:00.000Z') }, policies)?.policy.id).toBe('mobile');
+  });
+
+  it('skips inactive policies', () => {
+    const inactive = [policy('mobile', 1440, { device_category: 'Mobile' }), policy('paused', 60, { device_category: 'Mobile', priority: 9, active: false })];
+    expect(resolveSLAPolicy({ deviceCategory: 'Mobile', at }, inactive)?.policy.id).toBe('mobile');
+  });
+});
+
+describe('getSLATarget', () => {
+  it('uses the built-in policies when none are passed in', () => {
+    expect(getSLATarget('Mobile')).toBe(1440);
+    expect(getSLATarget('TV')).toBe(4320);
+    expect(getSLATarget('Console')).toBe(2880);
+    expect(getSLATarget('Mobile', DEFAULT_SLA_POLICIES)).toBe(1440);
+  });
+
+  it('uses the policies it is given', () => {
+    expect(getSLATarget({ deviceCategory: 'Mobile', at }, [policy('mobile', 300, { device_category: 'Mobile' })])).toBe(300);
+  });
+
+  it('falls back to 48 hours when no policy matches', () => {
+    expect(getSLATarget({ deviceCategory: 'Mobile', at }, [])).toBe(2880);
+  });
+});
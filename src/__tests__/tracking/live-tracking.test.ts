@@ -0,0 +1,174 @@
+/**
+ * Unit tests for live transporter tracking: ping filtering, the offline ping buffer, ETA smoothing
+ * and what customers may see of the rider
+ */
+
+import { describe, it, expect } from 'vitest';
+import { filterPings, isPingStale, LocationPing, MAX_PING_BATCH } from '@/lib/tracking/pings';
+import { LocationPingBuffer, PingStorage } from '@/lib/tracking/ping-buffer';
+import {
+  chainTravel,
+  customerVisiblePosition,
+  estimateTravelSeconds,
+  HANDOFF_DWELL_S,
+  orderByNearest,
+  orderBySequence,
+  smoothEta,
+  smoothSpeed
+} from '@/lib/tracking/eta';
+
+const NOW = new Date('2025-12-01T10:00:00.000Z');
+
+// Pings heading north, ~110 m apart per step
+function ping(secondsBeforeNow: number, step = 0, overrides: Partial<LocationPing> = {}): LocationPing {
+  return {
+    lat: 17.4 + step * 0.001,
+    lng: 78.4,
+    accuracy_m: 10,
+    speed_kmh: null,
+    heading: null,
+    battery_level: 80,
+    recorded_at: new Date(NOW.getTime() - secondsBeforeNow * 1000).toISOString(),
+    ...overrides,
+  };
+}
+
+function memoryStorage(): PingStorage & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: key => data.get(key) ?? null,
+    setItem: (key, value) => {
+      data.set(key, value);
+    },
+  };
+}
+
+describe('filterPings', () => {
+  it('sorts a late batch and thins it to one ping per interval', () => {
+    const result = filterPings([ping(30, 2), ping(60, 0), ping(55, 0), ping(45, 1)], null, NOW);
+
+    expect(result.accepted.map(p => p.recorded_at)).toEqual([ping(60).recorded_at, ping(45).recorded_at, ping(30).recorded_at]);
+    expect(result.rejected.map(r => r.reason)).toEqual(['throttled']);
+  });
+
+  it('drops pings older than the last stored one, coarse fixes and clock drift', () => {
+    const last = ping(20, 0);
+    const result = filterPings([
+      ping(40, 1),
+      ping(0, 1, { accuracy_m: 400 }),
+      ping(-600, 1),
+    ], last, NOW);
+
+    expect(result.accepted).toHaveLength(0);
+    expect(result.rejected.map(r => r.reason)).toEqual(['throttled', 'low_accuracy', 'in_future']);
+  });
+
+  it('rejects a jump no vehicle could make', () => {
+    // ~11 km in 30 seconds
+    const result = filterPings([ping(60, 0), ping(30, 100)], null, NOW);
+
+    expect(result.accepted).toHaveLength(1);
+    expect(result.rejected[0].reason).toBe('implausible_jump');
+  });
+});
+
+describe('isPingStale', () => {
+  it('flags silence longer than the threshold', () => {
+    expect(isPingStale(ping(4 * 60).recorded_at, NOW)).toBe(false);
+    expect(isPingStale(ping(6 * 60).recorded_at, NOW)).toBe(true);
+    expect(isPingStale(null, NOW)).toBe(true);
+  });
+});
+
+describe('LocationPingBuffer', () => {
+  it('throttles fixes as they arrive', () => {
+    const buffer = new LocationPingBuffer(memoryStorage());
+
+    expect(buffer.add(ping(60))).toBe(true);
+    expect(buffer.add(ping(55))).toBe(false);
+    expect(buffer.add(ping(40))).toBe(true);
+    expect(buffer.size).toBe(2);
+  });
+
+  it('sends in batches and keeps what failed for the next flush', async () => {
+    const storage = memoryStorage();
+    const buffer = new LocationPingBuffer(storage);
+    for (let i = MAX_PING_BATCH + 10; i > 0; i--) buffer.add(ping(i * 20));
+
+    const batches: number[] = [];
+    let online = false;
+    const send = async (batch: LocationPing[]) => {
+      if (!online) throw new Error('offline');
+      batches.push(batch.length);
+    };
+
+    expect(await buffer.flush(send)).toBe(0);
+    expect(buffer.size).toBe(MAX_PING_BATCH + 10);
+
+    online = true;
+    expect(await buffer.flush(send)).toBe(MAX_PING_BATCH + 10);
+    expect(batches).toEqual([MAX_PING_BATCH, 10]);
+    expect(buffer.size).toBe(0);
+  });
+});
+
+describe('ETA', () => {
+  const rider = { lat: 17.4, lng: 78.4 };
+  const near = { lat: 17.41, lng: 78.4 };
+  const far = { lat: 17.43, lng: 78.4 };
+
+  it('keeps the observed speed within a band around the city speed', () => {
+    const stopped = estimateTravelSeconds(rider, far, 0, 'motorbike');
+    const cruising = estimateTravelSeconds(rider, far, null, 'motorbike');
+
+    // Held at half the 22 km/h city speed
+    expect(stopped.seconds).toBe(Math.round(cruising.distance_m / (11 / 3.6)));
+    expect(stopped.distance_m).toBe(cruising.distance_m);
+  });
+
+  it('smooths speeds and estimates towards the newest observation', () => {
+    expect(smoothSpeed(null, 30)).toBe(30);
+    expect(smoothSpeed(20, 30)).toBe(23);
+    expect(smoothSpeed(20, null)).toBe(20);
+
+    const previous = { eta_at: '2025-12-01T10:10:00.000Z', distance_m: 3000, updated_at: '2025-12-01T09:59:00.000Z' };
+    const smoothed = smoothEta(previous, { seconds: 1600, distance_m: 3000 }, NOW);
+
+    // 0.3 × 1600 s + 0.7 × 600 s
+    expect(smoothed.eta_at).toBe('2025-12-01T10:15:00.000Z');
+  });
+
+  it('starts over from an estimate that is too old to trust', () => {
+    const previous = { eta_at: '2025-12-01T10:10:00.000Z', distance_m: 3000, updated_at: '2025-12-01T09:30:00.000Z' };
+
+    expect(smoothEta(previous, { seconds: 1600, distance_m: 3000 }, NOW).eta_at).toBe('2025-12-01T10:26:40.000Z');
+  });
+
+  it('chains stops nearest first with a hand-off at each', () => {
+    const legs = chainTravel(rider, orderByNearest(rider, [{ ...far, id: 'far' }, { ...near, id: 'near' }]), null, 'motorbike');
+
+    expect(legs.map(leg => leg.stop.id)).toEqual(['near', 'far']);
+    expect(legs.map(leg => leg.stops_before)).toEqual([0, 1]);
+    expect(legs[1].seconds).toBe(legs[0].seconds + estimateTravelSeconds(near, far, null, 'motorbike').seconds + HANDOFF_DWELL_S);
+  });
+
+  it('follows the run sheet order, then the unplanned stops nearest first', () => {
+    const middle = { lat: 17.42, lng: 78.4 };
+    const stops = [{ ...near, id: 'near' }, { ...middle, id: 'middle' }, { ...far, id: 'far' }];
+    const planned: Record<string, number> = { far: 0, near: 1 };
+
+    expect(orderBySequence(rider, stops, stop => planned[stop.id] ?? null).map(stop => stop.id)).toEqual(['far', 'near', 'middle']);
+    expect(orderBySequence(rider, stops, () => null).map(stop => stop.id)).toEqual(['near', 'middle', 'far']);
+  });
+});
+
+describe('customerVisiblePosition', () => {
+  const home = { lat: 17.4, lng: 78.4 };
+
+  it('shows a rounded position only when the rider is close and heading to the customer', () => {
+    expect(customerVisiblePosition({ lat: 17.41234, lng: 78.40567 }, home, true)).toEqual({ lat: 17.412, lng: 78.406 });
+    expect(customerVisiblePosition({ lat: 17.41234, lng: 78.40567 }, home, false)).toBeNull();
+    expect(customerVisiblePosition({ lat: 17.5, lng: 78.4 }, home, true)).toBeNull();
+  });
+});
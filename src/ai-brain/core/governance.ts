@@ -3,6 +3,7 @@ export const GOVERNANCE_RULES = [
     "NEVER recommend firing a human technician solely based on AI score (AI proposes, Admin decides).",
     "NEVER invent or hallucinate ticket status or SLA timeline.",
     "NEVER expose Customer PII (phone, address) in generated summaries.",
+    "Customer PII is shown as tokens like [PHONE_1] or [NAME_1]. Use the tokens as-is; NEVER guess the real values.",
     "ALWAYS flag 'High Priority' if Trust Value is at risk.",
     "ALWAYS prioritize 'Fairness' in technician performance evaluation.",
     "IF Confidence is low (<50%), explicitly state 'Low Confidence'."
@@ -15,3 +16,10 @@ export const BANNED_KEYWORDS = [
     "fake status",
     "delete logs"
 ];
+
+/**
+ * PII categories that must never reach a model prompt or a generated summary
+ * (enforces "NEVER expose Customer PII (phone, address)"). Every brain pack's
+ * redaction rules must cover these.
+ */
+export const GOVERNANCE_REQUIRED_REDACTIONS = ['phone', 'address', 'email', 'name'] as const;
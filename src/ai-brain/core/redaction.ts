@@ -0,0 +1,211 @@
+import { GOVERNANCE_REQUIRED_REDACTIONS } from './governance';
+
+export type PiiCategory = 'phone' | 'address' | 'email' | 'name';
+
+/**
+ * A redaction rule: values of matching fields are tokenised outright, and string values
+ * anywhere are scanned with the category's patterns (if it has any)
+ */
+export interface RedactionRule {
+  category: PiiCategory;
+  fields: string[];
+}
+
+/**
+ * A PII value replaced by a token. Only the server may map tokens back (see PiiVaultService).
+ */
+export interface PiiToken {
+  token: string;
+  category: PiiCategory;
+  value: string;
+}
+
+// Detectors for free text. Names have no reliable pattern: they are found by field name,
+// and every value found that way is also replaced wherever else it appears.
+const PATTERNS: Record<PiiCategory, RegExp[]> = {
+  email: [/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g],
+  phone: [
+    // E.164, optionally grouped: +919876543210, +91 98765 43210, +1-415-555-0100
+    /(?<![\w+])\+[1-9](?:[\s-]?\d){7,14}(?![\w-])/g,
+    // Indian mobiles: 9876543210, 98765-43210, 091 98765 43210, 919876543210
+    /(?<![\w+-])(?:(?:0|91)[\s-]?)?[6-9]\d{4}[\s-]?\d{5}(?![\w-])/g,
+    // Indian landlines with STD code: 040-2345 6789, 080 23456789
+    /(?<![\w+-])0\d{2,4}[\s-]\d{3,4}[\s-]?\d{4}(?![\w-])/g,
+  ],
+  address: [
+    // House number, up to four words, a street-type keyword, locality words and an optional PIN code
+    /\b\d{1,5}(?:[/-]\d{1,5})?,?\s+(?:[A-Za-z0-9.'-]+\s+){0,4}?(?:Road|Rd|Street|St|Nagar|Colony|Layout|Lane|Marg|Cross|Block|Sector|Phase|Apartments?|Residency|Enclave)\b(?:,?\s+[A-Za-z0-9][\w'-]*){0,4}(?:,?\s*[1-9]\d{5}\b)?/gi,
+  ],
+  name: [],
+};
+
+// Emails first: they may contain digit runs the phone patterns would otherwise split
+const SCAN_ORDER: PiiCategory[] = ['email', 'phone', 'address', 'name'];
+
+const TOKEN_PATTERN = /\[(PHONE|ADDRESS|EMAIL|NAME)_(\d+)\]/g;
+
+export const STANDARD_REDACTION_RULES: RedactionRule[] = [
+  { category: 'phone', fields: ['phone', 'phone_e164', 'mobile', 'whatsapp_number', 'contact_number', 'alternate_phone'] },
+  { category: 'address', fields: ['address', 'address_line1', 'address_line2', 'pickup_address', 'drop_address', 'delivery_address', 'landmark'] },
+  { category: 'email', fields: ['email', 'email_address'] },
+  { category: 'name', fields: ['customer_name', 'full_name', 'contact_name', 'recipient_name', 'first_name', 'last_name'] },
+];
+
+/**
+ * Categories required by governance that a rule set does not cover
+ */
+export function missingGovernanceRedactions(rules: RedactionRule[]): PiiCategory[] {
+  const covered = new Set(rules.map(rule => rule.category));
+  return GOVERNANCE_REQUIRED_REDACTIONS.filter(category => !covered.has(category));
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Replaces PII with stable tokens such as [PHONE_1] for the lifetime of one AI request.
+ * The same value always gets the same token, so the model can still reason about
+ * "the same customer" without ever seeing who it is.
+ */
+export class PiiRedactor {
+  private tokensByKey = new Map<string, PiiToken>();
+  private tokensByToken = new Map<string, PiiToken>();
+  private counters: Record<PiiCategory, number> = { phone: 0, address: 0, email: 0, name: 0 };
+  private fieldCategories = new Map<string, PiiCategory>();
+  private categories: Set<PiiCategory>;
+
+  constructor(rules: RedactionRule[]) {
+    this.categories = new Set(rules.map(rule => rule.category));
+    for (const rule of rules) {
+      for (const field of rule.fields) {
+        this.fieldCategories.set(field.toLowerCase(), rule.category);
+      }
+    }
+  }
+
+  /**
+   * Tokens issued so far
+   */
+  get tokens(): PiiToken[] {
+    return Array.from(this.tokensByToken.values());
+  }
+
+  /**
+   * Register a known PII value (e.g. the customer's name) so it is replaced wherever it appears
+   */
+  addKnownValue(category: PiiCategory, value: string): string {
+    const normalised = value.trim();
+    const key = `${category}:${normalised.toLowerCase()}`;
+    const existing = this.tokensByKey.get(key);
+    if (existing) return existing.token;
+
+    const token = `[${category.toUpperCase()}_${++this.counters[category]}]`;
+    const entry = { token, category, value: normalised };
+    this.tokensByKey.set(key, entry);
+    this.tokensByToken.set(token, entry);
+    return token;
+  }
+
+  /**
+   * Tokenise PII in a string: known values first, then the category patterns
+   */
+  redactText(text: string): string {
+    // Longest first, so "Ravi Kumar" is replaced before "Ravi"
+    const known = this.tokens
+      .filter(entry => entry.value.length >= 3)
+      .sort((a, b) => b.value.length - a.value.length);
+
+    let result = text;
+    for (const entry of known) {
+      result = result.replace(new RegExp(`(?<![\\w])${escapeRegExp(entry.value)}(?![\\w])`, 'gi'), entry.token);
+    }
+
+    for (const category of SCAN_ORDER) {
+      if (!this.categories.has(category)) continue;
+      for (const pattern of PATTERNS[category]) {
+        result = result.replace(pattern, match => this.addKnownValue(category, match));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Deep-copy a value with PII tokenised. Values of PII fields are registered before any
+   * free text is scanned, so a name in a `customer_name` field is also caught inside notes.
+   */
+  redact<T>(value: T): T {
+    this.collectFieldValues(value);
+
+    // Inside a PII field (e.g. a structured address) every scalar is tokenised
+    const walk = (node: unknown, fieldCategory?: PiiCategory): unknown => {
+      if (Array.isArray(node)) return node.map(child => walk(child, fieldCategory));
+      if (node && typeof node === 'object') {
+        const result: Record<string, unknown> = {};
+        for (const [key, child] of Object.entries(node)) {
+          result[key] = walk(child, this.fieldCategories.get(key.toLowerCase()) ?? fieldCategory);
+        }
+        return result;
+      }
+      if (fieldCategory && (typeof node === 'string' || typeof node === 'number') && String(node).trim() !== '') {
+        return this.addKnownValue(fieldCategory, String(node));
+      }
+      if (typeof node === 'string') return this.redactText(node);
+      return node;
+    };
+
+    return walk(value) as T;
+  }
+
+  private collectFieldValues(node: unknown): void {
+    if (Array.isArray(node)) {
+      node.forEach(child => this.collectFieldValues(child));
+    } else if (node && typeof node === 'object') {
+      for (const [key, child] of Object.entries(node)) {
+        const category = this.fieldCategories.get(key.toLowerCase());
+        if (category && (typeof child === 'string' || typeof child === 'number') && String(child).trim() !== '') {
+          this.addKnownValue(category, String(child));
+        } else {
+          this.collectFieldValues(child);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Replace tokens in a string with their original values. Server-side only, for authorised display.
+ * Unknown tokens are left as they are.
+ */
+export function restoreTokens(text: string, tokens: PiiToken[]): string {
+  const byToken = new Map(tokens.map(entry => [entry.token, entry.value]));
+  return text.replace(TOKEN_PATTERN, token => byToken.get(token) ?? token);
+}
+
+/**
+ * Deep-copy a value with tokens restored (see restoreTokens)
+ */
+export function restoreValue<T>(value: T, tokens: PiiToken[]): T {
+  const walk = (node: unknown): unknown => {
+    if (typeof node === 'string') return restoreTokens(node, tokens);
+    if (Array.isArray(node)) return node.map(walk);
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).map(([key, child]) => [key, walk(child)]));
+    }
+    return node;
+  };
+  return walk(value) as T;
+}
+
+/**
+ * Tokenise a string with a one-off redactor
+ */
+export function redactText(text: string, rules: RedactionRule[]): string {
+  return new PiiRedactor(rules).redactText(text);
+}
+
+/**
+ * Tokenise a value with a one-off redactor
+ */
+export function redactValue<T>(value: T, rules: RedactionRule[]): T {
+  return new PiiRedactor(rules).redact(value);
+}
@@ -1,10 +1,21 @@
 import { BrainPack } from '../types';
 import { JAMES_TRONIC_CORE_PERSONA } from '../core/persona';
 import { GOVERNANCE_RULES } from '../core/governance';
+import { STANDARD_REDACTION_RULES } from '../core/redaction';
 
 export const ADMIN_COCKPIT_PACK: BrainPack = {
   name: 'Admin_Cockpit_V1',
+  context: 'admin_cockpit',
   required_metrics: ['active_tickets', 'sla_breaches', 'revenue_today', 'critical_alerts'],
+  readable_metrics: ['active_tickets', 'sla_breaches', 'revenue_today', 'critical_alerts'],
+  allowed_roles: ['admin'],
+  redaction_rules: STANDARD_REDACTION_RULES,
+  value_scoring: true,
+  model: {
+    model: 'qwen/qwen-2.5-7b-instruct', // Paid but extremely cheap (~$0.00002/request)
+    timeout_ms: 20000,
+    max_retries: 2
+  },
   system_prompt_template: `
 ${JAMES_TRONIC_CORE_PERSONA}
 
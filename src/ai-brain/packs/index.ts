@@ -0,0 +1,41 @@
+import { AiContext, BrainPack } from '../types';
+import { missingGovernanceRedactions } from '../core/redaction';
+import { ADMIN_COCKPIT_PACK } from './admin-cockpit';
+import { TECHNICIAN_JOB_ASSIST_PACK } from './technician-job-assist';
+import { MANAGER_PRICING_REVIEW_PACK } from './manager-pricing-review';
+import { SUPPORT_AGENT_PACK } from './support-agent';
+
+const registry = new Map<AiContext, BrainPack>();
+
+/**
+ * Register a brain pack for its context. Packs whose redaction rules do not cover
+ * the governance-required PII categories are rejected.
+ */
+export function registerBrainPack(pack: BrainPack): void {
+  const missing = missingGovernanceRedactions(pack.redaction_rules);
+  if (missing.length > 0) {
+    throw new Error(`Brain pack ${pack.name} does not redact: ${missing.join(', ')}`);
+  }
+  if (pack.allowed_roles.length === 0) {
+    throw new Error(`Brain pack ${pack.name} declares no allowed roles`);
+  }
+  registry.set(pack.context, pack);
+}
+
+export function getBrainPack(context: AiContext): BrainPack | undefined {
+  return registry.get(context);
+}
+
+/**
+ * Packs a role may query
+ */
+export function listBrainPacksForRole(role: string): BrainPack[] {
+  return Array.from(registry.values()).filter(pack => pack.allowed_roles.includes(role));
+}
+
+[
+  ADMIN_COCKPIT_PACK,
+  TECHNICIAN_JOB_ASSIST_PACK,
+  MANAGER_PRICING_REVIEW_PACK,
+  SUPPORT_AGENT_PACK
+].forEach(registerBrainPack);
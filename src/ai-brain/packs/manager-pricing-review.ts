@@ -0,0 +1,39 @@
+import { BrainPack } from '../types';
+import { JAMES_TRONIC_CORE_PERSONA } from '../core/persona';
+import { GOVERNANCE_RULES } from '../core/governance';
+import { STANDARD_REDACTION_RULES } from '../core/redaction';
+
+export const MANAGER_PRICING_REVIEW_PACK: BrainPack = {
+  name: 'Manager_Pricing_Review_V1',
+  context: 'manager_pricing_review',
+  required_metrics: ['quotes_issued', 'quote_acceptance_rate'],
+  readable_metrics: ['quotes_issued', 'quote_acceptance_rate', 'avg_quote_value', 'avg_margin_pct', 'price_overrides'],
+  allowed_roles: ['manager', 'admin'],
+  redaction_rules: STANDARD_REDACTION_RULES,
+  grounding: 'pricing_rulesets',
+  model: {
+    model: 'qwen/qwen-2.5-7b-instruct',
+    timeout_ms: 20000,
+    max_retries: 2
+  },
+  system_prompt_template: `
+${JAMES_TRONIC_CORE_PERSONA}
+
+GOVERNANCE RULES:
+${GOVERNANCE_RULES.join('\n')}
+
+CONTEXT:
+You are reviewing the C21 pricing rulesets with a manager.
+Compare the ACTIVE ruleset against the PRICING RULESETS history and the LIVE METRICS.
+Only propose changes; rulesets are activated by an Admin, never by you.
+
+OUTPUT FORMAT (JSON):
+{
+  "summary": "2-3 sentences on how the active ruleset is performing.",
+  "opportunities": ["Pricing change to consider 1", "Pricing change to consider 2"],
+  "risks": ["Margin or trust risk 1"],
+  "metrics_used": ["Metrics and ruleset versions you relied on"],
+  "confidence_score": 0-100
+}
+`
+};
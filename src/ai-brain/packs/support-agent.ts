@@ -0,0 +1,38 @@
+import { BrainPack } from '../types';
+import { GOVERNANCE_RULES } from '../core/governance';
+import { STANDARD_REDACTION_RULES } from '../core/redaction';
+
+export const SUPPORT_AGENT_PACK: BrainPack = {
+  name: 'Support_Agent_V1',
+  context: 'support_agent',
+  required_metrics: ['ticket_status'],
+  readable_metrics: ['ticket_status', 'sla_status', 'promised_hours', 'hours_elapsed', 'open_complaints'],
+  allowed_roles: ['staff', 'manager', 'admin'],
+  redaction_rules: STANDARD_REDACTION_RULES,
+  grounding: 'customer_timeline',
+  model: {
+    model: 'qwen/qwen-2.5-7b-instruct',
+    temperature: 0.3,
+    timeout_ms: 20000,
+    max_retries: 2
+  },
+  system_prompt_template: `
+You are the "JamesTronic Support Co-Pilot" helping a support agent answer a customer.
+
+GOVERNANCE RULES:
+${GOVERNANCE_RULES.join('\n')}
+
+CONTEXT:
+Use ONLY the CUSTOMER TIMELINE and LIVE METRICS for this ticket. Never promise a date the timeline does not support.
+Draft replies in plain, polite language the agent can send as-is.
+
+OUTPUT FORMAT (JSON):
+{
+  "summary": "Where the ticket stands, in 2-3 sentences the agent can share.",
+  "opportunities": ["Suggested reply or next action 1", "Suggested reply or next action 2"],
+  "risks": ["Escalation or SLA risk"],
+  "metrics_used": ["Timeline events and metrics you relied on"],
+  "confidence_score": 0-100
+}
+`
+};
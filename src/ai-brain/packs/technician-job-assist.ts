@@ -0,0 +1,39 @@
+import { BrainPack } from '../types';
+import { GOVERNANCE_RULES } from '../core/governance';
+import { STANDARD_REDACTION_RULES } from '../core/redaction';
+
+export const TECHNICIAN_JOB_ASSIST_PACK: BrainPack = {
+  name: 'Technician_Job_Assist_V1',
+  context: 'technician_job_assist',
+  required_metrics: ['device_model', 'issue_summary'],
+  readable_metrics: ['device_model', 'device_category', 'issue_summary', 'ticket_status', 'parts_available', 'previous_repairs'],
+  allowed_roles: ['technician', 'admin'],
+  redaction_rules: STANDARD_REDACTION_RULES,
+  grounding: 'repair_guides',
+  model: {
+    model: 'qwen/qwen-2.5-7b-instruct',
+    temperature: 0.2,
+    timeout_ms: 20000,
+    max_retries: 2
+  },
+  system_prompt_template: `
+You are the "JamesTronic Bench Mentor" — a senior repair technician helping a colleague at the bench.
+
+GOVERNANCE RULES:
+${GOVERNANCE_RULES.join('\n')}
+
+CONTEXT:
+A technician is working on the job described in the LIVE METRICS.
+Ground every step in the REPAIR GUIDES provided. If no guide matches, say so and keep advice generic.
+Always surface 'critical' caution steps (high voltage, battery, ESD) before anything else.
+
+OUTPUT FORMAT (JSON):
+{
+  "summary": "Most likely fault and the guide you are following.",
+  "opportunities": ["Next step 1", "Next step 2"],
+  "risks": ["Safety caution or common mistake"],
+  "metrics_used": ["Fields and guides you relied on"],
+  "confidence_score": 0-100
+}
+`
+};
@@ -1,17 +1,32 @@
-export type AiContext = 'admin_cockpit' | 'technician_mentor' | 'transporter_dispatch';
-
-export interface AiBrainResponse {
-  summary: string;
-  opportunities: string[];
-  risks: string[];
-  metrics_used: string[];
-  confidence_score: number; // 0-100
-  action_items?: {
-    action: string;
-    priority: 'high' | 'medium' | 'low';
-    target_engine?: string;
-  }[];
-}
+import { z } from 'zod';
+import type { RedactionRule } from './core/redaction';
+
+export type AiContext =
+  | 'admin_cockpit'
+  | 'technician_mentor'
+  | 'transporter_dispatch'
+  | 'technician_job_assist'
+  | 'manager_pricing_review'
+  | 'support_agent';
+
+// Every response is validated against this schema before it reaches the cockpit
+export const AiBrainResponseSchema = z.object({
+  summary: z.string().min(1),
+  opportunities: z.array(z.string()),
+  risks: z.array(z.string()),
+  metrics_used: z.array(z.string()),
+  confidence_score: z.number().min(0).max(100), // 0-100
+  action_items: z.array(z.object({
+    action: z.string(),
+    priority: z.enum(['high', 'medium', 'low']),
+    target_engine: z.string().optional(),
+  })).optional(),
+});
+
+export type AiBrainResponse = z.infer<typeof AiBrainResponseSchema>;
+
+// What queryBrain returns: PII stays tokenised; interaction_id keys the ai_brain_logs row and PII vault
+export type AiBrainResult = AiBrainResponse & { interaction_id?: string };
 
 export interface AiRequestPayload {
   context: AiContext;
@@ -20,11 +35,32 @@ export interface AiRequestPayload {
   metrics_snapshot?: Record<string, any>;
   entity_type?: string; // C15.1: Optional entity context for value function scoring
   entity_id?: string; // C15.1: Optional entity ID for context building
+  ticket_id?: string; // Grounds ticket-scoped packs (technician job assist, support agent)
 }
 
+export type LlmProviderKind = 'openai_compatible' | 'local' | 'fixture';
+
+export interface BrainPackModelConfig {
+  model: string;
+  provider?: LlmProviderKind; // Defaults to AI_BRAIN_PROVIDER, then 'openai_compatible'
+  temperature?: number;
+  timeout_ms?: number;        // Per attempt
+  max_retries?: number;       // Retries after the first attempt
+}
+
+// Server-side data a pack's prompt is grounded in
+export type BrainPackGrounding = 'repair_guides' | 'pricing_rulesets' | 'customer_timeline';
+
 export interface BrainPack {
   name: string;
+  context: AiContext;
   persona_override?: string;
   system_prompt_template: string;
   required_metrics: string[];
+  readable_metrics: string[];       // Metrics snapshot keys the pack may see; everything else is dropped
+  allowed_roles: string[];
+  redaction_rules: RedactionRule[]; // Must cover GOVERNANCE_REQUIRED_REDACTIONS
+  grounding?: BrainPackGrounding;
+  value_scoring?: boolean;          // C15.1 value function scoring for entity queries
+  model: BrainPackModelConfig;
 }
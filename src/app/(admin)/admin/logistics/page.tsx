@@ -2,10 +2,14 @@
 
 import { useState, useEffect } from 'react';
 import { logisticsApi } from '@/lib/api/logistics';
-import { Transporter, Delivery } from '@/lib/types/logistics';
+import { Transporter, Delivery, LiveTracking, ShiftRoutePlan, UnplannedStop } from '@/lib/types/logistics';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { RunSheetView } from '@/components/shared/run-sheet';
 import {
     Table,
     TableHeader,
@@ -14,16 +18,34 @@ import {
     TableBody,
     TableCell
 } from '@/components/ui/table';
-import { Truck, MapPin, Package, RefreshCw, Zap, Navigation } from 'lucide-react';
-import { format } from 'date-fns';
+import { Truck, MapPin, Package, RefreshCw, Zap, Navigation, Route, AlertTriangle } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
 import { useToast } from '@/components/ui/use-toast';
 
+const UNPLANNED_REASONS: Record<UnplannedStop['reason'], string> = {
+    missing_coordinates: 'No map coordinates',
+    vehicle_unavailable: 'Vehicle not in this plan',
+    over_capacity: 'Too heavy for the vehicle',
+    no_feasible_slot: 'No slot fits its time window'
+};
+
+// Shifts are planned from 09:00 to 21:00 local time
+const shiftBounds = (date: string) => ({
+    shift_start: new Date(`${date}T09:00:00`).toISOString(),
+    shift_end: new Date(`${date}T21:00:00`).toISOString()
+});
+
 export default function LogisticsDashboard() {
     const { toast } = useToast();
     const [fleets, setFleets] = useState<Transporter[]>([]);
     const [deliveries, setDeliveries] = useState<Delivery[]>([]);
     const [loading, setLoading] = useState(true);
     const [assigning, setAssigning] = useState<string | null>(null);
+    const [planDate, setPlanDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+    const [routePlan, setRoutePlan] = useState<ShiftRoutePlan | null>(null);
+    const [includeUnassigned, setIncludeUnassigned] = useState(true);
+    const [planning, setPlanning] = useState(false);
+    const [liveTracking, setLiveTracking] = useState<LiveTracking | null>(null);
 
     const fetchData = async () => {
         try {
@@ -44,12 +66,61 @@ export default function LogisticsDashboard() {
         fetchData();
     }, []);
 
+    useEffect(() => {
+        logisticsApi.getRoutePlan(planDate)
+            .then(setRoutePlan)
+            .catch(err => console.error('Error fetching run sheets:', err));
+    }, [planDate]);
+
+    // Vehicle positions and stale-ping alerts, refreshed every 30 seconds
+    useEffect(() => {
+        const loadTracking = () => logisticsApi.getLiveTracking()
+            .then(setLiveTracking)
+            .catch(err => console.error('Error fetching live tracking:', err));
+
+        loadTracking();
+        const timer = setInterval(loadTracking, 30_000);
+        return () => clearInterval(timer);
+    }, []);
+
+    const handleDismissAlert = async (alertId: string) => {
+        try {
+            await logisticsApi.dismissTrackingAlert(alertId);
+            setLiveTracking(current => current && { ...current, alerts: current.alerts.filter(alert => alert.id !== alertId) });
+        } catch (err) {
+            console.error(err);
+            toast({ title: 'Error', description: err instanceof Error ? err.message : 'Failed to dismiss alert', variant: 'destructive' });
+        }
+    };
+
+    const handlePlanRoutes = async () => {
+        setPlanning(true);
+        try {
+            const plan = await logisticsApi.planRoutes({
+                shift_date: planDate,
+                ...shiftBounds(planDate),
+                include_unassigned: includeUnassigned
+            });
+            setRoutePlan(plan);
+            toast({
+                title: 'Routes Planned',
+                description: `${plan.run_sheets.length} run sheets, ${plan.batch?.unplanned.length ?? 0} stops left unplanned`
+            });
+        } catch (err) {
+            console.error(err);
+            toast({ title: 'Error', description: err instanceof Error ? err.message : 'Failed to plan routes', variant: 'destructive' });
+        } finally {
+            setPlanning(false);
+        }
+    };
+
     const handleAutoAssign = async (deliveryId: string) => {
         setAssigning(deliveryId);
         try {
             const result = await logisticsApi.assignTransporter(deliveryId);
             if (result.success) {
-                toast({ title: 'Assignment Successful', description: `Assigned to ${result.provider} fleet` });
+                const cost = result.booking ? ` for ₹${result.booking.amount}` : '';
+                toast({ title: 'Assignment Successful', description: `Assigned to ${result.provider} fleet${cost}` });
                 fetchData(); // Refresh data
             } else {
                 toast({ title: 'Assignment Failed', description: result.message, variant: 'destructive' });
@@ -177,14 +248,64 @@ export default function LogisticsDashboard() {
                 {/* Right Column: Delivery Management */}
                 <div className="lg:col-span-2 space-y-6">
 
-                    {/* Simulated Map View */}
-                    <Card className="bg-muted/20 border-dashed min-h-[200px] flex items-center justify-center relative overflow-hidden">
-                        <div className="absolute inset-0 bg-slate-100 dark:bg-slate-900 opacity-50"></div>
-                        <div className="z-10 text-center">
-                            <Navigation className="w-12 h-12 mx-auto text-muted-foreground mb-2 opacity-50" />
-                            <h3 className="font-semibold text-muted-foreground">Live Map Visualization</h3>
-                            <p className="text-xs text-muted-foreground">Vehicle positions would be rendered here via Mapbox/Google Maps</p>
-                        </div>
+                    {/* Live Tracking */}
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2">
+                                <Navigation className="w-5 h-5" />
+                                Live Tracking
+                            </CardTitle>
+                            <CardDescription>Last GPS fix per vehicle; riders who stop pinging mid-job are flagged</CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            {liveTracking?.alerts.map(alert => (
+                                <div key={alert.id} className="flex items-center justify-between rounded-md border border-red-200 bg-red-50 dark:bg-red-950/20 p-3">
+                                    <div className="flex items-center gap-2 text-sm">
+                                        <AlertTriangle className="w-4 h-4 text-red-600" />
+                                        <span className="font-medium">{alert.vehicle_plate || 'Vehicle'}</span>
+                                        <span className="text-muted-foreground">
+                                            stopped sending location mid-job
+                                            {alert.last_ping_at ? `, last ping ${formatDistanceToNow(new Date(alert.last_ping_at), { addSuffix: true })}` : ''}
+                                        </span>
+                                    </div>
+                                    <Button size="sm" variant="outline" onClick={() => handleDismissAlert(alert.id)}>
+                                        Dismiss
+                                    </Button>
+                                </div>
+                            ))}
+
+                            {!liveTracking || liveTracking.positions.length === 0 ? (
+                                <div className="text-center py-4 text-muted-foreground">No vehicles are sharing their location.</div>
+                            ) : (
+                                <div className="space-y-2">
+                                    {liveTracking.positions.map(position => (
+                                        <div key={position.transporter_fleet_id} className="flex items-center justify-between border-b pb-2 last:border-0 text-sm">
+                                            <div>
+                                                <div className="font-medium">{position.vehicle_plate || 'No Plate'}</div>
+                                                <a
+                                                    className="text-xs text-blue-600 hover:underline"
+                                                    href={`https://www.google.com/maps/search/?api=1&query=${position.lat},${position.lng}`}
+                                                    target="_blank"
+                                                    rel="noreferrer"
+                                                >
+                                                    {position.lat.toFixed(5)}, {position.lng.toFixed(5)}
+                                                </a>
+                                            </div>
+                                            <div className="text-right">
+                                                {position.stale
+                                                    ? <Badge variant="outline" className="text-red-600 border-red-600">No signal</Badge>
+                                                    : <Badge variant="outline" className="text-green-600 border-green-600">Live</Badge>}
+                                                <div className="text-xs text-muted-foreground mt-1">
+                                                    {formatDistanceToNow(new Date(position.recorded_at), { addSuffix: true })}
+                                                    {position.speed_kmh !== null ? ` · ${Math.round(position.speed_kmh)} km/h` : ''}
+                                                    {position.battery_level !== null ? ` · ${Math.round(position.battery_level)}% battery` : ''}
+                                                </div>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </CardContent>
                     </Card>
 
                     {/* Pending Deliveries */}
@@ -230,12 +351,25 @@ export default function LogisticsDashboard() {
                                                         </div>
                                                     </div>
                                                 </TableCell>
-                                                <TableCell>{delivery.items_weight_kg} kg</TableCell>
                                                 <TableCell>
-                                                    {delivery.status === 'assigned' ? (
-                                                        <Badge variant="outline" className="text-blue-600 border-blue-600">Assigned</Badge>
-                                                    ) : (
+                                                    <div>{delivery.items_weight_kg} kg</div>
+                                                    {delivery.estimated_cost != null && (
+                                                        <div className="text-xs text-muted-foreground">₹{delivery.estimated_cost}</div>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell>
+                                                    {delivery.status === 'pending_assignment' ? (
                                                         <Badge variant="secondary">Pending</Badge>
+                                                    ) : (
+                                                        <Badge variant="outline" className="text-blue-600 border-blue-600 capitalize">{delivery.status.replace(/_/g, ' ')}</Badge>
+                                                    )}
+                                                    {delivery.provider_type && delivery.provider_type !== 'internal' && (
+                                                        <div className="mt-1">{getProviderBadge(delivery.provider_type)}</div>
+                                                    )}
+                                                    {delivery.tracking_url && (
+                                                        <a href={delivery.tracking_url} target="_blank" rel="noopener noreferrer" className="block text-xs text-primary mt-1">
+                                                            Track
+                                                        </a>
                                                     )}
                                                 </TableCell>
                                                 <TableCell className="text-right">
@@ -258,6 +392,62 @@ export default function LogisticsDashboard() {
                     </Card>
                 </div>
             </div>
+
+            {/* Run Sheets */}
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                    <div>
+                        <CardTitle>Run Sheets</CardTitle>
+                        <CardDescription>
+                            Stop order per vehicle for the shift
+                            {routePlan?.batch && ` (planned ${format(new Date(routePlan.batch.created_at), 'HH:mm')} using ${routePlan.batch.distance_source === 'osrm' ? 'road' : 'estimated'} distances)`}
+                        </CardDescription>
+                    </div>
+                    <div className="flex items-end gap-4">
+                        <div className="space-y-1">
+                            <Label htmlFor="plan-date">Shift date</Label>
+                            <Input id="plan-date" type="date" value={planDate} onChange={(e) => setPlanDate(e.target.value)} />
+                        </div>
+                        <div className="flex items-center gap-2 pb-2">
+                            <Switch id="include-unassigned" checked={includeUnassigned} onCheckedChange={setIncludeUnassigned} />
+                            <Label htmlFor="include-unassigned">Propose pending deliveries</Label>
+                        </div>
+                        <Button onClick={handlePlanRoutes} disabled={planning || !planDate}>
+                            <Route className="w-4 h-4 mr-2" /> {planning ? 'Planning...' : 'Plan Routes'}
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                    {!routePlan || routePlan.run_sheets.length === 0 ? (
+                        <div className="text-center py-4 text-muted-foreground">No run sheets for this shift.</div>
+                    ) : (
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            {routePlan.run_sheets.map(sheet => (
+                                <div key={sheet.id} className="rounded-md border p-4 space-y-3">
+                                    <div className="font-medium flex items-center gap-2">
+                                        <Truck className="w-4 h-4" />
+                                        {sheet.vehicle_plate || 'No Plate'}
+                                        <span className="text-sm text-muted-foreground capitalize">{sheet.vehicle_type?.replace('_', ' ')}</span>
+                                    </div>
+                                    <RunSheetView runSheet={sheet} />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {routePlan?.batch && routePlan.batch.unplanned.length > 0 && (
+                        <div className="space-y-2">
+                            <h4 className="font-medium">Not planned</h4>
+                            {routePlan.batch.unplanned.map(item => (
+                                <div key={item.task_id} className="flex justify-between text-sm border-b pb-2 last:border-0">
+                                    <span className="capitalize">{item.source.replace('_', ' ')} #{item.ref_id.substring(0, 8)}</span>
+                                    <span className="text-muted-foreground">{UNPLANNED_REASONS[item.reason]}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
         </div>
     );
 }
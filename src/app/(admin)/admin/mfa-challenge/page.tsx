@@ -13,6 +13,8 @@ export default function MfaChallengePage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [mfaCode, setMfaCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState('');
   const [countdown, setCountdown] = useState(30);
 
   const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
@@ -40,7 +42,12 @@ export default function MfaChallengePage() {
   };
 
   const handleVerifyMfa = async () => {
-    if (mfaCode.length !== 6 || !/^\d{6}$/.test(mfaCode)) {
+    if (useRecoveryCode) {
+      if (!/^[A-Za-z2-7]{5}-?[A-Za-z2-7]{5}$/.test(recoveryCode.trim())) {
+        setError('Please enter a valid recovery code (e.g. ABCDE-FGHIJ)');
+        return;
+      }
+    } else if (mfaCode.length !== 6 || !/^\d{6}$/.test(mfaCode)) {
       setError('Please enter a valid 6-digit code');
       return;
     }
@@ -54,9 +61,9 @@ export default function MfaChallengePage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          mfaCode,
-        }),
+        body: JSON.stringify(
+          useRecoveryCode ? { recoveryCode: recoveryCode.trim() } : { mfaCode }
+        ),
       });
 
       const data = await response.json();
@@ -64,7 +71,9 @@ export default function MfaChallengePage() {
       if (response.ok && data.success) {
         toast({
           title: 'Success',
-          description: 'MFA verified successfully. Redirecting...',
+          description: typeof data.remaining_recovery_codes === 'number'
+            ? `Recovery code accepted. ${data.remaining_recovery_codes} codes left. Redirecting...`
+            : 'MFA verified successfully. Redirecting...',
         });
 
         // Redirect to admin dashboard or continue to requested page
@@ -113,34 +122,55 @@ export default function MfaChallengePage() {
         <CardHeader className="space-y-1">
           <CardTitle className="text-2xl text-center">Admin MFA Verification</CardTitle>
           <CardDescription className="text-center">
-            Enter the 6-digit code from your authenticator app
+            {useRecoveryCode
+              ? 'Enter one of the recovery codes you saved during MFA setup'
+              : 'Enter the 6-digit code from your authenticator app'}
           </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            <div className="space-y-2">
-              <label className="text-sm font-medium">
-                Enter 6-digit MFA code
-              </label>
-              <div className="flex justify-between">
-                {Array(6)
-                  .fill(0)
-                  .map((_, index) => (
-                    <Input
-                      key={index}
-                      ref={(el) => { inputRefs.current[index] = el; }}
-                      type="tel"
-                      inputMode="numeric"
-                      maxLength={1}
-                      value={mfaCode[index] || ''}
-                      onChange={(e) => handleMfaInput(index, e.target.value)}
-                      onKeyDown={(e) => handleKeyDown(index, e)}
-                      className="w-12 h-12 text-center text-xl"
-                      disabled={loading}
-                    />
-                  ))}
+            {useRecoveryCode ? (
+              <div className="space-y-2">
+                <label htmlFor="recovery-code" className="text-sm font-medium">
+                  Recovery code
+                </label>
+                <Input
+                  id="recovery-code"
+                  type="text"
+                  autoComplete="off"
+                  maxLength={11}
+                  value={recoveryCode}
+                  onChange={(e) => setRecoveryCode(e.target.value.toUpperCase())}
+                  placeholder="ABCDE-FGHIJ"
+                  className="font-mono text-center text-xl tracking-widest"
+                  disabled={loading}
+                />
               </div>
-            </div>
+            ) : (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">
+                  Enter 6-digit MFA code
+                </label>
+                <div className="flex justify-between">
+                  {Array(6)
+                    .fill(0)
+                    .map((_, index) => (
+                      <Input
+                        key={index}
+                        ref={(el) => { inputRefs.current[index] = el; }}
+                        type="tel"
+                        inputMode="numeric"
+                        maxLength={1}
+                        value={mfaCode[index] || ''}
+                        onChange={(e) => handleMfaInput(index, e.target.value)}
+                        onKeyDown={(e) => handleKeyDown(index, e)}
+                        className="w-12 h-12 text-center text-xl"
+                        disabled={loading}
+                      />
+                    ))}
+                </div>
+              </div>
+            )}
 
             {error && (
               <div className="text-sm text-red-600 p-2 bg-red-50 rounded-md">
@@ -151,11 +181,25 @@ export default function MfaChallengePage() {
             <Button
               className="w-full"
               onClick={handleVerifyMfa}
-              disabled={loading || mfaCode.length !== 6}
+              disabled={loading || (useRecoveryCode ? recoveryCode.trim().length < 10 : mfaCode.length !== 6)}
             >
-              {loading ? 'Verifying...' : 'Verify MFA Code'}
+              {loading ? 'Verifying...' : useRecoveryCode ? 'Use Recovery Code' : 'Verify MFA Code'}
             </Button>
 
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setError('');
+                }}
+                className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+                disabled={loading}
+              >
+                {useRecoveryCode ? 'Use authenticator app instead' : 'Lost your phone? Use a recovery code'}
+              </button>
+            </div>
+
             <div className="text-center mt-4">
               <p className="text-sm text-gray-500">
                 Didn't receive a code?{' '}
@@ -23,6 +23,7 @@ export default function AdminMfaSetupPage() {
   const [backupCodes, setBackupCodes] = useState<string[]>([]);
   const [step, setStep] = useState<'status' | 'setup' | 'verify' | 'completed'>('status');
   const [verificationCode, setVerificationCode] = useState('');
+  const [currentCode, setCurrentCode] = useState('');
 
   useEffect(() => {
     fetchMfaStatus();
@@ -50,23 +51,33 @@ export default function AdminMfaSetupPage() {
 
   const startMfaSetup = async () => {
     try {
+      // Reconfiguring needs a code from the current authenticator, or a recovery code
+      const code = currentCode.trim();
       const response = await fetch('/api/admin/mfa/setup/start', {
         method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(
+          /^\d{6}$/.test(code) ? { currentCode: code } : code ? { recoveryCode: code } : {}
+        ),
       });
 
+      const data = await response.json();
+
       if (!response.ok) {
-        throw new Error('Failed to start MFA setup');
+        throw new Error(data.error || 'Failed to start MFA setup');
       }
 
-      const data = await response.json();
       setQrCodeUrl(data.qr_url);
       setSecret(data.secret);
+      setCurrentCode('');
       setStep('setup');
     } catch (error) {
       console.error('Error starting MFA setup:', error);
       toast({
         title: 'Error',
-        description: 'Failed to start MFA setup',
+        description: error instanceof Error ? error.message : 'Failed to start MFA setup',
         variant: 'destructive',
       });
     }
@@ -189,22 +200,40 @@ export default function AdminMfaSetupPage() {
                     Setup MFA
                   </Button>
                 ) : (
-                  <div className="flex gap-2">
-                    <Button
-                      variant="outline"
-                      className="flex-1"
-                      onClick={() => {
-                        // Implementation for disabling MFA would go here
-                      }}
-                    >
-                      Disable MFA
-                    </Button>
-                    <Button
-                      className="flex-1"
-                      onClick={startMfaSetup}
-                    >
-                      Reconfigure MFA
-                    </Button>
+                  <div className="space-y-3">
+                    <div>
+                      <Label htmlFor="current-code">Current code or recovery code</Label>
+                      <Input
+                        id="current-code"
+                        type="text"
+                        autoComplete="one-time-code"
+                        value={currentCode}
+                        onChange={(e) => setCurrentCode(e.target.value)}
+                        placeholder="000000"
+                        className="mt-1 font-mono"
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Required to reconfigure MFA. Your current authenticator keeps working until the new one is verified.
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        className="flex-1"
+                        onClick={() => {
+                          // Implementation for disabling MFA would go here
+                        }}
+                      >
+                        Disable MFA
+                      </Button>
+                      <Button
+                        className="flex-1"
+                        onClick={startMfaSetup}
+                        disabled={!currentCode.trim()}
+                      >
+                        Reconfigure MFA
+                      </Button>
+                    </div>
                   </div>
                 )}
               </div>
@@ -19,6 +19,8 @@ import { format } from 'date-fns';
 import { useToast } from '@/components/ui/use-toast';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TemplateRegistryCard } from '@/components/admin/notifications/TemplateRegistryCard';
+import type { NotificationLanguage } from '@/lib/notifications/preferences';
 
 export default function NotificationsDashboard() {
     const { toast } = useToast();
@@ -30,6 +32,7 @@ export default function NotificationsDashboard() {
     const [simName, setSimName] = useState('John Doe');
     const [simStage, setSimStage] = useState('booking_confirmation');
     const [simSentiment, setSimSentiment] = useState('neutral');
+    const [simLocale, setSimLocale] = useState<NotificationLanguage>('en');
     const [sending, setSending] = useState(false);
 
     const fetchData = async () => {
@@ -54,7 +57,7 @@ export default function NotificationsDashboard() {
     const handleSimulate = async () => {
         setSending(true);
         try {
-            const log = await notificationsApi.simulateSend(simStage, null, simName, simSentiment);
+            const log = await notificationsApi.simulateSend(simStage, null, simName, simSentiment, simLocale);
             toast({
                 title: 'Notification Sent',
                 description: `Sent via ${log.channel}. ID: ${log.id.slice(0, 8)}`
@@ -100,7 +103,7 @@ export default function NotificationsDashboard() {
                     <CardDescription>Test AI template selection and message rendering</CardDescription>
                 </CardHeader>
                 <CardContent>
-                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                    <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
                         <div className="space-y-2">
                             <label className="text-sm font-medium">Customer Name</label>
                             <Input value={simName} onChange={(e) => setSimName(e.target.value)} />
@@ -135,6 +138,20 @@ export default function NotificationsDashboard() {
                             </Select>
                         </div>
 
+                        <div className="space-y-2">
+                            <label className="text-sm font-medium">Language</label>
+                            <Select value={simLocale} onValueChange={(value) => setSimLocale(value as NotificationLanguage)}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="en">English</SelectItem>
+                                    <SelectItem value="hi">Hindi</SelectItem>
+                                    <SelectItem value="te">Telugu</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+
                         <Button onClick={handleSimulate} disabled={sending}>
                             {sending ? 'Sending...' : 'Trigger Notification'}
                         </Button>
@@ -142,6 +159,8 @@ export default function NotificationsDashboard() {
                 </CardContent>
             </Card>
 
+            <TemplateRegistryCard />
+
             {/* Overview Stats */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 <Card>
@@ -1,13 +1,15 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { schedulingApi } from '@/lib/api/scheduling';
-import { TechCandidate, JobAssignment } from '@/lib/types/scheduling';
+import { TechCandidate, JobAssignment, TechnicianDayPlan } from '@/lib/types/scheduling';
+import { DayPlanCalendar } from '@/components/admin/scheduling/DayPlanCalendar';
 import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
 import {
-    MapPin, Calendar, Clock, UserCheck, Navigation, CheckCircle
+    MapPin, Calendar, Clock, UserCheck, Navigation, CheckCircle, RefreshCw
 } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 
@@ -24,6 +26,72 @@ export default function SchedulingDashboard() {
     const TICKET_LOC = { lat: 12.9716, lng: 77.6412 };
     const TICKET_ID = '00000000-0000-4000-8000-000000000001'; // Reusing our valid simulation ID
 
+    // Day plan calendar
+    const [planDate, setPlanDate] = useState(() => new Date().toLocaleDateString('en-CA'));
+    const [dayPlan, setDayPlan] = useState<TechnicianDayPlan | null>(null);
+    const [planning, setPlanning] = useState(false);
+
+    const loadDayPlan = useCallback(async () => {
+        try {
+            setDayPlan(await schedulingApi.getDayPlan(planDate));
+        } catch (err) {
+            console.error(err);
+            toast({ title: 'Error', description: 'Failed to load the day plan.', variant: 'destructive' });
+        }
+    }, [planDate, toast]);
+
+    useEffect(() => {
+        loadDayPlan();
+    }, [loadDayPlan]);
+
+    const handlePlanDay = async () => {
+        setPlanning(true);
+        try {
+            const plan = await schedulingApi.planDay(planDate);
+            setDayPlan(plan);
+            toast({
+                title: 'Day Planned',
+                description: `${plan.entries.filter(entry => entry.status === 'planned').length} jobs planned, ${plan.unplanned.length} could not be placed.`,
+            });
+        } catch (err: any) {
+            console.error(err);
+            toast({ title: 'Planning Failed', description: err.message, variant: 'destructive' });
+        } finally {
+            setPlanning(false);
+        }
+    };
+
+    const handleMove = async (ticketId: string, technicianId: string, startAt: string) => {
+        try {
+            setDayPlan(await schedulingApi.moveJob({
+                plan_date: planDate,
+                ticket_id: ticketId,
+                technician_id: technicianId,
+                start_at: startAt
+            }));
+        } catch (err: any) {
+            console.error(err);
+            toast({ title: 'Move not allowed', description: err.message, variant: 'destructive' });
+        }
+    };
+
+    const handleOverrun = async (ticketId: string, expectedEndAt: string) => {
+        try {
+            const result = await schedulingApi.reportOverrun(ticketId, expectedEndAt);
+            setDayPlan(result.plan);
+            const unplaced = result.moved.filter(move => !move.to_technician_id).length;
+            toast({
+                title: 'Day Re-planned',
+                description: result.moved.length === 0
+                    ? 'Later jobs still fit.'
+                    : `${result.moved.length} jobs moved${unplaced > 0 ? `, ${unplaced} could not be placed` : ''}.`,
+            });
+        } catch (err: any) {
+            console.error(err);
+            toast({ title: 'Re-plan Failed', description: err.message, variant: 'destructive' });
+        }
+    };
+
     const findTechnicians = async () => {
         setLoading(true);
         try {
@@ -140,6 +208,48 @@ export default function SchedulingDashboard() {
                     </CardContent>
                 </Card>
             </div>
+
+            {/* Day Plan Calendar */}
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                    <div>
+                        <CardTitle className="flex items-center gap-2">
+                            <Calendar className="h-5 w-5" />
+                            Technician Day Plan
+                        </CardTitle>
+                        <CardDescription>
+                            Skills, shifts, travel, repair time and SLA deadlines. Drag a job to move it.
+                        </CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Input type="date" value={planDate} onChange={e => setPlanDate(e.target.value)} className="w-40" />
+                        <Button variant="outline" size="icon" onClick={loadDayPlan} aria-label="Refresh day plan">
+                            <RefreshCw className="h-4 w-4" />
+                        </Button>
+                        <Button onClick={handlePlanDay} disabled={planning}>
+                            {planning ? 'Planning...' : 'Plan Day'}
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                    {dayPlan?.run && (
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <Clock className="h-3 w-3" />
+                            Last {dayPlan.run.trigger.replace('_', ' ')} update at {new Date(dayPlan.run.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                            {dayPlan.entries.some(entry => entry.sla_breach && entry.status !== 'done') && (
+                                <Badge variant="destructive">SLA at risk</Badge>
+                            )}
+                        </div>
+                    )}
+                    {dayPlan ? (
+                        <DayPlanCalendar plan={dayPlan} onMove={handleMove} onOverrun={handleOverrun} />
+                    ) : (
+                        <div className="text-center p-8 text-muted-foreground border-2 border-dashed rounded-lg">
+                            Loading day plan...
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
         </div>
     );
 }
@@ -67,6 +67,8 @@ export default function ForensicsPage() {
   const [total, setTotal] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [selectedLog, setSelectedLog] = useState<AuditLogEntry | null>(null);
+  const [exportFormat, setExportFormat] = useState<'jsonl' | 'csv'>('jsonl');
+  const [exporting, setExporting] = useState(false);
 
   // Fetch audit logs
   useEffect(() => {
@@ -157,20 +159,31 @@ export default function ForensicsPage() {
     return { status: 'valid', message: 'Valid integrity' };
   };
 
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const exportLogs = async () => {
     try {
-      // Prepare filter summary for the audit log
+      setExporting(true);
+
+      // Filters for the export (also recorded in the audit log)
       const filterSummary = {
-        date_from: filters.dateFrom,
-        date_to: filters.dateTo,
-        actor_user_id: filters.actorUserId,
+        format: exportFormat,
+        date_from: filters.dateFrom || undefined,
+        date_to: filters.dateTo || undefined,
+        actor_user_id: filters.actorUserId || undefined,
         event_type: filters.eventType !== 'all' ? filters.eventType : undefined,
         entity_type: filters.entityType !== 'all' ? filters.entityType : undefined,
         severity: filters.severity !== 'all' ? filters.severity : undefined,
       };
 
-      // Log the export action
-      const auditResponse = await fetch('/api/admin/security/audit/export', {
+      const exportResponse = await fetch('/api/admin/security/audit/export', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -178,15 +191,24 @@ export default function ForensicsPage() {
         body: JSON.stringify(filterSummary),
       });
 
-      if (!auditResponse.ok) {
-        throw new Error('Failed to log export action');
+      if (!exportResponse.ok) {
+        throw new Error('Failed to export audit logs');
       }
 
-      // In a real implementation, this would return a downloadable file
-      alert('Audit logs export would start now. The export action has been logged.');
+      const exportId = exportResponse.headers.get('X-Audit-Export-Id');
+      downloadBlob(await exportResponse.blob(), `audit-logs-${exportId}.${exportFormat}`);
+
+      // The signed manifest is available once the stream has completed
+      const manifestResponse = await fetch(`/api/admin/security/audit/export/manifest?export_id=${exportId}`);
+      if (!manifestResponse.ok) {
+        throw new Error('Export downloaded, but its manifest could not be fetched');
+      }
+      downloadBlob(await manifestResponse.blob(), `audit-logs-${exportId}.manifest.json`);
     } catch (err) {
       console.error('Error exporting audit logs:', err);
       alert('Error exporting audit logs: ' + (err as Error).message);
+    } finally {
+      setExporting(false);
     }
   };
 
@@ -212,12 +234,21 @@ export default function ForensicsPage() {
             >
               {loading ? 'Loading...' : 'Refresh'}
             </Button>
+            <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as 'jsonl' | 'csv')}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="jsonl">JSONL</SelectItem>
+                <SelectItem value="csv">CSV</SelectItem>
+              </SelectContent>
+            </Select>
             <Button 
               onClick={exportLogs}
-              disabled={loading}
+              disabled={loading || exporting}
               variant="outline"
             >
-              Export Logs
+              {exporting ? 'Exporting...' : 'Export Logs'}
             </Button>
           </div>
         </CardHeader>
@@ -23,6 +23,7 @@ interface SecurityAlertRule {
   severity: string;
   source_type: string;
   condition: any;
+  suppression_minutes?: number | null;
   created_at: string;
 }
 
@@ -97,6 +98,7 @@ export default function SecurityRulesPage() {
       case 'admin_security_events': return 'bg-purple-500';
       case 'device_lock_conflicts': return 'bg-orange-500';
       case 'login_otp_requests': return 'bg-cyan-500';
+      case 'audit_log_entries': return 'bg-slate-500';
       default: return 'bg-gray-500';
     }
   };
@@ -121,10 +123,31 @@ export default function SecurityRulesPage() {
     if (condition.group_by) {
       parts.push(`group_by: ${condition.group_by}`);
     }
+
+    if (condition.filters?.length) {
+      parts.push(`filters: ${condition.filters.length}`);
+    }
+
+    if (condition.expression) {
+      parts.push(`expression: ${formatExpression(condition.expression)}`);
+    }
     
     return parts.join(', ');
   };
 
+  const formatExpression = (expression: any): string => {
+    if (expression.all) return `all(${expression.all.map(formatExpression).join(', ')})`;
+    if (expression.any) return `any(${expression.any.map(formatExpression).join(', ')})`;
+
+    switch (expression.type) {
+      case 'count': return `count >= ${expression.threshold}`;
+      case 'distinct_count': return `distinct ${expression.field} >= ${expression.threshold}`;
+      case 'rate_of_change': return `rate x${expression.ratio}`;
+      case 'sequence': return `sequence of ${expression.steps?.length ?? 0} within ${expression.within_minutes} min`;
+      default: return String(expression.type);
+    }
+  };
+
   return (
     <div className="p-6 space-y-6">
       <Card>
@@ -152,13 +175,14 @@ export default function SecurityRulesPage() {
                   <TableHead>Severity</TableHead>
                   <TableHead>Source</TableHead>
                   <TableHead>Condition</TableHead>
+                  <TableHead>Suppression</TableHead>
                   <TableHead>Created</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {rules.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
                       {loading ? 'Loading security rules...' : 'No security rules found'}
                     </TableCell>
                   </TableRow>
@@ -196,6 +220,9 @@ export default function SecurityRulesPage() {
                       <TableCell className="text-sm text-muted-foreground">
                         {formatCondition(rule.condition)}
                       </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {rule.suppression_minutes ?? rule.condition?.window_minutes ?? '-'} min
+                      </TableCell>
                       <TableCell>
                         {new Date(rule.created_at).toLocaleDateString()}
                       </TableCell>
@@ -14,6 +14,9 @@ export default function CustomerDashboard() {
                     <Link href="/">
                         <Button variant="outline" className="w-full">My Tickets</Button>
                     </Link>
+                    <Link href="/customer/preferences">
+                        <Button variant="outline" className="w-full">Notification Preferences</Button>
+                    </Link>
                 </div>
             </div>
         </div>
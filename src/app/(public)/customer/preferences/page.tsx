@@ -0,0 +1,327 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useSupabase } from '@/components/shared/supabase-provider';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/components/ui/use-toast';
+import { Bell, Moon, Languages } from 'lucide-react';
+import type { NotificationChannel } from '@/lib/notifications/channels/types';
+import {
+    ALL_EVENTS,
+    CUSTOMER_NOTIFICATION_EVENTS,
+    CustomerNotificationPreferences,
+    NotificationLanguage,
+    OPTIONAL_CHANNELS
+} from '@/lib/notifications/preferences';
+
+const CHANNEL_LABELS: Record<string, string> = {
+    push: 'App notifications',
+    whatsapp: 'WhatsApp',
+    sms: 'SMS',
+    email: 'Email',
+};
+
+const LANGUAGE_LABELS: Record<NotificationLanguage, string> = {
+    en: 'English',
+    hi: 'हिन्दी (Hindi)',
+    te: 'తెలుగు (Telugu)',
+};
+
+interface PreferencesForm {
+    language: NotificationLanguage;
+    timezone: string;
+    quietHoursEnabled: boolean;
+    quietHoursStart: string;
+    quietHoursEnd: string;
+    channelOptOuts: Record<string, NotificationChannel[]>;
+    whatsappConsent: boolean;
+}
+
+const toForm = (preferences: CustomerNotificationPreferences): PreferencesForm => ({
+    language: preferences.language,
+    timezone: preferences.timezone,
+    quietHoursEnabled: !!preferences.quiet_hours_start,
+    quietHoursStart: preferences.quiet_hours_start || '22:00',
+    quietHoursEnd: preferences.quiet_hours_end || '08:00',
+    channelOptOuts: preferences.channel_opt_outs || {},
+    whatsappConsent: !!preferences.whatsapp_consent_at,
+});
+
+export default function NotificationPreferencesPage() {
+    const { supabase, user, isLoading } = useSupabase();
+    const router = useRouter();
+    const queryClient = useQueryClient();
+    const [form, setForm] = useState<PreferencesForm | null>(null);
+
+    const authorizedFetch = async (init?: RequestInit) => {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session?.access_token) {
+            throw new Error('Please log in to manage notifications');
+        }
+
+        const response = await fetch('/api/customer/notification-preferences', {
+            ...init,
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${session.access_token}`,
+            },
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to load notification preferences');
+        }
+        return data as CustomerNotificationPreferences;
+    };
+
+    const { data: preferences, error } = useQuery({
+        queryKey: ['notification-preferences', user?.id],
+        queryFn: () => authorizedFetch(),
+        enabled: !!user?.id
+    });
+
+    useEffect(() => {
+        if (preferences) setForm(toForm(preferences));
+    }, [preferences]);
+
+    const saveMutation = useMutation({
+        mutationFn: (values: PreferencesForm) => authorizedFetch({
+            method: 'PUT',
+            body: JSON.stringify({
+                language: values.language,
+                timezone: values.timezone,
+                quiet_hours_start: values.quietHoursEnabled ? values.quietHoursStart : null,
+                quiet_hours_end: values.quietHoursEnabled ? values.quietHoursEnd : null,
+                channel_opt_outs: values.channelOptOuts,
+                whatsapp_consent: values.whatsappConsent,
+            }),
+        }),
+        onSuccess: (saved) => {
+            queryClient.setQueryData(['notification-preferences', user?.id], saved);
+            toast({ title: 'Preferences saved', description: 'Your notification preferences have been updated.' });
+        },
+        onError: (saveError) => {
+            toast({
+                title: 'Error',
+                description: saveError instanceof Error ? saveError.message : 'Failed to save preferences',
+                variant: 'destructive',
+            });
+        }
+    });
+
+    if (isLoading) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+                <div className="w-12 h-12 rounded-full border-4 border-indigo-500 border-t-transparent animate-spin"></div>
+            </div>
+        );
+    }
+
+    // Redirect if not logged in
+    if (!user) {
+        router.push('/login');
+        return null;
+    }
+
+    const isOptedOut = (eventType: string, channel: NotificationChannel) =>
+        !!form?.channelOptOuts[eventType]?.includes(channel);
+
+    const setOptedOut = (eventType: string, channel: NotificationChannel, optedOut: boolean) => {
+        if (!form) return;
+        const current = form.channelOptOuts[eventType] || [];
+        setForm({
+            ...form,
+            channelOptOuts: {
+                ...form.channelOptOuts,
+                [eventType]: optedOut ? [...current.filter(c => c !== channel), channel] : current.filter(c => c !== channel)
+            }
+        });
+    };
+
+    const isChannelOn = (channel: NotificationChannel) =>
+        channel === 'whatsapp' ? !!form?.whatsappConsent : !isOptedOut(ALL_EVENTS, channel);
+
+    return (
+        <div className="min-h-screen bg-gray-50 py-8 px-4">
+            <div className="max-w-2xl mx-auto space-y-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-gray-900">Notification preferences</h1>
+                    <p className="text-gray-500 mt-1">Choose how and when we send you updates about your repairs.</p>
+                </div>
+
+                {error && (
+                    <Card>
+                        <CardContent className="py-6 text-sm text-red-600">
+                            {error instanceof Error ? error.message : 'Failed to load notification preferences'}
+                        </CardContent>
+                    </Card>
+                )}
+
+                {!form && !error && (
+                    <div className="flex justify-center py-12">
+                        <div className="w-10 h-10 rounded-full border-4 border-indigo-500 border-t-transparent animate-spin"></div>
+                    </div>
+                )}
+
+                {form && (
+                    <>
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="text-lg flex items-center gap-2"><Bell className="w-5 h-5" /> Channels</CardTitle>
+                                <CardDescription>Updates always appear in your inbox in the app.</CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                {OPTIONAL_CHANNELS.map(channel => (
+                                    <div key={channel} className="flex items-start justify-between gap-4">
+                                        <div>
+                                            <Label htmlFor={`channel-${channel}`} className="font-medium">{CHANNEL_LABELS[channel]}</Label>
+                                            {channel === 'whatsapp' && (
+                                                <p className="text-xs text-gray-500 mt-1">
+                                                    I agree to receive repair updates from JamesTronic on WhatsApp. You can withdraw consent at any time.
+                                                </p>
+                                            )}
+                                        </div>
+                                        <Switch
+                                            id={`channel-${channel}`}
+                                            checked={isChannelOn(channel)}
+                                            onCheckedChange={(checked) => channel === 'whatsapp'
+                                                ? setForm({ ...form, whatsappConsent: checked })
+                                                : setOptedOut(ALL_EVENTS, channel, !checked)}
+                                        />
+                                    </div>
+                                ))}
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="text-lg">Updates by type</CardTitle>
+                                <CardDescription>Turn off individual updates on a channel.</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="text-left text-gray-500">
+                                                <th className="py-2 font-medium">Update</th>
+                                                {OPTIONAL_CHANNELS.map(channel => (
+                                                    <th key={channel} className="py-2 px-2 font-medium text-center">{CHANNEL_LABELS[channel]}</th>
+                                                ))}
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {CUSTOMER_NOTIFICATION_EVENTS.map(event => (
+                                                <tr key={event.key} className="border-t border-gray-100">
+                                                    <td className="py-2">{event.label}</td>
+                                                    {OPTIONAL_CHANNELS.map(channel => (
+                                                        <td key={channel} className="py-2 px-2 text-center">
+                                                            <input
+                                                                type="checkbox"
+                                                                aria-label={`${event.label} by ${CHANNEL_LABELS[channel]}`}
+                                                                className="h-4 w-4 accent-indigo-600"
+                                                                disabled={!isChannelOn(channel)}
+                                                                checked={isChannelOn(channel) && !isOptedOut(event.key, channel)}
+                                                                onChange={(e) => setOptedOut(event.key, channel, !e.target.checked)}
+                                                            />
+                                                        </td>
+                                                    ))}
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="text-lg flex items-center gap-2"><Moon className="w-5 h-5" /> Quiet hours</CardTitle>
+                                <CardDescription>Updates during quiet hours are held and sent when they end.</CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                <div className="flex items-center justify-between">
+                                    <Label htmlFor="quiet-hours">Pause notifications overnight</Label>
+                                    <Switch
+                                        id="quiet-hours"
+                                        checked={form.quietHoursEnabled}
+                                        onCheckedChange={(checked) => setForm({ ...form, quietHoursEnabled: checked })}
+                                    />
+                                </div>
+                                {form.quietHoursEnabled && (
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div className="space-y-1">
+                                            <Label htmlFor="quiet-start">From</Label>
+                                            <Input
+                                                id="quiet-start"
+                                                type="time"
+                                                value={form.quietHoursStart}
+                                                onChange={(e) => setForm({ ...form, quietHoursStart: e.target.value })}
+                                            />
+                                        </div>
+                                        <div className="space-y-1">
+                                            <Label htmlFor="quiet-end">Until</Label>
+                                            <Input
+                                                id="quiet-end"
+                                                type="time"
+                                                value={form.quietHoursEnd}
+                                                onChange={(e) => setForm({ ...form, quietHoursEnd: e.target.value })}
+                                            />
+                                        </div>
+                                    </div>
+                                )}
+                                <p className="text-xs text-gray-500">
+                                    Times are in {form.timezone}.{' '}
+                                    {form.timezone !== Intl.DateTimeFormat().resolvedOptions().timeZone && (
+                                        <button
+                                            type="button"
+                                            className="text-indigo-600 underline"
+                                            onClick={() => setForm({ ...form, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone })}
+                                        >
+                                            Use this device&apos;s timezone
+                                        </button>
+                                    )}
+                                </p>
+                            </CardContent>
+                        </Card>
+
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="text-lg flex items-center gap-2"><Languages className="w-5 h-5" /> Language</CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                                <Select
+                                    value={form.language}
+                                    onValueChange={(value) => setForm({ ...form, language: value as NotificationLanguage })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(LANGUAGE_LABELS) as NotificationLanguage[]).map(language => (
+                                            <SelectItem key={language} value={language}>{LANGUAGE_LABELS[language]}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </CardContent>
+                        </Card>
+
+                        <Button
+                            className="w-full"
+                            disabled={saveMutation.isPending}
+                            onClick={() => saveMutation.mutate(form)}
+                        >
+                            {saveMutation.isPending ? 'Saving...' : 'Save preferences'}
+                        </Button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -8,6 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { useToast } from '@/components/ui/use-toast';
 import { getDashboardRouteForRole } from '@/lib/auth/roleDashboardMapper';
 import { createClient } from '@/utils/supabase/client';
+import { getPersistentDeviceFingerprint } from '@/lib/auth-system/deviceFingerprint';
 
 // Helper function to sanitize redirect URLs
 function sanitizeRedirect(input: string): string {
@@ -179,6 +180,7 @@ export default function OTPLoginPageWrapper() {
           body: JSON.stringify({
             phone_e164: normalizedPhone,
             channel: 'sms',
+            device_fingerprint: await getPersistentDeviceFingerprint(),
           }),
         });
       } else {
@@ -491,6 +493,14 @@ export default function OTPLoginPageWrapper() {
                 variant: 'destructive',
               });
               break;
+            case 'OTP_LOCKED':
+              setError('OTP_LOCKED');
+              toast({
+                title: 'Temporarily Locked',
+                description: `Too many incorrect codes. Try again in ${Math.ceil((data.retry_after_seconds || 60) / 60)} minutes.`,
+                variant: 'destructive',
+              });
+              break;
             case 'DEVICE_CONFLICT':
               setError('DEVICE_CONFLICT');
               toast({
@@ -578,6 +588,7 @@ export default function OTPLoginPageWrapper() {
           body: JSON.stringify({
             phone_e164: normalizedPhone,
             channel: 'sms',
+            device_fingerprint: await getPersistentDeviceFingerprint(),
           }),
         });
       } else {
@@ -841,6 +852,7 @@ export default function OTPLoginPageWrapper() {
                   {error === 'OTP_NOT_FOUND_OR_EXPIRED' && 'OTP has expired or is invalid. Please request a new one.'}
                   {error === 'OTP_TOO_MANY_ATTEMPTS' && 'Too many attempts. Please request a new OTP.'}
                   {error === 'RATE_LIMITED' && 'Too many attempts. Please try again later.'}
+                  {error === 'OTP_LOCKED' && 'Too many incorrect codes. Please try again later.'}
                   {error === 'UNKNOWN_ERROR' && 'Something went wrong, please try again.'}
                   {lastRequestId && (
                     <div className="text-xs mt-1 text-gray-600">
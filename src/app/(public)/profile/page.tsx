@@ -241,7 +241,7 @@ export default function ProfilePage() {
                                 </div>
 
                                 {/* Notifications */}
-                                <div className="p-4 border border-gray-200 rounded-lg">
+                                <Link href="/customer/preferences" className="block p-4 border border-gray-200 rounded-lg hover:bg-gray-50">
                                     <div className="flex items-center justify-between">
                                         <div>
                                             <h3 className="font-medium text-gray-900">Notifications</h3>
@@ -249,7 +249,7 @@ export default function ProfilePage() {
                                         </div>
                                         <ChevronRight className="w-5 h-5 text-gray-400" />
                                     </div>
-                                </div>
+                                </Link>
 
                                 {/* Sign Out */}
                                 <Button
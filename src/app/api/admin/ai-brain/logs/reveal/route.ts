@@ -0,0 +1,89 @@
+import { createClient } from '@supabase/supabase-js';
+import { withAuth } from '@/lib/auth/withAuth';
+import { AuditLogger } from '@/lib/security/auditLogger';
+import { PiiVaultService } from '@/lib/services/pii-vault';
+import { restoreTokens, restoreValue } from '@/ai-brain/core/redaction';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+);
+
+// GET route to show an AI Brain log with its PII tokens restored. Every reveal is audited.
+export const GET = withAuth(async (user, request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const logId = searchParams.get('log_id');
+
+    if (!logId) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'log_id parameter is required'
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const { data: log, error } = await supabase
+      .from('ai_brain_logs')
+      .select('*')
+      .eq('id', logId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (!log || !log.interaction_id) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Log not found or has no redaction tokens'
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const tokens = await PiiVaultService.load(log.interaction_id);
+
+    const ipAddress = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown';
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+
+    const auditLogger = new AuditLogger();
+    await auditLogger.logAiPiiRevealed(user.id, logId, tokens.length, user.sessionId || 'unknown', ipAddress, userAgent);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: {
+          ...log,
+          prompt_summary: log.prompt_summary ? restoreTokens(log.prompt_summary, tokens) : log.prompt_summary,
+          ai_response_summary: log.ai_response_summary ? restoreTokens(log.ai_response_summary, tokens) : log.ai_response_summary,
+          meta_data: restoreValue(log.meta_data, tokens)
+        }
+      }),
+      {
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (error) {
+    console.error('Error revealing AI Brain log:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}, ['admin']);
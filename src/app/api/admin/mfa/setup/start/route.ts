@@ -1,21 +1,13 @@
 import { NextRequest } from 'next/server';
+import QRCode from 'qrcode';
 import { SessionManager } from '@/lib/auth-system/sessionManager';
 import { getSessionId } from '@/lib/auth-system/sessionUtils';
-import { randomBytes } from 'crypto';
+import { AdminMFAService, type MFAMethod } from '@/lib/auth-system/adminMFAService';
 
-// This would normally be a library like speakeasy for TOTP generation
-function generateSecret(): string {
-  // In a real implementation, use a library like speakeasy or otplib
-  // For now, we'll generate a mock secret
-  return randomBytes(16).toString('base64').replace(/[^a-z0-9]/gi, '').substring(0, 16).toUpperCase();
-}
-
-function generateQRCodeUrl(accountName: string, issuer: string, secret: string): string {
-  // In a real implementation, generate an actual QR code URL
-  // For now, we'll return a placeholder
-  const encodedAccountName = encodeURIComponent(accountName);
-  const encodedIssuer = encodeURIComponent(issuer);
-  return `https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=otpauth://totp/${encodedIssuer}:${encodedAccountName}?secret=${secret}&issuer=${encodedIssuer}`;
+async function generateQRCodeUrl(otpauthUrl: string): Promise<string> {
+  // Rendered here as a data URL for the setup page's <img>: the otpauth URL carries the TOTP secret,
+  // so it must never be sent to a third-party QR service
+  return QRCode.toDataURL(otpauthUrl, { width: 200, margin: 1 });
 }
 
 export async function POST(req: NextRequest) {
@@ -63,20 +55,35 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Generate a new secret for TOTP
-    const secret = generateSecret();
+    // Reconfiguring an active factor needs a current TOTP or recovery code
+    const body = await req.json().catch(() => ({}));
+    const { currentCode, recoveryCode } = body ?? {};
+    const method: MFAMethod = recoveryCode ? 'recovery_code' : 'totp';
+    const code = method === 'recovery_code' ? recoveryCode : currentCode;
 
-    // Generate QR code URL
-    const qrUrl = generateQRCodeUrl(
+    // Generate a new TOTP secret and store it as pending until a code is verified
+    const setup = await AdminMFAService.generateMFASecret(
       sessionResponse.session.userId,
-      'JamesTronic Admin',
-      secret
+      typeof code === 'string' ? code.trim() : undefined,
+      method
     );
 
-    // In a real implementation, you would:
-    // 1. Store the secret temporarily in the database
-    // 2. Mark that the user is in the process of setting up MFA
-    // 3. Not actually finalize until they verify a code
+    if (!setup.success || !setup.secret || !setup.qrCode) {
+      return new Response(
+        JSON.stringify({
+          error: setup.error || 'Failed to start MFA setup',
+          reauth_required: setup.reauthRequired || false,
+          locked_until: setup.lockedUntil
+        }),
+        {
+          status: setup.lockedUntil ? 429 : setup.reauthRequired ? 403 : 500,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const qrUrl = await generateQRCodeUrl(setup.qrCode);
+    const secret = setup.secret;
 
     return new Response(
       JSON.stringify({
@@ -1,32 +1,16 @@
 import { NextRequest } from 'next/server';
 import { SessionManager } from '@/lib/auth-system/sessionManager';
 import { createClient } from '@supabase/supabase-js';
-import { randomBytes } from 'crypto';
+import { AdminMFAService } from '@/lib/auth-system/adminMFAService';
 import { getSessionId } from '@/lib/auth-system/sessionUtils';
 
-// This would normally use a library like speakeasy to verify TOTP
-function verifyTOTP(token: string, secret: string): boolean {
-  // In a real implementation, use a library like speakeasy or otplib to verify the TOTP
-  // For now, we'll just check if the token is 6 digits
-  return /^\d{6}$/.test(token);
-}
-
-// Generate backup codes for the user
-function generateBackupCodes(): string[] {
-  const codes: string[] = [];
-  for (let i = 0; i < 10; i++) {
-    const code = randomBytes(4).toString('hex').toUpperCase().match(/.{1,4}/g)?.join('-') || '';
-    codes.push(code);
-  }
-  return codes;
-}
-
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { code, secret } = body;
+    const { code } = body;
 
-    if (!code || !secret) {
+    // The secret is read from the pending factor server-side; a client-supplied copy is never trusted
+    if (!code || !/^\d{6}$/.test(code)) {
       return new Response(
         JSON.stringify({
           success: false,
@@ -82,12 +66,15 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Verify the TOTP code
-    if (!verifyTOTP(code, secret)) {
+    // Verify the TOTP code against the pending factor; on success MFA is enabled
+    // and single-use recovery codes are issued (only their hashes are stored)
+    const result = await AdminMFAService.verifyMFACode(sessionResponse.session.userId, code);
+
+    if (!result.success || !result.recoveryCodes) {
       return new Response(
         JSON.stringify({
           success: false,
-          message: 'Invalid verification code'
+          message: result.error || 'Invalid verification code'
         }),
         {
           status: 400,
@@ -96,23 +83,13 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // At this point, the code is valid
-    // In a real implementation, you would:
-    // 1. Store the TOTP secret in the database for this user
-    // 2. Mark MFA as enabled for this user
-    // 3. Generate and store backup codes
+    const backupCodes = result.recoveryCodes;
 
     // Create Supabase client
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
     const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
     const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
-    // Generate backup codes
-    const backupCodes = generateBackupCodes();
-
-    // In a real implementation, you would update the user's profile record with the TOTP secret
-    // For now, we'll just generate the backup codes and return success
-
     // Also log the MFA setup event
     const { error: logError } = await supabase
       .from('admin_security_events')
@@ -1,14 +1,28 @@
 import { NextRequest } from 'next/server';
-import { AdminMFAService } from '@/lib/auth-system/adminMFAService';
+import { AdminMFAService, type MFAMethod } from '@/lib/auth-system/adminMFAService';
 import { SessionManager } from '@/lib/auth-system/sessionManager';
 import { getSessionId } from '@/lib/auth-system/sessionUtils';
 
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { mfaCode } = body;
+    const { mfaCode, recoveryCode } = body;
+    const method: MFAMethod = recoveryCode ? 'recovery_code' : 'totp';
 
-    if (!mfaCode || mfaCode.length !== 6 || !/^\d{6}$/.test(mfaCode)) {
+    if (method === 'recovery_code') {
+      if (typeof recoveryCode !== 'string' || !/^[A-Za-z2-7]{5}-?[A-Za-z2-7]{5}$/.test(recoveryCode.trim())) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            message: 'Invalid recovery code format'
+          }),
+          {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        );
+      }
+    } else if (!mfaCode || mfaCode.length !== 6 || !/^\d{6}$/.test(mfaCode)) {
       return new Response(
         JSON.stringify({
           success: false,
@@ -70,7 +84,11 @@ export async function POST(req: NextRequest) {
     // Use the admin MFA service to verify the code
     // We reuse verifyMFADuringLogin since it encapsulates the verification logic against the user's secret
     // It returns a login response, but we just check success
-    const result = await AdminMFAService.verifyMFADuringLogin(sessionId, mfaCode);
+    const result = await AdminMFAService.verifyMFADuringLogin(
+      sessionId,
+      method === 'recovery_code' ? recoveryCode.trim() : mfaCode,
+      method
+    );
 
     if (result.success) {
       // Return success
@@ -80,7 +98,8 @@ export async function POST(req: NextRequest) {
       return new Response(
         JSON.stringify({
           success: true,
-          message: 'MFA verified successfully'
+          message: 'MFA verified successfully',
+          remaining_recovery_codes: result.remainingRecoveryCodes
         }),
         {
           status: 200,
@@ -91,10 +110,11 @@ export async function POST(req: NextRequest) {
       return new Response(
         JSON.stringify({
           success: false,
-          message: result.error || 'MFA verification failed'
+          message: result.error || 'MFA verification failed',
+          locked_until: result.lockedUntil
         }),
         {
-          status: 400,
+          status: result.lockedUntil ? 429 : 400,
           headers: { 'Content-Type': 'application/json' }
         }
       );
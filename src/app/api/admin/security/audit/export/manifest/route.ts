@@ -0,0 +1,70 @@
+import { createClient } from '@supabase/supabase-js';
+import { withAuth } from '@/lib/auth/withAuth';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+);
+
+// GET route to download the signed manifest of a completed audit log export
+export const GET = withAuth(async (user, request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const exportId = searchParams.get('export_id');
+
+    if (!exportId) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'export_id parameter is required'
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('audit_log_exports')
+      .select('manifest')
+      .eq('id', exportId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (!data) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Export not found or still in progress'
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    return new Response(JSON.stringify(data.manifest, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="audit-logs-${exportId}.manifest.json"`
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching audit export manifest:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}, ['admin']);
@@ -1,94 +1,150 @@
-import { NextRequest } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { createHash, randomUUID } from 'crypto';
 import { withAuth } from '@/lib/auth/withAuth';
 import { AuditLogger } from '@/lib/security/auditLogger';
+import {
+  AuditExportFormat,
+  AuditLogFilters,
+  csvHeaderLine,
+  fetchAuditLogPages,
+  signAuditManifest,
+  toCSVLine,
+  toJSONLLine
+} from '@/lib/security/auditExport';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
 );
 
-// POST route to export audit logs
+// POST route to export audit logs as a streamed JSONL or CSV file.
+// The signed manifest is stored once the stream completes and served by ./manifest.
 export const POST = withAuth(async (user, request) => {
   try {
     const body = await request.json();
 
-    // Get filters from request body
-    const {
-      date_from,
-      date_to,
-      actor_user_id,
-      event_type,
-      entity_type,
-      severity
-    } = body;
-
-    // Build query with filters
-    let query = supabase
-      .from('audit_log_entries')
-      .select(`
-        id,
-        created_at,
-        actor_user_id,
-        actor_role,
-        session_id,
-        ip_address,
-        user_agent,
-        event_type,
-        entity_type,
-        entity_id,
-        severity,
-        metadata,
-        prev_hash,
-        hash
-      `)
-      .order('created_at', { ascending: false });
-
-    // Apply filters
-    if (date_from) {
-      query = query.gte('created_at', date_from);
+    const format: AuditExportFormat = body.format === 'jsonl' ? 'jsonl' : 'csv';
+    const filters: AuditLogFilters = {
+      date_from: body.date_from || null,
+      date_to: body.date_to || null,
+      actor_user_id: body.actor_user_id || null,
+      event_type: body.event_type || null,
+      entity_type: body.entity_type || null,
+      severity: body.severity || null
+    };
+
+    const signingKey = process.env.AUDIT_EXPORT_SIGNING_KEY;
+    if (!signingKey) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Audit export signing key is not configured'
+        }),
+        {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
     }
 
-    if (date_to) {
-      query = query.lte('created_at', date_to);
-    }
-
-    if (actor_user_id) {
-      query = query.eq('actor_user_id', actor_user_id);
-    }
-
-    if (event_type) {
-      query = query.eq('event_type', event_type);
-    }
-
-    if (entity_type) {
-      query = query.eq('entity_type', entity_type);
-    }
-
-    if (severity) {
-      query = query.eq('severity', severity);
-    }
-
-    const { data, error } = await query;
-
-    if (error) {
-      throw new Error(error.message);
-    }
-
-    // Create CSV content
-    const csvContent = convertToCSV(data || []);
-
-    // Log the export action
-    const auditLogger = new AuditLogger();
-    await auditLogger.logAuditLogExport(user.id, user.sessionId || 'unknown', body,
-      request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown',
-      request.headers.get('user-agent') || 'unknown');
+    const exportId = randomUUID();
+    const ipAddress = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown';
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+
+    const pages = fetchAuditLogPages(supabase, filters);
+    const encoder = new TextEncoder();
+    const contentHash = createHash('sha256');
+
+    let rowCount = 0;
+    let anchorPrevHash: string | null = null;
+    let firstHash: string | null = null;
+    let lastHash: string | null = null;
+    let headerWritten = false;
+
+    const emit = (controller: ReadableStreamDefaultController<Uint8Array>, chunk: string) => {
+      contentHash.update(chunk);
+      controller.enqueue(encoder.encode(chunk));
+    };
+
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          if (format === 'csv' && !headerWritten) {
+            headerWritten = true;
+            emit(controller, csvHeaderLine());
+            return;
+          }
+
+          const { value: page, done } = await pages.next();
+
+          if (done) {
+            const manifest = signAuditManifest({
+              version: 1,
+              export_id: exportId,
+              format,
+              generated_at: new Date().toISOString(),
+              filters: { ...filters },
+              chain_contiguous: !filters.actor_user_id && !filters.event_type && !filters.entity_type && !filters.severity,
+              row_count: rowCount,
+              anchor_prev_hash: anchorPrevHash,
+              first_hash: firstHash,
+              last_hash: lastHash,
+              content_sha256: contentHash.digest('hex'),
+              signature_algorithm: 'HMAC-SHA256'
+            }, signingKey);
+
+            const { error } = await supabase
+              .from('audit_log_exports')
+              .insert([{
+                id: exportId,
+                requested_by: user.id,
+                format,
+                filters,
+                row_count: rowCount,
+                manifest
+              }]);
+
+            if (error) {
+              console.error('Error storing audit export manifest:', error);
+            }
+
+            // Log the export action
+            const auditLogger = new AuditLogger();
+            await auditLogger.logAuditLogExport(user.id, user.sessionId || 'unknown',
+              { ...filters, format, export_id: exportId, row_count: rowCount },
+              ipAddress, userAgent);
+
+            controller.close();
+            return;
+          }
+
+          for (const row of page) {
+            if (rowCount === 0) {
+              anchorPrevHash = row.prev_hash;
+              firstHash = row.hash;
+            }
+            lastHash = row.hash;
+            rowCount++;
+          }
+
+          emit(controller, page.map(row => (format === 'jsonl' ? toJSONLLine(row) : toCSVLine(row))).join(''));
+        } catch (error) {
+          console.error('Error streaming audit log export:', error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await pages.return(undefined);
+      }
+    });
 
-    // Return CSV as downloadable response
-    return new Response(csvContent, {
+    const extension = format === 'jsonl' ? 'jsonl' : 'csv';
+    return new Response(stream, {
       headers: {
-        'Content-Type': 'text/csv',
-        'Content-Disposition': 'attachment; filename="audit-logs-export.csv"',
+        'Content-Type': format === 'jsonl' ? 'application/x-ndjson' : 'text/csv',
+        'Content-Disposition': `attachment; filename="audit-logs-${exportId}.${extension}"`,
+        'X-Audit-Export-Id': exportId,
+        'Cache-Control': 'no-store'
       }
     });
   } catch (error) {
@@ -105,55 +161,3 @@ export const POST = withAuth(async (user, request) => {
     );
   }
 }, ['admin']);
-
-// Helper function to convert audit log data to CSV format
-function convertToCSV(data: any[]): string {
-  if (!data || data.length === 0) {
-    return '';
-  }
-
-  // Define CSV headers
-  const headers = [
-    'ID',
-    'Timestamp',
-    'Actor User ID',
-    'Actor Role',
-    'Session ID',
-    'IP Address',
-    'User Agent',
-    'Event Type',
-    'Entity Type',
-    'Entity ID',
-    'Severity',
-    'Metadata',
-    'Previous Hash',
-    'Hash'
-  ];
-
-  // Create CSV header row
-  let csv = headers.join(',') + '\n';
-
-  // Add data rows
-  for (const row of data) {
-    const csvRow = [
-      `"${row.id}"`,
-      `"${row.created_at}"`,
-      `"${row.actor_user_id || ''}"`,
-      `"${row.actor_role || ''}"`,
-      `"${row.session_id || ''}"`,
-      `"${row.ip_address || ''}"`,
-      `"${row.user_agent || ''}"`,
-      `"${row.event_type}"`,
-      `"${row.entity_type}"`,
-      `"${row.entity_id || ''}"`,
-      `"${row.severity}"`,
-      `"${JSON.stringify(row.metadata).replace(/"/g, '""')}"`, // Escape quotes in JSON
-      `"${row.prev_hash || ''}"`,
-      `"${row.hash}"`
-    ].join(',');
-
-    csv += csvRow + '\n';
-  }
-
-  return csv;
-}
\ No newline at end of file
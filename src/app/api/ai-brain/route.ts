@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { AiOrchestrator } from '@/lib/services/ai-orchestrator';
+import { listBrainPacksForRole } from '@/ai-brain/packs';
+
+const querySchema = z.object({
+    context: z.enum(['admin_cockpit', 'technician_job_assist', 'manager_pricing_review', 'support_agent']),
+    question: z.string().max(2000).optional(),
+    metrics_snapshot: z.record(z.string(), z.any()).optional(),
+    ticket_id: z.string().uuid().optional(),
+});
+
+async function getUserRole() {
+    const supabase = await createClient();
+    const { data: { user }, error } = await supabase.auth.getUser();
+    if (error || !user) return null;
+
+    const { data: profile } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('user_id', user.id)
+        .single();
+
+    return profile?.role ? { user, role: profile.role as string } : null;
+}
+
+// Brain packs available to the current user
+export async function GET() {
+    const auth = await getUserRole();
+    if (!auth) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const packs = listBrainPacksForRole(auth.role).map(pack => ({
+        context: pack.context,
+        name: pack.name,
+        readable_metrics: pack.readable_metrics,
+    }));
+
+    return NextResponse.json({ packs });
+}
+
+export async function POST(request: NextRequest) {
+    const auth = await getUserRole();
+    if (!auth) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = querySchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+        return NextResponse.json({ error: 'Invalid request', details: parsed.error.issues }, { status: 400 });
+    }
+
+    try {
+        const response = await AiOrchestrator.queryBrain({
+            ...parsed.data,
+            user_role: auth.role, // Resolved server-side, never taken from the request
+        });
+
+        return NextResponse.json(response);
+    } catch (error: any) {
+        if (error.message?.startsWith('Unauthorized')) {
+            return NextResponse.json({ error: error.message }, { status: 403 });
+        }
+        if (error.message?.startsWith('Governance Block')) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error('API Error in AI Brain:', error);
+        return NextResponse.json({ error: error.message || 'Internal Error' }, { status: 500 });
+    }
+}
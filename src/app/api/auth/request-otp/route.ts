@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import bcrypt from 'bcrypt';
 import { headers } from 'next/headers';
+import { getClientIp, OtpRateLimiter, RateLimitDecision } from '@/lib/auth-system/otpRateLimiter';
 
 // Environment variables for Interakt API
 const INTERAKT_API_BASE_URL = process.env.INTERAKT_API_BASE_URL;
@@ -30,49 +31,7 @@ function normalizePhone(phone: string): string {
   }
 }
 
-// Rate limiting check function (placeholder - implement with Redis or similar in production)
-async function checkRateLimit(phone_e164: string, ip: string): Promise<boolean> {
-  // TODO: Implement proper rate limiting using Redis or similar
-  // For now, just checking basic limits in the database
-  // Max 5 OTPs per 15 minutes per phone
-  const fifteenMinutesAgo = new Date(Date.now() - 15 * 60 * 1000).toISOString();
-
-  // Initialize Supabase client with service role for backend operations (only when needed)
-  const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
-    console.error('Missing Supabase environment variables');
-    return false; // Fail safe - don't allow if can't verify
-  }
-
-  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-    },
-  });
-
-  const { data, error } = await supabase
-    .from('login_otp_requests')
-    .select('id')
-    .eq('phone_e164', phone_e164)
-    .gte('created_at', fifteenMinutesAgo)
-    .order('created_at', { ascending: false })
-    .limit(5);
-
-  if (error) {
-    console.error('Error checking rate limit:', error);
-    return false; // Fail safe - don't allow if can't verify
-  }
-
-  // If we have 5 or more requests in the last 15 minutes, rate limit
-  if (data && data.length >= 5) {
-    return false;
-  }
-
-  return true;
-}
+const rateLimiter = new OtpRateLimiter();
 
 // Function to send OTP via Interakt
 async function sendOtpViaInterakt(phone_e164: string, otp: string, channel: 'whatsapp' | 'sms' = 'whatsapp') {
@@ -131,12 +90,13 @@ async function sendOtpViaInterakt(phone_e164: string, otp: string, channel: 'wha
 export async function POST(req: NextRequest) {
   try {
     // Get client IP and user agent
-    const clientIP = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown';
+    const clientIP = getClientIp(req.headers) || 'unknown';
     const userAgent = req.headers.get('user-agent') || 'unknown';
 
     // Parse request body
     const body = await req.json();
     let { phone_e164, channel = 'whatsapp' } = body;
+    const { device_fingerprint } = body;
 
     // Validate required fields
     if (!phone_e164) {
@@ -163,12 +123,24 @@ export async function POST(req: NextRequest) {
       channel = 'whatsapp'; // Default to whatsapp
     }
 
-    // Check rate limits
-    const isRateLimited = await checkRateLimit(phone_e164, clientIP as string);
-    if (!isRateLimited) {
+    // Check rate limits per phone, IP and device
+    let rateLimit: RateLimitDecision;
+    try {
+      rateLimit = await rateLimiter.checkRequest({
+        phone: phone_e164,
+        ip: getClientIp(req.headers),
+        deviceFingerprint: typeof device_fingerprint === 'string' ? device_fingerprint : null,
+        userAgent,
+      });
+    } catch (rateLimitError) {
+      console.error('Error checking rate limit:', rateLimitError);
+      rateLimit = { allowed: false, retryAfterSeconds: 60 }; // Fail safe - don't allow if can't verify
+    }
+
+    if (!rateLimit.allowed) {
       return new Response(
-        JSON.stringify({ error: 'Too many OTP requests. Please try again later.' }),
-        { status: 429, headers: { 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'Too many OTP requests. Please try again later.', retry_after_seconds: rateLimit.retryAfterSeconds }),
+        { status: 429, headers: { 'Content-Type': 'application/json', 'Retry-After': String(rateLimit.retryAfterSeconds) } }
       );
     }
 
@@ -3,6 +3,7 @@ import { createClient } from '@supabase/supabase-js';
 import bcrypt from 'bcrypt';
 import { headers } from 'next/headers';
 import { ensureUserForPhone, verifyOTP } from '@/lib/auth-system/userLinking';
+import { getClientIp, OtpRateLimiter, OtpSubject, RateLimitDecision } from '@/lib/auth-system/otpRateLimiter';
 
 // Environment variables
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -29,43 +30,7 @@ function normalizePhone(phone: string): string {
   }
 }
 
-// Rate limiting check function
-async function checkRateLimit(phone_e164: string, ip: string): Promise<boolean> {
-  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
-    console.error('Missing Supabase environment variables');
-    return false; // Fail safe - don't allow if can't verify
-  }
-
-  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-    },
-  });
-
-  // Max 10 verification attempts per 15 minutes per phone
-  const fifteenMinutesAgo = new Date(Date.now() - 15 * 60 * 1000).toISOString();
-
-  const { data, error } = await supabase
-    .from('login_otp_requests')
-    .select('id')
-    .eq('phone_e164', phone_e164)
-    .gte('created_at', fifteenMinutesAgo)
-    .order('created_at', { ascending: false });
-
-  if (error) {
-    console.error('Error checking rate limit for verification:', error);
-    return false; // Fail safe
-  }
-
-  // Check if there are verification attempts (with or without consumption)
-  // We'll count based on attempts rather than just requests
-  if (data && data.length >= 10) {
-    return false;
-  }
-
-  return true;
-}
+const rateLimiter = new OtpRateLimiter();
 
 // Function to get the latest unconsumed OTP request for a phone
 async function getLatestUnconsumedOTP(phone_e164: string) {
@@ -318,7 +283,7 @@ async function createSessionAndSetCookies(userId: string, role: string, request:
 export async function POST(req: NextRequest) {
   try {
     // Get client IP and user agent
-    const clientIP = req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown';
+    const clientIP = getClientIp(req.headers) || 'unknown';
     const userAgent = req.headers.get('user-agent') || 'unknown';
 
     // Parse request body
@@ -345,12 +310,30 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Check rate limits
-    const isRateLimited = await checkRateLimit(normalizedPhone, clientIP as string);
-    if (!isRateLimited) {
+    // Check lockouts and rate limits
+    const rateLimitSubject: OtpSubject = {
+      phone: normalizedPhone,
+      ip: getClientIp(req.headers),
+      deviceFingerprint: typeof device_fingerprint === 'string' ? device_fingerprint : null,
+      userAgent,
+    };
+
+    let rateLimit: RateLimitDecision;
+    try {
+      rateLimit = await rateLimiter.checkVerify(rateLimitSubject);
+    } catch (rateLimitError) {
+      console.error('Error checking rate limit for verification:', rateLimitError);
+      rateLimit = { allowed: false, retryAfterSeconds: 60 }; // Fail safe
+    }
+
+    if (!rateLimit.allowed) {
       return new Response(
-        JSON.stringify({ success: false, code: 'RATE_LIMITED' }),
-        { status: 429, headers: { 'Content-Type': 'application/json' } }
+        JSON.stringify({
+          success: false,
+          code: rateLimit.reason === 'locked' ? 'OTP_LOCKED' : 'RATE_LIMITED',
+          retry_after_seconds: rateLimit.retryAfterSeconds
+        }),
+        { status: 429, headers: { 'Content-Type': 'application/json', 'Retry-After': String(rateLimit.retryAfterSeconds) } }
       );
     }
 
@@ -379,6 +362,18 @@ export async function POST(req: NextRequest) {
       // Increment attempt count on invalid OTP
       await incrementOTPAttempt(otpRecord.id);
 
+      // Repeated wrong codes lock the phone out
+      const lockout = await rateLimiter.recordVerifyFailure(rateLimitSubject).catch((lockoutError) => {
+        console.error('Error recording failed OTP attempt:', lockoutError);
+        return null;
+      });
+      if (lockout && !lockout.allowed) {
+        return new Response(
+          JSON.stringify({ success: false, code: 'OTP_LOCKED', retry_after_seconds: lockout.retryAfterSeconds }),
+          { status: 429, headers: { 'Content-Type': 'application/json', 'Retry-After': String(lockout.retryAfterSeconds) } }
+        );
+      }
+
       return new Response(
         JSON.stringify({ success: false, code: 'OTP_INVALID' }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
@@ -386,6 +381,9 @@ export async function POST(req: NextRequest) {
     }
 
     // OTP is valid, mark as consumed
+    await rateLimiter.recordVerifySuccess(rateLimitSubject).catch((resetError) => {
+      console.error('Error resetting failed OTP attempts:', resetError);
+    });
     const consumed = await markOTPConsumed(otpRecord.id, device_fingerprint);
     if (!consumed) {
       return new Response(
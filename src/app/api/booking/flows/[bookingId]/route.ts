@@ -0,0 +1,94 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { BookingState } from '@/lib/booking/BookingStates';
+import {
+  createServerBookingFlowEngine,
+  getBookingFlowUserId,
+  toBookingFlowResponse,
+} from '@/lib/booking/ServerBookingFlowEngine';
+
+const signals = z.array(z.string().max(100)).max(50);
+
+const flowActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('transition'),
+    new_state: z.enum(BookingState),
+    reason: z.string().max(500).optional(),
+  }),
+  z.object({
+    action: z.literal('confidence'),
+    confidence: z.number().min(0).max(100),
+    hesitation_points: signals.optional(),
+    risk_factors: signals.optional(),
+  }),
+  z.object({
+    action: z.literal('page_view'),
+    page_url: z.string().max(2000),
+    view_name: z.string().max(100),
+  }),
+  z.object({ action: z.literal('complete') }),
+  z.object({
+    action: z.literal('cancel'),
+    reason: z.string().max(500).optional(),
+  }),
+]);
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * Apply one step of the signed-in customer's booking flow, whichever instance started it
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookingId: string }> }
+) {
+  try {
+    const userId = await getBookingFlowUserId(request.headers.get('authorization'));
+    if (!userId) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const parsed = flowActionSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return json({ error: 'Invalid booking flow action', details: parsed.error.issues }, 400);
+    }
+
+    const { bookingId } = await params;
+    const engine = createServerBookingFlowEngine();
+    const resumed = await engine.resumeBookingFlow(bookingId);
+    if (!resumed.success || engine.getBookingContext(bookingId)?.customerId !== userId) {
+      return json({ error: 'Booking flow not found' }, 404);
+    }
+
+    const body = parsed.data;
+    let result;
+    switch (body.action) {
+      case 'transition':
+        result = await engine.transitionBookingState(bookingId, body.new_state, body.reason);
+        break;
+      case 'confidence':
+        result = await engine.updateCustomerConfidence(
+          bookingId,
+          body.confidence,
+          body.hesitation_points,
+          body.risk_factors
+        );
+        break;
+      case 'page_view':
+        result = await engine.recordPageView(bookingId, body.page_url, body.view_name);
+        break;
+      case 'complete':
+        result = await engine.completeBookingFlow(bookingId);
+        break;
+      case 'cancel':
+        result = await engine.cancelBookingFlow(bookingId, body.reason);
+        break;
+    }
+
+    return json({ data: toBookingFlowResponse(result) }, result.success ? 200 : 409);
+  } catch (error) {
+    console.error('Error updating booking flow:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+}
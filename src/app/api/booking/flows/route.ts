@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import {
+  createServerBookingFlowEngine,
+  getBookingFlowUserId,
+  toBookingFlowResponse,
+} from '@/lib/booking/ServerBookingFlowEngine';
+
+const startFlowSchema = z.object({
+  booking_id: z.string().trim().min(1).max(200),
+  customer_id: z.string().trim().min(1).max(200),
+  session_id: z.string().trim().min(1).max(200),
+  device_type: z.string().max(100).optional(),
+  device_brand: z.string().max(100).optional(),
+});
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * Start a booking flow for the signed-in customer, or resume it if it was already started
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getBookingFlowUserId(request.headers.get('authorization'));
+    if (!userId) {
+      return json({ error: 'Unauthorized' }, 401);
+    }
+
+    const parsed = startFlowSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return json({ error: 'Invalid booking flow', details: parsed.error.issues }, 400);
+    }
+
+    const { booking_id, customer_id, session_id, device_type, device_brand } = parsed.data;
+    if (customer_id !== userId) {
+      return json({ error: 'Forbidden' }, 403);
+    }
+
+    const engine = createServerBookingFlowEngine();
+    const result = await engine.initializeBookingFlow(booking_id, userId, session_id, device_type, device_brand);
+
+    // A booking id already taken by another customer is reported as missing, not resumed
+    if (result.success && engine.getBookingContext(booking_id)?.customerId !== userId) {
+      return json({ error: 'Booking flow not found' }, 404);
+    }
+
+    return json({ data: toBookingFlowResponse(result) }, result.success ? 200 : 409);
+  } catch (error) {
+    console.error('Error starting booking flow:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+}
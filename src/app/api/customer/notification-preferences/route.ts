@@ -0,0 +1,148 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { NOTIFICATION_CHANNELS } from '@/lib/notifications/channels/types';
+import { NOTIFICATION_LANGUAGES } from '@/lib/notifications/preferences';
+import { NotificationPreferencesService, NotificationPreferencesUpdate } from '@/lib/services/notification-preferences';
+
+// Create a Supabase client instance function
+function getSupabaseClient() {
+  const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new Error('Missing Supabase environment variables');
+  }
+
+  return createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    auth: {
+      persistSession: false,
+    },
+  });
+}
+
+// Helper function to get the authenticated user and their customer ID
+async function getCustomerFromAuth(token: string) {
+  const supabase = getSupabaseClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return null;
+  }
+
+  // Get customer from phone number (since customers log in with phone)
+  const { data: customer, error: customerError } = await supabase
+    .from('customers')
+    .select('id')
+    .eq('phone_e164', user.phone)
+    .single();
+
+  if (customerError || !customer) {
+    return null;
+  }
+
+  return { userId: user.id, customerId: customer.id as string };
+}
+
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM');
+
+const isValidTimezone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const updatePreferencesSchema = z.object({
+  language: z.enum(NOTIFICATION_LANGUAGES as [string, ...string[]]).optional(),
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').optional(),
+  quiet_hours_start: clockTime.nullable().optional(),
+  quiet_hours_end: clockTime.nullable().optional(),
+  channel_opt_outs: z.record(z.string(), z.array(z.enum(NOTIFICATION_CHANNELS as [string, ...string[]]))).optional(),
+  whatsapp_consent: z.boolean().optional(),
+}).refine(
+  body => (body.quiet_hours_start === undefined) === (body.quiet_hours_end === undefined) &&
+    (body.quiet_hours_start === null) === (body.quiet_hours_end === null),
+  { message: 'Set both ends of quiet hours, or neither' }
+);
+
+// The caller's customer, or the error response to return
+async function authenticate(request: NextRequest) {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '');
+  if (!token) {
+    return new Response(
+      JSON.stringify({ error: 'Authentication required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const customer = await getCustomerFromAuth(token);
+  if (!customer) {
+    return new Response(
+      JSON.stringify({ error: 'Customer not found' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return customer;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const customer = await authenticate(request);
+    if (customer instanceof Response) return customer;
+
+    const preferences = await new NotificationPreferencesService().get(customer.customerId);
+
+    return new Response(JSON.stringify(preferences), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const customer = await authenticate(request);
+    if (customer instanceof Response) return customer;
+
+    const parsed = updatePreferencesSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid preferences', details: parsed.error.issues }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const preferences = await new NotificationPreferencesService().update(
+      customer.customerId,
+      parsed.data as NotificationPreferencesUpdate,
+      {
+        source: 'preferences_screen',
+        actor_user_id: customer.userId,
+        ip_address: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+        user_agent: request.headers.get('user-agent')
+      }
+    );
+
+    return new Response(JSON.stringify(preferences), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error updating notification preferences:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
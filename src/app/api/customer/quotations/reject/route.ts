@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server';
 import { z } from 'zod';
 import { getCustomerIdFromAuth } from '@/lib/api/customer-auth-helpers';
 import { createClient as createServerSupabaseClient } from '@/lib/supabase/server';
+import { TicketPaymentService } from '@/lib/services/ticket-payments';
 
 export async function POST(request: NextRequest) {
   try {
@@ -99,11 +100,22 @@ export async function POST(request: NextRequest) {
       // Note: This is not critical to the quotation rejection, so we don't return an error here
     }
 
+    // Return any advance already collected. The rejection stands even if the refund cannot be
+    // started; staff can retry it from the ticket's payment ledger.
+    let refunds: { id: string; amount: number }[] = [];
+    try {
+      const entries = await new TicketPaymentService().refundForRejectedQuotation(ticket_id, quotation.id);
+      refunds = entries.map(entry => ({ id: entry.id, amount: entry.amount }));
+    } catch (refundError) {
+      console.error('Error refunding advance for rejected quotation:', refundError);
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
         message: 'Quotation rejected successfully',
-        quotation_id: quotation.id
+        quotation_id: quotation.id,
+        refunds
       }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
     );
@@ -0,0 +1,89 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { getPricingEngineDb } from '@/lib/pricing/engine-db';
+
+// Create a Supabase client instance function
+function getSupabaseClient() {
+  const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new Error('Missing Supabase environment variables');
+  }
+
+  return createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    auth: {
+      persistSession: false,
+    },
+  });
+}
+
+// Helper function to get customer ID from authenticated user
+async function getCustomerIdFromAuth(token: string) {
+  const supabase = getSupabaseClient();
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+  if (authError || !user) {
+    return null;
+  }
+
+  // Get customer from phone number (since customers log in with phone)
+  const { data: customer, error: customerError } = await supabase
+    .from('customers')
+    .select('id')
+    .eq('phone_e164', user.phone)
+    .single();
+
+  if (customerError || !customer) {
+    return null;
+  }
+
+  return customer.id as string;
+}
+
+// The customer's personal referral code for the running referral campaign, created on first request
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const customerId = await getCustomerIdFromAuth(token);
+    if (!customerId) {
+      return new Response(
+        JSON.stringify({ error: 'Customer not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data, error } = await getPricingEngineDb().rpc('issue_pricing_referral_code', {
+      p_customer_id: customerId
+    });
+
+    if (error) {
+      if (error.message?.includes('referral_campaign_not_found')) {
+        return new Response(
+          JSON.stringify({ error: 'No referral programme is running' }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      throw new Error(error.message);
+    }
+
+    return new Response(JSON.stringify({ code: data.code, created_at: data.created_at }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error issuing referral code:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { z } from 'zod';
+import { DEFAULT_SLA_POLICIES, loadSLAPolicies, resolveSLAPolicy, slaCriteriaFromTicket } from '@/lib/utils/sla-policy';
+import { Ticket } from '@/lib/types/ticket';
 
 // Create a Supabase client instance function
 function getSupabaseClient() {
@@ -77,7 +79,7 @@ export async function GET(
     // Check if the ticket belongs to the authenticated customer
     const { data: ticket, error: ticketError } = await supabase
       .from('tickets')
-      .select('id')
+      .select('*')
       .eq('id', ticketId)
       .eq('customer_id', customerId)
       .single();
@@ -89,6 +91,19 @@ export async function GET(
       );
     }
 
+    // Resolve the promised SLA from the policy engine (same resolver used for breach calculations)
+    let policies = DEFAULT_SLA_POLICIES;
+    try {
+      policies = await loadSLAPolicies(supabase);
+    } catch (policyError) {
+      console.error('Error loading SLA policies, using built-in policies:', policyError);
+    }
+    const resolvedPolicy = resolveSLAPolicy(slaCriteriaFromTicket(ticket as Ticket), policies);
+    const promisedHours = resolvedPolicy ? Math.round((resolvedPolicy.targetMinutes / 60) * 100) / 100 : null;
+    const slaPolicy = resolvedPolicy
+      ? { id: resolvedPolicy.policy.id, name: resolvedPolicy.policy.name }
+      : null;
+
     // Fetch SLA snapshot for the ticket
     const { data: slaSnapshot, error } = await supabase
       .from('customer_sla_snapshot')
@@ -102,10 +117,11 @@ export async function GET(
         return new Response(
           JSON.stringify({
             ticket_id: ticketId,
-            promised_hours: null,
+            promised_hours: promisedHours,
             elapsed_hours: null,
             status: 'not_available',
-            last_updated: null
+            last_updated: null,
+            sla_policy: slaPolicy
           }),
           { status: 200, headers: { 'Content-Type': 'application/json' } }
         );
@@ -116,7 +132,11 @@ export async function GET(
       );
     }
 
-    return new Response(JSON.stringify(slaSnapshot), {
+    return new Response(JSON.stringify({
+      ...slaSnapshot,
+      promised_hours: promisedHours ?? slaSnapshot.promised_hours,
+      sla_policy: slaPolicy
+    }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
     });
@@ -0,0 +1,65 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getCustomerIdFromAuth, verifyCustomerTicketAccess } from '@/lib/api/customer-auth-helpers';
+import { DeviceCustodyService } from '@/lib/services/device-custody';
+
+// Who has held the customer's device, from pickup to return, and who holds it now
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: ticketId } = await params;
+    z.string().uuid('Ticket ID must be a valid UUID').parse(ticketId);
+
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    const authContext = await getCustomerIdFromAuth(token);
+    if (!authContext) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { ticket } = await verifyCustomerTicketAccess(authContext.customerId, ticketId);
+    if (!ticket) {
+      return new Response(
+        JSON.stringify({ error: 'Ticket not found or unauthorized' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const custody = await new DeviceCustodyService().getTicketCustody(ticketId);
+
+    // Transporter GPS traces stay internal; the customer sees hand-offs and their proof
+    return new Response(JSON.stringify({
+      current_holder: custody.current_holder,
+      chain: custody.chain,
+      events: custody.events.map(event => ({
+        id: event.id,
+        event_type: event.event_type,
+        holder_type: event.holder_type,
+        holder_name: event.holder_name,
+        otp_verified: event.otp_verified,
+        photo_count: event.photo_paths.length,
+        recorded_at: event.recorded_at,
+      })),
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new Response(
+        JSON.stringify({ error: 'Validation failed', details: error.issues }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.error('Error fetching device custody:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getCustomerIdFromAuth, verifyCustomerTicketAccess } from '@/lib/api/customer-auth-helpers';
+import { TicketPaymentService, ticketPaymentErrorStatus } from '@/lib/services/ticket-payments';
+
+// Zod schema for request validation
+const payBalanceSchema = z.object({
+  method: z.enum(['upi', 'card']),
+  amount: z.number().positive().optional(),
+});
+
+async function authorize(request: NextRequest, ticketId: string) {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '');
+  const authContext = await getCustomerIdFromAuth(token);
+  if (!authContext) {
+    return { error: new Response(
+      JSON.stringify({ error: 'Authentication required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    ) };
+  }
+
+  const { ticket } = await verifyCustomerTicketAccess(authContext.customerId, ticketId);
+  if (!ticket) {
+    return { error: new Response(
+      JSON.stringify({ error: 'Ticket not found or unauthorized' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    ) };
+  }
+
+  return { user: authContext.user };
+}
+
+// What the customer has paid, had refunded and still owes on their ticket
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: ticketId } = await params;
+    z.string().uuid('Ticket ID must be a valid UUID').parse(ticketId);
+
+    const auth = await authorize(request, ticketId);
+    if (auth.error) return auth.error;
+
+    const { entries, summary } = await new TicketPaymentService().getLedger(ticketId);
+
+    return new Response(JSON.stringify({
+      summary,
+      entries: entries.map(entry => ({
+        id: entry.id,
+        kind: entry.kind,
+        method: entry.method,
+        amount: entry.amount,
+        currency: entry.currency,
+        status: entry.status,
+        created_at: entry.created_at,
+        settled_at: entry.settled_at,
+      })),
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new Response(
+        JSON.stringify({ error: 'Validation failed', details: error.issues }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.error('Error loading customer payments:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+// Pay all or part of the balance due on an approved quotation
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: ticketId } = await params;
+    z.string().uuid('Ticket ID must be a valid UUID').parse(ticketId);
+
+    const auth = await authorize(request, ticketId);
+    if (auth.error) return auth.error;
+
+    const body: unknown = await request.json();
+    const { method, amount } = payBalanceSchema.parse(body);
+
+    const entry = await new TicketPaymentService().startPayment({
+      ticketId,
+      kind: 'balance',
+      method,
+      amount,
+      idempotencyKey: request.headers.get('idempotency-key'),
+      actorId: auth.user.id,
+    });
+
+    return new Response(JSON.stringify({
+      success: true,
+      payment: {
+        id: entry.id,
+        amount: entry.amount,
+        currency: entry.currency,
+        method: entry.method,
+        provider: entry.provider,
+        provider_payment_id: entry.provider_payment_id,
+        checkout_url: entry.checkout_url,
+        upi_intent_url: entry.upi_intent_url,
+      },
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new Response(
+        JSON.stringify({ error: 'Validation failed', details: error.issues }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const status = ticketPaymentErrorStatus(error);
+    if (status === 500) console.error('Error starting customer payment:', error);
+    return new Response(
+      JSON.stringify({ error: status === 500 ? 'Internal server error' : (error as Error).message }),
+      { status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { getCustomerIdFromAuth, verifyCustomerTicketAccess } from '@/lib/api/customer-auth-helpers';
+import { TransporterTrackingService } from '@/lib/services/transporter-tracking';
+
+// Where the ticket's pickup or return is: ETA, and a coarse rider position when the rider is nearby
+// and heading to the customer
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: ticketId } = await params;
+    z.string().uuid('Ticket ID must be a valid UUID').parse(ticketId);
+
+    const token = request.headers.get('authorization')?.replace('Bearer ', '');
+    const authContext = await getCustomerIdFromAuth(token);
+    if (!authContext) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { ticket } = await verifyCustomerTicketAccess(authContext.customerId, ticketId);
+    if (!ticket) {
+      return new Response(
+        JSON.stringify({ error: 'Ticket not found or unauthorized' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const tracking = await new TransporterTrackingService().getTicketTracking(ticketId);
+
+    return new Response(JSON.stringify(tracking), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new Response(
+        JSON.stringify({ error: 'Validation failed', details: error.issues }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.error('Error fetching transporter tracking:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
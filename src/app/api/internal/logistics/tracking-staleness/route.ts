@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { TransporterTrackingService } from '@/lib/services/transporter-tracking';
+
+// This endpoint is called every few minutes to alert dispatch about riders who stopped pinging mid-job
+// Should be protected with a secret token or service role authentication
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const secretToken = process.env.INTERNAL_API_SECRET;
+
+    if (!secretToken || authHeader !== `Bearer ${secretToken}`) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const sweep = await new TransporterTrackingService().detectStaleRiders();
+
+    console.log(`[Tracking Staleness API] Checked ${sweep.checked} riders, opened ${sweep.opened} alerts, resolved ${sweep.resolved}.`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        ...sweep
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (error) {
+    console.error('[Tracking Staleness API] Error checking rider pings:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}
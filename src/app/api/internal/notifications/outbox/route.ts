@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import { NotificationOutboxWorker } from '@/lib/notifications/notification-outbox';
+
+// This endpoint is called periodically to deliver queued customer notifications
+// Should be protected with a secret token or service role authentication
+export async function POST(request: NextRequest) {
+  try {
+    // Verify internal request - for now using a basic secret check
+    const authHeader = request.headers.get('authorization');
+    const secretToken = process.env.INTERNAL_API_SECRET;
+
+    if (!secretToken || authHeader !== `Bearer ${secretToken}`) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const maxAttempts = Number(process.env.NOTIFICATION_OUTBOX_MAX_ATTEMPTS) || undefined;
+    const worker = new NotificationOutboxWorker(maxAttempts ? { maxAttempts } : {});
+    const summary = await worker.run();
+
+    console.log(`[Notification Outbox API] Claimed ${summary.claimed}: sent ${summary.sent}, retrying ${summary.retried}, dead-lettered ${summary.dead_lettered}.`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        ...summary
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (error) {
+    console.error('[Notification Outbox API] Error draining notification outbox:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}
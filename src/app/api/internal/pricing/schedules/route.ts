@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import { getPricingEngineDb } from '@/lib/pricing/engine-db';
+
+// This endpoint is called periodically to start and end scheduled ruleset activations and overrides
+// Should be protected with a secret token or service role authentication
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const secretToken = process.env.INTERNAL_API_SECRET;
+
+    if (!secretToken || authHeader !== `Bearer ${secretToken}`) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const { data, error } = await getPricingEngineDb().rpc('process_pricing_ruleset_schedules');
+    if (error) throw new Error(error.message);
+
+    const summary = data as { started: number; ended: number; skipped: number };
+
+    console.log(`[Pricing Schedules API] Started ${summary.started}, ended ${summary.ended}, skipped ${summary.skipped}.`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        ...summary
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (error) {
+    console.error('[Pricing Schedules API] Error processing pricing schedules:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}
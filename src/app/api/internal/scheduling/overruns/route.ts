@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { TechnicianSchedulerService } from '@/lib/services/technician-scheduler';
+
+// This endpoint is called every few minutes to re-plan around technician jobs still open past their planned end
+// Should be protected with a secret token or service role authentication
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const secretToken = process.env.INTERNAL_API_SECRET;
+
+    if (!secretToken || authHeader !== `Bearer ${secretToken}`) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const sweep = await new TechnicianSchedulerService().detectOverruns();
+
+    console.log(`[Job Overrun API] Checked ${sweep.checked} jobs, extended ${sweep.extended}, moved ${sweep.moved}, closed ${sweep.completed} finished.`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        ...sweep
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (error) {
+    console.error('[Job Overrun API] Error re-planning overrunning jobs:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server';
+import { AuditIntegrityService } from '@/lib/security/auditIntegrity';
+
+// This endpoint is called periodically to verify new audit log entries and record a signed checkpoint
+// Should be protected with a secret token or service role authentication
+export async function POST(request: NextRequest) {
+  try {
+    // Verify internal request - for now using a basic secret check
+    const authHeader = request.headers.get('authorization');
+    const secretToken = process.env.INTERNAL_API_SECRET;
+
+    if (!secretToken || authHeader !== `Bearer ${secretToken}`) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    console.log('[Audit Checkpoint API] Verifying audit chain tail...');
+
+    const integrityService = new AuditIntegrityService();
+    const { result, checkpoint } = await integrityService.createCheckpoint();
+
+    console.log(`[Audit Checkpoint API] Verified ${result.verified_count} entries. ok=${result.ok}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        ok: result.ok,
+        verified_count: result.verified_count,
+        first_invalid_id: result.first_invalid_id,
+        alert_raised: result.alert_raised,
+        checkpoint_id: checkpoint?.id ?? null
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  } catch (error) {
+    console.error('[Audit Checkpoint API] Error creating audit checkpoint:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { courierProviderFromSlug, CourierWebhookSignatureError } from '@/lib/couriers';
+import { CourierBookingService } from '@/lib/services/courier-bookings';
+
+// Courier status webhooks move external deliveries along. The body is verified against the provider's
+// signature before anything is read from it; redeliveries and out-of-order statuses are no-ops.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider: slug } = await params;
+  const provider = courierProviderFromSlug(slug);
+
+  if (!provider) {
+    return new Response(
+      JSON.stringify({ error: 'Unknown courier provider' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const rawBody = await request.text();
+    const result = await new CourierBookingService().handleWebhook(provider, rawBody, request.headers);
+
+    console.log(`[Courier Webhook API] ${slug}: ${result.outcome}`, result.delivery_id ?? '');
+
+    return new Response(JSON.stringify({ success: true, ...result }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (error instanceof CourierWebhookSignatureError) {
+      console.warn(`[Courier Webhook API] Rejected ${slug} webhook: ${error.message}`);
+      return new Response(
+        JSON.stringify({ success: false, error: error.message }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // A 5xx makes the provider redeliver, which is what we want for database errors
+    console.error('[Courier Webhook API] Error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
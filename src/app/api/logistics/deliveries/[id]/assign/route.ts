@@ -0,0 +1,82 @@
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { courierProviderFromSlug, isCourierProvider } from '@/lib/couriers';
+import { CourierBookingError, CourierBookingService } from '@/lib/services/courier-bookings';
+
+const LOGISTICS_ROLES = ['admin', 'super_admin', 'manager'];
+
+const assignSchema = z.object({
+    strategy: z.string().trim().min(1).default('auto_internal_first'),
+});
+
+async function getSupabase() {
+    const cookieStore = await cookies();
+    return createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                get(name: string) {
+                    return cookieStore.get(name)?.value;
+                },
+            },
+        }
+    );
+}
+
+// Assign a transporter with rpc_assign_transporter. When the RPC picks an external provider the rider
+// is booked through that provider's adapter and the booked fare becomes the delivery's estimated_cost;
+// if the provider refuses, the delivery goes back to the assignment queue.
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) {
+        return NextResponse.json({ error: 'Invalid delivery id' }, { status: 400 });
+    }
+
+    const supabase = await getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    if (!LOGISTICS_ROLES.includes(session.user.app_metadata?.app_role)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const parsed = assignSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+        return NextResponse.json({ error: 'Invalid strategy' }, { status: 400 });
+    }
+
+    const { data: result, error } = await supabase.rpc('rpc_assign_transporter', {
+        p_delivery_id: id,
+        p_strategy: parsed.data.strategy
+    });
+    if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const provider = isCourierProvider(result?.provider) ? result.provider : courierProviderFromSlug(String(result?.provider ?? ''));
+    if (!result?.success || !provider) {
+        return NextResponse.json(result);
+    }
+
+    const service = new CourierBookingService();
+    try {
+        const booking = await service.book(id, provider, { bookedBy: session.user.id });
+        return NextResponse.json({ ...result, provider, booking, estimated_cost: booking.amount });
+    } catch (e: any) {
+        console.error('Courier Booking Error:', e);
+        await service.releaseAssignment(id).catch(releaseError =>
+            console.error('Failed to release delivery after courier booking error:', releaseError));
+
+        return NextResponse.json({
+            success: false,
+            provider,
+            message: `Could not book ${provider.replace('external_', '')}: ${e.message}`
+        }, { status: e instanceof CourierBookingError ? e.status : 502 });
+    }
+}
@@ -0,0 +1,96 @@
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { CourierError, CourierProvider, isCourierProvider } from '@/lib/couriers';
+import { CourierBookingError, CourierBookingService } from '@/lib/services/courier-bookings';
+
+const LOGISTICS_ROLES = ['admin', 'super_admin', 'manager'];
+
+async function getSupabase() {
+    const cookieStore = await cookies();
+    return createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                get(name: string) {
+                    return cookieStore.get(name)?.value;
+                },
+            },
+        }
+    );
+}
+
+async function authorize(params: Promise<{ id: string }>) {
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) {
+        return { error: NextResponse.json({ error: 'Invalid delivery id' }, { status: 400 }) };
+    }
+
+    const supabase = await getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+
+    if (!LOGISTICS_ROLES.includes(session.user.app_metadata?.app_role)) {
+        return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+    }
+
+    return { id };
+}
+
+function errorResponse(e: any, fallback: string) {
+    if (e instanceof CourierBookingError) {
+        return NextResponse.json({ error: e.code, ...e.details }, { status: e.status });
+    }
+    if (e instanceof CourierError) {
+        return NextResponse.json({ error: e.message, retryable: e.retryable }, { status: 502 });
+    }
+
+    console.error('Courier Error:', e);
+    return NextResponse.json({ error: e.message || fallback }, { status: 500 });
+}
+
+// Live tracking from the courier (?quotes=1 instead prices the delivery with every provider)
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const auth = await authorize(params);
+    if (auth.error) return auth.error;
+
+    const service = new CourierBookingService();
+    const search = new URL(request.url).searchParams;
+
+    try {
+        if (search.get('quotes')) {
+            const providers = search.getAll('provider').filter(isCourierProvider) as CourierProvider[];
+            const quotes = await service.quote(auth.id, providers.length > 0 ? providers : undefined);
+            return NextResponse.json({ data: quotes });
+        }
+
+        const tracking = await service.refreshTracking(auth.id);
+        return NextResponse.json({ data: tracking });
+    } catch (e: any) {
+        return errorResponse(e, 'Failed to reach courier');
+    }
+}
+
+// Cancel the courier booking; the delivery returns to the assignment queue
+export async function DELETE(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const auth = await authorize(params);
+    if (auth.error) return auth.error;
+
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim().slice(0, 200) : 'Cancelled by logistics desk';
+
+    try {
+        const booking = await new CourierBookingService().cancel(auth.id, reason);
+        return NextResponse.json({ success: true, data: booking });
+    } catch (e: any) {
+        return errorResponse(e, 'Failed to cancel courier');
+    }
+}
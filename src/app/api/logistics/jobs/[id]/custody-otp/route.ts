@@ -0,0 +1,62 @@
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { CustodyHandoffError, DeviceCustodyService } from '@/lib/services/device-custody';
+
+const DISPATCH_ROLES = ['admin', 'super_admin', 'manager', 'staff'];
+
+const resetSchema = z.object({
+    stage: z.enum(['pickup', 'drop']),
+});
+
+async function getSupabase() {
+    const cookieStore = await cookies();
+    return createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                get(name: string) {
+                    return cookieStore.get(name)?.value;
+                },
+            },
+        }
+    );
+}
+
+// Reset a customer's hand-off codes once they have run out of sends or guesses. A fresh code is
+// sent straight away if the transporter is already at the pickup or drop.
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) {
+        return NextResponse.json({ error: 'Invalid job id' }, { status: 400 });
+    }
+
+    const supabase = await getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    if (!DISPATCH_ROLES.includes(session.user.app_metadata?.app_role)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const parsed = resetSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+        return NextResponse.json({ error: 'stage must be pickup or drop' }, { status: 400 });
+    }
+
+    try {
+        const otpSent = await new DeviceCustodyService().resetOtp(id, parsed.data.stage, session.user.id);
+        return NextResponse.json({ success: true, otp_sent: otpSent });
+    } catch (e: any) {
+        if (e instanceof CustodyHandoffError) {
+            return NextResponse.json({ error: e.code, ...e.details }, { status: e.status });
+        }
+        console.error('Custody OTP Reset Error:', e);
+        return NextResponse.json({ error: e.message || 'Failed to reset custody OTP' }, { status: 500 });
+    }
+}
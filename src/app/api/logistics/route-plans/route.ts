@@ -0,0 +1,104 @@
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { RoutePlannerService } from '@/lib/services/route-planner';
+
+const PLANNER_ROLES = ['admin', 'super_admin', 'manager'];
+
+/** Longest shift the planner will lay out */
+const MAX_SHIFT_HOURS = 16;
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+const planSchema = z.object({
+    shift_date: dateSchema,
+    shift_start: z.string().datetime({ offset: true }),
+    shift_end: z.string().datetime({ offset: true }),
+    fleet_ids: z.array(z.string().uuid()).optional(),
+    include_unassigned: z.boolean().default(false),
+}).refine(
+    input => new Date(input.shift_end).getTime() > new Date(input.shift_start).getTime(),
+    { message: 'Shift must end after it starts', path: ['shift_end'] }
+).refine(
+    input => new Date(input.shift_end).getTime() - new Date(input.shift_start).getTime() <= MAX_SHIFT_HOURS * 3600 * 1000,
+    { message: `Shift cannot be longer than ${MAX_SHIFT_HOURS} hours`, path: ['shift_end'] }
+);
+
+async function getSupabase() {
+    const cookieStore = await cookies();
+    return createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                get(name: string) {
+                    return cookieStore.get(name)?.value;
+                },
+            },
+        }
+    );
+}
+
+async function getPlanner() {
+    const supabase = await getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+
+    if (!PLANNER_ROLES.includes(session.user.app_metadata?.app_role)) {
+        return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+    }
+
+    return { user: session.user };
+}
+
+// Active run sheets for a day (defaults to today) with what the last planning run could not fit
+export async function GET(request: Request) {
+    const planner = await getPlanner();
+    if (planner.error) return planner.error;
+
+    const date = new URL(request.url).searchParams.get('date') ?? new Date().toISOString().slice(0, 10);
+    const parsed = dateSchema.safeParse(date);
+    if (!parsed.success) {
+        return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 });
+    }
+
+    try {
+        const plan = await new RoutePlannerService().getShiftPlan(parsed.data);
+        return NextResponse.json({ data: plan });
+    } catch (e: any) {
+        console.error('Route Plan Error:', e);
+        return NextResponse.json({ error: e.message || 'Failed to load run sheets' }, { status: 500 });
+    }
+}
+
+// Plan the shift: order every internal vehicle's jobs and deliveries and replace their run sheets
+export async function POST(request: Request) {
+    const planner = await getPlanner();
+    if (planner.error) return planner.error;
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = planSchema.safeParse(body);
+    if (!parsed.success) {
+        return NextResponse.json({
+            error: 'Invalid shift',
+            fields: Object.fromEntries(parsed.error.issues.map(issue => [issue.path.join('.'), issue.message]))
+        }, { status: 400 });
+    }
+
+    try {
+        const plan = await new RoutePlannerService().planShift({
+            shiftDate: parsed.data.shift_date,
+            shiftStart: parsed.data.shift_start,
+            shiftEnd: parsed.data.shift_end,
+            fleetIds: parsed.data.fleet_ids,
+            includeUnassigned: parsed.data.include_unassigned,
+            createdBy: planner.user.id,
+        });
+
+        return NextResponse.json({ success: true, data: plan });
+    } catch (e: any) {
+        console.error('Route Plan Error:', e);
+        return NextResponse.json({ error: e.message || 'Failed to plan routes' }, { status: 500 });
+    }
+}
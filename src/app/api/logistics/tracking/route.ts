@@ -0,0 +1,75 @@
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { TrackingError, TransporterTrackingService } from '@/lib/services/transporter-tracking';
+
+const DISPATCH_ROLES = ['admin', 'super_admin', 'manager', 'staff'];
+
+const dismissSchema = z.object({
+    alert_id: z.string().uuid(),
+});
+
+async function getSupabase() {
+    const cookieStore = await cookies();
+    return createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                get(name: string) {
+                    return cookieStore.get(name)?.value;
+                },
+            },
+        }
+    );
+}
+
+async function getDispatcher() {
+    const supabase = await getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+
+    if (!DISPATCH_ROLES.includes(session.user.app_metadata?.app_role)) {
+        return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+    }
+
+    return { user: session.user };
+}
+
+// Every vehicle's latest fix, and riders who stopped pinging mid-job
+export async function GET() {
+    const dispatcher = await getDispatcher();
+    if (dispatcher.error) return dispatcher.error;
+
+    try {
+        const tracking = await new TransporterTrackingService().getLiveOverview();
+        return NextResponse.json({ data: tracking });
+    } catch (e: any) {
+        console.error('Live Tracking Error:', e);
+        return NextResponse.json({ error: e.message || 'Failed to load live tracking' }, { status: 500 });
+    }
+}
+
+// Dismiss a tracking alert once dispatch has reached the rider
+export async function PATCH(request: Request) {
+    const dispatcher = await getDispatcher();
+    if (dispatcher.error) return dispatcher.error;
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = dismissSchema.safeParse(body);
+    if (!parsed.success) {
+        return NextResponse.json({ error: 'alert_id is required' }, { status: 400 });
+    }
+
+    try {
+        await new TransporterTrackingService().dismissAlert(parsed.data.alert_id, dispatcher.user.id);
+        return NextResponse.json({ success: true });
+    } catch (e: any) {
+        if (e instanceof TrackingError) {
+            return NextResponse.json({ error: e.code }, { status: e.status });
+        }
+        console.error('Live Tracking Error:', e);
+        return NextResponse.json({ error: e.message || 'Failed to dismiss alert' }, { status: 500 });
+    }
+}
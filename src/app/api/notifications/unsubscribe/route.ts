@@ -0,0 +1,74 @@
+import { NextRequest } from 'next/server';
+import { verifyUnsubscribeToken } from '@/lib/notifications/unsubscribe';
+import { NotificationPreferencesService } from '@/lib/services/notification-preferences';
+
+const CHANNEL_LABELS: Record<string, string> = {
+  push: 'app notifications',
+  whatsapp: 'WhatsApp messages',
+  sms: 'SMS messages',
+  email: 'emails',
+};
+
+function htmlPage(title: string, body: string, status = 200) {
+  return new Response(
+    `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${title}</title></head>
+<body style="font-family: Arial, sans-serif; max-width: 480px; margin: 48px auto; padding: 0 16px; color: #111827;">
+  <h1 style="font-size: 20px;">${title}</h1>
+  ${body}
+</body>
+</html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+  );
+}
+
+/**
+ * Confirmation page. Opting out happens on POST, so link scanners that prefetch the URL
+ * cannot unsubscribe anyone.
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token') || '';
+  const payload = verifyUnsubscribeToken(token);
+
+  if (!payload) {
+    return htmlPage('Link not valid', '<p>This unsubscribe link is not valid. You can manage notifications from your profile in the JamesTronic app.</p>', 400);
+  }
+
+  const label = CHANNEL_LABELS[payload.channel] || `${payload.channel} notifications`;
+  return htmlPage(
+    'Unsubscribe',
+    `<p>Stop receiving repair updates as ${label}?</p>
+  <form method="POST" action="/api/notifications/unsubscribe?token=${encodeURIComponent(token)}">
+    <button type="submit" style="background: #2563eb; color: #fff; border: 0; border-radius: 6px; padding: 10px 16px; font-size: 14px;">Unsubscribe</button>
+  </form>`
+  );
+}
+
+/**
+ * Opt the customer out of the token's channel. Also the RFC 8058 one-click endpoint used by mail clients.
+ */
+export async function POST(request: NextRequest) {
+  const payload = verifyUnsubscribeToken(request.nextUrl.searchParams.get('token') || '');
+
+  if (!payload) {
+    return htmlPage('Link not valid', '<p>This unsubscribe link is not valid.</p>', 400);
+  }
+
+  try {
+    await new NotificationPreferencesService().optOut(payload.customer_id, payload.channel, {
+      source: 'unsubscribe_link',
+      ip_address: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+      user_agent: request.headers.get('user-agent')
+    });
+  } catch (error) {
+    console.error('Error processing unsubscribe:', error);
+    return htmlPage('Something went wrong', '<p>We could not update your preferences. Please try again.</p>', 500);
+  }
+
+  const label = CHANNEL_LABELS[payload.channel] || `${payload.channel} notifications`;
+  return htmlPage(
+    'You have been unsubscribed',
+    `<p>You will no longer receive repair updates as ${label}. You can turn them back on from your notification preferences in the JamesTronic app.</p>`
+  );
+}
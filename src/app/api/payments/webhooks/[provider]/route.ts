@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { getPaymentGatewayByProvider, PaymentWebhookSignatureError } from '@/lib/payments/gateways';
+import { TicketPaymentService } from '@/lib/services/ticket-payments';
+
+// Gateway webhooks settle pending ledger entries. The body is verified against the provider's
+// signature before anything is read from it; redeliveries of the same event are no-ops.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params;
+  const gateway = getPaymentGatewayByProvider(provider);
+
+  if (!gateway) {
+    return new Response(
+      JSON.stringify({ error: 'Unknown payment provider' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const rawBody = await request.text();
+    const result = await new TicketPaymentService(undefined, gateway).handleWebhook(rawBody, request.headers);
+
+    console.log(`[Payments Webhook API] ${provider}: ${result.outcome}`, result.entry_id ?? '');
+
+    return new Response(JSON.stringify({ success: true, ...result }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (error instanceof PaymentWebhookSignatureError) {
+      console.warn(`[Payments Webhook API] Rejected ${provider} webhook: ${error.message}`);
+      return new Response(
+        JSON.stringify({ success: false, error: error.message }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // A 5xx makes the gateway redeliver, which is what we want for database errors
+    console.error('[Payments Webhook API] Error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -36,7 +36,26 @@ export async function GET(request: NextRequest) {
             .limit(50);
 
         if (city_id) query = query.eq('city_id', city_id);
-        if (quote_id) query = query.eq('quote_id', quote_id);
+        if (quote_id) {
+            // Events for every revision of the quote, not only the one asked for
+            const { data: quote } = await supabase
+                .from('pricing_quotes')
+                .select('id, root_quote_id')
+                .eq('id', quote_id)
+                .maybeSingle();
+
+            const rootId = quote?.root_quote_id || quote?.id;
+            if (rootId) {
+                const { data: chain } = await supabase
+                    .from('pricing_quotes')
+                    .select('id')
+                    .or(`id.eq.${rootId},root_quote_id.eq.${rootId}`);
+
+                query = query.in('quote_id', (chain || []).map(q => q.id).concat(quote_id));
+            } else {
+                query = query.eq('quote_id', quote_id);
+            }
+        }
 
         const { data, error } = await query;
 
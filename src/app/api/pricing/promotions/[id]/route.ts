@@ -0,0 +1,99 @@
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { getPricingEngineDb } from '@/lib/pricing/engine-db';
+import { parsePromoCampaignInput, PromoCampaign, validatePromoCampaign } from '@/lib/pricing/promotions';
+
+// Update a campaign, including pausing it (is_active: false). The code and kind cannot change once
+// created, since redemptions and referral codes refer to them.
+export async function PATCH(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                get(name: string) {
+                    return cookieStore.get(name)?.value;
+                },
+            },
+        }
+    );
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const user = session.user;
+    const role = user.app_metadata?.app_role;
+    const userCity = user.app_metadata?.city_id;
+    const isAdmin = ['admin', 'super_admin'].includes(role);
+
+    if (!isAdmin && role !== 'manager') {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const changes = parsePromoCampaignInput(body);
+    delete changes.code;
+    delete changes.kind;
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+    if (!reason) {
+        return NextResponse.json({ error: 'Missing required field: reason' }, { status: 400 });
+    }
+
+    try {
+        const db = getPricingEngineDb();
+        const { data: current, error: currentError } = await db
+            .from('pricing_promo_campaigns')
+            .select('*')
+            .eq('id', id)
+            .maybeSingle();
+
+        if (currentError) throw currentError;
+        if (!current) return NextResponse.json({ error: 'campaign_not_found' }, { status: 404 });
+
+        const campaign = current as PromoCampaign;
+
+        // Managers only manage their own city's campaigns and cannot widen them to other cities
+        if (!isAdmin) {
+            const ownCity = campaign.city_ids?.length === 1 && campaign.city_ids[0] === userCity;
+            if (!ownCity) {
+                return NextResponse.json({ error: 'Forbidden: Campaign is not scoped to your city' }, { status: 403 });
+            }
+            delete changes.city_ids;
+        }
+
+        const errors = validatePromoCampaign({ ...campaign, ...changes });
+        if (Object.keys(errors).length > 0) {
+            return NextResponse.json({ error: 'Invalid campaign', fields: errors }, { status: 400 });
+        }
+
+        const { data, error } = await db
+            .from('pricing_promo_campaigns')
+            .update({ ...changes, updated_by: user.id, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        await db.from('pricing_audit_log').insert({
+            event_type: changes.is_active === false && campaign.is_active ? 'PROMO_CAMPAIGN_PAUSED' : 'PROMO_CAMPAIGN_UPDATED',
+            city_id: isAdmin ? null : userCity,
+            actor_id: user.id,
+            actor_role: role,
+            payload: { campaign_id: id, code: campaign.code, before: campaign, changes },
+            explanation: reason
+        });
+
+        return NextResponse.json({ success: true, data });
+    } catch (e: any) {
+        console.error('Promo Campaign Error:', e);
+        return NextResponse.json({ error: e.message || 'Failed to update campaign' }, { status: 500 });
+    }
+}
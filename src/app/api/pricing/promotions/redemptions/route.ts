@@ -0,0 +1,55 @@
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+
+const MAX_ROWS = 200;
+
+// Recent redemptions and referral credits, optionally for one campaign. RLS scopes managers to their city.
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const campaignId = searchParams.get('campaign_id');
+
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                get(name: string) {
+                    return cookieStore.get(name)?.value;
+                },
+            },
+        }
+    );
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const role = session.user.app_metadata?.app_role;
+    if (!['manager', 'admin', 'super_admin'].includes(role)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    let redemptionsQuery = supabase
+        .from('pricing_promo_redemptions')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(MAX_ROWS);
+
+    let creditsQuery = supabase
+        .from('pricing_referral_credits')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(MAX_ROWS);
+
+    if (campaignId) {
+        redemptionsQuery = redemptionsQuery.eq('campaign_id', campaignId);
+        creditsQuery = creditsQuery.eq('campaign_id', campaignId);
+    }
+
+    const [redemptions, credits] = await Promise.all([redemptionsQuery, creditsQuery]);
+    if (redemptions.error) return NextResponse.json({ error: redemptions.error.message }, { status: 500 });
+    if (credits.error) return NextResponse.json({ error: credits.error.message }, { status: 500 });
+
+    return NextResponse.json({ redemptions: redemptions.data || [], referral_credits: credits.data || [] });
+}
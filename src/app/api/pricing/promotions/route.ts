@@ -0,0 +1,133 @@
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { getPricingEngineDb } from '@/lib/pricing/engine-db';
+import { parsePromoCampaignInput, validatePromoCampaign } from '@/lib/pricing/promotions';
+
+async function getSupabase() {
+    const cookieStore = await cookies();
+    return createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                get(name: string) {
+                    return cookieStore.get(name)?.value;
+                },
+            },
+        }
+    );
+}
+
+// Campaigns with their redemption counts. RLS limits managers to campaigns that include their city.
+export async function GET() {
+    const supabase = await getSupabase();
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const role = session.user.app_metadata?.app_role;
+    if (!['manager', 'admin', 'super_admin'].includes(role)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { data: campaigns, error } = await supabase
+        .from('pricing_promo_campaigns')
+        .select('*')
+        .order('is_active', { ascending: false })
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const { data: redemptions, error: redemptionsError } = await supabase
+        .from('pricing_promo_redemptions')
+        .select('campaign_id, status, discount_amount')
+        .eq('status', 'redeemed');
+
+    if (redemptionsError) {
+        return NextResponse.json({ error: redemptionsError.message }, { status: 500 });
+    }
+
+    const totals = new Map<string, { redeemed: number; discount_total: number }>();
+    for (const redemption of redemptions || []) {
+        const total = totals.get(redemption.campaign_id) || { redeemed: 0, discount_total: 0 };
+        total.redeemed += 1;
+        total.discount_total += Number(redemption.discount_amount) || 0;
+        totals.set(redemption.campaign_id, total);
+    }
+
+    return NextResponse.json({
+        data: (campaigns || []).map(campaign => ({
+            ...campaign,
+            ...(totals.get(campaign.id) || { redeemed: 0, discount_total: 0 }),
+        }))
+    });
+}
+
+// Create a campaign. Managers create campaigns for their own city only; admins may target any cities.
+export async function POST(request: Request) {
+    const supabase = await getSupabase();
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const user = session.user;
+    const role = user.app_metadata?.app_role;
+    const userCity = user.app_metadata?.city_id;
+
+    const body = await request.json().catch(() => ({}));
+    const input = {
+        kind: 'promo' as const,
+        stacking: 'exclusive' as const,
+        max_redemptions_per_customer: 1,
+        first_time_only: false,
+        is_active: true,
+        ...parsePromoCampaignInput(body),
+    };
+
+    if (role === 'manager') {
+        if (!userCity) {
+            return NextResponse.json({ error: 'Manager has no assigned city' }, { status: 400 });
+        }
+        input.city_ids = [userCity];
+    } else if (!['admin', 'super_admin'].includes(role)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const errors = validatePromoCampaign(input);
+    if (Object.keys(errors).length > 0) {
+        return NextResponse.json({ error: 'Invalid campaign', fields: errors }, { status: 400 });
+    }
+
+    try {
+        const db = getPricingEngineDb();
+        const { data, error } = await db
+            .from('pricing_promo_campaigns')
+            .insert({ ...input, created_by: user.id, updated_by: user.id })
+            .select()
+            .single();
+
+        if (error) {
+            if (error.code === '23505') {
+                return NextResponse.json({ error: 'A campaign with this code already exists' }, { status: 409 });
+            }
+            throw error;
+        }
+
+        await db.from('pricing_audit_log').insert({
+            event_type: 'PROMO_CAMPAIGN_CREATED',
+            city_id: role === 'manager' ? userCity : null,
+            actor_id: user.id,
+            actor_role: role,
+            payload: data,
+            explanation: `Created ${data.kind} campaign ${data.code}`
+        });
+
+        return NextResponse.json({ success: true, data });
+    } catch (e: any) {
+        console.error('Promo Campaign Error:', e);
+        return NextResponse.json({ error: e.message || 'Failed to create campaign' }, { status: 500 });
+    }
+}
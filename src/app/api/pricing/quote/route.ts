@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
+import { parsePromoCodes } from '@/lib/pricing/promotions';
 
 export const dynamic = 'force-dynamic';
 
@@ -29,9 +30,11 @@ export async function POST(request: NextRequest) {
 
         // 4. Parse Body
         const body = await request.json();
-        const { city_id, service_code, customer_id, parts_cost, urgency, complexity, promo_code } = body;
+        const { city_id, service_code, customer_id, parts_cost, urgency, complexity, promo_code, device_brand } = body;
+        // One code, several comma-separated, or promo_codes[]; stacking is resolved by evaluate_pricing_promotions
+        const promoCodes = parsePromoCodes(body.promo_codes ?? promo_code);
 
-        // 5. Call RPC
+        // 5. Call RPC (prices the quote, takes the promotion discount off the total and reserves the codes)
         const { data, error } = await supabase.rpc('rpc_c21_quote_price', {
             p_city_id: city_id,
             p_service_code: service_code,
@@ -39,7 +42,8 @@ export async function POST(request: NextRequest) {
             p_parts_cost: parts_cost || 0,
             p_urgency: urgency || 'standard',
             p_complexity: complexity || 'standard',
-            p_promo_code: promo_code || null
+            p_promo_codes: promoCodes.length ? promoCodes : null,
+            p_device_brand: device_brand || null
         });
 
         if (error) {
@@ -53,6 +57,7 @@ export async function POST(request: NextRequest) {
             return NextResponse.json(data, { status: 400 });
         }
 
+        // data.promotions lists the applied codes and the rejected ones with a reason for the customer
         return NextResponse.json(data);
 
     } catch (error: any) {
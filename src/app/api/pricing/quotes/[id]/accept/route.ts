@@ -1,6 +1,34 @@
 import { createServerClient } from '@supabase/ssr';
+import { SupabaseClient } from '@supabase/supabase-js';
 import { cookies } from 'next/headers';
 import { NextResponse } from 'next/server';
+import { getAdminClient } from '@/lib/supabase/admin';
+
+// Customers on a share link may have no profile linked to the quote: the token stands in for it.
+// Redeeming it again with their session proves they still hold a valid link, then the decline is
+// applied with the service role against the shared quote's chain.
+async function declineWithShareToken(
+    supabase: SupabaseClient,
+    token: string,
+    quoteId: string,
+    userId: string,
+    declined: string[]
+) {
+    const { data: shared, error } = await supabase.rpc('redeem_quote_share_token', { p_token: token });
+    if (error || !shared?.quote?.id) {
+        return { error: { message: `forbidden: ${error?.message || 'invalid share token'}` } };
+    }
+
+    const admin = getAdminClient();
+    if (!admin) return { error: { message: 'Server Misconfiguration' } };
+
+    return admin.rpc('decline_shared_pricing_quote_line_items', {
+        p_shared_quote_id: shared.quote.id,
+        p_quote_id: quoteId,
+        p_line_item_codes: declined,
+        p_actor_id: userId
+    });
+}
 
 export async function POST(
     request: Request,
@@ -26,6 +54,30 @@ export async function POST(
     const body = await request.json().catch(() => ({}));
     const reason = body.reason || null;
 
+    // Optional line items the customer declines are applied first so the accepted total excludes them
+    if (Array.isArray(body.declined_line_items)) {
+        const { error: declineError } = body.share_token
+            ? await declineWithShareToken(supabase, body.share_token, quoteId, session.user.id, body.declined_line_items)
+            : await supabase.rpc('decline_pricing_quote_line_items', {
+                p_quote_id: quoteId,
+                p_line_item_codes: body.declined_line_items
+            });
+
+        if (declineError) {
+            console.error('Decline RPC Error:', declineError);
+            const msg = declineError.message || 'Declining line items failed';
+            const code =
+                msg.includes('forbidden') ? 403 :
+                    msg.includes('unauthorized') ? 401 :
+                        msg.includes('quote_not_found') ? 404 :
+                            msg.includes('quote_expired') ? 410 :
+                                msg.includes('invalid_line_items') ? 400 :
+                                    msg.includes('invalid_status') || msg.includes('quote_superseded') ? 409 : 500;
+
+            return NextResponse.json({ error: msg }, { status: code });
+        }
+    }
+
     // Call accept RPC
     const { data, error } = await supabase.rpc('accept_pricing_quote', {
         p_quote_id: quoteId,
@@ -0,0 +1,86 @@
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+
+async function getSupabase() {
+    const cookieStore = await cookies();
+    return createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                get(name: string) {
+                    return cookieStore.get(name)?.value;
+                },
+            },
+        }
+    );
+}
+
+function errorStatus(msg: string) {
+    return msg.includes('forbidden') ? 403 :
+        msg.includes('unauthorized') ? 401 :
+            msg.includes('quote_not_found') ? 404 :
+                msg.includes('quote_superseded') ? 409 :
+                    msg.includes('invalid_status') ? 409 :
+                        msg.includes('invalid_line_items') ? 400 : 500;
+}
+
+// All revisions in the quote's chain, oldest first (staff, or the quote's customer)
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const supabase = await getSupabase();
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { id: quoteId } = await params;
+
+    const { data, error } = await supabase.rpc('get_pricing_quote_revisions', {
+        p_quote_id: quoteId
+    });
+
+    if (error) {
+        console.error('Revisions RPC Error:', error);
+        const msg = error.message || 'Failed to load revisions';
+        return NextResponse.json({ error: msg }, { status: errorStatus(msg) });
+    }
+
+    return NextResponse.json({ data: data || [] });
+}
+
+// Create the next revision from a full list of line items
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const supabase = await getSupabase();
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { id: quoteId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { line_items, reason } = body;
+
+    if (!Array.isArray(line_items) || line_items.length === 0 || !reason?.trim()) {
+        return NextResponse.json({ error: 'Missing required fields: line_items, reason' }, { status: 400 });
+    }
+
+    // Line items are validated and the total recomputed in the RPC
+    const { data, error } = await supabase.rpc('create_pricing_quote_revision', {
+        p_quote_id: quoteId,
+        p_line_items: line_items,
+        p_reason: reason
+    });
+
+    if (error) {
+        console.error('Revision RPC Error:', error);
+        const msg = error.message || 'Quote revision failed';
+        return NextResponse.json({ error: msg }, { status: errorStatus(msg) });
+    }
+
+    return NextResponse.json(data);
+}
@@ -1,7 +1,48 @@
-
 import { createClient } from '@/lib/supabase/server';
+import { getAdminClient } from '@/lib/supabase/admin';
 import { NextResponse } from 'next/server';
 
+// What the share page renders of each revision; nothing internal such as rate or guardrail snapshots
+const SHARED_REVISION_COLUMNS = [
+    'id', 'service_code', 'status', 'expires_at', 'reason_codes',
+    'labor_amount', 'parts_amount', 'transport_amount', 'diagnostic_amount',
+    'urgency_surcharge', 'complexity_surcharge', 'discount_amount', 'tax_amount', 'total_amount', 'breakdown',
+    'root_quote_id', 'revision_of', 'revision_number', 'superseded_by', 'revision_reason',
+    'line_items', 'declined_line_items',
+].join(', ');
+
+// Every revision in the shared quote's chain, oldest first. Read with the service role: the
+// token has already been checked, and the customer may have no profile linked to the quote.
+async function getSharedQuoteRevisions(quoteId: string) {
+    const admin = getAdminClient();
+    if (!admin) return [];
+
+    const { data: quote, error } = await admin
+        .from('pricing_quotes')
+        .select('id, root_quote_id')
+        .eq('id', quoteId)
+        .maybeSingle();
+
+    if (error || !quote) {
+        if (error) console.error('Shared Quote Revisions Error:', error);
+        return [];
+    }
+
+    const rootId = quote.root_quote_id || quote.id;
+    const { data: chain, error: chainError } = await admin
+        .from('pricing_quotes')
+        .select(SHARED_REVISION_COLUMNS)
+        .or(`id.eq.${rootId},root_quote_id.eq.${rootId}`)
+        .order('revision_number', { ascending: true });
+
+    if (chainError) {
+        console.error('Shared Quote Revisions Error:', chainError);
+        return [];
+    }
+
+    return chain || [];
+}
+
 export async function POST(request: Request) {
     const supabase = await createClient(); // Authenticated session (Customer)
 
@@ -24,6 +65,8 @@ export async function POST(request: Request) {
         return NextResponse.json({ error: error.message }, { status: 400 });
     }
 
-    // 3. Return Quote DTO
-    return NextResponse.json(data);
+    // 3. Return Quote DTO, with the revisions issued since the link was shared
+    const revisions = data?.quote?.id ? await getSharedQuoteRevisions(data.quote.id) : [];
+
+    return NextResponse.json({ ...data, revisions });
 }
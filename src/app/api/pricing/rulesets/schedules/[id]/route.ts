@@ -0,0 +1,61 @@
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+
+function errorStatus(msg: string) {
+    return msg.includes('forbidden') ? 403 :
+        msg.includes('unauthorized') ? 401 :
+            msg.includes('schedule_not_found') ? 404 :
+                msg.includes('invalid_status') ? 409 : 500;
+}
+
+// Cancel a scheduled change before it starts, or roll back a live one.
+// Rollback of an activation reverts to the ruleset that was active before it.
+export async function POST(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                get(name: string) {
+                    return cookieStore.get(name)?.value;
+                },
+            },
+        }
+    );
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { id: scheduleId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const { action, reason } = body;
+
+    let result;
+    if (action === 'cancel') {
+        result = await supabase.rpc('cancel_pricing_schedule', {
+            p_schedule_id: scheduleId,
+            p_reason: reason || null
+        });
+    } else if (action === 'rollback') {
+        // The RPC decides whether a manager may roll back (own city override, or breached health)
+        result = await supabase.rpc('rollback_pricing_schedule', {
+            p_schedule_id: scheduleId,
+            p_reason: reason || null
+        });
+    } else {
+        return NextResponse.json({ error: "action must be 'cancel' or 'rollback'" }, { status: 400 });
+    }
+
+    if (result.error) {
+        console.error('Schedule Action RPC Error:', result.error);
+        const msg = result.error.message || 'Schedule update failed';
+        return NextResponse.json({ error: msg }, { status: errorStatus(msg) });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+}
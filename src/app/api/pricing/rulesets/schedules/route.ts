@@ -0,0 +1,157 @@
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { getPricingEngineDb } from '@/lib/pricing/engine-db';
+import { TimelineRuleset } from '@/lib/pricing/schedules';
+
+const MAX_SCHEDULES = 200;
+
+async function getSupabase() {
+    const cookieStore = await cookies();
+    return createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                get(name: string) {
+                    return cookieStore.get(name)?.value;
+                },
+            },
+        }
+    );
+}
+
+function errorStatus(msg: string) {
+    return msg.includes('forbidden') ? 403 :
+        msg.includes('unauthorized') ? 401 :
+            msg.includes('not_found') ? 404 :
+                msg.includes('schedule_overlap') ? 409 :
+                    msg.includes('invalid_status') ? 409 :
+                        msg.includes('reason_too_short') ? 400 :
+                            msg.includes('invalid_window') ? 400 :
+                                msg.includes('invalid_rules_patch') ? 400 : 500;
+}
+
+function optionalNumber(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const num = Number(value);
+    return Number.isFinite(num) ? num : null;
+}
+
+// Scheduled activations and overrides, with live health for active ones and the rulesets'
+// activation times for the timeline. RLS limits managers to global activations and their city.
+export async function GET() {
+    const supabase = await getSupabase();
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const { data: schedules, error } = await supabase
+        .from('pricing_ruleset_schedules')
+        .select('*')
+        .order('starts_at', { ascending: false })
+        .limit(MAX_SCHEDULES);
+
+    if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    try {
+        // Service role: managers cannot read inactive rulesets through RLS, but need their versions
+        const db = getPricingEngineDb();
+        const { data: rulesets, error: rulesetsError } = await db
+            .from('pricing_rulesets')
+            .select('id, version, activated_at');
+        if (rulesetsError) throw rulesetsError;
+
+        const timelineRulesets = (rulesets || []) as TimelineRuleset[];
+        const versions = new Map(timelineRulesets.map(ruleset => [ruleset.id, ruleset.version]));
+
+        const data = await Promise.all((schedules || []).map(async schedule => {
+            let health = null;
+            if (schedule.status === 'active') {
+                const { data: result, error: healthError } = await supabase.rpc('get_pricing_schedule_health', {
+                    p_schedule_id: schedule.id
+                });
+                if (healthError) console.error('Schedule Health Error:', healthError);
+                health = result ?? null;
+            }
+            return {
+                ...schedule,
+                ruleset_version: schedule.ruleset_id ? versions.get(schedule.ruleset_id) ?? null : null,
+                previous_ruleset_version: schedule.previous_ruleset_id ? versions.get(schedule.previous_ruleset_id) ?? null : null,
+                health,
+            };
+        }));
+
+        return NextResponse.json({ data, rulesets: timelineRulesets });
+    } catch (e: any) {
+        console.error('Schedules Error:', e);
+        return NextResponse.json({ error: e.message || 'Failed to load schedules' }, { status: 500 });
+    }
+}
+
+// Schedule a ruleset activation (admins) or a temporary override (admins, or managers in their city)
+export async function POST(request: Request) {
+    const supabase = await getSupabase();
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const role = session.user.app_metadata?.app_role;
+    const userCity = session.user.app_metadata?.city_id;
+
+    const body = await request.json().catch(() => ({}));
+    const { kind, ruleset_id, service_code, rules_patch, starts_at, ends_at, reason } = body;
+    const thresholds = {
+        p_max_guardrail_breach_pct: optionalNumber(body.max_guardrail_breach_pct),
+        p_min_acceptance_pct: optionalNumber(body.min_acceptance_pct),
+    };
+
+    if (!starts_at || !reason) {
+        return NextResponse.json({ error: 'Missing required fields: starts_at, reason' }, { status: 400 });
+    }
+
+    let result;
+    if (kind === 'activation') {
+        // Keep API check (fast fail), DB also enforces.
+        if (!['admin', 'super_admin'].includes(role)) {
+            return NextResponse.json({ error: 'Forbidden: Only admins can schedule ruleset activations' }, { status: 403 });
+        }
+        if (!ruleset_id) {
+            return NextResponse.json({ error: 'Missing required field: ruleset_id' }, { status: 400 });
+        }
+        result = await supabase.rpc('schedule_pricing_ruleset_activation', {
+            p_ruleset_id: ruleset_id,
+            p_starts_at: starts_at,
+            p_ends_at: ends_at || null,
+            p_reason: reason,
+            ...thresholds
+        });
+    } else if (kind === 'override') {
+        const cityId = role === 'manager' ? userCity : body.city_id;
+        if (!cityId || !ends_at || !rules_patch || typeof rules_patch !== 'object' || Array.isArray(rules_patch)) {
+            return NextResponse.json({ error: 'Missing required fields: city_id, ends_at, rules_patch' }, { status: 400 });
+        }
+        result = await supabase.rpc('schedule_pricing_override', {
+            p_city_id: cityId,
+            p_service_code: service_code || null,
+            p_rules_patch: rules_patch,
+            p_starts_at: starts_at,
+            p_ends_at: ends_at,
+            p_priority: Number(body.priority) || 0,
+            p_reason: reason,
+            ...thresholds
+        });
+    } else {
+        return NextResponse.json({ error: "kind must be 'activation' or 'override'" }, { status: 400 });
+    }
+
+    if (result.error) {
+        console.error('Schedule RPC Error:', result.error);
+        const msg = result.error.message || 'Scheduling failed';
+        return NextResponse.json({ error: msg }, { status: errorStatus(msg) });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+}
@@ -0,0 +1,198 @@
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { getPricingEngineDb } from '@/lib/pricing/engine-db';
+import {
+    HistoricalQuote,
+    parseSimulationRules,
+    runPricingSimulation,
+    SimulationBaseRate,
+    SimulationGuardrail,
+    SimulationRules,
+} from '@/lib/pricing/simulator';
+
+const MAX_DAYS = 90;
+const MAX_QUOTES = 5000;
+
+// Replay the last N days of quotes against a ruleset plus optional draft base rates and guardrails.
+// Read-only: nothing is activated or written except the audit entry.
+export async function POST(request: Request) {
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                get(name: string) {
+                    return cookieStore.get(name)?.value;
+                },
+            },
+        }
+    );
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    const user = session.user;
+    const role = user.app_metadata?.app_role;
+    const userCity = user.app_metadata?.city_id;
+
+    const body = await request.json().catch(() => ({}));
+    const { ruleset_id, city_id } = body;
+    const days = Number(body.days ?? 30);
+    const baseRateOverrides: SimulationBaseRate[] = (Array.isArray(body.base_rates) ? body.base_rates : []).map((rate: any) => ({
+        city_id: rate.city_id,
+        service_code: rate.service_code,
+        labor_base: Number(rate.labor_base) || 0,
+        diagnostic_fee: Number(rate.diagnostic_fee) || 0,
+        transport_base: Number(rate.transport_base) || 0,
+        parts_markup_pct: Number(rate.parts_markup_pct) || 0,
+    }));
+    const guardrailOverrides: SimulationGuardrail[] = (Array.isArray(body.guardrails) ? body.guardrails : []).map((guardrail: any) => ({
+        city_id: guardrail.city_id,
+        service_code: guardrail.service_code,
+        min_total: Number(guardrail.min_total) || 0,
+        max_total: Number(guardrail.max_total) || 0,
+        max_discount_pct: Number(guardrail.max_discount_pct) || 0,
+        max_surge_pct: Number(guardrail.max_surge_pct) || 0,
+        floor_margin_pct: Number(guardrail.floor_margin_pct) || 0,
+        is_enabled: guardrail.is_enabled !== false,
+    }));
+
+    if (!ruleset_id) {
+        return NextResponse.json({ error: 'Missing required field: ruleset_id' }, { status: 400 });
+    }
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+        return NextResponse.json({ error: `days must be between 1 and ${MAX_DAYS}` }, { status: 400 });
+    }
+
+    // City resolution: managers only ever replay their own city
+    let cityIdToUse: string | null = null;
+    if (role === 'manager') {
+        if (!userCity) {
+            return NextResponse.json({ error: 'Manager has no assigned city' }, { status: 400 });
+        }
+        cityIdToUse = userCity;
+    } else if (['admin', 'super_admin'].includes(role)) {
+        cityIdToUse = city_id || null;
+    } else {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const outOfScope = [...baseRateOverrides, ...guardrailOverrides].some(
+        override => !override.city_id || !override.service_code || (cityIdToUse && override.city_id !== cityIdToUse)
+    );
+    if (outOfScope) {
+        return NextResponse.json({ error: 'Draft base rates and guardrails need a city_id and service_code in scope' }, { status: 400 });
+    }
+
+    try {
+        // Service role: managers cannot read draft rulesets through RLS
+        const db = getPricingEngineDb();
+        const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+        const { data: ruleset, error: rulesetError } = await db
+            .from('pricing_rulesets')
+            .select('id, version, rules')
+            .eq('id', ruleset_id)
+            .maybeSingle();
+
+        if (rulesetError) throw rulesetError;
+        if (!ruleset) return NextResponse.json({ error: 'ruleset_not_found' }, { status: 404 });
+
+        let quotesQuery = db
+            .from('pricing_quotes')
+            .select('id, quote_key, city_id, service_code, ruleset_id, labor_amount, parts_cost, urgency_surcharge, complexity_surcharge, discount_amount, tax_amount, total_amount, created_at')
+            .gte('created_at', since)
+            .is('superseded_by', null)
+            .order('created_at', { ascending: false })
+            .limit(MAX_QUOTES);
+
+        let ratesQuery = db
+            .from('pricing_base_rates')
+            .select('city_id, service_code, labor_base, diagnostic_fee, transport_base, parts_markup_pct')
+            .is('effective_to', null);
+
+        let guardrailsQuery = db
+            .from('pricing_guardrails')
+            .select('city_id, service_code, min_total, max_total, max_discount_pct, max_surge_pct, floor_margin_pct, is_enabled')
+            .is('effective_to', null);
+
+        if (cityIdToUse) {
+            quotesQuery = quotesQuery.eq('city_id', cityIdToUse);
+            ratesQuery = ratesQuery.eq('city_id', cityIdToUse);
+            guardrailsQuery = guardrailsQuery.eq('city_id', cityIdToUse);
+        }
+
+        const [quotesResult, ratesResult, guardrailsResult] = await Promise.all([quotesQuery, ratesQuery, guardrailsQuery]);
+        if (quotesResult.error) throw quotesResult.error;
+        if (ratesResult.error) throw ratesResult.error;
+        if (guardrailsResult.error) throw guardrailsResult.error;
+
+        const quotes = (quotesResult.data || []) as HistoricalQuote[];
+
+        // Rules of the rulesets the quotes were priced with, to infer their urgency and complexity
+        const historicalIds = Array.from(new Set(quotes.map(quote => quote.ruleset_id).filter(Boolean)));
+        const historicalRules: Record<string, SimulationRules> = {};
+        if (historicalIds.length > 0) {
+            const { data: rulesets, error } = await db
+                .from('pricing_rulesets')
+                .select('id, rules')
+                .in('id', historicalIds);
+            if (error) throw error;
+            for (const item of rulesets || []) historicalRules[item.id] = parseSimulationRules(item.rules);
+        }
+
+        // Draft revisions replace the current row for the same city and service
+        const merge = <T extends { city_id: string; service_code: string }>(current: T[], drafts: T[]): T[] => {
+            const draftKeys = new Set(drafts.map(draft => `${draft.city_id}:${draft.service_code}`));
+            return [...current.filter(row => !draftKeys.has(`${row.city_id}:${row.service_code}`)), ...drafts];
+        };
+
+        const report = runPricingSimulation({
+            quotes: quotes.map(quote => ({
+                ...quote,
+                labor_amount: Number(quote.labor_amount) || 0,
+                parts_cost: Number(quote.parts_cost) || 0,
+                urgency_surcharge: Number(quote.urgency_surcharge) || 0,
+                complexity_surcharge: Number(quote.complexity_surcharge) || 0,
+                discount_amount: Number(quote.discount_amount) || 0,
+                tax_amount: Number(quote.tax_amount) || 0,
+                total_amount: Number(quote.total_amount) || 0,
+            })),
+            rules: parseSimulationRules(ruleset.rules),
+            historicalRules,
+            baseRates: merge((ratesResult.data || []) as SimulationBaseRate[], baseRateOverrides),
+            guardrails: merge((guardrailsResult.data || []) as SimulationGuardrail[], guardrailOverrides),
+        });
+
+        await db.from('pricing_audit_log').insert({
+            event_type: 'RULESET_SIMULATED',
+            city_id: cityIdToUse,
+            actor_id: user.id,
+            actor_role: role,
+            payload: {
+                ruleset_id,
+                ruleset_version: ruleset.version,
+                days,
+                base_rate_overrides: baseRateOverrides.length,
+                guardrail_overrides: guardrailOverrides.length,
+                summary: report.summary,
+                guardrail_hits: report.guardrail_hits,
+                skipped: report.skipped.length,
+            },
+            explanation: `Simulated ruleset ${ruleset.version} against ${report.summary.quote_count} quotes from the last ${days} days`
+        });
+
+        return NextResponse.json({
+            ruleset: { id: ruleset.id, version: ruleset.version },
+            days,
+            city_id: cityIdToUse,
+            truncated: quotes.length === MAX_QUOTES,
+            report,
+        });
+    } catch (e: any) {
+        console.error('Ruleset Simulation Error:', e);
+        return NextResponse.json({ error: e.message || 'Simulation failed' }, { status: 500 });
+    }
+}
@@ -0,0 +1,117 @@
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SchedulingError, TechnicianSchedulerService } from '@/lib/services/technician-scheduler';
+
+const DISPATCH_ROLES = ['admin', 'super_admin', 'manager', 'staff'];
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+const planSchema = z.object({
+    plan_date: dateSchema,
+});
+
+const moveSchema = z.object({
+    plan_date: dateSchema,
+    ticket_id: z.string().uuid(),
+    technician_id: z.string().uuid(),
+    start_at: z.string().datetime({ offset: true }),
+});
+
+async function getSupabase() {
+    const cookieStore = await cookies();
+    return createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                get(name: string) {
+                    return cookieStore.get(name)?.value;
+                },
+            },
+        }
+    );
+}
+
+async function getDispatcher() {
+    const supabase = await getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+
+    if (!DISPATCH_ROLES.includes(session.user.app_metadata?.app_role)) {
+        return { error: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+    }
+
+    return { user: session.user };
+}
+
+const invalid = (error: z.ZodError) => NextResponse.json({
+    error: 'Invalid request',
+    fields: Object.fromEntries(error.issues.map(issue => [issue.path.join('.'), issue.message]))
+}, { status: 400 });
+
+// Every technician's planned day (defaults to today) and the tickets that could not be placed
+export async function GET(request: Request) {
+    const dispatcher = await getDispatcher();
+    if (dispatcher.error) return dispatcher.error;
+
+    const date = new URL(request.url).searchParams.get('date') ?? new Date().toISOString().slice(0, 10);
+    const parsed = dateSchema.safeParse(date);
+    if (!parsed.success) {
+        return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 });
+    }
+
+    try {
+        const plan = await new TechnicianSchedulerService().getDayPlan(parsed.data);
+        return NextResponse.json({ data: plan });
+    } catch (e: any) {
+        console.error('Day Plan Error:', e);
+        return NextResponse.json({ error: e.message || 'Failed to load day plan' }, { status: 500 });
+    }
+}
+
+// Plan the day: lay out every open ticket across the technicians on shift
+export async function POST(request: Request) {
+    const dispatcher = await getDispatcher();
+    if (dispatcher.error) return dispatcher.error;
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = planSchema.safeParse(body);
+    if (!parsed.success) return invalid(parsed.error);
+
+    try {
+        const plan = await new TechnicianSchedulerService().planDay(parsed.data.plan_date, dispatcher.user.id);
+        return NextResponse.json({ success: true, data: plan });
+    } catch (e: any) {
+        console.error('Day Plan Error:', e);
+        return NextResponse.json({ error: e.message || 'Failed to plan the day' }, { status: 500 });
+    }
+}
+
+// Move a job on the calendar; refused with the constraints it would break
+export async function PATCH(request: Request) {
+    const dispatcher = await getDispatcher();
+    if (dispatcher.error) return dispatcher.error;
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = moveSchema.safeParse(body);
+    if (!parsed.success) return invalid(parsed.error);
+
+    try {
+        const plan = await new TechnicianSchedulerService().moveEntry({
+            planDate: parsed.data.plan_date,
+            ticketId: parsed.data.ticket_id,
+            technicianId: parsed.data.technician_id,
+            startAt: parsed.data.start_at,
+            movedBy: dispatcher.user.id,
+        });
+        return NextResponse.json({ success: true, data: plan });
+    } catch (e: any) {
+        if (e instanceof SchedulingError) {
+            return NextResponse.json({ error: e.code, ...e.details }, { status: e.status });
+        }
+        console.error('Day Plan Error:', e);
+        return NextResponse.json({ error: e.message || 'Failed to move job' }, { status: 500 });
+    }
+}
@@ -0,0 +1,59 @@
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SchedulingError, TechnicianSchedulerService } from '@/lib/services/technician-scheduler';
+
+const DISPATCH_ROLES = ['admin', 'super_admin', 'manager', 'staff'];
+
+const overrunSchema = z.object({
+    ticket_id: z.string().uuid(),
+    expected_end_at: z.string().datetime({ offset: true }),
+});
+
+async function getSupabase() {
+    const cookieStore = await cookies();
+    return createServerClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        {
+            cookies: {
+                get(name: string) {
+                    return cookieStore.get(name)?.value;
+                },
+            },
+        }
+    );
+}
+
+// A job will finish later than planned: re-plan the technician's later jobs around the new end
+export async function POST(request: Request) {
+    const supabase = await getSupabase();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+    if (!DISPATCH_ROLES.includes(session.user.app_metadata?.app_role)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = overrunSchema.safeParse(body);
+    if (!parsed.success) {
+        return NextResponse.json({ error: 'ticket_id and expected_end_at are required' }, { status: 400 });
+    }
+
+    try {
+        const result = await new TechnicianSchedulerService().reportOverrun(
+            parsed.data.ticket_id,
+            parsed.data.expected_end_at,
+            session.user.id
+        );
+        return NextResponse.json({ success: true, data: result.plan, moved: result.moved });
+    } catch (e: any) {
+        if (e instanceof SchedulingError) {
+            return NextResponse.json({ error: e.code }, { status: e.status });
+        }
+        console.error('Job Overrun Error:', e);
+        return NextResponse.json({ error: e.message || 'Failed to re-plan' }, { status: 500 });
+    }
+}
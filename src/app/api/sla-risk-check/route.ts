@@ -6,6 +6,8 @@ import { createClient } from '@/lib/supabase/server';
 import { cookies } from 'next/headers';
 import { checkAndTriggerSLARiskNotification, PauseResumeLog, VendorDelay } from '@/lib/utils/enhanced-sla-utils';
 import { PartRequest } from '@/lib/api/parts';
+import { BusinessCalendar, loadBusinessCalendars } from '@/lib/utils/business-hours';
+import { DEFAULT_SLA_POLICIES, loadSLAPolicies } from '@/lib/utils/sla-policy';
 
 // Define types for our data
 interface TicketWithCustomer {
@@ -27,7 +29,7 @@ export async function GET(request: NextRequest) {
     // Fetch all active tickets (not completed)
     const { data: tickets, error: ticketsError } = await supabase
       .from('tickets')
-      .select('id, customer_id, device_category, created_at, completed_at')
+      .select('id, customer_id, device_category, brand, city, dark_store_id, urgency_tier, customer_segment, created_at, completed_at')
       .is('completed_at', null) // Only non-completed tickets
       .gt('created_at', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString()); // Last 30 days
 
@@ -36,6 +38,22 @@ export async function GET(request: NextRequest) {
       return Response.json({ error: 'Failed to fetch tickets' }, { status: 500 });
     }
 
+    // Resolve targets against the configured SLA policies, not just the built-in defaults
+    let policies = DEFAULT_SLA_POLICIES;
+    try {
+      policies = await loadSLAPolicies(supabase);
+    } catch (policyError) {
+      console.error('Error loading SLA policies, using built-in policies:', policyError);
+    }
+
+    // Load working-hours calendars so the SLA clock only runs during business time
+    let calendars: BusinessCalendar[] = [];
+    try {
+      calendars = await loadBusinessCalendars(supabase);
+    } catch (calendarError) {
+      console.error('Error loading business calendars, using round-the-clock timing:', calendarError);
+    }
+
     let notificationsTriggered = 0;
 
     // Check each ticket for SLA risk and trigger notifications if needed
@@ -62,7 +80,8 @@ export async function GET(request: NextRequest) {
           ticket as any,
           pauseResumeLogs as PauseResumeLog[] || [],
           partRequests as PartRequest[] || [],
-          vendorDelays as VendorDelay[] || []
+          vendorDelays as VendorDelay[] || [],
+          { policies, calendars }
         );
 
         if (triggered) {
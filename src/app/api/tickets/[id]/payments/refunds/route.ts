@@ -0,0 +1,95 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { TicketPaymentService, ticketPaymentErrorStatus } from '@/lib/services/ticket-payments';
+
+// Create a Supabase client instance function
+function getSupabaseClient() {
+  const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new Error('Missing Supabase environment variables');
+  }
+
+  return createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    auth: {
+      persistSession: false,
+    },
+  });
+}
+
+// Refunds move money back to the customer, so only admins and managers may issue them
+async function getRefundApproverId(request: NextRequest) {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '');
+  if (!token) return null;
+
+  const supabase = getSupabaseClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+  if (authError || !user) return null;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('user_id', user.id)
+    .single();
+
+  return profile && ['admin', 'manager'].includes(profile.role) ? user.id : null;
+}
+
+// Zod schema for request validation
+const refundSchema = z.object({
+  amount: z.number().positive().optional(),
+  quotation_id: z.string().uuid('Quotation ID must be a valid UUID').optional(),
+  reason: z.string().trim().min(1, 'A reason is required'),
+});
+
+// Refund a ticket's payments, optionally against a rejected or cancelled quotation. Without an
+// amount everything refundable is returned.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: ticketId } = await params;
+    z.string().uuid('Ticket ID must be a valid UUID').parse(ticketId);
+
+    const approverId = await getRefundApproverId(request);
+    if (!approverId) {
+      return new Response(
+        JSON.stringify({ error: 'Insufficient permissions. Only admin or manager can issue refunds.' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body: unknown = await request.json();
+    const { amount, quotation_id, reason } = refundSchema.parse(body);
+
+    const refunds = await new TicketPaymentService().refund({
+      ticketId,
+      amount,
+      quotationId: quotation_id,
+      reason,
+      actorId: approverId,
+    });
+
+    return new Response(JSON.stringify({ success: true, refunds }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new Response(
+        JSON.stringify({ error: 'Validation failed', details: error.issues }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const status = ticketPaymentErrorStatus(error);
+    if (status === 500) console.error('Error refunding ticket payment:', error);
+    return new Response(
+      JSON.stringify({ error: status === 500 ? 'Internal server error' : (error as Error).message }),
+      { status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { TicketPaymentService, ticketPaymentErrorStatus } from '@/lib/services/ticket-payments';
+
+// Create a Supabase client instance function
+function getSupabaseClient() {
+  const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new Error('Missing Supabase environment variables');
+  }
+
+  return createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    auth: {
+      persistSession: false,
+    },
+  });
+}
+
+// Staff member behind the bearer token, or null if the caller is not admin, manager or staff
+async function getStaffUserId(request: NextRequest) {
+  const token = request.headers.get('authorization')?.replace('Bearer ', '');
+  if (!token) return null;
+
+  const supabase = getSupabaseClient();
+  const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+  if (authError || !user) return null;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('user_id', user.id)
+    .single();
+
+  return profile && ['admin', 'manager', 'staff'].includes(profile.role) ? user.id : null;
+}
+
+// Zod schema for request validation
+const startPaymentSchema = z.object({
+  kind: z.enum(['advance', 'balance']),
+  method: z.enum(['upi', 'card']),
+  amount: z.number().positive().optional(),
+});
+
+// The ticket's payment ledger: every advance, balance payment and refund with running totals
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: ticketId } = await params;
+    z.string().uuid('Ticket ID must be a valid UUID').parse(ticketId);
+
+    const staffUserId = await getStaffUserId(request);
+    if (!staffUserId) {
+      return new Response(
+        JSON.stringify({ error: 'Insufficient permissions' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const ledger = await new TicketPaymentService().getLedger(ticketId);
+
+    return new Response(JSON.stringify(ledger), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new Response(
+        JSON.stringify({ error: 'Validation failed', details: error.issues }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.error('Error loading payment ledger:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+// Collect an advance (at pickup) or a balance payment (at delivery). Partial amounts are allowed.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: ticketId } = await params;
+    z.string().uuid('Ticket ID must be a valid UUID').parse(ticketId);
+
+    const staffUserId = await getStaffUserId(request);
+    if (!staffUserId) {
+      return new Response(
+        JSON.stringify({ error: 'Insufficient permissions' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body: unknown = await request.json();
+    const { kind, method, amount } = startPaymentSchema.parse(body);
+
+    const entry = await new TicketPaymentService().startPayment({
+      ticketId,
+      kind,
+      method,
+      amount,
+      idempotencyKey: request.headers.get('idempotency-key'),
+      actorId: staffUserId,
+    });
+
+    return new Response(JSON.stringify({ success: true, entry }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new Response(
+        JSON.stringify({ error: 'Validation failed', details: error.issues }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const status = ticketPaymentErrorStatus(error);
+    if (status === 500) console.error('Error starting ticket payment:', error);
+    return new Response(
+      JSON.stringify({ error: status === 500 ? 'Internal server error' : (error as Error).message }),
+      { status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
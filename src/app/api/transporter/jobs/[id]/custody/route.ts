@@ -0,0 +1,150 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createClient as createServerSupabaseClient } from '@/lib/supabase/server';
+import { CustodyHandoffError, DeviceCustodyService } from '@/lib/services/device-custody';
+
+// Zod schema for the non-file fields of a hand-off
+const handoffSchema = z.object({
+  action: z.enum(['arrive', 'confirm', 'resend_otp']),
+  stage: z.enum(['pickup', 'drop']),
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional(),
+  accuracy_m: z.coerce.number().nonnegative().optional(),
+  otp: z.string().trim().optional(),
+  note: z.string().trim().max(500).optional(),
+});
+
+async function getTransporter() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('id, role')
+    .eq('user_id', user.id)
+    .single();
+
+  if (!profile || profile.role !== 'transporter') return null;
+  return { userId: user.id, profileId: profile.id as string };
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof CustodyHandoffError) {
+    return new Response(
+      JSON.stringify({ error: error.code, ...error.details }),
+      { status: error.status, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return new Response(
+      JSON.stringify({
+        error: 'Validation failed',
+        details: error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+      }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  console.error(fallback, error);
+  return new Response(
+    JSON.stringify({ error: 'Internal server error' }),
+    { status: 500, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+// Custody events recorded so far for the job's device
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+    z.string().uuid('Job ID must be a valid UUID').parse(jobId);
+
+    const actor = await getTransporter();
+    if (!actor) {
+      return new Response(
+        JSON.stringify({ error: 'Transporter access required' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const service = new DeviceCustodyService();
+    const job = await service.getAssignedJob(jobId, actor);
+    const custody = await service.getTicketCustody(job.ticket_id);
+
+    return new Response(JSON.stringify(custody), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Error loading job custody:');
+  }
+}
+
+// Arrive at, or complete, the pickup or drop hand-off. Sent as multipart/form-data so the
+// hand-off photos ('photos', one or more files) travel with the GPS fix and OTP.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+    z.string().uuid('Job ID must be a valid UUID').parse(jobId);
+
+    const actor = await getTransporter();
+    if (!actor) {
+      return new Response(
+        JSON.stringify({ error: 'Transporter access required' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const form = await request.formData();
+    const fields = handoffSchema.parse({
+      action: form.get('action') ?? undefined,
+      stage: form.get('stage') ?? undefined,
+      lat: form.get('lat') ?? undefined,
+      lng: form.get('lng') ?? undefined,
+      accuracy_m: form.get('accuracy_m') ?? undefined,
+      otp: form.get('otp') ?? undefined,
+      note: form.get('note') ?? undefined,
+    });
+
+    const service = new DeviceCustodyService();
+
+    if (fields.action === 'resend_otp') {
+      const sent = await service.resendOtp(jobId, fields.stage, actor);
+      return new Response(JSON.stringify({ success: true, otp_sent: sent }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (fields.lat === undefined || fields.lng === undefined) {
+      throw new CustodyHandoffError('location_required', 400);
+    }
+
+    const position = { lat: fields.lat, lng: fields.lng, accuracy_m: fields.accuracy_m ?? null };
+    const result = fields.action === 'arrive'
+      ? await service.arrive({ jobId, stage: fields.stage, position, actor })
+      : await service.confirmHandoff({
+        jobId,
+        stage: fields.stage,
+        position,
+        actor,
+        otp: fields.otp,
+        note: fields.note,
+        photos: form.getAll('photos').filter((value): value is File => value instanceof File && value.size > 0),
+      });
+
+    return new Response(JSON.stringify({ success: true, ...result }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Error recording custody hand-off:');
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createClient as createServerSupabaseClient } from '@/lib/supabase/server';
+import { TrackingError, TransporterTrackingService } from '@/lib/services/transporter-tracking';
+import { MAX_PING_BATCH } from '@/lib/tracking/pings';
+
+// Zod schema for a batch of GPS pings from the PWA, oldest or newest first
+const pingBatchSchema = z.object({
+  pings: z.array(z.object({
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+    accuracy_m: z.number().nonnegative().nullable().default(null),
+    speed_kmh: z.number().nonnegative().nullable().default(null),
+    heading: z.number().min(0).max(360).nullable().default(null),
+    battery_level: z.number().min(0).max(100).nullable().default(null),
+    recorded_at: z.string().datetime({ offset: true }),
+  })).min(1).max(MAX_PING_BATCH),
+});
+
+async function getTransporter() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('id, role')
+    .eq('user_id', user.id)
+    .single();
+
+  if (!profile || profile.role !== 'transporter') return null;
+  return { userId: user.id, profileId: profile.id as string };
+}
+
+// Store pings from the rider's phone. The response says how many were kept and how often to ping.
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await getTransporter();
+    if (!actor) {
+      return new Response(
+        JSON.stringify({ error: 'Transporter access required' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { pings } = pingBatchSchema.parse(await request.json());
+    const result = await new TransporterTrackingService().ingest(actor, pings);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (error instanceof TrackingError) {
+      return new Response(
+        JSON.stringify({ error: error.code, ...error.details }),
+        { status: error.status, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return new Response(
+        JSON.stringify({
+          error: 'Validation failed',
+          details: error.issues.map(issue => ({ field: issue.path.join('.'), message: issue.message }))
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.error('Error storing location pings:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { createClient as createServerSupabaseClient } from '@/lib/supabase/server';
+import { RoutePlannerService } from '@/lib/services/route-planner';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+async function getTransporter() {
+  const supabase = await createServerSupabaseClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('id, role')
+    .eq('user_id', user.id)
+    .single();
+
+  if (!profile || profile.role !== 'transporter') return null;
+  return { userId: user.id, profileId: profile.id as string };
+}
+
+// The signed-in transporter's ordered stops for the day (defaults to today)
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await getTransporter();
+    if (!actor) {
+      return new Response(
+        JSON.stringify({ error: 'Transporter access required' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const date = dateSchema.parse(request.nextUrl.searchParams.get('date') ?? new Date().toISOString().slice(0, 10));
+    const runSheet = await new RoutePlannerService().getDriverRunSheet(actor, date);
+
+    return new Response(JSON.stringify({ run_sheet: runSheet }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return new Response(
+        JSON.stringify({ error: error.issues[0].message }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.error('Error loading run sheet:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
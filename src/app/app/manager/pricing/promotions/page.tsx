@@ -0,0 +1,540 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { PricingPageHeader } from '@/components/pricing/PricingPageHeader';
+import { DenseDataTable, ColumnDef } from '@/components/pricing/DenseDataTable';
+import { PricingClient } from '@/lib/pricing/client';
+import { PromoCampaign, PromoCampaignInput } from '@/lib/pricing/promotions';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Drawer, DrawerContent, DrawerFooter, DrawerHeader, DrawerTitle, DrawerDescription } from '@/components/ui/drawer';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { format } from 'date-fns';
+import { Gift, Pause, Pencil, Play, Plus, Users } from 'lucide-react';
+import { useSupabase } from '@/components/shared/supabase-provider';
+import { toast } from 'sonner';
+
+type CampaignRow = PromoCampaign & { redeemed: number; discount_total: number };
+
+const formatInr = (amount: number) => `₹${Number(amount || 0).toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+export default function PromotionsPage() {
+    const [data, setData] = useState<CampaignRow[]>([]);
+    const [credits, setCredits] = useState<any[]>([]);
+    const [loading, setLoading] = useState(true);
+    const { user, userRole } = useSupabase();
+
+    // Drawer State: null campaign means a new one
+    const [selectedCampaign, setSelectedCampaign] = useState<CampaignRow | null>(null);
+    const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+
+    const isAdmin = ['admin', 'super_admin'].includes(userRole || '');
+    const managerCity = userRole === 'manager' ? user?.app_metadata?.city_id || null : null;
+
+    const loadData = async () => {
+        setLoading(true);
+        try {
+            const [campaigns, redemptions] = await Promise.all([
+                PricingClient.getPromotions(),
+                PricingClient.getPromoRedemptions(new URLSearchParams())
+            ]);
+            setData(campaigns.data || []);
+            setCredits(redemptions.referral_credits || []);
+        } catch (err) {
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (user) loadData();
+    }, [user]);
+
+    const canManage = (item: CampaignRow) =>
+        isAdmin || (!!managerCity && item.city_ids?.length === 1 && item.city_ids[0] === managerCity);
+
+    const handleOpenCreate = () => {
+        setSelectedCampaign(null);
+        setIsDrawerOpen(true);
+    };
+
+    const handleOpenEdit = (item: CampaignRow) => {
+        setSelectedCampaign(item);
+        setIsDrawerOpen(true);
+    };
+
+    const handleToggleActive = async (item: CampaignRow) => {
+        try {
+            await PricingClient.updatePromotion(item.id, {
+                is_active: !item.is_active,
+                reason: item.is_active ? 'Paused from the promotions console' : 'Resumed from the promotions console'
+            });
+            toast.success(`${item.code} ${item.is_active ? 'paused' : 'resumed'}`);
+            loadData();
+        } catch (err: any) {
+            toast.error(err.message);
+        }
+    };
+
+    const handleSuccess = () => {
+        setIsDrawerOpen(false);
+        loadData();
+    };
+
+    const columns: ColumnDef<CampaignRow>[] = [
+        {
+            header: 'Code',
+            accessorKey: 'code',
+            className: 'font-mono text-violet-300',
+            cell: (i) => (
+                <div className="flex items-center gap-2">
+                    {i.kind === 'referral' ? <Users className="w-4 h-4 text-sky-500" /> : <Gift className="w-4 h-4 text-slate-500" />}
+                    <div>
+                        <div>{i.code}</div>
+                        <div className="text-[10px] text-slate-500 font-sans">{i.name}</div>
+                    </div>
+                </div>
+            )
+        },
+        {
+            header: 'Discount',
+            accessorKey: 'discount_value',
+            cell: (i) => (
+                <span className="text-xs text-slate-300">
+                    {i.discount_type === 'percent' ? `${i.discount_value}%` : formatInr(i.discount_value)}
+                    {i.max_discount_amount ? <span className="text-slate-500"> (max {formatInr(i.max_discount_amount)})</span> : null}
+                </span>
+            )
+        },
+        {
+            header: 'Eligibility',
+            accessorKey: 'service_codes',
+            cell: (i) => (
+                <div className="flex flex-wrap gap-1 text-[10px] text-slate-400">
+                    <span>{i.service_codes?.join(', ') || 'All services'}</span>
+                    {i.device_brands?.length ? <span>· {i.device_brands.join(', ')}</span> : null}
+                    {i.first_time_only && <span className="text-amber-500">· First-time</span>}
+                    {!i.city_ids?.length && <span>· All cities</span>}
+                </div>
+            )
+        },
+        {
+            header: 'Usage',
+            accessorKey: 'redeemed',
+            cell: (i) => (
+                <span className="text-xs text-slate-400">
+                    {i.redeemed}{i.max_redemptions ? ` / ${i.max_redemptions}` : ''}
+                    <span className="text-slate-600"> · {formatInr(i.discount_total)}</span>
+                </span>
+            )
+        },
+        {
+            header: 'Stacking',
+            accessorKey: 'stacking',
+            cell: (i) => <span className="text-xs text-slate-400 capitalize">{i.stacking}</span>
+        },
+        {
+            header: 'Window',
+            accessorKey: 'expires_at',
+            cell: (i) => (
+                <span className="text-[10px] text-slate-500">
+                    {format(new Date(i.starts_at), 'MMM d')} → {format(new Date(i.expires_at), 'MMM d, yyyy')}
+                </span>
+            )
+        },
+        {
+            header: 'Status',
+            accessorKey: 'is_active',
+            cell: (i) => {
+                const expired = new Date(i.expires_at) <= new Date();
+                return (
+                    <Badge variant="outline" className={i.is_active && !expired ? 'text-emerald-500 border-emerald-900 bg-emerald-950/20' : 'text-slate-500 border-slate-800'}>
+                        {expired ? 'Expired' : i.is_active ? 'Active' : 'Paused'}
+                    </Badge>
+                );
+            }
+        }
+    ];
+
+    const creditColumns: ColumnDef<any>[] = [
+        {
+            header: 'Created',
+            accessorKey: 'created_at',
+            cell: (i) => <span className="text-[10px] text-slate-500">{format(new Date(i.created_at), 'MMM d HH:mm')}</span>
+        },
+        { header: 'Referrer', accessorKey: 'referrer_customer_id', className: 'font-mono text-xs', cell: (i) => i.referrer_customer_id.slice(0, 8) },
+        { header: 'Referee', accessorKey: 'referee_customer_id', className: 'font-mono text-xs', cell: (i) => i.referee_customer_id?.slice(0, 8) || '-' },
+        { header: 'Ticket', accessorKey: 'ticket_id', className: 'font-mono text-xs', cell: (i) => i.ticket_id?.slice(0, 8) || '-' },
+        { header: 'Amount', accessorKey: 'amount', cell: (i) => <span className="text-emerald-400 text-xs">{formatInr(i.amount)}</span> },
+        {
+            header: 'Status',
+            accessorKey: 'status',
+            cell: (i) => (
+                <Badge variant="outline" className={
+                    i.status === 'credited' ? 'text-emerald-500 border-emerald-900' :
+                        i.status === 'void' ? 'text-slate-500 border-slate-800' : 'text-amber-500 border-amber-900'
+                }>
+                    {i.status}
+                </Badge>
+            )
+        }
+    ];
+
+    return (
+        <>
+            <PricingPageHeader
+                title="Promotions"
+                subtitle="Promo codes and referral campaigns. Redemptions are recorded in the audit log."
+                actions={
+                    <Button size="sm" onClick={handleOpenCreate} className="bg-violet-600 hover:bg-violet-700">
+                        <Plus className="w-4 h-4 mr-2" />
+                        New Campaign
+                    </Button>
+                }
+            />
+
+            <DenseDataTable
+                data={data}
+                columns={columns}
+                loading={loading}
+                auditEntityBase="promotions"
+                actions={(item) => canManage(item) ? (
+                    <div className="flex items-center gap-2">
+                        <Button
+                            variant="ghost"
+                            onClick={() => handleOpenEdit(item)}
+                            className="h-8 px-2 text-xs text-slate-400 hover:text-white"
+                        >
+                            <Pencil className="w-3.5 h-3.5 mr-1" />
+                            Edit
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            onClick={() => handleToggleActive(item)}
+                            className="h-8 px-2 text-xs text-amber-500 hover:text-amber-400 hover:bg-amber-950/20"
+                        >
+                            {item.is_active ? <Pause className="w-3.5 h-3.5 mr-1" /> : <Play className="w-3.5 h-3.5 mr-1" />}
+                            {item.is_active ? 'Pause' : 'Resume'}
+                        </Button>
+                    </div>
+                ) : null}
+            />
+
+            <div className="mt-8 space-y-3">
+                <h2 className="text-sm font-medium text-slate-400 uppercase tracking-wider">Referral Credits</h2>
+                <DenseDataTable
+                    data={credits}
+                    columns={creditColumns}
+                    loading={loading}
+                    auditEntityBase="referral_credits"
+                />
+            </div>
+
+            <PromoCampaignDrawer
+                key={selectedCampaign?.id || 'new'}
+                item={selectedCampaign}
+                isOpen={isDrawerOpen}
+                onOpenChange={setIsDrawerOpen}
+                cityId={managerCity}
+                onSuccess={handleSuccess}
+            />
+        </>
+    );
+}
+
+const toDateInput = (value?: string) => (value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '');
+
+function PromoCampaignDrawer({
+    item,
+    isOpen,
+    onOpenChange,
+    cityId,
+    onSuccess
+}: {
+    item: CampaignRow | null,
+    isOpen: boolean,
+    onOpenChange: (open: boolean) => void,
+    cityId: string | null,
+    onSuccess: () => void
+}) {
+    const isNew = !item;
+    const [form, setForm] = useState({
+        code: item?.code || '',
+        name: item?.name || '',
+        description: item?.description || '',
+        kind: item?.kind || 'promo',
+        discount_type: item?.discount_type || 'percent',
+        discount_value: item ? String(item.discount_value) : '',
+        max_discount_amount: item?.max_discount_amount ? String(item.max_discount_amount) : '',
+        city_ids: cityId || item?.city_ids?.join(', ') || '',
+        service_codes: item?.service_codes?.join(', ') || '',
+        device_brands: item?.device_brands?.join(', ') || '',
+        first_time_only: item?.first_time_only || false,
+        max_redemptions: item?.max_redemptions ? String(item.max_redemptions) : '',
+        max_redemptions_per_customer: item ? (item.max_redemptions_per_customer ? String(item.max_redemptions_per_customer) : '') : '1',
+        stacking: item?.stacking || 'exclusive',
+        referrer_reward_amount: item?.referrer_reward_amount ? String(item.referrer_reward_amount) : '',
+        starts_at: toDateInput(item?.starts_at),
+        expires_at: toDateInput(item?.expires_at),
+    });
+    const [reason, setReason] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+
+    const set = (field: keyof typeof form) => (value: string | boolean) => setForm(prev => ({ ...prev, [field]: value }));
+
+    const isValid = !!form.code && !!form.name && !!form.discount_value && !!form.starts_at && !!form.expires_at
+        && (isNew || reason.trim().length > 5);
+
+    const handleSubmit = async () => {
+        if (!isValid) return;
+        setSubmitting(true);
+        try {
+            // Lists are sent as comma-separated strings and split by the API
+            const payload = {
+                ...form,
+                discount_value: Number(form.discount_value),
+                starts_at: new Date(form.starts_at).toISOString(),
+                expires_at: new Date(form.expires_at).toISOString(),
+                referrer_reward_amount: form.kind === 'referral' ? form.referrer_reward_amount : null,
+            } as unknown as PromoCampaignInput;
+
+            if (isNew) {
+                await PricingClient.createPromotion(payload);
+                toast.success(`Campaign ${form.code.toUpperCase()} created`);
+            } else {
+                await PricingClient.updatePromotion(item.id, { ...payload, reason });
+                toast.success(`Campaign ${item.code} updated`);
+            }
+            onSuccess();
+        } catch (err: any) {
+            toast.error(err.message);
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <Drawer open={isOpen} onOpenChange={onOpenChange}>
+            <DrawerContent className="bg-slate-950 border-slate-800 text-slate-200">
+                <div className="mx-auto w-full max-w-3xl max-h-[85vh] overflow-y-auto">
+                    <DrawerHeader>
+                        <DrawerTitle className="text-xl flex items-center gap-2">
+                            <Gift className="w-5 h-5 text-violet-500" />
+                            {isNew ? 'New Campaign' : `Edit ${item.code}`}
+                        </DrawerTitle>
+                        <DrawerDescription className="text-slate-400">
+                            {cityId
+                                ? 'Campaigns you create apply to your city only.'
+                                : 'Leave cities empty for a campaign that runs everywhere.'}
+                        </DrawerDescription>
+                    </DrawerHeader>
+
+                    <div className="p-6 space-y-4">
+                        <div className="grid grid-cols-3 gap-3">
+                            <div className="space-y-1">
+                                <Label className="text-xs text-slate-400">Code</Label>
+                                <Input
+                                    value={form.code}
+                                    onChange={e => set('code')(e.target.value.toUpperCase())}
+                                    disabled={!isNew}
+                                    placeholder="DIWALI25"
+                                    className="bg-slate-900 border-slate-700 font-mono"
+                                />
+                            </div>
+                            <div className="space-y-1 col-span-2">
+                                <Label className="text-xs text-slate-400">Name</Label>
+                                <Input
+                                    value={form.name}
+                                    onChange={e => set('name')(e.target.value)}
+                                    className="bg-slate-900 border-slate-700"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-4 gap-3">
+                            <div className="space-y-1">
+                                <Label className="text-xs text-slate-400">Kind</Label>
+                                <Select value={form.kind} onValueChange={set('kind')} disabled={!isNew}>
+                                    <SelectTrigger className="bg-slate-900 border-slate-700"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="promo">Promo code</SelectItem>
+                                        <SelectItem value="referral">Referral</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs text-slate-400">Discount type</Label>
+                                <Select value={form.discount_type} onValueChange={set('discount_type')}>
+                                    <SelectTrigger className="bg-slate-900 border-slate-700"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="percent">Percent</SelectItem>
+                                        <SelectItem value="flat">Flat amount</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs text-slate-400">Discount</Label>
+                                <Input
+                                    type="number"
+                                    value={form.discount_value}
+                                    onChange={e => set('discount_value')(e.target.value)}
+                                    className="bg-slate-900 border-slate-700"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs text-slate-400">Max discount (₹)</Label>
+                                <Input
+                                    type="number"
+                                    value={form.max_discount_amount}
+                                    onChange={e => set('max_discount_amount')(e.target.value)}
+                                    placeholder="No cap"
+                                    className="bg-slate-900 border-slate-700"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-3">
+                            <div className="space-y-1">
+                                <Label className="text-xs text-slate-400">Cities</Label>
+                                <Input
+                                    value={form.city_ids}
+                                    onChange={e => set('city_ids')(e.target.value)}
+                                    disabled={!!cityId}
+                                    placeholder="All cities"
+                                    className="bg-slate-900 border-slate-700 font-mono text-xs"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs text-slate-400">Services</Label>
+                                <Input
+                                    value={form.service_codes}
+                                    onChange={e => set('service_codes')(e.target.value)}
+                                    placeholder="All services"
+                                    className="bg-slate-900 border-slate-700 font-mono text-xs"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs text-slate-400">Device brands</Label>
+                                <Input
+                                    value={form.device_brands}
+                                    onChange={e => set('device_brands')(e.target.value)}
+                                    placeholder="All brands"
+                                    className="bg-slate-900 border-slate-700 text-xs"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-3">
+                            <div className="space-y-1">
+                                <Label className="text-xs text-slate-400">Total redemptions cap</Label>
+                                <Input
+                                    type="number"
+                                    value={form.max_redemptions}
+                                    onChange={e => set('max_redemptions')(e.target.value)}
+                                    placeholder="Unlimited"
+                                    className="bg-slate-900 border-slate-700"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs text-slate-400">Per customer cap</Label>
+                                <Input
+                                    type="number"
+                                    value={form.max_redemptions_per_customer}
+                                    onChange={e => set('max_redemptions_per_customer')(e.target.value)}
+                                    placeholder="Unlimited"
+                                    className="bg-slate-900 border-slate-700"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs text-slate-400">Stacking</Label>
+                                <Select value={form.stacking} onValueChange={set('stacking')}>
+                                    <SelectTrigger className="bg-slate-900 border-slate-700"><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="exclusive">Exclusive</SelectItem>
+                                        <SelectItem value="stackable">Stackable</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-3 items-end">
+                            <div className="space-y-1">
+                                <Label className="text-xs text-slate-400">Starts</Label>
+                                <Input
+                                    type="datetime-local"
+                                    value={form.starts_at}
+                                    onChange={e => set('starts_at')(e.target.value)}
+                                    className="bg-slate-900 border-slate-700"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs text-slate-400">Expires</Label>
+                                <Input
+                                    type="datetime-local"
+                                    value={form.expires_at}
+                                    onChange={e => set('expires_at')(e.target.value)}
+                                    className="bg-slate-900 border-slate-700"
+                                />
+                            </div>
+                            <div className="flex items-center gap-2 h-10">
+                                <Switch checked={form.first_time_only} onCheckedChange={set('first_time_only')} />
+                                <Label className="text-xs text-slate-400">First-time customers only</Label>
+                            </div>
+                        </div>
+
+                        {form.kind === 'referral' && (
+                            <div className="space-y-1">
+                                <Label className="text-xs text-slate-400">Referrer reward (₹), credited when the referee&apos;s ticket completes</Label>
+                                <Input
+                                    type="number"
+                                    value={form.referrer_reward_amount}
+                                    onChange={e => set('referrer_reward_amount')(e.target.value)}
+                                    className="bg-slate-900 border-slate-700"
+                                />
+                            </div>
+                        )}
+
+                        <div className="space-y-1">
+                            <Label className="text-xs text-slate-400">Description</Label>
+                            <Textarea
+                                value={form.description}
+                                onChange={e => set('description')(e.target.value)}
+                                className="bg-slate-900 border-slate-700 h-16 resize-none"
+                            />
+                        </div>
+
+                        {!isNew && (
+                            <div className="space-y-1">
+                                <Label className="text-xs text-slate-400">Reason for change</Label>
+                                <Textarea
+                                    value={reason}
+                                    onChange={e => setReason(e.target.value)}
+                                    placeholder="Recorded in the audit log"
+                                    className="bg-slate-900 border-slate-700 h-16 resize-none"
+                                />
+                            </div>
+                        )}
+                    </div>
+
+                    <DrawerFooter className="border-t border-slate-800 pt-4 flex-row justify-end gap-2">
+                        <Button variant="outline" onClick={() => onOpenChange(false)} className="border-slate-700 hover:bg-slate-800">
+                            Close
+                        </Button>
+                        <Button
+                            onClick={handleSubmit}
+                            disabled={submitting || !isValid}
+                            className={isValid ? 'bg-violet-600 hover:bg-violet-700' : 'bg-slate-800 text-slate-500'}
+                        >
+                            {submitting ? 'Saving...' : isNew ? 'Create Campaign' : 'Save Changes'}
+                        </Button>
+                    </DrawerFooter>
+                </div>
+            </DrawerContent>
+        </Drawer>
+    );
+}
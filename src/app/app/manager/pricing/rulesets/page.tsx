@@ -10,24 +10,33 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { format } from 'date-fns';
-import { FileJson, Power, Shield, AlertTriangle } from 'lucide-react';
+import { FileJson, Power, Shield, AlertTriangle, FlaskConical, CalendarClock, Layers } from 'lucide-react';
 import { useSupabase } from '@/components/shared/supabase-provider';
 import { RulesetViewer } from '@/components/pricing/RulesetViewer';
+import { RulesetSimulationPanel } from '@/components/pricing/RulesetSimulationPanel';
+import { RulesetTimeline } from '@/components/pricing/RulesetTimeline';
+import { PricingScheduleForm } from '@/components/pricing/PricingScheduleForm';
+import { PricingClient } from '@/lib/pricing/client';
+import { PricingSchedule, TimelineRuleset } from '@/lib/pricing/schedules';
 import { toast } from 'sonner';
 
 export default function RulesetsPage() {
     const [data, setData] = useState<any[]>([]);
     const [loading, setLoading] = useState(true);
+    const [schedules, setSchedules] = useState<PricingSchedule[]>([]);
+    const [timelineRulesets, setTimelineRulesets] = useState<TimelineRuleset[]>([]);
+    const [isOverrideOpen, setIsOverrideOpen] = useState(false);
     const { user, userRole } = useSupabase();
 
     // Drawer State
     const [selectedRuleset, setSelectedRuleset] = useState<any>(null);
     const [isDrawerOpen, setIsDrawerOpen] = useState(false);
 
-    // Activation Form State
-    const [showActivationForm, setShowActivationForm] = useState(false);
+    // Drawer Mode
+    const [drawerMode, setDrawerMode] = useState<DrawerMode>('view');
 
     const isAdmin = ['admin', 'super_admin'].includes(userRole || '');
+    const managerCity = userRole === 'manager' ? user?.app_metadata?.city_id || null : null;
 
     const loadData = async () => {
         setLoading(true);
@@ -37,6 +46,9 @@ export default function RulesetsPage() {
             if (json.data) {
                 setData(json.data);
             }
+            const scheduled = await PricingClient.getRulesetSchedules();
+            setSchedules(scheduled.data);
+            setTimelineRulesets(scheduled.rulesets);
         } catch (err) {
             console.error(err);
         } finally {
@@ -50,14 +62,28 @@ export default function RulesetsPage() {
 
     const handleOpenViewer = (item: any) => {
         setSelectedRuleset(item);
-        setShowActivationForm(false);
+        setDrawerMode('view');
+        setIsDrawerOpen(true);
+    };
+
+    const handleOpenSimulate = (item: any, e: React.MouseEvent) => {
+        e.stopPropagation();
+        setSelectedRuleset(item);
+        setDrawerMode('simulate');
         setIsDrawerOpen(true);
     };
 
     const handleOpenActivate = (item: any, e: React.MouseEvent) => {
         e.stopPropagation();
         setSelectedRuleset(item);
-        setShowActivationForm(true);
+        setDrawerMode('activate');
+        setIsDrawerOpen(true);
+    };
+
+    const handleOpenSchedule = (item: any, e: React.MouseEvent) => {
+        e.stopPropagation();
+        setSelectedRuleset(item);
+        setDrawerMode('schedule');
         setIsDrawerOpen(true);
     };
 
@@ -66,6 +92,11 @@ export default function RulesetsPage() {
         loadData();
     };
 
+    const handleOverrideScheduled = () => {
+        setIsOverrideOpen(false);
+        loadData();
+    };
+
     const columns: ColumnDef<any>[] = [
         {
             header: 'Version',
@@ -106,6 +137,17 @@ export default function RulesetsPage() {
             <PricingPageHeader
                 title="Rulesets"
                 subtitle="Global pricing logic versions. Only Admins can activate."
+                actions={
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setIsOverrideOpen(true)}
+                        className="border-slate-700 hover:bg-slate-800"
+                    >
+                        <Layers className="w-4 h-4 mr-2" />
+                        Schedule Override
+                    </Button>
+                }
             />
 
             <DenseDataTable
@@ -122,6 +164,24 @@ export default function RulesetsPage() {
                         >
                             View JSON
                         </Button>
+                        <Button
+                            variant="ghost"
+                            onClick={(e) => handleOpenSimulate(item, e)}
+                            className="h-8 px-2 text-xs text-violet-400 hover:text-violet-300 hover:bg-violet-950/20"
+                        >
+                            <FlaskConical className="w-3.5 h-3.5 mr-1" />
+                            Simulate
+                        </Button>
+                        {isAdmin && !item.is_active && (
+                            <Button
+                                variant="ghost"
+                                onClick={(e) => handleOpenSchedule(item, e)}
+                                className="h-8 px-2 text-xs text-sky-400 hover:text-sky-300 hover:bg-sky-950/20"
+                            >
+                                <CalendarClock className="w-3.5 h-3.5 mr-1" />
+                                Schedule
+                            </Button>
+                        )}
                         {isAdmin && !item.is_active && (
                             <Button
                                 variant="ghost"
@@ -136,46 +196,88 @@ export default function RulesetsPage() {
                 )}
             />
 
+            <div className="mt-6">
+                <RulesetTimeline
+                    schedules={schedules}
+                    rulesets={timelineRulesets}
+                    isAdmin={isAdmin}
+                    managerCity={managerCity}
+                    onChanged={loadData}
+                />
+            </div>
+
             {/* Ruleset Detail Drawer */}
             {selectedRuleset && (
                 <RulesetDrawer
                     item={selectedRuleset}
                     isOpen={isDrawerOpen}
                     onOpenChange={setIsDrawerOpen}
-                    isActivationMode={showActivationForm}
+                    mode={drawerMode}
+                    cityId={managerCity}
                     onSuccess={handleSuccess}
                 />
             )}
+
+            {/* Temporary Override Drawer */}
+            <Drawer open={isOverrideOpen} onOpenChange={setIsOverrideOpen}>
+                <DrawerContent className="bg-slate-950 border-slate-800 text-slate-200">
+                    <div className="mx-auto w-full max-w-2xl">
+                        <DrawerHeader>
+                            <DrawerTitle className="text-xl flex items-center gap-2">
+                                <Layers className="w-5 h-5 text-sky-500" /> Schedule Override
+                            </DrawerTitle>
+                            <DrawerDescription className="text-slate-400">
+                                Stack a temporary rules change on the active ruleset for one city. It reverts automatically when the window ends.
+                            </DrawerDescription>
+                        </DrawerHeader>
+                        <div className="p-6">
+                            {isOverrideOpen && (
+                                <PricingScheduleForm kind="override" cityId={managerCity} onScheduled={handleOverrideScheduled} />
+                            )}
+                        </div>
+                    </div>
+                </DrawerContent>
+            </Drawer>
         </>
     );
 }
 
+type DrawerMode = 'view' | 'simulate' | 'activate' | 'schedule';
+
 function RulesetDrawer({
     item,
     isOpen,
     onOpenChange,
-    isActivationMode,
+    mode,
+    cityId,
     onSuccess
 }: {
     item: any,
     isOpen: boolean,
     onOpenChange: (open: boolean) => void,
-    isActivationMode: boolean,
+    mode: DrawerMode,
+    cityId: string | null,
     onSuccess: () => void
 }) {
     const [reason, setReason] = useState('');
     const [confirmText, setConfirmText] = useState('');
     const [submitting, setSubmitting] = useState(false);
+    const [simulated, setSimulated] = useState(false);
 
     // Reset
     useEffect(() => {
         if (isOpen) {
             setReason('');
             setConfirmText('');
+            setSimulated(false);
         }
     }, [isOpen]);
 
-    const isValid = reason.length > 5 && confirmText.trim() === item.version;
+    const isActivationMode = mode === 'activate';
+    const isScheduleMode = mode === 'schedule';
+
+    // Activation needs a simulation of this ruleset first, so the impact is seen before it is live
+    const isValid = simulated && reason.length > 5 && confirmText.trim() === item.version;
 
     const handleActivate = async () => {
         if (!isValid) return;
@@ -214,6 +316,10 @@ function RulesetDrawer({
                         <DrawerTitle className="text-xl flex items-center gap-2">
                             {isActivationMode ? (
                                 <><Power className="w-5 h-5 text-amber-500" /> Activate Ruleset {item.version}</>
+                            ) : isScheduleMode ? (
+                                <><CalendarClock className="w-5 h-5 text-sky-500" /> Schedule Ruleset {item.version}</>
+                            ) : mode === 'simulate' ? (
+                                <><FlaskConical className="w-5 h-5 text-violet-500" /> Simulate Ruleset {item.version}</>
                             ) : (
                                 <><FileJson className="w-5 h-5 text-violet-500" /> View Ruleset {item.version}</>
                             )}
@@ -221,16 +327,42 @@ function RulesetDrawer({
                         <DrawerDescription className="text-slate-400">
                             {isActivationMode
                                 ? "WARNING: Activating this ruleset will immediately affect all pricing calculations."
-                                : "Read-only view of ruleset logic."}
+                                : isScheduleMode
+                                    ? "Activate this ruleset for a window. The previous ruleset is restored when the window ends."
+                                    : mode === 'simulate'
+                                    ? "Replay recent quotes against this ruleset and draft rates. Nothing is activated."
+                                    : "Read-only view of ruleset logic."}
                         </DrawerDescription>
                     </DrawerHeader>
 
                     <div className="p-6 flex-1 overflow-hidden flex flex-col lg:flex-row gap-8">
-                        {/* JSON Viewer (Always Visible) */}
-                        <div className="flex-1 overflow-auto">
-                            <Label className="mb-2 block text-slate-400">Rules Definition</Label>
-                            <RulesetViewer rules={item.rules} className="h-full max-h-[500px]" />
-                        </div>
+                        {mode === 'view' ? (
+                            <div className="flex-1 overflow-auto">
+                                <Label className="mb-2 block text-slate-400">Rules Definition</Label>
+                                <RulesetViewer rules={item.rules} className="h-full max-h-[500px]" />
+                            </div>
+                        ) : (
+                            <div className="flex-1 overflow-auto pr-2">
+                                <RulesetSimulationPanel
+                                    ruleset={item}
+                                    cityId={cityId}
+                                    onComplete={() => setSimulated(true)}
+                                />
+                            </div>
+                        )}
+
+                        {/* Schedule Form (Conditional) */}
+                        {isScheduleMode && (
+                            <div className="w-full lg:w-1/3 space-y-4 bg-slate-900/50 p-6 rounded-lg border border-slate-800 h-fit">
+                                {simulated ? (
+                                    <PricingScheduleForm kind="activation" ruleset={item} onScheduled={onSuccess} />
+                                ) : (
+                                    <div className="bg-violet-950/20 border border-violet-900/50 rounded p-3 text-violet-300 text-xs">
+                                        Run a simulation of this ruleset before scheduling it.
+                                    </div>
+                                )}
+                            </div>
+                        )}
 
                         {/* Activation Form (Conditional) */}
                         {isActivationMode && (
@@ -242,6 +374,12 @@ function RulesetDrawer({
                                         Audit log will be generated.
                                     </div>
 
+                                    {!simulated && (
+                                        <div className="bg-violet-950/20 border border-violet-900/50 rounded p-3 text-violet-300 text-xs">
+                                            Run a simulation of this ruleset before activating it.
+                                        </div>
+                                    )}
+
                                     <div className="space-y-2">
                                         <Label>Reason for Activation</Label>
                                         <Textarea
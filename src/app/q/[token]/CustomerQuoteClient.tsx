@@ -4,7 +4,16 @@ import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import { AcceptQuoteDialog } from '@/components/pricing/quotes/AcceptQuoteDialog';
-import { Loader2, AlertCircle, CheckCircle, Clock } from 'lucide-react';
+import { QuoteRevisionDiff } from '@/components/pricing/quotes/QuoteRevisionDiff';
+import {
+    diffQuoteLineItems,
+    latestRevision,
+    previousRevision,
+    quoteLineItems,
+    quoteRevisionTotal,
+} from '@/components/pricing/quotes/revisions';
+import { Quote } from '@/components/pricing/quotes/types';
+import { Loader2, AlertCircle, CheckCircle, Clock, History } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
@@ -20,13 +29,20 @@ type RedeemResponse = {
         reason_codes: string[];
     };
     can_accept: boolean;
+    // The shared quote's revision chain, oldest first; the customer sees the latest revision
+    revisions: Quote[];
 };
 
+const formatInr = (amount: number) =>
+    new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount);
+
 export default function CustomerQuoteClient({ token }: { token: string }) {
     const [data, setData] = useState<RedeemResponse | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [acceptOpen, setAcceptOpen] = useState(false);
+    const [revisions, setRevisions] = useState<Quote[]>([]);
+    const [declined, setDeclined] = useState<string[]>([]);
 
     const redeem = async () => {
         setLoading(true);
@@ -40,6 +56,9 @@ export default function CustomerQuoteClient({ token }: { token: string }) {
             const json = await res.json();
             if (!res.ok) throw new Error(json.error || 'Redeem failed');
             setData(json);
+            const chain: Quote[] = json.revisions || [];
+            setRevisions(chain);
+            setDeclined(latestRevision(chain)?.declined_line_items || []);
         } catch (e: any) {
             setError(e.message);
             toast.error('Unable to open quote', { description: e.message });
@@ -54,13 +73,17 @@ export default function CustomerQuoteClient({ token }: { token: string }) {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
+    const latest = revisions.length > 1 ? latestRevision(revisions) : null;
+    const lineItems = latest?.line_items || [];
+
     const accept = async (reason?: string) => {
-        if (!data?.quote?.id) return;
+        const quoteId = latest?.id || data?.quote?.id;
+        if (!quoteId) return;
         try {
-            const res = await fetch(`/api/pricing/quotes/${data.quote.id}/accept`, {
+            const res = await fetch(`/api/pricing/quotes/${quoteId}/accept`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ reason }),
+                body: JSON.stringify(lineItems.length > 0 ? { reason, declined_line_items: declined, share_token: token } : { reason }),
             });
             const json = await res.json();
             if (!res.ok) throw new Error(json.error || 'Accept failed');
@@ -104,7 +127,17 @@ export default function CustomerQuoteClient({ token }: { token: string }) {
         );
     }
 
-    const q = data.quote;
+    const q = latest
+        ? { ...latest, total_amount: latest.status === 'pending' ? quoteRevisionTotal(lineItems, declined) : latest.total_amount }
+        : data.quote;
+    const previous = latest ? previousRevision(revisions, latest) : null;
+    const canAccept = latest
+        ? latest.status === 'pending' && new Date(latest.expires_at) > new Date()
+        : data.can_accept;
+
+    const toggleLineItem = (code: string, included: boolean) => {
+        setDeclined(current => included ? current.filter(c => c !== code) : [...current, code]);
+    };
 
     return (
         <div className="min-h-screen bg-slate-950 p-4 md:p-8">
@@ -124,6 +157,32 @@ export default function CustomerQuoteClient({ token }: { token: string }) {
                     </Badge>
                 </div>
 
+                {/* Revision */}
+                {latest && previous && (
+                    <Card className="border-amber-900/50 bg-amber-950/10">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2 text-amber-400">
+                                <History className="h-5 w-5" />
+                                Revised Quote (Revision {latest.revision_number})
+                            </CardTitle>
+                            {latest.revision_reason && (
+                                <CardDescription className="text-slate-400">{latest.revision_reason}</CardDescription>
+                            )}
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                            <QuoteRevisionDiff
+                                diffs={diffQuoteLineItems(quoteLineItems(previous), quoteLineItems(latest))}
+                                formatAmount={formatInr}
+                                showUnchanged={false}
+                                className="text-slate-300"
+                            />
+                            <p className="text-xs text-slate-500">
+                                Previous total {formatInr(previous.total_amount)}. Optional items can be left out before accepting.
+                            </p>
+                        </CardContent>
+                    </Card>
+                )}
+
                 {/* Main Content */}
                 <div className="grid gap-6 md:grid-cols-3">
 
@@ -143,26 +202,54 @@ export default function CustomerQuoteClient({ token }: { token: string }) {
 
                                 <div className="space-y-2">
                                     <h4 className="text-sm font-medium text-slate-300">Cost Breakdown</h4>
-                                    <div className="space-y-1">
-                                        <div className="flex justify-between text-sm">
-                                            <span className="text-slate-500">Labor</span>
-                                            <span className="font-mono text-slate-300">
-                                                {new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(q.breakdown?.labor || 0)}
-                                            </span>
-                                        </div>
-                                        <div className="flex justify-between text-sm">
-                                            <span className="text-slate-500">Parts</span>
-                                            <span className="font-mono text-slate-300">
-                                                {new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(q.breakdown?.parts || 0)}
-                                            </span>
+                                    {lineItems.length > 0 ? (
+                                        <div className="space-y-1">
+                                            {lineItems.map((item) => {
+                                                const included = !(item.optional && declined.includes(item.code));
+                                                return (
+                                                    <label key={item.code} className="flex justify-between items-center text-sm gap-4">
+                                                        <span className="flex items-center gap-2 text-slate-500">
+                                                            {item.optional && (
+                                                                <input
+                                                                    type="checkbox"
+                                                                    className="accent-emerald-500"
+                                                                    checked={included}
+                                                                    disabled={!canAccept}
+                                                                    onChange={(e) => toggleLineItem(item.code, e.target.checked)}
+                                                                />
+                                                            )}
+                                                            <span className={included ? '' : 'line-through'}>{item.label}</span>
+                                                            {item.optional && <span className="text-xs text-slate-600">(optional)</span>}
+                                                        </span>
+                                                        <span className={`font-mono ${included ? 'text-slate-300' : 'text-slate-600 line-through'}`}>
+                                                            {formatInr(item.amount)}
+                                                        </span>
+                                                    </label>
+                                                );
+                                            })}
                                         </div>
-                                        <div className="flex justify-between text-sm">
-                                            <span className="text-slate-500">Transport</span>
-                                            <span className="font-mono text-slate-300">
-                                                {new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(q.breakdown?.transport || 0)}
-                                            </span>
+                                    ) : (
+                                        <div className="space-y-1">
+                                            <div className="flex justify-between text-sm">
+                                                <span className="text-slate-500">Labor</span>
+                                                <span className="font-mono text-slate-300">
+                                                    {new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(q.breakdown?.labor || 0)}
+                                                </span>
+                                            </div>
+                                            <div className="flex justify-between text-sm">
+                                                <span className="text-slate-500">Parts</span>
+                                                <span className="font-mono text-slate-300">
+                                                    {new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(q.breakdown?.parts || 0)}
+                                                </span>
+                                            </div>
+                                            <div className="flex justify-between text-sm">
+                                                <span className="text-slate-500">Transport</span>
+                                                <span className="font-mono text-slate-300">
+                                                    {new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(q.breakdown?.transport || 0)}
+                                                </span>
+                                            </div>
                                         </div>
-                                    </div>
+                                    )}
                                 </div>
 
                                 <Separator className="bg-slate-800" />
@@ -204,11 +291,11 @@ export default function CustomerQuoteClient({ token }: { token: string }) {
                                             className="w-full bg-emerald-600 hover:bg-emerald-700 text-white font-bold"
                                             size="lg"
                                             onClick={() => setAcceptOpen(true)}
-                                            disabled={!data.can_accept}
+                                            disabled={!canAccept}
                                         >
                                             Accept Quote
                                         </Button>
-                                        {!data.can_accept && (
+                                        {!canAccept && (
                                             <p className="text-xs text-center text-slate-500">
                                                 This quote cannot be accepted currently (expired or incorrect status).
                                             </p>
@@ -8,8 +8,64 @@ import { useSupabase } from '@/components/shared/supabase-provider';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { MapPin, Phone, Package, CheckCircle, XCircle, Clock, Navigation } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { MapPin, Phone, Package, CheckCircle, XCircle, Clock, Navigation, Camera, Route, Radio } from 'lucide-react';
 import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { CustodyStage, requiresCustomerOtp } from '@/lib/custody/chain';
+import { logisticsApi } from '@/lib/api/logistics';
+import { RunSheet } from '@/lib/types/logistics';
+import { RunSheetView } from '@/components/shared/run-sheet';
+import { LocationPing } from '@/lib/tracking/pings';
+import { LocationPingBuffer } from '@/lib/tracking/ping-buffer';
+
+interface PendingHandoff {
+  jobId: string;
+  stage: CustodyStage;
+  otp: string;
+  photos: File[];
+}
+
+const HANDOFF_ERRORS: Record<string, string> = {
+  outside_geofence: 'You are too far from the address to do this',
+  job_location_missing: 'This address has no map location, call dispatch to record the hand-off',
+  gps_accuracy_too_low: 'GPS signal is too weak, move to an open area and retry',
+  photo_required: 'Take at least one photo of the device',
+  otp_invalid: 'The OTP is incorrect',
+  otp_expired: 'The OTP has expired, send a new one',
+  otp_attempts_exceeded: 'Too many wrong OTPs, call dispatch to complete this hand-off',
+  otp_send_limit: 'No more OTPs can be sent for this stop, call dispatch',
+  otp_not_issued: 'No OTP has been sent yet, send one first',
+  otp_unavailable: 'That OTP is no longer valid, send a new one',
+  invalid_transition: 'This job has already moved on, refresh the list',
+};
+
+// Location is shared while any of these jobs is open
+const ACTIVE_JOB_STATUSES = ['assigned', 'arrived_pickup', 'picked_up', 'arrived_drop'];
+
+const PING_FLUSH_INTERVAL_MS = 30_000;
+
+const toPing = (position: GeolocationPosition): LocationPing => ({
+  lat: position.coords.latitude,
+  lng: position.coords.longitude,
+  accuracy_m: position.coords.accuracy,
+  // Browsers report NaN or null while the phone is standing still
+  speed_kmh: Number.isFinite(position.coords.speed) ? (position.coords.speed as number) * 3.6 : null,
+  heading: Number.isFinite(position.coords.heading) ? position.coords.heading : null,
+  battery_level: null,
+  recorded_at: new Date(position.timestamp).toISOString(),
+});
+
+// Current GPS fix from the browser
+const getPosition = () =>
+  new Promise<GeolocationPosition>((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('Location is not available on this device'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(resolve, reject, { enableHighAccuracy: true, timeout: 20000, maximumAge: 0 });
+  });
 
 interface TransportJob {
   id: string;
@@ -35,6 +91,10 @@ export default function TransporterJobsPage() {
   const [jobs, setJobs] = useState<TransportJob[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [handoff, setHandoff] = useState<PendingHandoff | null>(null);
+  const [submittingJobId, setSubmittingJobId] = useState<string | null>(null);
+  const [runSheet, setRunSheet] = useState<RunSheet | null>(null);
+  const [bufferedPings, setBufferedPings] = useState(0);
   const supabase = createClient();
   const { user, userRole: role } = useSupabase();
   const router = useRouter();
@@ -49,9 +109,43 @@ export default function TransporterJobsPage() {
 
     if (user) {
       fetchJobs();
+      fetchRunSheet();
     }
   }, [user, role, router]);
 
+  const hasActiveJob = jobs.some(job => ACTIVE_JOB_STATUSES.includes(job.status));
+
+  // Share location while a job is open. Fixes are buffered on the phone and sent in batches, so
+  // pings taken without signal go out once the phone is back online.
+  useEffect(() => {
+    if (!hasActiveJob || typeof navigator === 'undefined' || !navigator.geolocation) return;
+
+    const buffer = new LocationPingBuffer(window.localStorage);
+    const flush = async () => {
+      if (!navigator.onLine) return;
+      await buffer.flush(async batch => {
+        await logisticsApi.sendLocationPings(batch);
+      });
+      setBufferedPings(buffer.size);
+    };
+
+    const watchId = navigator.geolocation.watchPosition(
+      position => {
+        if (buffer.add(toPing(position))) setBufferedPings(buffer.size);
+      },
+      err => console.error('Error watching location:', err),
+      { enableHighAccuracy: true, maximumAge: 10000, timeout: 30000 }
+    );
+    const timer = window.setInterval(flush, PING_FLUSH_INTERVAL_MS);
+    window.addEventListener('online', flush);
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      window.clearInterval(timer);
+      window.removeEventListener('online', flush);
+    };
+  }, [hasActiveJob]);
+
   const fetchJobs = async () => {
     try {
       setLoading(true);
@@ -96,28 +190,156 @@ export default function TransporterJobsPage() {
     }
   };
 
-  const handleArriveAtPickup = async (jobId: string) => {
-    // In a real implementation, this would call the geolock API to verify location
-    // and then update the job status
-    console.log(`Arrive at pickup for job: ${jobId}`);
-    // Call geolock verify API to ensure we're at the right location
-    // Then update status to 'arrived_pickup'
+  // Today's stop order from the route planner, if one has been made
+  const fetchRunSheet = async () => {
+    try {
+      const today = new Date();
+      const date = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+      setRunSheet(await logisticsApi.getMyRunSheet(date));
+    } catch (err) {
+      console.error('Error fetching run sheet:', err);
+    }
   };
 
-  const handleConfirmPickup = async (jobId: string) => {
-    // In a real implementation, this would:
-    // 1. Request an OTP for pickup
-    // 2. Show OTP input to user
-    // 3. Call custody event API with OTP and current location
-    console.log(`Confirm pickup for job: ${jobId}`);
+  // Jobs on the run sheet come first, in the order of their next stop
+  const runSheetOrder = new Map<string, number>();
+  runSheet?.stops.forEach(stop => {
+    if (stop.source === 'transport_job' && !runSheetOrder.has(stop.ref_id)) runSheetOrder.set(stop.ref_id, stop.sequence);
+  });
+  const orderedJobs = [...jobs].sort(
+    (a, b) => (runSheetOrder.get(a.id) ?? Infinity) - (runSheetOrder.get(b.id) ?? Infinity)
+  );
+
+  // Send a hand-off step to the custody API with the current GPS fix
+  const submitCustody = async (jobId: string, fields: Record<string, string>, photos: File[] = []) => {
+    setSubmittingJobId(jobId);
+    try {
+      const form = new FormData();
+      Object.entries(fields).forEach(([key, value]) => form.append(key, value));
+
+      if (fields.action !== 'resend_otp') {
+        const position = await getPosition();
+        form.append('lat', String(position.coords.latitude));
+        form.append('lng', String(position.coords.longitude));
+        form.append('accuracy_m', String(position.coords.accuracy));
+      }
+      photos.forEach(photo => form.append('photos', photo));
+
+      const response = await fetch(`/api/transporter/jobs/${jobId}/custody`, { method: 'POST', body: form });
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        let message = HANDOFF_ERRORS[result.error] ?? result.error ?? 'Hand-off failed';
+        if (result.error === 'outside_geofence' && result.distance_m) {
+          message = `${message} (${result.distance_m} m away)`;
+        }
+        toast.error(message);
+        return null;
+      }
+
+      return result;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not get your location');
+      return null;
+    } finally {
+      setSubmittingJobId(null);
+    }
   };
 
-  const handleArriveAtDrop = async (jobId: string) => {
-    console.log(`Arrive at drop for job: ${jobId}`);
+  const handleArrive = async (job: TransportJob, stage: CustodyStage) => {
+    const result = await submitCustody(job.id, { action: 'arrive', stage });
+    if (!result) return;
+
+    toast.success(result.otp_sent ? 'Arrival recorded. The customer has been sent their OTP.' : 'Arrival recorded');
+    setHandoff({ jobId: job.id, stage, otp: '', photos: [] });
+    fetchJobs();
   };
 
-  const handleConfirmDrop = async (jobId: string) => {
-    console.log(`Confirm drop for job: ${jobId}`);
+  const handleConfirm = async (job: TransportJob, stage: CustodyStage) => {
+    const pending = handoff?.jobId === job.id && handoff.stage === stage ? handoff : null;
+    if (!pending) {
+      setHandoff({ jobId: job.id, stage, otp: '', photos: [] });
+      return;
+    }
+
+    const fields: Record<string, string> = { action: 'confirm', stage };
+    if (requiresCustomerOtp(job.job_type, stage)) fields.otp = pending.otp;
+
+    const result = await submitCustody(job.id, fields, pending.photos);
+    if (!result) return;
+
+    toast.success(stage === 'pickup' ? 'Pickup confirmed' : 'Drop confirmed');
+    setHandoff(null);
+    fetchJobs();
+  };
+
+  const handleResendOtp = async (job: TransportJob, stage: CustodyStage) => {
+    const result = await submitCustody(job.id, { action: 'resend_otp', stage });
+    if (result) toast.success('A new OTP has been sent to the customer');
+  };
+
+  const handleArriveAtPickup = (job: TransportJob) => handleArrive(job, 'pickup');
+
+  const handleConfirmPickup = (job: TransportJob) => handleConfirm(job, 'pickup');
+
+  const handleArriveAtDrop = (job: TransportJob) => handleArrive(job, 'drop');
+
+  const handleConfirmDrop = (job: TransportJob) => handleConfirm(job, 'drop');
+
+  // OTP and photo capture for the step the transporter is confirming
+  const renderHandoffForm = (job: TransportJob, stage: CustodyStage) => {
+    if (handoff?.jobId !== job.id || handoff.stage !== stage) return null;
+    const needsOtp = requiresCustomerOtp(job.job_type, stage);
+
+    return (
+      <div className="w-full space-y-3 rounded-md border p-3">
+        {needsOtp && (
+          <div className="space-y-1">
+            <Label htmlFor={`otp-${job.id}`}>Customer OTP</Label>
+            <div className="flex gap-2">
+              <Input
+                id={`otp-${job.id}`}
+                inputMode="numeric"
+                maxLength={6}
+                value={handoff.otp}
+                onChange={(e) => setHandoff({ ...handoff, otp: e.target.value.replace(/\D/g, '') })}
+                placeholder="6-digit code"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={submittingJobId === job.id}
+                onClick={() => handleResendOtp(job, stage)}
+              >
+                Resend
+              </Button>
+            </div>
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label htmlFor={`photos-${job.id}`} className="flex items-center gap-2">
+            <Camera className="h-4 w-4" /> Photos of the device ({handoff.photos.length})
+          </Label>
+          <Input
+            id={`photos-${job.id}`}
+            type="file"
+            accept="image/*"
+            capture="environment"
+            multiple
+            onChange={(e) => setHandoff({ ...handoff, photos: Array.from(e.target.files ?? []) })}
+          />
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setHandoff(null)}
+        >
+          <XCircle className="h-4 w-4 mr-2" />
+          Cancel
+        </Button>
+      </div>
+    );
   };
 
   if (loading) {
@@ -130,7 +352,29 @@ export default function TransporterJobsPage() {
 
   return (
     <div className="p-6 max-w-6xl mx-auto">
-      <h1 className="text-3xl font-bold mb-6">My Transport Jobs</h1>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-3xl font-bold">My Transport Jobs</h1>
+        {hasActiveJob && (
+          <Badge variant="outline" className="flex items-center gap-1">
+            <Radio className="h-3 w-3" />
+            Sharing location{bufferedPings > 0 ? ` · ${bufferedPings} waiting to send` : ''}
+          </Badge>
+        )}
+      </div>
+
+      {runSheet && runSheet.stops.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Route className="h-5 w-5" />
+              Today's Run Sheet
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RunSheetView runSheet={runSheet} showNavigation />
+          </CardContent>
+        </Card>
+      )}
 
       {jobs.length === 0 ? (
         <div className="text-center py-12">
@@ -140,7 +384,7 @@ export default function TransporterJobsPage() {
         </div>
       ) : (
         <div className="space-y-6">
-          {jobs.map((job) => (
+          {orderedJobs.map((job) => (
             <Card key={job.id}>
               <CardHeader>
                 <div className="flex justify-between items-start">
@@ -192,7 +436,8 @@ export default function TransporterJobsPage() {
                     <div className="flex flex-wrap gap-2 pt-2">
                       {job.status === 'assigned' && (
                         <Button
-                          onClick={() => handleArriveAtPickup(job.id)}
+                          onClick={() => handleArriveAtPickup(job)}
+                          disabled={submittingJobId === job.id}
                           size="sm"
                         >
                           <Navigation className="h-4 w-4 mr-2" />
@@ -202,17 +447,20 @@ export default function TransporterJobsPage() {
 
                       {job.status === 'arrived_pickup' && (
                         <Button
-                          onClick={() => handleConfirmPickup(job.id)}
+                          onClick={() => handleConfirmPickup(job)}
+                          disabled={submittingJobId === job.id}
                           size="sm"
                         >
                           <CheckCircle className="h-4 w-4 mr-2" />
                           Confirm Pickup
                         </Button>
                       )}
+                      {job.status === 'arrived_pickup' && renderHandoffForm(job, 'pickup')}
 
                       {job.status === 'picked_up' && (
                         <Button
-                          onClick={() => handleArriveAtDrop(job.id)}
+                          onClick={() => handleArriveAtDrop(job)}
+                          disabled={submittingJobId === job.id}
                           size="sm"
                         >
                           <Navigation className="h-4 w-4 mr-2" />
@@ -222,13 +470,15 @@ export default function TransporterJobsPage() {
 
                       {job.status === 'arrived_drop' && (
                         <Button
-                          onClick={() => handleConfirmDrop(job.id)}
+                          onClick={() => handleConfirmDrop(job)}
+                          disabled={submittingJobId === job.id}
                           size="sm"
                         >
                           <CheckCircle className="h-4 w-4 mr-2" />
                           Confirm Drop
                         </Button>
                       )}
+                      {job.status === 'arrived_drop' && renderHandoffForm(job, 'drop')}
 
                       <Button
                         variant="outline"
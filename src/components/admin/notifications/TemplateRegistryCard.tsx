@@ -0,0 +1,205 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { notificationsApi } from '@/lib/api/notifications';
+import {
+    APPROVAL_TRANSITIONS,
+    getApprovalStatus,
+    getNotificationTemplateVersions,
+    listNotificationTemplates,
+    previewNotificationTemplate,
+    TemplateApproval,
+    TemplateApprovalStatus,
+    TemplateOutputFormat
+} from '@/lib/notifications/templates';
+import type { NotificationLanguage } from '@/lib/notifications/preferences';
+import { Card, CardHeader, CardTitle, CardContent, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Languages } from 'lucide-react';
+
+const LOCALE_LABELS: Record<NotificationLanguage, string> = {
+    en: 'English',
+    hi: 'हिन्दी',
+    te: 'తెలుగు',
+};
+
+const TRANSITION_LABELS: Record<TemplateApprovalStatus, string> = {
+    draft: 'Draft',
+    pending: 'Submit for review',
+    approved: 'Mark approved',
+    rejected: 'Mark rejected',
+    paused: 'Pause',
+    disabled: 'Disable',
+};
+
+const getApprovalBadge = (status: TemplateApprovalStatus) => {
+    switch (status) {
+        case 'approved': return <Badge className="bg-green-600">Approved</Badge>;
+        case 'pending': return <Badge variant="secondary">Pending review</Badge>;
+        case 'rejected': return <Badge variant="destructive">Rejected</Badge>;
+        case 'paused': return <Badge variant="outline">Paused</Badge>;
+        case 'disabled': return <Badge variant="outline">Disabled</Badge>;
+        default: return <Badge variant="outline">Draft</Badge>;
+    }
+};
+
+/**
+ * Per-locale previews of registry templates and their WhatsApp approval state
+ */
+export function TemplateRegistryCard() {
+    const { toast } = useToast();
+    const templates = useMemo(() => listNotificationTemplates(), []);
+    const [templateKey, setTemplateKey] = useState(templates[0]?.key ?? '');
+    const [version, setVersion] = useState<number | null>(null);
+    const [outputFormat, setOutputFormat] = useState<TemplateOutputFormat>('whatsapp');
+    const [approvals, setApprovals] = useState<TemplateApproval[]>([]);
+    const [updating, setUpdating] = useState<string | null>(null);
+
+    const versions = getNotificationTemplateVersions(templateKey);
+    const template = versions.find(candidate => candidate.version === version) ?? versions[0];
+    const previews = template ? previewNotificationTemplate(template, outputFormat) : [];
+
+    const fetchApprovals = async () => {
+        try {
+            setApprovals(await notificationsApi.getTemplateApprovals());
+        } catch (err) {
+            console.error('Error fetching template approvals:', err);
+        }
+    };
+
+    useEffect(() => {
+        fetchApprovals();
+    }, []);
+
+    const handleTransition = async (locale: NotificationLanguage, status: TemplateApprovalStatus) => {
+        if (!template) return;
+
+        let rejectionReason: string | null = null;
+        if (status === 'rejected') {
+            rejectionReason = window.prompt('Rejection reason from WhatsApp');
+            if (rejectionReason === null) return;
+        }
+
+        setUpdating(locale);
+        try {
+            await notificationsApi.updateTemplateApproval(
+                { template_key: template.key, version: template.version, locale },
+                status,
+                { provider_template_name: `${template.key}_v${template.version}_${locale}`, rejection_reason: rejectionReason }
+            );
+            await fetchApprovals();
+        } catch (err) {
+            console.error(err);
+            toast({ title: 'Update Failed', description: (err as Error).message, variant: 'destructive' });
+        } finally {
+            setUpdating(null);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Languages className="w-5 h-5" />
+                    Template Registry
+                </CardTitle>
+                <CardDescription>Preview each locale with example values and track WhatsApp approval</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium">Template</label>
+                        <Select value={templateKey} onValueChange={(key) => { setTemplateKey(key); setVersion(null); }}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {templates.map((candidate) => (
+                                    <SelectItem key={candidate.key} value={candidate.key}>{candidate.key}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium">Version</label>
+                        <Select value={String(template?.version ?? '')} onValueChange={(value) => setVersion(Number(value))}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {versions.map((candidate) => (
+                                    <SelectItem key={candidate.version} value={String(candidate.version)}>v{candidate.version}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium">Channel Format</label>
+                        <Select value={outputFormat} onValueChange={(value) => setOutputFormat(value as TemplateOutputFormat)}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="whatsapp">WhatsApp</SelectItem>
+                                <SelectItem value="sms">SMS</SelectItem>
+                                <SelectItem value="text">Plain Text</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </div>
+
+                {template && (
+                    <p className="text-sm text-muted-foreground">
+                        {template.description} · Channels: {template.channels.join(', ')}
+                    </p>
+                )}
+
+                <div className="space-y-3">
+                    {previews.map(({ locale, rendered, error }) => {
+                        const status = template ? getApprovalStatus(approvals, template.key, template.version, locale) : 'draft';
+                        const approval = approvals.find(row =>
+                            row.template_key === template?.key && row.version === template?.version && row.locale === locale
+                        );
+
+                        return (
+                            <div key={locale} className="rounded-md border p-3 space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <span className="font-medium">{LOCALE_LABELS[locale]}</span>
+                                    {getApprovalBadge(status)}
+                                </div>
+                                {rendered !== null ? (
+                                    <p className="text-sm whitespace-pre-wrap">{rendered}</p>
+                                ) : (
+                                    <p className="text-sm text-destructive">{error}</p>
+                                )}
+                                {status === 'rejected' && approval?.rejection_reason && (
+                                    <p className="text-xs text-muted-foreground">Rejected: {approval.rejection_reason}</p>
+                                )}
+                                {rendered !== null && APPROVAL_TRANSITIONS[status].length > 0 && (
+                                    <div className="flex gap-2">
+                                        {APPROVAL_TRANSITIONS[status].map((next) => (
+                                            <Button
+                                                key={next}
+                                                size="sm"
+                                                variant="outline"
+                                                disabled={updating === locale}
+                                                onClick={() => handleTransition(locale, next)}
+                                            >
+                                                {TRANSITION_LABELS[next]}
+                                            </Button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
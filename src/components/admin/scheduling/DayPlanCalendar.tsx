@@ -0,0 +1,281 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { ScheduleEntry, TechnicianDayPlan } from '@/lib/types/scheduling';
+import { fromEpochSeconds, MOVE_VIOLATION_LABELS, toEpochSeconds, toPlanProblem } from '@/lib/scheduling/calendar';
+import { MoveViolation, validateMove } from '@/lib/scheduling/day-plan';
+import { AlertTriangle, Clock, Pin, Route } from 'lucide-react';
+
+interface DayPlanCalendarProps {
+  plan: TechnicianDayPlan;
+  onMove: (ticketId: string, technicianId: string, startAt: string) => Promise<void>;
+  onOverrun: (ticketId: string, expectedEndAt: string) => Promise<void>;
+}
+
+interface DropPreview {
+  technicianId: string;
+  start: number;
+  violations: MoveViolation[];
+}
+
+const PX_PER_MINUTE = 2;
+const SNAP_MINUTES = 15;
+const LANE_HEIGHT = 56;
+const OVERRUN_OPTIONS_MIN = [15, 30, 60];
+
+const formatTime = (value: string | number) =>
+  new Date(typeof value === 'number' ? value * 1000 : value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const entryClasses = (entry: ScheduleEntry) => {
+  if (entry.status === 'done') return 'bg-slate-200 border-slate-300 text-slate-500';
+  if (entry.status === 'in_progress') return 'bg-amber-100 border-amber-400 text-amber-900';
+  if (entry.sla_breach) return 'bg-red-100 border-red-400 text-red-900';
+  return 'bg-blue-100 border-blue-400 text-blue-900';
+};
+
+export const DayPlanCalendar: React.FC<DayPlanCalendarProps> = ({ plan, onMove, onOverrun }) => {
+  const { toast } = useToast();
+  const [dragging, setDragging] = useState<{ ticketId: string; offsetPx: number } | null>(null);
+  const [preview, setPreview] = useState<DropPreview | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Same problem the server validates against
+  const scheduler = useMemo(() => toPlanProblem(plan), [plan]);
+
+  // Whole hours covering every shift
+  const axis = useMemo(() => {
+    if (plan.technicians.length === 0) return null;
+    const start = Math.min(...plan.technicians.map(technician => toEpochSeconds(technician.shift_start)));
+    const end = Math.max(...plan.technicians.map(technician => toEpochSeconds(technician.shift_end)));
+    const from = Math.floor(start / 3600) * 3600;
+    const to = Math.ceil(end / 3600) * 3600;
+    return { from, to, hours: Array.from({ length: (to - from) / 3600 }, (_, i) => from + i * 3600) };
+  }, [plan.technicians]);
+
+  if (!axis) {
+    return (
+      <div className="text-center p-8 text-muted-foreground border-2 border-dashed rounded-lg">
+        No technicians have a shift on this day.
+      </div>
+    );
+  }
+
+  const toPx = (seconds: number) => ((seconds - axis.from) / 60) * PX_PER_MINUTE;
+  const width = toPx(axis.to);
+  const selected = plan.entries.find(entry => entry.ticket_id === selectedId) ?? null;
+
+  const startDrag = (event: React.DragEvent<HTMLElement>, ticketId: string) => {
+    event.dataTransfer.setData('text/plain', ticketId);
+    event.dataTransfer.effectAllowed = 'move';
+    setDragging({ ticketId, offsetPx: event.clientX - event.currentTarget.getBoundingClientRect().left });
+  };
+
+  const endDrag = () => {
+    setDragging(null);
+    setPreview(null);
+  };
+
+  const dropTarget = (event: React.DragEvent<HTMLDivElement>, technicianId: string): DropPreview | null => {
+    if (!dragging) return null;
+    const left = event.clientX - event.currentTarget.getBoundingClientRect().left - dragging.offsetPx;
+    const minutes = Math.round(left / PX_PER_MINUTE / SNAP_MINUTES) * SNAP_MINUTES;
+    const start = axis.from + Math.max(0, minutes) * 60;
+    const move = { job_id: dragging.ticketId, technician_id: technicianId, start };
+    return { technicianId, start, violations: validateMove(scheduler.problem, scheduler.plan, move) };
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>, technicianId: string) => {
+    event.preventDefault();
+    const target = dropTarget(event, technicianId);
+    if (target && (target.start !== preview?.start || target.technicianId !== preview?.technicianId)) setPreview(target);
+  };
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>, technicianId: string) => {
+    event.preventDefault();
+    const target = dropTarget(event, technicianId);
+    const ticketId = dragging?.ticketId;
+    endDrag();
+    if (!target || !ticketId) return;
+
+    if (target.violations.length > 0) {
+      toast({
+        title: 'Move not allowed',
+        description: target.violations.map(violation => MOVE_VIOLATION_LABELS[violation]).join('. '),
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setBusy(true);
+    try {
+      await onMove(ticketId, technicianId, fromEpochSeconds(target.start));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleOverrun = async (entry: ScheduleEntry, minutes: number) => {
+    setBusy(true);
+    try {
+      await onOverrun(entry.ticket_id, new Date(new Date(entry.end_at).getTime() + minutes * 60000).toISOString());
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const draggedDuration = dragging
+    ? scheduler.problem.jobs.find(job => job.id === dragging.ticketId)?.duration_s ?? 0
+    : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto border rounded-lg">
+        <div style={{ width: width + 160 }}>
+          {/* Hour ruler */}
+          <div className="flex border-b bg-slate-50 text-xs text-muted-foreground">
+            <div className="w-40 shrink-0 px-3 py-2 font-medium">Technician</div>
+            <div className="relative h-8" style={{ width }}>
+              {axis.hours.map(hour => (
+                <div key={hour} className="absolute top-0 h-full border-l pl-1 pt-2" style={{ left: toPx(hour) }}>
+                  {formatTime(hour)}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {plan.technicians.map(technician => {
+            const entries = plan.entries.filter(entry => entry.technician_id === technician.technician_id);
+            const shiftStart = toEpochSeconds(technician.shift_start);
+            const shiftEnd = toEpochSeconds(technician.shift_end);
+            const ghost = preview?.technicianId === technician.technician_id ? preview : null;
+
+            return (
+              <div key={technician.technician_id} className="flex border-b last:border-b-0">
+                <div className="w-40 shrink-0 px-3 py-2">
+                  <div className="font-medium text-sm truncate">{technician.full_name || 'Technician'}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatTime(technician.shift_start)} - {formatTime(technician.shift_end)}
+                  </div>
+                </div>
+                <div
+                  className="relative"
+                  style={{ width, height: LANE_HEIGHT }}
+                  onDragOver={event => handleDragOver(event, technician.technician_id)}
+                  onDragLeave={() => setPreview(null)}
+                  onDrop={event => handleDrop(event, technician.technician_id)}
+                >
+                  {/* Shift */}
+                  <div
+                    className="absolute inset-y-0 bg-green-50"
+                    style={{ left: toPx(shiftStart), width: toPx(shiftEnd) - toPx(shiftStart) }}
+                  />
+                  {axis.hours.map(hour => (
+                    <div key={hour} className="absolute inset-y-0 border-l border-slate-100" style={{ left: toPx(hour) }} />
+                  ))}
+
+                  {entries.map(entry => {
+                    const start = toEpochSeconds(entry.start_at);
+                    const end = toEpochSeconds(entry.end_at);
+                    const movable = entry.status === 'planned' && !busy;
+                    return (
+                      <React.Fragment key={entry.id}>
+                        {entry.travel_s > 0 && (
+                          <div
+                            className="absolute top-1/2 h-0.5 bg-slate-300"
+                            style={{ left: toPx(start - entry.travel_s), width: (entry.travel_s / 60) * PX_PER_MINUTE }}
+                            title={`${Math.round(entry.travel_s / 60)} min travel`}
+                          />
+                        )}
+                        <div
+                          draggable={movable}
+                          onDragStart={event => startDrag(event, entry.ticket_id)}
+                          onDragEnd={endDrag}
+                          onClick={() => setSelectedId(entry.ticket_id)}
+                          className={`absolute top-1.5 bottom-1.5 rounded border px-2 text-xs overflow-hidden ${entryClasses(entry)} ${movable ? 'cursor-grab' : 'cursor-default'} ${selectedId === entry.ticket_id ? 'ring-2 ring-offset-1 ring-slate-500' : ''} ${dragging?.ticketId === entry.ticket_id ? 'opacity-40' : ''}`}
+                          style={{ left: toPx(start), width: Math.max(((end - start) / 60) * PX_PER_MINUTE, 24) }}
+                          title={`${entry.label} · ${formatTime(entry.start_at)} - ${formatTime(entry.end_at)}`}
+                        >
+                          <div className="flex items-center gap-1 font-medium truncate">
+                            {entry.pinned && <Pin className="h-3 w-3 shrink-0" />}
+                            {entry.sla_breach && <AlertTriangle className="h-3 w-3 shrink-0" />}
+                            <span className="truncate">{entry.label}</span>
+                          </div>
+                          <div className="truncate opacity-75">{formatTime(entry.start_at)} - {formatTime(entry.end_at)}</div>
+                        </div>
+                      </React.Fragment>
+                    );
+                  })}
+
+                  {ghost && (
+                    <div
+                      className={`absolute top-1 bottom-1 rounded border-2 border-dashed pointer-events-none ${ghost.violations.length > 0 ? 'border-red-500 bg-red-50/60' : 'border-green-600 bg-green-50/60'}`}
+                      style={{ left: toPx(ghost.start), width: (draggedDuration / 60) * PX_PER_MINUTE }}
+                    />
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {preview && preview.violations.length > 0 && (
+        <p className="text-sm text-red-600">
+          {preview.violations.map(violation => MOVE_VIOLATION_LABELS[violation]).join('. ')}
+        </p>
+      )}
+
+      {selected && (
+        <div className="p-4 border rounded-lg space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="font-semibold">{selected.label}</div>
+            <Badge variant={selected.sla_breach ? 'destructive' : 'secondary'}>
+              {selected.status === 'in_progress' ? 'In progress' : selected.status === 'done' ? 'Done' : selected.sla_breach ? 'SLA at risk' : 'Planned'}
+            </Badge>
+          </div>
+          <div className="text-sm text-muted-foreground flex flex-wrap gap-4">
+            <span className="flex items-center gap-1"><Clock className="h-4 w-4" /> {formatTime(selected.start_at)} - {formatTime(selected.end_at)}</span>
+            <span className="flex items-center gap-1"><Route className="h-4 w-4" /> {(selected.distance_m / 1000).toFixed(1)} km, {Math.round(selected.travel_s / 60)} min travel</span>
+            {selected.sla_due_at && <span>SLA due {formatTime(selected.sla_due_at)}</span>}
+          </div>
+          {selected.status !== 'done' && (
+            <div className="flex items-center gap-2 pt-1">
+              <span className="text-sm">Running over:</span>
+              {OVERRUN_OPTIONS_MIN.map(minutes => (
+                <Button key={minutes} size="sm" variant="outline" disabled={busy} onClick={() => handleOverrun(selected, minutes)}>
+                  +{minutes} min
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {plan.unplanned.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-sm font-semibold">Not planned ({plan.unplanned.length})</div>
+          <div className="flex flex-wrap gap-2">
+            {plan.unplanned.map(job => (
+              <div
+                key={job.ticket_id}
+                draggable={!busy}
+                onDragStart={event => startDrag(event, job.ticket_id)}
+                onDragEnd={endDrag}
+                className="px-3 py-2 border rounded-lg text-xs bg-white cursor-grab"
+              >
+                <div className="font-medium">{job.label}</div>
+                <div className="text-muted-foreground">
+                  {Math.round(job.repair_s / 60)} min · {job.reason.replace(/_/g, ' ')}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -9,6 +9,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { useToast } from '@/components/ui/use-toast';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useGuestBookingDraft } from '@/store/guestBookingDraft';
+import { getPersistentDeviceFingerprint } from '@/lib/auth-system/deviceFingerprint';
 
 interface AuthWallProps {
   open: boolean;
@@ -62,7 +63,8 @@ export const AuthWall: React.FC<AuthWallProps> = ({
         },
         body: JSON.stringify({
           phone_e164: formattedPhone,
-          channel: 'whatsapp'
+          channel: 'whatsapp',
+          device_fingerprint: await getPersistentDeviceFingerprint()
         }),
       });
 
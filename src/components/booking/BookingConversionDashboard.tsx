@@ -11,25 +11,34 @@ import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { useBookingFlow } from '@/components/booking/BookingFlowProvider';
+
+export interface BookingSessionStats {
+  totalSessions: number;
+  dropOffs: number;
+  bounceAttempts: number;
+  hesitations: number;
+  completionRate: number;
+}
 
 interface BookingConversionDashboardProps {
   className?: string;
+  // Drop-off detector stats; booking flows run on the server, so the caller supplies them
+  stats?: BookingSessionStats;
 }
 
+const EMPTY_SESSION_STATS: BookingSessionStats = {
+  totalSessions: 0,
+  dropOffs: 0,
+  bounceAttempts: 0,
+  hesitations: 0,
+  completionRate: 0,
+};
+
 export const BookingConversionDashboard: React.FC<BookingConversionDashboardProps> = ({ 
-  className = '' 
+  className = '',
+  stats
 }) => {
-  const { bookingFlowEngine } = useBookingFlow();
-  
-  // Get session stats from the drop-off detector
-  const sessionStats = bookingFlowEngine ? bookingFlowEngine.getSessionStats() : {
-    totalSessions: 0,
-    dropOffs: 0,
-    bounceAttempts: 0,
-    hesitations: 0,
-    completionRate: 0,
-  };
+  const sessionStats = stats ?? EMPTY_SESSION_STATS;
 
   // Calculate additional metrics
   const dropOffRate = sessionStats.totalSessions > 0 
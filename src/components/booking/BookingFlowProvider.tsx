@@ -7,14 +7,11 @@
 
 'use client';
 
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { BookingFlowEngine } from '@/lib/booking/BookingFlowEngine';
-import { DropOffDetector } from '@/lib/booking/DropOffDetector';
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
 import { BookingState } from '@/lib/booking/BookingStates';
-import { BookingEvent } from '@/lib/booking/EventMap';
+import { bookingFlowApi, BookingFlowAction, BookingFlowResponse } from '@/lib/api/booking-flows';
 
 interface BookingFlowContextType {
-  bookingFlowEngine: BookingFlowEngine;
   currentBookingId: string | null;
   customerConfidence: number;
   detectedHesitationPoints: string[];
@@ -33,19 +30,32 @@ interface BookingFlowProviderProps {
   children: ReactNode;
 }
 
+// Flows are run by the server-side engine, so they survive reloads and instance changes
+const callFlowApi = async (request: Promise<BookingFlowResponse>): Promise<BookingFlowResponse> => {
+  try {
+    return await request;
+  } catch (error) {
+    console.error('Booking flow request failed:', error);
+    return { success: false };
+  }
+};
+
 export const BookingFlowProvider: React.FC<BookingFlowProviderProps> = ({ children }) => {
-  const [bookingFlowEngine] = useState(() => new BookingFlowEngine());
-  const [dropOffDetector] = useState(() => new DropOffDetector());
   const [currentBookingId, setCurrentBookingId] = useState<string | null>(null);
+  // Mirrors currentBookingId for calls made before the next render
+  const bookingIdRef = useRef<string | null>(null);
   const [customerConfidence, setCustomerConfidence] = useState<number>(70);
   const [detectedHesitationPoints, setDetectedHesitationPoints] = useState<string[]>([]);
   const [bookingState, setBookingState] = useState<BookingState | null>(null);
   const [sessionId] = useState(() => `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
 
-  // Initialize the booking engine with the drop-off detector
-  useEffect(() => {
-    // Additional setup if needed
-  }, []);
+  const setActiveBooking = (bookingId: string | null) => {
+    bookingIdRef.current = bookingId;
+    setCurrentBookingId(bookingId);
+  };
+
+  const applyAction = (action: BookingFlowAction): Promise<BookingFlowResponse> =>
+    callFlowApi(bookingFlowApi.apply(bookingIdRef.current!, action));
 
   const initializeBooking = async (
     bookingId: string,
@@ -53,24 +63,20 @@ export const BookingFlowProvider: React.FC<BookingFlowProviderProps> = ({ childr
     deviceType?: string,
     deviceBrand?: string
   ): Promise<boolean> => {
-    const result = await bookingFlowEngine.initializeBookingFlow(
-      bookingId,
-      customerId,
-      sessionId,
-      deviceType,
-      deviceBrand
+    const result = await callFlowApi(
+      bookingFlowApi.start(bookingId, customerId, sessionId, deviceType, deviceBrand)
     );
 
     if (result.success) {
-      setCurrentBookingId(bookingId);
-      setBookingState(bookingFlowEngine.getBookingContext(bookingId)?.stateMachine.currentState || null);
+      setActiveBooking(bookingId);
+      setBookingState(result.newState || null);
       return true;
     }
     return false;
   };
 
   const updateBookingState = async (newStateStr: string, reason?: string): Promise<boolean> => {
-    if (!currentBookingId) {
+    if (!bookingIdRef.current) {
       console.warn('No active booking to update');
       return false;
     }
@@ -82,7 +88,7 @@ export const BookingFlowProvider: React.FC<BookingFlowProviderProps> = ({ childr
     }
 
     const newState = newStateStr as BookingState;
-    const result = await bookingFlowEngine.transitionBookingState(currentBookingId, newState, reason);
+    const result = await applyAction({ action: 'transition', new_state: newState, reason });
 
     if (result.success) {
       setBookingState(newState);
@@ -96,7 +102,7 @@ export const BookingFlowProvider: React.FC<BookingFlowProviderProps> = ({ childr
     hesitationPoints: string[] = [],
     riskFactors: string[] = []
   ): Promise<void> => {
-    if (!currentBookingId) {
+    if (!bookingIdRef.current) {
       console.warn('No active booking to update confidence for');
       return;
     }
@@ -104,32 +110,32 @@ export const BookingFlowProvider: React.FC<BookingFlowProviderProps> = ({ childr
     setCustomerConfidence(confidence);
     setDetectedHesitationPoints(hesitationPoints);
 
-    await bookingFlowEngine.updateCustomerConfidence(
-      currentBookingId,
+    await applyAction({
+      action: 'confidence',
       confidence,
-      hesitationPoints,
-      riskFactors
-    );
+      hesitation_points: hesitationPoints,
+      risk_factors: riskFactors,
+    });
   };
 
   const trackPageView = async (pageUrl: string, viewName: string): Promise<void> => {
-    if (!currentBookingId) {
+    if (!bookingIdRef.current) {
       console.warn('No active booking to track page view for');
       return;
     }
 
-    await bookingFlowEngine.recordPageView(currentBookingId, pageUrl, viewName);
+    await applyAction({ action: 'page_view', page_url: pageUrl, view_name: viewName });
   };
 
   const completeBooking = async (): Promise<boolean> => {
-    if (!currentBookingId) {
+    if (!bookingIdRef.current) {
       console.warn('No active booking to complete');
       return false;
     }
 
-    const result = await bookingFlowEngine.completeBookingFlow(currentBookingId);
+    const result = await applyAction({ action: 'complete' });
     if (result.success) {
-      setCurrentBookingId(null);
+      setActiveBooking(null);
       setBookingState(null);
       return true;
     }
@@ -137,14 +143,14 @@ export const BookingFlowProvider: React.FC<BookingFlowProviderProps> = ({ childr
   };
 
   const cancelBooking = async (reason?: string): Promise<boolean> => {
-    if (!currentBookingId) {
+    if (!bookingIdRef.current) {
       console.warn('No active booking to cancel');
       return false;
     }
 
-    const result = await bookingFlowEngine.cancelBookingFlow(currentBookingId, reason);
+    const result = await applyAction({ action: 'cancel', reason });
     if (result.success) {
-      setCurrentBookingId(null);
+      setActiveBooking(null);
       setBookingState(null);
       return true;
     }
@@ -177,7 +183,6 @@ export const BookingFlowProvider: React.FC<BookingFlowProviderProps> = ({ childr
   }, [currentBookingId]);
 
   const contextValue: BookingFlowContextType = {
-    bookingFlowEngine,
     currentBookingId,
     customerConfidence,
     detectedHesitationPoints,
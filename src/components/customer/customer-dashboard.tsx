@@ -5,6 +5,7 @@ import { useCustomer } from '@/components/customer/customer-provider';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { TicketTimeline } from './ticket-timeline';
+import { DeviceCustodyTrail } from './device-custody-trail';
 import { QuotationCard } from './quotation-card';
 import { SLACountdown } from './sla-countdown';
 import { PickupStatusCard } from './pickup-status-card';
@@ -130,7 +131,10 @@ export default function CustomerDashboard() {
             </CardHeader>
             <CardContent>
               {selectedTicket ? (
-                <TicketTimeline ticket={selectedTicket} />
+                <>
+                  <DeviceCustodyTrail ticket={selectedTicket} />
+                  <TicketTimeline ticket={selectedTicket} />
+                </>
               ) : (
                 <div className="text-center py-8 text-muted-foreground">
                   No repair selected
@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { customerAPI, DeviceCustody, Ticket } from '@/lib/api/customer';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Building2, Camera, Home, ShieldCheck, Truck } from 'lucide-react';
+
+interface DeviceCustodyTrailProps {
+  ticket: Ticket;
+}
+
+const HOLDER_LABELS = {
+  customer: 'With you',
+  transporter: 'With our delivery partner',
+  branch: 'At our service centre',
+} as const;
+
+const HOLDER_ICONS = {
+  customer: Home,
+  transporter: Truck,
+  branch: Building2,
+} as const;
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : null);
+
+export function DeviceCustodyTrail({ ticket }: DeviceCustodyTrailProps) {
+  const [custody, setCustody] = useState<DeviceCustody | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        const data = await customerAPI.getCustody(ticket.id);
+        if (!cancelled) setCustody(data);
+      } catch (error) {
+        console.error('Error loading device custody:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [ticket.id]);
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full mb-6" />;
+  }
+
+  if (!custody?.current_holder) {
+    return null;
+  }
+
+  const eventsById = new Map(custody.events.map(event => [event.id, event]));
+  const CurrentIcon = HOLDER_ICONS[custody.current_holder.type];
+
+  return (
+    <div className="mb-6 rounded-md border p-4">
+      <div className="flex items-center gap-3">
+        <CurrentIcon className="h-5 w-5 text-primary" />
+        <div>
+          <p className="text-sm text-muted-foreground">Your device right now</p>
+          <p className="font-semibold">
+            {HOLDER_LABELS[custody.current_holder.type]}
+            {custody.current_holder.type !== 'customer' && custody.current_holder.name ? ` (${custody.current_holder.name})` : ''}
+          </p>
+        </div>
+      </div>
+
+      {custody.chain.length > 1 && (
+        <ol className="mt-4 space-y-2 border-l pl-4">
+          {custody.chain.map((period, index) => {
+            const Icon = HOLDER_ICONS[period.holder.type];
+            const handoff = period.started_by_event_id ? eventsById.get(period.started_by_event_id) : undefined;
+
+            return (
+              <li key={`${period.started_by_event_id ?? 'start'}-${index}`} className="text-sm">
+                <div className="flex items-center gap-2">
+                  <Icon className="h-4 w-4 text-muted-foreground" />
+                  <span className="font-medium">
+                    {period.holder.type === 'customer' ? 'You' : period.holder.name ?? HOLDER_LABELS[period.holder.type]}
+                  </span>
+                  {handoff?.otp_verified && (
+                    <Badge variant="secondary" className="gap-1">
+                      <ShieldCheck className="h-3 w-3" /> OTP verified
+                    </Badge>
+                  )}
+                  {handoff && handoff.photo_count > 0 && (
+                    <Badge variant="outline" className="gap-1">
+                      <Camera className="h-3 w-3" /> {handoff.photo_count}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-muted-foreground ml-6">
+                  {period.from ? `From ${formatTime(period.from)}` : 'Before pickup'}
+                  {period.until ? ` until ${formatTime(period.until)}` : ' - now'}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
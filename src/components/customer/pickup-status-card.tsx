@@ -1,18 +1,65 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Button } from '@/components/ui/button';
-import { Ticket } from '@/lib/api/customer';
-import { Truck, MapPin, Calendar, CheckCircle } from 'lucide-react';
+import { customerAPI, Ticket, TicketTracking } from '@/lib/api/customer';
+import { cacheTransporterState, getCachedTransporterState } from '@/lib/pwa-cache-service';
+import { Truck, MapPin, Calendar, CheckCircle, Clock, Navigation } from 'lucide-react';
 
 interface PickupStatusCardProps {
   ticket: Ticket | null;
 }
 
+const TRACKING_REFRESH_MS = 30_000;
+
+// Statuses where the ETA is still moving and worth polling for
+const LIVE_STATUSES: TicketTracking['status'][] = ['awaiting_rider', 'on_the_way', 'arrived'];
+
+// The transporter cache also holds older snapshots in another shape
+const isTrackingSnapshot = (value: any): value is TicketTracking =>
+  !!value && typeof value.status === 'string' && 'eta_at' in value && 'live' in value;
+
+const minutesUntil = (value: string) => Math.max(0, Math.round((new Date(value).getTime() - Date.now()) / 60000));
+
+// About a kilometre around the rider's rounded position; the exact fix never reaches the browser
+const mapUrl = ({ lat, lng }: { lat: number; lng: number }) =>
+  `https://www.openstreetmap.org/export/embed.html?bbox=${lng - 0.01},${lat - 0.01},${lng + 0.01},${lat + 0.01}&layer=mapnik&marker=${lat},${lng}`;
+
 export function PickupStatusCard({ ticket }: PickupStatusCardProps) {
-  // In a real implementation, this would show detailed transporter pickup/drop status
-  // For now, using the available fields in the ticket
+  const [tracking, setTracking] = useState<TicketTracking | null>(null);
+  const [fromCache, setFromCache] = useState(false);
+  const ticketId = ticket?.id ?? null;
+
+  useEffect(() => {
+    if (!ticketId) return;
+    let cancelled = false;
+    let timer: number | undefined;
+
+    const load = async () => {
+      try {
+        const data = await customerAPI.getTracking(ticketId);
+        if (cancelled) return;
+        setTracking(data);
+        setFromCache(false);
+        await cacheTransporterState(ticketId, data);
+        if (LIVE_STATUSES.includes(data.status)) timer = window.setTimeout(load, TRACKING_REFRESH_MS);
+      } catch (error) {
+        console.error('Error loading transporter tracking:', error);
+        const cached = await getCachedTransporterState(ticketId);
+        if (cancelled) return;
+        setTracking(isTrackingSnapshot(cached) ? cached : null);
+        setFromCache(isTrackingSnapshot(cached));
+        timer = window.setTimeout(load, TRACKING_REFRESH_MS);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [ticketId]);
 
   if (!ticket) {
     return (
@@ -27,6 +74,42 @@ export function PickupStatusCard({ ticket }: PickupStatusCardProps) {
     );
   }
 
+  // Live status from the transport job, when there is one
+  const getTrackingInfo = () => {
+    if (!tracking || tracking.status === 'not_scheduled') return null;
+    const toCustomer = tracking.destination === 'customer';
+
+    switch (tracking.status) {
+      case 'completed':
+        return null;
+      case 'awaiting_rider':
+        return {
+          status: 'Awaiting Transport',
+          icon: <Calendar className="h-5 w-5" />,
+          description: 'A delivery partner will head out at the scheduled time',
+          variant: 'secondary' as const
+        };
+      case 'arrived':
+        return {
+          status: 'Arrived',
+          icon: <MapPin className="h-5 w-5" />,
+          description: toCustomer ? 'Our delivery partner has arrived' : 'Your device is being handed over at our service centre',
+          variant: 'default' as const
+        };
+      default:
+        return {
+          status: toCustomer ? 'On the Way' : 'In Transit',
+          icon: <Truck className="h-5 w-5" />,
+          description: toCustomer
+            ? 'Our delivery partner is on the way to you'
+            : tracking.stage === 'drop'
+              ? 'Your device is on its way to our service centre'
+              : 'Your device is being collected from our service centre',
+          variant: 'secondary' as const
+        };
+    }
+  };
+
   // Determine the current transporter status based on ticket fields
   const getStatusInfo = () => {
     if (ticket.status === 'completed') {
@@ -61,7 +144,9 @@ export function PickupStatusCard({ ticket }: PickupStatusCardProps) {
     }
   };
 
-  const statusInfo = getStatusInfo();
+  const trackingInfo = getTrackingInfo();
+  const statusInfo = trackingInfo ?? getStatusInfo();
+  const eta = tracking?.status === 'on_the_way' ? tracking.eta_at : null;
 
   return (
     <Card>
@@ -71,6 +156,7 @@ export function PickupStatusCard({ ticket }: PickupStatusCardProps) {
           <Badge variant={statusInfo.variant}>
             {statusInfo.status}
           </Badge>
+          {fromCache && <span className="text-xs text-muted-foreground">Offline, last known status</span>}
         </div>
       </CardHeader>
       <CardContent>
@@ -81,7 +167,44 @@ export function PickupStatusCard({ ticket }: PickupStatusCardProps) {
           <div className="flex-1">
             <p className="text-sm">{statusInfo.description}</p>
 
-            {ticket.assigned_technician_id && ticket.status !== 'completed' && (
+            {tracking && eta && (
+              <div className="mt-3 pt-3 border-t space-y-1">
+                <p className="flex items-center gap-2 font-medium">
+                  <Clock className="h-4 w-4" />
+                  {minutesUntil(eta) <= 1 ? 'Arriving now' : `Arriving in about ${minutesUntil(eta)} min`}
+                  <span className="text-xs text-muted-foreground font-normal">
+                    ({new Date(eta).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })})
+                  </span>
+                </p>
+                {!!tracking.stops_before && (
+                  <p className="text-xs text-muted-foreground">
+                    {tracking.stops_before === 1 ? '1 stop' : `${tracking.stops_before} stops`} before {tracking.destination === 'customer' ? 'yours' : 'this one'}
+                  </p>
+                )}
+                {!tracking.live && tracking.last_update_at && (
+                  <p className="text-xs text-amber-600">
+                    Location updates paused, last update {new Date(tracking.last_update_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {tracking?.rider_position && !fromCache && (
+              <div className="mt-3 space-y-1">
+                <iframe
+                  title="Approximate delivery partner location"
+                  src={mapUrl(tracking.rider_position)}
+                  className="h-48 w-full rounded-md border"
+                  loading="lazy"
+                />
+                <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Navigation className="h-3 w-3" />
+                  Approximate location, shown only while your delivery partner is nearby
+                </p>
+              </div>
+            )}
+
+            {!trackingInfo && ticket.assigned_technician_id && ticket.status !== 'completed' && (
               <div className="mt-3 pt-3 border-t">
                 <p className="text-xs text-muted-foreground">In Transit</p>
                 <p className="font-medium">Item is with technician for repair</p>
@@ -92,4 +215,5 @@ export function PickupStatusCard({ ticket }: PickupStatusCardProps) {
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
+
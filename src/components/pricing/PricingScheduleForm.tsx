@@ -0,0 +1,191 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { CalendarClock } from 'lucide-react';
+import { toast } from 'sonner';
+import { PricingClient } from '@/lib/pricing/client';
+
+interface PricingScheduleFormProps {
+    kind: 'activation' | 'override';
+    /** Ruleset to activate, for 'activation' */
+    ruleset?: { id: string; version: string };
+    /** Fixed city for managers; admins enter one */
+    cityId?: string | null;
+    onScheduled?: () => void;
+}
+
+const EXAMPLE_PATCH = JSON.stringify({ urgency_surcharge_pct: { same_day: 80, next_day: 40 } }, null, 2);
+
+// datetime-local values are in the browser's timezone
+const toIso = (value: string) => (value ? new Date(value).toISOString() : null);
+
+export const PricingScheduleForm: React.FC<PricingScheduleFormProps> = ({ kind, ruleset, cityId, onScheduled }) => {
+    const [startsAt, setStartsAt] = useState('');
+    const [endsAt, setEndsAt] = useState('');
+    const [city, setCity] = useState(cityId || '');
+    const [serviceCode, setServiceCode] = useState('');
+    const [patch, setPatch] = useState(EXAMPLE_PATCH);
+    const [priority, setPriority] = useState('0');
+    const [maxBreachPct, setMaxBreachPct] = useState('10');
+    const [minAcceptancePct, setMinAcceptancePct] = useState('');
+    const [reason, setReason] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+
+    const isOverride = kind === 'override';
+    const isValid = !!startsAt && reason.trim().length > 5 && (!isOverride || (!!endsAt && !!(cityId || city.trim())));
+
+    const handleSubmit = async () => {
+        if (!isValid) return;
+
+        let rulesPatch: Record<string, unknown> | undefined;
+        if (isOverride) {
+            try {
+                rulesPatch = JSON.parse(patch);
+            } catch {
+                toast.error('Rules patch must be valid JSON');
+                return;
+            }
+            if (!rulesPatch || typeof rulesPatch !== 'object' || Array.isArray(rulesPatch)) {
+                toast.error('Rules patch must be a JSON object');
+                return;
+            }
+        }
+
+        setSubmitting(true);
+        try {
+            await PricingClient.schedulePricingChange({
+                kind,
+                ruleset_id: ruleset?.id,
+                city_id: isOverride ? (cityId || city.trim()) : undefined,
+                service_code: isOverride ? serviceCode.trim() || undefined : undefined,
+                rules_patch: rulesPatch,
+                priority: isOverride ? Number(priority) || 0 : undefined,
+                starts_at: toIso(startsAt)!,
+                ends_at: toIso(endsAt),
+                reason: reason.trim(),
+                max_guardrail_breach_pct: maxBreachPct ? Number(maxBreachPct) : null,
+                min_acceptance_pct: minAcceptancePct ? Number(minAcceptancePct) : null,
+            });
+            toast.success(isOverride ? 'Override scheduled' : `Ruleset ${ruleset?.version} scheduled`);
+            onScheduled?.();
+        } catch (err: any) {
+            toast.error(err.message);
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                    <Label className="text-xs text-slate-400">Starts</Label>
+                    <Input
+                        type="datetime-local"
+                        value={startsAt}
+                        onChange={e => setStartsAt(e.target.value)}
+                        className="bg-slate-900 border-slate-700"
+                    />
+                </div>
+                <div className="space-y-1">
+                    <Label className="text-xs text-slate-400">Ends {isOverride ? '' : '(optional, reverts)'}</Label>
+                    <Input
+                        type="datetime-local"
+                        value={endsAt}
+                        onChange={e => setEndsAt(e.target.value)}
+                        className="bg-slate-900 border-slate-700"
+                    />
+                </div>
+            </div>
+
+            {isOverride && (
+                <>
+                    <div className="grid grid-cols-3 gap-3">
+                        <div className="space-y-1">
+                            <Label className="text-xs text-slate-400">City</Label>
+                            <Input
+                                value={cityId || city}
+                                onChange={e => setCity(e.target.value)}
+                                disabled={!!cityId}
+                                placeholder="City ID"
+                                className="bg-slate-900 border-slate-700 font-mono text-xs"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label className="text-xs text-slate-400">Service (optional)</Label>
+                            <Input
+                                value={serviceCode}
+                                onChange={e => setServiceCode(e.target.value)}
+                                placeholder="All services"
+                                className="bg-slate-900 border-slate-700 font-mono text-xs"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label className="text-xs text-slate-400">Priority</Label>
+                            <Input
+                                type="number"
+                                value={priority}
+                                onChange={e => setPriority(e.target.value)}
+                                className="bg-slate-900 border-slate-700"
+                            />
+                        </div>
+                    </div>
+                    <div className="space-y-1">
+                        <Label className="text-xs text-slate-400">Rules patch (merged over the active ruleset; higher priority wins)</Label>
+                        <Textarea
+                            value={patch}
+                            onChange={e => setPatch(e.target.value)}
+                            className="bg-slate-900 border-slate-700 font-mono text-xs h-28"
+                        />
+                    </div>
+                </>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                    <Label className="text-xs text-slate-400">Rollback if guardrail breaches exceed %</Label>
+                    <Input
+                        type="number"
+                        value={maxBreachPct}
+                        onChange={e => setMaxBreachPct(e.target.value)}
+                        placeholder="No limit"
+                        className="bg-slate-900 border-slate-700"
+                    />
+                </div>
+                <div className="space-y-1">
+                    <Label className="text-xs text-slate-400">Rollback if acceptance falls below %</Label>
+                    <Input
+                        type="number"
+                        value={minAcceptancePct}
+                        onChange={e => setMinAcceptancePct(e.target.value)}
+                        placeholder="No limit"
+                        className="bg-slate-900 border-slate-700"
+                    />
+                </div>
+            </div>
+
+            <div className="space-y-1">
+                <Label className="text-xs text-slate-400">Reason</Label>
+                <Textarea
+                    placeholder={isOverride ? 'e.g. Diwali weekend surge' : 'Why is this ruleset going live?'}
+                    value={reason}
+                    onChange={e => setReason(e.target.value)}
+                    className="bg-slate-900 border-slate-700 h-20 resize-none"
+                />
+            </div>
+
+            <Button
+                onClick={handleSubmit}
+                disabled={submitting || !isValid}
+                className={`w-full ${isValid ? 'bg-violet-600 hover:bg-violet-700' : 'bg-slate-800 text-slate-500'}`}
+            >
+                <CalendarClock className="w-4 h-4 mr-2" />
+                {submitting ? 'Scheduling...' : isOverride ? 'Schedule Override' : 'Schedule Activation'}
+            </Button>
+        </div>
+    );
+};
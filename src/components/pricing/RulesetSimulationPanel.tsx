@@ -0,0 +1,265 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Download, FlaskConical, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { PricingClient, RulesetSimulationResponse } from '@/lib/pricing/client';
+import {
+    GuardrailHit,
+    SimulationBaseRate,
+    SimulationGroup,
+    SimulationGuardrail,
+    simulationReportToCsv,
+} from '@/lib/pricing/simulator';
+
+interface RulesetSimulationPanelProps {
+    ruleset: { id: string; version: string };
+    /** Fixed city for managers; admins may enter one or simulate all cities */
+    cityId?: string | null;
+    onComplete?: (result: RulesetSimulationResponse) => void;
+}
+
+const GUARDRAIL_LABELS: Record<GuardrailHit, string> = {
+    max_surge: 'Surge cap',
+    max_discount: 'Discount cap',
+    floor_margin: 'Margin floor',
+    min_total: 'Min total',
+    max_total: 'Max total',
+};
+
+const EMPTY_RATE = { service_code: '', labor_base: '', diagnostic_fee: '', transport_base: '', parts_markup_pct: '' };
+const EMPTY_GUARDRAIL = { service_code: '', min_total: '', max_total: '', max_discount_pct: '', max_surge_pct: '', floor_margin_pct: '' };
+
+const formatInr = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+const deltaClass = (delta: number) =>
+    delta > 0 ? 'text-emerald-400' : delta < 0 ? 'text-red-400' : 'text-slate-400';
+
+function DeltaTable({ title, groups }: { title: string; groups: SimulationGroup[] }) {
+    return (
+        <div className="space-y-2">
+            <h5 className="text-xs font-medium text-slate-400 uppercase tracking-wider">{title}</h5>
+            <div className="border border-slate-800 rounded overflow-hidden">
+                <table className="w-full text-xs">
+                    <thead className="bg-slate-900 text-slate-500">
+                        <tr>
+                            <th className="text-left p-2 font-normal">Key</th>
+                            <th className="text-right p-2 font-normal">Quotes</th>
+                            <th className="text-right p-2 font-normal">Delta</th>
+                            <th className="text-right p-2 font-normal">Δ %</th>
+                            <th className="text-right p-2 font-normal">Guardrail</th>
+                            <th className="text-right p-2 font-normal">Margin Δ</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {groups.map((group) => (
+                            <tr key={group.key} className="border-t border-slate-800">
+                                <td className="p-2 font-mono text-slate-300 truncate max-w-[140px]">{group.key}</td>
+                                <td className="p-2 text-right text-slate-400">{group.quote_count}</td>
+                                <td className={`p-2 text-right font-mono ${deltaClass(group.delta)}`}>{formatInr(group.delta)}</td>
+                                <td className={`p-2 text-right font-mono ${deltaClass(group.delta)}`}>
+                                    {group.delta_pct === null ? '-' : `${group.delta_pct}%`}
+                                </td>
+                                <td className="p-2 text-right text-amber-500">{group.guardrail_quotes}</td>
+                                <td className={`p-2 text-right font-mono ${deltaClass(group.margin_delta)}`}>{formatInr(group.margin_delta)}</td>
+                            </tr>
+                        ))}
+                        {groups.length === 0 && (
+                            <tr>
+                                <td colSpan={6} className="p-3 text-center text-slate-600">No quotes in range</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
+
+export const RulesetSimulationPanel: React.FC<RulesetSimulationPanelProps> = ({ ruleset, cityId, onComplete }) => {
+    const [days, setDays] = useState('30');
+    const [city, setCity] = useState(cityId || '');
+    const [rate, setRate] = useState(EMPTY_RATE);
+    const [guardrail, setGuardrail] = useState(EMPTY_GUARDRAIL);
+    const [running, setRunning] = useState(false);
+    const [result, setResult] = useState<RulesetSimulationResponse | null>(null);
+
+    const scopedCity = cityId || city.trim();
+
+    const handleRun = async () => {
+        const base_rates: SimulationBaseRate[] = [];
+        const guardrails: SimulationGuardrail[] = [];
+
+        if (rate.service_code.trim()) {
+            base_rates.push({
+                city_id: scopedCity,
+                service_code: rate.service_code.trim(),
+                labor_base: Number(rate.labor_base),
+                diagnostic_fee: Number(rate.diagnostic_fee),
+                transport_base: Number(rate.transport_base),
+                parts_markup_pct: Number(rate.parts_markup_pct),
+            });
+        }
+        if (guardrail.service_code.trim()) {
+            guardrails.push({
+                city_id: scopedCity,
+                service_code: guardrail.service_code.trim(),
+                min_total: Number(guardrail.min_total),
+                max_total: Number(guardrail.max_total),
+                max_discount_pct: Number(guardrail.max_discount_pct),
+                max_surge_pct: Number(guardrail.max_surge_pct),
+                floor_margin_pct: Number(guardrail.floor_margin_pct),
+            });
+        }
+
+        if ((base_rates.length || guardrails.length) && !scopedCity) {
+            toast.error('Enter a city to simulate draft base rates or guardrails');
+            return;
+        }
+
+        setRunning(true);
+        try {
+            const response = await PricingClient.simulateRuleset({
+                ruleset_id: ruleset.id,
+                days: Number(days),
+                city_id: scopedCity || undefined,
+                base_rates,
+                guardrails,
+            });
+            setResult(response);
+            onComplete?.(response);
+        } catch (err: any) {
+            toast.error(err.message);
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const handleExport = () => {
+        if (!result) return;
+        const blob = new Blob([simulationReportToCsv(result.report)], { type: 'text/csv' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `ruleset-${result.ruleset.version}-simulation-${result.days}d.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const summary = result?.report.summary;
+
+    return (
+        <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                    <Label>Replay last N days</Label>
+                    <Input
+                        type="number"
+                        min={1}
+                        max={90}
+                        value={days}
+                        onChange={e => setDays(e.target.value)}
+                        className="bg-slate-900 border-slate-700 font-mono"
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label>City</Label>
+                    <Input
+                        value={cityId || city}
+                        onChange={e => setCity(e.target.value)}
+                        disabled={!!cityId}
+                        placeholder="All cities"
+                        className="bg-slate-900 border-slate-700 font-mono"
+                    />
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <Label className="text-slate-400">Draft Base Rate (optional)</Label>
+                <div className="grid grid-cols-5 gap-2">
+                    <Input placeholder="Service code" value={rate.service_code} onChange={e => setRate({ ...rate, service_code: e.target.value })} className="bg-slate-900 border-slate-700 font-mono" />
+                    <Input type="number" placeholder="Labor" value={rate.labor_base} onChange={e => setRate({ ...rate, labor_base: e.target.value })} className="bg-slate-900 border-slate-700 font-mono" />
+                    <Input type="number" placeholder="Diagnostic" value={rate.diagnostic_fee} onChange={e => setRate({ ...rate, diagnostic_fee: e.target.value })} className="bg-slate-900 border-slate-700 font-mono" />
+                    <Input type="number" placeholder="Transport" value={rate.transport_base} onChange={e => setRate({ ...rate, transport_base: e.target.value })} className="bg-slate-900 border-slate-700 font-mono" />
+                    <Input type="number" placeholder="Markup %" value={rate.parts_markup_pct} onChange={e => setRate({ ...rate, parts_markup_pct: e.target.value })} className="bg-slate-900 border-slate-700 font-mono" />
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <Label className="text-slate-400">Draft Guardrail (optional)</Label>
+                <div className="grid grid-cols-6 gap-2">
+                    <Input placeholder="Service code" value={guardrail.service_code} onChange={e => setGuardrail({ ...guardrail, service_code: e.target.value })} className="bg-slate-900 border-slate-700 font-mono" />
+                    <Input type="number" placeholder="Min total" value={guardrail.min_total} onChange={e => setGuardrail({ ...guardrail, min_total: e.target.value })} className="bg-slate-900 border-slate-700 font-mono" />
+                    <Input type="number" placeholder="Max total" value={guardrail.max_total} onChange={e => setGuardrail({ ...guardrail, max_total: e.target.value })} className="bg-slate-900 border-slate-700 font-mono" />
+                    <Input type="number" placeholder="Discount %" value={guardrail.max_discount_pct} onChange={e => setGuardrail({ ...guardrail, max_discount_pct: e.target.value })} className="bg-slate-900 border-slate-700 font-mono" />
+                    <Input type="number" placeholder="Surge %" value={guardrail.max_surge_pct} onChange={e => setGuardrail({ ...guardrail, max_surge_pct: e.target.value })} className="bg-slate-900 border-slate-700 font-mono" />
+                    <Input type="number" placeholder="Margin %" value={guardrail.floor_margin_pct} onChange={e => setGuardrail({ ...guardrail, floor_margin_pct: e.target.value })} className="bg-slate-900 border-slate-700 font-mono" />
+                </div>
+            </div>
+
+            <div className="flex gap-2">
+                <Button onClick={handleRun} disabled={running} className="bg-violet-600 hover:bg-violet-700 text-white">
+                    {running ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FlaskConical className="w-4 h-4 mr-2" />}
+                    Run Simulation
+                </Button>
+                <Button variant="outline" onClick={handleExport} disabled={!result} className="border-slate-700 hover:bg-slate-800">
+                    <Download className="w-4 h-4 mr-2" />
+                    Export CSV
+                </Button>
+            </div>
+
+            {result && summary && (
+                <div className="space-y-6">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <div className="bg-slate-900/50 border border-slate-800 rounded p-3">
+                            <div className="text-[10px] text-slate-500 uppercase">Quotes Replayed</div>
+                            <div className="text-lg font-mono text-slate-200">{summary.quote_count}</div>
+                        </div>
+                        <div className="bg-slate-900/50 border border-slate-800 rounded p-3">
+                            <div className="text-[10px] text-slate-500 uppercase">Total Delta</div>
+                            <div className={`text-lg font-mono ${deltaClass(summary.delta)}`}>
+                                {formatInr(summary.delta)}
+                                {summary.delta_pct !== null && <span className="text-xs ml-1">({summary.delta_pct}%)</span>}
+                            </div>
+                        </div>
+                        <div className="bg-slate-900/50 border border-slate-800 rounded p-3">
+                            <div className="text-[10px] text-slate-500 uppercase">Guardrail Hits</div>
+                            <div className="text-lg font-mono text-amber-500">{summary.guardrail_quotes}</div>
+                        </div>
+                        <div className="bg-slate-900/50 border border-slate-800 rounded p-3">
+                            <div className="text-[10px] text-slate-500 uppercase">Est. Margin Change</div>
+                            <div className={`text-lg font-mono ${deltaClass(summary.margin_delta)}`}>{formatInr(summary.margin_delta)}</div>
+                        </div>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                        {(Object.keys(GUARDRAIL_LABELS) as GuardrailHit[]).map((hit) => (
+                            <Badge key={hit} variant="outline" className="border-slate-800 text-slate-400">
+                                {GUARDRAIL_LABELS[hit]}: {result.report.guardrail_hits[hit]}
+                            </Badge>
+                        ))}
+                        {result.report.skipped.length > 0 && (
+                            <Badge variant="outline" className="border-red-900 text-red-400">
+                                Skipped (no base rate): {result.report.skipped.length}
+                            </Badge>
+                        )}
+                        {result.truncated && (
+                            <Badge variant="outline" className="border-amber-900 text-amber-500">
+                                Truncated to most recent quotes
+                            </Badge>
+                        )}
+                    </div>
+
+                    <div className="grid lg:grid-cols-2 gap-4">
+                        <DeltaTable title="By Service" groups={result.report.by_service} />
+                        <DeltaTable title="By City" groups={result.report.by_city} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { format } from 'date-fns';
+import { AlertTriangle, History, Layers, Power, RotateCcw, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { PricingClient } from '@/lib/pricing/client';
+import {
+    buildPricingTimeline,
+    PricingSchedule,
+    PricingTimelineEntry,
+    scheduleHealthAlerts,
+    TimelinePhase,
+    TimelineRuleset,
+} from '@/lib/pricing/schedules';
+
+interface RulesetTimelineProps {
+    schedules: PricingSchedule[];
+    rulesets: TimelineRuleset[];
+    isAdmin: boolean;
+    /** Manager's city; managers can cancel and roll back their city's overrides */
+    managerCity?: string | null;
+    onChanged?: () => void;
+}
+
+const PHASE_STYLES: Record<TimelinePhase, string> = {
+    upcoming: 'text-violet-300 border-violet-900 bg-violet-950/20',
+    live: 'text-emerald-500 border-emerald-900 bg-emerald-950/20',
+    past: 'text-slate-500 border-slate-800',
+};
+
+const formatTime = (value: string | null) => (value ? format(new Date(value), 'MMM d HH:mm') : 'open-ended');
+
+export const RulesetTimeline: React.FC<RulesetTimelineProps> = ({ schedules, rulesets, isAdmin, managerCity, onChanged }) => {
+    const [pendingId, setPendingId] = useState<string | null>(null);
+
+    const entries = buildPricingTimeline(schedules, rulesets);
+    const ownsOverride = (schedule: PricingSchedule) =>
+        schedule.kind === 'override' && !!managerCity && schedule.city_id === managerCity;
+
+    const handleRollback = async (schedule: PricingSchedule) => {
+        const alerts = scheduleHealthAlerts(schedule);
+        setPendingId(schedule.id);
+        try {
+            await PricingClient.rollbackPricingSchedule(
+                schedule.id,
+                alerts.length ? `Health check failed: ${alerts.join('; ')}` : 'Rolled back from the pricing timeline'
+            );
+            toast.success(schedule.kind === 'activation'
+                ? `Reverted to ruleset ${schedule.previous_ruleset_version || 'previous'}`
+                : 'Override rolled back');
+            onChanged?.();
+        } catch (err: any) {
+            toast.error(err.message);
+        } finally {
+            setPendingId(null);
+        }
+    };
+
+    const handleCancel = async (schedule: PricingSchedule) => {
+        setPendingId(schedule.id);
+        try {
+            await PricingClient.cancelPricingSchedule(schedule.id, 'Cancelled from the pricing timeline');
+            toast.success('Scheduled change cancelled');
+            onChanged?.();
+        } catch (err: any) {
+            toast.error(err.message);
+        } finally {
+            setPendingId(null);
+        }
+    };
+
+    const renderActions = (entry: PricingTimelineEntry) => {
+        const schedule = entry.schedule;
+        if (!schedule) return null;
+
+        const alerts = scheduleHealthAlerts(schedule);
+        const canRollback = entry.phase === 'live' && (isAdmin || ownsOverride(schedule) || alerts.length > 0);
+        const canCancel = entry.phase === 'upcoming' && (isAdmin || ownsOverride(schedule));
+
+        return (
+            <>
+                {canRollback && (
+                    <Button
+                        variant="ghost"
+                        disabled={pendingId === schedule.id}
+                        onClick={() => handleRollback(schedule)}
+                        className={`h-7 px-2 text-xs ${alerts.length ? 'text-red-400 hover:text-red-300 hover:bg-red-950/20' : 'text-slate-400 hover:text-white'}`}
+                    >
+                        <RotateCcw className="w-3.5 h-3.5 mr-1" />
+                        Roll back
+                    </Button>
+                )}
+                {canCancel && (
+                    <Button
+                        variant="ghost"
+                        disabled={pendingId === schedule.id}
+                        onClick={() => handleCancel(schedule)}
+                        className="h-7 px-2 text-xs text-slate-400 hover:text-white"
+                    >
+                        <X className="w-3.5 h-3.5 mr-1" />
+                        Cancel
+                    </Button>
+                )}
+            </>
+        );
+    };
+
+    const breached = schedules.filter(schedule => schedule.status === 'active' && scheduleHealthAlerts(schedule).length > 0);
+
+    return (
+        <div className="space-y-4">
+            {/* Health alerts: one-click rollback when a live change crosses its thresholds */}
+            {breached.map(schedule => (
+                <div key={schedule.id} className="flex items-start justify-between gap-4 bg-red-950/20 border border-red-900/50 rounded p-3 text-xs">
+                    <div className="space-y-1 text-red-300">
+                        <div className="flex items-center gap-2 font-medium">
+                            <AlertTriangle className="w-4 h-4" />
+                            {schedule.kind === 'activation' ? `Ruleset ${schedule.ruleset_version}` : 'Override'} is underperforming
+                        </div>
+                        {scheduleHealthAlerts(schedule).map(alert => <div key={alert}>{alert}</div>)}
+                    </div>
+                    <Button
+                        size="sm"
+                        disabled={pendingId === schedule.id}
+                        onClick={() => handleRollback(schedule)}
+                        className="bg-red-600 hover:bg-red-700 shrink-0"
+                    >
+                        <RotateCcw className="w-3.5 h-3.5 mr-1" />
+                        {schedule.kind === 'activation' ? `Revert to ${schedule.previous_ruleset_version || 'previous'}` : 'Roll back'}
+                    </Button>
+                </div>
+            ))}
+
+            <div className="border border-slate-800 rounded overflow-hidden">
+                <div className="flex items-center gap-2 px-3 py-2 bg-slate-900 text-xs font-medium text-slate-400 uppercase tracking-wider">
+                    <History className="w-3.5 h-3.5" /> Activation Timeline
+                </div>
+                {entries.length === 0 && (
+                    <div className="p-4 text-center text-xs text-slate-600">No activations yet</div>
+                )}
+                {entries.map(entry => (
+                    <div key={entry.id} className="flex items-center gap-3 px-3 py-2 border-t border-slate-800 text-xs">
+                        {entry.kind === 'override'
+                            ? <Layers className="w-4 h-4 text-sky-500 shrink-0" />
+                            : <Power className="w-4 h-4 text-amber-500 shrink-0" />}
+                        <div className="flex-1 min-w-0">
+                            <div className="text-slate-200 truncate">
+                                {entry.label}
+                                {entry.city_id && <span className="ml-2 font-mono text-slate-500">{entry.city_id}</span>}
+                            </div>
+                            <div className="text-[10px] text-slate-500">
+                                {formatTime(entry.starts_at)} → {formatTime(entry.ends_at)}
+                                {entry.schedule?.reason && <span className="ml-2">· {entry.schedule.reason}</span>}
+                                {entry.schedule?.health && (
+                                    <span className="ml-2">
+                                        · {entry.schedule.health.quote_count} quotes, {entry.schedule.health.guardrail_breach_pct ?? '-'}% breaches, {entry.schedule.health.acceptance_pct ?? '-'}% accepted
+                                    </span>
+                                )}
+                            </div>
+                        </div>
+                        <Badge variant="outline" className={PHASE_STYLES[entry.phase]}>
+                            {entry.status === 'rolled_back' ? 'Rolled back' : entry.phase === 'live' ? 'Live' : entry.phase === 'upcoming' ? 'Scheduled' : 'Ended'}
+                        </Badge>
+                        {renderActions(entry)}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
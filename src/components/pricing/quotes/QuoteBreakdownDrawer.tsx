@@ -10,10 +10,14 @@ import {
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Copy, FileJson, Share2 } from 'lucide-react';
+import { Copy, FileJson, GitBranch, Share2 } from 'lucide-react';
 import { Quote } from './types';
 import { QuoteStatusBadge } from './QuoteStatusBadge';
 import { ShareQuoteDrawer } from './ShareQuoteDrawer';
+import { ReviseQuoteDialog } from './ReviseQuoteDialog';
+import { QuoteRevisionDiff } from './QuoteRevisionDiff';
+import { useQuoteRevisions } from './useQuotes';
+import { diffQuoteLineItems, previousRevision, quoteLineItems } from './revisions';
 import { format, parseISO } from 'date-fns';
 import { toast } from 'sonner';
 import { useState } from 'react';
@@ -42,9 +46,14 @@ function BreakdownRow({ label, value }: { label: string; value: number }) {
 
 export function QuoteBreakdownDrawer({ quote, open, onOpenChange }: QuoteBreakdownDrawerProps) {
     const [shareOpen, setShareOpen] = useState(false);
+    const [reviseOpen, setReviseOpen] = useState(false);
+    const { revisions, reviseQuote, isRevising } = useQuoteRevisions(open && quote ? quote.id : null);
 
     if (!quote) return null;
 
+    const previous = previousRevision(revisions, quote);
+    const canRevise = !quote.superseded_by && (quote.status === 'pending' || quote.status === 'accepted');
+
     const copyToClipboard = (data: unknown, label: string) => {
         navigator.clipboard.writeText(JSON.stringify(data, null, 2));
         toast.success(`${label} copied to clipboard`);
@@ -87,12 +96,24 @@ export function QuoteBreakdownDrawer({ quote, open, onOpenChange }: QuoteBreakdo
                     <div>
                         <h4 className="font-semibold mb-3">Breakdown</h4>
                         <div className="bg-muted/50 rounded-lg p-4 space-y-1">
-                            <BreakdownRow label="Labor" value={quote.breakdown?.labor || quote.labor_amount} />
-                            <BreakdownRow label="Parts" value={quote.breakdown?.parts || quote.parts_amount} />
-                            <BreakdownRow label="Transport" value={quote.breakdown?.transport || quote.transport_amount} />
-                            <BreakdownRow label="Diagnostic" value={quote.breakdown?.diagnostic || quote.diagnostic_amount} />
-                            <BreakdownRow label="Urgency Surcharge" value={quote.breakdown?.urgency_surcharge || quote.urgency_surcharge} />
-                            <BreakdownRow label="Complexity Surcharge" value={quote.breakdown?.complexity_surcharge || quote.complexity_surcharge} />
+                            {quote.line_items && quote.line_items.length > 0 ? (
+                                quote.line_items.map((item) => (
+                                    <BreakdownRow
+                                        key={item.code}
+                                        label={`${item.label}${item.optional ? ' (optional)' : ''}${quote.declined_line_items?.includes(item.code) ? ' — declined' : ''}`}
+                                        value={item.amount}
+                                    />
+                                ))
+                            ) : (
+                                <>
+                                    <BreakdownRow label="Labor" value={quote.breakdown?.labor || quote.labor_amount} />
+                                    <BreakdownRow label="Parts" value={quote.breakdown?.parts || quote.parts_amount} />
+                                    <BreakdownRow label="Transport" value={quote.breakdown?.transport || quote.transport_amount} />
+                                    <BreakdownRow label="Diagnostic" value={quote.breakdown?.diagnostic || quote.diagnostic_amount} />
+                                    <BreakdownRow label="Urgency Surcharge" value={quote.breakdown?.urgency_surcharge || quote.urgency_surcharge} />
+                                    <BreakdownRow label="Complexity Surcharge" value={quote.breakdown?.complexity_surcharge || quote.complexity_surcharge} />
+                                </>
+                            )}
                             <Separator className="my-2" />
                             <div className="flex justify-between py-1 font-semibold">
                                 <span>Total</span>
@@ -101,6 +122,40 @@ export function QuoteBreakdownDrawer({ quote, open, onOpenChange }: QuoteBreakdo
                         </div>
                     </div>
 
+                    {/* Revisions */}
+                    {revisions.length > 1 && (
+                        <div>
+                            <h4 className="font-semibold mb-3">
+                                Revision {quote.revision_number ?? 1} of {revisions.length}
+                            </h4>
+                            <div className="space-y-2 text-sm mb-3">
+                                {revisions.map((revision) => (
+                                    <div key={revision.id} className="flex items-center justify-between">
+                                        <span className={revision.id === quote.id ? 'font-semibold' : 'text-muted-foreground'}>
+                                            r{revision.revision_number ?? 1} · {format(parseISO(revision.created_at), 'PP')}
+                                        </span>
+                                        <span className="flex items-center gap-2">
+                                            <span className="font-mono">{formatCurrency(revision.total_amount)}</span>
+                                            <QuoteStatusBadge status={revision.status} />
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                            {previous && (
+                                <div className="bg-muted/50 rounded-lg p-4 space-y-2">
+                                    <p className="text-xs text-muted-foreground">
+                                        Changes since r{previous.revision_number ?? 1}
+                                        {quote.revision_reason && <> · {quote.revision_reason}</>}
+                                    </p>
+                                    <QuoteRevisionDiff
+                                        diffs={diffQuoteLineItems(quoteLineItems(previous), quoteLineItems(quote))}
+                                        formatAmount={formatCurrency}
+                                    />
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* Reason Codes */}
                     {quote.reason_codes && quote.reason_codes.length > 0 && (
                         <div>
@@ -160,6 +215,16 @@ export function QuoteBreakdownDrawer({ quote, open, onOpenChange }: QuoteBreakdo
                             <FileJson className="h-4 w-4 mr-2" />
                             Copy Full JSON
                         </Button>
+                        {canRevise && (
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setReviseOpen(true)}
+                            >
+                                <GitBranch className="h-4 w-4 mr-2" />
+                                Revise Quote
+                            </Button>
+                        )}
                         <Button
                             size="sm"
                             onClick={() => setShareOpen(true)}
@@ -177,6 +242,23 @@ export function QuoteBreakdownDrawer({ quote, open, onOpenChange }: QuoteBreakdo
                 open={shareOpen}
                 onOpenChange={setShareOpen}
             />
+
+            <ReviseQuoteDialog
+                key={quote.id}
+                quote={quote}
+                open={reviseOpen}
+                onOpenChange={setReviseOpen}
+                onSubmit={async (payload) => {
+                    try {
+                        await reviseQuote({ id: quote.id, ...payload });
+                        setReviseOpen(false);
+                        onOpenChange(false);
+                    } catch {
+                        // Error toast is raised by the mutation; keep the dialog open for another try
+                    }
+                }}
+                isSubmitting={isRevising}
+            />
         </Sheet>
     );
 }
@@ -0,0 +1,55 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { QuoteLineItemDiff } from './types';
+
+interface QuoteRevisionDiffProps {
+    diffs: QuoteLineItemDiff[];
+    formatAmount: (amount: number) => string;
+    showUnchanged?: boolean;
+    className?: string;
+}
+
+const CHANGE_STYLES: Record<QuoteLineItemDiff['change'], string> = {
+    added: 'text-emerald-500',
+    removed: 'text-red-500 line-through',
+    changed: 'text-amber-500',
+    unchanged: 'text-muted-foreground',
+};
+
+const CHANGE_MARKERS: Record<QuoteLineItemDiff['change'], string> = {
+    added: '+',
+    removed: '−',
+    changed: '~',
+    unchanged: '',
+};
+
+export function QuoteRevisionDiff({ diffs, formatAmount, showUnchanged = true, className }: QuoteRevisionDiffProps) {
+    const rows = showUnchanged ? diffs : diffs.filter(diff => diff.change !== 'unchanged');
+
+    if (rows.length === 0) {
+        return <p className={cn('text-sm text-muted-foreground', className)}>No line item changes</p>;
+    }
+
+    return (
+        <div className={cn('space-y-1 text-sm', className)}>
+            {rows.map((diff) => (
+                <div key={diff.code} className="flex items-center justify-between gap-4 py-1">
+                    <span className={cn('flex items-center gap-2', CHANGE_STYLES[diff.change])}>
+                        <span className="w-3 font-mono">{CHANGE_MARKERS[diff.change]}</span>
+                        {diff.label}
+                        {diff.optional && <span className="text-xs opacity-70">(optional)</span>}
+                    </span>
+                    <span className="font-mono whitespace-nowrap">
+                        {diff.change === 'changed' && diff.before !== null && (
+                            <span className="text-muted-foreground line-through mr-2">{formatAmount(diff.before)}</span>
+                        )}
+                        <span className={CHANGE_STYLES[diff.change]}>
+                            {formatAmount((diff.after ?? diff.before) as number)}
+                        </span>
+                    </span>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useState } from 'react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { CreateQuoteRevisionPayload, Quote, QuoteLineItem, QuoteLineItemKind } from './types';
+import { diffQuoteLineItems, newLineItemCode, quoteLineItems, quoteRevisionTotal } from './revisions';
+import { QuoteRevisionDiff } from './QuoteRevisionDiff';
+
+interface ReviseQuoteDialogProps {
+    quote: Quote | null;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onSubmit: (payload: CreateQuoteRevisionPayload) => void;
+    isSubmitting?: boolean;
+}
+
+const LINE_ITEM_KINDS: QuoteLineItemKind[] = [
+    'labor',
+    'parts',
+    'transport',
+    'diagnostic',
+    'surcharge',
+    'discount',
+    'tax',
+    'adjustment',
+];
+
+// Amounts are edited as text so a half-typed number does not jump around
+type LineItemRow = Omit<QuoteLineItem, 'amount'> & { amount: string };
+
+function formatCurrency(amount: number): string {
+    return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: 'USD',
+    }).format(amount);
+}
+
+const toRows = (items: QuoteLineItem[]): LineItemRow[] =>
+    items.map(item => ({ ...item, amount: item.amount.toString() }));
+
+const toItems = (rows: LineItemRow[]): QuoteLineItem[] =>
+    rows.map(row => ({ ...row, label: row.label.trim(), amount: parseFloat(row.amount) || 0 }));
+
+export function ReviseQuoteDialog({
+    quote,
+    open,
+    onOpenChange,
+    onSubmit,
+    isSubmitting,
+}: ReviseQuoteDialogProps) {
+    // Null until the first edit, so the rows always start from the quote being revised
+    const [editedRows, setEditedRows] = useState<LineItemRow[] | null>(null);
+    const [reason, setReason] = useState('');
+
+    const handleOpenChange = (isOpen: boolean) => {
+        if (!isOpen) {
+            setEditedRows(null);
+            setReason('');
+        }
+        onOpenChange(isOpen);
+    };
+
+    if (!quote) return null;
+
+    const original = quoteLineItems(quote);
+    const rows = editedRows ?? toRows(original);
+    const items = toItems(rows);
+    const total = quoteRevisionTotal(items);
+    const diffs = diffQuoteLineItems(original, items);
+
+    const isValid =
+        reason.trim().length > 0 &&
+        items.length > 0 &&
+        items.every(item => item.label.length > 0) &&
+        rows.every(row => row.amount.trim() !== '' && !isNaN(parseFloat(row.amount))) &&
+        total >= 0 &&
+        diffs.some(diff => diff.change !== 'unchanged');
+
+    const updateRow = (index: number, changes: Partial<LineItemRow>) => {
+        setEditedRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    };
+
+    const addRow = () => {
+        setEditedRows([
+            ...rows,
+            { code: '', label: '', kind: 'parts', amount: '', optional: true },
+        ]);
+    };
+
+    const removeRow = (index: number) => {
+        setEditedRows(rows.filter((_, i) => i !== index));
+    };
+
+    const handleSubmit = () => {
+        if (!isValid) return;
+
+        // New rows get a code from their label, unique among the revision's items
+        const lineItems: QuoteLineItem[] = [];
+        for (const item of items) {
+            lineItems.push(item.code ? item : { ...item, code: newLineItemCode(item.label, [...items, ...lineItems]) });
+        }
+
+        onSubmit({ line_items: lineItems, reason: reason.trim() });
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Revise Quote</DialogTitle>
+                    <DialogDescription>
+                        The revision replaces this quote for the customer. Optional items can be declined when accepting.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="space-y-2">
+                        <div className="grid grid-cols-[1fr_130px_110px_70px_32px] gap-2 text-xs text-muted-foreground">
+                            <span>Item</span>
+                            <span>Kind</span>
+                            <span>Amount</span>
+                            <span>Optional</span>
+                            <span />
+                        </div>
+                        {rows.map((row, index) => (
+                            <div key={index} className="grid grid-cols-[1fr_130px_110px_70px_32px] gap-2 items-center">
+                                <Input
+                                    value={row.label}
+                                    placeholder="Description"
+                                    onChange={(e) => updateRow(index, { label: e.target.value })}
+                                />
+                                <Select
+                                    value={row.kind}
+                                    onValueChange={(kind) => updateRow(index, { kind: kind as QuoteLineItemKind })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {LINE_ITEM_KINDS.map((kind) => (
+                                            <SelectItem key={kind} value={kind} className="capitalize">
+                                                {kind}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <Input
+                                    type="number"
+                                    step="0.01"
+                                    value={row.amount}
+                                    onChange={(e) => updateRow(index, { amount: e.target.value })}
+                                    className="font-mono"
+                                />
+                                <Switch
+                                    checked={row.optional}
+                                    onCheckedChange={(optional) => updateRow(index, { optional })}
+                                />
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => removeRow(index)}
+                                    aria-label="Remove line item"
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        ))}
+                        <Button variant="outline" size="sm" onClick={addRow}>
+                            <Plus className="h-4 w-4 mr-2" />
+                            Add Line Item
+                        </Button>
+                    </div>
+
+                    <div className="bg-muted/50 rounded-lg p-4 space-y-2">
+                        <h4 className="text-sm font-semibold">Changes</h4>
+                        <QuoteRevisionDiff diffs={diffs} formatAmount={formatCurrency} showUnchanged={false} />
+                        <div className="flex justify-between pt-2 border-t font-semibold">
+                            <span>New Total</span>
+                            <span className="font-mono">
+                                <span className="text-muted-foreground line-through mr-2">{formatCurrency(quote.total_amount)}</span>
+                                {formatCurrency(total)}
+                            </span>
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="revision-reason">Reason</Label>
+                        <Textarea
+                            id="revision-reason"
+                            placeholder="e.g. Replacement screen needed after diagnosis"
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                            rows={2}
+                        />
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSubmitting}>
+                        Cancel
+                    </Button>
+                    <Button onClick={handleSubmit} disabled={!isValid || isSubmitting}>
+                        {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Create Revision
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -4,3 +4,6 @@ export { QuotesTable } from './QuotesTable';
 export { NewQuoteDrawer } from './NewQuoteDrawer';
 export { QuoteBreakdownDrawer } from './QuoteBreakdownDrawer';
 export { AcceptQuoteDialog } from './AcceptQuoteDialog';
+export { ReviseQuoteDialog } from './ReviseQuoteDialog';
+export { QuoteRevisionDiff } from './QuoteRevisionDiff';
+export * from './revisions';
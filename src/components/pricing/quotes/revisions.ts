@@ -0,0 +1,117 @@
+import { Quote, QuoteLineItem, QuoteLineItemDiff, QuoteLineItemKind } from './types';
+
+/*
+  Quote revisions
+  - A revision is a new pricing_quotes row linked to the quote it supersedes (revision_of) and to the
+    first quote of the chain (root_quote_id). It carries a full line_items list.
+  - Quotes created by the pricing RPCs have no line items; they are derived from the breakdown so the
+    first revision can be diffed against the original.
+*/
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const BREAKDOWN_LINE_ITEMS: Array<{
+    code: string;
+    label: string;
+    kind: QuoteLineItemKind;
+    amount: (quote: Quote) => number;
+}> = [
+    { code: 'labor', label: 'Labor', kind: 'labor', amount: q => q.breakdown?.labor || q.labor_amount },
+    { code: 'parts', label: 'Parts', kind: 'parts', amount: q => q.breakdown?.parts || q.parts_amount },
+    { code: 'transport', label: 'Transport', kind: 'transport', amount: q => q.breakdown?.transport || q.transport_amount },
+    { code: 'diagnostic', label: 'Diagnostic', kind: 'diagnostic', amount: q => q.breakdown?.diagnostic || q.diagnostic_amount },
+    { code: 'urgency_surcharge', label: 'Urgency Surcharge', kind: 'surcharge', amount: q => q.breakdown?.urgency_surcharge || q.urgency_surcharge },
+    { code: 'complexity_surcharge', label: 'Complexity Surcharge', kind: 'surcharge', amount: q => q.breakdown?.complexity_surcharge || q.complexity_surcharge },
+    { code: 'discount', label: 'Discount', kind: 'discount', amount: q => -(q.discount_amount || 0) },
+    { code: 'tax', label: 'Tax', kind: 'tax', amount: q => q.tax_amount || 0 },
+];
+
+/**
+ * Line items of a quote. For quotes without stored line items, the breakdown is turned into
+ * required items, plus an adjustment for any guardrail difference so the items add up to the total.
+ */
+export function quoteLineItems(quote: Quote): QuoteLineItem[] {
+    if (quote.line_items && quote.line_items.length > 0) return quote.line_items;
+
+    const items: QuoteLineItem[] = BREAKDOWN_LINE_ITEMS
+        .map(({ code, label, kind, amount }) => ({ code, label, kind, amount: round(amount(quote) || 0), optional: false }))
+        .filter(item => item.amount !== 0);
+
+    const adjustment = round(quote.total_amount - items.reduce((sum, item) => sum + item.amount, 0));
+    if (adjustment !== 0) {
+        items.push({ code: 'adjustment', label: 'Price Adjustment', kind: 'adjustment', amount: adjustment, optional: false });
+    }
+
+    return items;
+}
+
+/**
+ * Line-by-line changes between two revisions, in the order of the newer one with removed items last
+ */
+export function diffQuoteLineItems(before: QuoteLineItem[], after: QuoteLineItem[]): QuoteLineItemDiff[] {
+    const previous = new Map(before.map(item => [item.code, item]));
+    const current = new Set(after.map(item => item.code));
+
+    const diffs: QuoteLineItemDiff[] = after.map(item => {
+        const old = previous.get(item.code);
+        if (!old) {
+            return { code: item.code, label: item.label, change: 'added', before: null, after: item.amount, optional: item.optional };
+        }
+        const changed = old.amount !== item.amount || old.optional !== item.optional;
+        return { code: item.code, label: item.label, change: changed ? 'changed' : 'unchanged', before: old.amount, after: item.amount, optional: item.optional };
+    });
+
+    for (const item of before) {
+        if (!current.has(item.code)) {
+            diffs.push({ code: item.code, label: item.label, change: 'removed', before: item.amount, after: null, optional: item.optional });
+        }
+    }
+
+    return diffs;
+}
+
+/**
+ * Total of a revision once the customer's declined optional items are left out
+ */
+export function quoteRevisionTotal(items: QuoteLineItem[], declined: string[] = []): number {
+    const skipped = new Set(declined);
+    return round(items
+        .filter(item => !(item.optional && skipped.has(item.code)))
+        .reduce((sum, item) => sum + item.amount, 0));
+}
+
+/**
+ * Codes that cannot be declined: unknown, or not optional
+ */
+export function invalidDeclinedLineItems(items: QuoteLineItem[], declined: string[]): string[] {
+    const optional = new Set(items.filter(item => item.optional).map(item => item.code));
+    return declined.filter(code => !optional.has(code));
+}
+
+/**
+ * A code for a new line item, unique within the revision
+ */
+export function newLineItemCode(label: string, items: QuoteLineItem[]): string {
+    const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'item';
+    const taken = new Set(items.map(item => item.code));
+
+    let code = base;
+    for (let n = 2; taken.has(code); n++) {
+        code = `${base}_${n}`;
+    }
+    return code;
+}
+
+/**
+ * The latest revision of a chain, i.e. the one nothing supersedes
+ */
+export function latestRevision(revisions: Quote[]): Quote | null {
+    return revisions.find(revision => !revision.superseded_by) ?? revisions[revisions.length - 1] ?? null;
+}
+
+/**
+ * The revision a quote replaced, from its chain
+ */
+export function previousRevision(revisions: Quote[], quote: Quote): Quote | null {
+    return quote.revision_of ? revisions.find(revision => revision.id === quote.revision_of) ?? null : null;
+}
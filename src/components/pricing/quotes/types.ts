@@ -46,6 +46,57 @@ export interface Quote {
     // Audit
     created_at: string;
     created_by: string;
+
+    // Revisions (see revisions.ts). The original quote has revision_number 1 and no root_quote_id.
+    root_quote_id?: string | null;
+    revision_of?: string | null;
+    revision_number?: number;
+    superseded_by?: string | null;
+    revision_reason?: string | null;
+    line_items?: QuoteLineItem[];
+    declined_line_items?: string[];
+}
+
+export type QuoteLineItemKind =
+    | 'labor'
+    | 'parts'
+    | 'transport'
+    | 'diagnostic'
+    | 'surcharge'
+    | 'discount'
+    | 'tax'
+    | 'adjustment';
+
+export interface QuoteLineItem {
+    code: string;
+    label: string;
+    kind: QuoteLineItemKind;
+    amount: number;
+    optional: boolean; // Customer may decline it when accepting
+}
+
+export type QuoteLineItemChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface QuoteLineItemDiff {
+    code: string;
+    label: string;
+    change: QuoteLineItemChange;
+    before: number | null;
+    after: number | null;
+    optional: boolean;
+}
+
+export interface CreateQuoteRevisionPayload {
+    line_items: QuoteLineItem[];
+    reason: string;
+}
+
+export interface CreateQuoteRevisionResponse {
+    quote_id: string;
+    root_quote_id: string;
+    revision_number: number;
+    total_amount: number;
+    expires_at: string;
 }
 
 export interface CreateQuotePayload {
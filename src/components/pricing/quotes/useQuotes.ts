@@ -1,7 +1,14 @@
 'use client';
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Quote, CreateQuotePayload, CreateQuoteResponse, AcceptQuoteResponse } from './types';
+import {
+    Quote,
+    CreateQuotePayload,
+    CreateQuoteResponse,
+    AcceptQuoteResponse,
+    CreateQuoteRevisionPayload,
+    CreateQuoteRevisionResponse,
+} from './types';
 import { toast } from 'sonner';
 
 interface QuotesQueryParams {
@@ -54,6 +61,28 @@ const acceptQuote = async ({ id, reason }: { id: string; reason?: string }): Pro
     return res.json();
 };
 
+// Revisions
+const fetchQuoteRevisions = async (id: string): Promise<Quote[]> => {
+    const res = await fetch(`/api/pricing/quotes/${id}/revisions`);
+    if (!res.ok) throw new Error('Failed to fetch revisions');
+    const json = await res.json();
+    return json.data || [];
+};
+
+const createQuoteRevision = async ({ id, ...payload }: CreateQuoteRevisionPayload & { id: string }): Promise<CreateQuoteRevisionResponse> => {
+    const res = await fetch(`/api/pricing/quotes/${id}/revisions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+    });
+
+    if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Failed to revise quote');
+    }
+    return res.json();
+};
+
 // Hook
 export function useQuotes(initialParams: QuotesQueryParams = {}) {
     const queryClient = useQueryClient();
@@ -111,3 +140,38 @@ export function useQuotes(initialParams: QuotesQueryParams = {}) {
         isAccepting: acceptMutation.isPending,
     };
 }
+
+// Revision chain of a single quote
+export function useQuoteRevisions(quoteId: string | null) {
+    const queryClient = useQueryClient();
+
+    const query = useQuery({
+        queryKey: ['quote-revisions', quoteId],
+        queryFn: () => fetchQuoteRevisions(quoteId!),
+        enabled: !!quoteId,
+        staleTime: 1000 * 30,
+        retry: 1,
+    });
+
+    const reviseMutation = useMutation({
+        mutationFn: createQuoteRevision,
+        onSuccess: (data) => {
+            queryClient.invalidateQueries({ queryKey: ['quotes'] });
+            queryClient.invalidateQueries({ queryKey: ['quote-revisions'] });
+            toast.success(`Revision ${data.revision_number} created`, {
+                description: `Total: $${data.total_amount.toFixed(2)}`
+            });
+        },
+        onError: (error: Error) => {
+            toast.error('Revision failed', { description: error.message });
+        },
+    });
+
+    return {
+        revisions: query.data || [],
+        isLoading: query.isLoading,
+        isError: query.isError,
+        reviseQuote: reviseMutation.mutateAsync,
+        isRevising: reviseMutation.isPending,
+    };
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { RunSheet } from '@/lib/types/logistics';
+import { Badge } from '@/components/ui/badge';
+import { ArrowDownToLine, ArrowUpFromLine, Navigation } from 'lucide-react';
+
+interface RunSheetViewProps {
+  runSheet: RunSheet;
+  showNavigation?: boolean;
+}
+
+const formatTime = (value: string | null) =>
+  value ? new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '--';
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+export function RunSheetView({ runSheet, showNavigation = false }: RunSheetViewProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+        <span>{runSheet.stops.length} stops</span>
+        <span>{(runSheet.distance_m / 1000).toFixed(1)} km</span>
+        <span>{formatDuration(runSheet.duration_s)}</span>
+        <span>{formatTime(runSheet.start_at)} - {formatTime(runSheet.end_at)}</span>
+        <span>Peak load {runSheet.max_load_kg} kg</span>
+      </div>
+
+      <ol className="space-y-2 border-l pl-4">
+        {runSheet.stops.map(stop => {
+          const Icon = stop.kind === 'pickup' ? ArrowUpFromLine : ArrowDownToLine;
+
+          return (
+            <li key={`${stop.task_id}-${stop.kind}`} className="text-sm">
+              <div className="flex items-center gap-2">
+                <span className="w-5 text-right font-mono text-muted-foreground">{stop.sequence}</span>
+                <Icon className={`h-4 w-4 ${stop.kind === 'pickup' ? 'text-green-600' : 'text-blue-600'}`} />
+                <span className="font-medium">{formatTime(stop.arrival_at)}</span>
+                <span className="capitalize">{stop.kind}</span>
+                <span className="truncate text-muted-foreground">{stop.label}</span>
+                {stop.proposed && <Badge variant="outline">Proposed</Badge>}
+                {showNavigation && (
+                  <a
+                    href={`https://www.google.com/maps/dir/?api=1&destination=${stop.lat},${stop.lng}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="ml-auto text-primary"
+                    aria-label={`Navigate to stop ${stop.sequence}`}
+                  >
+                    <Navigation className="h-4 w-4" />
+                  </a>
+                )}
+              </div>
+              <p className="ml-7 text-muted-foreground">{stop.address}</p>
+              {(stop.window_start || stop.window_end || stop.wait_s > 0) && (
+                <p className="ml-7 text-xs text-muted-foreground">
+                  {(stop.window_start || stop.window_end) && `Window ${formatTime(stop.window_start)} - ${formatTime(stop.window_end)}`}
+                  {stop.wait_s > 0 && ` (wait ${formatDuration(stop.wait_s)})`}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { createClient } from '@/utils/supabase/client';
+import type { BookingState } from '@/lib/booking/BookingStates';
+import type { ConversionHookResult } from '@/lib/booking/ConversionHooks';
+import type { TrustInjectionResult } from '@/lib/booking/TrustTriggerMap';
+
+const supabase = createClient();
+
+export interface BookingFlowResponse {
+    success: boolean;
+    newState?: BookingState;
+    trustIntervention?: TrustInjectionResult;
+    conversionHooks?: ConversionHookResult[];
+    message?: string;
+}
+
+export type BookingFlowAction =
+    | { action: 'transition'; new_state: BookingState; reason?: string }
+    | { action: 'confidence'; confidence: number; hesitation_points?: string[]; risk_factors?: string[] }
+    | { action: 'page_view'; page_url: string; view_name: string }
+    | { action: 'complete' }
+    | { action: 'cancel'; reason?: string };
+
+const post = async (url: string, body: unknown): Promise<BookingFlowResponse> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${session?.access_token || ''}`,
+        },
+        body: JSON.stringify(body),
+    });
+
+    const payload = await response.json().catch(() => null);
+    // 409 carries the engine's refusal (e.g. an invalid transition) as a normal result
+    if (payload?.data) return payload.data as BookingFlowResponse;
+    throw new Error(payload?.error || `Booking flow request failed: ${response.statusText}`);
+};
+
+// Booking flows run on the server so any instance can resume them
+export const bookingFlowApi = {
+
+    start: (bookingId: string, customerId: string, sessionId: string, deviceType?: string, deviceBrand?: string) =>
+        post('/api/booking/flows', {
+            booking_id: bookingId,
+            customer_id: customerId,
+            session_id: sessionId,
+            device_type: deviceType,
+            device_brand: deviceBrand,
+        }),
+
+    apply: (bookingId: string, action: BookingFlowAction) =>
+        post(`/api/booking/flows/${encodeURIComponent(bookingId)}`, action),
+};
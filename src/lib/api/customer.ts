@@ -59,6 +59,42 @@ const timelineEventSchema = z.object({
   created_at: z.string(),
 });
 
+const custodyHolderSchema = z.object({
+  type: z.enum(['customer', 'transporter', 'branch']),
+  id: z.string().nullable(),
+  name: z.string().nullable(),
+});
+
+const deviceCustodySchema = z.object({
+  current_holder: custodyHolderSchema.nullable(),
+  chain: z.array(z.object({
+    holder: custodyHolderSchema,
+    from: z.string().nullable(),
+    until: z.string().nullable(),
+    started_by_event_id: z.string().nullable(),
+  })),
+  events: z.array(z.object({
+    id: z.string().uuid(),
+    event_type: z.string(),
+    holder_type: z.string(),
+    holder_name: z.string().nullable(),
+    otp_verified: z.boolean(),
+    photo_count: z.number(),
+    recorded_at: z.string(),
+  })),
+});
+
+const ticketTrackingSchema = z.object({
+  status: z.enum(['not_scheduled', 'awaiting_rider', 'on_the_way', 'arrived', 'completed']),
+  stage: z.enum(['pickup', 'drop']).nullable(),
+  destination: z.enum(['customer', 'branch']).nullable(),
+  eta_at: z.string().nullable(),
+  stops_before: z.number().nullable(),
+  live: z.boolean(),
+  last_update_at: z.string().nullable(),
+  rider_position: z.object({ lat: z.number(), lng: z.number() }).nullable(),
+});
+
 const slaSnapshotSchema = z.object({
   ticket_id: z.string().uuid(),
   promised_hours: z.number().nullable(),
@@ -93,6 +129,8 @@ const notificationSchema = z.object({
 // Type definitions
 export type Ticket = z.infer<typeof ticketSchema>;
 export type TimelineEvent = z.infer<typeof timelineEventSchema>;
+export type DeviceCustody = z.infer<typeof deviceCustodySchema>;
+export type TicketTracking = z.infer<typeof ticketTrackingSchema>;
 export type SLASnapshot = z.infer<typeof slaSnapshotSchema>;
 export type Feedback = z.infer<typeof feedbackSchema>;
 export type Notification = z.infer<typeof notificationSchema>;
@@ -173,6 +211,58 @@ export const customerAPI = {
     }
   },
 
+  // Get who holds the device now and every hand-off so far
+  getCustody: async (ticketId: string): Promise<DeviceCustody> => {
+    try {
+      const response = await fetch(`/api/customer/tickets/${ticketId}/custody`);
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          throw new Error('Unauthorized: Please log in to access device custody');
+        }
+        if (response.status === 404) {
+          throw new Error('Ticket not found');
+        }
+        throw new Error(`Failed to fetch device custody: ${response.statusText}`);
+      }
+
+      return deviceCustodySchema.parse(await response.json());
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        console.error('Zod validation error in get custody:', error.issues);
+        throw new Error('Data validation failed');
+      }
+      console.error('Error fetching device custody:', error);
+      throw error;
+    }
+  },
+
+  // Get the ETA of the ticket's pickup or return, with the rider's rough position when nearby
+  getTracking: async (ticketId: string): Promise<TicketTracking> => {
+    try {
+      const response = await fetch(`/api/customer/tickets/${ticketId}/tracking`);
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          throw new Error('Unauthorized: Please log in to access transporter tracking');
+        }
+        if (response.status === 404) {
+          throw new Error('Ticket not found');
+        }
+        throw new Error(`Failed to fetch transporter tracking: ${response.statusText}`);
+      }
+
+      return ticketTrackingSchema.parse(await response.json());
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        console.error('Zod validation error in get tracking:', error.issues);
+        throw new Error('Data validation failed');
+      }
+      console.error('Error fetching transporter tracking:', error);
+      throw error;
+    }
+  },
+
   // Get SLA status for a ticket
   getSLA: async (ticketId: string): Promise<SLASnapshot> => {
     try {
@@ -2,9 +2,16 @@ import { createClient } from '@/utils/supabase/client';
 import {
     Transporter,
     Delivery,
+    LiveTracking,
+    RunSheet,
+    ShiftRoutePlan,
     transporterSchema,
-    deliverySchema
+    deliverySchema,
+    liveTrackingSchema,
+    runSheetSchema,
+    shiftRoutePlanSchema
 } from '@/lib/types/logistics';
+import type { LocationPing } from '@/lib/tracking/pings';
 import { z } from 'zod';
 
 const supabase = createClient();
@@ -91,12 +98,84 @@ export const logisticsApi = {
         return deliverySchema.parse(data);
     },
 
+    // Runs rpc_assign_transporter server-side; external providers are booked through their courier adapter
     assignTransporter: async (deliveryId: string, strategy: string = 'auto_internal_first'): Promise<any> => {
-        const { data, error } = await supabase.rpc('rpc_assign_transporter', {
-            p_delivery_id: deliveryId,
-            p_strategy: strategy
+        const response = await fetch(`/api/logistics/deliveries/${deliveryId}/assign`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ strategy })
         });
-        if (error) throw new Error(error.message);
-        return data;
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok && !body.message) throw new Error(body.error || 'Failed to assign transporter');
+        return body;
+    },
+
+    // =========================================================================
+    // ROUTE PLANNING
+    // =========================================================================
+
+    getRoutePlan: async (date: string): Promise<ShiftRoutePlan> => {
+        const response = await fetch(`/api/logistics/route-plans?date=${encodeURIComponent(date)}`);
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(body.error || 'Failed to load run sheets');
+        return shiftRoutePlanSchema.parse(body.data);
+    },
+
+    planRoutes: async (input: {
+        shift_date: string;
+        shift_start: string;
+        shift_end: string;
+        include_unassigned?: boolean;
+        fleet_ids?: string[];
+    }): Promise<ShiftRoutePlan> => {
+        const response = await fetch('/api/logistics/route-plans', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(input)
+        });
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(body.error || 'Failed to plan routes');
+        return shiftRoutePlanSchema.parse(body.data);
+    },
+
+    getMyRunSheet: async (date: string): Promise<RunSheet | null> => {
+        const response = await fetch(`/api/transporter/run-sheet?date=${encodeURIComponent(date)}`);
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(body.error || 'Failed to load run sheet');
+        return body.run_sheet ? runSheetSchema.parse(body.run_sheet) : null;
+    },
+
+    getLiveTracking: async (): Promise<LiveTracking> => {
+        const response = await fetch('/api/logistics/tracking');
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(body.error || 'Failed to load live tracking');
+        return liveTrackingSchema.parse(body.data);
+    },
+
+    dismissTrackingAlert: async (alertId: string): Promise<void> => {
+        const response = await fetch('/api/logistics/tracking', {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ alert_id: alertId })
+        });
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(body.error || 'Failed to dismiss alert');
+    },
+
+    // Throws when the batch should stay buffered and be sent again; a malformed batch never will be
+    // accepted, so it is dropped
+    sendLocationPings: async (pings: LocationPing[]): Promise<{ accepted: number }> => {
+        const response = await fetch('/api/transporter/locations', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ pings })
+        });
+        const body = await response.json().catch(() => ({}));
+        if (response.status === 400) {
+            console.error('Dropping rejected location batch:', body.details ?? body.error);
+            return { accepted: 0 };
+        }
+        if (!response.ok) throw new Error(body.error || 'Failed to send location');
+        return body;
     }
 };
@@ -3,8 +3,19 @@ import {
     NotificationTemplate,
     NotificationLog,
     notificationTemplateSchema,
-    notificationLogSchema
+    notificationLogSchema,
+    templateApprovalSchema
 } from '@/lib/types/notifications';
+import {
+    canTransitionApproval,
+    CHANNEL_OUTPUT_FORMATS,
+    getApprovalStatus,
+    renderTemplate,
+    sampleTemplateVariables,
+    TemplateApproval,
+    TemplateApprovalStatus
+} from '@/lib/notifications/templates';
+import type { NotificationLanguage } from '@/lib/notifications/preferences';
 import { z } from 'zod';
 
 const supabase = createClient();
@@ -44,6 +55,51 @@ export const notificationsApi = {
         return notificationTemplateSchema.parse(data);
     },
 
+    // =========================================================================
+    // TEMPLATE APPROVALS
+    // =========================================================================
+
+    getTemplateApprovals: async (): Promise<TemplateApproval[]> => {
+        const { data, error } = await supabase
+            .from('notification_template_approvals')
+            .select('*');
+        if (error) throw new Error(error.message);
+        return z.array(templateApprovalSchema).parse(data);
+    },
+
+    /**
+     * Record a WhatsApp review outcome for one version and locale of a registry template
+     */
+    updateTemplateApproval: async (
+        approval: Pick<TemplateApproval, 'template_key' | 'version' | 'locale'>,
+        status: TemplateApprovalStatus,
+        details: { provider_template_name?: string | null; rejection_reason?: string | null } = {}
+    ): Promise<TemplateApproval> => {
+        const current = getApprovalStatus(
+            await notificationsApi.getTemplateApprovals(),
+            approval.template_key,
+            approval.version,
+            approval.locale
+        );
+        if (!canTransitionApproval(current, status)) {
+            throw new Error(`Cannot move template from ${current} to ${status}`);
+        }
+
+        const { data, error } = await supabase
+            .from('notification_template_approvals')
+            .upsert({
+                ...approval,
+                status,
+                ...(details.provider_template_name !== undefined ? { provider_template_name: details.provider_template_name } : {}),
+                rejection_reason: status === 'rejected' ? (details.rejection_reason ?? null) : null,
+                updated_at: new Date().toISOString()
+            }, { onConflict: 'template_key,version,locale' })
+            .select('*')
+            .single();
+        if (error) throw new Error(error.message);
+        return templateApprovalSchema.parse(data);
+    },
+
     // =========================================================================
     // SENDING & LOGGING
     // =========================================================================
@@ -62,7 +118,8 @@ export const notificationsApi = {
         stage: string,
         recipientId: string | null = null, // In simulation often null/dummy
         customerName: string,
-        sentiment: string = 'neutral'
+        sentiment: string = 'neutral',
+        locale: NotificationLanguage = 'en'
     ): Promise<NotificationLog> => {
         // 1. Get Template
         const templateId = await notificationsApi.getNextTemplateId(stage, sentiment);
@@ -71,8 +128,19 @@ export const notificationsApi = {
         const template = await notificationsApi.getTemplateById(templateId);
         if (!template) throw new Error('Template not found');
 
-        // 2. Render Content (Simulated)
-        const render = template.content_template.replace('{{customer_name}}', customerName).replace('{{ticket_id}}', 'TKT-SIM-01');
+        // 2. Render Content (Simulated): every variable the template uses gets a sample value
+        const variables = sampleTemplateVariables(template.content_template);
+        const samples: Record<string, string | number | Date> = {
+            ...Object.fromEntries(variables.map(variable => [variable.name, variable.example])),
+            customer_name: customerName,
+            name: customerName,
+            ticket_id: 'TKT-SIM-01'
+        };
+        const render = renderTemplate(
+            template.content_template,
+            samples,
+            { locale, format: CHANNEL_OUTPUT_FORMATS[template.channel] ?? 'text', variables }
+        );
 
         // 3. Log it
         const { data, error } = await supabase.rpc('rpc_log_notification', {
@@ -2,8 +2,13 @@ import { createClient } from '@/utils/supabase/client';
 import {
     ScheduleSlot, scheduleSlotSchema,
     TechCandidate, techCandidateSchema,
-    JobAssignment, jobAssignmentSchema
+    JobAssignment, jobAssignmentSchema,
+    JobMove, jobMoveSchema,
+    TechnicianDayPlan, technicianDayPlanSchema
 } from '@/lib/types/scheduling';
+import { MOVE_VIOLATION_LABELS } from '@/lib/scheduling/calendar';
+import type { MoveViolation } from '@/lib/scheduling/day-plan';
+import { z } from 'zod';
 
 const supabase = createClient();
 
@@ -57,5 +62,60 @@ export const schedulingApi = {
         const { data, error } = await query;
         if (error) throw new Error(error.message);
         return data.map((d: any) => jobAssignmentSchema.parse(d));
+    },
+
+    // =========================================================================
+    // DAY PLANS
+    // =========================================================================
+
+    getDayPlan: async (date: string): Promise<TechnicianDayPlan> => {
+        const response = await fetch(`/api/scheduling/day-plans?date=${encodeURIComponent(date)}`);
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(body.error || 'Failed to load day plan');
+        return technicianDayPlanSchema.parse(body.data);
+    },
+
+    planDay: async (date: string): Promise<TechnicianDayPlan> => {
+        const response = await fetch('/api/scheduling/day-plans', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ plan_date: date })
+        });
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(body.error || 'Failed to plan the day');
+        return technicianDayPlanSchema.parse(body.data);
+    },
+
+    // Refused moves throw with the broken constraints as the message
+    moveJob: async (input: {
+        plan_date: string;
+        ticket_id: string;
+        technician_id: string;
+        start_at: string;
+    }): Promise<TechnicianDayPlan> => {
+        const response = await fetch('/api/scheduling/day-plans', {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(input)
+        });
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            const violations: MoveViolation[] = body.violations ?? [];
+            throw new Error(violations.length > 0
+                ? violations.map(violation => MOVE_VIOLATION_LABELS[violation]).join('. ')
+                : body.error || 'Failed to move job');
+        }
+        return technicianDayPlanSchema.parse(body.data);
+    },
+
+    reportOverrun: async (ticketId: string, expectedEndAt: string): Promise<{ plan: TechnicianDayPlan; moved: JobMove[] }> => {
+        const response = await fetch('/api/scheduling/overruns', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ticket_id: ticketId, expected_end_at: expectedEndAt })
+        });
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(body.error || 'Failed to re-plan');
+        return { plan: technicianDayPlanSchema.parse(body.data), moved: z.array(jobMoveSchema).parse(body.moved) };
     }
 };
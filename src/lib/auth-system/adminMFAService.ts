@@ -1,16 +1,27 @@
 import { createClient as createSupabaseClient } from '@supabase/supabase-js';
-import { randomBytes, createHash } from 'crypto';
+import {
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  generateTOTPSecret,
+  hashRecoveryCode,
+  verifyTOTP,
+} from './totp';
 
 interface MFASetupResponse {
   success: boolean;
   error?: string;
   secret?: string;
   qrCode?: string;
+  reauthRequired?: boolean;
+  lockedUntil?: string;
 }
 
 interface MFAVerifyResponse {
   success: boolean;
   error?: string;
+  recoveryCodes?: string[];
+  remainingRecoveryCodes?: number;
+  lockedUntil?: string;
 }
 
 interface MFALoginResponse {
@@ -18,34 +29,118 @@ interface MFALoginResponse {
   error?: string;
   sessionId?: string;
   refreshToken?: string;
+  remainingRecoveryCodes?: number;
+  lockedUntil?: string;
 }
 
+export type MFAMethod = 'totp' | 'recovery_code';
+
+interface ActiveFactor {
+  user_id: string;
+  totp_secret: string;
+  last_used_step: number | null;
+}
+
+const MFA_ISSUER = 'JamesTronic';
+const DEFAULT_TOTP_WINDOW = 1;
+const MAX_SETUP_ATTEMPTS = 5;
+const SETUP_EXPIRY_MS = 10 * 60 * 1000; // 10 minutes
+const RECOVERY_CODE_COUNT = 10;
+const MAX_LOGIN_ATTEMPTS = 5;
+const LOGIN_LOCKOUT_SECONDS = 15 * 60;
+
 /**
  * Admin MFA Service - handles multi-factor authentication for admin users
  */
 export class AdminMFAService {
   /**
-   * Generate MFA secret for admin user
+   * Service role client - MFA secrets and recovery code hashes are never exposed through RLS
+   */
+  private static getServiceClient() {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+    const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+    return createSupabaseClient(supabaseUrl, supabaseServiceRoleKey);
+  }
+
+  /**
+   * Number of 30s steps accepted either side of the server clock (ADMIN_MFA_TOTP_WINDOW, default 1)
    */
-  static async generateMFASecret(adminUserId: string): Promise<MFASetupResponse> {
+  private static getClockSkewWindow(): number {
+    const configured = parseInt(process.env.ADMIN_MFA_TOTP_WINDOW || '', 10);
+    return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_TOTP_WINDOW;
+  }
+
+  /**
+   * Generate MFA secret for admin user.
+   * Replacing an active factor needs a current code from it; the active factor keeps working until the new
+   * secret is verified.
+   */
+  static async generateMFASecret(
+    adminUserId: string,
+    currentCode?: string,
+    method: MFAMethod = 'totp'
+  ): Promise<MFASetupResponse> {
     try {
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-      const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-      const supabase = createSupabaseClient(supabaseUrl, supabaseServiceRoleKey); // Use service role
+      const supabase = this.getServiceClient(); // Use service role
+
+      const { data: factor, error: factorError } = await supabase
+        .from('admin_mfa_factors')
+        .select('user_id, totp_secret, last_used_step, status')
+        .eq('user_id', adminUserId)
+        .maybeSingle();
+
+      if (factorError) {
+        console.error('Error loading MFA factor:', factorError);
+        return {
+          success: false,
+          error: 'Failed to start MFA setup',
+        };
+      }
+
+      if (factor?.status === 'active') {
+        if (!currentCode) {
+          return {
+            success: false,
+            error: 'Enter a code from your current authenticator or a recovery code to reconfigure MFA',
+            reauthRequired: true,
+          };
+        }
+
+        const verified = await this.verifySecondFactor(factor, currentCode, method);
+        if (!verified.success) {
+          return {
+            success: false,
+            error: verified.error,
+            reauthRequired: true,
+            lockedUntil: verified.lockedUntil,
+          };
+        }
+      }
+
+      // Label the authenticator entry with the admin's own account
+      const { data: userData, error: userError } = await supabase.auth.admin.getUserById(adminUserId);
+      if (userError || !userData?.user) {
+        console.error('Error loading admin user for MFA setup:', userError);
+        return {
+          success: false,
+          error: 'Admin user not found',
+        };
+      }
+      const accountName = userData.user.email || userData.user.phone || adminUserId;
 
-      // Generate a random secret
-      const secret = randomBytes(32).toString('hex');
-      const secretHash = createHash('sha256').update(secret).digest('hex');
+      // Generate a random base32 secret
+      const secret = generateTOTPSecret();
 
-      // Store the MFA secret temporarily
+      // Store the secret as pending; it only replaces the active one once a code is verified.
+      // Only the setup columns are written, so an existing row keeps its status and active secret.
       const { error } = await supabase
-        .from('admin_mfa_sessions')
-        .insert({
+        .from('admin_mfa_factors')
+        .upsert({
           user_id: adminUserId,
-          mfa_token_hash: secretHash, // This is the MFA secret hash
-          expires_at: new Date(Date.now() + 10 * 60 * 1000).toISOString(), // 10 minutes expiry
-          verified: false
-        });
+          pending_secret: secret,
+          setup_failed_attempts: 0,
+          setup_expires_at: new Date(Date.now() + SETUP_EXPIRY_MS).toISOString(),
+        }, { onConflict: 'user_id' });
 
       if (error) {
         console.error('Error storing MFA secret:', error);
@@ -55,14 +150,11 @@ export class AdminMFAService {
         };
       }
 
-      // Generate a QR code (simplified - in real implementation you'd use a QR code library)
-      const issuer = 'JamesTronic';
-      const accountName = `admin@jamestronic.com`;
-      const otpauthUrl = `otpauth://totp/${issuer}:${accountName}?secret=${secret}&issuer=${issuer}`;
+      const otpauthUrl = buildOtpauthUrl(secret, accountName, MFA_ISSUER);
 
       return {
         success: true,
-        secret, // Only return the secret temporarily for QR code generation
+        secret, // Only return the secret temporarily for manual entry
         qrCode: otpauthUrl, // This would be converted to an actual QR code image in the frontend
       };
     } catch (error) {
@@ -75,61 +167,55 @@ export class AdminMFAService {
   }
 
   /**
-   * Verify MFA code for admin user during setup
+   * Verify MFA code for admin user during setup.
+   * On success the pending secret becomes the active one and a fresh set of recovery codes is issued.
    */
-  static async verifyMFACode(adminUserId: string, code: string, secret: string): Promise<MFAVerifyResponse> {
+  static async verifyMFACode(adminUserId: string, code: string): Promise<MFAVerifyResponse> {
     try {
-      // In a real implementation, you would validate the TOTP code against the secret
-      // For this implementation, we'll simulate the verification
-      // You would typically use a library like 'notp' or 'speakeasy' for TOTP validation
+      const supabase = this.getServiceClient();
 
-      // First, get the stored MFA attempt
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-      const supabase = createSupabaseClient(supabaseUrl, supabaseAnonKey);
-      const { data: mfaAttempt, error } = await supabase
-        .from('admin_mfa_sessions')
+      // First, get the pending factor
+      const { data: factor, error } = await supabase
+        .from('admin_mfa_factors')
         .select('*')
         .eq('user_id', adminUserId)
-        .order('created_at', { ascending: false })
-        .limit(1)
         .single();
 
-      if (error || !mfaAttempt) {
+      if (error || !factor || !factor.pending_secret) {
         return {
           success: false,
-          error: 'No MFA attempt found',
+          error: 'No MFA setup in progress',
         };
       }
 
-      // Check if the MFA attempt has expired
-      const now = new Date();
-      const expiry = new Date(mfaAttempt.expires_at);
-      if (now > expiry) {
+      // Check if the setup attempt has expired
+      if (factor.setup_expires_at && new Date() > new Date(factor.setup_expires_at)) {
         return {
           success: false,
-          error: 'MFA code has expired',
+          error: 'MFA setup has expired. Please start again.',
         };
       }
 
       // Check if max attempts have been reached
-      if (mfaAttempt.attempt_count && mfaAttempt.attempt_count >= 5) { // Max 5 attempts
+      if (factor.setup_failed_attempts >= MAX_SETUP_ATTEMPTS) {
         return {
           success: false,
           error: 'Maximum MFA attempts exceeded. Please try again later.',
         };
       }
 
-      // In a real implementation, verify the code using a TOTP library
-      // For this demo, we'll just check if it's the expected value
-      if (code !== '123456') { // Replace with actual TOTP verification
+      // A new secret has no used steps yet
+      const result = verifyTOTP(factor.pending_secret, code, {
+        window: this.getClockSkewWindow(),
+        lastUsedStep: null,
+      });
+
+      if (!result.valid || result.step === undefined) {
         // Increment attempt count
         const { error: updateError } = await supabase
-          .from('admin_mfa_sessions')
-          .update({
-            attempt_count: (mfaAttempt.attempt_count || 0) + 1,
-          })
-          .eq('id', mfaAttempt.id);
+          .from('admin_mfa_factors')
+          .update({ setup_failed_attempts: factor.setup_failed_attempts + 1 })
+          .eq('user_id', adminUserId);
 
         if (updateError) {
           console.error('Error updating MFA attempt count:', updateError);
@@ -141,15 +227,25 @@ export class AdminMFAService {
         };
       }
 
-      // Mark MFA attempt as verified
-      const { error: updateError } = await supabase
-        .from('admin_mfa_sessions')
+      // Activate the new secret, unless another setup replaced it in the meantime
+      const now = new Date().toISOString();
+      const { data: activated, error: updateError } = await supabase
+        .from('admin_mfa_factors')
         .update({
-          verified: true,
-          verified_at: new Date().toISOString(),
-          attempt_count: (mfaAttempt.attempt_count || 0) + 1, // Count the successful attempt too
+          totp_secret: factor.pending_secret,
+          status: 'active',
+          last_used_step: result.step,
+          failed_attempts: 0,
+          locked_until: null,
+          pending_secret: null,
+          setup_failed_attempts: 0,
+          setup_expires_at: null,
+          confirmed_at: now,
+          last_verified_at: now,
         })
-        .eq('id', mfaAttempt.id);
+        .eq('user_id', adminUserId)
+        .eq('pending_secret', factor.pending_secret)
+        .select('user_id');
 
       if (updateError) {
         console.error('Error updating MFA verification status:', updateError);
@@ -159,8 +255,32 @@ export class AdminMFAService {
         };
       }
 
+      if (!activated || activated.length === 0) {
+        return {
+          success: false,
+          error: 'MFA setup was restarted. Scan the new QR code.',
+        };
+      }
+
+      const recoveryCodes = await this.issueRecoveryCodes(adminUserId);
+      if (!recoveryCodes) {
+        return {
+          success: false,
+          error: 'Failed to issue recovery codes',
+        };
+      }
+
+      const enabled = await this.enableMFA(adminUserId);
+      if (!enabled.success) {
+        return {
+          success: false,
+          error: enabled.error,
+        };
+      }
+
       return {
         success: true,
+        recoveryCodes,
       };
     } catch (error) {
       console.error('Error verifying MFA code:', error);
@@ -172,13 +292,53 @@ export class AdminMFAService {
   }
 
   /**
-   * Verify MFA code during admin login
+   * Replace all recovery codes for an admin. Only hashes are stored; the plain codes are returned once.
    */
-  static async verifyMFADuringLogin(sessionId: string, mfaCode: string): Promise<MFALoginResponse> {
+  static async issueRecoveryCodes(adminUserId: string): Promise<string[] | null> {
     try {
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-      const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-      const supabase = createSupabaseClient(supabaseUrl, supabaseAnonKey);
+      const supabase = this.getServiceClient();
+
+      const { error: deleteError } = await supabase
+        .from('admin_mfa_recovery_codes')
+        .delete()
+        .eq('user_id', adminUserId);
+
+      if (deleteError) {
+        console.error('Error clearing recovery codes:', deleteError);
+        return null;
+      }
+
+      const codes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+      const { error } = await supabase
+        .from('admin_mfa_recovery_codes')
+        .insert(codes.map(code => ({
+          user_id: adminUserId,
+          code_hash: hashRecoveryCode(code),
+        })));
+
+      if (error) {
+        console.error('Error storing recovery codes:', error);
+        return null;
+      }
+
+      return codes;
+    } catch (error) {
+      console.error('Error issuing recovery codes:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Verify MFA code during admin login.
+   * Accepts either a TOTP code from the authenticator app or a single-use recovery code.
+   */
+  static async verifyMFADuringLogin(
+    sessionId: string,
+    mfaCode: string,
+    method: MFAMethod = 'totp'
+  ): Promise<MFALoginResponse> {
+    try {
+      const supabase = this.getServiceClient();
 
       // Get the session to verify it exists and get the user ID
       const { data: session, error: sessionError } = await supabase
@@ -194,26 +354,24 @@ export class AdminMFAService {
         };
       }
 
-      // Check if the user has MFA enabled (by checking if they have a verified MFA setup)
-      const { data: mfaRecords, error: mfaError } = await supabase
-        .from('admin_mfa_sessions')
+      // Check if the user has an active TOTP factor
+      const { data: factor, error: mfaError } = await supabase
+        .from('admin_mfa_factors')
         .select('*')
         .eq('user_id', session.user_id)
-        .eq('verified', true)
-        .limit(1);
+        .eq('status', 'active')
+        .maybeSingle();
 
       if (mfaError) {
         console.error('Error checking MFA setup:', mfaError);
-        // If there's an error checking MFA, allow login without MFA for safety
         return {
-          success: true,
-          sessionId: session.id,
-          refreshToken: '' // Refresh token would be returned by session creation
+          success: false,
+          error: 'Unable to verify MFA',
         };
       }
 
       // If MFA is not enabled for this user, allow login
-      if (!mfaRecords || mfaRecords.length === 0) {
+      if (!factor) {
         return {
           success: true,
           sessionId: session.id,
@@ -221,12 +379,13 @@ export class AdminMFAService {
         };
       }
 
-      // If MFA is enabled, verify the code
-      // In a real implementation, this would validate the TOTP code against the stored secret
-      if (mfaCode !== '123456') { // Replace with actual verification
+      const verified = await this.verifySecondFactor(factor, mfaCode, method);
+
+      if (!verified.success) {
         return {
           success: false,
-          error: 'Invalid MFA code',
+          error: verified.error,
+          lockedUntil: verified.lockedUntil,
         };
       }
 
@@ -234,7 +393,8 @@ export class AdminMFAService {
       return {
         success: true,
         sessionId: session.id,
-        refreshToken: '' // Refresh token would be returned by session creation
+        refreshToken: '', // Refresh token would be returned by session creation
+        remainingRecoveryCodes: verified.remainingRecoveryCodes,
       };
     } catch (error) {
       console.error('Error during MFA verification:', error);
@@ -245,6 +405,136 @@ export class AdminMFAService {
     }
   }
 
+  /**
+   * Check a code against an active factor. Every attempt is claimed before the code is checked and counts
+   * towards the lockout, TOTP and recovery codes alike; a correct code clears the count.
+   */
+  private static async verifySecondFactor(
+    factor: ActiveFactor,
+    code: string,
+    method: MFAMethod
+  ): Promise<MFAVerifyResponse> {
+    const supabase = this.getServiceClient();
+
+    const { data, error } = await supabase.rpc('claim_admin_mfa_attempt', {
+      p_user_id: factor.user_id,
+      p_max_attempts: MAX_LOGIN_ATTEMPTS,
+      p_lockout_seconds: LOGIN_LOCKOUT_SECONDS,
+    });
+
+    if (error) {
+      console.error('Error claiming MFA attempt:', error);
+      return { success: false, error: 'Unable to verify MFA' };
+    }
+
+    const claim = Array.isArray(data) ? data[0] : data;
+    if (!claim?.allowed) {
+      return {
+        success: false,
+        error: 'Too many failed MFA attempts. Please try again later.',
+        lockedUntil: claim?.locked_until ?? undefined,
+      };
+    }
+
+    const verified = method === 'recovery_code'
+      ? await this.consumeRecoveryCode(factor.user_id, code)
+      : await this.consumeTOTPCode(factor.user_id, factor.totp_secret, factor.last_used_step, code);
+
+    if (!verified.success) {
+      return verified;
+    }
+
+    const { error: resetError } = await supabase
+      .from('admin_mfa_factors')
+      .update({
+        failed_attempts: 0,
+        locked_until: null,
+        last_verified_at: new Date().toISOString(),
+      })
+      .eq('user_id', factor.user_id);
+
+    if (resetError) {
+      console.error('Error resetting MFA attempt count:', resetError);
+    }
+
+    return verified;
+  }
+
+  /**
+   * Verify a TOTP code and atomically record its time step so it cannot be replayed
+   */
+  private static async consumeTOTPCode(
+    userId: string,
+    secret: string,
+    lastUsedStep: number | null,
+    code: string
+  ): Promise<MFAVerifyResponse> {
+    const result = verifyTOTP(secret, code, {
+      window: this.getClockSkewWindow(),
+      lastUsedStep,
+    });
+
+    if (result.replayed) {
+      return { success: false, error: 'MFA code has already been used' };
+    }
+
+    if (!result.valid || result.step === undefined) {
+      return { success: false, error: 'Invalid MFA code' };
+    }
+
+    // Conditional update guards against two concurrent requests using the same code
+    const supabase = this.getServiceClient();
+    const { data, error } = await supabase
+      .from('admin_mfa_factors')
+      .update({ last_used_step: result.step })
+      .eq('user_id', userId)
+      .or(`last_used_step.is.null,last_used_step.lt.${result.step}`)
+      .select('user_id');
+
+    if (error) {
+      console.error('Error recording MFA time step:', error);
+      return { success: false, error: 'Failed to verify MFA' };
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: 'MFA code has already been used' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Mark a recovery code as used. Each code works exactly once.
+   */
+  private static async consumeRecoveryCode(userId: string, code: string): Promise<MFAVerifyResponse> {
+    const supabase = this.getServiceClient();
+
+    const { data, error } = await supabase
+      .from('admin_mfa_recovery_codes')
+      .update({ used_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('code_hash', hashRecoveryCode(code))
+      .is('used_at', null)
+      .select('id');
+
+    if (error) {
+      console.error('Error consuming recovery code:', error);
+      return { success: false, error: 'Failed to verify recovery code' };
+    }
+
+    if (!data || data.length === 0) {
+      return { success: false, error: 'Invalid or already used recovery code' };
+    }
+
+    const { count } = await supabase
+      .from('admin_mfa_recovery_codes')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('used_at', null);
+
+    return { success: true, remainingRecoveryCodes: count ?? undefined };
+  }
+
   /**
    * Enable MFA for an admin user
    */
@@ -309,6 +599,10 @@ export class AdminMFAService {
         };
       }
 
+      // Remove the TOTP factor and any outstanding recovery codes
+      await supabase.from('admin_mfa_factors').delete().eq('user_id', adminUserId);
+      await supabase.from('admin_mfa_recovery_codes').delete().eq('user_id', adminUserId);
+
       return {
         success: true,
       };
@@ -55,6 +55,29 @@ export const deviceFingerprintGenerator = async (): Promise<string> => {
   }
 };
 
+const DEVICE_FINGERPRINT_STORAGE_KEY = 'jt_device_fingerprint';
+
+/**
+ * Browser-side fingerprint that stays the same across visits: generated once and kept in
+ * localStorage. Sent with OTP requests so rate limits follow a device across IP addresses.
+ * @returns null on the server or when storage is unavailable
+ */
+export const getPersistentDeviceFingerprint = async (): Promise<string | null> => {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = window.localStorage.getItem(DEVICE_FINGERPRINT_STORAGE_KEY);
+    if (stored) return stored;
+
+    const fingerprint = await deviceFingerprintGenerator();
+    window.localStorage.setItem(DEVICE_FINGERPRINT_STORAGE_KEY, fingerprint);
+    return fingerprint;
+  } catch (error) {
+    console.error('Error reading persistent device fingerprint:', error);
+    return null;
+  }
+};
+
 /**
  * Creates or updates device record in the database
  */
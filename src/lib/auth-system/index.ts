@@ -34,6 +34,7 @@ export {
 // Device Management
 export {
   deviceFingerprintGenerator,
+  getPersistentDeviceFingerprint,
   registerDevice,
   updateDevice,
   isDeviceRegistered,
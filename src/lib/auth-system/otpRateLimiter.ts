@@ -0,0 +1,262 @@
+/**
+ * OTP rate limiting and abuse protection
+ * Token buckets per phone, IP and device for OTP requests and verification, escalating cooldowns
+ * for keys that keep hitting their limit, and lockouts after repeated wrong codes. Every cooldown
+ * and lockout is recorded in admin_security_events for the OTP pumping alert rules.
+ */
+
+import { createHash } from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import {
+  PenaltyState,
+  PostgresRateLimitBackend,
+  RateLimitBackend,
+  StrikeLadder,
+  TokenBucketConfig
+} from './rateLimitBackend';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export type RateLimitDimension = 'phone' | 'ip' | 'device';
+
+export interface OtpRateLimitPolicy {
+  request: Record<RateLimitDimension, TokenBucketConfig>;
+  verify: Partial<Record<RateLimitDimension, TokenBucketConfig>>;
+  /** Cooldown after each successive time a key exhausts its request bucket */
+  requestCooldownsMs: number[];
+  /** Wrong codes within the window that lock the phone out of verification */
+  maxVerifyFailures: number;
+  verifyFailureWindowMs: number;
+  /** Length of each successive verification lockout */
+  verifyLockoutsMs: number[];
+  /** Strikes older than this no longer escalate the next cooldown or lockout */
+  strikeDecayMs: number;
+}
+
+export const OTP_RATE_LIMIT_POLICY: OtpRateLimitPolicy = {
+  request: {
+    phone: { capacity: 5, refillIntervalMs: 3 * MINUTE },
+    ip: { capacity: 20, refillIntervalMs: 3 * MINUTE },
+    device: { capacity: 10, refillIntervalMs: 6 * MINUTE },
+  },
+  verify: {
+    phone: { capacity: 10, refillIntervalMs: 90 * 1000 },
+    ip: { capacity: 30, refillIntervalMs: 30 * 1000 },
+  },
+  requestCooldownsMs: [1 * MINUTE, 5 * MINUTE, 15 * MINUTE, 1 * HOUR],
+  maxVerifyFailures: 5,
+  verifyFailureWindowMs: 15 * MINUTE,
+  verifyLockoutsMs: [15 * MINUTE, 1 * HOUR, 24 * HOUR],
+  strikeDecayMs: 24 * HOUR,
+};
+
+export interface OtpSubject {
+  phone: string;
+  ip: string | null;
+  /** Per-install device id sent by the client, if any */
+  deviceFingerprint: string | null;
+  userAgent?: string | null;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAfterSeconds: number;
+  reason?: 'rate_limited' | 'cooldown' | 'locked';
+  dimension?: RateLimitDimension;
+}
+
+export type OtpSecurityEventType = 'OTP_REQUEST_COOLDOWN' | 'OTP_VERIFY_LOCKOUT';
+
+export interface OtpSecurityEvent {
+  event_type: OtpSecurityEventType;
+  severity: 'warning' | 'high';
+  subject: OtpSubject;
+  dimension: RateLimitDimension;
+  strikes: number;
+  locked_until: string;
+}
+
+export type OtpSecurityEventRecorder = (event: OtpSecurityEvent) => Promise<void>;
+
+/**
+ * Write a cooldown or lockout to admin_security_events. OTP events have no admin user; the
+ * phone, device and limiter details go in metadata.
+ */
+export const recordOtpSecurityEvent: OtpSecurityEventRecorder = async (event) => {
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  );
+
+  const { error } = await supabase
+    .from('admin_security_events')
+    .insert({
+      admin_user_id: null,
+      event_type: event.event_type,
+      ip_address: event.subject.ip,
+      user_agent: event.subject.userAgent ?? null,
+      severity: event.severity,
+      metadata: {
+        phone_e164: event.subject.phone,
+        device_fingerprint: event.subject.deviceFingerprint,
+        dimension: event.dimension,
+        strikes: event.strikes,
+        locked_until: event.locked_until,
+      },
+    });
+
+  if (error) {
+    console.error('Error recording OTP security event:', error);
+  }
+};
+
+const ALLOWED: RateLimitDecision = { allowed: true, retryAfterSeconds: 0 };
+
+const toSeconds = (ms: number) => Math.max(1, Math.ceil(ms / 1000));
+
+export class OtpRateLimiter {
+  constructor(
+    private backend: RateLimitBackend = new PostgresRateLimitBackend(),
+    private recordEvent: OtpSecurityEventRecorder = recordOtpSecurityEvent,
+    private policy: OtpRateLimitPolicy = OTP_RATE_LIMIT_POLICY
+  ) {}
+
+  /**
+   * Check whether an OTP may be sent. A key that runs out of tokens is put in a cooldown that
+   * grows each time it happens again.
+   */
+  async checkRequest(subject: OtpSubject, now: number = Date.now()): Promise<RateLimitDecision> {
+    const keys = this.subjectKeys('otp_request', subject, ['ip', 'device', 'phone']);
+
+    const cooldown = await this.findLock(keys, now, 'cooldown');
+    if (cooldown) return cooldown;
+
+    for (const { dimension, key } of keys) {
+      const bucket = await this.backend.take(key, this.policy.request[dimension], now);
+      if (bucket.allowed) continue;
+
+      // The cooldown lasts at least until the bucket has a token again
+      const penalty = await this.backend.strike(key, this.ladder(this.policy.requestCooldownsMs), now, bucket.retryAfterMs);
+      await this.emit('OTP_REQUEST_COOLDOWN', 'warning', subject, dimension, penalty);
+
+      return { allowed: false, retryAfterSeconds: toSeconds(penalty.lockedUntil! - now), reason: 'cooldown', dimension };
+    }
+
+    return ALLOWED;
+  }
+
+  /**
+   * Check whether a code may be verified: the phone must not be locked out and the verification
+   * buckets must have tokens left
+   */
+  async checkVerify(subject: OtpSubject, now: number = Date.now()): Promise<RateLimitDecision> {
+    const lockout = await this.findLock(this.subjectKeys('otp_verify', subject, ['phone']), now, 'locked');
+    if (lockout) return lockout;
+
+    const dimensions = Object.keys(this.policy.verify) as RateLimitDimension[];
+    for (const { dimension, key } of this.subjectKeys('otp_verify', subject, dimensions)) {
+      const bucket = await this.backend.take(key, this.policy.verify[dimension]!, now);
+      if (!bucket.allowed) {
+        return { allowed: false, retryAfterSeconds: toSeconds(bucket.retryAfterMs), reason: 'rate_limited', dimension };
+      }
+    }
+
+    return ALLOWED;
+  }
+
+  /**
+   * Count a wrong code; enough of them within the window lock the phone out
+   * @returns The lockout, if this failure caused one
+   */
+  async recordVerifyFailure(subject: OtpSubject, now: number = Date.now()): Promise<RateLimitDecision> {
+    const [{ key }] = this.subjectKeys('otp_verify', subject, ['phone']);
+    const { penalty, struck } = await this.backend.recordFailure(key, {
+      maxFailures: this.policy.maxVerifyFailures,
+      windowMs: this.policy.verifyFailureWindowMs,
+      ladder: this.ladder(this.policy.verifyLockoutsMs),
+    }, now);
+    if (!struck) return ALLOWED;
+
+    await this.emit('OTP_VERIFY_LOCKOUT', 'high', subject, 'phone', penalty);
+
+    return { allowed: false, retryAfterSeconds: toSeconds(penalty.lockedUntil! - now), reason: 'locked', dimension: 'phone' };
+  }
+
+  /**
+   * Forget the phone's wrong codes after a successful verification. Strikes are kept so a
+   * repeat offender still escalates.
+   */
+  async recordVerifySuccess(subject: OtpSubject): Promise<void> {
+    const [{ key }] = this.subjectKeys('otp_verify', subject, ['phone']);
+    await this.backend.clearFailures(key);
+  }
+
+  private subjectKeys(
+    scope: 'otp_request' | 'otp_verify',
+    subject: OtpSubject,
+    dimensions: RateLimitDimension[]
+  ): Array<{ dimension: RateLimitDimension; key: string }> {
+    const values: Record<RateLimitDimension, string | null> = {
+      phone: subject.phone,
+      ip: subject.ip,
+      // Hashed so arbitrary client input has a bounded key length
+      device: subject.deviceFingerprint
+        ? createHash('sha256').update(subject.deviceFingerprint).digest('hex').slice(0, 32)
+        : null,
+    };
+
+    return dimensions
+      .filter(dimension => values[dimension])
+      .map(dimension => ({ dimension, key: `${scope}:${dimension}:${values[dimension]}` }));
+  }
+
+  private async findLock(
+    keys: Array<{ dimension: RateLimitDimension; key: string }>,
+    now: number,
+    reason: 'cooldown' | 'locked'
+  ): Promise<RateLimitDecision | null> {
+    for (const { dimension, key } of keys) {
+      const penalty = await this.backend.getPenalty(key);
+      if (penalty?.lockedUntil && penalty.lockedUntil > now) {
+        return { allowed: false, retryAfterSeconds: toSeconds(penalty.lockedUntil - now), reason, dimension };
+      }
+    }
+    return null;
+  }
+
+  private ladder(durationsMs: number[]): StrikeLadder {
+    return { durationsMs, decayMs: this.policy.strikeDecayMs };
+  }
+
+  private async emit(
+    eventType: OtpSecurityEventType,
+    severity: OtpSecurityEvent['severity'],
+    subject: OtpSubject,
+    dimension: RateLimitDimension,
+    penalty: PenaltyState
+  ): Promise<void> {
+    try {
+      await this.recordEvent({
+        event_type: eventType,
+        severity,
+        subject,
+        dimension,
+        strikes: penalty.strikes,
+        locked_until: new Date(penalty.lockedUntil!).toISOString(),
+      });
+    } catch (error) {
+      // A missing audit row must not turn into a bypass or a failed login
+      console.error('Error emitting OTP security event:', error);
+    }
+  }
+}
+
+/**
+ * Client IP for rate limiting: the first x-forwarded-for hop, else x-real-ip
+ */
+export function getClientIp(headers: Headers): string | null {
+  const forwarded = headers.get('x-forwarded-for')?.split(',')[0].trim();
+  return forwarded || headers.get('x-real-ip') || null;
+}
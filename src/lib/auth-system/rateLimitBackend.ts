@@ -0,0 +1,270 @@
+/**
+ * Storage backends for the OTP rate limiter
+ * Postgres keeps bucket state shared across server instances; the in-memory backend is for tests
+ * and local development only.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+export interface TokenBucketConfig {
+  /** Tokens the bucket holds when full, i.e. the allowed burst */
+  capacity: number;
+  /** Milliseconds to refill one token */
+  refillIntervalMs: number;
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  refilledAt: number;
+}
+
+export interface TokenBucketResult {
+  allowed: boolean;
+  /** Milliseconds until a token is available; 0 when allowed */
+  retryAfterMs: number;
+}
+
+/**
+ * Failure counts and cooldowns for one limiter key
+ */
+export interface PenaltyState {
+  failures: number;
+  failureWindowStartedAt: number | null;
+  /** Cooldowns or lockouts applied so far; each one is longer than the last */
+  strikes: number;
+  lastStrikeAt: number | null;
+  lockedUntil: number | null;
+}
+
+/**
+ * Escalating cooldowns or lockouts: each strike within the decay window moves one step up the ladder
+ */
+export interface StrikeLadder {
+  durationsMs: number[];
+  /** Strikes older than this no longer escalate the next one */
+  decayMs: number;
+}
+
+/**
+ * Failures within the window that earn a strike on the ladder
+ */
+export interface FailureLimit {
+  maxFailures: number;
+  windowMs: number;
+  ladder: StrikeLadder;
+}
+
+export interface FailureResult {
+  penalty: PenaltyState;
+  /** Whether this failure reached the limit and applied a strike */
+  struck: boolean;
+}
+
+export interface RateLimitBackend {
+  /** Refill the bucket for the elapsed time and take one token, atomically */
+  take(key: string, bucket: TokenBucketConfig, now: number): Promise<TokenBucketResult>;
+  getPenalty(key: string): Promise<PenaltyState | null>;
+  /** Apply the next step of the ladder, lasting at least minimumMs, atomically */
+  strike(key: string, ladder: StrikeLadder, now: number, minimumMs?: number): Promise<PenaltyState>;
+  /** Count one failure and strike when it reaches the limit, atomically */
+  recordFailure(key: string, limit: FailureLimit, now: number): Promise<FailureResult>;
+  /** Forget the key's failures; strikes and any lockout stay */
+  clearFailures(key: string): Promise<void>;
+}
+
+const emptyPenalty = (): PenaltyState => ({
+  failures: 0,
+  failureWindowStartedAt: null,
+  strikes: 0,
+  lastStrikeAt: null,
+  lockedUntil: null,
+});
+
+/**
+ * Refill a bucket for the time elapsed since it was last touched and take one token
+ */
+export function takeToken(
+  state: TokenBucketState | null,
+  bucket: TokenBucketConfig,
+  now: number
+): { state: TokenBucketState; result: TokenBucketResult } {
+  const elapsed = state ? Math.max(0, now - state.refilledAt) : 0;
+  const tokens = state ? Math.min(bucket.capacity, state.tokens + elapsed / bucket.refillIntervalMs) : bucket.capacity;
+
+  if (tokens >= 1) {
+    return { state: { tokens: tokens - 1, refilledAt: now }, result: { allowed: true, retryAfterMs: 0 } };
+  }
+
+  return {
+    state: { tokens, refilledAt: now },
+    result: { allowed: false, retryAfterMs: Math.ceil((1 - tokens) * bucket.refillIntervalMs) },
+  };
+}
+
+/**
+ * Apply the next cooldown or lockout in the escalation ladder
+ */
+export function applyStrike(
+  state: PenaltyState | null,
+  ladder: StrikeLadder,
+  now: number,
+  minimumMs: number = 0
+): PenaltyState {
+  const current = state ?? emptyPenalty();
+  const recent = current.lastStrikeAt !== null && now - current.lastStrikeAt < ladder.decayMs;
+  const strikes = recent ? current.strikes + 1 : 1;
+
+  return {
+    ...current,
+    strikes,
+    lastStrikeAt: now,
+    lockedUntil: now + Math.max(minimumMs, ladder.durationsMs[Math.min(strikes, ladder.durationsMs.length) - 1]),
+  };
+}
+
+/**
+ * Count a failure in the current window; reaching the limit resets the count and applies a strike
+ */
+export function applyFailure(state: PenaltyState | null, limit: FailureLimit, now: number): FailureResult {
+  const current = state ?? emptyPenalty();
+  const windowOpen = current.failureWindowStartedAt !== null && now - current.failureWindowStartedAt < limit.windowMs;
+  const failures = windowOpen ? current.failures + 1 : 1;
+  const failureWindowStartedAt = windowOpen ? current.failureWindowStartedAt : now;
+
+  if (failures < limit.maxFailures) {
+    return { penalty: { ...current, failures, failureWindowStartedAt }, struck: false };
+  }
+
+  return {
+    penalty: applyStrike({ ...current, failures: 0, failureWindowStartedAt: null }, limit.ladder, now),
+    struck: true,
+  };
+}
+
+export class InMemoryRateLimitBackend implements RateLimitBackend {
+  private buckets = new Map<string, TokenBucketState>();
+  private penalties = new Map<string, PenaltyState>();
+
+  async take(key: string, bucket: TokenBucketConfig, now: number): Promise<TokenBucketResult> {
+    const { state, result } = takeToken(this.buckets.get(key) ?? null, bucket, now);
+    this.buckets.set(key, state);
+    return result;
+  }
+
+  async getPenalty(key: string): Promise<PenaltyState | null> {
+    return this.penalties.get(key) ?? null;
+  }
+
+  async strike(key: string, ladder: StrikeLadder, now: number, minimumMs: number = 0): Promise<PenaltyState> {
+    const penalty = applyStrike(this.penalties.get(key) ?? null, ladder, now, minimumMs);
+    this.penalties.set(key, penalty);
+    return penalty;
+  }
+
+  async recordFailure(key: string, limit: FailureLimit, now: number): Promise<FailureResult> {
+    const result = applyFailure(this.penalties.get(key) ?? null, limit, now);
+    this.penalties.set(key, result.penalty);
+    return result;
+  }
+
+  async clearFailures(key: string): Promise<void> {
+    const current = this.penalties.get(key);
+    if (current) this.penalties.set(key, { ...current, failures: 0, failureWindowStartedAt: null });
+  }
+}
+
+const toMillis = (value: string | null): number | null => (value ? new Date(value).getTime() : null);
+
+type PenaltyRow = {
+  failures: number;
+  failure_window_started_at: string | null;
+  strikes: number;
+  last_strike_at: string | null;
+  locked_until: string | null;
+};
+
+const toPenalty = (row: PenaltyRow): PenaltyState => ({
+  failures: row.failures,
+  failureWindowStartedAt: toMillis(row.failure_window_started_at),
+  strikes: row.strikes,
+  lastStrikeAt: toMillis(row.last_strike_at),
+  lockedUntil: toMillis(row.locked_until),
+});
+
+/**
+ * Buckets and penalties are updated through database functions that lock the row and use the
+ * database clock, so concurrent instances cannot both spend the last token or both count the
+ * same failure window.
+ */
+export class PostgresRateLimitBackend implements RateLimitBackend {
+  private supabase: SupabaseClient;
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase ?? createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+  }
+
+  async take(key: string, bucket: TokenBucketConfig): Promise<TokenBucketResult> {
+    const { data, error } = await this.supabase.rpc('take_rate_limit_token', {
+      p_key: key,
+      p_capacity: bucket.capacity,
+      p_refill_interval_ms: bucket.refillIntervalMs,
+    });
+
+    if (error) throw new Error(`Rate limit check failed: ${error.message}`);
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return { allowed: Boolean(row?.allowed), retryAfterMs: Number(row?.retry_after_ms ?? 0) };
+  }
+
+  async getPenalty(key: string): Promise<PenaltyState | null> {
+    const { data, error } = await this.supabase
+      .from('rate_limit_penalties')
+      .select('failures, failure_window_started_at, strikes, last_strike_at, locked_until')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) throw new Error(`Rate limit penalty lookup failed: ${error.message}`);
+    return data ? toPenalty(data) : null;
+  }
+
+  async strike(key: string, ladder: StrikeLadder, _now: number, minimumMs: number = 0): Promise<PenaltyState> {
+    const { data, error } = await this.supabase.rpc('strike_rate_limit_key', {
+      p_key: key,
+      p_durations_ms: ladder.durationsMs,
+      p_decay_ms: ladder.decayMs,
+      p_minimum_ms: Math.ceil(minimumMs),
+    });
+
+    if (error) throw new Error(`Rate limit strike failed: ${error.message}`);
+    return toPenalty(Array.isArray(data) ? data[0] : data);
+  }
+
+  async recordFailure(key: string, limit: FailureLimit): Promise<FailureResult> {
+    const { data, error } = await this.supabase.rpc('record_rate_limit_failure', {
+      p_key: key,
+      p_max_failures: limit.maxFailures,
+      p_window_ms: limit.windowMs,
+      p_durations_ms: limit.ladder.durationsMs,
+      p_decay_ms: limit.ladder.decayMs,
+    });
+
+    if (error) throw new Error(`Rate limit failure update failed: ${error.message}`);
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return { penalty: toPenalty(row), struck: Boolean(row?.struck) };
+  }
+
+  async clearFailures(key: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('rate_limit_penalties')
+      .update({ failures: 0, failure_window_started_at: null, updated_at: new Date().toISOString() })
+      .eq('key', key)
+      .gt('failures', 0);
+
+    if (error) throw new Error(`Rate limit penalty update failed: ${error.message}`);
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * RFC 6238 TOTP implementation for JamesTronic admin MFA
+ * HMAC-SHA1 time-based one-time passwords plus single-use recovery codes
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TOTPOptions {
+  /** Time step in seconds (RFC 6238 default: 30) */
+  period?: number;
+  /** Number of digits in the generated code */
+  digits?: number;
+  /** Number of time steps accepted either side of the current one to absorb clock skew */
+  window?: number;
+}
+
+export interface TOTPVerifyOptions extends TOTPOptions {
+  /** Time to verify against, in milliseconds since epoch */
+  now?: number;
+  /** Last time step that was accepted for this secret; that step and earlier ones are rejected */
+  lastUsedStep?: number | null;
+}
+
+export interface TOTPVerifyResult {
+  valid: boolean;
+  /** The time step the code matched, to be persisted as the new lastUsedStep */
+  step?: number;
+  /** Set when the code matched a step that was already used */
+  replayed?: boolean;
+}
+
+const DEFAULT_PERIOD = 30;
+const DEFAULT_DIGITS = 6;
+const DEFAULT_WINDOW = 1;
+
+/**
+ * Encodes bytes as RFC 4648 base32 without padding, as expected by authenticator apps
+ */
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+/**
+ * Decodes an RFC 4648 base32 string, ignoring padding, whitespace and case
+ */
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.replace(/[\s=-]/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+/**
+ * Generates a new random TOTP secret (160 bits, the RFC 4226 recommended length)
+ */
+export const generateTOTPSecret = (): string => {
+  return base32Encode(randomBytes(20));
+};
+
+/**
+ * Returns the TOTP time step for a timestamp
+ */
+export const getTimeStep = (now: number = Date.now(), period: number = DEFAULT_PERIOD): number => {
+  return Math.floor(now / 1000 / period);
+};
+
+/**
+ * Computes the HOTP value (RFC 4226) for a counter
+ */
+export const generateHOTP = (secret: string, counter: number, digits: number = DEFAULT_DIGITS): string => {
+  const key = base32Decode(secret);
+
+  // 8-byte big-endian counter; split to stay within safe integer bit operations
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+  counterBuffer.writeUInt32BE(counter % 0x100000000, 4);
+
+  const hmac = createHmac('sha1', key).update(counterBuffer).digest();
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    ((hmac[offset + 1] & 0xff) << 16) |
+    ((hmac[offset + 2] & 0xff) << 8) |
+    (hmac[offset + 3] & 0xff);
+
+  return (binary % Math.pow(10, digits)).toString().padStart(digits, '0');
+};
+
+/**
+ * Computes the TOTP code for a secret at a given time
+ */
+export const generateTOTP = (secret: string, now: number = Date.now(), options: TOTPOptions = {}): string => {
+  const period = options.period ?? DEFAULT_PERIOD;
+  const digits = options.digits ?? DEFAULT_DIGITS;
+  return generateHOTP(secret, getTimeStep(now, period), digits);
+};
+
+const safeEqual = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+};
+
+/**
+ * Verifies a TOTP code within the configured clock-skew window.
+ * Codes for steps at or before lastUsedStep are rejected so a code cannot be replayed.
+ */
+export const verifyTOTP = (secret: string, code: string, options: TOTPVerifyOptions = {}): TOTPVerifyResult => {
+  const period = options.period ?? DEFAULT_PERIOD;
+  const digits = options.digits ?? DEFAULT_DIGITS;
+  const window = Math.max(0, options.window ?? DEFAULT_WINDOW);
+  const currentStep = getTimeStep(options.now ?? Date.now(), period);
+
+  if (!new RegExp(`^\\d{${digits}}$`).test(code)) {
+    return { valid: false };
+  }
+
+  // Check every step in the window so timing does not reveal which step matched
+  let matchedStep: number | undefined;
+  for (let offset = -window; offset <= window; offset++) {
+    const step = currentStep + offset;
+    if (step < 0) continue;
+    if (safeEqual(generateHOTP(secret, step, digits), code) && matchedStep === undefined) {
+      matchedStep = step;
+    }
+  }
+
+  if (matchedStep === undefined) {
+    return { valid: false };
+  }
+
+  if (options.lastUsedStep !== undefined && options.lastUsedStep !== null && matchedStep <= options.lastUsedStep) {
+    return { valid: false, step: matchedStep, replayed: true };
+  }
+
+  return { valid: true, step: matchedStep };
+};
+
+/**
+ * Builds the otpauth:// URL that authenticator apps read from a QR code
+ */
+export const buildOtpauthUrl = (
+  secret: string,
+  accountName: string,
+  issuer: string = 'JamesTronic',
+  options: TOTPOptions = {}
+): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(options.digits ?? DEFAULT_DIGITS),
+    period: String(options.period ?? DEFAULT_PERIOD),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * Generates human-friendly single-use recovery codes (e.g. "K7QF2-M9XPA")
+ */
+export const generateRecoveryCodes = (count: number = 10): string[] => {
+  return Array.from({ length: count }, () => {
+    const raw = base32Encode(randomBytes(7)).slice(0, 10);
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+};
+
+/**
+ * Normalises a recovery code as typed by a user (case, spaces, dashes)
+ */
+export const normalizeRecoveryCode = (code: string): string => {
+  return code.replace(/[\s-]/g, '').toUpperCase();
+};
+
+/**
+ * Hashes a recovery code for storage. Codes carry 50 bits of entropy, so a plain SHA-256 is sufficient.
+ */
+export const hashRecoveryCode = (code: string): string => {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+};
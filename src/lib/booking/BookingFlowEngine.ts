@@ -34,6 +34,11 @@ import {
   ConversionDecisionContext, 
   ConversionHookResult 
 } from './ConversionHooks';
+import { 
+  BookingFlowStore, 
+  BookingFlowConflictError, 
+  InMemoryBookingFlowStore 
+} from './BookingFlowStore';
 
 export interface BookingFlowConfig {
   enableTelemetry: boolean;
@@ -78,12 +83,15 @@ export class BookingFlowEngine {
   private eventEmitter: BookingEventEmitterImpl;
   private dropOffDetector: DropOffDetector;
   private conversionEngine: ConversionDecisionEngine;
-  private contexts: Map<string, BookingFlowContext>;
+  private store: BookingFlowStore;
+  private contexts: Map<string, BookingFlowContext>; // Hot cache in front of the store
+  private persistedTransitions: Map<string, number>; // stateHistory entries already in the store's log
   
   constructor(
     config?: Partial<BookingFlowConfig>,
     eventEmitter?: BookingEventEmitterImpl,
-    dropOffDetector?: DropOffDetector
+    dropOffDetector?: DropOffDetector,
+    store?: BookingFlowStore
   ) {
     this.config = {
       enableTelemetry: true,
@@ -95,10 +103,82 @@ export class BookingFlowEngine {
       ...config
     };
     
+    this.store = store || new InMemoryBookingFlowStore();
     this.eventEmitter = eventEmitter || new BookingEventEmitterImpl();
-    this.dropOffDetector = dropOffDetector || new DropOffDetector();
+    this.dropOffDetector = dropOffDetector || new DropOffDetector(undefined, this.store);
     this.conversionEngine = new ConversionDecisionEngine(this.dropOffDetector);
     this.contexts = new Map();
+    this.persistedTransitions = new Map();
+  }
+  
+  /**
+   * Loads a booking context from the cache, falling back to the store
+   */
+  private async loadContext(bookingId: string): Promise<BookingFlowContext | undefined> {
+    const cached = this.contexts.get(bookingId);
+    if (cached) return cached;
+    
+    let context: BookingFlowContext | null;
+    try {
+      context = await this.store.loadContext(bookingId);
+    } catch (error) {
+      console.error(`Failed to load booking flow ${bookingId}:`, error);
+      return undefined;
+    }
+    if (!context) return undefined;
+    
+    this.contexts.set(bookingId, context);
+    this.persistedTransitions.set(bookingId, context.stateMachine.stateHistory.length);
+    
+    if (this.config.enableDropOffDetection) {
+      await this.dropOffDetector.resumeSession(context.sessionId);
+    }
+    
+    return context;
+  }
+  
+  /**
+   * Writes the context to the store. Returns an error message on failure, in which case
+   * the cached copy is dropped so the next call reloads the authoritative state.
+   */
+  private async persistContext(context: BookingFlowContext): Promise<string | undefined> {
+    const persistedCount = this.persistedTransitions.get(context.bookingId) ?? 0;
+    
+    try {
+      await this.store.saveContext(context, persistedCount);
+      this.contexts.set(context.bookingId, context);
+      this.persistedTransitions.set(context.bookingId, context.stateMachine.stateHistory.length);
+      await this.dropOffDetector.flush();
+      return undefined;
+    } catch (error) {
+      this.contexts.delete(context.bookingId);
+      this.persistedTransitions.delete(context.bookingId);
+      
+      if (error instanceof BookingFlowConflictError) {
+        return `${error.message}; reload and retry`;
+      }
+      console.error(`Failed to persist booking flow ${context.bookingId}:`, error);
+      return `Failed to persist booking flow for ID: ${context.bookingId}`;
+    }
+  }
+  
+  /**
+   * Resumes a booking flow created on any instance, by bookingId
+   */
+  async resumeBookingFlow(bookingId: string): Promise<BookingFlowResult> {
+    const context = await this.loadContext(bookingId);
+    if (!context) {
+      return {
+        success: false,
+        message: `Booking context not found for ID: ${bookingId}`
+      };
+    }
+    
+    return {
+      success: true,
+      newState: context.stateMachine.currentState,
+      message: `Booking flow resumed in state: ${context.stateMachine.currentState}`
+    };
   }
   
   /**
@@ -111,6 +191,12 @@ export class BookingFlowEngine {
     deviceType?: string,
     deviceBrand?: string
   ): Promise<BookingFlowResult> {
+    // A flow already started on another instance is resumed rather than overwritten
+    const existing = await this.loadContext(bookingId);
+    if (existing) {
+      return this.resumeBookingFlow(bookingId);
+    }
+    
     // Create initial state machine
     const stateMachine = createInitialBookingStateMachine();
     
@@ -131,9 +217,6 @@ export class BookingFlowEngine {
       deviceBrand,
     };
     
-    // Store context
-    this.contexts.set(bookingId, context);
-    
     // Record event
     const event = createBookingTelemetryEvent(
       BookingEvent.BOOKING_STARTED,
@@ -158,6 +241,15 @@ export class BookingFlowEngine {
       this.dropOffDetector.startSession(sessionId, stateMachine.currentState);
     }
     
+    // Store context
+    const persistError = await this.persistContext(context);
+    if (persistError) {
+      return {
+        success: false,
+        message: persistError
+      };
+    }
+    
     return {
       success: true,
       newState: stateMachine.currentState,
@@ -174,7 +266,7 @@ export class BookingFlowEngine {
     newState: BookingState,
     reason?: string
   ): Promise<BookingFlowResult> {
-    const context = this.contexts.get(bookingId);
+    const context = await this.loadContext(bookingId);
     if (!context) {
       return {
         success: false,
@@ -231,9 +323,6 @@ export class BookingFlowEngine {
       conversionHooks = await this.processConversionHooks(context);
     }
     
-    // Update context
-    this.contexts.set(bookingId, context);
-    
     // Check for terminal state
     if (isBookingTerminal(newState)) {
       if (this.config.enableDropOffDetection) {
@@ -241,6 +330,15 @@ export class BookingFlowEngine {
       }
     }
     
+    // Update context
+    const persistError = await this.persistContext(context);
+    if (persistError) {
+      return {
+        success: false,
+        message: persistError
+      };
+    }
+    
     return {
       success: true,
       newState,
@@ -260,7 +358,7 @@ export class BookingFlowEngine {
     detectedHesitationPoints: string[] = [],
     detectedRiskFactors: string[] = []
   ): Promise<BookingFlowResult> {
-    const context = this.contexts.get(bookingId);
+    const context = await this.loadContext(bookingId);
     if (!context) {
       return {
         success: false,
@@ -298,7 +396,13 @@ export class BookingFlowEngine {
     }
     
     // Update context
-    this.contexts.set(bookingId, context);
+    const persistError = await this.persistContext(context);
+    if (persistError) {
+      return {
+        success: false,
+        message: persistError
+      };
+    }
     
     return {
       success: true,
@@ -312,7 +416,7 @@ export class BookingFlowEngine {
    * Records a page view in the booking flow
    */
   async recordPageView(bookingId: string, pageUrl: string, viewName: string): Promise<BookingFlowResult> {
-    const context = this.contexts.get(bookingId);
+    const context = await this.loadContext(bookingId);
     if (!context) {
       return {
         success: false,
@@ -346,7 +450,13 @@ export class BookingFlowEngine {
     }
     
     // Update context
-    this.contexts.set(bookingId, context);
+    const persistError = await this.persistContext(context);
+    if (persistError) {
+      return {
+        success: false,
+        message: persistError
+      };
+    }
     
     return {
       success: true,
@@ -560,7 +670,8 @@ export class BookingFlowEngine {
   }
   
   /**
-   * Gets the current booking context
+   * Gets the current booking context held by this instance.
+   * On a fresh instance, call resumeBookingFlow first to rehydrate it from the store.
    */
   getBookingContext(bookingId: string): BookingFlowContext | undefined {
     return this.contexts.get(bookingId);
@@ -570,7 +681,7 @@ export class BookingFlowEngine {
    * Completes a booking flow
    */
   async completeBookingFlow(bookingId: string): Promise<BookingFlowResult> {
-    const context = this.contexts.get(bookingId);
+    const context = await this.loadContext(bookingId);
     if (!context) {
       return {
         success: false,
@@ -611,6 +722,14 @@ export class BookingFlowEngine {
       context.telemetryEvents.push(event);
     }
     
+    const persistError = await this.persistContext(context);
+    if (persistError) {
+      return {
+        success: false,
+        message: persistError
+      };
+    }
+    
     return {
       success: true,
       message: 'Booking flow completed successfully'
@@ -621,7 +740,7 @@ export class BookingFlowEngine {
    * Cancels a booking flow
    */
   async cancelBookingFlow(bookingId: string, reason?: string): Promise<BookingFlowResult> {
-    const context = this.contexts.get(bookingId);
+    const context = await this.loadContext(bookingId);
     if (!context) {
       return {
         success: false,
@@ -659,6 +778,14 @@ export class BookingFlowEngine {
       context.telemetryEvents.push(event);
     }
     
+    const persistError = await this.persistContext(context);
+    if (persistError) {
+      return {
+        success: false,
+        message: persistError
+      };
+    }
+    
     return {
       success: true,
       message: 'Booking flow cancelled successfully'
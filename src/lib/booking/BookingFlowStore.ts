@@ -0,0 +1,176 @@
+/**
+ * BookingFlowStore.ts
+ *
+ * Persistence layer for JamesTronic's
+ * Booking Control & Conversion Layer (Phase C8.7)
+ *
+ * Lets booking flows and drop-off sessions survive restarts and be resumed
+ * by bookingId on any server instance
+ */
+
+import { BookingStateTransition } from './BookingStates';
+import type { BookingFlowContext } from './BookingFlowEngine';
+import type { UserSessionRecord } from './DropOffDetector';
+
+export interface BookingFlowStore {
+  /**
+   * Loads a booking flow context, rebuilding stateHistory from the transition log
+   */
+  loadContext(bookingId: string): Promise<BookingFlowContext | null>;
+
+  /**
+   * Saves the context snapshot and appends every transition in
+   * stateHistory after `persistedTransitionCount` to the append-only log.
+   * Throws BookingFlowConflictError if another writer appended first.
+   */
+  saveContext(context: BookingFlowContext, persistedTransitionCount: number): Promise<void>;
+
+  loadSession(sessionId: string): Promise<UserSessionRecord | null>;
+  saveSession(session: UserSessionRecord): Promise<void>;
+  deleteSession(sessionId: string): Promise<void>;
+}
+
+/**
+ * Raised when a booking flow was advanced by another instance since it was loaded
+ */
+export class BookingFlowConflictError extends Error {
+  constructor(public readonly bookingId: string) {
+    super(`Booking flow ${bookingId} was modified by another instance`);
+    this.name = 'BookingFlowConflictError';
+  }
+}
+
+type Json = Record<string, any>;
+
+const toDate = (value: unknown): Date => (value instanceof Date ? value : new Date(value as string));
+
+/**
+ * Converts a transition to its JSON form
+ */
+export function serializeTransition(transition: BookingStateTransition): Json {
+  return {
+    from: transition.from,
+    to: transition.to,
+    reason: transition.reason,
+    timestamp: toDate(transition.timestamp).toISOString(),
+  };
+}
+
+/**
+ * Converts a context to plain JSON. stateHistory is excluded because it lives in the transition log.
+ */
+export function serializeBookingFlowContext(context: BookingFlowContext): Json {
+  const { stateMachine, ...rest } = context;
+  return JSON.parse(JSON.stringify({
+    ...rest,
+    stateMachine: {
+      currentState: stateMachine.currentState,
+      previousState: stateMachine.previousState,
+      createdAt: stateMachine.createdAt,
+      updatedAt: stateMachine.updatedAt,
+    },
+  }));
+}
+
+/**
+ * Rebuilds a context from its JSON snapshot and the ordered transition log
+ */
+export function deserializeBookingFlowContext(
+  snapshot: Json,
+  transitions: BookingStateTransition[]
+): BookingFlowContext {
+  const machine = snapshot.stateMachine ?? {};
+  const stateHistory = transitions.map(t => ({ ...t, timestamp: toDate(t.timestamp) }));
+  const lastTransition = stateHistory[stateHistory.length - 1];
+
+  return {
+    ...(snapshot as BookingFlowContext),
+    stateMachine: {
+      // The log is the source of truth for the current state
+      currentState: lastTransition ? lastTransition.to : machine.currentState,
+      previousState: lastTransition ? lastTransition.from : machine.previousState,
+      stateHistory,
+      createdAt: toDate(machine.createdAt),
+      updatedAt: toDate(machine.updatedAt),
+    },
+    telemetryEvents: (snapshot.telemetryEvents ?? []).map((event: Json) => ({
+      ...event,
+      payload: { ...event.payload, timestamp: toDate(event.payload?.timestamp) },
+      metadata: { ...event.metadata, timestamp: toDate(event.metadata?.timestamp) },
+    })),
+    trustHistory: (snapshot.trustHistory ?? []).map((result: Json) => ({
+      ...result,
+      injectedAt: toDate(result.injectedAt),
+    })),
+    conversionHookResults: snapshot.conversionHookResults ?? [],
+    detectedRiskFactors: snapshot.detectedRiskFactors ?? [],
+    detectedHesitationPoints: snapshot.detectedHesitationPoints ?? [],
+  };
+}
+
+/**
+ * Converts a drop-off session record to plain JSON
+ */
+export function serializeSessionRecord(session: UserSessionRecord): Json {
+  return JSON.parse(JSON.stringify(session));
+}
+
+/**
+ * Rebuilds a drop-off session record from JSON
+ */
+export function deserializeSessionRecord(json: Json): UserSessionRecord {
+  return {
+    ...(json as UserSessionRecord),
+    startTime: toDate(json.startTime),
+    endTime: json.endTime ? toDate(json.endTime) : undefined,
+    pagesVisited: (json.pagesVisited ?? []).map((visit: Json) => ({
+      ...visit,
+      timestamp: toDate(visit.timestamp),
+    })),
+  };
+}
+
+/**
+ * In-memory store - the default for a single instance, and for tests.
+ * Values are copied on the way in and out so callers never share references with the store.
+ */
+export class InMemoryBookingFlowStore implements BookingFlowStore {
+  private contexts: Map<string, Json> = new Map();
+  private transitions: Map<string, Json[]> = new Map();
+  private sessions: Map<string, Json> = new Map();
+
+  async loadContext(bookingId: string): Promise<BookingFlowContext | null> {
+    const snapshot = this.contexts.get(bookingId);
+    if (!snapshot) return null;
+
+    const log = (this.transitions.get(bookingId) ?? []) as BookingStateTransition[];
+    return deserializeBookingFlowContext(snapshot, log);
+  }
+
+  async saveContext(context: BookingFlowContext, persistedTransitionCount: number): Promise<void> {
+    const log = this.transitions.get(context.bookingId) ?? [];
+    if (log.length !== persistedTransitionCount) {
+      throw new BookingFlowConflictError(context.bookingId);
+    }
+
+    const appended = context.stateMachine.stateHistory
+      .slice(persistedTransitionCount)
+      .map(serializeTransition);
+
+    this.transitions.set(context.bookingId, [...log, ...appended]);
+    this.contexts.set(context.bookingId, serializeBookingFlowContext(context));
+  }
+
+  async loadSession(sessionId: string): Promise<UserSessionRecord | null> {
+    const json = this.sessions.get(sessionId);
+    return json ? deserializeSessionRecord(json) : null;
+  }
+
+  async saveSession(session: UserSessionRecord): Promise<void> {
+    this.sessions.set(session.sessionId, serializeSessionRecord(session));
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+}
@@ -8,6 +8,7 @@
  */
 
 import { BookingState } from './BookingStates';
+import type { BookingFlowStore } from './BookingFlowStore';
 
 export interface DropOffDetectionConfig {
   // Time thresholds for different detection types (in milliseconds)
@@ -69,8 +70,10 @@ export class DropOffDetector {
   private config: DropOffDetectionConfig;
   private activeSessions: Map<string, UserSessionRecord>;
   private detectionEvents: DropOffEvent[];
+  private store?: BookingFlowStore;
+  private pendingWrites: Promise<void> = Promise.resolve();
   
-  constructor(config?: Partial<DropOffDetectionConfig>) {
+  constructor(config?: Partial<DropOffDetectionConfig>, store?: BookingFlowStore) {
     this.config = {
       abandonedFlowTimeout: 5 * 60 * 1000, // 5 minutes
       bouncedCheckThreshold: 3, // 3 pricing check attempts
@@ -86,6 +89,46 @@ export class DropOffDetector {
     
     this.activeSessions = new Map();
     this.detectionEvents = [];
+    this.store = store;
+  }
+
+  /**
+   * Rehydrates a session from the store so tracking can continue on this instance
+   */
+  async resumeSession(sessionId: string): Promise<UserSessionRecord | undefined> {
+    const cached = this.activeSessions.get(sessionId);
+    if (cached || !this.store) return cached;
+
+    try {
+      const session = await this.store.loadSession(sessionId);
+      if (session) {
+        this.activeSessions.set(sessionId, session);
+        return session;
+      }
+    } catch (error) {
+      console.error(`Failed to resume drop-off session ${sessionId}:`, error);
+    }
+    return undefined;
+  }
+
+  /**
+   * Waits for all queued session writes to reach the store
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrites;
+  }
+
+  /**
+   * Queues a write-through of the session so tracking calls stay synchronous
+   */
+  private persistSession(session: UserSessionRecord): void {
+    if (!this.store) return;
+    const store = this.store;
+    this.pendingWrites = this.pendingWrites
+      .then(() => store.saveSession(session))
+      .catch(error => {
+        console.error(`Failed to persist drop-off session ${session.sessionId}:`, error);
+      });
   }
   
   /**
@@ -107,6 +150,7 @@ export class DropOffDetector {
     };
     
     this.activeSessions.set(sessionId, sessionRecord);
+    this.persistSession(sessionRecord);
   }
   
   /**
@@ -153,6 +197,8 @@ export class DropOffDetector {
         this.recordDetectionEvent(sessionId, bookingState, 'bounce_attempt', 'Bounce behavior detected');
       }
     }
+
+    this.persistSession(session);
   }
   
   /**
@@ -163,6 +209,7 @@ export class DropOffDetector {
     if (!session) return;
     
     session.bookingStateHistory.push(newState);
+    this.persistSession(session);
   }
   
   /**
@@ -173,6 +220,7 @@ export class DropOffDetector {
     if (!session) return;
     
     session.confidenceTrend.push(confidence);
+    this.persistSession(session);
   }
   
   /**
@@ -184,6 +232,7 @@ export class DropOffDetector {
     
     if (!session.detectedRiskFactors.includes(riskFactor)) {
       session.detectedRiskFactors.push(riskFactor);
+      this.persistSession(session);
     }
   }
   
@@ -209,6 +258,7 @@ export class DropOffDetector {
       
       if (timeSinceLastVisit > this.config.abandonedFlowTimeout && !session.isComplete) {
         session.isDroppedOff = true;
+        this.persistSession(session);
         const event = this.recordDetectionEvent(
           sessionId, 
           lastVisit.bookingState, 
@@ -324,6 +374,7 @@ export class DropOffDetector {
     
     session.isComplete = true;
     session.endTime = new Date();
+    this.persistSession(session);
     return true;
   }
   
@@ -347,6 +398,7 @@ export class DropOffDetector {
   cleanupOldSessions(maxAge: number = 24 * 60 * 60 * 1000): number { // 24 hours default
     const now = Date.now();
     let cleanedCount = 0;
+    const removed: string[] = [];
     
     this.activeSessions.forEach((session, sessionId) => {
       if (session.endTime) {
@@ -354,6 +406,7 @@ export class DropOffDetector {
         const timeSinceEnd = now - session.endTime.getTime();
         if (timeSinceEnd > maxAge) {
           this.activeSessions.delete(sessionId);
+          removed.push(sessionId);
           cleanedCount++;
         }
       } else {
@@ -365,10 +418,21 @@ export class DropOffDetector {
         const timeSinceLastActivity = now - lastPageVisit.getTime();
         if (timeSinceLastActivity > maxAge) {
           this.activeSessions.delete(sessionId);
+          removed.push(sessionId);
           cleanedCount++;
         }
       }
     });
+
+    if (this.store && removed.length > 0) {
+      const store = this.store;
+      this.pendingWrites = this.pendingWrites
+        .then(() => Promise.all(removed.map(id => store.deleteSession(id))))
+        .then(() => undefined)
+        .catch(error => {
+          console.error('Failed to delete expired drop-off sessions:', error);
+        });
+    }
     
     return cleanedCount;
   }
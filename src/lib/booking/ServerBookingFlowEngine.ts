@@ -0,0 +1,54 @@
+/**
+ * ServerBookingFlowEngine.ts
+ *
+ * Server-side BookingFlowEngine for JamesTronic's
+ * Booking Control & Conversion Layer (Phase C8.7)
+ *
+ * Every request gets its own engine over the Postgres store, so a flow started on one
+ * instance is resumed from booking_flow_contexts on whichever instance serves the next call
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { BookingFlowEngine, BookingFlowResult } from './BookingFlowEngine';
+import { SupabaseBookingFlowStore } from './SupabaseBookingFlowStore';
+
+export function createServerBookingFlowEngine(): BookingFlowEngine {
+  // Use service role key: the booking flow tables are not writable through RLS
+  const client = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { auth: { autoRefreshToken: false, persistSession: false } }
+  );
+
+  return new BookingFlowEngine({}, undefined, undefined, new SupabaseBookingFlowStore(client));
+}
+
+/**
+ * Resolves the signed-in user behind a bearer token; flows are keyed to that user as their customer
+ */
+export async function getBookingFlowUserId(authorization: string | null): Promise<string | null> {
+  const token = authorization?.replace('Bearer ', '');
+  if (!token) return null;
+
+  const client = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { auth: { persistSession: false } }
+  );
+
+  const { data: { user }, error } = await client.auth.getUser(token);
+  return error || !user ? null : user.id;
+}
+
+/**
+ * What the browser needs from a result; telemetry stays on the server
+ */
+export function toBookingFlowResponse(result: BookingFlowResult) {
+  return {
+    success: result.success,
+    newState: result.newState,
+    trustIntervention: result.trustIntervention,
+    conversionHooks: result.conversionHooks,
+    message: result.message,
+  };
+}
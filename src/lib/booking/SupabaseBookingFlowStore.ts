@@ -0,0 +1,110 @@
+/**
+ * SupabaseBookingFlowStore.ts
+ *
+ * Postgres-backed BookingFlowStore for JamesTronic's
+ * Booking Control & Conversion Layer (Phase C8.7)
+ *
+ * Snapshots live in booking_flow_contexts; state transitions are written to the
+ * append-only booking_flow_transitions log, keyed by (booking_id, seq). Both are
+ * written together by save_booking_flow_context, which checks the snapshot's version.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { BookingState, BookingStateTransition } from './BookingStates';
+import type { BookingFlowContext } from './BookingFlowEngine';
+import type { UserSessionRecord } from './DropOffDetector';
+import {
+  BookingFlowStore,
+  BookingFlowConflictError,
+  deserializeBookingFlowContext,
+  deserializeSessionRecord,
+  serializeBookingFlowContext,
+  serializeSessionRecord,
+  serializeTransition,
+} from './BookingFlowStore';
+
+export class SupabaseBookingFlowStore implements BookingFlowStore {
+  constructor(private client: SupabaseClient) {}
+
+  async loadContext(bookingId: string): Promise<BookingFlowContext | null> {
+    const { data: row, error } = await this.client
+      .from('booking_flow_contexts')
+      .select('snapshot')
+      .eq('booking_id', bookingId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!row) return null;
+
+    const { data: log, error: logError } = await this.client
+      .from('booking_flow_transitions')
+      .select('from_state, to_state, reason, occurred_at')
+      .eq('booking_id', bookingId)
+      .order('seq', { ascending: true });
+
+    if (logError) throw logError;
+
+    const transitions: BookingStateTransition[] = (log ?? []).map((t: any) => ({
+      from: t.from_state as BookingState,
+      to: t.to_state as BookingState,
+      reason: t.reason ?? undefined,
+      timestamp: new Date(t.occurred_at),
+    }));
+
+    return deserializeBookingFlowContext(row.snapshot, transitions);
+  }
+
+  async saveContext(context: BookingFlowContext, persistedTransitionCount: number): Promise<void> {
+    const appended = context.stateMachine.stateHistory.slice(persistedTransitionCount);
+
+    // Refuses the write, like InMemoryBookingFlowStore, when the log no longer has
+    // persistedTransitionCount entries - even if this save appends nothing
+    const { data: saved, error } = await this.client.rpc('save_booking_flow_context', {
+      p_booking_id: context.bookingId,
+      p_customer_id: context.customerId,
+      p_session_id: context.sessionId,
+      p_current_state: context.stateMachine.currentState,
+      p_snapshot: serializeBookingFlowContext(context),
+      p_expected_count: persistedTransitionCount,
+      p_transitions: appended.map(serializeTransition),
+    });
+
+    if (error) throw error;
+    if (!saved) {
+      throw new BookingFlowConflictError(context.bookingId);
+    }
+  }
+
+  async loadSession(sessionId: string): Promise<UserSessionRecord | null> {
+    const { data, error } = await this.client
+      .from('booking_dropoff_sessions')
+      .select('record')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? deserializeSessionRecord(data.record) : null;
+  }
+
+  async saveSession(session: UserSessionRecord): Promise<void> {
+    const { error } = await this.client
+      .from('booking_dropoff_sessions')
+      .upsert({
+        session_id: session.sessionId,
+        record: serializeSessionRecord(session),
+        is_complete: session.isComplete,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'session_id' });
+
+    if (error) throw error;
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    const { error } = await this.client
+      .from('booking_dropoff_sessions')
+      .delete()
+      .eq('session_id', sessionId);
+
+    if (error) throw error;
+  }
+}
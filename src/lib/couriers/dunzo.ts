@@ -0,0 +1,158 @@
+// dunzo.ts
+// Dunzo tasks (DUNZO_CLIENT_ID, DUNZO_API_TOKEN, DUNZO_WEBHOOK_SECRET, optional DUNZO_API_URL).
+// Prices are in rupees.
+
+import type { DeliveryStatus } from '@/lib/types/logistics';
+import { isValidWebhookSignature } from '@/lib/payments/gateways/signature';
+import { courierBaseUrl, courierRequest } from './http';
+import {
+  CourierAdapter,
+  CourierBooking,
+  CourierDeliveryRequest,
+  CourierError,
+  CourierQuote,
+  CourierStop,
+  CourierTracking,
+  CourierWebhookEvent,
+  CourierWebhookSignatureError
+} from './types';
+
+export const DUNZO_SIGNATURE_HEADER = 'x-dunzo-signature';
+
+export const DUNZO_STATUSES: Record<string, DeliveryStatus> = {
+  created: 'assigned',
+  queued: 'assigned',
+  runner_accepted: 'assigned',
+  runner_cancelled: 'assigned', // Dunzo finds another runner
+  reached_for_pickup: 'pickup_in_progress',
+  pickup_complete: 'picked_up',
+  started_for_delivery: 'in_transit',
+  reached_for_delivery: 'in_transit',
+  delivered: 'delivered',
+  cancelled: 'cancelled',
+  rto_complete: 'returned',
+};
+
+const address = (stop: CourierStop, referenceId: string) => ({
+  reference_id: referenceId,
+  address: {
+    lat: stop.lat,
+    lng: stop.lng,
+    street_address_1: stop.address,
+    contact_details: { name: stop.contact_name ?? '', phone_number: stop.contact_phone ?? '' },
+  },
+});
+
+const rider = (runner: any) => (runner
+  ? {
+    name: runner.name ?? null,
+    phone: runner.phone_number ?? null,
+    lat: runner.location?.lat ?? null,
+    lng: runner.location?.lng ?? null,
+  }
+  : null);
+
+export class DunzoCourier implements CourierAdapter {
+  readonly provider = 'external_dunzo' as const;
+  private readonly baseUrl: string;
+
+  constructor(
+    baseUrl?: string,
+    private readonly clientId: string | undefined = process.env.DUNZO_CLIENT_ID,
+    private readonly apiToken: string | undefined = process.env.DUNZO_API_TOKEN,
+    private readonly webhookSecret: string | undefined = process.env.DUNZO_WEBHOOK_SECRET
+  ) {
+    this.baseUrl = baseUrl ?? courierBaseUrl('dunzo', process.env.DUNZO_API_URL, 'https://api.dunzo.in');
+  }
+
+  private request(method: 'GET' | 'POST', path: string, body?: unknown) {
+    if (!this.clientId || !this.apiToken) {
+      throw new CourierError('Dunzo configuration is missing', false);
+    }
+    return courierRequest('Dunzo', `${this.baseUrl}${path}`, {
+      method,
+      headers: { 'client-id': this.clientId, 'Authorization': this.apiToken },
+      body,
+    });
+  }
+
+  async quote(request: CourierDeliveryRequest): Promise<CourierQuote> {
+    const response = await this.request('POST', '/api/v1/quote', {
+      pickup_details: [{ lat: request.pickup.lat, lng: request.pickup.lng }],
+      drop_details: [{ lat: request.drop.lat, lng: request.drop.lng }],
+    });
+
+    return {
+      provider: this.provider,
+      amount: Number(response.estimated_price),
+      currency: 'INR',
+      pickup_eta_minutes: response.eta?.pickup ?? null,
+      quote_id: null,
+      vehicle: null,
+    };
+  }
+
+  async book(request: CourierDeliveryRequest, idempotencyKey: string): Promise<CourierBooking> {
+    const task = await this.request('POST', '/api/v2/tasks', {
+      request_id: idempotencyKey,
+      pickup_details: [address(request.pickup, `${request.delivery_id}:pickup`)],
+      drop_details: [address(request.drop, `${request.delivery_id}:drop`)],
+      special_instructions: request.is_fragile ? 'Fragile, handle with care' : undefined,
+      payment_method: 'DUNZO_CREDIT',
+    });
+
+    return {
+      provider: this.provider,
+      provider_order_id: task.task_id,
+      amount: Number(task.estimated_price),
+      currency: 'INR',
+      status: DUNZO_STATUSES[task.state] ?? 'assigned',
+      provider_status: task.state,
+      tracking_url: task.tracking_url ?? null,
+    };
+  }
+
+  async cancel(providerOrderId: string, reason: string): Promise<void> {
+    await this.request('POST', `/api/v1/tasks/${encodeURIComponent(providerOrderId)}/_cancel`, {
+      cancellation_reason: reason,
+    });
+  }
+
+  async track(providerOrderId: string): Promise<CourierTracking> {
+    const task = await this.request('GET', `/api/v1/tasks/${encodeURIComponent(providerOrderId)}/status`);
+
+    return {
+      provider_order_id: task.task_id,
+      status: DUNZO_STATUSES[task.state] ?? null,
+      provider_status: task.state ?? null,
+      rider: rider(task.runner),
+      eta_minutes: task.eta?.dropoff ?? null,
+      amount: task.price != null ? Number(task.price) : null,
+    };
+  }
+
+  parseWebhook(rawBody: string, headers: Headers): CourierWebhookEvent | null {
+    if (!this.webhookSecret) {
+      throw new Error('DUNZO_WEBHOOK_SECRET is not configured');
+    }
+
+    if (!isValidWebhookSignature(rawBody, headers.get(DUNZO_SIGNATURE_HEADER), this.webhookSecret)) {
+      throw new CourierWebhookSignatureError();
+    }
+
+    const body = JSON.parse(rawBody);
+    const status = DUNZO_STATUSES[body.state];
+    if (!status || !body.task_id) return null;
+
+    return {
+      event_id: body.event_id ?? `${body.task_id}:${body.state}:${body.event_timestamp ?? ''}`,
+      provider_order_id: body.task_id,
+      status,
+      provider_status: body.state,
+      rider: rider(body.runner),
+      amount: body.price != null ? Number(body.price) : null,
+      occurred_at: body.event_timestamp ? new Date(Number(body.event_timestamp)).toISOString() : null,
+      payload: body,
+    };
+  }
+}
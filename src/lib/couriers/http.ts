@@ -0,0 +1,45 @@
+// http.ts
+// JSON requests to courier APIs, with failures turned into CourierError
+
+import { CourierError, httpCourierError } from './types';
+
+const COURIER_TIMEOUT_MS = 10000;
+
+export async function courierRequest(
+  providerName: string,
+  url: string,
+  init: { method: 'GET' | 'POST'; headers: Record<string, string>; body?: unknown }
+): Promise<any> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), COURIER_TIMEOUT_MS);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: init.method,
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    throw new CourierError(`${providerName} request failed: ${(error as Error).message}`);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!response.ok) {
+    throw httpCourierError(providerName, response.status, await response.text().catch(() => ''));
+  }
+
+  const text = await response.text();
+  return text ? JSON.parse(text) : null;
+}
+
+/**
+ * Base URL for a provider: the mock courier server when COURIER_MOCK_URL is set, else the configured
+ * or production URL
+ */
+export function courierBaseUrl(slug: string, configured: string | undefined, production: string): string {
+  if (process.env.COURIER_MOCK_URL) return `${process.env.COURIER_MOCK_URL.replace(/\/$/, '')}/${slug}`;
+  return (configured || production).replace(/\/$/, '');
+}
@@ -0,0 +1,45 @@
+/**
+ * External courier providers
+ *
+ * Each provider implements CourierAdapter; logistics deliveries only talk to that interface and
+ * follow the courier through its signed status webhooks (/api/logistics/couriers/webhooks/<slug>).
+ * Setting COURIER_MOCK_URL points every adapter at the local mock courier server.
+ */
+
+import { CourierAdapter, CourierProvider, COURIER_PROVIDERS } from './types';
+import { PorterCourier } from './porter';
+import { RapidoCourier } from './rapido';
+import { DunzoCourier } from './dunzo';
+import { ManualCourier } from './manual';
+
+export * from './types';
+export { PorterCourier, PORTER_SIGNATURE_HEADER, PORTER_STATUSES } from './porter';
+export { RapidoCourier, RAPIDO_SIGNATURE_HEADER, RAPIDO_STATUSES, RAPIDO_MAX_WEIGHT_KG } from './rapido';
+export { DunzoCourier, DUNZO_SIGNATURE_HEADER, DUNZO_STATUSES } from './dunzo';
+export { ManualCourier } from './manual';
+export { isCourierStatusAdvance, FINAL_DELIVERY_STATUSES } from './status';
+
+export function isCourierProvider(value: unknown): value is CourierProvider {
+  return typeof value === 'string' && (COURIER_PROVIDERS as string[]).includes(value);
+}
+
+export function createCourierAdapter(provider: CourierProvider): CourierAdapter {
+  switch (provider) {
+    case 'external_porter':
+      return new PorterCourier();
+    case 'external_rapido':
+      return new RapidoCourier();
+    case 'external_dunzo':
+      return new DunzoCourier();
+    case 'external_manual':
+      return new ManualCourier();
+  }
+}
+
+/**
+ * The provider behind a webhook path slug ('porter', 'rapido', 'dunzo'), or null
+ */
+export function courierProviderFromSlug(slug: string): CourierProvider | null {
+  const provider = `external_${slug}`;
+  return isCourierProvider(provider) && provider !== 'external_manual' ? provider : null;
+}
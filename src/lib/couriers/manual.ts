@@ -0,0 +1,53 @@
+// manual.ts
+// Couriers booked by phone by the logistics desk. Nothing is called: the fare is estimated from
+// distance (MANUAL_COURIER_BASE_FARE, MANUAL_COURIER_PER_KM) and the desk updates the status by hand.
+
+import { distanceMeters } from '@/lib/custody/geofence';
+import { ROAD_FACTOR } from '@/lib/routing/distance';
+import { CourierAdapter, CourierBooking, CourierDeliveryRequest, CourierQuote, CourierTracking } from './types';
+
+export class ManualCourier implements CourierAdapter {
+  readonly provider = 'external_manual' as const;
+
+  constructor(
+    private readonly baseFare: number = Number(process.env.MANUAL_COURIER_BASE_FARE) || 60,
+    private readonly perKm: number = Number(process.env.MANUAL_COURIER_PER_KM) || 12
+  ) {}
+
+  async quote(request: CourierDeliveryRequest): Promise<CourierQuote> {
+    const km = (distanceMeters(request.pickup, request.drop) * ROAD_FACTOR) / 1000;
+
+    return {
+      provider: this.provider,
+      amount: Math.round(this.baseFare + km * this.perKm),
+      currency: 'INR',
+      pickup_eta_minutes: null,
+      quote_id: null,
+      vehicle: null,
+    };
+  }
+
+  async book(request: CourierDeliveryRequest): Promise<CourierBooking> {
+    const quote = await this.quote(request);
+
+    return {
+      provider: this.provider,
+      provider_order_id: `MANUAL-${request.delivery_id}`,
+      amount: quote.amount,
+      currency: quote.currency,
+      status: 'assigned',
+      provider_status: 'booked_by_phone',
+      tracking_url: null,
+    };
+  }
+
+  async cancel(): Promise<void> {}
+
+  async track(providerOrderId: string): Promise<CourierTracking> {
+    return { provider_order_id: providerOrderId, status: null, provider_status: null, rider: null, eta_minutes: null, amount: null };
+  }
+
+  parseWebhook(): null {
+    return null;
+  }
+}
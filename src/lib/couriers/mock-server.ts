@@ -0,0 +1,325 @@
+// mock-server.ts
+// Local stand-in for the Porter, Rapido and Dunzo APIs, for tests and local development
+// (COURIER_MOCK_URL=http://127.0.0.1:<port>). Each provider lives under its slug (/porter, /rapido,
+// /dunzo) and answers in that provider's format, so the real adapters run unchanged against it.
+// Orders are kept in memory; setStatus() moves one along and webhook() builds the signed status
+// webhook the provider would send.
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { distanceMeters } from '@/lib/custody/geofence';
+import { ROAD_FACTOR } from '@/lib/routing/distance';
+import { signWebhookBody } from '@/lib/payments/gateways/signature';
+import { PORTER_SIGNATURE_HEADER } from './porter';
+import { RAPIDO_SIGNATURE_HEADER } from './rapido';
+import { DUNZO_SIGNATURE_HEADER } from './dunzo';
+
+export type MockCourierSlug = 'porter' | 'rapido' | 'dunzo';
+
+export interface MockCourierOrder {
+  slug: MockCourierSlug;
+  id: string;
+  status: string;
+  amount: number; // rupees
+  idempotency_key: string | null;
+  body: any;
+  rider: { name: string; phone: string; lat: number; lng: number } | null;
+}
+
+export interface MockCourierRequest {
+  slug: string;
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+interface Point {
+  lat: number;
+  lng: number;
+}
+
+const FINAL_STATUSES = ['ended', 'cancelled', 'delivered', 'DELIVERED', 'CANCELLED', 'RETURNED'];
+
+const SIGNATURE_HEADERS: Record<MockCourierSlug, string> = {
+  porter: PORTER_SIGNATURE_HEADER,
+  rapido: RAPIDO_SIGNATURE_HEADER,
+  dunzo: DUNZO_SIGNATURE_HEADER,
+};
+
+/**
+ * Rupees for a trip: base fare plus a per-km rate on the road distance
+ */
+export function mockCourierFare(pickup: Point, drop: Point, base: number, perKm: number): number {
+  return Math.round(base + ((distanceMeters(pickup, drop) * ROAD_FACTOR) / 1000) * perKm);
+}
+
+export class MockCourierServer {
+  readonly orders = new Map<string, MockCourierOrder>();
+  readonly requests: MockCourierRequest[] = [];
+  private readonly quotes = new Map<string, number>();
+  private failures: { slug: string; status: number }[] = [];
+  private server: Server | null = null;
+  private sequence = 0;
+
+  /**
+   * Listen on 127.0.0.1 and resolve to the base URL (port 0 picks a free port)
+   */
+  async start(port = 0): Promise<string> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch(error => this.send(res, 500, { message: (error as Error).message }));
+    });
+
+    await new Promise<void>(resolve => this.server!.listen(port, '127.0.0.1', resolve));
+    const address = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  /**
+   * Make the next request to a provider fail with this HTTP status
+   */
+  failNext(slug: MockCourierSlug, status: number): this {
+    this.failures.push({ slug, status });
+    return this;
+  }
+
+  setStatus(slug: MockCourierSlug, orderId: string, status: string, rider: MockCourierOrder['rider'] = null): MockCourierOrder {
+    const order = this.orders.get(`${slug}:${orderId}`);
+    if (!order) throw new Error(`Unknown ${slug} order ${orderId}`);
+    order.status = status;
+    if (rider) order.rider = rider;
+    return order;
+  }
+
+  /**
+   * The status webhook the provider would send for the order's current status
+   */
+  webhook(slug: MockCourierSlug, orderId: string, secret: string): { body: string; headers: Headers } {
+    const order = this.orders.get(`${slug}:${orderId}`);
+    if (!order) throw new Error(`Unknown ${slug} order ${orderId}`);
+
+    const payload = slug === 'porter'
+      ? { order_id: order.id, status: order.status, timestamp: ++this.sequence, partner_info: this.porterPartner(order), ...this.porterFare(order) }
+      : slug === 'dunzo'
+        ? { event_id: `dz-evt-${++this.sequence}`, task_id: order.id, state: order.status, event_timestamp: Date.now(), runner: this.dunzoRunner(order), price: order.amount }
+        : { event_id: `rp-evt-${++this.sequence}`, order_id: order.id, status: order.status, occurred_at: new Date().toISOString(), captain: order.rider, fare: { amount: order.amount, currency: 'INR' } };
+
+    const body = JSON.stringify(payload);
+    return { body, headers: new Headers({ [SIGNATURE_HEADERS[slug]]: signWebhookBody(body, secret) }) };
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const [, slug, ...rest] = url.pathname.split('/');
+    const path = `/${rest.join('/')}`;
+    const body = await this.readBody(req);
+    this.requests.push({ slug, method: req.method ?? 'GET', path, headers: req.headers, body });
+
+    const failure = this.failures.findIndex(candidate => candidate.slug === slug);
+    if (failure >= 0) {
+      const [{ status }] = this.failures.splice(failure, 1);
+      return this.send(res, status, { message: 'mock failure' });
+    }
+
+    switch (slug) {
+      case 'porter':
+        return this.porter(req, res, path, body);
+      case 'dunzo':
+        return this.dunzo(req, res, path, body);
+      case 'rapido':
+        return this.rapido(req, res, path, body);
+      default:
+        return this.send(res, 404, { message: 'unknown provider' });
+    }
+  }
+
+  private porter(req: IncomingMessage, res: ServerResponse, path: string, body: any) {
+    if (!req.headers['x-api-key']) return this.send(res, 401, { message: 'missing api key' });
+
+    if (req.method === 'POST' && path === '/v1/get_quote') {
+      const pickup = body.pickup_details;
+      const drop = body.drop_details;
+      return this.send(res, 200, {
+        vehicles: [
+          { type: '2 Wheeler', eta: { value: 8, unit: 'minutes' }, fare: { minor_amount: mockCourierFare(pickup, drop, 50, 10) * 100, currency: 'INR' } },
+          { type: 'Tata Ace', eta: { value: 15, unit: 'minutes' }, fare: { minor_amount: mockCourierFare(pickup, drop, 250, 25) * 100, currency: 'INR' } },
+        ],
+      });
+    }
+
+    if (req.method === 'POST' && path === '/v1/orders/create') {
+      const order = this.createOrder('porter', 'CRN', body.request_id, body, () => {
+        const pickup = body.pickup_details.address;
+        const drop = body.drop_details.address;
+        return body.vehicle_type === 'Tata Ace' ? mockCourierFare(pickup, drop, 250, 25) : mockCourierFare(pickup, drop, 50, 10);
+      }, 'open');
+      return this.send(res, 200, {
+        request_id: body.request_id,
+        order_id: order.id,
+        estimated_pickup_time: Math.floor(Date.now() / 1000) + 8 * 60,
+        estimated_fare_details: { currency_code: 'INR', minor_amount: order.amount * 100 },
+        tracking_url: `https://porter.example/track/${order.id}`,
+      });
+    }
+
+    const match = path.match(/^\/v1\/orders\/([^/]+)(\/cancel)?$/);
+    const order = match ? this.orders.get(`porter:${decodeURIComponent(match[1])}`) : undefined;
+    if (!order) return this.send(res, 404, { message: 'order not found' });
+
+    if (req.method === 'POST' && match![2]) {
+      if (FINAL_STATUSES.includes(order.status)) return this.send(res, 409, { message: `order is ${order.status}` });
+      order.status = 'cancelled';
+      return this.send(res, 200, { message: 'Order cancelled' });
+    }
+
+    return this.send(res, 200, { order_id: order.id, status: order.status, partner_info: this.porterPartner(order), ...this.porterFare(order) });
+  }
+
+  private dunzo(req: IncomingMessage, res: ServerResponse, path: string, body: any) {
+    if (!req.headers['client-id'] || !req.headers['authorization']) return this.send(res, 401, { message: 'unauthorized' });
+
+    if (req.method === 'POST' && path === '/api/v1/quote') {
+      const pickup = body.pickup_details[0];
+      const drop = body.drop_details[0];
+      return this.send(res, 200, {
+        distance: Math.round(distanceMeters(pickup, drop) * ROAD_FACTOR) / 1000,
+        eta: { pickup: 10, dropoff: 35 },
+        estimated_price: mockCourierFare(pickup, drop, 45, 11),
+      });
+    }
+
+    if (req.method === 'POST' && path === '/api/v2/tasks') {
+      const order = this.createOrder('dunzo', 'dz', body.request_id, body, () =>
+        mockCourierFare(body.pickup_details[0].address, body.drop_details[0].address, 45, 11), 'created');
+      return this.send(res, 201, {
+        task_id: order.id,
+        state: order.status,
+        eta: { pickup: 10, dropoff: 35 },
+        estimated_price: order.amount,
+      });
+    }
+
+    const match = path.match(/^\/api\/v1\/tasks\/([^/]+)\/(_cancel|status)$/);
+    const order = match ? this.orders.get(`dunzo:${decodeURIComponent(match[1])}`) : undefined;
+    if (!order) return this.send(res, 404, { message: 'task not found' });
+
+    if (req.method === 'POST' && match![2] === '_cancel') {
+      if (FINAL_STATUSES.includes(order.status)) return this.send(res, 409, { message: `task is ${order.status}` });
+      order.status = 'cancelled';
+      return this.send(res, 204, null);
+    }
+
+    return this.send(res, 200, {
+      task_id: order.id,
+      state: order.status,
+      eta: { pickup: 10, dropoff: 35 },
+      runner: this.dunzoRunner(order),
+      price: order.amount,
+    });
+  }
+
+  private rapido(req: IncomingMessage, res: ServerResponse, path: string, body: any) {
+    if (!String(req.headers['authorization'] ?? '').startsWith('Bearer ')) return this.send(res, 401, { message: 'unauthorized' });
+
+    if (req.method === 'POST' && path === '/v1/quotes') {
+      const quoteId = `rp-quote-${++this.sequence}`;
+      const amount = mockCourierFare(body.pickup, body.drop, 40, 9);
+      this.quotes.set(quoteId, amount);
+      return this.send(res, 200, {
+        quote_id: quoteId,
+        fare: { amount, currency: 'INR' },
+        pickup_eta_minutes: 6,
+        expires_at: new Date(Date.now() + 10 * 60 * 1000).toISOString(),
+      });
+    }
+
+    if (req.method === 'POST' && path === '/v1/orders') {
+      const existing = [...this.orders.values()].find(order =>
+        order.slug === 'rapido' && order.idempotency_key === req.headers['idempotency-key']);
+      if (!existing && !this.quotes.has(body.quote_id)) return this.send(res, 422, { message: 'unknown or expired quote' });
+
+      const order = this.createOrder('rapido', 'RP', String(req.headers['idempotency-key'] ?? ''), body, () =>
+        this.quotes.get(body.quote_id)!, 'ORDER_PLACED');
+      return this.send(res, 200, this.rapidoOrder(order));
+    }
+
+    const match = path.match(/^\/v1\/orders\/([^/]+)(\/cancel)?$/);
+    const order = match ? this.orders.get(`rapido:${decodeURIComponent(match[1])}`) : undefined;
+    if (!order) return this.send(res, 404, { message: 'order not found' });
+
+    if (req.method === 'POST' && match![2]) {
+      if (FINAL_STATUSES.includes(order.status)) return this.send(res, 409, { message: `order is ${order.status}` });
+      order.status = 'CANCELLED';
+      return this.send(res, 200, this.rapidoOrder(order));
+    }
+
+    return this.send(res, 200, this.rapidoOrder(order));
+  }
+
+  // Same idempotency key, same order
+  private createOrder(slug: MockCourierSlug, prefix: string, idempotencyKey: string | null, body: any, fare: () => number, status: string) {
+    const existing = idempotencyKey
+      ? [...this.orders.values()].find(order => order.slug === slug && order.idempotency_key === idempotencyKey)
+      : undefined;
+    if (existing) return existing;
+
+    const order: MockCourierOrder = {
+      slug,
+      id: `${prefix}-${++this.sequence}`,
+      status,
+      amount: fare(),
+      idempotency_key: idempotencyKey,
+      body,
+      rider: null,
+    };
+    this.orders.set(`${slug}:${order.id}`, order);
+    return order;
+  }
+
+  private porterPartner(order: MockCourierOrder) {
+    return order.rider
+      ? { name: order.rider.name, mobile: { mobile_number: order.rider.phone }, location: { lat: order.rider.lat, long: order.rider.lng } }
+      : null;
+  }
+
+  private porterFare(order: MockCourierOrder) {
+    return order.status === 'ended'
+      ? { fare_details: { actual_fare_details: { currency: 'INR', minor_amount: order.amount * 100 } } }
+      : {};
+  }
+
+  private dunzoRunner(order: MockCourierOrder) {
+    return order.rider
+      ? { name: order.rider.name, phone_number: order.rider.phone, location: { lat: order.rider.lat, lng: order.rider.lng } }
+      : null;
+  }
+
+  private rapidoOrder(order: MockCourierOrder) {
+    return {
+      order_id: order.id,
+      status: order.status,
+      fare: { amount: order.amount, currency: 'INR' },
+      captain: order.rider,
+      eta_minutes: 20,
+      tracking_url: `https://rapido.example/track/${order.id}`,
+    };
+  }
+
+  private async readBody(req: IncomingMessage): Promise<any> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString('utf8');
+    return text ? JSON.parse(text) : null;
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, body === null ? {} : { 'Content-Type': 'application/json' });
+    res.end(body === null ? undefined : JSON.stringify(body));
+  }
+}
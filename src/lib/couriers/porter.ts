@@ -0,0 +1,166 @@
+// porter.ts
+// Porter intra-city deliveries (PORTER_API_KEY, PORTER_WEBHOOK_SECRET, optional PORTER_API_URL).
+// Fares are in paise. Two-wheelers take parcels up to 20 kg; anything heavier goes in a mini truck.
+
+import type { DeliveryStatus } from '@/lib/types/logistics';
+import { isValidWebhookSignature } from '@/lib/payments/gateways/signature';
+import { courierBaseUrl, courierRequest } from './http';
+import {
+  CourierAdapter,
+  CourierBooking,
+  CourierDeliveryRequest,
+  CourierError,
+  CourierQuote,
+  CourierStop,
+  CourierTracking,
+  CourierWebhookEvent,
+  CourierWebhookSignatureError
+} from './types';
+
+export const PORTER_SIGNATURE_HEADER = 'x-porter-signature';
+
+export const PORTER_STATUSES: Record<string, DeliveryStatus> = {
+  open: 'assigned',
+  accepted: 'assigned',
+  reached_for_pickup: 'pickup_in_progress',
+  live: 'in_transit',
+  ended: 'delivered',
+  cancelled: 'cancelled',
+};
+
+const TWO_WHEELER_MAX_KG = 20;
+
+const fromPaise = (minorAmount: unknown) => Math.round(Number(minorAmount)) / 100;
+
+const address = (stop: CourierStop) => ({
+  lat: stop.lat,
+  lng: stop.lng,
+  street_address1: stop.address,
+  contact_details: { name: stop.contact_name ?? '', phone_number: stop.contact_phone ?? '' },
+});
+
+const rider = (partner: any) => (partner
+  ? {
+    name: partner.name ?? null,
+    phone: partner.mobile?.mobile_number ?? null,
+    lat: partner.location?.lat ?? null,
+    lng: partner.location?.long ?? null,
+  }
+  : null);
+
+export class PorterCourier implements CourierAdapter {
+  readonly provider = 'external_porter' as const;
+  private readonly baseUrl: string;
+
+  constructor(
+    baseUrl?: string,
+    private readonly apiKey: string | undefined = process.env.PORTER_API_KEY,
+    private readonly webhookSecret: string | undefined = process.env.PORTER_WEBHOOK_SECRET
+  ) {
+    this.baseUrl = baseUrl ?? courierBaseUrl('porter', process.env.PORTER_API_URL, 'https://pfe-apigw.porter.in');
+  }
+
+  private request(method: 'GET' | 'POST', path: string, body?: unknown) {
+    if (!this.apiKey) {
+      throw new CourierError('Porter configuration is missing', false);
+    }
+    return courierRequest('Porter', `${this.baseUrl}${path}`, { method, headers: { 'x-api-key': this.apiKey }, body });
+  }
+
+  private vehicleFor(weightKg: number) {
+    return weightKg <= TWO_WHEELER_MAX_KG ? '2 Wheeler' : 'Tata Ace';
+  }
+
+  async quote(request: CourierDeliveryRequest): Promise<CourierQuote> {
+    const response = await this.request('POST', '/v1/get_quote', {
+      pickup_details: { lat: request.pickup.lat, lng: request.pickup.lng },
+      drop_details: { lat: request.drop.lat, lng: request.drop.lng },
+    });
+
+    const wanted = this.vehicleFor(request.weight_kg);
+    const vehicle = (response?.vehicles ?? []).find((candidate: any) => candidate.type === wanted);
+    if (!vehicle) {
+      throw new CourierError(`Porter has no ${wanted} available`, false);
+    }
+
+    return {
+      provider: this.provider,
+      amount: fromPaise(vehicle.fare?.minor_amount),
+      currency: vehicle.fare?.currency ?? 'INR',
+      pickup_eta_minutes: vehicle.eta?.value ?? null,
+      quote_id: null,
+      vehicle: vehicle.type,
+    };
+  }
+
+  async book(request: CourierDeliveryRequest, idempotencyKey: string): Promise<CourierBooking> {
+    // Porter returns the existing order when it sees the same request_id again
+    const order = await this.request('POST', '/v1/orders/create', {
+      request_id: idempotencyKey,
+      vehicle_type: this.vehicleFor(request.weight_kg),
+      delivery_instructions: {
+        instructions_list: [
+          { type: 'text', description: request.items_description ?? 'Device for repair' },
+          ...(request.is_fragile ? [{ type: 'text', description: 'Fragile, handle with care' }] : []),
+        ],
+      },
+      pickup_details: { address: address(request.pickup) },
+      drop_details: { address: address(request.drop) },
+    });
+
+    return {
+      provider: this.provider,
+      provider_order_id: order.order_id,
+      amount: fromPaise(order.estimated_fare_details?.minor_amount),
+      currency: order.estimated_fare_details?.currency_code ?? 'INR',
+      status: 'assigned',
+      provider_status: 'open',
+      tracking_url: order.tracking_url ?? null,
+    };
+  }
+
+  async cancel(providerOrderId: string): Promise<void> {
+    await this.request('POST', `/v1/orders/${encodeURIComponent(providerOrderId)}/cancel`);
+  }
+
+  async track(providerOrderId: string): Promise<CourierTracking> {
+    const order = await this.request('GET', `/v1/orders/${encodeURIComponent(providerOrderId)}`);
+    const finalFare = order.fare_details?.actual_fare_details?.minor_amount;
+
+    return {
+      provider_order_id: order.order_id,
+      status: PORTER_STATUSES[order.status] ?? null,
+      provider_status: order.status ?? null,
+      rider: rider(order.partner_info),
+      eta_minutes: order.eta_minutes ?? null,
+      amount: finalFare != null ? fromPaise(finalFare) : null,
+    };
+  }
+
+  parseWebhook(rawBody: string, headers: Headers): CourierWebhookEvent | null {
+    if (!this.webhookSecret) {
+      throw new Error('PORTER_WEBHOOK_SECRET is not configured');
+    }
+
+    if (!isValidWebhookSignature(rawBody, headers.get(PORTER_SIGNATURE_HEADER), this.webhookSecret)) {
+      throw new CourierWebhookSignatureError();
+    }
+
+    const body = JSON.parse(rawBody);
+    const status = PORTER_STATUSES[body.status];
+    if (!status || !body.order_id) return null;
+
+    const finalFare = body.fare_details?.actual_fare_details?.minor_amount;
+    return {
+      // Porter sends no event id; one order never reports the same status at two timestamps
+      event_id: `${body.order_id}:${body.status}:${body.timestamp ?? ''}`,
+      provider_order_id: body.order_id,
+      status,
+      provider_status: body.status,
+      rider: rider(body.partner_info),
+      amount: finalFare != null ? fromPaise(finalFare) : null,
+      occurred_at: body.timestamp ? new Date(Number(body.timestamp) * 1000).toISOString() : null,
+      payload: body,
+    };
+  }
+}
@@ -0,0 +1,160 @@
+// rapido.ts
+// Rapido parcel orders (RAPIDO_API_KEY, RAPIDO_WEBHOOK_SECRET, optional RAPIDO_API_URL). Rapido prices
+// by quote: an order is booked against a quote id, fetched first if the caller has none. Fares are in rupees.
+
+import type { DeliveryStatus } from '@/lib/types/logistics';
+import { isValidWebhookSignature } from '@/lib/payments/gateways/signature';
+import { courierBaseUrl, courierRequest } from './http';
+import {
+  CourierAdapter,
+  CourierBooking,
+  CourierDeliveryRequest,
+  CourierError,
+  CourierQuote,
+  CourierStop,
+  CourierTracking,
+  CourierWebhookEvent,
+  CourierWebhookSignatureError
+} from './types';
+
+export const RAPIDO_SIGNATURE_HEADER = 'x-rapido-signature';
+
+export const RAPIDO_STATUSES: Record<string, DeliveryStatus> = {
+  ORDER_PLACED: 'assigned',
+  CAPTAIN_ASSIGNED: 'assigned',
+  CAPTAIN_ARRIVED: 'pickup_in_progress',
+  PICKED_UP: 'picked_up',
+  ON_THE_WAY: 'in_transit',
+  DELIVERY_FAILED: 'delivery_attempted',
+  DELIVERED: 'delivered',
+  CANCELLED: 'cancelled',
+  RETURNED: 'returned',
+};
+
+/** Rapido bikes carry parcels up to this weight */
+export const RAPIDO_MAX_WEIGHT_KG = 10;
+
+const location = (stop: CourierStop) => ({
+  lat: stop.lat,
+  lng: stop.lng,
+  address: stop.address,
+  contact: { name: stop.contact_name ?? '', phone: stop.contact_phone ?? '' },
+});
+
+const rider = (captain: any) => (captain
+  ? {
+    name: captain.name ?? null,
+    phone: captain.phone ?? null,
+    lat: captain.location?.lat ?? null,
+    lng: captain.location?.lng ?? null,
+  }
+  : null);
+
+export class RapidoCourier implements CourierAdapter {
+  readonly provider = 'external_rapido' as const;
+  private readonly baseUrl: string;
+
+  constructor(
+    baseUrl?: string,
+    private readonly apiKey: string | undefined = process.env.RAPIDO_API_KEY,
+    private readonly webhookSecret: string | undefined = process.env.RAPIDO_WEBHOOK_SECRET
+  ) {
+    this.baseUrl = baseUrl ?? courierBaseUrl('rapido', process.env.RAPIDO_API_URL, 'https://parcel-api.rapido.bike');
+  }
+
+  private request(method: 'GET' | 'POST', path: string, body?: unknown, extraHeaders: Record<string, string> = {}) {
+    if (!this.apiKey) {
+      throw new CourierError('Rapido configuration is missing', false);
+    }
+    return courierRequest('Rapido', `${this.baseUrl}${path}`, {
+      method,
+      headers: { 'Authorization': `Bearer ${this.apiKey}`, ...extraHeaders },
+      body,
+    });
+  }
+
+  async quote(request: CourierDeliveryRequest): Promise<CourierQuote> {
+    if (request.weight_kg > RAPIDO_MAX_WEIGHT_KG) {
+      throw new CourierError(`Rapido carries parcels up to ${RAPIDO_MAX_WEIGHT_KG} kg`, false);
+    }
+
+    const response = await this.request('POST', '/v1/quotes', {
+      pickup: { lat: request.pickup.lat, lng: request.pickup.lng },
+      drop: { lat: request.drop.lat, lng: request.drop.lng },
+      weight_kg: request.weight_kg,
+    });
+
+    return {
+      provider: this.provider,
+      amount: Number(response.fare?.amount),
+      currency: response.fare?.currency ?? 'INR',
+      pickup_eta_minutes: response.pickup_eta_minutes ?? null,
+      quote_id: response.quote_id,
+      vehicle: 'bike',
+    };
+  }
+
+  async book(request: CourierDeliveryRequest, idempotencyKey: string, quoteId?: string | null): Promise<CourierBooking> {
+    const quote = quoteId ?? (await this.quote(request)).quote_id;
+
+    const order = await this.request('POST', '/v1/orders', {
+      quote_id: quote,
+      reference_id: request.delivery_id,
+      pickup: location(request.pickup),
+      drop: location(request.drop),
+      notes: [request.items_description, request.is_fragile ? 'Fragile' : null].filter(Boolean).join(' - ') || undefined,
+    }, { 'Idempotency-Key': idempotencyKey });
+
+    return {
+      provider: this.provider,
+      provider_order_id: order.order_id,
+      amount: Number(order.fare?.amount),
+      currency: order.fare?.currency ?? 'INR',
+      status: RAPIDO_STATUSES[order.status] ?? 'assigned',
+      provider_status: order.status,
+      tracking_url: order.tracking_url ?? null,
+    };
+  }
+
+  async cancel(providerOrderId: string, reason: string): Promise<void> {
+    await this.request('POST', `/v1/orders/${encodeURIComponent(providerOrderId)}/cancel`, { reason });
+  }
+
+  async track(providerOrderId: string): Promise<CourierTracking> {
+    const order = await this.request('GET', `/v1/orders/${encodeURIComponent(providerOrderId)}`);
+
+    return {
+      provider_order_id: order.order_id,
+      status: RAPIDO_STATUSES[order.status] ?? null,
+      provider_status: order.status ?? null,
+      rider: rider(order.captain),
+      eta_minutes: order.eta_minutes ?? null,
+      amount: order.fare?.amount != null ? Number(order.fare.amount) : null,
+    };
+  }
+
+  parseWebhook(rawBody: string, headers: Headers): CourierWebhookEvent | null {
+    if (!this.webhookSecret) {
+      throw new Error('RAPIDO_WEBHOOK_SECRET is not configured');
+    }
+
+    if (!isValidWebhookSignature(rawBody, headers.get(RAPIDO_SIGNATURE_HEADER), this.webhookSecret)) {
+      throw new CourierWebhookSignatureError();
+    }
+
+    const body = JSON.parse(rawBody);
+    const status = RAPIDO_STATUSES[body.status];
+    if (!status || !body.order_id || !body.event_id) return null;
+
+    return {
+      event_id: body.event_id,
+      provider_order_id: body.order_id,
+      status,
+      provider_status: body.status,
+      rider: rider(body.captain),
+      amount: body.fare?.amount != null ? Number(body.fare.amount) : null,
+      occurred_at: body.occurred_at ?? null,
+      payload: body,
+    };
+  }
+}
@@ -0,0 +1,26 @@
+// status.ts
+// Courier statuses arrive out of order (webhooks are retried, tracking polls race them), so a
+// delivery only moves forward, and never out of a final state.
+
+import type { DeliveryStatus } from '@/lib/types/logistics';
+
+const STATUS_RANK: Record<DeliveryStatus, number> = {
+  pending_assignment: 0,
+  assigned: 1,
+  pickup_in_progress: 2,
+  picked_up: 3,
+  in_transit: 4,
+  delivery_attempted: 5,
+  delivered: 6,
+  cancelled: 6,
+  returned: 6,
+};
+
+export const FINAL_DELIVERY_STATUSES: DeliveryStatus[] = ['delivered', 'cancelled', 'returned'];
+
+export function isCourierStatusAdvance(current: DeliveryStatus, next: DeliveryStatus): boolean {
+  if (FINAL_DELIVERY_STATUSES.includes(current)) return false;
+  // A failed attempt goes back out for delivery
+  if (current === 'delivery_attempted' && next === 'in_transit') return true;
+  return STATUS_RANK[next] > STATUS_RANK[current];
+}
@@ -0,0 +1,121 @@
+// types.ts
+// Contract between logistics deliveries and the external courier providers (Porter, Rapido, Dunzo)
+
+import type { DeliveryStatus } from '@/lib/types/logistics';
+
+export type CourierProvider = 'external_porter' | 'external_rapido' | 'external_dunzo' | 'external_manual';
+
+export const COURIER_PROVIDERS: CourierProvider[] = ['external_porter', 'external_rapido', 'external_dunzo', 'external_manual'];
+
+export interface CourierStop {
+  address: string;
+  lat: number;
+  lng: number;
+  contact_name?: string | null;
+  contact_phone?: string | null;
+}
+
+/**
+ * One logistics delivery, as every provider needs it. Weights are in kg.
+ */
+export interface CourierDeliveryRequest {
+  delivery_id: string;
+  pickup: CourierStop;
+  drop: CourierStop;
+  weight_kg: number;
+  is_fragile: boolean;
+  items_description?: string | null;
+}
+
+/**
+ * Amounts are in rupees; adapters convert from the provider's unit
+ */
+export interface CourierQuote {
+  provider: CourierProvider;
+  amount: number;
+  currency: string;
+  pickup_eta_minutes: number | null;
+  quote_id: string | null; // Passed back when booking, for providers that price by quote
+  vehicle: string | null;
+}
+
+export interface CourierBooking {
+  provider: CourierProvider;
+  provider_order_id: string;
+  amount: number;
+  currency: string;
+  status: DeliveryStatus;
+  provider_status: string;
+  tracking_url: string | null;
+}
+
+export interface CourierRider {
+  name: string | null;
+  phone: string | null;
+  lat: number | null;
+  lng: number | null;
+}
+
+export interface CourierTracking {
+  provider_order_id: string;
+  status: DeliveryStatus | null; // null: a provider status we do not map
+  provider_status: string | null;
+  rider: CourierRider | null;
+  eta_minutes: number | null;
+  amount: number | null; // Final fare once the provider reports one
+}
+
+/**
+ * A verified status webhook, normalized across providers
+ */
+export interface CourierWebhookEvent {
+  event_id: string;
+  provider_order_id: string;
+  status: DeliveryStatus;
+  provider_status: string;
+  rider: CourierRider | null;
+  amount: number | null;
+  occurred_at: string | null;
+  payload: unknown;
+}
+
+export interface CourierAdapter {
+  readonly provider: CourierProvider;
+  /**
+   * Price a delivery without booking it. Throws CourierError on failure.
+   */
+  quote(request: CourierDeliveryRequest): Promise<CourierQuote>;
+  /**
+   * Book a rider. The idempotency key is stable for the booking attempt and is forwarded to the
+   * provider, so a retried call returns the same order. Throws CourierError on failure.
+   */
+  book(request: CourierDeliveryRequest, idempotencyKey: string, quoteId?: string | null): Promise<CourierBooking>;
+  cancel(providerOrderId: string, reason: string): Promise<void>;
+  track(providerOrderId: string): Promise<CourierTracking>;
+  /**
+   * Check the webhook signature and normalize the body. Returns null for statuses we do not track;
+   * throws CourierWebhookSignatureError when the signature does not match.
+   */
+  parseWebhook(rawBody: string, headers: Headers): CourierWebhookEvent | null;
+}
+
+export class CourierError extends Error {
+  constructor(message: string, public readonly retryable: boolean = true) {
+    super(message);
+    this.name = 'CourierError';
+  }
+}
+
+export class CourierWebhookSignatureError extends Error {
+  constructor(message = 'Invalid webhook signature') {
+    super(message);
+    this.name = 'CourierWebhookSignatureError';
+  }
+}
+
+/**
+ * Classify an HTTP failure: rate limits and server errors are worth retrying, other 4xx are not
+ */
+export function httpCourierError(provider: string, status: number, body: string): CourierError {
+  return new CourierError(`${provider} API error: ${status} - ${body.slice(0, 200)}`, status === 429 || status >= 500);
+}
@@ -0,0 +1,123 @@
+// chain.ts
+// Who holds a device, and how a transport job hands it over. Every hand-off is a row in
+// device_custody_events; the chain of holders is rebuilt from those rows.
+
+export type CustodyHolderType = 'customer' | 'transporter' | 'branch';
+
+export type CustodyStage = 'pickup' | 'drop';
+
+export type CustodyEventType = 'arrived_pickup' | 'picked_up' | 'arrived_drop' | 'delivered' | 'status_override';
+
+export interface CustodyHolder {
+  type: CustodyHolderType;
+  id: string | null;
+  name: string | null;
+}
+
+export interface CustodyEvent {
+  id: string;
+  ticket_id: string;
+  transport_job_id: string | null;
+  event_type: CustodyEventType;
+  holder_type: CustodyHolderType; // Holder once this event is recorded
+  holder_id: string | null;
+  holder_name: string | null;
+  lat: number | null;
+  lng: number | null;
+  accuracy_m: number | null;
+  distance_m: number | null;
+  geofence_status: string | null;
+  otp_verified: boolean;
+  photo_paths: string[];
+  note: string | null;
+  recorded_by: string | null;
+  recorded_at: string;
+}
+
+export interface CustodyPeriod {
+  holder: CustodyHolder;
+  from: string | null; // null: since before the first recorded hand-off
+  until: string | null; // null: still holding
+  started_by_event_id: string | null;
+}
+
+/**
+ * Job statuses from which each transporter action may be taken, and the status it leads to
+ */
+export const CUSTODY_TRANSITIONS: Record<Exclude<CustodyEventType, 'status_override'>, { from: string[]; to: string }> = {
+  arrived_pickup: { from: ['assigned', 'en_route_pickup'], to: 'arrived_pickup' },
+  picked_up: { from: ['arrived_pickup'], to: 'picked_up' },
+  arrived_drop: { from: ['picked_up', 'en_route_drop'], to: 'arrived_drop' },
+  delivered: { from: ['arrived_drop'], to: 'delivered' },
+};
+
+/**
+ * Pickup jobs bring the device from the customer to the branch; every other job type returns it
+ */
+export function isInboundJob(jobType: string): boolean {
+  return jobType === 'pickup';
+}
+
+/**
+ * Who sits at each end of a job. Hand-offs at the customer's end need the customer's OTP.
+ */
+export function custodyEndpoint(jobType: string, stage: CustodyStage): CustodyHolderType {
+  const customerStage: CustodyStage = isInboundJob(jobType) ? 'pickup' : 'drop';
+  return stage === customerStage ? 'customer' : 'branch';
+}
+
+export function requiresCustomerOtp(jobType: string, stage: CustodyStage): boolean {
+  return custodyEndpoint(jobType, stage) === 'customer';
+}
+
+/**
+ * Holders over time, oldest first. Arrivals do not move the device, so only events that change
+ * the holder start a new period.
+ */
+export function buildCustodyChain(events: CustodyEvent[], initialHolder?: CustodyHolder | null): CustodyPeriod[] {
+  const sorted = [...events].sort((a, b) => a.recorded_at.localeCompare(b.recorded_at));
+  const periods: CustodyPeriod[] = initialHolder
+    ? [{ holder: initialHolder, from: null, until: null, started_by_event_id: null }]
+    : [];
+
+  for (const event of sorted) {
+    const current = periods[periods.length - 1];
+    const holder: CustodyHolder = { type: event.holder_type, id: event.holder_id, name: event.holder_name };
+
+    if (current && current.holder.type === holder.type && (current.holder.id === holder.id || current.holder.id === null)) {
+      // An initial holder given without an identity is filled in by the first event naming them
+      if (current.holder.id === null) current.holder = holder;
+      continue;
+    }
+
+    if (current) current.until = event.recorded_at;
+    periods.push({ holder, from: event.recorded_at, until: null, started_by_event_id: event.id });
+  }
+
+  return periods;
+}
+
+export function currentCustodian(events: CustodyEvent[], initialHolder?: CustodyHolder | null): CustodyHolder | null {
+  const chain = buildCustodyChain(events, initialHolder);
+  return chain.length > 0 ? chain[chain.length - 1].holder : null;
+}
+
+/**
+ * What the customer reads for a hand-off
+ */
+export function describeCustodyEvent(event: Pick<CustodyEvent, 'event_type' | 'holder_type' | 'holder_name'>): string {
+  const holder = event.holder_name ?? (event.holder_type === 'branch' ? 'our service centre' : `the ${event.holder_type}`);
+
+  switch (event.event_type) {
+    case 'arrived_pickup':
+      return 'Our delivery partner has arrived to collect your device';
+    case 'picked_up':
+      return `Your device was handed to ${holder}`;
+    case 'arrived_drop':
+      return 'Our delivery partner has reached the drop-off point';
+    case 'delivered':
+      return event.holder_type === 'customer' ? 'Your device was handed back to you' : `Your device was received by ${holder}`;
+    default:
+      return `Your device is now with ${holder}`;
+  }
+}
@@ -0,0 +1,68 @@
+// geofence.ts
+// Is the transporter actually at the pickup or drop point? Great-circle distance against the job's
+// coordinates, with the phone's reported accuracy given partial benefit of the doubt.
+
+export interface GeoPosition {
+  lat: number;
+  lng: number;
+  accuracy_m?: number | null;
+}
+
+export type GeofenceStatus = 'inside' | 'outside' | 'low_accuracy' | 'no_target';
+
+export interface GeofenceResult {
+  status: GeofenceStatus;
+  distance_m: number | null;
+  allowed_m: number;
+}
+
+/** Radius around the address within which a hand-off is accepted */
+export const GEOFENCE_RADIUS_M = 150;
+
+/** GPS fixes worse than this cannot prove anything */
+export const MAX_GPS_ACCURACY_M = 100;
+
+const EARTH_RADIUS_M = 6_371_000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Haversine distance in metres
+ */
+export function distanceMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function isValidPosition(position: Partial<GeoPosition> | null | undefined): position is GeoPosition {
+  return !!position
+    && typeof position.lat === 'number' && Number.isFinite(position.lat) && Math.abs(position.lat) <= 90
+    && typeof position.lng === 'number' && Number.isFinite(position.lng) && Math.abs(position.lng) <= 180;
+}
+
+/**
+ * Check a fix against the target. A job without coordinates cannot be geofenced ('no_target');
+ * callers decide whether that blocks the hand-off.
+ */
+export function checkGeofence(
+  position: GeoPosition,
+  target: { lat: number | null; lng: number | null },
+  radiusM: number = GEOFENCE_RADIUS_M
+): GeofenceResult {
+  if (target.lat === null || target.lng === null) {
+    return { status: 'no_target', distance_m: null, allowed_m: radiusM };
+  }
+
+  const distance = Math.round(distanceMeters(position, { lat: target.lat, lng: target.lng }));
+  const accuracy = position.accuracy_m ?? 0;
+
+  if (accuracy > MAX_GPS_ACCURACY_M) {
+    return { status: 'low_accuracy', distance_m: distance, allowed_m: radiusM };
+  }
+
+  // Half the reported accuracy is added, so a fair fix just outside the radius still passes
+  const allowed = Math.round(radiusM + accuracy / 2);
+  return { status: distance <= allowed ? 'inside' : 'outside', distance_m: distance, allowed_m: allowed };
+}
@@ -0,0 +1,51 @@
+// otp.ts
+// Hand-off codes the customer reads out to the transporter. Only an HMAC of the code is stored,
+// bound to the job and stage so a code cannot be replayed elsewhere. Server-only (CUSTODY_OTP_SECRET).
+
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
+import type { CustodyStage } from './chain';
+
+export const CUSTODY_OTP_LENGTH = 6;
+export const CUSTODY_OTP_TTL_MINUTES = 15;
+export const CUSTODY_OTP_MAX_ATTEMPTS = 5;
+export const CUSTODY_OTP_MAX_SENDS = 3; // The first code and two resends, per job and stage
+
+/**
+ * Wrong guesses so far across every code issued for a job and stage. A new code starts from this count,
+ * so asking for another one never buys more guesses.
+ */
+export const custodyOtpAttemptsUsed = (issued: Array<{ attempts: number }>) =>
+  issued.reduce((used, otp) => Math.max(used, otp.attempts), 0);
+
+/**
+ * Why no further code can be sent for a job and stage, or null if one can
+ */
+export function custodyOtpSendError(issued: Array<{ attempts: number }>): 'otp_attempts_exceeded' | 'otp_send_limit' | null {
+  if (custodyOtpAttemptsUsed(issued) >= CUSTODY_OTP_MAX_ATTEMPTS) return 'otp_attempts_exceeded';
+  if (issued.length >= CUSTODY_OTP_MAX_SENDS) return 'otp_send_limit';
+  return null;
+}
+
+function getCustodyOtpSecret(): string {
+  const secret = process.env.CUSTODY_OTP_SECRET;
+  if (!secret) {
+    throw new Error('CUSTODY_OTP_SECRET is not configured');
+  }
+  return secret;
+}
+
+export function generateCustodyOtp(): string {
+  return randomInt(0, 10 ** CUSTODY_OTP_LENGTH).toString().padStart(CUSTODY_OTP_LENGTH, '0');
+}
+
+export function hashCustodyOtp(jobId: string, stage: CustodyStage, code: string): string {
+  return createHmac('sha256', getCustodyOtpSecret()).update(`${jobId}:${stage}:${code}`).digest('hex');
+}
+
+export function custodyOtpMatches(jobId: string, stage: CustodyStage, code: string, storedHash: string): boolean {
+  if (!/^\d+$/.test(code) || code.length !== CUSTODY_OTP_LENGTH) return false;
+
+  const expected = Buffer.from(storedHash);
+  const actual = Buffer.from(hashCustodyOtp(jobId, stage, code));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
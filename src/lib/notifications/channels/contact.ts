@@ -0,0 +1,37 @@
+// contact.ts
+// Customer contact details for channels that address people rather than devices
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ChannelDeliveryError } from './types';
+
+export interface CustomerContact {
+  id: string;
+  name: string | null;
+  phone_e164: string | null;
+  email: string | null;
+}
+
+/**
+ * Look up a customer's phone and email
+ * @throws ChannelDeliveryError (retryable) if the lookup itself fails
+ */
+export async function getCustomerContact(supabase: SupabaseClient, customerId: string): Promise<CustomerContact | null> {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('*')
+    .eq('id', customerId)
+    .maybeSingle();
+
+  if (error) {
+    throw new ChannelDeliveryError(`Failed to look up customer contact: ${error.message}`);
+  }
+
+  if (!data) return null;
+
+  return {
+    id: data.id,
+    name: data.name ?? null,
+    phone_e164: data.phone_e164 ?? null,
+    email: data.email ?? null,
+  };
+}
@@ -0,0 +1,51 @@
+// fake.ts
+// In-memory stand-in for any channel, for tests and local development (NOTIFICATION_CHANNEL_MODE=fake)
+
+import {
+  ChannelDeliveryResult,
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationChannelAdapter,
+  OutboundNotification
+} from './types';
+
+export interface FakeDelivery {
+  notification: OutboundNotification;
+  idempotencyKey: string;
+}
+
+export class FakeChannelAdapter implements NotificationChannelAdapter {
+  readonly deliveries: FakeDelivery[] = [];
+  private failures: Error[] = [];
+
+  constructor(readonly channel: NotificationChannel) {}
+
+  /**
+   * Make the next sends fail, in order
+   */
+  failWith(...errors: Error[]): this {
+    this.failures.push(...errors);
+    return this;
+  }
+
+  async send(notification: OutboundNotification, idempotencyKey: string): Promise<ChannelDeliveryResult> {
+    const failure = this.failures.shift();
+    if (failure) throw failure;
+
+    // Same key, same message: report the earlier delivery like a real provider would
+    const existing = this.deliveries.findIndex(delivery => delivery.idempotencyKey === idempotencyKey);
+    if (existing === -1) {
+      this.deliveries.push({ notification, idempotencyKey });
+    }
+
+    const index = existing === -1 ? this.deliveries.length - 1 : existing;
+    return { provider_message_id: `fake-${this.channel}-${index + 1}` };
+  }
+}
+
+/**
+ * One fake adapter per channel
+ */
+export function createFakeChannelAdapters(): FakeChannelAdapter[] {
+  return NOTIFICATION_CHANNELS.map(channel => new FakeChannelAdapter(channel));
+}
@@ -0,0 +1,55 @@
+// http-sms.ts
+// Transactional SMS through an HTTP gateway (SMS_API_BASE_URL, SMS_API_KEY, SMS_SENDER_ID)
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getCustomerContact } from './contact';
+import { ChannelDeliveryError, ChannelDeliveryResult, httpDeliveryError, NotificationChannelAdapter, OutboundNotification } from './types';
+
+export class HttpSmsAdapter implements NotificationChannelAdapter {
+  readonly channel = 'sms' as const;
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async send(notification: OutboundNotification, idempotencyKey: string): Promise<ChannelDeliveryResult> {
+    const baseUrl = process.env.SMS_API_BASE_URL;
+    const apiKey = process.env.SMS_API_KEY;
+    const senderId = process.env.SMS_SENDER_ID;
+
+    if (!baseUrl || !apiKey || !senderId) {
+      throw new ChannelDeliveryError('SMS gateway configuration is missing', false);
+    }
+
+    const contact = await getCustomerContact(this.supabase, notification.customer_id);
+    if (!contact?.phone_e164) {
+      throw new ChannelDeliveryError('Customer has no phone number', false);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, '')}/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`,
+          'Idempotency-Key': idempotencyKey,
+        },
+        body: JSON.stringify({
+          to: contact.phone_e164,
+          sender: senderId,
+          message: notification.unsubscribe_url
+            ? `${notification.message} Stop SMS updates: ${notification.unsubscribe_url}`
+            : notification.message,
+        }),
+      });
+    } catch (error) {
+      throw new ChannelDeliveryError(`SMS request failed: ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+      throw httpDeliveryError('SMS gateway', response.status, await response.text().catch(() => ''));
+    }
+
+    const result = await response.json().catch(() => null);
+    return { provider_message_id: result?.id ?? result?.message_id ?? null };
+  }
+}
@@ -0,0 +1,33 @@
+// in-app-inbox.ts
+// Messages shown in the customer's inbox inside the app
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ChannelDeliveryError, ChannelDeliveryResult, NotificationChannelAdapter, OutboundNotification } from './types';
+
+export class InAppInboxAdapter implements NotificationChannelAdapter {
+  readonly channel = 'in_app' as const;
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async send(notification: OutboundNotification, idempotencyKey: string): Promise<ChannelDeliveryResult> {
+    // The unique idempotency key makes a repeated delivery a no-op
+    const { data, error } = await this.supabase
+      .from('customer_inbox_messages')
+      .upsert({
+        customer_id: notification.customer_id,
+        ticket_id: notification.ticket_id,
+        event_type: notification.event_type,
+        title: 'JamesTronic Update',
+        body: notification.message,
+        idempotency_key: idempotencyKey,
+      }, { onConflict: 'idempotency_key', ignoreDuplicates: true })
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw new ChannelDeliveryError(`Failed to write inbox message: ${error.message}`);
+    }
+
+    return { provider_message_id: data?.id ?? null };
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Notification channel adapters
+ *
+ * Each channel (OneSignal push, Interakt WhatsApp, SMTP email, SMS, in-app inbox) implements
+ * NotificationChannelAdapter and has an in-memory fake. The outbox worker picks the adapter
+ * by the queued row's channel.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { NotificationChannelAdapter } from './types';
+import { OneSignalPushAdapter } from './onesignal-push';
+import { InteraktWhatsAppAdapter } from './interakt-whatsapp';
+import { SmtpEmailAdapter } from './smtp-email';
+import { HttpSmsAdapter } from './http-sms';
+import { InAppInboxAdapter } from './in-app-inbox';
+import { createFakeChannelAdapters } from './fake';
+
+export * from './types';
+export { OneSignalPushAdapter } from './onesignal-push';
+export { InteraktWhatsAppAdapter } from './interakt-whatsapp';
+export { SmtpEmailAdapter } from './smtp-email';
+export { HttpSmsAdapter } from './http-sms';
+export { InAppInboxAdapter } from './in-app-inbox';
+export { FakeChannelAdapter, createFakeChannelAdapters, type FakeDelivery } from './fake';
+
+/**
+ * Adapters for every channel. NOTIFICATION_CHANNEL_MODE=fake swaps in the in-memory fakes
+ * so nothing leaves the machine during local development.
+ */
+export function createChannelAdapters(supabase: SupabaseClient): NotificationChannelAdapter[] {
+  if (process.env.NOTIFICATION_CHANNEL_MODE === 'fake') {
+    return createFakeChannelAdapters();
+  }
+
+  return [
+    new OneSignalPushAdapter(supabase),
+    new InteraktWhatsAppAdapter(supabase),
+    new SmtpEmailAdapter(supabase),
+    new HttpSmsAdapter(supabase),
+    new InAppInboxAdapter(supabase),
+  ];
+}
@@ -0,0 +1,69 @@
+// interakt-whatsapp.ts
+// WhatsApp messages via Interakt. Business-initiated messages must use an approved template,
+// so the notification text is passed as the body parameter of INTERAKT_WHATSAPP_UPDATE_TEMPLATE_NAME
+// and the opt-out link as its unsubscribe_url parameter.
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getCustomerContact } from './contact';
+import { ChannelDeliveryError, ChannelDeliveryResult, httpDeliveryError, NotificationChannelAdapter, OutboundNotification } from './types';
+
+export class InteraktWhatsAppAdapter implements NotificationChannelAdapter {
+  readonly channel = 'whatsapp' as const;
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async send(notification: OutboundNotification, idempotencyKey: string): Promise<ChannelDeliveryResult> {
+    const baseUrl = process.env.INTERAKT_API_BASE_URL;
+    const apiKey = process.env.INTERAKT_API_KEY;
+    const templateName = process.env.INTERAKT_WHATSAPP_UPDATE_TEMPLATE_NAME;
+    const sender = process.env.INTERAKT_WHATSAPP_SENDER_PHONE;
+
+    if (!baseUrl || !apiKey || !templateName || !sender) {
+      throw new ChannelDeliveryError('Interakt WhatsApp configuration is missing', false);
+    }
+
+    const contact = await getCustomerContact(this.supabase, notification.customer_id);
+    if (!contact?.phone_e164) {
+      throw new ChannelDeliveryError('Customer has no phone number', false);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/send/message`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          'Authorization': `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          channel: 'whatsapp',
+          sender,
+          route: 'template',
+          message: {
+            template_name: templateName,
+            broadcast: false,
+            params: [
+              { key: 'message', value: notification.message },
+              { key: 'unsubscribe_url', value: notification.unsubscribe_url ?? '' }
+            ],
+            data: {
+              phone: contact.phone_e164,
+            }
+          },
+          // Echoed back in delivery callbacks; lets support match duplicates
+          callback_data: idempotencyKey
+        }),
+      });
+    } catch (error) {
+      throw new ChannelDeliveryError(`Interakt request failed: ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+      throw httpDeliveryError('Interakt', response.status, await response.text().catch(() => ''));
+    }
+
+    const result = await response.json().catch(() => null);
+    return { provider_message_id: result?.id ?? result?.data?.id ?? null };
+  }
+}
@@ -0,0 +1,43 @@
+// onesignal-push.ts
+// Push notifications to the customer's subscribed device via OneSignal
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { sendNotificationToOneSignalPlayer } from '@/lib/notifications/onesignal-notification-service';
+import { getAppOrigin } from '@/lib/utils/app-origin';
+import { ChannelDeliveryError, ChannelDeliveryResult, NotificationChannelAdapter, OutboundNotification } from './types';
+
+export class OneSignalPushAdapter implements NotificationChannelAdapter {
+  readonly channel = 'push' as const;
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async send(notification: OutboundNotification, idempotencyKey: string): Promise<ChannelDeliveryResult> {
+    const { data: profile, error } = await this.supabase
+      .from('profiles')
+      .select('onesignal_player_id')
+      .eq('customer_id', notification.customer_id)
+      .maybeSingle();
+
+    if (error) {
+      throw new ChannelDeliveryError(`Failed to look up push subscription: ${error.message}`);
+    }
+
+    if (!profile?.onesignal_player_id) {
+      // Retrying will not help until the customer subscribes
+      throw new ChannelDeliveryError('Customer has no push subscription', false);
+    }
+
+    const result = await sendNotificationToOneSignalPlayer(
+      profile.onesignal_player_id,
+      'JamesTronic Update',
+      notification.message,
+      `${getAppOrigin()}/customer`,
+      { ticket_id: notification.ticket_id, event_type: notification.event_type, unsubscribe_url: notification.unsubscribe_url },
+      idempotencyKey
+    ).catch((sendError: Error) => {
+      throw new ChannelDeliveryError(sendError.message);
+    });
+
+    return { provider_message_id: result?.id ?? null };
+  }
+}
@@ -0,0 +1,62 @@
+// smtp-email.ts
+// Email via the SMTP client used for OTP emails
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { sendEmail } from '@/lib/utils/smtp-client';
+import { getCustomerContact } from './contact';
+import { ChannelDeliveryError, ChannelDeliveryResult, NotificationChannelAdapter, OutboundNotification } from './types';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export class SmtpEmailAdapter implements NotificationChannelAdapter {
+  readonly channel = 'email' as const;
+
+  constructor(private supabase: SupabaseClient) {}
+
+  async send(notification: OutboundNotification, idempotencyKey: string): Promise<ChannelDeliveryResult> {
+    const contact = await getCustomerContact(this.supabase, notification.customer_id);
+    if (!contact?.email) {
+      throw new ChannelDeliveryError('Customer has no email address', false);
+    }
+
+    let messageId: string | null;
+    try {
+      messageId = await sendEmail({
+        to: contact.email,
+        subject: 'JamesTronic Update',
+        text: notification.unsubscribe_url
+          ? `${notification.message}\n\nUnsubscribe from email updates: ${notification.unsubscribe_url}`
+          : notification.message,
+        html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #2563eb;">JamesTronic Update</h2>
+          <p>${escapeHtml(notification.message)}</p>
+          <hr style="margin: 20px 0; border: none; border-top: 1px solid #e5e7eb;">
+          <p style="font-size: 12px; color: #6b7280;">
+            This is an automated message from JamesTronic. Please do not reply to this email.
+            ${notification.unsubscribe_url ? `<a href="${escapeHtml(notification.unsubscribe_url)}" style="color: #6b7280;">Unsubscribe from email updates</a>` : ''}
+          </p>
+        </div>
+      `,
+        headers: {
+          // Lets mail clients and our own tooling spot a resend of the same notification
+          'X-JamesTronic-Idempotency-Key': idempotencyKey,
+          // RFC 8058 one-click unsubscribe
+          ...(notification.unsubscribe_url ? {
+            'List-Unsubscribe': `<${notification.unsubscribe_url}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+          } : {})
+        },
+      });
+    } catch (error) {
+      throw new ChannelDeliveryError(`SMTP send failed: ${(error as Error).message}`);
+    }
+
+    if (messageId === null) {
+      throw new ChannelDeliveryError('SMTP is not configured', false);
+    }
+
+    return { provider_message_id: messageId };
+  }
+}
@@ -0,0 +1,48 @@
+// types.ts
+// Contract between the notification outbox and the per-channel delivery adapters
+
+export type NotificationChannel = 'push' | 'whatsapp' | 'sms' | 'email' | 'in_app';
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['push', 'whatsapp', 'sms', 'email', 'in_app'];
+
+/**
+ * A queued notification as handed to an adapter
+ */
+export interface OutboundNotification {
+  id: string;
+  ticket_id: string | null;
+  customer_id: string;
+  event_type: string;
+  channel: NotificationChannel;
+  message: string;
+  priority: number;
+  unsubscribe_url?: string; // One-click opt-out from this channel; not set for the in-app inbox
+}
+
+export interface ChannelDeliveryResult {
+  provider_message_id?: string | null;
+}
+
+export interface NotificationChannelAdapter {
+  readonly channel: NotificationChannel;
+  /**
+   * Deliver one notification. The idempotency key is stable across retries of the same
+   * message and must be forwarded to the provider when it supports one.
+   * Throws ChannelDeliveryError on failure.
+   */
+  send(notification: OutboundNotification, idempotencyKey: string): Promise<ChannelDeliveryResult>;
+}
+
+export class ChannelDeliveryError extends Error {
+  constructor(message: string, public readonly retryable: boolean = true) {
+    super(message);
+    this.name = 'ChannelDeliveryError';
+  }
+}
+
+/**
+ * Classify an HTTP failure: rate limits and server errors are worth retrying, other 4xx are not
+ */
+export function httpDeliveryError(provider: string, status: number, body: string): ChannelDeliveryError {
+  return new ChannelDeliveryError(`${provider} API error: ${status} - ${body.slice(0, 200)}`, status === 429 || status >= 500);
+}
@@ -7,6 +7,49 @@ import {
   sendNotificationToList
 } from '@/lib/notifications/onesignal-notification-service';
 import { customerUpdatesService } from '@/lib/services/customer-updates-service';
+import { NotificationPreferencesService } from '@/lib/services/notification-preferences';
+import { enqueueNotification } from '@/lib/services/notificationRouter';
+import { evaluateDelivery } from '@/lib/notifications/preferences';
+import { tryBuildUnsubscribeUrl } from '@/lib/notifications/unsubscribe';
+import { getAppOrigin } from '@/lib/utils/app-origin';
+
+/**
+ * Push to the customer's device if their preferences allow it.
+ * In quiet hours the push is handed to the notification outbox, which holds it until they end.
+ * @returns Whether the push was sent or queued
+ */
+async function sendCustomerPush(
+  customerId: string,
+  playerId: string,
+  title: string,
+  message: string,
+  url: string,
+  data: { ticket_id: string; type: string } & Record<string, any>
+): Promise<boolean> {
+  const preferences = await new NotificationPreferencesService().get(customerId);
+  const decision = evaluateDelivery(preferences, data.type, 'push');
+
+  if (decision.action === 'suppress') {
+    console.log(`Skipping push for customer ${customerId}: ${decision.reason}`);
+    return false;
+  }
+
+  if (decision.action === 'defer') {
+    return enqueueNotification({
+      ticketId: data.ticket_id,
+      customerId,
+      eventKey: data.type,
+      message,
+      priority: 3
+    }, 'push');
+  }
+
+  await sendNotificationToOneSignalPlayer(playerId, title, message, url, {
+    ...data,
+    unsubscribe_url: tryBuildUnsubscribeUrl({ customer_id: customerId, channel: 'push' })
+  });
+  return true;
+}
 
 /**
  * Send notification to customer when a ticket is created
@@ -62,12 +105,13 @@ export async function sendTicketCreatedNotification(
       'Your repair request has been received and is pending assignment'
     );
 
-    // Send notification
-    await sendNotificationToOneSignalPlayer(
+    // Send notification (unless the customer opted out of push)
+    const pushed = await sendCustomerPush(
+      customerId,
       profile.onesignal_player_id,
       'Ticket Booked Successfully',
       `Your repair request #${ticketId.substring(0, 8)}... has been received`,
-      `${window.location.origin}/customer/tickets/${ticketId}`,
+      `${getAppOrigin()}/customer/tickets/${ticketId}`,
       {
         ticket_id: ticketId,
         customer_id: customerId,
@@ -75,6 +119,10 @@ export async function sendTicketCreatedNotification(
       }
     );
 
+    if (!pushed) {
+      return false;
+    }
+
     // Log notification
     await customerUpdatesService.createNotificationLog(
       ticketId,
@@ -157,12 +205,13 @@ export async function sendTechnicianAssignedNotification(
       `Technician ${technician.full_name} has been assigned to your repair`
     );
 
-    // Send notification
-    await sendNotificationToOneSignalPlayer(
+    // Send notification (unless the customer opted out of push)
+    const pushed = await sendCustomerPush(
+      customerId,
       profile.onesignal_player_id,
       'Technician Assigned',
       `Technician ${technician.full_name} has been assigned to your repair #${ticketId.substring(0, 8)}...`,
-      `${window.location.origin}/customer/tickets/${ticketId}`,
+      `${getAppOrigin()}/customer/tickets/${ticketId}`,
       {
         ticket_id: ticketId,
         technician_id: technicianId,
@@ -170,6 +219,10 @@ export async function sendTechnicianAssignedNotification(
       }
     );
 
+    if (!pushed) {
+      return false;
+    }
+
     // Log notification
     await customerUpdatesService.createNotificationLog(
       ticketId,
@@ -239,18 +292,23 @@ export async function sendWorkStartedNotification(
       'Technician has started working on your device'
     );
 
-    // Send notification
-    await sendNotificationToOneSignalPlayer(
+    // Send notification (unless the customer opted out of push)
+    const pushed = await sendCustomerPush(
+      customerId,
       profile.onesignal_player_id,
       'Work Started',
       `Technician has started working on your repair #${ticketId.substring(0, 8)}...`,
-      `${window.location.origin}/customer/tickets/${ticketId}`,
+      `${getAppOrigin()}/customer/tickets/${ticketId}`,
       {
         ticket_id: ticketId,
         type: 'work_started'
       }
     );
 
+    if (!pushed) {
+      return false;
+    }
+
     // Log notification
     await customerUpdatesService.createNotificationLog(
       ticketId,
@@ -320,18 +378,23 @@ export async function sendPartsNeededNotification(
       'Required parts have been ordered for your repair'
     );
 
-    // Send notification
-    await sendNotificationToOneSignalPlayer(
+    // Send notification (unless the customer opted out of push)
+    const pushed = await sendCustomerPush(
+      customerId,
       profile.onesignal_player_id,
       'Parts Ordered',
       `Required parts have been ordered for your repair #${ticketId.substring(0, 8)}...`,
-      `${window.location.origin}/customer/tickets/${ticketId}`,
+      `${getAppOrigin()}/customer/tickets/${ticketId}`,
       {
         ticket_id: ticketId,
         type: 'parts_ordered'
       }
     );
 
+    if (!pushed) {
+      return false;
+    }
+
     // Log notification
     await customerUpdatesService.createNotificationLog(
       ticketId,
@@ -409,18 +472,23 @@ export async function sendSLABreachedNotification(
       'breached'
     );
 
-    // Send notification
-    await sendNotificationToOneSignalPlayer(
+    // Send notification (unless the customer opted out of push)
+    const pushed = await sendCustomerPush(
+      customerId,
       profile.onesignal_player_id,
       'Repair Delay',
       `There has been a delay in your repair #${ticketId.substring(0, 8)}... We are working to resolve it.`,
-      `${window.location.origin}/customer/tickets/${ticketId}`,
+      `${getAppOrigin()}/customer/tickets/${ticketId}`,
       {
         ticket_id: ticketId,
         type: 'sla_breached'
       }
     );
 
+    if (!pushed) {
+      return false;
+    }
+
     // Log notification
     await customerUpdatesService.createNotificationLog(
       ticketId,
@@ -490,12 +558,13 @@ export async function sendTicketCompletedNotification(
       'Your device has been repaired and is ready'
     );
 
-    // Send notification
-    await sendNotificationToOneSignalPlayer(
+    // Send notification (unless the customer opted out of push)
+    const pushed = await sendCustomerPush(
+      customerId,
       profile.onesignal_player_id,
       'Repair Completed',
       `Your repair #${ticketId.substring(0, 8)}... has been completed`,
-      `${window.location.origin}/customer/tickets/${ticketId}`,
+      `${getAppOrigin()}/customer/tickets/${ticketId}`,
       {
         ticket_id: ticketId,
         type: 'repair_completed'
@@ -510,6 +579,10 @@ export async function sendTicketCompletedNotification(
       'fulfilled'
     );
 
+    if (!pushed) {
+      return false;
+    }
+
     // Log notification
     await customerUpdatesService.createNotificationLog(
       ticketId,
@@ -579,18 +652,23 @@ export async function sendTicketDeliveredNotification(
       'Your repaired device has been delivered'
     );
 
-    // Send notification
-    await sendNotificationToOneSignalPlayer(
+    // Send notification (unless the customer opted out of push)
+    const pushed = await sendCustomerPush(
+      customerId,
       profile.onesignal_player_id,
       'Device Delivered',
       `Your repaired device for ticket #${ticketId.substring(0, 8)}... has been delivered`,
-      `${window.location.origin}/customer/tickets/${ticketId}`,
+      `${getAppOrigin()}/customer/tickets/${ticketId}`,
       {
         ticket_id: ticketId,
         type: 'delivered'
       }
     );
 
+    if (!pushed) {
+      return false;
+    }
+
     // Log notification
     await customerUpdatesService.createNotificationLog(
       ticketId,
@@ -663,18 +741,23 @@ export async function sendGeneralUpdateNotification(
       message
     );
 
-    // Send notification
-    await sendNotificationToOneSignalPlayer(
+    // Send notification (unless the customer opted out of push)
+    const pushed = await sendCustomerPush(
+      customerId,
       profile.onesignal_player_id,
       title,
       message,
-      `${window.location.origin}/customer/tickets/${ticketId}`,
+      `${getAppOrigin()}/customer/tickets/${ticketId}`,
       {
         ticket_id: ticketId,
         type: eventType
       }
     );
 
+    if (!pushed) {
+      return false;
+    }
+
     // Log notification
     await customerUpdatesService.createNotificationLog(
       ticketId,
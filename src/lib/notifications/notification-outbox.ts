@@ -0,0 +1,326 @@
+// notification-outbox.ts
+// Drains customer_notification_queue: claims due rows under a lease, delivers them through the
+// channel adapters, retries failures with exponential backoff and dead-letters after maxAttempts.
+// Customer preferences are applied at delivery time: opted-out channels are suppressed and
+// messages that fall in quiet hours are deferred until they end. Rows that name a registry
+// template are rendered in the customer's language; WhatsApp only sends approved versions.
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createHash, randomUUID } from 'crypto';
+import {
+  ChannelDeliveryError,
+  createChannelAdapters,
+  NotificationChannel,
+  NotificationChannelAdapter,
+  OutboundNotification
+} from './channels';
+import { CustomerNotificationPreferences, evaluateDelivery, NotificationLanguage } from './preferences';
+import {
+  CHANNEL_OUTPUT_FORMATS,
+  renderNotificationTemplate,
+  selectTemplateVersion,
+  TemplateApproval,
+  TemplateValue
+} from './templates';
+import { tryBuildUnsubscribeUrl } from './unsubscribe';
+import { NotificationPreferencesService } from '@/lib/services/notification-preferences';
+
+/**
+ * A row of customer_notification_queue as returned by claim_customer_notifications
+ */
+export interface QueuedNotification extends OutboundNotification {
+  status: 'pending' | 'processing' | 'sent' | 'suppressed' | 'dead_letter';
+  idempotency_key: string;
+  attempt_count: number;
+  retry_count: number;
+  next_attempt_at: string;
+  locked_by: string | null;
+  lease_expires_at: string | null;
+  last_error: string | null;
+  template_key?: string | null;
+  template_values?: Record<string, TemplateValue> | null;
+}
+
+export interface OutboxOptions {
+  batchSize: number;
+  leaseSeconds: number;
+  maxAttempts: number;
+  baseBackoffSeconds: number;
+  maxBackoffSeconds: number;
+}
+
+export interface OutboxRunSummary {
+  worker_id: string;
+  claimed: number;
+  sent: number;
+  retried: number;
+  dead_lettered: number;
+  deferred: number;
+  suppressed: number;
+}
+
+type PreferencesLoader = Pick<NotificationPreferencesService, 'get'>;
+type TemplateApprovalsLoader = () => Promise<TemplateApproval[]>;
+
+/**
+ * The update to apply to a row after a failed attempt
+ */
+export interface FailurePlan {
+  status: 'pending' | 'dead_letter';
+  next_attempt_at: string | null;
+  dead_lettered_at: string | null;
+  last_error: string;
+}
+
+export const DEFAULT_OUTBOX_OPTIONS: OutboxOptions = {
+  batchSize: 50,
+  leaseSeconds: 120,
+  maxAttempts: 5,
+  baseBackoffSeconds: 30,
+  maxBackoffSeconds: 60 * 60,
+};
+
+/**
+ * Delay before the next attempt: base * 2^(attempt - 1), capped
+ * @param attempt The attempt that just failed (1-based)
+ */
+export function computeBackoffSeconds(attempt: number, options: Pick<OutboxOptions, 'baseBackoffSeconds' | 'maxBackoffSeconds'>): number {
+  return Math.min(options.baseBackoffSeconds * 2 ** Math.max(attempt - 1, 0), options.maxBackoffSeconds);
+}
+
+/**
+ * Decide whether a failed attempt is retried or dead-lettered
+ */
+export function planFailure(
+  row: Pick<QueuedNotification, 'attempt_count'>,
+  error: unknown,
+  options: OutboxOptions,
+  now: Date = new Date()
+): FailurePlan {
+  const message = error instanceof Error ? error.message : String(error);
+  const retryable = !(error instanceof ChannelDeliveryError) || error.retryable;
+
+  if (!retryable || row.attempt_count >= options.maxAttempts) {
+    return {
+      status: 'dead_letter',
+      next_attempt_at: null,
+      dead_lettered_at: now.toISOString(),
+      last_error: retryable ? `Gave up after ${row.attempt_count} attempts: ${message}` : message,
+    };
+  }
+
+  return {
+    status: 'pending',
+    next_attempt_at: new Date(now.getTime() + computeBackoffSeconds(row.attempt_count, options) * 1000).toISOString(),
+    dead_lettered_at: null,
+    last_error: message,
+  };
+}
+
+/**
+ * Stable UUID derived from an idempotency key, for providers that require UUID keys
+ */
+export function toProviderIdempotencyKey(idempotencyKey: string): string {
+  const hex = createHash('sha256').update(idempotencyKey).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+export class NotificationOutboxWorker {
+  private supabase: SupabaseClient;
+  private adapters: Map<NotificationChannel, NotificationChannelAdapter>;
+  private options: OutboxOptions;
+  private preferences: PreferencesLoader;
+  private loadApprovals: TemplateApprovalsLoader;
+  readonly workerId = `outbox-${randomUUID()}`;
+
+  constructor(
+    options: Partial<OutboxOptions> = {},
+    supabase?: SupabaseClient,
+    adapters?: NotificationChannelAdapter[],
+    preferences?: PreferencesLoader,
+    approvals?: TemplateApprovalsLoader
+  ) {
+    // Use service role key: the queue is not readable by customers
+    this.supabase = supabase ?? createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    );
+    this.options = { ...DEFAULT_OUTBOX_OPTIONS, ...options };
+    this.adapters = new Map((adapters ?? createChannelAdapters(this.supabase)).map(adapter => [adapter.channel, adapter]));
+    this.preferences = preferences ?? new NotificationPreferencesService(this.supabase);
+    this.loadApprovals = approvals ?? (() => this.fetchTemplateApprovals());
+  }
+
+  /**
+   * Claim one batch of due notifications and deliver them
+   */
+  async run(): Promise<OutboxRunSummary> {
+    const summary: OutboxRunSummary = { worker_id: this.workerId, claimed: 0, sent: 0, retried: 0, dead_lettered: 0, deferred: 0, suppressed: 0 };
+
+    const { data, error } = await this.supabase.rpc('claim_customer_notifications', {
+      p_worker_id: this.workerId,
+      p_batch_size: this.options.batchSize,
+      p_lease_seconds: this.options.leaseSeconds,
+      p_max_attempts: this.options.maxAttempts
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim notifications: ${error.message}`);
+    }
+
+    const rows = (data || []) as QueuedNotification[];
+    summary.claimed = rows.length;
+
+    // One lookup per customer per batch, and approvals once, when a WhatsApp template needs them
+    const preferences = new Map<string, Promise<CustomerNotificationPreferences>>();
+    let approvals: Promise<TemplateApproval[]> | null = null;
+    const getApprovals = () => (approvals ??= this.loadApprovals());
+
+    // Sequential on purpose: provider rate limits matter more than throughput here
+    for (const row of rows) {
+      if (!preferences.has(row.customer_id)) {
+        preferences.set(row.customer_id, this.preferences.get(row.customer_id));
+      }
+      const outcome = await this.deliver(row, preferences.get(row.customer_id)!, getApprovals);
+      summary[outcome]++;
+    }
+
+    return summary;
+  }
+
+  private async deliver(
+    row: QueuedNotification,
+    preferences: Promise<CustomerNotificationPreferences>,
+    approvals: TemplateApprovalsLoader
+  ): Promise<'sent' | 'retried' | 'dead_lettered' | 'deferred' | 'suppressed'> {
+    try {
+      // Preferences first: a message the customer would not get anyway needs no adapter
+      const customerPreferences = await preferences;
+      const decision = evaluateDelivery(customerPreferences, row.event_type, row.channel);
+
+      if (decision.action === 'suppress') {
+        await this.release(row, { status: 'suppressed', last_error: decision.reason });
+        return 'suppressed';
+      }
+      if (decision.action === 'defer') {
+        // Waiting out quiet hours is not a failed attempt
+        await this.release(row, {
+          status: 'pending',
+          next_attempt_at: decision.until.toISOString(),
+          attempt_count: row.attempt_count - 1
+        });
+        return 'deferred';
+      }
+
+      const adapter = this.adapters.get(row.channel);
+      if (!adapter) {
+        throw new ChannelDeliveryError(`No adapter for channel ${row.channel}`, false);
+      }
+
+      const message = await this.renderMessage(row, customerPreferences.language, approvals);
+      if (message === null) {
+        await this.release(row, { status: 'suppressed', last_error: `No approved ${row.channel} version of template ${row.template_key}` });
+        return 'suppressed';
+      }
+
+      const outbound = row.channel === 'in_app'
+        ? { ...row, message }
+        : { ...row, message, unsubscribe_url: tryBuildUnsubscribeUrl({ customer_id: row.customer_id, channel: row.channel }) };
+
+      const result = await adapter.send(outbound, toProviderIdempotencyKey(row.idempotency_key));
+      await this.markSent(outbound, result.provider_message_id ?? null);
+      return 'sent';
+    } catch (error) {
+      const plan = planFailure(row, error, this.options);
+      await this.release(row, {
+        ...plan,
+        retry_count: row.retry_count + 1
+      });
+      console.warn(`[Notification Outbox] ${row.id} ${plan.status === 'dead_letter' ? 'dead-lettered' : 'will retry'}: ${plan.last_error}`);
+      return plan.status === 'dead_letter' ? 'dead_lettered' : 'retried';
+    }
+  }
+
+  /**
+   * The text to send: the row's template rendered in the customer's language, or its message when
+   * it has no template or no version of it covers the channel
+   * @returns null for a WhatsApp template with no approved version, which must not be sent
+   */
+  private async renderMessage(
+    row: QueuedNotification,
+    language: NotificationLanguage,
+    approvals: TemplateApprovalsLoader
+  ): Promise<string | null> {
+    if (!row.template_key) return row.message;
+
+    const selected = selectTemplateVersion(
+      row.template_key,
+      language,
+      row.channel,
+      row.channel === 'whatsapp' ? await approvals() : []
+    );
+    if (!selected) return row.channel === 'whatsapp' ? null : row.message;
+
+    try {
+      return renderNotificationTemplate(row.template_key, row.template_values ?? {}, {
+        locale: selected.locale,
+        format: CHANNEL_OUTPUT_FORMATS[row.channel] ?? 'text',
+        version: selected.template.version
+      });
+    } catch (error) {
+      // Missing or mistyped values will not fix themselves on a retry
+      throw new ChannelDeliveryError((error as Error).message, false);
+    }
+  }
+
+  private async fetchTemplateApprovals(): Promise<TemplateApproval[]> {
+    const { data, error } = await this.supabase
+      .from('notification_template_approvals')
+      .select('template_key, version, locale, status, provider_template_name, rejection_reason');
+
+    if (error) {
+      throw new Error(`Failed to load template approvals: ${error.message}`);
+    }
+    return (data || []) as TemplateApproval[];
+  }
+
+  private async markSent(row: QueuedNotification, providerMessageId: string | null): Promise<void> {
+    const sentAt = new Date().toISOString();
+    await this.release(row, {
+      status: 'sent',
+      sent_at: sentAt,
+      provider_message_id: providerMessageId,
+      last_error: null
+    });
+
+    // Feeds the spam checks in customerNotificationEngine
+    const { error } = await this.supabase
+      .from('customer_notifications_log')
+      .insert([{
+        ticket_id: row.ticket_id,
+        event_type: row.event_type,
+        channel: row.channel,
+        message: row.message,
+        created_at: sentAt
+      }]);
+
+    if (error) {
+      console.error('[Notification Outbox] Error writing notification log:', error);
+    }
+  }
+
+  /**
+   * Update the row and drop the lease, but only while this worker still holds it
+   */
+  private async release(row: QueuedNotification, changes: Record<string, unknown>): Promise<void> {
+    const { error } = await this.supabase
+      .from('customer_notification_queue')
+      .update({ ...changes, locked_by: null, lease_expires_at: null, updated_at: new Date().toISOString() })
+      .eq('id', row.id)
+      .eq('locked_by', this.workerId);
+
+    if (error) {
+      console.error(`[Notification Outbox] Error updating notification ${row.id}:`, error);
+    }
+  }
+}
@@ -3,6 +3,7 @@
 
 import { supabase } from '@/lib/supabase/supabase';
 import { getAccessToken } from '@/lib/auth/auth-utils';
+import { getAppOrigin } from '@/lib/utils/app-origin';
 
 /**
  * Initialize OneSignal SDK
@@ -68,7 +69,8 @@ export async function sendNotificationToOneSignalPlayer(
   title: string,
   body: string,
   url?: string,
-  data?: Record<string, any>
+  data?: Record<string, any>,
+  idempotencyKey?: string // UUID; OneSignal drops repeat requests with the same key for 30 days
 ): Promise<any> {
   try {
     const response = await fetch('https://onesignal.com/api/v1/notifications', {
@@ -82,8 +84,9 @@ export async function sendNotificationToOneSignalPlayer(
         include_player_ids: [playerId],
         headings: { en: title },
         contents: { en: body },
-        url: url || `${window.location.origin}/tech/jobs`,
-        data: data || { timestamp: Date.now() }
+        url: url || `${getAppOrigin()}/tech/jobs`,
+        data: data || { timestamp: Date.now() },
+        ...(idempotencyKey ? { external_id: idempotencyKey } : {})
       })
     });
 
@@ -123,7 +126,7 @@ export async function sendNotificationToList(
         include_player_ids: playerIds,
         headings: { en: title },
         contents: { en: body },
-        url: url || `${window.location.origin}/tech/jobs`,
+        url: url || `${getAppOrigin()}/tech/jobs`,
         data: data || { timestamp: Date.now() }
       })
     });
@@ -196,7 +199,7 @@ export async function sendTicketAssignmentNotification(
       profile.onesignal_player_id,
       'New Ticket Assigned',
       `Ticket #${ticketId} has been assigned to you`,
-      `${window.location.origin}/tech/jobs/${ticketId}`,
+      `${getAppOrigin()}/tech/jobs/${ticketId}`,
       { ticket_id: ticketId, type: 'ticket_assignment' }
     );
 
@@ -232,7 +235,7 @@ export async function sendTicketStatusUpdateNotification(
       profile.onesignal_player_id,
       'Ticket Status Updated',
       `Ticket #${ticketId} status updated to ${status}`,
-      `${window.location.origin}/tech/jobs/${ticketId}`,
+      `${getAppOrigin()}/tech/jobs/${ticketId}`,
       { ticket_id: ticketId, status, type: 'status_update' }
     );
 
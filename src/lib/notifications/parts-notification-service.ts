@@ -7,6 +7,7 @@ import {
   sendNotificationToList
 } from '@/lib/notifications/onesignal-notification-service';
 import { triggerCustomerNotification } from '../services/customerNotificationEngine';
+import { getAppOrigin } from '@/lib/utils/app-origin';
 
 /**
  * Send notification when a part request is approved
@@ -33,7 +34,7 @@ export async function sendPartRequestApprovedNotification(
       profile.onesignal_player_id,
       'Part Request Approved',
       `Your request for ${partName} (ID: ${requestId.substring(0, 8)}...) has been approved`,
-      `${window.location.origin}/tech/jobs`,
+      `${getAppOrigin()}/tech/jobs`,
       {
         request_id: requestId,
         part_name: partName,
@@ -79,7 +80,7 @@ export async function sendPartRequestRejectedNotification(
       profile.onesignal_player_id,
       'Part Request Rejected',
       message,
-      `${window.location.origin}/tech/jobs`,
+      `${getAppOrigin()}/tech/jobs`,
       {
         request_id: requestId,
         part_name: partName,
@@ -120,7 +121,7 @@ export async function sendPOCreatedNotification(
       profile.onesignal_player_id,
       'Purchase Order Created',
       `PO #${poId.substring(0, 8)}... for ${supplierName} has been created`,
-      `${window.location.origin}/app/parts/po`,
+      `${getAppOrigin()}/app/parts/po`,
       {
         po_id: poId,
         supplier_name: supplierName,
@@ -168,7 +169,7 @@ export async function notifyStaffAboutNewPO(
         playerIds,
         'New Purchase Order',
         `New PO #${poId.substring(0, 8)}... created for ${supplierName}`,
-        `${window.location.origin}/app/parts/po`,
+        `${getAppOrigin()}/app/parts/po`,
         {
           po_id: poId,
           supplier_name: supplierName,
@@ -207,7 +208,7 @@ export async function sendPOApprovedNotification(
       profile.onesignal_player_id,
       'Purchase Order Approved',
       `PO #${poId.substring(0, 8)}... for ${supplierName} has been approved`,
-      `${window.location.origin}/app/parts/po`,
+      `${getAppOrigin()}/app/parts/po`,
       {
         po_id: poId,
         supplier_name: supplierName,
@@ -303,7 +304,7 @@ export async function sendPOETAUpdateNotification(
       playerIds,
       'Parts on the Way',
       message,
-      `${window.location.origin}/tech/parts`,
+      `${getAppOrigin()}/tech/parts`,
       {
         po_id: poId,
         supplier_name: supplierName,
@@ -404,7 +405,7 @@ export async function sendPartsArrivalNotification(
         techPlayerIds,
         'Parts Received',
         `${quantityReceived} units of ${partName} from PO #${poId.substring(0, 8)}... have arrived and are ready for use`,
-        `${window.location.origin}/tech/parts`,
+        `${getAppOrigin()}/tech/parts`,
         {
           po_id: poId,
           part_name: partName,
@@ -447,7 +448,7 @@ export async function sendPartsReadyForPickupNotification(
       profile.onesignal_player_id,
       'Parts Ready for Pickup',
       `Your requested ${partName} (ID: ${requestId.substring(0, 8)}...) is ready for pickup`,
-      `${window.location.origin}/tech/parts`,
+      `${getAppOrigin()}/tech/parts`,
       {
         request_id: requestId,
         part_name: partName,
@@ -493,7 +494,7 @@ export async function sendPOSentNotification(
         playerIds,
         'PO Sent to Supplier',
         `PO #${poId.substring(0, 8)}... has been sent to ${supplierName}`,
-        `${window.location.origin}/app/parts/po`,
+        `${getAppOrigin()}/app/parts/po`,
         {
           po_id: poId,
           supplier_name: supplierName,
@@ -583,7 +584,7 @@ export async function sendPOInTransitNotification(
       playerIds,
       'Parts in Transit',
       `Parts from PO #${poId.substring(0, 8)}... from ${supplierName} are now in transit`,
-      `${window.location.origin}/tech/parts`,
+      `${getAppOrigin()}/tech/parts`,
       {
         po_id: poId,
         supplier_name: supplierName,
@@ -609,7 +610,7 @@ export async function sendPartDelayToCustomerNotification(
     // Use the new customer notification engine
     const context = {
       ticketId,
-      customerId: '', // Will be populated in the dispatch function
+      customerId: '', // Looked up from the ticket by triggerCustomerNotification
     };
 
     // This will trigger the part_delay notification rule
@@ -0,0 +1,204 @@
+// preferences.ts
+// Customer notification preferences: per-event channel opt-outs, language, quiet hours and
+// WhatsApp consent. Pure rules only, so the same answers hold on the server and in the browser.
+
+import type { NotificationChannel } from './channels/types';
+
+export type NotificationLanguage = 'en' | 'hi' | 'te';
+
+export const NOTIFICATION_LANGUAGES: NotificationLanguage[] = ['en', 'hi', 'te'];
+
+// Key in channel_opt_outs that applies to every event type
+export const ALL_EVENTS = '*';
+
+export const DEFAULT_NOTIFICATION_TIMEZONE = 'Asia/Kolkata';
+
+// Channels a customer can switch off. The in-app inbox always keeps a copy.
+export const OPTIONAL_CHANNELS: NotificationChannel[] = ['push', 'whatsapp', 'sms', 'email'];
+
+// Messages the customer needs to finish something under way, such as hand-off codes. They expire within
+// minutes, so quiet hours and channel opt-outs do not apply; WhatsApp still needs consent.
+export const TRANSACTIONAL_EVENTS = ['custody_otp'];
+
+// Event types offered on the preferences screen
+export const CUSTOMER_NOTIFICATION_EVENTS: Array<{ key: string; label: string }> = [
+  { key: 'ticket_created', label: 'Booking confirmations' },
+  { key: 'technician_assigned', label: 'Technician assigned' },
+  { key: 'work_started', label: 'Repair progress' },
+  { key: 'sla_risk', label: 'Delays to your repair' },
+  { key: 'job_completed', label: 'Repair completed' },
+  { key: 'delivered', label: 'Delivery updates' },
+];
+
+// Other event types and the preference that covers them
+const PREFERENCE_EVENT_ALIASES: Record<string, string> = {
+  parts_ordered: 'work_started',
+  part_delay: 'sla_risk',
+  sla_breached: 'sla_risk',
+  repair_completed: 'job_completed',
+};
+
+/**
+ * The event type whose preference applies to a notification
+ */
+export function preferenceEventKey(eventType: string): string {
+  return PREFERENCE_EVENT_ALIASES[eventType] ?? eventType;
+}
+
+/**
+ * A row of customer_notification_preferences
+ */
+export interface CustomerNotificationPreferences {
+  customer_id: string;
+  language: NotificationLanguage;
+  timezone: string;
+  quiet_hours_start: string | null; // 'HH:MM' in the customer's timezone
+  quiet_hours_end: string | null;
+  channel_opt_outs: Record<string, NotificationChannel[]>; // Event type (or ALL_EVENTS) -> channels switched off
+  whatsapp_consent_at: string | null;
+  updated_at?: string;
+}
+
+export type DeliveryDecision =
+  | { action: 'send' }
+  | { action: 'suppress'; reason: string }
+  | { action: 'defer'; until: Date };
+
+/**
+ * A change to a customer's consent, as recorded in the consent ledger
+ */
+export interface ConsentChange {
+  channel: NotificationChannel;
+  event_type: string;
+  action: 'granted' | 'revoked';
+}
+
+/**
+ * Preferences for a customer who has never saved any: everything on except WhatsApp,
+ * which needs explicit consent
+ */
+export function defaultNotificationPreferences(customerId: string): CustomerNotificationPreferences {
+  return {
+    customer_id: customerId,
+    language: 'en',
+    timezone: DEFAULT_NOTIFICATION_TIMEZONE,
+    quiet_hours_start: null,
+    quiet_hours_end: null,
+    channel_opt_outs: {},
+    whatsapp_consent_at: null,
+  };
+}
+
+/**
+ * Whether the customer wants this event on this channel
+ */
+export function isChannelEnabled(
+  preferences: CustomerNotificationPreferences,
+  eventType: string,
+  channel: NotificationChannel
+): boolean {
+  if (channel === 'whatsapp' && !preferences.whatsapp_consent_at) {
+    return false;
+  }
+
+  const optOuts = preferences.channel_opt_outs || {};
+  return !(optOuts[ALL_EVENTS] || []).includes(channel) && !(optOuts[preferenceEventKey(eventType)] || []).includes(channel);
+}
+
+const parseClockTime = (value: string): number => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Minutes since local midnight in a timezone (falls back to the default timezone if unknown)
+ */
+function minutesIntoDay(date: Date, timeZone: string): number {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23' }).formatToParts(date);
+  } catch {
+    parts = new Intl.DateTimeFormat('en-GB', { timeZone: DEFAULT_NOTIFICATION_TIMEZONE, hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23' }).formatToParts(date);
+  }
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  return part('hour') * 60 + part('minute') + part('second') / 60;
+}
+
+/**
+ * When the customer's current quiet hours end, or null if it is not quiet hours now.
+ * Quiet hours may span midnight (e.g. 22:00-08:00).
+ */
+export function getQuietHoursEnd(preferences: CustomerNotificationPreferences, now: Date = new Date()): Date | null {
+  if (!preferences.quiet_hours_start || !preferences.quiet_hours_end) return null;
+
+  const start = parseClockTime(preferences.quiet_hours_start);
+  const end = parseClockTime(preferences.quiet_hours_end);
+  if (start === end) return null;
+
+  const local = minutesIntoDay(now, preferences.timezone || DEFAULT_NOTIFICATION_TIMEZONE);
+  const quiet = start < end ? local >= start && local < end : local >= start || local < end;
+  if (!quiet) return null;
+
+  const minutesLeft = (end - local + 24 * 60) % (24 * 60);
+  return new Date(now.getTime() + Math.round(minutesLeft * 60 * 1000));
+}
+
+/**
+ * Decide what to do with a notification for this customer right now.
+ * The in-app inbox is silent, so it is never held back by quiet hours.
+ */
+export function evaluateDelivery(
+  preferences: CustomerNotificationPreferences,
+  eventType: string,
+  channel: NotificationChannel,
+  now: Date = new Date()
+): DeliveryDecision {
+  if (channel === 'in_app') {
+    return { action: 'send' };
+  }
+
+  if (TRANSACTIONAL_EVENTS.includes(eventType)) {
+    return channel === 'whatsapp' && !preferences.whatsapp_consent_at
+      ? { action: 'suppress', reason: 'Customer has not consented to WhatsApp messages' }
+      : { action: 'send' };
+  }
+
+  if (!isChannelEnabled(preferences, eventType, channel)) {
+    return {
+      action: 'suppress',
+      reason: channel === 'whatsapp' && !preferences.whatsapp_consent_at
+        ? 'Customer has not consented to WhatsApp messages'
+        : `Customer opted out of ${channel} for ${eventType}`
+    };
+  }
+
+  const quietUntil = getQuietHoursEnd(preferences, now);
+  if (quietUntil) {
+    return { action: 'defer', until: quietUntil };
+  }
+
+  return { action: 'send' };
+}
+
+/**
+ * Consent changes between two sets of preferences, for the consent ledger
+ */
+export function diffConsent(before: CustomerNotificationPreferences, after: CustomerNotificationPreferences): ConsentChange[] {
+  const changes: ConsentChange[] = [];
+
+  if (!before.whatsapp_consent_at !== !after.whatsapp_consent_at) {
+    changes.push({ channel: 'whatsapp', event_type: ALL_EVENTS, action: after.whatsapp_consent_at ? 'granted' : 'revoked' });
+  }
+
+  const eventTypes = new Set([...Object.keys(before.channel_opt_outs || {}), ...Object.keys(after.channel_opt_outs || {})]);
+  for (const eventType of eventTypes) {
+    const was = new Set(before.channel_opt_outs?.[eventType] || []);
+    const now = new Set(after.channel_opt_outs?.[eventType] || []);
+    for (const channel of OPTIONAL_CHANNELS) {
+      if (was.has(channel) && !now.has(channel)) changes.push({ channel, event_type: eventType, action: 'granted' });
+      if (!was.has(channel) && now.has(channel)) changes.push({ channel, event_type: eventType, action: 'revoked' });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,147 @@
+// definitions.ts
+// Built-in notification templates. Never edit a registered version: add a new one and submit it
+// for WhatsApp approval.
+
+import { NotificationTemplateDefinition, TemplateVariable } from './types';
+
+const CUSTOMER_NAME: TemplateVariable = { name: 'name', type: 'string', required: true, example: 'Ravi' };
+const TICKET_ID: TemplateVariable = { name: 'ticket_id', type: 'string', required: true, example: 'A1B2C3D4' };
+const ETA: TemplateVariable = { name: 'eta', type: 'string', required: false, example: '2-3 days' };
+
+// Ticket status updates sent from the technician and admin screens
+export const TICKET_STATUS_TEMPLATES: NotificationTemplateDefinition[] = [
+  {
+    key: 'ticket_pending',
+    version: 1,
+    description: 'Ticket created and awaiting diagnosis',
+    channels: ['whatsapp', 'sms'],
+    variables: [CUSTOMER_NAME, TICKET_ID],
+    translations: {
+      en: 'Hi {{name}}, your ticket {{ticket_id}} is created and marked *Pending*. We will diagnose and update you soon. — JamesTronic',
+      hi: 'नमस्ते {{name}}, आपका टिकट {{ticket_id}} बन गया है और *लंबित* है। हम जाँच करके जल्द ही आपको अपडेट देंगे। — JamesTronic',
+      te: 'నమస్తే {{name}}, మీ టికెట్ {{ticket_id}} సృష్టించబడింది, *పెండింగ్*లో ఉంది. మేము పరిశీలించి త్వరలో మీకు తెలియజేస్తాము. — JamesTronic',
+    },
+  },
+  {
+    key: 'ticket_in_progress',
+    version: 1,
+    description: 'Repair work has started',
+    channels: ['whatsapp', 'sms'],
+    variables: [CUSTOMER_NAME, TICKET_ID, ETA],
+    translations: {
+      en: 'Update for {{name}} ({{ticket_id}}): Work is *In Progress*. Estimated time: {{eta}}. — JamesTronic',
+      hi: '{{name}} ({{ticket_id}}) के लिए अपडेट: काम *जारी* है। अनुमानित समय: {{eta}}। — JamesTronic',
+      te: '{{name}} ({{ticket_id}}) కోసం అప్‌డేట్: పని *జరుగుతోంది*. అంచనా సమయం: {{eta}}. — JamesTronic',
+    },
+  },
+  {
+    key: 'ticket_part_required',
+    version: 1,
+    description: 'A part has to be sourced before the repair can continue',
+    channels: ['whatsapp', 'sms'],
+    variables: [CUSTOMER_NAME, TICKET_ID, { name: 'part', type: 'string', required: true, example: 'Screen' }, ETA],
+    translations: {
+      en: 'Hi {{name}}, for ticket {{ticket_id}} we need to source a part (*{{part}}*). Estimate: {{eta}}. — JamesTronic',
+      hi: 'नमस्ते {{name}}, टिकट {{ticket_id}} के लिए हमें एक पार्ट (*{{part}}*) मँगवाना होगा। अनुमान: {{eta}}। — JamesTronic',
+      te: 'నమస్తే {{name}}, టికెట్ {{ticket_id}} కోసం మేము ఒక విడిభాగం (*{{part}}*) తెప్పించాలి. అంచనా: {{eta}}. — JamesTronic',
+    },
+  },
+  {
+    key: 'ticket_ready',
+    version: 1,
+    description: 'Repair finished; ready for pickup or delivery',
+    channels: ['whatsapp', 'sms'],
+    variables: [CUSTOMER_NAME, TICKET_ID],
+    translations: {
+      en: 'Great news {{name}}! Ticket {{ticket_id}} is *Ready*. Please pick up / confirm delivery. — JamesTronic',
+      hi: 'खुशखबरी {{name}}! टिकट {{ticket_id}} *तैयार* है। कृपया पिकअप करें / डिलीवरी की पुष्टि करें। — JamesTronic',
+      te: 'శుభవార్త {{name}}! టికెట్ {{ticket_id}} *సిద్ధంగా* ఉంది. దయచేసి తీసుకెళ్లండి / డెలివరీని నిర్ధారించండి. — JamesTronic',
+    },
+  },
+  {
+    key: 'ticket_waiting_customer',
+    version: 1,
+    description: 'Waiting for the customer to respond',
+    channels: ['whatsapp', 'sms'],
+    variables: [CUSTOMER_NAME, TICKET_ID],
+    translations: {
+      en: 'Reminder {{name}}: Ticket {{ticket_id}} is *Waiting for your response*. Reply to proceed. — JamesTronic',
+      hi: 'रिमाइंडर {{name}}: टिकट {{ticket_id}} *आपके जवाब का इंतज़ार* कर रहा है। आगे बढ़ने के लिए जवाब दें। — JamesTronic',
+      te: 'రిమైండర్ {{name}}: టికెట్ {{ticket_id}} *మీ స్పందన కోసం వేచి ఉంది*. కొనసాగించడానికి జవాబు ఇవ్వండి. — JamesTronic',
+    },
+  },
+  {
+    key: 'ticket_failed',
+    version: 1,
+    description: 'The repair could not be completed',
+    channels: ['whatsapp', 'sms'],
+    variables: [CUSTOMER_NAME, TICKET_ID, { name: 'reason', type: 'string', required: false, example: 'Board damage' }],
+    translations: {
+      en: "Hello {{name}}, ticket {{ticket_id}} repair *failed*. Reason: {{reason}}. We'll discuss next steps. — JamesTronic",
+      hi: 'नमस्ते {{name}}, टिकट {{ticket_id}} की मरम्मत *असफल* रही। कारण: {{reason}}। हम आगे के कदमों पर बात करेंगे। — JamesTronic',
+      te: 'నమస్తే {{name}}, టికెట్ {{ticket_id}} మరమ్మత్తు *విఫలమైంది*. కారణం: {{reason}}. తదుపరి చర్యల గురించి మాట్లాడతాము. — JamesTronic',
+    },
+  },
+  {
+    key: 'ticket_cancelled',
+    version: 1,
+    description: 'Ticket cancelled',
+    channels: ['whatsapp', 'sms'],
+    variables: [CUSTOMER_NAME, TICKET_ID],
+    translations: {
+      en: 'Hi {{name}}, ticket {{ticket_id}} is *Cancelled*. If this is unexpected, reply here. — JamesTronic',
+      hi: 'नमस्ते {{name}}, टिकट {{ticket_id}} *रद्द* कर दिया गया है। अगर यह अपेक्षित नहीं था, तो यहाँ जवाब दें। — JamesTronic',
+      te: 'నమస్తే {{name}}, టికెట్ {{ticket_id}} *రద్దు* చేయబడింది. ఇది ఊహించనిది అయితే, ఇక్కడ జవాబు ఇవ్వండి. — JamesTronic',
+    },
+  },
+  {
+    key: 'ticket_status_update',
+    version: 1,
+    description: 'Fallback for statuses without a template of their own',
+    channels: ['whatsapp', 'sms'],
+    variables: [CUSTOMER_NAME, TICKET_ID, { name: 'status', type: 'string', required: true, example: 'quality_check' }],
+    translations: {
+      en: 'Hi {{name}}, your ticket {{ticket_id}} status is {{status}}. — JamesTronic',
+      hi: 'नमस्ते {{name}}, आपके टिकट {{ticket_id}} की स्थिति: {{status}}। — JamesTronic',
+      te: 'నమస్తే {{name}}, మీ టికెట్ {{ticket_id}} స్థితి: {{status}}. — JamesTronic',
+    },
+  },
+];
+
+// Customer journey messages previewed on /admin/notifications
+export const CUSTOMER_JOURNEY_TEMPLATES: NotificationTemplateDefinition[] = [
+  {
+    key: 'pickup_reminder',
+    version: 1,
+    description: 'Repaired device still waiting to be collected',
+    channels: ['whatsapp', 'sms', 'push'],
+    variables: [
+      CUSTOMER_NAME,
+      TICKET_ID,
+      { name: 'days_waiting', type: 'number', required: true, example: 3 },
+      { name: 'amount_due', type: 'currency', required: true, example: 1499 },
+    ],
+    translations: {
+      en: 'Hi {{name}}, your device ({{ticket_id}}) has been ready for {{days_waiting, plural, one {# day} other {# days}}}. Amount due: {{amount_due}}. — JamesTronic',
+      hi: 'नमस्ते {{name}}, आपका डिवाइस ({{ticket_id}}) {{days_waiting, plural, one {# दिन} other {# दिनों}}} से तैयार है। देय राशि: {{amount_due}}। — JamesTronic',
+      te: 'నమస్తే {{name}}, మీ పరికరం ({{ticket_id}}) {{days_waiting, plural, one {# రోజు} other {# రోజులుగా}}} సిద్ధంగా ఉంది. చెల్లించవలసిన మొత్తం: {{amount_due}}. — JamesTronic',
+    },
+  },
+  {
+    key: 'delivery_scheduled',
+    version: 1,
+    description: 'Delivery slot booked for the repaired device',
+    channels: ['whatsapp', 'sms', 'push'],
+    variables: [
+      CUSTOMER_NAME,
+      TICKET_ID,
+      { name: 'delivery_date', type: 'date', required: true, example: '2025-12-20T10:00:00+05:30' },
+      { name: 'tracking_url', type: 'url', required: false, example: 'https://jamestronic.com/track/A1B2C3D4' },
+    ],
+    translations: {
+      en: 'Hi {{name}}, your device ({{ticket_id}}) will be delivered on {{delivery_date}}. Track it here: {{tracking_url}} — JamesTronic',
+      hi: 'नमस्ते {{name}}, आपका डिवाइस ({{ticket_id}}) {{delivery_date}} को डिलीवर किया जाएगा। यहाँ ट्रैक करें: {{tracking_url}} — JamesTronic',
+      te: 'నమస్తే {{name}}, మీ పరికరం ({{ticket_id}}) {{delivery_date}}న డెలివరీ చేయబడుతుంది. ఇక్కడ ట్రాక్ చేయండి: {{tracking_url}} — JamesTronic',
+    },
+  },
+];
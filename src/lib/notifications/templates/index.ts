@@ -0,0 +1,206 @@
+// Versioned notification template registry
+// Template content lives in code (definitions.ts); the WhatsApp review state of each version and
+// locale lives in notification_template_approvals, so approvals never need a deploy.
+
+import type { NotificationChannel } from '../channels/types';
+import { NOTIFICATION_LANGUAGES, NotificationLanguage } from '../preferences';
+import { CUSTOMER_JOURNEY_TEMPLATES, TICKET_STATUS_TEMPLATES } from './definitions';
+import { parseTemplate, renderTemplate, templateVariableNames } from './render';
+import {
+  NotificationTemplateDefinition,
+  TemplateApproval,
+  TemplateApprovalStatus,
+  TemplateOutputFormat,
+  TemplateRenderError,
+  TemplateValue,
+  TemplateVariable
+} from './types';
+
+export * from './types';
+export { parseTemplate, renderTemplate, templateVariableNames } from './render';
+
+// Review states an approval may move to, following WhatsApp Business template review
+export const APPROVAL_TRANSITIONS: Record<TemplateApprovalStatus, TemplateApprovalStatus[]> = {
+  draft: ['pending'],
+  pending: ['approved', 'rejected'],
+  approved: ['paused', 'disabled'],
+  paused: ['approved', 'disabled'],
+  rejected: ['pending'],
+  disabled: [],
+};
+
+// Output format each channel's text is escaped for
+export const CHANNEL_OUTPUT_FORMATS: Partial<Record<NotificationChannel, TemplateOutputFormat>> = {
+  whatsapp: 'whatsapp',
+  sms: 'sms',
+};
+
+export function canTransitionApproval(from: TemplateApprovalStatus, to: TemplateApprovalStatus): boolean {
+  return APPROVAL_TRANSITIONS[from].includes(to);
+}
+
+const registry = new Map<string, NotificationTemplateDefinition[]>();
+
+/**
+ * Register a template version. Every translation must parse and may only use declared variables.
+ */
+export function registerNotificationTemplate(template: NotificationTemplateDefinition): void {
+  if (!Number.isInteger(template.version) || template.version < 1) {
+    throw new Error(`Template ${template.key} has an invalid version: ${template.version}`);
+  }
+  if (!template.translations.en) {
+    throw new Error(`Template ${template.key} v${template.version} has no English translation`);
+  }
+
+  const versions = registry.get(template.key) ?? [];
+  if (versions.some(existing => existing.version === template.version)) {
+    throw new Error(`Template ${template.key} v${template.version} is already registered`);
+  }
+
+  const declared = new Set(template.variables.map(variable => variable.name));
+  for (const [locale, body] of Object.entries(template.translations)) {
+    const undeclared = templateVariableNames(parseTemplate(body!)).filter(name => !declared.has(name));
+    if (undeclared.length > 0) {
+      throw new Error(`Template ${template.key} v${template.version} (${locale}) uses undeclared variables: ${undeclared.join(', ')}`);
+    }
+  }
+
+  registry.set(template.key, [...versions, template].sort((a, b) => b.version - a.version));
+}
+
+/**
+ * A template version; the latest if no version is given
+ */
+export function getNotificationTemplate(key: string, version?: number): NotificationTemplateDefinition | undefined {
+  const versions = registry.get(key) ?? [];
+  return version === undefined ? versions[0] : versions.find(template => template.version === version);
+}
+
+/**
+ * All versions of a template, newest first
+ */
+export function getNotificationTemplateVersions(key: string): NotificationTemplateDefinition[] {
+  return registry.get(key) ?? [];
+}
+
+/**
+ * Latest version of every template
+ */
+export function listNotificationTemplates(): NotificationTemplateDefinition[] {
+  return Array.from(registry.values()).map(versions => versions[0]);
+}
+
+/**
+ * Review state of a version in a locale ('draft' until it has been submitted)
+ */
+export function getApprovalStatus(
+  approvals: TemplateApproval[],
+  key: string,
+  version: number,
+  locale: NotificationLanguage
+): TemplateApprovalStatus {
+  return approvals.find(approval =>
+    approval.template_key === key && approval.version === version && approval.locale === locale
+  )?.status ?? 'draft';
+}
+
+/**
+ * Pick the version and locale to send. WhatsApp may only use approved translations, so it falls
+ * back to an older approved version and then to English; other channels use the latest version.
+ * @returns null if nothing may be sent on the channel
+ */
+export function selectTemplateVersion(
+  key: string,
+  locale: NotificationLanguage,
+  channel: NotificationChannel,
+  approvals: TemplateApproval[] = []
+): { template: NotificationTemplateDefinition; locale: NotificationLanguage } | null {
+  const locales: NotificationLanguage[] = locale === 'en' ? ['en'] : [locale, 'en'];
+  const versions = getNotificationTemplateVersions(key).filter(template => template.channels.includes(channel));
+
+  if (channel !== 'whatsapp') {
+    const latest = versions[0];
+    if (!latest) return null;
+    return { template: latest, locale: locales.find(candidate => latest.translations[candidate]) ?? 'en' };
+  }
+
+  for (const candidate of locales) {
+    for (const template of versions) {
+      if (template.translations[candidate] && getApprovalStatus(approvals, key, template.version, candidate) === 'approved') {
+        return { template, locale: candidate };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Render a registered template
+ * @throws TemplateRenderError if the template or its translation does not exist, or a value is missing or mistyped
+ */
+export function renderNotificationTemplate(
+  key: string,
+  values: Record<string, TemplateValue | null | undefined>,
+  options: { locale: NotificationLanguage; format?: TemplateOutputFormat; version?: number }
+): string {
+  const template = getNotificationTemplate(key, options.version);
+  if (!template) {
+    throw new TemplateRenderError(`Unknown template: ${key}${options.version ? ` v${options.version}` : ''}`);
+  }
+
+  const body = template.translations[options.locale];
+  if (!body) {
+    throw new TemplateRenderError(`Template ${key} v${template.version} has no ${options.locale} translation`);
+  }
+
+  return renderTemplate(body, values, { locale: options.locale, format: options.format, variables: template.variables });
+}
+
+/**
+ * Declarations for the variables a template body uses, taking the type and example value from
+ * registered templates that declare a variable of the same name. Lets bodies stored outside the
+ * registry be rendered with sample values.
+ */
+export function sampleTemplateVariables(source: string): TemplateVariable[] {
+  const declared = new Map<string, TemplateVariable>();
+  for (const versions of Array.from(registry.values())) {
+    for (const variable of versions.flatMap(template => template.variables)) {
+      if (!declared.has(variable.name)) declared.set(variable.name, variable);
+    }
+  }
+
+  const nodes = parseTemplate(source);
+  const counts = new Set(nodes.flatMap(node => (node.type === 'plural' ? [node.name] : [])));
+
+  return templateVariableNames(nodes).map(name =>
+    declared.get(name) ?? (counts.has(name)
+      ? { name, type: 'number', required: false, example: 2 }
+      : { name, type: 'string', required: false, example: name.replace(/_/g, ' ') })
+  );
+}
+
+/**
+ * Render every translation of a version with its example values, for previews
+ */
+export function previewNotificationTemplate(
+  template: NotificationTemplateDefinition,
+  format: TemplateOutputFormat = 'text'
+): Array<{ locale: NotificationLanguage; rendered: string | null; error: string | null }> {
+  const examples = Object.fromEntries(template.variables.map(variable => [variable.name, variable.example]));
+
+  return NOTIFICATION_LANGUAGES.map(locale => {
+    const body = template.translations[locale];
+    if (!body) return { locale, rendered: null, error: 'Not translated' };
+    try {
+      return { locale, rendered: renderTemplate(body, examples, { locale, format, variables: template.variables }), error: null };
+    } catch (error) {
+      return { locale, rendered: null, error: (error as Error).message };
+    }
+  });
+}
+
+[
+  ...TICKET_STATUS_TEMPLATES,
+  ...CUSTOMER_JOURNEY_TEMPLATES
+].forEach(registerNotificationTemplate);
@@ -0,0 +1,269 @@
+// render.ts
+// Template syntax: {{name}} inserts a variable, formatted by its declared type;
+// {{count, plural, =0 {no parts} one {# part} other {# parts}}} picks a branch with the locale's
+// plural rules, where # is the formatted count. Variable values are escaped for the output format.
+
+import type { NotificationLanguage } from '../preferences';
+import {
+  TemplateOutputFormat,
+  TemplateRenderError,
+  TemplateSyntaxError,
+  TemplateValue,
+  TemplateVariable,
+  TemplateVariableType
+} from './types';
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string }
+  | { type: 'plural'; name: string; branches: Record<string, TemplateNode[]> }
+  | { type: 'count' };
+
+export interface RenderOptions {
+  locale: NotificationLanguage;
+  format?: TemplateOutputFormat;
+  // Declared variables; without them types are inferred from the values
+  variables?: TemplateVariable[];
+}
+
+// Locales passed to Intl for number, date and plural formatting
+const INTL_LOCALES: Record<NotificationLanguage, string> = {
+  en: 'en-IN',
+  hi: 'hi-IN',
+  te: 'te-IN',
+};
+
+const NAME_PATTERN = /^\s*([A-Za-z_][A-Za-z0-9_]*)\s*/;
+const PLURAL_PATTERN = /^,\s*plural\s*,/;
+const BRANCH_PATTERN = /^\s*(=\d+|zero|one|two|few|many|other)\s*\{/;
+
+/**
+ * Parse a template into nodes
+ * @throws TemplateSyntaxError
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const [nodes] = parseNodes(source, 0, false);
+  return nodes;
+}
+
+function parseNodes(source: string, start: number, inBranch: boolean): [TemplateNode[], number] {
+  const nodes: TemplateNode[] = [];
+  let text = '';
+  let i = start;
+
+  const flush = () => {
+    if (text) nodes.push({ type: 'text', value: text });
+    text = '';
+  };
+
+  while (i < source.length) {
+    if (source.startsWith('{{', i)) {
+      flush();
+      const [node, next] = parsePlaceholder(source, i);
+      nodes.push(node);
+      i = next;
+    } else if (inBranch && source[i] === '}') {
+      break;
+    } else if (inBranch && source[i] === '#') {
+      flush();
+      nodes.push({ type: 'count' });
+      i++;
+    } else {
+      text += source[i++];
+    }
+  }
+
+  flush();
+  return [nodes, i];
+}
+
+function parsePlaceholder(source: string, start: number): [TemplateNode, number] {
+  let i = start + 2;
+
+  const name = NAME_PATTERN.exec(source.slice(i));
+  if (!name) {
+    throw new TemplateSyntaxError(`Expected a variable name at position ${i}`);
+  }
+  i += name[0].length;
+
+  if (source.startsWith('}}', i)) {
+    return [{ type: 'variable', name: name[1] }, i + 2];
+  }
+
+  const plural = PLURAL_PATTERN.exec(source.slice(i));
+  if (!plural) {
+    throw new TemplateSyntaxError(`Unterminated placeholder "${name[1]}" at position ${start}`);
+  }
+  i += plural[0].length;
+
+  const branches: Record<string, TemplateNode[]> = {};
+  while (!/^\s*\}\}/.test(source.slice(i))) {
+    const branch = BRANCH_PATTERN.exec(source.slice(i));
+    if (!branch) {
+      throw new TemplateSyntaxError(`Expected a plural branch for "${name[1]}" at position ${i}`);
+    }
+    i += branch[0].length;
+
+    const [nodes, end] = parseNodes(source, i, true);
+    if (source[end] !== '}') {
+      throw new TemplateSyntaxError(`Unterminated plural branch "${branch[1]}" for "${name[1]}"`);
+    }
+    branches[branch[1]] = nodes;
+    i = end + 1;
+  }
+
+  if (!branches.other) {
+    throw new TemplateSyntaxError(`Plural "${name[1]}" needs an "other" branch`);
+  }
+
+  return [{ type: 'plural', name: name[1], branches }, i + /^\s*\}\}/.exec(source.slice(i))![0].length];
+}
+
+/**
+ * Names of the variables a template uses
+ */
+export function templateVariableNames(nodes: TemplateNode[]): string[] {
+  const names = new Set<string>();
+  const walk = (list: TemplateNode[]) => {
+    for (const node of list) {
+      if (node.type === 'variable') names.add(node.name);
+      if (node.type === 'plural') {
+        names.add(node.name);
+        Object.values(node.branches).forEach(walk);
+      }
+    }
+  };
+  walk(nodes);
+  return Array.from(names);
+}
+
+const inferType = (value: TemplateValue): TemplateVariableType =>
+  value instanceof Date ? 'date' : typeof value === 'number' ? 'number' : 'string';
+
+function formatValue(name: string, value: TemplateValue, type: TemplateVariableType, locale: NotificationLanguage): string {
+  const intlLocale = INTL_LOCALES[locale];
+
+  switch (type) {
+    case 'number':
+    case 'currency': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new TemplateRenderError(`Variable "${name}" must be a number`);
+      }
+      return type === 'currency'
+        ? new Intl.NumberFormat(intlLocale, { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(value)
+        : new Intl.NumberFormat(intlLocale).format(value);
+    }
+    case 'date': {
+      const date = value instanceof Date ? value : new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        throw new TemplateRenderError(`Variable "${name}" must be a date`);
+      }
+      return new Intl.DateTimeFormat(intlLocale, { dateStyle: 'medium', timeZone: 'Asia/Kolkata' }).format(date);
+    }
+    case 'url': {
+      if (typeof value !== 'string' || !/^https?:\/\//.test(value)) {
+        throw new TemplateRenderError(`Variable "${name}" must be an http(s) URL`);
+      }
+      return value;
+    }
+    default:
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        throw new TemplateRenderError(`Variable "${name}" must be text`);
+      }
+      return String(value);
+  }
+}
+
+const ZERO_WIDTH_SPACE = '\u200B';
+
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+
+/**
+ * WhatsApp only reads *, _, ~ and ` as formatting where they touch a word boundary, so markers inside a
+ * word (quality_check) are left alone. The others are fenced with zero-width spaces: they still show,
+ * but can no longer open or close a style in the surrounding message.
+ */
+function neutralizeWhatsAppMarkers(value: string): string {
+  return value.replace(/[*_~`]/g, (marker, offset: number) =>
+    WORD_CHARACTER.test(value[offset - 1] ?? '') && WORD_CHARACTER.test(value[offset + 1] ?? '')
+      ? marker
+      : `${ZERO_WIDTH_SPACE}${marker}${ZERO_WIDTH_SPACE}`
+  );
+}
+
+/**
+ * Make a variable value safe for the channel. Template text itself is trusted.
+ */
+function escapeValue(value: string, type: TemplateVariableType, format: TemplateOutputFormat): string {
+  // Control characters never belong in a message
+  const cleaned = value.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '');
+
+  switch (format) {
+    case 'whatsapp': {
+      // WhatsApp rejects template parameters with newlines, tabs or more than four spaces in a row
+      const flattened = cleaned.replace(/[\r\n\t]+/g, ' ').replace(/ {4,}/g, '   ');
+      // Links must reach the customer exactly as given
+      return type === 'url' ? flattened : neutralizeWhatsAppMarkers(flattened);
+    }
+    case 'sms':
+      return cleaned.replace(/[\r\n\t]+/g, ' ');
+    default:
+      return cleaned;
+  }
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+/**
+ * Render a template with the given values
+ * @throws TemplateSyntaxError for malformed templates, TemplateRenderError for missing or mistyped values
+ */
+export function renderTemplate(source: string, values: Record<string, TemplateValue | null | undefined>, options: RenderOptions): string {
+  const format = options.format ?? 'text';
+  const declared = new Map((options.variables ?? []).map(variable => [variable.name, variable]));
+  const nodes = parseTemplate(source);
+
+  for (const variable of declared.values()) {
+    if (variable.required && (values[variable.name] === undefined || values[variable.name] === null)) {
+      throw new TemplateRenderError(`Missing required variable "${variable.name}"`);
+    }
+  }
+
+  const lookup = (name: string): TemplateValue => {
+    const value = values[name];
+    if (value === undefined || value === null) {
+      if (declared.has(name)) return '';
+      throw new TemplateRenderError(`Missing variable "${name}"`);
+    }
+    return value;
+  };
+
+  const pluralRules = new Intl.PluralRules(INTL_LOCALES[options.locale]);
+
+  const renderNodes = (list: TemplateNode[], count?: string): string => list.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'count':
+        return count ?? '#';
+      case 'variable': {
+        const value = lookup(node.name);
+        if (value === '') return '';
+        const type = declared.get(node.name)?.type ?? inferType(value);
+        return escapeValue(formatValue(node.name, value, type, options.locale), type, format);
+      }
+      case 'plural': {
+        const value = lookup(node.name);
+        if (typeof value !== 'number') {
+          throw new TemplateRenderError(`Variable "${node.name}" must be a number`);
+        }
+        const branch = node.branches[`=${value}`] ?? node.branches[pluralRules.select(value)] ?? node.branches.other;
+        return renderNodes(branch, formatValue(node.name, value, 'number', options.locale));
+      }
+    }
+  }).join('');
+
+  const text = renderNodes(nodes);
+  return format === 'html' ? escapeHtml(text).replace(/\n/g, '<br>') : text;
+}
@@ -0,0 +1,64 @@
+// types.ts
+// Versioned, multilingual notification templates
+
+import type { NotificationChannel } from '../channels/types';
+import type { NotificationLanguage } from '../preferences';
+
+export type TemplateVariableType = 'string' | 'number' | 'currency' | 'date' | 'url';
+
+export type TemplateValue = string | number | Date;
+
+export interface TemplateVariable {
+  name: string;
+  type: TemplateVariableType;
+  required: boolean;
+  example: TemplateValue; // Used for previews and WhatsApp template submission
+}
+
+/**
+ * One version of a template. The content of a version never changes: WhatsApp approves a
+ * specific body, so editing a template means registering a new version.
+ */
+export interface NotificationTemplateDefinition {
+  key: string;
+  version: number;
+  description: string;
+  channels: NotificationChannel[];
+  variables: TemplateVariable[];
+  translations: Partial<Record<NotificationLanguage, string>>; // Must include 'en'
+}
+
+/**
+ * Output the rendered text is escaped for
+ */
+export type TemplateOutputFormat = 'text' | 'whatsapp' | 'sms' | 'html';
+
+// WhatsApp Business template review states, plus 'draft' for versions not yet submitted
+export type TemplateApprovalStatus = 'draft' | 'pending' | 'approved' | 'rejected' | 'paused' | 'disabled';
+
+/**
+ * A row of notification_template_approvals: review state of one version in one locale
+ */
+export interface TemplateApproval {
+  template_key: string;
+  version: number;
+  locale: NotificationLanguage;
+  status: TemplateApprovalStatus;
+  provider_template_name: string | null;
+  rejection_reason: string | null;
+  updated_at?: string;
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+export class TemplateRenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateRenderError';
+  }
+}
@@ -0,0 +1,72 @@
+// unsubscribe.ts
+// Signed one-click unsubscribe tokens. A token names a customer and a channel; it does not expire,
+// so an old message can still be used to opt out. Server-only (NOTIFICATION_UNSUBSCRIBE_SECRET).
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getAppOrigin } from '@/lib/utils/app-origin';
+import { NOTIFICATION_CHANNELS, NotificationChannel } from './channels/types';
+
+export interface UnsubscribeTokenPayload {
+  customer_id: string;
+  channel: NotificationChannel;
+}
+
+function getUnsubscribeSecret(): string {
+  const secret = process.env.NOTIFICATION_UNSUBSCRIBE_SECRET;
+  if (!secret) {
+    throw new Error('NOTIFICATION_UNSUBSCRIBE_SECRET is not configured');
+  }
+  return secret;
+}
+
+let missingSecretReported = false;
+
+const sign = (body: string) => createHmac('sha256', getUnsubscribeSecret()).update(body).digest('base64url');
+
+/**
+ * Token of the form <customer_id>.<channel>.<signature>
+ */
+export function createUnsubscribeToken(payload: UnsubscribeTokenPayload): string {
+  const body = `${payload.customer_id}.${payload.channel}`;
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * The payload of a valid token, or null if it is malformed or the signature does not match
+ */
+export function verifyUnsubscribeToken(token: string): UnsubscribeTokenPayload | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [customerId, channel, signature] = parts;
+  if (!customerId || !NOTIFICATION_CHANNELS.includes(channel as NotificationChannel)) return null;
+
+  const expected = Buffer.from(sign(`${customerId}.${channel}`));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  return { customer_id: customerId, channel: channel as NotificationChannel };
+}
+
+/**
+ * Link that opts the customer out of one channel
+ */
+export function buildUnsubscribeUrl(payload: UnsubscribeTokenPayload): string {
+  return `${getAppOrigin()}/api/notifications/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken(payload))}`;
+}
+
+/**
+ * The opt-out link, or undefined when NOTIFICATION_UNSUBSCRIBE_SECRET is not set. A missing secret is
+ * a deployment mistake no retry can fix, so the message goes out without the link and the
+ * configuration error is logged once per process.
+ */
+export function tryBuildUnsubscribeUrl(payload: UnsubscribeTokenPayload): string | undefined {
+  if (!process.env.NOTIFICATION_UNSUBSCRIBE_SECRET) {
+    if (!missingSecretReported) {
+      missingSecretReported = true;
+      console.error('[Notifications] NOTIFICATION_UNSUBSCRIBE_SECRET is not configured; sending without unsubscribe links');
+    }
+    return undefined;
+  }
+  return buildUnsubscribeUrl(payload);
+}
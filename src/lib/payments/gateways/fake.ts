@@ -0,0 +1,115 @@
+// fake.ts
+// In-memory gateway for tests and local development (PAYMENT_GATEWAY_MODE=fake). Nothing is charged;
+// signedWebhook() builds the webhook a real gateway would send, so the whole flow can be exercised.
+
+import { randomUUID } from 'crypto';
+import { isValidWebhookSignature, signWebhookBody } from './signature';
+import {
+  PaymentEventType,
+  PaymentGateway,
+  PaymentIntent,
+  PaymentRequest,
+  PaymentWebhookEvent,
+  PaymentWebhookSignatureError,
+  RefundRequest,
+  RefundResult
+} from './types';
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-signature';
+
+export interface FakePayment {
+  request: PaymentRequest;
+  idempotencyKey: string;
+  provider_payment_id: string;
+}
+
+export interface FakeRefund {
+  request: RefundRequest;
+  idempotencyKey: string;
+  provider_refund_id: string;
+}
+
+export interface FakeWebhookBody {
+  id: string;
+  type: PaymentEventType;
+  payment_id?: string | null;
+  charge_id?: string | null;
+  refund_id?: string | null;
+  failure_reason?: string | null;
+}
+
+export class FakePaymentGateway implements PaymentGateway {
+  readonly provider = 'fake';
+  readonly payments: FakePayment[] = [];
+  readonly refunds: FakeRefund[] = [];
+  private failures: Error[] = [];
+
+  constructor(private readonly webhookSecret: string = process.env.PAYMENT_FAKE_WEBHOOK_SECRET || 'fake-webhook-secret') {}
+
+  /**
+   * Make the next gateway calls fail, in order
+   */
+  failWith(...errors: Error[]): this {
+    this.failures.push(...errors);
+    return this;
+  }
+
+  async createPayment(request: PaymentRequest, idempotencyKey: string): Promise<PaymentIntent> {
+    const failure = this.failures.shift();
+    if (failure) throw failure;
+
+    // Same key, same payment: return the earlier intent like a real provider would
+    let payment = this.payments.find(existing => existing.idempotencyKey === idempotencyKey);
+    if (!payment) {
+      payment = { request, idempotencyKey, provider_payment_id: `fake_pay_${this.payments.length + 1}` };
+      this.payments.push(payment);
+    }
+
+    return {
+      provider_payment_id: payment.provider_payment_id,
+      checkout_url: null,
+      upi_intent_url: request.method === 'upi'
+        ? `upi://pay?pa=fake@upi&am=${request.amount.toFixed(2)}&cu=${request.currency}&tr=${payment.provider_payment_id}`
+        : null,
+    };
+  }
+
+  async refund(request: RefundRequest, idempotencyKey: string): Promise<RefundResult> {
+    const failure = this.failures.shift();
+    if (failure) throw failure;
+
+    let refund = this.refunds.find(existing => existing.idempotencyKey === idempotencyKey);
+    if (!refund) {
+      refund = { request, idempotencyKey, provider_refund_id: `fake_rfnd_${this.refunds.length + 1}` };
+      this.refunds.push(refund);
+    }
+
+    return { provider_refund_id: refund.provider_refund_id };
+  }
+
+  /**
+   * A signed webhook delivery for the given event
+   */
+  signedWebhook(event: Omit<FakeWebhookBody, 'id'> & { id?: string }): { body: string; headers: Headers } {
+    const body = JSON.stringify({ ...event, id: event.id ?? `evt_${randomUUID()}` });
+    return { body, headers: new Headers({ [FAKE_SIGNATURE_HEADER]: signWebhookBody(body, this.webhookSecret) }) };
+  }
+
+  parseWebhook(rawBody: string, headers: Headers): PaymentWebhookEvent | null {
+    if (!isValidWebhookSignature(rawBody, headers.get(FAKE_SIGNATURE_HEADER), this.webhookSecret)) {
+      throw new PaymentWebhookSignatureError();
+    }
+
+    const body = JSON.parse(rawBody) as FakeWebhookBody;
+    return {
+      event_id: body.id,
+      type: body.type,
+      provider_payment_id: body.payment_id ?? null,
+      // A fake payment is captured under its own id
+      provider_charge_id: body.charge_id ?? body.payment_id ?? null,
+      provider_refund_id: body.refund_id ?? null,
+      failure_reason: body.failure_reason ?? null,
+      payload: body,
+    };
+  }
+}
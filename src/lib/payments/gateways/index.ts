@@ -0,0 +1,36 @@
+/**
+ * Payment gateways
+ *
+ * Each gateway implements PaymentGateway; the ticket payment ledger only talks to that interface
+ * and settles entries from the gateway's signed webhooks. Razorpay handles UPI and cards; the
+ * in-memory fake stands in for it in tests and local development.
+ */
+
+import { PaymentGateway } from './types';
+import { RazorpayGateway } from './razorpay';
+import { FakePaymentGateway } from './fake';
+
+export * from './types';
+export { RazorpayGateway } from './razorpay';
+export { FakePaymentGateway, FAKE_SIGNATURE_HEADER, type FakePayment, type FakeRefund, type FakeWebhookBody } from './fake';
+export { signWebhookBody, isValidWebhookSignature } from './signature';
+
+/**
+ * The configured gateway. PAYMENT_GATEWAY_MODE=fake swaps in the in-memory fake so no money
+ * moves during local development.
+ */
+export function createPaymentGateway(): PaymentGateway {
+  if (process.env.PAYMENT_GATEWAY_MODE === 'fake') {
+    return new FakePaymentGateway();
+  }
+
+  return new RazorpayGateway();
+}
+
+/**
+ * The gateway that sends webhooks to /api/payments/webhooks/<provider>, or null if none is configured
+ */
+export function getPaymentGatewayByProvider(provider: string): PaymentGateway | null {
+  const gateway = createPaymentGateway();
+  return gateway.provider === provider ? gateway : null;
+}
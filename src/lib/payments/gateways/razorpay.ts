@@ -0,0 +1,120 @@
+// razorpay.ts
+// UPI and card collections through Razorpay orders (RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET,
+// RAZORPAY_WEBHOOK_SECRET). The customer pays in Razorpay Checkout against the order id.
+
+import { isValidWebhookSignature } from './signature';
+import {
+  httpGatewayError,
+  PaymentEventType,
+  PaymentGateway,
+  PaymentGatewayError,
+  PaymentIntent,
+  PaymentRequest,
+  PaymentWebhookEvent,
+  PaymentWebhookSignatureError,
+  RefundRequest,
+  RefundResult
+} from './types';
+
+const RAZORPAY_API = 'https://api.razorpay.com/v1';
+
+const EVENT_TYPES: Record<string, PaymentEventType> = {
+  'payment.captured': 'payment.succeeded',
+  'payment.failed': 'payment.failed',
+  'refund.processed': 'refund.succeeded',
+  'refund.failed': 'refund.failed',
+};
+
+const toPaise = (amount: number) => Math.round(amount * 100);
+
+export class RazorpayGateway implements PaymentGateway {
+  readonly provider = 'razorpay';
+
+  private async post(path: string, body: Record<string, unknown>): Promise<any> {
+    const keyId = process.env.RAZORPAY_KEY_ID;
+    const keySecret = process.env.RAZORPAY_KEY_SECRET;
+
+    if (!keyId || !keySecret) {
+      throw new PaymentGatewayError('Razorpay configuration is missing', false);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${RAZORPAY_API}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Basic ${Buffer.from(`${keyId}:${keySecret}`).toString('base64')}`,
+        },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new PaymentGatewayError(`Razorpay request failed: ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+      throw httpGatewayError('Razorpay', response.status, await response.text().catch(() => ''));
+    }
+
+    return response.json();
+  }
+
+  async createPayment(request: PaymentRequest, idempotencyKey: string): Promise<PaymentIntent> {
+    // Razorpay de-duplicates nothing on its own; the receipt carries our key for reconciliation
+    const order = await this.post('/orders', {
+      amount: toPaise(request.amount),
+      currency: request.currency,
+      receipt: idempotencyKey.slice(0, 40),
+      notes: {
+        ledger_entry_id: request.ledger_entry_id,
+        ticket_id: request.ticket_id,
+        method: request.method,
+      },
+    });
+
+    return { provider_payment_id: order.id, checkout_url: null, upi_intent_url: null };
+  }
+
+  async refund(request: RefundRequest, idempotencyKey: string): Promise<RefundResult> {
+    const refund = await this.post(`/payments/${encodeURIComponent(request.provider_charge_id)}/refund`, {
+      amount: toPaise(request.amount),
+      speed: 'normal',
+      receipt: idempotencyKey.slice(0, 40),
+      notes: {
+        ledger_entry_id: request.ledger_entry_id,
+        reason: request.reason.slice(0, 256),
+      },
+    });
+
+    return { provider_refund_id: refund.id };
+  }
+
+  parseWebhook(rawBody: string, headers: Headers): PaymentWebhookEvent | null {
+    const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+    if (!secret) {
+      throw new Error('RAZORPAY_WEBHOOK_SECRET is not configured');
+    }
+
+    if (!isValidWebhookSignature(rawBody, headers.get('x-razorpay-signature'), secret)) {
+      throw new PaymentWebhookSignatureError();
+    }
+
+    const body = JSON.parse(rawBody);
+    const type = EVENT_TYPES[body.event];
+    if (!type) return null;
+
+    const payment = body.payload?.payment?.entity;
+    const refund = body.payload?.refund?.entity;
+
+    return {
+      // Razorpay retries a delivery with the same event id header
+      event_id: headers.get('x-razorpay-event-id') || `${body.event}:${refund?.id ?? payment?.id}`,
+      type,
+      provider_payment_id: payment?.order_id ?? null,
+      provider_charge_id: payment?.id ?? refund?.payment_id ?? null,
+      provider_refund_id: refund?.id ?? null,
+      failure_reason: payment?.error_description ?? null,
+      payload: body,
+    };
+  }
+}
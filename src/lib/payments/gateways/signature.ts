@@ -0,0 +1,16 @@
+// signature.ts
+// HMAC-SHA256 webhook signatures, hex encoded, compared in constant time
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export function signWebhookBody(rawBody: string, secret: string): string {
+  return createHmac('sha256', secret).update(rawBody).digest('hex');
+}
+
+export function isValidWebhookSignature(rawBody: string, signature: string | null, secret: string): boolean {
+  if (!signature) return false;
+
+  const expected = Buffer.from(signWebhookBody(rawBody, secret));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,90 @@
+// types.ts
+// Contract between the ticket payment ledger and the payment gateways (UPI and cards)
+
+export type PaymentMethod = 'upi' | 'card';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['upi', 'card'];
+
+/**
+ * A collection requested for one ledger entry. Amounts are in rupees; gateways convert to their own unit.
+ */
+export interface PaymentRequest {
+  ledger_entry_id: string;
+  ticket_id: string;
+  amount: number;
+  currency: string;
+  method: PaymentMethod;
+  description: string;
+  customer_phone_e164?: string | null;
+}
+
+export interface PaymentIntent {
+  provider_payment_id: string; // Reference the gateway's webhooks will carry (e.g. an order id)
+  checkout_url?: string | null;
+  upi_intent_url?: string | null;
+}
+
+export interface RefundRequest {
+  ledger_entry_id: string;
+  provider_charge_id: string; // The captured payment being refunded
+  amount: number;
+  reason: string;
+}
+
+export interface RefundResult {
+  provider_refund_id: string;
+}
+
+export type PaymentEventType = 'payment.succeeded' | 'payment.failed' | 'refund.succeeded' | 'refund.failed';
+
+/**
+ * A verified gateway webhook, normalized across providers
+ */
+export interface PaymentWebhookEvent {
+  event_id: string;
+  type: PaymentEventType;
+  provider_payment_id: string | null;
+  provider_charge_id: string | null;
+  provider_refund_id: string | null;
+  failure_reason: string | null;
+  payload: unknown;
+}
+
+export interface PaymentGateway {
+  readonly provider: string;
+  /**
+   * Start a collection. The idempotency key is stable for the ledger entry and must be
+   * forwarded to the provider when it supports one. Throws PaymentGatewayError on failure.
+   */
+  createPayment(request: PaymentRequest, idempotencyKey: string): Promise<PaymentIntent>;
+  /**
+   * Refund part or all of a captured payment. Throws PaymentGatewayError on failure.
+   */
+  refund(request: RefundRequest, idempotencyKey: string): Promise<RefundResult>;
+  /**
+   * Check the webhook signature and normalize the body. Returns null for events the ledger
+   * does not track; throws PaymentWebhookSignatureError when the signature does not match.
+   */
+  parseWebhook(rawBody: string, headers: Headers): PaymentWebhookEvent | null;
+}
+
+export class PaymentGatewayError extends Error {
+  constructor(message: string, public readonly retryable: boolean = true) {
+    super(message);
+    this.name = 'PaymentGatewayError';
+  }
+}
+
+export class PaymentWebhookSignatureError extends Error {
+  constructor(message = 'Invalid webhook signature') {
+    super(message);
+    this.name = 'PaymentWebhookSignatureError';
+  }
+}
+
+/**
+ * Classify an HTTP failure: rate limits and server errors are worth retrying, other 4xx are not
+ */
+export function httpGatewayError(provider: string, status: number, body: string): PaymentGatewayError {
+  return new PaymentGatewayError(`${provider} API error: ${status} - ${body.slice(0, 200)}`, status === 429 || status >= 500);
+}
@@ -0,0 +1,174 @@
+// ledger.ts
+// Ticket payment ledger arithmetic: what has been paid, refunded and is still due, and how a refund
+// is split across the payments it returns. Mirrors the rows in ticket_payment_entries.
+
+import type { PaymentEventType, PaymentMethod } from './gateways/types';
+
+export type PaymentEntryKind = 'advance' | 'balance' | 'refund';
+
+export type PaymentEntryStatus = 'pending' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface TicketPaymentEntry {
+  id: string;
+  ticket_id: string;
+  customer_id: string | null;
+  kind: PaymentEntryKind;
+  method: PaymentMethod | null;
+  amount: number;
+  currency: string;
+  status: PaymentEntryStatus;
+  provider: string;
+  provider_payment_id: string | null;
+  provider_charge_id: string | null;
+  provider_refund_id: string | null;
+  checkout_url: string | null;
+  upi_intent_url: string | null;
+  refund_of: string | null;
+  quotation_id: string | null;
+  reason: string | null;
+  failure_reason: string | null;
+  idempotency_key: string;
+  created_at: string;
+  settled_at: string | null;
+}
+
+export interface TicketLedgerSummary {
+  amount_due: number; // Approved quotation total, 0 while the ticket has none
+  paid: number;
+  refunded: number;
+  pending_payments: number;
+  pending_refunds: number;
+  net_paid: number;
+  balance_due: number;
+  refundable: number; // Paid and not yet refunded or being refunded
+}
+
+export interface RefundAllocation {
+  refund_of: string;
+  provider_charge_id: string;
+  method: PaymentMethod | null;
+  amount: number;
+}
+
+/** Share of the approved quotation collected as an advance when no amount is given */
+export const DEFAULT_ADVANCE_PERCENT = 30;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const sum = (entries: TicketPaymentEntry[]) => round2(entries.reduce((total, entry) => total + Number(entry.amount), 0));
+
+const isPayment = (entry: TicketPaymentEntry) => entry.kind !== 'refund';
+
+export function summarizeTicketLedger(entries: TicketPaymentEntry[], amountDue: number): TicketLedgerSummary {
+  const paid = sum(entries.filter(entry => isPayment(entry) && entry.status === 'succeeded'));
+  const refunded = sum(entries.filter(entry => entry.kind === 'refund' && entry.status === 'succeeded'));
+  const pendingPayments = sum(entries.filter(entry => isPayment(entry) && entry.status === 'pending'));
+  const pendingRefunds = sum(entries.filter(entry => entry.kind === 'refund' && entry.status === 'pending'));
+  const netPaid = round2(paid - refunded);
+
+  return {
+    amount_due: round2(amountDue),
+    paid,
+    refunded,
+    pending_payments: pendingPayments,
+    pending_refunds: pendingRefunds,
+    net_paid: netPaid,
+    balance_due: Math.max(0, round2(amountDue - netPaid)),
+    refundable: Math.max(0, round2(paid - refunded - pendingRefunds)),
+  };
+}
+
+/**
+ * The status a verified gateway event settles an entry at, or null if it leaves the entry as it is.
+ * Only pending entries settle, except that a failed payment is not final: the customer can retry against
+ * the same order, so a later capture still marks it succeeded. apply_ticket_payment_event() applies this.
+ */
+export function settledStatus(
+  entry: Pick<TicketPaymentEntry, 'kind' | 'status'>,
+  eventType: PaymentEventType
+): PaymentEntryStatus | null {
+  const status: PaymentEntryStatus = eventType === 'payment.succeeded' || eventType === 'refund.succeeded' ? 'succeeded' : 'failed';
+
+  if (entry.status === 'pending') return status;
+  if (entry.kind !== 'refund' && entry.status === 'failed' && status === 'succeeded') return status;
+  return null;
+}
+
+/**
+ * The advance to collect against an approved quotation, rounded up to the rupee
+ */
+export function defaultAdvanceAmount(amountDue: number, percent: number = DEFAULT_ADVANCE_PERCENT): number {
+  return Math.min(amountDue, Math.ceil((amountDue * percent) / 100));
+}
+
+/**
+ * Why a new collection of this amount cannot be started, or null if it can. Partial payments are
+ * fine; what is already paid or in flight may not exceed the approved quotation.
+ * open_ticket_payment_entry() applies these checks under the ticket row lock.
+ */
+export function paymentAmountError(
+  kind: Exclude<PaymentEntryKind, 'refund'>,
+  amount: number,
+  summary: TicketLedgerSummary
+): string | null {
+  if (!Number.isFinite(amount) || amount <= 0) return 'invalid_amount';
+  if (round2(amount) !== amount) return 'invalid_amount';
+
+  if (summary.amount_due <= 0) {
+    // Before there is a quotation only an advance of an explicit amount can be taken
+    return kind === 'balance' ? 'no_approved_quotation' : null;
+  }
+
+  const outstanding = round2(summary.balance_due - summary.pending_payments);
+  if (outstanding <= 0) return 'nothing_due';
+  if (amount > outstanding) return 'amount_exceeds_balance';
+  return null;
+}
+
+/**
+ * Split a refund across the ticket's captured payments, newest first, never returning more of a
+ * payment than was taken minus what has already been refunded or is being refunded from it.
+ * Throws if the ledger cannot cover the amount. open_ticket_refund_entries() allocates the same way
+ * under the ticket row lock.
+ */
+export function allocateRefund(entries: TicketPaymentEntry[], amount: number): RefundAllocation[] {
+  if (!Number.isFinite(amount) || amount <= 0 || round2(amount) !== amount) {
+    throw new Error('invalid_amount');
+  }
+
+  const refundedFrom = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.kind === 'refund' && entry.refund_of && (entry.status === 'succeeded' || entry.status === 'pending')) {
+      refundedFrom.set(entry.refund_of, round2((refundedFrom.get(entry.refund_of) ?? 0) + Number(entry.amount)));
+    }
+  }
+
+  const payments = entries
+    .filter(entry => isPayment(entry) && entry.status === 'succeeded' && entry.provider_charge_id)
+    .sort((a, b) => (b.settled_at ?? b.created_at).localeCompare(a.settled_at ?? a.created_at));
+
+  const allocations: RefundAllocation[] = [];
+  let remaining = amount;
+
+  for (const payment of payments) {
+    if (remaining <= 0) break;
+
+    const available = round2(Number(payment.amount) - (refundedFrom.get(payment.id) ?? 0));
+    if (available <= 0) continue;
+
+    const share = Math.min(available, remaining);
+    allocations.push({
+      refund_of: payment.id,
+      provider_charge_id: payment.provider_charge_id!,
+      method: payment.method,
+      amount: share,
+    });
+    remaining = round2(remaining - share);
+  }
+
+  if (remaining > 0) {
+    throw new Error('refund_exceeds_refundable');
+  }
+
+  return allocations;
+}
@@ -1,4 +1,7 @@
 import { SupabaseClient } from '@supabase/supabase-js';
+import { SimulationBaseRate, SimulationGuardrail, SimulationReport } from './simulator';
+import { PricingSchedule, PricingScheduleHealth, TimelineRuleset } from './schedules';
+import { PromoCampaign, PromoCampaignInput } from './promotions';
 
 /*
   PricingClient
@@ -11,6 +14,33 @@ import { SupabaseClient } from '@supabase/supabase-js';
 
 const BASE_URL = '/api/pricing';
 
+export interface RulesetSimulationResponse {
+    ruleset: { id: string; version: string };
+    days: number;
+    city_id: string | null;
+    truncated: boolean;
+    report: SimulationReport;
+}
+
+export interface RulesetSchedulesResponse {
+    data: PricingSchedule[];
+    rulesets: TimelineRuleset[];
+}
+
+export interface SchedulePricingChangePayload {
+    kind: 'activation' | 'override';
+    ruleset_id?: string;
+    city_id?: string;
+    service_code?: string;
+    rules_patch?: Record<string, unknown>;
+    priority?: number;
+    starts_at: string;
+    ends_at?: string | null;
+    reason: string;
+    max_guardrail_breach_pct?: number | null;
+    min_acceptance_pct?: number | null;
+}
+
 export const PricingClient = {
     // --- Overview ---
     getOverviewStats: async () => {
@@ -109,6 +139,109 @@ export const PricingClient = {
         return res.json();
     },
 
+    simulateRuleset: async (payload: {
+        ruleset_id: string;
+        days: number;
+        city_id?: string;
+        base_rates?: SimulationBaseRate[];
+        guardrails?: SimulationGuardrail[];
+    }): Promise<RulesetSimulationResponse> => {
+        const res = await fetch(`${BASE_URL}/rulesets/simulate`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload)
+        });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Failed to simulate ruleset');
+        }
+        return res.json();
+    },
+
+    getRulesetSchedules: async (): Promise<RulesetSchedulesResponse> => {
+        const res = await fetch(`${BASE_URL}/rulesets/schedules`);
+        if (!res.ok) throw new Error('Failed to fetch ruleset schedules');
+        return res.json();
+    },
+
+    schedulePricingChange: async (payload: SchedulePricingChangePayload): Promise<{ data: PricingSchedule }> => {
+        const res = await fetch(`${BASE_URL}/rulesets/schedules`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload)
+        });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Failed to schedule pricing change');
+        }
+        return res.json();
+    },
+
+    cancelPricingSchedule: async (id: string, reason: string) => {
+        const res = await fetch(`${BASE_URL}/rulesets/schedules/${id}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ action: 'cancel', reason })
+        });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Failed to cancel schedule');
+        }
+        return res.json();
+    },
+
+    rollbackPricingSchedule: async (id: string, reason: string): Promise<{ data: PricingScheduleHealth }> => {
+        const res = await fetch(`${BASE_URL}/rulesets/schedules/${id}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ action: 'rollback', reason })
+        });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Failed to roll back');
+        }
+        return res.json();
+    },
+
+    // --- Promotions ---
+    getPromotions: async (): Promise<{ data: (PromoCampaign & { redeemed: number; discount_total: number })[] }> => {
+        const res = await fetch(`${BASE_URL}/promotions`);
+        if (!res.ok) throw new Error('Failed to fetch promotions');
+        return res.json();
+    },
+
+    createPromotion: async (data: PromoCampaignInput): Promise<{ data: PromoCampaign }> => {
+        const res = await fetch(`${BASE_URL}/promotions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(data)
+        });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.fields ? Object.values(err.fields).join('. ') : err.error || 'Failed to create promotion');
+        }
+        return res.json();
+    },
+
+    updatePromotion: async (id: string, data: PromoCampaignInput & { reason: string }): Promise<{ data: PromoCampaign }> => {
+        const res = await fetch(`${BASE_URL}/promotions/${id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(data)
+        });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.fields ? Object.values(err.fields).join('. ') : err.error || 'Failed to update promotion');
+        }
+        return res.json();
+    },
+
+    getPromoRedemptions: async (params: URLSearchParams) => {
+        const res = await fetch(`${BASE_URL}/promotions/redemptions?${params.toString()}`);
+        if (!res.ok) throw new Error('Failed to fetch redemptions');
+        return res.json();
+    },
+
     // --- Quotes ---
     simulateQuote: async (payload: any) => {
         // Determine path based on if it's a real quote or simulation
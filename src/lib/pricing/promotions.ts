@@ -0,0 +1,331 @@
+/*
+  Promotions
+  - Promo and referral campaigns applied to pricing quotes (see pricing_promo_campaigns).
+  - A campaign has eligibility rules (cities, services, device brands, first-time customers), usage caps
+    per customer and overall, a stacking rule and a validity window.
+  - Referral campaigns are redeemed with a customer's personal referral code; the referrer is credited
+    once the referee's ticket completes.
+  - evaluate_pricing_promotions in the database is the source of truth at quote time; these helpers
+    mirror it for validation and previews in the pricing console.
+*/
+
+export type PromoCampaignKind = 'promo' | 'referral';
+export type PromoDiscountType = 'percent' | 'flat';
+/** 'exclusive' campaigns cannot be combined with any other; 'stackable' ones add up */
+export type PromoStacking = 'exclusive' | 'stackable';
+
+export interface PromoCampaign {
+    id: string;
+    code: string;
+    name: string;
+    description?: string | null;
+    kind: PromoCampaignKind;
+    discount_type: PromoDiscountType;
+    discount_value: number;
+    /** Cap on a percent discount, in currency */
+    max_discount_amount: number | null;
+    /** Eligibility; null or empty means any */
+    city_ids: string[] | null;
+    service_codes: string[] | null;
+    device_brands: string[] | null;
+    first_time_only: boolean;
+    max_redemptions: number | null;
+    max_redemptions_per_customer: number | null;
+    stacking: PromoStacking;
+    /** Credited to the referrer when the referee's ticket completes (referral campaigns) */
+    referrer_reward_amount: number | null;
+    starts_at: string;
+    expires_at: string;
+    is_active: boolean;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export interface PromoContext {
+    city_id: string;
+    service_code: string;
+    customer_id: string | null;
+    device_brand?: string | null;
+    /** Customer has no completed ticket or accepted quote yet */
+    is_first_time: boolean;
+    /** Quote subtotal the discount is taken from */
+    subtotal: number;
+}
+
+export interface PromoUsage {
+    /** Redeemed plus reserved on live quotes */
+    total: number;
+    by_customer: number;
+}
+
+export type PromoRejectionReason =
+    | 'not_found'
+    | 'inactive'
+    | 'not_started'
+    | 'expired'
+    | 'city_not_eligible'
+    | 'service_not_eligible'
+    | 'brand_not_eligible'
+    | 'customer_required'
+    | 'not_first_time'
+    | 'self_referral'
+    | 'global_cap_reached'
+    | 'customer_cap_reached'
+    | 'not_stackable';
+
+export interface PromoEvaluation {
+    code: string;
+    campaign_id: string | null;
+    eligible: boolean;
+    reason: PromoRejectionReason | null;
+    discount_amount: number;
+    stacking: PromoStacking | null;
+    /** Owner of the referral code, for referral campaigns */
+    referrer_customer_id?: string | null;
+}
+
+export interface PromoApplication {
+    discount_amount: number;
+    applied: PromoEvaluation[];
+    rejected: PromoEvaluation[];
+}
+
+export const PROMO_REJECTION_MESSAGES: Record<PromoRejectionReason, string> = {
+    not_found: 'This code does not exist',
+    inactive: 'This promotion is no longer running',
+    not_started: 'This promotion has not started yet',
+    expired: 'This promotion has expired',
+    city_not_eligible: 'This promotion is not available in your city',
+    service_not_eligible: 'This promotion does not apply to this service',
+    brand_not_eligible: 'This promotion does not apply to this device brand',
+    customer_required: 'Sign in to use this promotion',
+    not_first_time: 'This promotion is for first-time customers only',
+    self_referral: 'You cannot use your own referral code',
+    global_cap_reached: 'This promotion has been fully redeemed',
+    customer_cap_reached: 'You have already used this promotion',
+    not_stackable: 'This code cannot be combined with the other codes',
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function normalizePromoCode(code: string): string {
+    return code.trim().toUpperCase();
+}
+
+/** One or more codes from a string ("DIWALI, FIRST50") or an array, normalized and de-duplicated */
+export function parsePromoCodes(input: string | string[] | null | undefined): string[] {
+    if (!input) return [];
+    const raw = Array.isArray(input) ? input : input.split(/[\s,]+/);
+    return Array.from(new Set(raw.map(normalizePromoCode).filter(Boolean)));
+}
+
+const matches = (allowed: string[] | null, value: string | null | undefined, caseInsensitive = false) => {
+    if (!allowed || allowed.length === 0) return true;
+    if (!value) return false;
+    return caseInsensitive
+        ? allowed.some(item => item.toLowerCase() === value.toLowerCase())
+        : allowed.includes(value);
+};
+
+/** Discount a campaign gives on a subtotal, never more than the subtotal */
+export function promoDiscount(campaign: Pick<PromoCampaign, 'discount_type' | 'discount_value' | 'max_discount_amount'>, subtotal: number): number {
+    let discount = campaign.discount_type === 'percent'
+        ? subtotal * campaign.discount_value / 100
+        : campaign.discount_value;
+    if (campaign.max_discount_amount != null) discount = Math.min(discount, campaign.max_discount_amount);
+    return round2(Math.max(0, Math.min(discount, subtotal)));
+}
+
+/**
+ * Check one campaign against a quote. Checks run in a fixed order so the first failing rule is the
+ * reason reported: state, window, scope, customer, then caps.
+ */
+export function evaluatePromoCampaign(
+    code: string,
+    campaign: PromoCampaign | null,
+    context: PromoContext,
+    usage: PromoUsage,
+    options: { referrerCustomerId?: string | null; now?: Date } = {}
+): PromoEvaluation {
+    const now = options.now ?? new Date();
+    const reject = (reason: PromoRejectionReason): PromoEvaluation => ({
+        code,
+        campaign_id: campaign?.id ?? null,
+        eligible: false,
+        reason,
+        discount_amount: 0,
+        stacking: campaign?.stacking ?? null,
+    });
+
+    if (!campaign) return reject('not_found');
+    if (!campaign.is_active) return reject('inactive');
+    if (new Date(campaign.starts_at) > now) return reject('not_started');
+    if (new Date(campaign.expires_at) <= now) return reject('expired');
+    if (!matches(campaign.city_ids, context.city_id)) return reject('city_not_eligible');
+    if (!matches(campaign.service_codes, context.service_code)) return reject('service_not_eligible');
+    if (!matches(campaign.device_brands, context.device_brand, true)) return reject('brand_not_eligible');
+
+    const needsCustomer = campaign.first_time_only || campaign.max_redemptions_per_customer != null || campaign.kind === 'referral';
+    if (needsCustomer && !context.customer_id) return reject('customer_required');
+    if (campaign.first_time_only && !context.is_first_time) return reject('not_first_time');
+    if (options.referrerCustomerId && options.referrerCustomerId === context.customer_id) return reject('self_referral');
+
+    if (campaign.max_redemptions != null && usage.total >= campaign.max_redemptions) return reject('global_cap_reached');
+    if (campaign.max_redemptions_per_customer != null && usage.by_customer >= campaign.max_redemptions_per_customer) {
+        return reject('customer_cap_reached');
+    }
+
+    return {
+        code,
+        campaign_id: campaign.id,
+        eligible: true,
+        reason: null,
+        discount_amount: promoDiscount(campaign, context.subtotal),
+        stacking: campaign.stacking,
+        referrer_customer_id: options.referrerCustomerId ?? null,
+    };
+}
+
+/**
+ * Pick the codes that apply together: either the best exclusive code on its own, or all stackable
+ * codes combined, whichever saves more (stackable wins a tie). The total never exceeds the subtotal.
+ * A code is applied at most once per campaign.
+ */
+export function applyPromoStacking(evaluations: PromoEvaluation[], subtotal: number): PromoApplication {
+    const rejected = evaluations.filter(evaluation => !evaluation.eligible);
+    const seen = new Set<string>();
+    const eligible = evaluations.filter(evaluation => {
+        if (!evaluation.eligible || !evaluation.campaign_id) return false;
+        if (seen.has(evaluation.campaign_id)) {
+            rejected.push({ ...evaluation, eligible: false, reason: 'not_stackable', discount_amount: 0 });
+            return false;
+        }
+        seen.add(evaluation.campaign_id);
+        return true;
+    });
+
+    const stackable = eligible.filter(evaluation => evaluation.stacking === 'stackable');
+    const exclusive = eligible
+        .filter(evaluation => evaluation.stacking === 'exclusive')
+        .sort((a, b) => b.discount_amount - a.discount_amount);
+
+    const stackableTotal = stackable.reduce((sum, evaluation) => sum + evaluation.discount_amount, 0);
+    const bestExclusive = exclusive[0];
+    const useExclusive = !!bestExclusive && bestExclusive.discount_amount > stackableTotal;
+
+    const applied = useExclusive ? [bestExclusive] : stackable;
+    const dropped = useExclusive ? [...exclusive.slice(1), ...stackable] : exclusive;
+    for (const evaluation of dropped) {
+        rejected.push({ ...evaluation, eligible: false, reason: 'not_stackable', discount_amount: 0 });
+    }
+
+    const total = applied.reduce((sum, evaluation) => sum + evaluation.discount_amount, 0);
+    return {
+        discount_amount: round2(Math.min(total, subtotal)),
+        applied,
+        rejected,
+    };
+}
+
+export interface PromoCampaignInput {
+    code?: string;
+    name?: string;
+    description?: string | null;
+    kind?: PromoCampaignKind;
+    discount_type?: PromoDiscountType;
+    discount_value?: number;
+    max_discount_amount?: number | null;
+    city_ids?: string[] | null;
+    service_codes?: string[] | null;
+    device_brands?: string[] | null;
+    first_time_only?: boolean;
+    max_redemptions?: number | null;
+    max_redemptions_per_customer?: number | null;
+    stacking?: PromoStacking;
+    referrer_reward_amount?: number | null;
+    starts_at?: string;
+    expires_at?: string;
+    is_active?: boolean;
+}
+
+/** Field errors for a new or updated campaign (merged with the current one for updates) */
+export function validatePromoCampaign(input: PromoCampaignInput): Record<string, string> {
+    const errors: Record<string, string> = {};
+    const positiveOrNull = (value: number | null | undefined) => value == null || (Number.isFinite(value) && value > 0);
+
+    if (!input.code || !/^[A-Z0-9][A-Z0-9_-]{2,31}$/.test(input.code)) {
+        errors.code = 'Use 3-32 letters, digits, dashes or underscores';
+    }
+    if (!input.name?.trim()) errors.name = 'Name is required';
+    if (input.kind !== 'promo' && input.kind !== 'referral') errors.kind = "Use 'promo' or 'referral'";
+    if (input.discount_type !== 'percent' && input.discount_type !== 'flat') {
+        errors.discount_type = "Use 'percent' or 'flat'";
+    }
+    if (input.discount_value == null || !Number.isFinite(input.discount_value) || input.discount_value <= 0) {
+        errors.discount_value = 'Discount must be greater than zero';
+    } else if (input.discount_type === 'percent' && input.discount_value > 100) {
+        errors.discount_value = 'A percent discount cannot exceed 100';
+    }
+    if (!positiveOrNull(input.max_discount_amount)) errors.max_discount_amount = 'Must be greater than zero';
+    if (!positiveOrNull(input.max_redemptions)) errors.max_redemptions = 'Must be greater than zero';
+    if (!positiveOrNull(input.max_redemptions_per_customer)) {
+        errors.max_redemptions_per_customer = 'Must be greater than zero';
+    }
+    if (input.stacking !== 'exclusive' && input.stacking !== 'stackable') {
+        errors.stacking = "Use 'exclusive' or 'stackable'";
+    }
+    if (input.kind === 'referral' && !(input.referrer_reward_amount != null && input.referrer_reward_amount > 0)) {
+        errors.referrer_reward_amount = 'Referral campaigns need a referrer reward';
+    }
+
+    const startsAt = input.starts_at ? new Date(input.starts_at) : null;
+    const expiresAt = input.expires_at ? new Date(input.expires_at) : null;
+    if (!startsAt || isNaN(startsAt.getTime())) errors.starts_at = 'Start date is required';
+    if (!expiresAt || isNaN(expiresAt.getTime())) {
+        errors.expires_at = 'Expiry date is required';
+    } else if (startsAt && expiresAt <= startsAt) {
+        errors.expires_at = 'Expiry must be after the start';
+    }
+
+    return errors;
+}
+
+const optionalList = (value: unknown, upper = false): string[] | null => {
+    const items = (Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [])
+        .map(item => String(item).trim())
+        .filter(Boolean)
+        .map(item => (upper ? item.toUpperCase() : item));
+    return items.length ? Array.from(new Set(items)) : null;
+};
+
+const optionalAmount = (value: unknown): number | null => {
+    if (value === undefined || value === null || value === '') return null;
+    const num = Number(value);
+    return Number.isFinite(num) ? num : NaN;
+};
+
+/** Campaign fields from a request body; only fields present in the body are set */
+export function parsePromoCampaignInput(body: Record<string, unknown>): PromoCampaignInput {
+    const input: PromoCampaignInput = {};
+    if ('code' in body) input.code = normalizePromoCode(String(body.code ?? ''));
+    if ('name' in body) input.name = String(body.name ?? '').trim();
+    if ('description' in body) input.description = body.description ? String(body.description) : null;
+    if ('kind' in body) input.kind = body.kind as PromoCampaignKind;
+    if ('discount_type' in body) input.discount_type = body.discount_type as PromoDiscountType;
+    if ('discount_value' in body) input.discount_value = Number(body.discount_value);
+    if ('max_discount_amount' in body) input.max_discount_amount = optionalAmount(body.max_discount_amount);
+    if ('city_ids' in body) input.city_ids = optionalList(body.city_ids);
+    if ('service_codes' in body) input.service_codes = optionalList(body.service_codes, true);
+    if ('device_brands' in body) input.device_brands = optionalList(body.device_brands);
+    if ('first_time_only' in body) input.first_time_only = body.first_time_only === true;
+    if ('max_redemptions' in body) input.max_redemptions = optionalAmount(body.max_redemptions);
+    if ('max_redemptions_per_customer' in body) {
+        input.max_redemptions_per_customer = optionalAmount(body.max_redemptions_per_customer);
+    }
+    if ('stacking' in body) input.stacking = body.stacking as PromoStacking;
+    if ('referrer_reward_amount' in body) input.referrer_reward_amount = optionalAmount(body.referrer_reward_amount);
+    if ('starts_at' in body) input.starts_at = String(body.starts_at ?? '');
+    if ('expires_at' in body) input.expires_at = String(body.expires_at ?? '');
+    if ('is_active' in body) input.is_active = body.is_active !== false;
+    return input;
+}
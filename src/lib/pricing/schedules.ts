@@ -0,0 +1,207 @@
+/*
+  Pricing Schedules
+  - Scheduled ruleset activations and temporary overrides (see pricing_ruleset_schedules).
+  - 'activation' switches the active ruleset for a window and reverts to the previous one when it ends;
+    'override' stacks a partial rules patch on one city (optionally one service) for its window.
+  - The database applies schedules and computes health; these helpers shape them for the UI and
+    preview the merged rules the same way get_effective_pricing_rules does.
+*/
+
+export type PricingScheduleKind = 'activation' | 'override';
+export type PricingScheduleStatus = 'scheduled' | 'active' | 'completed' | 'cancelled' | 'rolled_back';
+
+export interface PricingScheduleHealth {
+    schedule_id: string;
+    quote_count: number;
+    guardrail_breaches: number;
+    accepted: number;
+    guardrail_breach_pct: number | null;
+    acceptance_pct: number | null;
+    /** Thresholds crossed with at least min_health_sample quotes; managers may then roll back */
+    breached: boolean;
+}
+
+export interface PricingSchedule {
+    id: string;
+    kind: PricingScheduleKind;
+    ruleset_id: string | null;
+    ruleset_version?: string | null;
+    previous_ruleset_id: string | null;
+    previous_ruleset_version?: string | null;
+    city_id: string | null;
+    service_code: string | null;
+    rules_patch: Record<string, unknown> | null;
+    priority: number;
+    starts_at: string;
+    ends_at: string | null;
+    status: PricingScheduleStatus;
+    max_guardrail_breach_pct: number | null;
+    min_acceptance_pct: number | null;
+    min_health_sample: number;
+    reason: string;
+    created_by: string | null;
+    created_at: string;
+    activated_at: string | null;
+    ended_at: string | null;
+    end_reason: string | null;
+    health?: PricingScheduleHealth | null;
+}
+
+export interface TimelineRuleset {
+    id: string;
+    version: string;
+    activated_at: string | null;
+}
+
+export type TimelinePhase = 'past' | 'live' | 'upcoming';
+
+export interface PricingTimelineEntry {
+    id: string;
+    /** 'manual' is an activation made directly, outside any schedule */
+    kind: PricingScheduleKind | 'manual';
+    phase: TimelinePhase;
+    label: string;
+    starts_at: string;
+    ends_at: string | null;
+    status: PricingScheduleStatus;
+    city_id: string | null;
+    service_code: string | null;
+    schedule?: PricingSchedule;
+}
+
+// A scheduled activation sets activated_at on the ruleset within a worker run of the schedule
+const SAME_ACTIVATION_MS = 5 * 60 * 1000;
+
+function schedulePhase(schedule: PricingSchedule): TimelinePhase {
+    if (schedule.status === 'active') return 'live';
+    if (schedule.status === 'scheduled') return 'upcoming';
+    return 'past';
+}
+
+function scheduleLabel(schedule: PricingSchedule): string {
+    if (schedule.kind === 'activation') {
+        return `Ruleset ${schedule.ruleset_version || schedule.ruleset_id || 'unknown'}`;
+    }
+    const keys = Object.keys(schedule.rules_patch || {});
+    return `Override${schedule.service_code ? ` ${schedule.service_code}` : ''}: ${keys.join(', ') || 'no changes'}`;
+}
+
+/**
+ * Past, live and upcoming pricing changes, newest first. Direct activations of rulesets are included
+ * unless a scheduled activation already accounts for them. Cancelled schedules are left out.
+ */
+export function buildPricingTimeline(schedules: PricingSchedule[], rulesets: TimelineRuleset[]): PricingTimelineEntry[] {
+    const entries: PricingTimelineEntry[] = schedules
+        .filter(schedule => schedule.status !== 'cancelled')
+        .map(schedule => ({
+            id: schedule.id,
+            kind: schedule.kind,
+            phase: schedulePhase(schedule),
+            label: scheduleLabel(schedule),
+            starts_at: schedule.activated_at || schedule.starts_at,
+            ends_at: schedule.ended_at || schedule.ends_at,
+            status: schedule.status,
+            city_id: schedule.city_id,
+            service_code: schedule.service_code,
+            schedule,
+        }));
+
+    for (const ruleset of rulesets) {
+        if (!ruleset.activated_at) continue;
+        const activatedAt = new Date(ruleset.activated_at).getTime();
+        const scheduled = schedules.some(schedule =>
+            schedule.kind === 'activation'
+            && schedule.ruleset_id === ruleset.id
+            && schedule.activated_at
+            && Math.abs(new Date(schedule.activated_at).getTime() - activatedAt) <= SAME_ACTIVATION_MS
+        );
+        if (scheduled) continue;
+
+        entries.push({
+            id: `manual:${ruleset.id}`,
+            kind: 'manual',
+            phase: 'past',
+            label: `Ruleset ${ruleset.version}`,
+            starts_at: ruleset.activated_at,
+            ends_at: null,
+            status: 'completed',
+            city_id: null,
+            service_code: null,
+        });
+    }
+
+    // A direct activation lasts until the next ruleset change
+    const activations = entries
+        .filter(entry => entry.kind !== 'override' && entry.phase !== 'upcoming')
+        .sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+    activations.forEach((entry, index) => {
+        if (entry.kind !== 'manual') return;
+        const next = activations[index + 1];
+        if (next) {
+            entry.ends_at = next.starts_at;
+        } else {
+            entry.phase = 'live';
+            entry.status = 'active';
+        }
+    });
+
+    return entries.sort((a, b) => b.starts_at.localeCompare(a.starts_at));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge override patches onto ruleset rules, lowest priority first (ties by start). Top-level objects
+ * are merged key by key; other values are replaced. Matches get_effective_pricing_rules.
+ */
+export function mergeRulePatches(
+    rules: Record<string, unknown>,
+    overrides: Pick<PricingSchedule, 'rules_patch' | 'priority' | 'starts_at'>[]
+): Record<string, unknown> {
+    const ordered = [...overrides].sort((a, b) => a.priority - b.priority || a.starts_at.localeCompare(b.starts_at));
+    const merged: Record<string, unknown> = { ...rules };
+
+    for (const override of ordered) {
+        for (const [key, value] of Object.entries(override.rules_patch || {})) {
+            const current = merged[key];
+            merged[key] = isPlainObject(value) && isPlainObject(current) ? { ...current, ...value } : value;
+        }
+    }
+
+    return merged;
+}
+
+/** Active overrides that apply to a city and service */
+export function applicableOverrides(schedules: PricingSchedule[], cityId: string, serviceCode: string): PricingSchedule[] {
+    return schedules.filter(schedule =>
+        schedule.kind === 'override'
+        && schedule.status === 'active'
+        && schedule.city_id === cityId
+        && (!schedule.service_code || schedule.service_code === serviceCode)
+    );
+}
+
+/** Why a schedule's health check failed, one line per crossed threshold */
+export function scheduleHealthAlerts(schedule: PricingSchedule): string[] {
+    const health = schedule.health;
+    if (!health || health.quote_count < schedule.min_health_sample) return [];
+
+    const alerts: string[] = [];
+    if (
+        schedule.max_guardrail_breach_pct != null
+        && health.guardrail_breach_pct != null
+        && health.guardrail_breach_pct > schedule.max_guardrail_breach_pct
+    ) {
+        alerts.push(`Guardrail breaches at ${health.guardrail_breach_pct}% of quotes (limit ${schedule.max_guardrail_breach_pct}%)`);
+    }
+    if (
+        schedule.min_acceptance_pct != null
+        && health.acceptance_pct != null
+        && health.acceptance_pct < schedule.min_acceptance_pct
+    ) {
+        alerts.push(`Acceptance at ${health.acceptance_pct}% of quotes (minimum ${schedule.min_acceptance_pct}%)`);
+    }
+    return alerts;
+}
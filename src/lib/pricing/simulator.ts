@@ -0,0 +1,343 @@
+/*
+  Pricing Simulator
+  - Replays historical quotes against a draft ruleset, base rates and guardrails before activation.
+  - Mirrors the quote engine's steps: base components, urgency/complexity surcharges on labor,
+    surge and discount caps, margin floor, min/max clamp, then tax at the quote's original rate.
+  - Each quote keeps its original demand inputs (parts cost, discount, urgency and complexity). Urgency
+    and complexity are not stored on quotes; they are inferred from the surcharges and the ruleset the
+    quote was priced with.
+  - Margin is estimated as the pre-tax total minus the parts cost.
+*/
+
+export type Urgency = 'standard' | 'next_day' | 'same_day';
+export type Complexity = 'simple' | 'standard' | 'complex';
+
+export interface SimulationRules {
+    /** Surcharge on labor per urgency level, in percent (negative for a reduction) */
+    urgency_surcharge_pct: Record<Urgency, number>;
+    complexity_surcharge_pct: Record<Complexity, number>;
+}
+
+export const DEFAULT_SIMULATION_RULES: SimulationRules = {
+    urgency_surcharge_pct: { standard: 0, next_day: 20, same_day: 50 },
+    complexity_surcharge_pct: { simple: -20, standard: 0, complex: 50 },
+};
+
+export interface SimulationBaseRate {
+    city_id: string;
+    service_code: string;
+    labor_base: number;
+    diagnostic_fee: number;
+    transport_base: number;
+    parts_markup_pct: number;
+}
+
+export interface SimulationGuardrail {
+    city_id: string;
+    service_code: string;
+    min_total: number;
+    max_total: number;
+    max_discount_pct: number;
+    max_surge_pct: number;
+    floor_margin_pct: number;
+    is_enabled?: boolean;
+}
+
+export interface HistoricalQuote {
+    id: string;
+    quote_key: string;
+    city_id: string;
+    service_code: string;
+    ruleset_id: string;
+    labor_amount: number;
+    parts_cost: number;
+    urgency_surcharge: number;
+    complexity_surcharge: number;
+    discount_amount: number;
+    tax_amount: number;
+    total_amount: number;
+    created_at: string;
+}
+
+export type GuardrailHit = 'max_surge' | 'max_discount' | 'floor_margin' | 'min_total' | 'max_total';
+
+export interface SimulatedQuote {
+    quote_id: string;
+    quote_key: string;
+    city_id: string;
+    service_code: string;
+    created_at: string;
+    historical_total: number;
+    simulated_total: number;
+    delta: number;
+    historical_margin: number;
+    simulated_margin: number;
+    guardrail_hits: GuardrailHit[];
+}
+
+export interface SkippedQuote {
+    quote_id: string;
+    city_id: string;
+    service_code: string;
+    reason: 'no_base_rate';
+}
+
+export interface SimulationGroup {
+    key: string;
+    quote_count: number;
+    historical_total: number;
+    simulated_total: number;
+    delta: number;
+    delta_pct: number | null;
+    /** Quotes that hit at least one guardrail */
+    guardrail_quotes: number;
+    historical_margin: number;
+    simulated_margin: number;
+    margin_delta: number;
+}
+
+export interface SimulationReport {
+    summary: SimulationGroup;
+    by_service: SimulationGroup[];
+    by_city: SimulationGroup[];
+    guardrail_hits: Record<GuardrailHit, number>;
+    quotes: SimulatedQuote[];
+    skipped: SkippedQuote[];
+}
+
+export interface SimulationInput {
+    quotes: HistoricalQuote[];
+    /** Rules of the draft ruleset being simulated */
+    rules: SimulationRules;
+    /** Rules of every ruleset the historical quotes were priced with, by ruleset id */
+    historicalRules: Record<string, SimulationRules>;
+    baseRates: SimulationBaseRate[];
+    guardrails: SimulationGuardrail[];
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const scopeKey = (cityId: string, serviceCode: string) => `${cityId}:${serviceCode}`;
+
+/**
+ * Read the surcharge tables from a ruleset's rules, falling back to the defaults for missing levels
+ */
+export function parseSimulationRules(rules: unknown): SimulationRules {
+    const source = (rules && typeof rules === 'object' ? rules : {}) as Record<string, unknown>;
+
+    const table = <K extends string>(key: string, defaults: Record<K, number>): Record<K, number> => {
+        const values = (source[key] && typeof source[key] === 'object' ? source[key] : {}) as Record<string, unknown>;
+        const result = { ...defaults };
+        for (const level of Object.keys(defaults) as K[]) {
+            const value = Number(values[level]);
+            if (values[level] !== undefined && values[level] !== null && Number.isFinite(value)) {
+                result[level] = value;
+            }
+        }
+        return result;
+    };
+
+    return {
+        urgency_surcharge_pct: table('urgency_surcharge_pct', DEFAULT_SIMULATION_RULES.urgency_surcharge_pct),
+        complexity_surcharge_pct: table('complexity_surcharge_pct', DEFAULT_SIMULATION_RULES.complexity_surcharge_pct),
+    };
+}
+
+/**
+ * The level whose surcharge is closest to the one the quote was charged
+ */
+function inferLevel<K extends string>(surcharge: number, labor: number, table: Record<K, number>, fallback: K): K {
+    if (!labor) return fallback;
+    const pct = (surcharge / labor) * 100;
+
+    let best = fallback;
+    for (const level of Object.keys(table) as K[]) {
+        if (Math.abs(table[level] - pct) < Math.abs(table[best] - pct)) best = level;
+    }
+    return best;
+}
+
+/**
+ * Price one historical quote under the draft configuration
+ */
+export function simulateQuote(
+    quote: HistoricalQuote,
+    rules: SimulationRules,
+    historicalRules: SimulationRules,
+    rate: SimulationBaseRate,
+    guardrail: SimulationGuardrail | null
+): SimulatedQuote {
+    const hits: GuardrailHit[] = [];
+    const guarded = guardrail && guardrail.is_enabled !== false ? guardrail : null;
+
+    const urgency = inferLevel(quote.urgency_surcharge, quote.labor_amount, historicalRules.urgency_surcharge_pct, 'standard');
+    const complexity = inferLevel(quote.complexity_surcharge, quote.labor_amount, historicalRules.complexity_surcharge_pct, 'standard');
+
+    const labor = rate.labor_base;
+    const parts = quote.parts_cost * (1 + rate.parts_markup_pct / 100);
+    const base = labor + parts + rate.transport_base + rate.diagnostic_fee;
+
+    let urgencySurcharge = labor * rules.urgency_surcharge_pct[urgency] / 100;
+    let complexitySurcharge = labor * rules.complexity_surcharge_pct[complexity] / 100;
+
+    // Surge cap applies to the positive surcharges only
+    const surge = Math.max(0, urgencySurcharge) + Math.max(0, complexitySurcharge);
+    const maxSurge = guarded ? base * guarded.max_surge_pct / 100 : Infinity;
+    if (surge > maxSurge) {
+        const scale = maxSurge / surge;
+        if (urgencySurcharge > 0) urgencySurcharge *= scale;
+        if (complexitySurcharge > 0) complexitySurcharge *= scale;
+        hits.push('max_surge');
+    }
+
+    const subtotal = base + urgencySurcharge + complexitySurcharge;
+
+    let discount = quote.discount_amount;
+    const maxDiscount = guarded ? subtotal * guarded.max_discount_pct / 100 : Infinity;
+    if (discount > maxDiscount) {
+        discount = maxDiscount;
+        hits.push('max_discount');
+    }
+
+    let pretax = subtotal - discount;
+
+    if (guarded && guarded.floor_margin_pct > 0 && guarded.floor_margin_pct < 100) {
+        const floor = quote.parts_cost / (1 - guarded.floor_margin_pct / 100);
+        if (pretax < floor) {
+            pretax = floor;
+            hits.push('floor_margin');
+        }
+    }
+
+    if (guarded && pretax < guarded.min_total) {
+        pretax = guarded.min_total;
+        hits.push('min_total');
+    } else if (guarded && guarded.max_total > 0 && pretax > guarded.max_total) {
+        pretax = guarded.max_total;
+        hits.push('max_total');
+    }
+
+    const historicalPretax = quote.total_amount - quote.tax_amount;
+    const taxRate = historicalPretax > 0 ? quote.tax_amount / historicalPretax : 0;
+    const simulatedTotal = round(pretax * (1 + taxRate));
+
+    return {
+        quote_id: quote.id,
+        quote_key: quote.quote_key,
+        city_id: quote.city_id,
+        service_code: quote.service_code,
+        created_at: quote.created_at,
+        historical_total: quote.total_amount,
+        simulated_total: simulatedTotal,
+        delta: round(simulatedTotal - quote.total_amount),
+        historical_margin: round(historicalPretax - quote.parts_cost),
+        simulated_margin: round(pretax - quote.parts_cost),
+        guardrail_hits: hits,
+    };
+}
+
+function summarise(key: string, quotes: SimulatedQuote[]): SimulationGroup {
+    const sum = (pick: (quote: SimulatedQuote) => number) => round(quotes.reduce((total, quote) => total + pick(quote), 0));
+
+    const historical = sum(quote => quote.historical_total);
+    const simulated = sum(quote => quote.simulated_total);
+    const historicalMargin = sum(quote => quote.historical_margin);
+    const simulatedMargin = sum(quote => quote.simulated_margin);
+
+    return {
+        key,
+        quote_count: quotes.length,
+        historical_total: historical,
+        simulated_total: simulated,
+        delta: round(simulated - historical),
+        delta_pct: historical ? round(((simulated - historical) / historical) * 100) : null,
+        guardrail_quotes: quotes.filter(quote => quote.guardrail_hits.length > 0).length,
+        historical_margin: historicalMargin,
+        simulated_margin: simulatedMargin,
+        margin_delta: round(simulatedMargin - historicalMargin),
+    };
+}
+
+function groupBy(quotes: SimulatedQuote[], pick: (quote: SimulatedQuote) => string): SimulationGroup[] {
+    const groups = new Map<string, SimulatedQuote[]>();
+    for (const quote of quotes) {
+        const key = pick(quote);
+        groups.set(key, [...(groups.get(key) || []), quote]);
+    }
+    return Array.from(groups, ([key, members]) => summarise(key, members))
+        .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+}
+
+/**
+ * Replay every quote and aggregate the deltas per service and per city. Quotes without a base rate
+ * for their city and service cannot be priced and are reported as skipped.
+ */
+export function runPricingSimulation(input: SimulationInput): SimulationReport {
+    const rates = new Map(input.baseRates.map(rate => [scopeKey(rate.city_id, rate.service_code), rate]));
+    const guardrails = new Map(input.guardrails.map(guardrail => [scopeKey(guardrail.city_id, guardrail.service_code), guardrail]));
+
+    const simulated: SimulatedQuote[] = [];
+    const skipped: SkippedQuote[] = [];
+
+    for (const quote of input.quotes) {
+        const key = scopeKey(quote.city_id, quote.service_code);
+        const rate = rates.get(key);
+        if (!rate) {
+            skipped.push({ quote_id: quote.id, city_id: quote.city_id, service_code: quote.service_code, reason: 'no_base_rate' });
+            continue;
+        }
+
+        simulated.push(simulateQuote(
+            quote,
+            input.rules,
+            input.historicalRules[quote.ruleset_id] ?? DEFAULT_SIMULATION_RULES,
+            rate,
+            guardrails.get(key) ?? null
+        ));
+    }
+
+    const guardrailHits: Record<GuardrailHit, number> = { max_surge: 0, max_discount: 0, floor_margin: 0, min_total: 0, max_total: 0 };
+    for (const quote of simulated) {
+        for (const hit of quote.guardrail_hits) guardrailHits[hit]++;
+    }
+
+    return {
+        summary: summarise('all', simulated),
+        by_service: groupBy(simulated, quote => quote.service_code),
+        by_city: groupBy(simulated, quote => quote.city_id),
+        guardrail_hits: guardrailHits,
+        quotes: simulated,
+        skipped,
+    };
+}
+
+const csvField = (value: string | number | null): string =>
+    value === null ? '' : `"${String(value).replace(/"/g, '""')}"`;
+
+/**
+ * CSV export of a simulation: one row per replayed quote, followed by the per-service and per-city totals
+ */
+export function simulationReportToCsv(report: SimulationReport): string {
+    const lines: string[] = [];
+    const row = (...values: Array<string | number | null>) => lines.push(values.map(csvField).join(','));
+
+    row('section', 'key', 'quote_key', 'city_id', 'service_code', 'created_at', 'quote_count', 'historical_total', 'simulated_total', 'delta', 'delta_pct', 'historical_margin', 'simulated_margin', 'margin_delta', 'guardrail_hits');
+
+    for (const quote of report.quotes) {
+        row('quote', quote.quote_id, quote.quote_key, quote.city_id, quote.service_code, quote.created_at, 1,
+            quote.historical_total, quote.simulated_total, quote.delta, null,
+            quote.historical_margin, quote.simulated_margin, round(quote.simulated_margin - quote.historical_margin),
+            quote.guardrail_hits.join(' '));
+    }
+
+    const groupRow = (section: string, group: SimulationGroup) =>
+        row(section, group.key, null, null, null, null, group.quote_count,
+            group.historical_total, group.simulated_total, group.delta, group.delta_pct,
+            group.historical_margin, group.simulated_margin, group.margin_delta, group.guardrail_quotes);
+
+    report.by_service.forEach(group => groupRow('service', group));
+    report.by_city.forEach(group => groupRow('city', group));
+    groupRow('total', report.summary);
+
+    return lines.join('\n') + '\n';
+}
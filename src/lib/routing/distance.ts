@@ -0,0 +1,92 @@
+// distance.ts
+// Travel distances and times between route stops. An OSRM-compatible table service is used when
+// OSRM_BASE_URL is configured; otherwise, or when it fails, great-circle distance stretched by a road
+// factor and divided by a city speed for the vehicle type.
+
+import { distanceMeters } from '@/lib/custody/geofence';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export type DistanceSource = 'osrm' | 'haversine';
+
+export interface TravelMatrix {
+  source: DistanceSource;
+  distances_m: number[][];
+  durations_s: number[][];
+}
+
+/** Roads are longer than the straight line between two points */
+export const ROAD_FACTOR = 1.35;
+
+/** Average city speeds in km/h, including stops at signals */
+export const CITY_SPEED_KMH: Record<string, number> = {
+  motorbike: 22,
+  scooter: 20,
+  three_wheeler: 18,
+  small_van: 18,
+  large_van: 16,
+  truck: 14,
+};
+
+const DEFAULT_SPEED_KMH = 18;
+
+/** The public OSRM demo server refuses larger tables */
+export const MAX_OSRM_POINTS = 100;
+
+const OSRM_TIMEOUT_MS = 5000;
+
+export function haversineMatrix(points: LatLng[], vehicleType?: string | null): TravelMatrix {
+  const speedMps = ((vehicleType && CITY_SPEED_KMH[vehicleType]) || DEFAULT_SPEED_KMH) / 3.6;
+  const distances = points.map(from => points.map(to => Math.round(distanceMeters(from, to) * ROAD_FACTOR)));
+
+  return {
+    source: 'haversine',
+    distances_m: distances,
+    durations_s: distances.map(row => row.map(metres => Math.round(metres / speedMps))),
+  };
+}
+
+/**
+ * Distance and duration table from an OSRM-compatible /table endpoint. Cells OSRM cannot route are
+ * filled from the haversine estimate. Returns null when the service is unreachable or refuses.
+ */
+export async function fetchOsrmMatrix(
+  baseUrl: string,
+  points: LatLng[],
+  options: { profile?: string; vehicleType?: string | null; fetchImpl?: typeof fetch } = {}
+): Promise<TravelMatrix | null> {
+  if (points.length < 2 || points.length > MAX_OSRM_POINTS) return null;
+
+  const coordinates = points.map(point => `${point.lng.toFixed(6)},${point.lat.toFixed(6)}`).join(';');
+  const url = `${baseUrl.replace(/\/$/, '')}/table/v1/${options.profile ?? 'driving'}/${coordinates}?annotations=distance,duration`;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), OSRM_TIMEOUT_MS);
+
+  try {
+    const response = await (options.fetchImpl ?? fetch)(url, { signal: controller.signal });
+    if (!response.ok) return null;
+
+    const body = await response.json();
+    if (body?.code !== 'Ok' || !Array.isArray(body.distances) || !Array.isArray(body.durations)) return null;
+
+    const fallback = haversineMatrix(points, options.vehicleType);
+    const cell = (table: (number | null)[][], estimate: number[][], i: number, j: number) => {
+      const value = table[i]?.[j];
+      return typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : estimate[i][j];
+    };
+
+    return {
+      source: 'osrm',
+      distances_m: points.map((_, i) => points.map((__, j) => cell(body.distances, fallback.distances_m, i, j))),
+      durations_s: points.map((_, i) => points.map((__, j) => cell(body.durations, fallback.durations_s, i, j))),
+    };
+  } catch (error) {
+    console.error('OSRM table request failed, falling back to haversine:', error);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,365 @@
+// vrp.ts
+// Orders a shift's pickups and drops across vehicles: a pickup-and-delivery routing problem with
+// vehicle capacity, stop time windows and shift length. Each task is collected at its pickup and left at
+// its drop on the same vehicle; tasks already on board only need their drop. Routes are built by
+// cheapest feasible insertion (tightest windows first) and then improved by moving one task at a time
+// to wherever it is cheapest, until nothing moves. Cost is driven distance.
+
+import type { LatLng, TravelMatrix } from '@/lib/routing/distance';
+
+/** Epoch seconds; either end may be open */
+export interface TimeWindow {
+  start: number | null;
+  end: number | null;
+}
+
+export interface RouteStopLocation extends LatLng {
+  address: string;
+  window: TimeWindow | null;
+}
+
+export type RouteTaskSource = 'transport_job' | 'delivery';
+
+export type RouteStopKind = 'pickup' | 'drop';
+
+export interface RouteTask {
+  id: string;
+  source: RouteTaskSource;
+  ref_id: string;
+  label: string;
+  weight_kg: number;
+  pickup: RouteStopLocation | null; // null: already on board the locked vehicle
+  drop: RouteStopLocation;
+  vehicle_id: string | null; // locked to this vehicle when already assigned
+}
+
+export interface RouteVehicle {
+  id: string;
+  vehicle_type: string;
+  capacity_kg: number;
+  start: LatLng | null; // null: the run starts at the first stop
+  shift_start: number;
+  shift_end: number;
+}
+
+export interface RoutingProblem {
+  vehicles: RouteVehicle[];
+  tasks: RouteTask[];
+  service_time_s?: number;
+}
+
+export interface PlannedStop {
+  sequence: number;
+  task_id: string;
+  source: RouteTaskSource;
+  ref_id: string;
+  label: string;
+  kind: RouteStopKind;
+  address: string;
+  lat: number;
+  lng: number;
+  arrival_at: string;
+  departure_at: string;
+  wait_s: number;
+  window_start: string | null;
+  window_end: string | null;
+  distance_from_previous_m: number;
+  load_after_kg: number;
+  proposed: boolean; // the task is not yet assigned to this vehicle
+}
+
+export interface VehicleRoute {
+  vehicle_id: string;
+  stops: PlannedStop[];
+  distance_m: number;
+  duration_s: number;
+  start_at: string | null;
+  end_at: string | null;
+  max_load_kg: number;
+}
+
+export type UnplannedReason = 'missing_coordinates' | 'vehicle_unavailable' | 'over_capacity' | 'no_feasible_slot';
+
+export interface UnplannedTask {
+  task_id: string;
+  source: RouteTaskSource;
+  ref_id: string;
+  reason: UnplannedReason;
+}
+
+export interface RoutingSolution {
+  routes: VehicleRoute[];
+  unplanned: UnplannedTask[];
+}
+
+/** Minutes spent at each stop for the hand-off */
+export const DEFAULT_SERVICE_TIME_S = 10 * 60;
+
+const MAX_IMPROVEMENT_PASSES = 25;
+const EPSILON = 1e-6;
+
+interface Stop {
+  task: number;
+  kind: RouteStopKind;
+}
+
+interface Evaluation {
+  feasible: boolean;
+  distance_m: number;
+  start: number;
+  end: number;
+  max_load_kg: number;
+  visits: { arrival: number; departure: number; wait: number; distance: number; load: number }[];
+}
+
+const INFEASIBLE: Evaluation = { feasible: false, distance_m: Infinity, start: 0, end: 0, max_load_kg: 0, visits: [] };
+
+const hasCoordinates = (location: LatLng | null) =>
+  !!location && Number.isFinite(location.lat) && Number.isFinite(location.lng)
+  && Math.abs(location.lat) <= 90 && Math.abs(location.lng) <= 180;
+
+/**
+ * Whether every stop of the task has usable coordinates; the solver leaves out the rest as missing_coordinates
+ */
+export const isRoutable = (task: RouteTask) => hasCoordinates(task.drop) && (task.pickup === null || hasCoordinates(task.pickup));
+
+/**
+ * Points the travel matrix must cover, in the order the solver indexes them: each task's pickup and
+ * drop (2i, 2i + 1), then each vehicle's start point. Missing points repeat the drop so indexes stay fixed.
+ * Tasks that cannot be routed, and vehicles without a start, take the place of a routable point, so
+ * no missing coordinates reach the distance service.
+ */
+export function routingPoints(problem: RoutingProblem): LatLng[] {
+  const routable = problem.tasks.find(isRoutable);
+  const standIn: LatLng = problem.vehicles.find(vehicle => hasCoordinates(vehicle.start))?.start
+    ?? (routable ? routable.pickup ?? routable.drop : { lat: 0, lng: 0 });
+
+  const points: LatLng[] = [];
+  for (const task of problem.tasks) {
+    if (!isRoutable(task)) {
+      points.push({ lat: standIn.lat, lng: standIn.lng }, { lat: standIn.lat, lng: standIn.lng });
+      continue;
+    }
+    const pickup = task.pickup ?? task.drop;
+    points.push({ lat: pickup.lat, lng: pickup.lng }, { lat: task.drop.lat, lng: task.drop.lng });
+  }
+  for (const vehicle of problem.vehicles) {
+    points.push(vehicle.start && hasCoordinates(vehicle.start) ? vehicle.start : standIn);
+  }
+  return points;
+}
+
+const toIso = (epochSeconds: number) => new Date(epochSeconds * 1000).toISOString();
+
+export function solveRoutes(problem: RoutingProblem, matrixFor: (vehicle: RouteVehicle) => TravelMatrix): RoutingSolution {
+  const { tasks, vehicles } = problem;
+  const serviceTime = problem.service_time_s ?? DEFAULT_SERVICE_TIME_S;
+  const matrices = vehicles.map(vehicle => matrixFor(vehicle));
+  const routes: Stop[][] = vehicles.map(() => []);
+  const unplanned = new Map<number, UnplannedReason>();
+
+  const node = (stop: Stop) => 2 * stop.task + (stop.kind === 'pickup' ? 0 : 1);
+  const location = (stop: Stop) => (stop.kind === 'pickup' ? tasks[stop.task].pickup! : tasks[stop.task].drop);
+
+  const evaluate = (v: number, stops: Stop[]): Evaluation => {
+    const vehicle = vehicles[v];
+    const matrix = matrices[v];
+    let load = 0;
+    for (const stop of stops) {
+      if (stop.kind === 'drop' && tasks[stop.task].pickup === null) load += tasks[stop.task].weight_kg;
+    }
+    if (load > vehicle.capacity_kg + EPSILON) return INFEASIBLE;
+
+    let previous: number | null = vehicle.start ? 2 * tasks.length + v : null;
+    let time = vehicle.shift_start;
+    let start = vehicle.shift_start;
+    let distance = 0;
+    let maxLoad = load;
+    const visits: Evaluation['visits'] = [];
+
+    for (const stop of stops) {
+      const current = node(stop);
+      const window = location(stop).window;
+      const leg = previous === null ? 0 : matrix.distances_m[previous][current];
+      let arrival = previous === null ? time : time + matrix.durations_s[previous][current];
+
+      // With no start point the driver simply turns up when the first stop opens
+      if (previous === null && window?.start != null) arrival = Math.max(arrival, window.start);
+      if (previous === null && visits.length === 0) start = arrival;
+
+      const begin = window?.start != null ? Math.max(arrival, window.start) : arrival;
+      if (window?.end != null && begin > window.end) return INFEASIBLE;
+
+      load += stop.kind === 'pickup' ? tasks[stop.task].weight_kg : -tasks[stop.task].weight_kg;
+      if (load > vehicle.capacity_kg + EPSILON) return INFEASIBLE;
+      maxLoad = Math.max(maxLoad, load);
+
+      time = begin + serviceTime;
+      distance += leg;
+      visits.push({ arrival, departure: time, wait: begin - arrival, distance: leg, load });
+      previous = current;
+    }
+
+    if (stops.length > 0 && time > vehicle.shift_end) return INFEASIBLE;
+    return { feasible: true, distance_m: distance, start, end: time, max_load_kg: maxLoad, visits };
+  };
+
+  const candidateVehicles = (t: number) => {
+    const task = tasks[t];
+    return vehicles
+      .map((vehicle, v) => ({ vehicle, v }))
+      .filter(({ vehicle }) => task.vehicle_id === null || vehicle.id === task.vehicle_id)
+      .map(({ v }) => v);
+  };
+
+  // Cheapest feasible way to add task t to one of its vehicles, given the current routes
+  const bestInsertion = (t: number) => {
+    let best: { v: number; stops: Stop[]; delta: number } | null = null;
+
+    for (const v of candidateVehicles(t)) {
+      if (vehicles[v].capacity_kg + EPSILON < tasks[t].weight_kg) continue;
+      const route = routes[v];
+      const baseline = evaluate(v, route).distance_m;
+
+      const consider = (stops: Stop[]) => {
+        const evaluation = evaluate(v, stops);
+        if (!evaluation.feasible) return;
+        const delta = evaluation.distance_m - baseline;
+        if (!best || delta < best.delta - EPSILON) best = { v, stops, delta };
+      };
+
+      if (tasks[t].pickup === null) {
+        for (let j = 0; j <= route.length; j++) {
+          consider([...route.slice(0, j), { task: t, kind: 'drop' }, ...route.slice(j)]);
+        }
+        continue;
+      }
+
+      for (let i = 0; i <= route.length; i++) {
+        const withPickup = [...route.slice(0, i), { task: t, kind: 'pickup' as const }, ...route.slice(i)];
+        for (let j = i + 1; j <= withPickup.length; j++) {
+          consider([...withPickup.slice(0, j), { task: t, kind: 'drop' }, ...withPickup.slice(j)]);
+        }
+      }
+    }
+
+    return best as { v: number; stops: Stop[]; delta: number } | null;
+  };
+
+  const whyUnplaceable = (t: number): UnplannedReason => {
+    const candidates = candidateVehicles(t);
+    if (candidates.length === 0) return 'vehicle_unavailable';
+    if (candidates.every(v => vehicles[v].capacity_kg + EPSILON < tasks[t].weight_kg)) return 'over_capacity';
+    return 'no_feasible_slot';
+  };
+
+  const windowEnd = (task: RouteTask) =>
+    Math.min(task.pickup?.window?.end ?? Infinity, task.drop.window?.end ?? Infinity);
+
+  // Tasks already on board first, then other assigned tasks, then by the tightest deadline
+  const order = tasks
+    .map((task, t) => ({ task, t }))
+    .sort((a, b) =>
+      Number(a.task.pickup !== null) - Number(b.task.pickup !== null)
+      || Number(a.task.vehicle_id === null) - Number(b.task.vehicle_id === null)
+      || windowEnd(a.task) - windowEnd(b.task)
+      || a.task.id.localeCompare(b.task.id))
+    .map(({ t }) => t);
+
+  for (const t of order) {
+    const task = tasks[t];
+    if (!isRoutable(task)) {
+      unplanned.set(t, 'missing_coordinates');
+      continue;
+    }
+    if (task.pickup === null && task.vehicle_id === null) {
+      unplanned.set(t, 'vehicle_unavailable');
+      continue;
+    }
+
+    const insertion = bestInsertion(t);
+    if (insertion) {
+      routes[insertion.v] = insertion.stops;
+    } else {
+      unplanned.set(t, whyUnplaceable(t));
+    }
+  }
+
+  // Relocate one task at a time while that shortens the plan, and retry what did not fit
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+
+    for (const t of order) {
+      if (unplanned.has(t)) continue;
+      const v = routes.findIndex(route => route.some(stop => stop.task === t));
+      const before = routes[v];
+      const without = before.filter(stop => stop.task !== t);
+      const withoutEvaluation = evaluate(v, without);
+      if (!withoutEvaluation.feasible) continue;
+
+      const saving = evaluate(v, before).distance_m - withoutEvaluation.distance_m;
+      routes[v] = without;
+      const insertion = bestInsertion(t);
+
+      if (insertion && insertion.delta < saving - EPSILON) {
+        routes[insertion.v] = insertion.stops;
+        improved = true;
+      } else {
+        routes[v] = before;
+      }
+    }
+
+    for (const [t, reason] of unplanned) {
+      if (reason !== 'no_feasible_slot') continue;
+      const insertion = bestInsertion(t);
+      if (insertion) {
+        routes[insertion.v] = insertion.stops;
+        unplanned.delete(t);
+        improved = true;
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return {
+    routes: routes.map((stops, v) => {
+      const evaluation = evaluate(v, stops);
+      return {
+        vehicle_id: vehicles[v].id,
+        stops: stops.map((stop, index) => {
+          const task = tasks[stop.task];
+          const place = location(stop);
+          const visit = evaluation.visits[index];
+          return {
+            sequence: index + 1,
+            task_id: task.id,
+            source: task.source,
+            ref_id: task.ref_id,
+            label: task.label,
+            kind: stop.kind,
+            address: place.address,
+            lat: place.lat,
+            lng: place.lng,
+            arrival_at: toIso(visit.arrival),
+            departure_at: toIso(visit.departure),
+            wait_s: visit.wait,
+            window_start: place.window?.start != null ? toIso(place.window.start) : null,
+            window_end: place.window?.end != null ? toIso(place.window.end) : null,
+            distance_from_previous_m: visit.distance,
+            load_after_kg: Math.round(visit.load * 100) / 100,
+            proposed: task.vehicle_id === null,
+          };
+        }),
+        distance_m: stops.length > 0 ? evaluation.distance_m : 0,
+        duration_s: stops.length > 0 ? evaluation.end - evaluation.start : 0,
+        start_at: stops.length > 0 ? toIso(evaluation.start) : null,
+        end_at: stops.length > 0 ? toIso(evaluation.end) : null,
+        max_load_kg: Math.round(evaluation.max_load_kg * 100) / 100,
+      };
+    }),
+    unplanned: [...unplanned.entries()]
+      .sort(([a], [b]) => tasks[a].id.localeCompare(tasks[b].id))
+      .map(([t, reason]) => ({ task_id: tasks[t].id, source: tasks[t].source, ref_id: tasks[t].ref_id, reason })),
+  };
+}
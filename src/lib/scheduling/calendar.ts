@@ -0,0 +1,94 @@
+// calendar.ts
+// Turns a stored technician day plan into the scheduler's problem and plan, so the admin calendar and the
+// scheduling API check manual moves with the same rules the planner used.
+
+import type { ScheduledJob, ScheduleEntry, TechnicianDayPlan } from '@/lib/types/scheduling';
+import type { DayPlan, MoveViolation, PlanJob, PlanProblem } from '@/lib/scheduling/day-plan';
+
+export const MOVE_VIOLATION_LABELS: Record<MoveViolation, string> = {
+  unknown_job: 'This job is no longer in the plan',
+  unknown_technician: 'The technician has no shift on this day',
+  missing_coordinates: 'The ticket has no service address coordinates',
+  job_in_progress: 'The repair is already under way',
+  assigned_to_other_technician: 'The ticket is assigned to another technician',
+  missing_skill: 'The technician lacks the skill this repair needs',
+  outside_shift: "The repair would fall outside the technician's shift",
+  overlaps: "It overlaps another of the technician's jobs",
+  no_time_to_travel: 'There is not enough time to travel between jobs',
+  sla_breach: 'The repair would finish after its SLA deadline',
+};
+
+export const toEpochSeconds = (value: string) => Math.floor(new Date(value).getTime() / 1000);
+
+export const fromEpochSeconds = (value: number) => new Date(value * 1000).toISOString();
+
+export const isOpenEntry = (entry: ScheduleEntry) => entry.status !== 'done';
+
+/**
+ * A ticket as the scheduler sees it; its stored entry, if any, says whether it is pinned or under way
+ */
+export function toPlanJob(job: ScheduledJob, entry?: ScheduleEntry): PlanJob {
+  const inProgress = entry?.status === 'in_progress';
+
+  return {
+    id: job.ticket_id,
+    location: { lat: job.lat ?? NaN, lng: job.lng ?? NaN },
+    // A job under way takes as long as its entry says; it may have been extended
+    duration_s: entry && inProgress ? toEpochSeconds(entry.end_at) - toEpochSeconds(entry.start_at) : job.repair_s,
+    skill: job.required_skill_id ? { skill_id: job.required_skill_id, min_level: job.min_skill_level ?? 1 } : null,
+    sla_due: job.sla_due_at ? toEpochSeconds(job.sla_due_at) : null,
+    technician_id: job.assigned_technician_id,
+    pinned_start: entry && (entry.pinned || inProgress) ? toEpochSeconds(entry.start_at) : null,
+    in_progress: inProgress,
+  };
+}
+
+/**
+ * Snapshots of every open job in the plan, by ticket id
+ */
+export function scheduledJobs(dayPlan: TechnicianDayPlan): Map<string, ScheduledJob> {
+  const jobs = new Map<string, ScheduledJob>();
+  for (const entry of dayPlan.entries.filter(isOpenEntry)) jobs.set(entry.ticket_id, entry);
+  for (const job of dayPlan.unplanned) jobs.set(job.ticket_id, job);
+  return jobs;
+}
+
+/**
+ * The scheduler's view of a stored plan. Finished jobs are left out; they no longer constrain anything.
+ */
+export function toPlanProblem(dayPlan: TechnicianDayPlan): { problem: PlanProblem; plan: DayPlan } {
+  const entries = dayPlan.entries.filter(isOpenEntry);
+
+  const problem: PlanProblem = {
+    technicians: dayPlan.technicians.map(technician => ({
+      id: technician.technician_id,
+      shift_start: toEpochSeconds(technician.shift_start),
+      shift_end: toEpochSeconds(technician.shift_end),
+      start: technician.start_lat !== null && technician.start_lng !== null
+        ? { lat: technician.start_lat, lng: technician.start_lng }
+        : null,
+      skills: technician.skills,
+    })),
+    jobs: [...entries.map(entry => toPlanJob(entry, entry)), ...dayPlan.unplanned.map(job => toPlanJob(job))],
+  };
+
+  const plan: DayPlan = {
+    days: dayPlan.technicians.map(technician => ({
+      technician_id: technician.technician_id,
+      visits: entries
+        .filter(entry => entry.technician_id === technician.technician_id)
+        .sort((a, b) => toEpochSeconds(a.start_at) - toEpochSeconds(b.start_at))
+        .map(entry => ({
+          job_id: entry.ticket_id,
+          start: toEpochSeconds(entry.start_at),
+          end: toEpochSeconds(entry.end_at),
+          travel_s: entry.travel_s,
+          distance_m: entry.distance_m,
+          sla_breach: entry.sla_breach,
+        })),
+    })),
+    unscheduled: dayPlan.unplanned.map(job => ({ job_id: job.ticket_id, reason: job.reason })),
+  };
+
+  return { problem, plan };
+}
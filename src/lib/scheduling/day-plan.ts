@@ -0,0 +1,388 @@
+// day-plan.ts
+// Day plans for field technicians. Each technician works one shift from an optional start point; each
+// job is a repair at the customer's address with a duration set by its device category, possibly a
+// skill needed at a minimum level, and an SLA deadline it should finish by. Jobs are placed most urgent
+// first by cheapest feasible insertion, where cost is added travel time. A job no technician can finish
+// in time is still placed at its earliest finish and flagged, but placing a job never makes another one
+// late. When a job runs over only that technician's later jobs are re-timed, and the ones that no longer
+// fit move to whoever can take them. Manual moves are checked against the same constraints.
+
+import { haversineMatrix, LatLng } from '@/lib/routing/distance';
+import { isValidPosition } from '@/lib/custody/geofence';
+
+/** Speed profile for technicians riding between jobs */
+export const TECHNICIAN_VEHICLE_TYPE = 'motorbike';
+
+export interface SkillRequirement {
+  skill_id: string;
+  min_level: number;
+}
+
+/** Times are epoch seconds */
+export interface PlanTechnician {
+  id: string;
+  shift_start: number;
+  shift_end: number;
+  start: LatLng | null; // null: the day starts at the first job
+  skills: Record<string, number>; // skill id -> level
+}
+
+export interface PlanJob {
+  id: string;
+  location: LatLng;
+  duration_s: number;
+  skill: SkillRequirement | null;
+  sla_due: number | null;
+  technician_id: string | null; // already assigned: only this technician may take it
+  pinned_start: number | null; // placed by hand or under way: starts exactly then
+  in_progress: boolean;
+}
+
+export interface PlanProblem {
+  technicians: PlanTechnician[];
+  jobs: PlanJob[];
+}
+
+export interface PlannedVisit {
+  job_id: string;
+  start: number;
+  end: number;
+  travel_s: number;
+  distance_m: number;
+  sla_breach: boolean;
+}
+
+export interface TechnicianDay {
+  technician_id: string;
+  visits: PlannedVisit[];
+}
+
+export type UnscheduledReason = 'missing_coordinates' | 'technician_unavailable' | 'no_skilled_technician' | 'no_feasible_slot';
+
+export interface UnscheduledJob {
+  job_id: string;
+  reason: UnscheduledReason;
+}
+
+export interface DayPlan {
+  days: TechnicianDay[];
+  unscheduled: UnscheduledJob[];
+}
+
+export interface JobMove {
+  job_id: string;
+  from_technician_id: string;
+  to_technician_id: string | null; // null: nobody could take it
+}
+
+export interface ReplanResult extends DayPlan {
+  moved: JobMove[];
+}
+
+export type MoveViolation =
+  | 'unknown_job'
+  | 'unknown_technician'
+  | 'missing_coordinates'
+  | 'job_in_progress'
+  | 'assigned_to_other_technician'
+  | 'missing_skill'
+  | 'outside_shift'
+  | 'overlaps'
+  | 'no_time_to_travel'
+  | 'sla_breach';
+
+export interface MoveTarget {
+  job_id: string;
+  technician_id: string;
+  start: number;
+}
+
+export type TravelEstimator = (from: LatLng, to: LatLng) => { duration_s: number; distance_m: number };
+
+interface Timing {
+  feasible: boolean;
+  travel_s: number;
+  visits: PlannedVisit[];
+}
+
+const INFEASIBLE: Timing = { feasible: false, travel_s: Infinity, visits: [] };
+
+export const haversineTravel: TravelEstimator = (from, to) => {
+  const matrix = haversineMatrix([from, to], TECHNICIAN_VEHICLE_TYPE);
+  return { duration_s: matrix.durations_s[0][1], distance_m: matrix.distances_m[0][1] };
+};
+
+export const hasSkill = (technician: PlanTechnician, skill: SkillRequirement | null) =>
+  !skill || (technician.skills[skill.skill_id] ?? 0) >= skill.min_level;
+
+const canTake = (technician: PlanTechnician, job: PlanJob) =>
+  job.technician_id ? job.technician_id === technician.id : hasSkill(technician, job.skill);
+
+// Pinned jobs by their start, then the nearest deadline, then the longest repair
+function byUrgency(a: PlanJob, b: PlanJob): number {
+  if ((a.pinned_start === null) !== (b.pinned_start === null)) return a.pinned_start === null ? 1 : -1;
+  if (a.pinned_start !== null && b.pinned_start !== null) return a.pinned_start - b.pinned_start;
+  return (a.sla_due ?? Infinity) - (b.sla_due ?? Infinity) || b.duration_s - a.duration_s;
+}
+
+/**
+ * Times a technician's jobs in order. Infeasible when a job cannot start at its pinned time, runs past
+ * the shift or finishes after its deadline without being allowed to be late. Jobs under way are kept as
+ * they are even past the shift end. Loose timing never refuses; it reports a day as it would play out.
+ */
+function timeDay(technician: PlanTechnician, jobs: PlanJob[], travel: TravelEstimator, late: Set<string>, strict = true): Timing {
+  const visits: PlannedVisit[] = [];
+  let clock = technician.shift_start;
+  let at = technician.start;
+  let travelTotal = 0;
+
+  for (const job of jobs) {
+    const leg = at ? travel(at, job.location) : { duration_s: 0, distance_m: 0 };
+    const arrival = clock + leg.duration_s;
+
+    // Only a job under way may have started before the technician could get there, and nothing goes before it
+    const underWay = job.in_progress && visits.length === 0;
+    if (strict && job.pinned_start !== null && arrival > job.pinned_start && !underWay) return INFEASIBLE;
+    const start = job.pinned_start === null ? arrival : job.in_progress ? job.pinned_start : Math.max(arrival, job.pinned_start);
+    const end = start + job.duration_s;
+    if (strict && end > technician.shift_end && !job.in_progress) return INFEASIBLE;
+
+    const breach = job.sla_due !== null && end > job.sla_due;
+    if (strict && breach && job.pinned_start === null && !late.has(job.id)) return INFEASIBLE;
+
+    visits.push({ job_id: job.id, start, end, travel_s: leg.duration_s, distance_m: leg.distance_m, sla_breach: breach });
+    travelTotal += leg.duration_s;
+    clock = end;
+    at = job.location;
+  }
+
+  return { feasible: true, travel_s: travelTotal, visits };
+}
+
+/**
+ * Working state shared by the full plan and the re-plan: each technician's jobs in order
+ */
+class Planner {
+  readonly days = new Map<string, PlanJob[]>();
+  readonly late = new Set<string>();
+
+  constructor(private readonly technicians: PlanTechnician[], private readonly travel: TravelEstimator) {
+    for (const technician of technicians) this.days.set(technician.id, []);
+  }
+
+  /**
+   * Places the job where it adds least travel, or late at its earliest finish, starting no earlier than
+   * notBefore; null when it fits nowhere
+   */
+  place(job: PlanJob, notBefore = -Infinity): string | null {
+    let best = this.cheapestInsertion(job, false, notBefore);
+    if (!best) {
+      this.late.add(job.id);
+      best = this.cheapestInsertion(job, true, notBefore);
+      if (!best) this.late.delete(job.id);
+    }
+    if (!best) return null;
+
+    this.days.get(best.technician_id)!.splice(best.position, 0, job);
+    return best.technician_id;
+  }
+
+  unplaceableReason(job: PlanJob): UnscheduledReason {
+    if (job.technician_id && !this.technicians.some(technician => technician.id === job.technician_id)) return 'technician_unavailable';
+    if (!this.technicians.some(technician => canTake(technician, job))) return 'no_skilled_technician';
+    return 'no_feasible_slot';
+  }
+
+  timing(technician: PlanTechnician, jobs = this.days.get(technician.id)!): Timing {
+    return timeDay(technician, jobs, this.travel, this.late);
+  }
+
+  result(): TechnicianDay[] {
+    return this.technicians.map(technician => ({
+      technician_id: technician.id,
+      visits: timeDay(technician, this.days.get(technician.id)!, this.travel, this.late, false).visits,
+    }));
+  }
+
+  private cheapestInsertion(job: PlanJob, allowLate: boolean, notBefore: number) {
+    let best: { technician_id: string; position: number; cost: number; end: number } | null = null;
+
+    for (const technician of this.technicians) {
+      if (!canTake(technician, job)) continue;
+      const jobs = this.days.get(technician.id)!;
+      const current = this.timing(technician, jobs);
+      if (!current.feasible) continue;
+
+      for (let position = 0; position <= jobs.length; position++) {
+        const candidate = [...jobs.slice(0, position), job, ...jobs.slice(position)];
+        const timing = this.timing(technician, candidate);
+        if (!timing.feasible || timing.visits[position].start < notBefore) continue;
+
+        const end = timing.visits[position].end;
+        // Late jobs go wherever they finish first; the rest wherever they add least travel
+        const cost = allowLate ? end : timing.travel_s - current.travel_s;
+        if (!best || cost < best.cost || (cost === best.cost && end < best.end)) {
+          best = { technician_id: technician.id, position, cost, end };
+        }
+      }
+    }
+
+    return best;
+  }
+}
+
+/**
+ * Proposes the day for every technician
+ */
+export function buildDayPlan(problem: PlanProblem, travel: TravelEstimator = haversineTravel): DayPlan {
+  const planner = new Planner(problem.technicians, travel);
+  const unscheduled: UnscheduledJob[] = [];
+
+  for (const job of [...problem.jobs].sort(byUrgency)) {
+    if (!isValidPosition(job.location)) {
+      unscheduled.push({ job_id: job.id, reason: 'missing_coordinates' });
+    } else if (!planner.place(job)) {
+      unscheduled.push({ job_id: job.id, reason: planner.unplaceableReason(job) });
+    }
+  }
+
+  return { days: planner.result(), unscheduled };
+}
+
+/**
+ * A job now expected to end at expectedEnd: it keeps its start, the technician's later jobs are re-timed
+ * in order, and those that no longer fit are offered to every technician from now on. Other days only
+ * change where a moved job lands. Returns null when the job is not in the plan.
+ */
+export function replanAfterOverrun(
+  problem: PlanProblem,
+  plan: DayPlan,
+  jobId: string,
+  expectedEnd: number,
+  now = -Infinity,
+  travel: TravelEstimator = haversineTravel
+): ReplanResult | null {
+  const jobs = new Map(problem.jobs.map(job => [job.id, job]));
+  const day = plan.days.find(candidate => candidate.visits.some(visit => visit.job_id === jobId));
+  const technician = day && problem.technicians.find(candidate => candidate.id === day.technician_id);
+  if (!day || !technician || !jobs.has(jobId)) return null;
+
+  const planner = new Planner(problem.technicians, travel);
+  for (const other of plan.days) {
+    planner.days.set(other.technician_id, other.visits.map(visit => jobs.get(visit.job_id)!).filter(Boolean));
+    for (const visit of other.visits) if (visit.sla_breach) planner.late.add(visit.job_id);
+  }
+
+  const index = day.visits.findIndex(visit => visit.job_id === jobId);
+  const visit = day.visits[index];
+  const overrun: PlanJob = {
+    ...jobs.get(jobId)!,
+    pinned_start: visit.start,
+    duration_s: Math.max(visit.end, expectedEnd) - visit.start,
+    in_progress: true,
+  };
+
+  const kept = [...planner.days.get(technician.id)!.slice(0, index), overrun];
+  const bumped: PlanJob[] = [];
+  for (const job of planner.days.get(technician.id)!.slice(index + 1)) {
+    if (planner.timing(technician, [...kept, job]).feasible) kept.push(job);
+    else bumped.push(job);
+  }
+  planner.days.set(technician.id, kept);
+
+  const moved: JobMove[] = [];
+  const unscheduled = [...plan.unscheduled];
+  // Bumped jobs lose any manual placement; the time they were pinned to has gone
+  for (const job of bumped.map(job => ({ ...job, pinned_start: null })).sort(byUrgency)) {
+    const to = planner.place(job, now);
+    moved.push({ job_id: job.id, from_technician_id: technician.id, to_technician_id: to });
+    if (!to) unscheduled.push({ job_id: job.id, reason: planner.unplaceableReason(job) });
+  }
+
+  return { days: planner.result(), unscheduled, moved };
+}
+
+/**
+ * Why a job cannot be dropped at this technician and start time; empty when it can. The technician's
+ * other jobs stay where they are, so the job must fit the gap with travel on both sides. Finishing after
+ * the deadline is only refused when the move makes the job later than it is now.
+ */
+export function validateMove(
+  problem: PlanProblem,
+  plan: DayPlan,
+  move: MoveTarget,
+  travel: TravelEstimator = haversineTravel
+): MoveViolation[] {
+  const job = problem.jobs.find(candidate => candidate.id === move.job_id);
+  if (!job) return ['unknown_job'];
+  const technician = problem.technicians.find(candidate => candidate.id === move.technician_id);
+  if (!technician) return ['unknown_technician'];
+  if (job.in_progress) return ['job_in_progress'];
+  if (!isValidPosition(job.location)) return ['missing_coordinates'];
+
+  const violations = new Set<MoveViolation>();
+  const jobs = new Map(problem.jobs.map(candidate => [candidate.id, candidate]));
+  const end = move.start + job.duration_s;
+
+  if (job.technician_id && job.technician_id !== technician.id) violations.add('assigned_to_other_technician');
+  if (!hasSkill(technician, job.skill)) violations.add('missing_skill');
+  if (move.start < technician.shift_start || end > technician.shift_end) violations.add('outside_shift');
+
+  const others = (plan.days.find(day => day.technician_id === technician.id)?.visits ?? [])
+    .filter(visit => visit.job_id !== job.id)
+    .sort((a, b) => a.start - b.start);
+  const previous = [...others].reverse().find(visit => visit.start <= move.start);
+  const next = others.find(visit => visit.start > move.start);
+
+  if (previous) {
+    const from = jobs.get(previous.job_id)?.location;
+    if (previous.end > move.start) violations.add('overlaps');
+    else if (from && previous.end + travel(from, job.location).duration_s > move.start) violations.add('no_time_to_travel');
+  } else if (technician.start && technician.shift_start + travel(technician.start, job.location).duration_s > move.start) {
+    violations.add('no_time_to_travel');
+  }
+
+  if (next) {
+    const to = jobs.get(next.job_id)?.location;
+    if (end > next.start) violations.add('overlaps');
+    else if (to && end + travel(job.location, to).duration_s > next.start) violations.add('no_time_to_travel');
+  }
+
+  const current = plan.days.flatMap(day => day.visits).find(visit => visit.job_id === job.id);
+  if (job.sla_due !== null && end > job.sla_due && end > (current?.end ?? -Infinity)) violations.add('sla_breach');
+
+  return [...violations];
+}
+
+/**
+ * Applies a move that passed validateMove: the job is pinned at its new start and both technicians'
+ * days are re-timed around it. Returns the updated problem alongside the plan.
+ */
+export function applyMove(
+  problem: PlanProblem,
+  plan: DayPlan,
+  move: MoveTarget,
+  travel: TravelEstimator = haversineTravel
+): { problem: PlanProblem; plan: DayPlan } {
+  const moved = problem.jobs.find(job => job.id === move.job_id)!;
+  const pinned: PlanJob = { ...moved, pinned_start: move.start };
+  const nextProblem = { ...problem, jobs: problem.jobs.map(job => (job.id === move.job_id ? pinned : job)) };
+  const jobs = new Map(nextProblem.jobs.map(job => [job.id, job]));
+
+  const planner = new Planner(problem.technicians, travel);
+  for (const day of plan.days) {
+    const visits = day.visits.filter(visit => visit.job_id !== move.job_id);
+    if (day.technician_id === move.technician_id) {
+      visits.push({ job_id: move.job_id, start: move.start, end: move.start + moved.duration_s, travel_s: 0, distance_m: 0, sla_breach: false });
+      visits.sort((a, b) => a.start - b.start);
+    }
+    planner.days.set(day.technician_id, visits.map(visit => jobs.get(visit.job_id)!).filter(Boolean));
+    for (const visit of day.visits) if (visit.sla_breach) planner.late.add(visit.job_id);
+  }
+  planner.late.add(move.job_id);
+
+  return {
+    problem: nextProblem,
+    plan: { days: planner.result(), unscheduled: plan.unscheduled.filter(job => job.job_id !== move.job_id) },
+  };
+}
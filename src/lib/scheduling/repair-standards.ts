@@ -0,0 +1,49 @@
+// repair-standards.ts
+// How long an on-site repair takes and which skill it needs, by device category. Rows in
+// device_repair_standards override the defaults here; categories are matched case-insensitively.
+
+import type { SkillRequirement } from '@/lib/scheduling/day-plan';
+
+export interface RepairStandard {
+  device_category: string;
+  repair_minutes: number;
+  skill_id: string | null;
+  min_skill_level: number;
+}
+
+export interface RepairRequirement {
+  duration_s: number;
+  skill: SkillRequirement | null;
+}
+
+/** Typical time at the customer's address, including diagnosis and testing */
+export const DEFAULT_REPAIR_MINUTES: Record<string, number> = {
+  mobile: 45,
+  laptop: 75,
+  microwave: 60,
+  television: 90,
+  tv: 90,
+  'washing machine': 105,
+  refrigerator: 120,
+  'air conditioner': 120,
+  ac: 120,
+};
+
+/** Used for categories with neither a standard nor a default */
+export const FALLBACK_REPAIR_MINUTES = 60;
+
+export const normalizeCategory = (category: string) => category.trim().toLowerCase().replace(/[_-]+/g, ' ');
+
+/**
+ * Duration and skill for a repair; a standard without a skill only sets the duration
+ */
+export function repairRequirement(category: string, standards: RepairStandard[]): RepairRequirement {
+  const key = normalizeCategory(category);
+  const standard = standards.find(candidate => normalizeCategory(candidate.device_category) === key);
+  const minutes = standard?.repair_minutes ?? DEFAULT_REPAIR_MINUTES[key] ?? FALLBACK_REPAIR_MINUTES;
+
+  return {
+    duration_s: Math.round(minutes * 60),
+    skill: standard?.skill_id ? { skill_id: standard.skill_id, min_level: Math.max(1, standard.min_skill_level) } : null,
+  };
+}
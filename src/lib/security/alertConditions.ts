@@ -0,0 +1,289 @@
+/**
+ * Expression-based conditions for security alert rules.
+ *
+ * A rule's condition is an expression tree evaluated per group key (e.g. per user or phone):
+ *   - count:          number of matching events in the window reaches a threshold
+ *   - distinct_count: number of distinct values of a field reaches a threshold
+ *   - rate_of_change: count in the window compared to the window before it
+ *   - sequence:       ordered steps (possibly from different sources) within a time limit
+ *   - all / any:      combine the above
+ * Every node can narrow its events further with field filters (eq, neq, in, regex).
+ */
+
+export type SecurityEvent = Record<string, any>;
+
+export interface FieldFilter {
+  field: string;
+  op: 'eq' | 'neq' | 'in' | 'regex';
+  value: string | number | boolean | Array<string | number | boolean>;
+}
+
+export interface CountExpression {
+  type: 'count';
+  threshold: number;
+  filters?: FieldFilter[];
+}
+
+export interface DistinctCountExpression {
+  type: 'distinct_count';
+  field: string;
+  threshold: number;
+  filters?: FieldFilter[];
+}
+
+export interface RateOfChangeExpression {
+  type: 'rate_of_change';
+  ratio: number;      // Current window count must be at least ratio x the previous window count
+  min_count?: number; // Ignore spikes smaller than this (default 1)
+  filters?: FieldFilter[];
+}
+
+export interface SequenceStep {
+  source?: string;    // Defaults to the rule's source_type
+  group_by?: string;  // Field holding the group key in this source (defaults to the rule's group_by)
+  min_count?: number; // Events needed for this step (default 1)
+  filters?: FieldFilter[];
+}
+
+export interface SequenceExpression {
+  type: 'sequence';
+  steps: SequenceStep[];
+  within_minutes: number; // From the first event of the first step to the last event of the last step
+}
+
+export type AlertExpression =
+  | CountExpression
+  | DistinctCountExpression
+  | RateOfChangeExpression
+  | SequenceExpression
+  | { all: AlertExpression[] }
+  | { any: AlertExpression[] };
+
+/**
+ * An event with its timestamp resolved by the event source registry
+ */
+export interface TimedEvent {
+  at: number;
+  data: SecurityEvent;
+}
+
+export interface AlertEvaluationContext {
+  key: string;
+  groupBy: string;
+  primarySource: string;
+  windowMinutes: number;
+  now: number;
+  // Events per source covering the lookback period, already narrowed by the rule-level filters
+  events: Record<string, TimedEvent[]>;
+}
+
+export interface AlertEvaluationResult {
+  matched: boolean;
+  events: SecurityEvent[];          // Evidence for the alert
+  details: Record<string, unknown>; // Measured values, stored in the alert metadata
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Check whether an event passes a single field filter
+ */
+export function matchesFilter(event: SecurityEvent, filter: FieldFilter): boolean {
+  const actual = getFieldValue(event, filter.field);
+
+  switch (filter.op) {
+    case 'eq':
+      return actual === filter.value || (actual !== undefined && actual !== null && String(actual) === String(filter.value));
+    case 'neq':
+      return !matchesFilter(event, { ...filter, op: 'eq' });
+    case 'in':
+      return Array.isArray(filter.value) && filter.value.some(value => matchesFilter(event, { field: filter.field, op: 'eq', value }));
+    case 'regex':
+      if (actual === undefined || actual === null) return false;
+      try {
+        return new RegExp(String(filter.value)).test(String(actual));
+      } catch {
+        return false; // Invalid patterns never match rather than breaking the whole rule
+      }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check whether an event passes every filter
+ */
+export function matchesFilters(event: SecurityEvent, filters: FieldFilter[] = []): boolean {
+  return filters.every(filter => matchesFilter(event, filter));
+}
+
+/**
+ * Read a field, supporting dotted paths into JSON columns (e.g. "metadata.device_id")
+ */
+export function getFieldValue(event: SecurityEvent, field: string): any {
+  return field.split('.').reduce((value, part) => (value === undefined || value === null ? undefined : value[part]), event as any);
+}
+
+/**
+ * How far back events must be fetched to evaluate an expression
+ * @returns Lookback in minutes
+ */
+export function getLookbackMinutes(expression: AlertExpression, windowMinutes: number): number {
+  if ('all' in expression) return Math.max(windowMinutes, ...expression.all.map(e => getLookbackMinutes(e, windowMinutes)));
+  if ('any' in expression) return Math.max(windowMinutes, ...expression.any.map(e => getLookbackMinutes(e, windowMinutes)));
+
+  switch (expression.type) {
+    case 'rate_of_change':
+      return windowMinutes * 2;
+    case 'sequence':
+      return Math.max(windowMinutes, expression.within_minutes);
+    default:
+      return windowMinutes;
+  }
+}
+
+/**
+ * Sources an expression reads from, besides the rule's primary source
+ */
+export function getReferencedSources(expression: AlertExpression, primarySource: string): string[] {
+  if ('all' in expression || 'any' in expression) {
+    const children = 'all' in expression ? expression.all : expression.any;
+    return Array.from(new Set(children.flatMap(e => getReferencedSources(e, primarySource))));
+  }
+  if (expression.type === 'sequence') {
+    return Array.from(new Set(expression.steps.map(step => step.source || primarySource)));
+  }
+  return [primarySource];
+}
+
+/**
+ * Evaluate an expression for one group key
+ */
+export function evaluateAlertExpression(
+  expression: AlertExpression,
+  context: AlertEvaluationContext
+): AlertEvaluationResult {
+  if ('all' in expression) {
+    const results = expression.all.map(e => evaluateAlertExpression(e, context));
+    return combine(results, results.length > 0 && results.every(r => r.matched));
+  }
+  if ('any' in expression) {
+    const results = expression.any.map(e => evaluateAlertExpression(e, context));
+    return combine(results.filter(r => r.matched), results.some(r => r.matched));
+  }
+
+  switch (expression.type) {
+    case 'count': {
+      const events = eventsInWindow(context, expression.filters, 0);
+      return {
+        matched: events.length >= expression.threshold,
+        events,
+        details: { count: events.length, threshold: expression.threshold },
+      };
+    }
+    case 'distinct_count': {
+      const events = eventsInWindow(context, expression.filters, 0);
+      const distinct = new Set(
+        events
+          .map(event => getFieldValue(event, expression.field))
+          .filter(value => value !== undefined && value !== null)
+          .map(value => String(value))
+      );
+      return {
+        matched: distinct.size >= expression.threshold,
+        events,
+        details: { distinct_field: expression.field, distinct_count: distinct.size, threshold: expression.threshold },
+      };
+    }
+    case 'rate_of_change': {
+      const current = eventsInWindow(context, expression.filters, 0);
+      const previous = eventsInWindow(context, expression.filters, 1);
+      const minCount = expression.min_count ?? 1;
+      const ratio = previous.length > 0 ? current.length / previous.length : null;
+      return {
+        matched: current.length >= minCount && (ratio === null || ratio >= expression.ratio),
+        events: current,
+        details: { current_count: current.length, previous_count: previous.length, ratio, required_ratio: expression.ratio },
+      };
+    }
+    case 'sequence':
+      return evaluateSequence(expression, context);
+    default:
+      return { matched: false, events: [], details: {} };
+  }
+}
+
+function combine(results: AlertEvaluationResult[], matched: boolean): AlertEvaluationResult {
+  return {
+    matched,
+    events: results.flatMap(r => r.events),
+    details: { conditions: results.map(r => r.details) },
+  };
+}
+
+/**
+ * Events of the primary source for the context key in the current window (offset 0)
+ * or the window before it (offset 1)
+ */
+function eventsInWindow(context: AlertEvaluationContext, filters: FieldFilter[] | undefined, offset: number): SecurityEvent[] {
+  const windowMs = context.windowMinutes * MINUTE_MS;
+  const end = context.now - offset * windowMs;
+  const start = end - windowMs;
+
+  return (context.events[context.primarySource] || [])
+    .filter(event => event.at > start && event.at <= end)
+    .filter(event => String(getFieldValue(event.data, context.groupBy)) === context.key)
+    .filter(event => matchesFilters(event.data, filters))
+    .map(event => event.data);
+}
+
+/**
+ * Find the steps in order, each after the previous one, all within within_minutes of the first event
+ */
+function evaluateSequence(expression: SequenceExpression, context: AlertEvaluationContext): AlertEvaluationResult {
+  const withinMs = expression.within_minutes * MINUTE_MS;
+
+  const stepEvents = expression.steps.map(step => {
+    const groupBy = step.group_by || context.groupBy;
+    return (context.events[step.source || context.primarySource] || [])
+      .filter(event => String(getFieldValue(event.data, groupBy)) === context.key)
+      .filter(event => matchesFilters(event.data, step.filters))
+      .sort((a, b) => a.at - b.at);
+  });
+
+  if (stepEvents.length === 0) {
+    return { matched: false, events: [], details: { steps: 0 } };
+  }
+
+  // Try each first-step event as the start of the chain
+  for (const start of stepEvents[0]) {
+    const chain: TimedEvent[] = [];
+    let cursor = start.at;
+    let complete = true;
+
+    for (let i = 0; i < expression.steps.length; i++) {
+      const needed = expression.steps[i].min_count ?? 1;
+      // The first step starts at the candidate itself; later steps must come strictly after
+      const candidates = stepEvents[i].filter(event => (i === 0 ? event.at >= cursor : event.at > cursor));
+      const taken = candidates.slice(0, needed);
+
+      if (taken.length < needed || taken[taken.length - 1].at - start.at > withinMs) {
+        complete = false;
+        break;
+      }
+
+      chain.push(...taken);
+      cursor = taken[taken.length - 1].at;
+    }
+
+    if (complete) {
+      return {
+        matched: true,
+        events: chain.map(event => event.data),
+        details: { steps: expression.steps.length, duration_minutes: Math.round((cursor - start.at) / MINUTE_MS) },
+      };
+    }
+  }
+
+  return { matched: false, events: [], details: { steps: expression.steps.length } };
+}
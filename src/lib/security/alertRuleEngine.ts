@@ -1,5 +1,16 @@
 import { createClient } from '@supabase/supabase-js';
-import { SecurityEventSource } from './eventSources';
+import { SecurityEventSource, getEventSourceDefinition } from './eventSources';
+import {
+  AlertExpression,
+  AlertEvaluationResult,
+  FieldFilter,
+  TimedEvent,
+  evaluateAlertExpression,
+  getFieldValue,
+  getLookbackMinutes,
+  getReferencedSources,
+  matchesFilters
+} from './alertConditions';
 
 interface AlertRule {
   id: string;
@@ -9,11 +20,14 @@ interface AlertRule {
   severity: string;
   source_type: string;
   condition: {
-    event_type?: string;
+    event_type?: string;          // Shorthand for an event_type eq filter
     window_minutes: number;
-    threshold: number;
+    threshold?: number;           // Shorthand for a count expression
     group_by: string;
+    filters?: FieldFilter[];      // Applied to the rule's source before evaluation
+    expression?: AlertExpression; // See alertConditions.ts
   };
+  suppression_minutes?: number | null; // Defaults to window_minutes
 }
 
 interface Alert {
@@ -80,46 +94,58 @@ export class AlertRuleEngine {
     console.log(`[AlertRuleEngine] Processing rule: ${rule.name} (${rule.id})`);
 
     try {
-      // Based on the source type, call appropriate event source method
-      let events: any[] = [];
-      
-      switch (rule.source_type) {
-        case 'admin_security_events':
-          events = await this.eventSource.getAdminSecurityEvents(
-            rule.condition.event_type || null,
-            rule.condition.window_minutes,
-            rule.condition.group_by
-          );
-          break;
-        case 'device_lock_conflicts':
-          events = await this.eventSource.getDeviceConflicts(
-            rule.condition.window_minutes,
-            rule.condition.group_by
-          );
-          break;
-        case 'login_otp_requests':
-          events = await this.eventSource.getOtpRequests(
-            rule.condition.window_minutes,
-            rule.condition.group_by
-          );
-          break;
-        default:
-          console.warn(`[AlertRuleEngine] Unknown source type: ${rule.source_type}`);
-          return;
+      const condition = rule.condition;
+      const expression = this.getExpression(rule);
+      const now = Date.now();
+
+      const sources = Array.from(new Set([rule.source_type, ...getReferencedSources(expression, rule.source_type)]));
+      const unknownSource = sources.find(source => !getEventSourceDefinition(source));
+      if (unknownSource) {
+        console.warn(`[AlertRuleEngine] Unknown source type: ${unknownSource}`);
+        return;
       }
 
-      // Group events by the specified field and count occurrences
-      const groupedEvents = this.groupEventsByField(events, rule.condition.group_by);
-      
-      // Check if any group exceeds the threshold
-      for (const [key, eventGroup] of Object.entries(groupedEvents)) {
-        if (eventGroup.length >= rule.condition.threshold) {
-          // Check if we've recently generated an alert for the same key to avoid duplicates
-          const recentlyAlerted = await this.hasRecentlyAlerted(rule.id, key, rule.condition.window_minutes);
-          
+      // Fetch every source the rule reads from, far enough back for its conditions
+      const since = new Date(now - getLookbackMinutes(expression, condition.window_minutes) * 60 * 1000);
+      const events: Record<string, TimedEvent[]> = {};
+      for (const source of sources) {
+        const timestampField = getEventSourceDefinition(source)!.timestampField;
+        const rows = await this.eventSource.getEvents(source, since);
+        events[source] = rows
+          .map(row => ({ at: new Date(row[timestampField]).getTime(), data: row }))
+          .filter(event => !Number.isNaN(event.at));
+      }
+
+      // Rule-level filters narrow the primary source
+      const ruleFilters = this.getRuleFilters(rule);
+      events[rule.source_type] = events[rule.source_type].filter(event => matchesFilters(event.data, ruleFilters));
+
+      // Evaluate the expression for every group key seen on the primary source
+      const keys = new Set<string>();
+      for (const event of events[rule.source_type]) {
+        const key = getFieldValue(event.data, condition.group_by);
+        if (key !== undefined && key !== null && key !== '') {
+          keys.add(String(key));
+        }
+      }
+
+      for (const key of Array.from(keys)) {
+        const result = evaluateAlertExpression(expression, {
+          key,
+          groupBy: condition.group_by,
+          primarySource: rule.source_type,
+          windowMinutes: condition.window_minutes,
+          now,
+          events
+        });
+
+        if (result.matched) {
+          // Skip keys still inside the rule's suppression window to avoid duplicates
+          const suppressionMinutes = rule.suppression_minutes ?? condition.window_minutes;
+          const recentlyAlerted = await this.hasRecentlyAlerted(rule.id, key, suppressionMinutes);
+
           if (!recentlyAlerted) {
-            // Create an alert
-            await this.createAlert(rule, key, eventGroup);
+            await this.createAlert(rule, key, result);
           }
         }
       }
@@ -129,22 +155,21 @@ export class AlertRuleEngine {
   }
 
   /**
-   * Group events by a specified field
+   * Expression for a rule; rules without one keep the original count-threshold behaviour
    */
-  private groupEventsByField(events: any[], groupByField: string): Record<string, any[]> {
-    const grouped: Record<string, any[]> = {};
-    
-    for (const event of events) {
-      const key = event[groupByField];
-      if (key) {
-        if (!grouped[key]) {
-          grouped[key] = [];
-        }
-        grouped[key].push(event);
-      }
+  private getExpression(rule: AlertRule): AlertExpression {
+    return rule.condition.expression ?? { type: 'count', threshold: rule.condition.threshold ?? 1 };
+  }
+
+  /**
+   * Rule-level filters, including the event_type shorthand
+   */
+  private getRuleFilters(rule: AlertRule): FieldFilter[] {
+    const filters = [...(rule.condition.filters || [])];
+    if (rule.condition.event_type) {
+      filters.push({ field: 'event_type', op: 'eq', value: rule.condition.event_type });
     }
-    
-    return grouped;
+    return filters;
   }
 
   /**
@@ -177,10 +202,11 @@ export class AlertRuleEngine {
   /**
    * Create a security alert
    */
-  private async createAlert(rule: AlertRule, key: string, events: any[]): Promise<void> {
+  private async createAlert(rule: AlertRule, key: string, result: AlertEvaluationResult): Promise<void> {
     console.log(`[AlertRuleEngine] Creating alert for rule ${rule.name}, key ${key}`);
 
     try {
+      const events = result.events;
       const message = this.generateAlertMessage(rule, key, events);
       
       const alert: Alert = {
@@ -191,6 +217,7 @@ export class AlertRuleEngine {
         metadata: {
           key: key,
           event_count: events.length,
+          evaluation: result.details,
           triggered_at: new Date().toISOString(),
           related_events: events.slice(0, 5).map(event => ({
             id: event.id,
@@ -225,6 +252,10 @@ export class AlertRuleEngine {
         return `Multiple device conflicts detected (${events.length}) for user ${key} in the last ${rule.condition.window_minutes} minutes.`;
       case 'OTP_ABUSE_SINGLE_NUMBER':
         return `High volume of OTP requests (${events.length}) for phone number ${key} in the last ${rule.condition.window_minutes} minutes.`;
+      case 'OTP_PUMPING_SINGLE_IP':
+        return `Possible OTP pumping: ${events.length} OTP request cooldowns from IP ${key} in the last ${rule.condition.window_minutes} minutes.`;
+      case 'OTP_VERIFY_LOCKOUTS':
+        return `Repeated OTP verification lockouts (${events.length}) for phone number ${key} in the last ${rule.condition.window_minutes} minutes.`;
       default:
         return `Security rule "${rule.name}" triggered for ${rule.condition.group_by} "${key}" with ${events.length} events in the last ${rule.condition.window_minutes} minutes.`;
     }
@@ -0,0 +1,406 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Audit log hash chain and signed exports.
+ *
+ * Each audit_log_entries row stores hash = SHA-256 of its fields plus prev_hash (computed by the
+ * database trigger). Exports carry every row's prev_hash/hash and ship with a detached manifest
+ * holding the first and last hashes, row count, a SHA-256 of the file and an HMAC-SHA256 signature,
+ * so an auditor can verify a file offline (see scripts/verify_audit_export.js).
+ */
+
+export const AUDIT_LOG_COLUMNS = [
+  'id',
+  'created_at',
+  'actor_user_id',
+  'actor_role',
+  'session_id',
+  'ip_address',
+  'user_agent',
+  'event_type',
+  'entity_type',
+  'entity_id',
+  'severity',
+  'metadata',
+  'prev_hash',
+  'hash',
+] as const;
+
+export type AuditExportFormat = 'jsonl' | 'csv';
+
+export interface AuditLogRow {
+  id: string;
+  created_at: string;
+  actor_user_id: string | null;
+  actor_role: string | null;
+  session_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  event_type: string;
+  entity_type: string;
+  entity_id: string | null;
+  severity: string;
+  metadata: Record<string, any> | null;
+  prev_hash: string | null;
+  hash: string;
+}
+
+export interface AuditExportManifest {
+  version: 1;
+  export_id: string;
+  format: AuditExportFormat;
+  generated_at: string;
+  filters: Record<string, string | null>;
+  // False when filters other than the date range were applied: rows then skip entries of the
+  // chain, so only each row's own hash can be checked, not the prev_hash links
+  chain_contiguous: boolean;
+  row_count: number;
+  anchor_prev_hash: string | null; // prev_hash of the first exported row
+  first_hash: string | null;
+  last_hash: string | null;
+  content_sha256: string;
+  signature_algorithm: 'HMAC-SHA256';
+  signature: string;
+}
+
+export interface AuditLogFilters {
+  date_from?: string | null;
+  date_to?: string | null;
+  actor_user_id?: string | null;
+  event_type?: string | null;
+  entity_type?: string | null;
+  severity?: string | null;
+}
+
+export interface AuditChainResult {
+  ok: boolean;
+  first_invalid_id: string | null;
+  reason?: 'hash_mismatch' | 'chain_broken';
+}
+
+// CSV header labels, in AUDIT_LOG_COLUMNS order
+const CSV_HEADERS = [
+  'ID',
+  'Timestamp',
+  'Actor User ID',
+  'Actor Role',
+  'Session ID',
+  'IP Address',
+  'User Agent',
+  'Event Type',
+  'Entity Type',
+  'Entity ID',
+  'Severity',
+  'Metadata',
+  'Previous Hash',
+  'Hash',
+];
+
+/**
+ * Compute the hash for a log entry (must match the database trigger)
+ */
+export function computeAuditLogHash(log: Partial<AuditLogRow>): string {
+  const inputString =
+    (log.created_at || '') +
+    (log.actor_user_id || '') +
+    (log.actor_role || '') +
+    (log.session_id || '') +
+    (log.ip_address || '') +
+    (log.user_agent || '') +
+    (log.event_type || '') +
+    (log.entity_type || '') +
+    (log.entity_id || '') +
+    (log.severity || '') +
+    (JSON.stringify(log.metadata || {})) +
+    (log.prev_hash || '');
+
+  const hash = createHash('sha256');
+  hash.update(inputString);
+  return hash.digest('hex');
+}
+
+/**
+ * Incrementally verifies rows in chain order, so large ranges can be checked page by page
+ */
+export class AuditChainVerifier {
+  private prevHash: string | null | undefined;
+  private failure: AuditChainResult | null = null;
+  private count = 0;
+
+  /**
+   * @param anchorPrevHash Expected prev_hash of the first row; undefined accepts whatever the first row has
+   * @param checkLinks Whether prev_hash must equal the previous row's hash
+   */
+  constructor(anchorPrevHash?: string | null, private checkLinks: boolean = true) {
+    this.prevHash = anchorPrevHash;
+  }
+
+  /**
+   * Check the next row. Returns false once the chain has failed.
+   */
+  push(log: Partial<AuditLogRow>): boolean {
+    if (this.failure) return false;
+
+    if (this.checkLinks && this.prevHash !== undefined && (log.prev_hash || null) !== (this.prevHash || null)) {
+      this.failure = { ok: false, first_invalid_id: log.id || null, reason: 'chain_broken' };
+      return false;
+    }
+
+    if (computeAuditLogHash(log) !== log.hash) {
+      this.failure = { ok: false, first_invalid_id: log.id || null, reason: 'hash_mismatch' };
+      return false;
+    }
+
+    this.prevHash = log.hash;
+    this.count++;
+    return true;
+  }
+
+  get verifiedCount(): number {
+    return this.count;
+  }
+
+  get lastHash(): string | null {
+    return this.prevHash ?? null;
+  }
+
+  result(): AuditChainResult {
+    return this.failure ?? { ok: true, first_invalid_id: null };
+  }
+}
+
+/**
+ * Serialise a row as one JSONL line (including the trailing newline)
+ */
+export function toJSONLLine(row: AuditLogRow): string {
+  const ordered: Record<string, unknown> = {};
+  for (const column of AUDIT_LOG_COLUMNS) {
+    ordered[column] = row[column] ?? null;
+  }
+  return JSON.stringify(ordered) + '\n';
+}
+
+/**
+ * CSV header row (including the trailing newline)
+ */
+export function csvHeaderLine(): string {
+  return CSV_HEADERS.join(',') + '\n';
+}
+
+const csvField = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+/**
+ * Serialise a row as one CSV line (including the trailing newline).
+ * Metadata is written as the exact JSON used for hashing.
+ */
+export function toCSVLine(row: AuditLogRow): string {
+  return AUDIT_LOG_COLUMNS.map(column => {
+    if (column === 'metadata') return csvField(JSON.stringify(row.metadata || {}));
+    const value = row[column];
+    return csvField(value === null || value === undefined ? '' : String(value));
+  }).join(',') + '\n';
+}
+
+/**
+ * Parse an exported file back into rows
+ */
+export function parseAuditExport(content: string, format: AuditExportFormat): AuditLogRow[] {
+  if (format === 'jsonl') {
+    return content
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line) as AuditLogRow);
+  }
+
+  const records = parseCSV(content);
+  return records.slice(1).map(fields => {
+    const row: Record<string, any> = {};
+    AUDIT_LOG_COLUMNS.forEach((column, index) => {
+      const value = fields[index] ?? '';
+      row[column] = column === 'metadata' ? JSON.parse(value || '{}') : value === '' ? null : value;
+    });
+    return row as AuditLogRow;
+  });
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes and embedded newlines
+ */
+function parseCSV(content: string): string[][] {
+  const records: string[][] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n') {
+      fields.push(field);
+      records.push(fields);
+      fields = [];
+      field = '';
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) {
+    fields.push(field);
+    records.push(fields);
+  }
+  return records;
+}
+
+/**
+ * Canonical form of the manifest that is signed: every field except the signature, keys sorted
+ */
+export function canonicalManifestPayload(manifest: Omit<AuditExportManifest, 'signature'> | AuditExportManifest): string {
+  const unsigned: Record<string, unknown> = { ...manifest };
+  delete unsigned.signature;
+  const sorted = (value: any): any => {
+    if (Array.isArray(value)) return value.map(sorted);
+    if (value && typeof value === 'object') {
+      return Object.keys(value).sort().reduce((acc, key) => ({ ...acc, [key]: sorted(value[key]) }), {});
+    }
+    return value;
+  };
+  return JSON.stringify(sorted(unsigned));
+}
+
+/**
+ * Sign a manifest with HMAC-SHA256
+ */
+export function signAuditManifest(manifest: Omit<AuditExportManifest, 'signature'>, key: string): AuditExportManifest {
+  const signature = createHmac('sha256', key).update(canonicalManifestPayload(manifest)).digest('hex');
+  return { ...manifest, signature };
+}
+
+/**
+ * Verify an exported file against its manifest
+ * @param content The exported file contents
+ * @param manifest The detached manifest
+ * @param key The HMAC signing key
+ * @returns Chain result plus whether the signature and file digest check out
+ */
+export function verifyAuditExport(
+  content: string,
+  manifest: AuditExportManifest,
+  key: string
+): AuditChainResult & { signature_valid: boolean; content_valid: boolean; row_count_valid: boolean } {
+  const expected = createHmac('sha256', key).update(canonicalManifestPayload(manifest)).digest();
+  const actual = Buffer.from(manifest.signature || '', 'hex');
+  const signatureValid = actual.length === expected.length && timingSafeEqual(actual, expected);
+
+  const contentValid = createHash('sha256').update(content).digest('hex') === manifest.content_sha256;
+
+  const rows = parseAuditExport(content, manifest.format);
+  const verifier = new AuditChainVerifier(manifest.anchor_prev_hash, manifest.chain_contiguous);
+  for (const row of rows) {
+    if (!verifier.push(row)) break;
+  }
+
+  const chain = verifier.result();
+  const endpointsValid =
+    (rows[0]?.hash ?? null) === manifest.first_hash &&
+    (rows[rows.length - 1]?.hash ?? null) === manifest.last_hash;
+
+  return {
+    ...chain,
+    ok: chain.ok && signatureValid && contentValid && endpointsValid && rows.length === manifest.row_count,
+    signature_valid: signatureValid,
+    content_valid: contentValid,
+    row_count_valid: rows.length === manifest.row_count,
+  };
+}
+
+// Rows fetched per page when paging through the log
+const PAGE_SIZE = 1000;
+
+/**
+ * Page through matching entries in chain order using keyset pagination on (created_at, id)
+ * @param supabase Service-role client
+ * @param filters Entry filters
+ * @param after Start strictly after this entry (e.g. a checkpoint)
+ */
+export async function* fetchAuditLogPages(
+  supabase: SupabaseClient,
+  filters: AuditLogFilters,
+  after: { created_at: string; id: string } | null = null
+): AsyncGenerator<AuditLogRow[]> {
+  let cursor = after;
+
+  while (true) {
+    let query = supabase
+      .from('audit_log_entries')
+      .select(AUDIT_LOG_COLUMNS.join(', '))
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(PAGE_SIZE);
+
+    // Apply filters
+    if (filters.date_from) {
+      query = query.gte('created_at', filters.date_from);
+    }
+
+    if (filters.date_to) {
+      query = query.lte('created_at', filters.date_to);
+    }
+
+    if (filters.actor_user_id) {
+      query = query.eq('actor_user_id', filters.actor_user_id);
+    }
+
+    if (filters.event_type) {
+      query = query.eq('event_type', filters.event_type);
+    }
+
+    if (filters.entity_type) {
+      query = query.eq('entity_type', filters.entity_type);
+    }
+
+    if (filters.severity) {
+      query = query.eq('severity', filters.severity);
+    }
+
+    if (cursor) {
+      query = query.or(
+        `created_at.gt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.gt.${cursor.id})`
+      );
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const rows = (data || []) as unknown as AuditLogRow[];
+    if (rows.length === 0) {
+      return;
+    }
+
+    yield rows;
+
+    if (rows.length < PAGE_SIZE) {
+      return;
+    }
+
+    const last = rows[rows.length - 1];
+    cursor = { created_at: last.created_at, id: last.id };
+  }
+}
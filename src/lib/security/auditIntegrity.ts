@@ -0,0 +1,286 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  AuditChainVerifier,
+  AuditLogRow,
+  AUDIT_LOG_COLUMNS,
+  computeAuditLogHash,
+  fetchAuditLogPages
+} from './auditExport';
+
+/**
+ * A signed record that the audit chain was verified up to (and including) a given entry
+ */
+export interface AuditChainCheckpoint {
+  id: string;
+  entry_id: string;
+  entry_created_at: string;
+  hash: string;
+  signature: string;
+  created_at: string;
+}
+
+export interface AuditIntegrityResult {
+  ok: boolean;
+  first_invalid_id: string | null;
+  reason?: 'hash_mismatch' | 'chain_broken' | 'checkpoint_mismatch';
+  checkpoint_id: string | null;      // Checkpoint verification started from (null = start of the log)
+  verified_count: number;            // Entries re-hashed in this run
+  last_verified_id: string | null;
+  context: AuditLogRow[];            // Entries around the first broken link
+  alert_raised: boolean;
+}
+
+// Entries reported on each side of a broken link
+const CONTEXT_ENTRIES = 2;
+
+export class AuditIntegrityService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase?: SupabaseClient) {
+    this.supabase = supabase ?? createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    );
+  }
+
+  /**
+   * Verify the chain from the nearest valid checkpoint onward, re-hashing only the tail.
+   * Raises a security alert if tampering is detected.
+   * @param dateFrom Only entries from this point need verifying; the checkpoint at or before it is used
+   * @param dateTo Stop verifying after this point
+   */
+  async verify(dateFrom?: string | null, dateTo?: string | null): Promise<AuditIntegrityResult> {
+    const checkpoint = await this.findStartingCheckpoint(dateFrom);
+
+    // The checkpointed entry itself must still carry the hash that was signed
+    if (checkpoint) {
+      const entry = await this.getEntry(checkpoint.entry_id);
+      if (!entry || entry.hash !== checkpoint.hash || computeAuditLogHash(entry) !== entry.hash) {
+        return this.reportTampering({
+          ok: false,
+          first_invalid_id: checkpoint.entry_id,
+          reason: 'checkpoint_mismatch',
+          checkpoint_id: checkpoint.id,
+          verified_count: 0,
+          last_verified_id: null,
+          context: [],
+          alert_raised: false
+        }, checkpoint.entry_created_at);
+      }
+    }
+
+    const verifier = new AuditChainVerifier(checkpoint ? checkpoint.hash : null);
+    const after = checkpoint ? { created_at: checkpoint.entry_created_at, id: checkpoint.entry_id } : null;
+    let lastVerified: AuditLogRow | null = null;
+    let brokenEntry: AuditLogRow | null = null;
+
+    for await (const page of fetchAuditLogPages(this.supabase, { date_to: dateTo }, after)) {
+      for (const row of page) {
+        if (!verifier.push(row)) {
+          brokenEntry = row;
+          break;
+        }
+        lastVerified = row;
+      }
+      if (brokenEntry) break;
+    }
+
+    const chain = verifier.result();
+    const result: AuditIntegrityResult = {
+      ...chain,
+      checkpoint_id: checkpoint?.id ?? null,
+      verified_count: verifier.verifiedCount,
+      last_verified_id: lastVerified?.id ?? checkpoint?.entry_id ?? null,
+      context: [],
+      alert_raised: false
+    };
+
+    if (brokenEntry) {
+      return this.reportTampering(result, brokenEntry.created_at);
+    }
+
+    return result;
+  }
+
+  /**
+   * Verify the tail and, if intact, record a signed checkpoint at the newest entry
+   * @returns The verification result and the new checkpoint (null if nothing new was verified)
+   */
+  async createCheckpoint(): Promise<{ result: AuditIntegrityResult; checkpoint: AuditChainCheckpoint | null }> {
+    const result = await this.verify();
+
+    if (!result.ok || result.verified_count === 0 || !result.last_verified_id) {
+      return { result, checkpoint: null };
+    }
+
+    const entry = await this.getEntry(result.last_verified_id);
+    if (!entry) {
+      return { result, checkpoint: null };
+    }
+
+    const { data, error } = await this.supabase
+      .from('audit_chain_checkpoints')
+      .insert([{
+        entry_id: entry.id,
+        entry_created_at: entry.created_at,
+        hash: entry.hash,
+        verified_count: result.verified_count,
+        signature: signCheckpoint(entry.id, entry.hash)
+      }])
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to store audit checkpoint: ${error.message}`);
+    }
+
+    return { result, checkpoint: data as AuditChainCheckpoint };
+  }
+
+  /**
+   * Newest checkpoint at or before dateFrom (or overall) whose signature is valid
+   */
+  private async findStartingCheckpoint(dateFrom?: string | null): Promise<AuditChainCheckpoint | null> {
+    let query = this.supabase
+      .from('audit_chain_checkpoints')
+      .select('*')
+      .order('entry_created_at', { ascending: false })
+      .limit(20);
+
+    if (dateFrom) {
+      query = query.lte('entry_created_at', dateFrom);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching audit checkpoints:', error);
+      return null; // Fall back to verifying from the start of the log
+    }
+
+    for (const checkpoint of (data || []) as AuditChainCheckpoint[]) {
+      if (isCheckpointSignatureValid(checkpoint)) {
+        return checkpoint;
+      }
+      console.warn(`[AuditIntegrity] Ignoring checkpoint ${checkpoint.id} with an invalid signature`);
+    }
+
+    return null;
+  }
+
+  private async getEntry(id: string): Promise<AuditLogRow | null> {
+    const { data, error } = await this.supabase
+      .from('audit_log_entries')
+      .select(AUDIT_LOG_COLUMNS.join(', '))
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return data as unknown as AuditLogRow | null;
+  }
+
+  /**
+   * Entries immediately before and after a point in the chain
+   */
+  private async getContext(createdAt: string): Promise<AuditLogRow[]> {
+    const columns = AUDIT_LOG_COLUMNS.join(', ');
+
+    const [before, after] = await Promise.all([
+      this.supabase
+        .from('audit_log_entries')
+        .select(columns)
+        .lt('created_at', createdAt)
+        .order('created_at', { ascending: false })
+        .limit(CONTEXT_ENTRIES),
+      this.supabase
+        .from('audit_log_entries')
+        .select(columns)
+        .gte('created_at', createdAt)
+        .order('created_at', { ascending: true })
+        .limit(CONTEXT_ENTRIES + 1)
+    ]);
+
+    return [
+      ...((before.data || []) as unknown as AuditLogRow[]).reverse(),
+      ...((after.data || []) as unknown as AuditLogRow[])
+    ];
+  }
+
+  /**
+   * Attach the surrounding entries and raise a security alert (once per broken entry)
+   */
+  private async reportTampering(result: AuditIntegrityResult, createdAt: string): Promise<AuditIntegrityResult> {
+    const context = await this.getContext(createdAt);
+    const key = result.first_invalid_id || 'unknown';
+
+    const { count, error: existingError } = await this.supabase
+      .from('security_alerts')
+      .select('*', { count: 'exact', head: true })
+      .eq('source_type', 'audit_log_entries')
+      .eq('metadata->>key', key)
+      .eq('status', 'open');
+
+    if (existingError) {
+      console.error('Error checking existing tamper alerts:', existingError);
+    }
+
+    if (count) {
+      return { ...result, context };
+    }
+
+    const { error } = await this.supabase
+      .from('security_alerts')
+      .insert([{
+        rule_id: null,
+        source_type: 'audit_log_entries',
+        severity: 'high',
+        message: `Audit log tampering detected: ${result.reason} at entry ${key}.`,
+        metadata: {
+          key,
+          reason: result.reason,
+          checkpoint_id: result.checkpoint_id,
+          triggered_at: new Date().toISOString(),
+          related_events: context.map(entry => ({
+            id: entry.id,
+            timestamp: entry.created_at,
+            event_type: entry.event_type,
+            prev_hash: entry.prev_hash,
+            hash: entry.hash
+          }))
+        }
+      }]);
+
+    if (error) {
+      console.error('Error raising audit tamper alert:', error);
+    }
+
+    return { ...result, context, alert_raised: !error };
+  }
+}
+
+function getCheckpointSigningKey(): string {
+  const key = process.env.AUDIT_CHECKPOINT_SIGNING_KEY;
+  if (!key) {
+    throw new Error('AUDIT_CHECKPOINT_SIGNING_KEY is not configured');
+  }
+  return key;
+}
+
+/**
+ * HMAC-SHA256 over the checkpointed entry's id and hash
+ */
+export function signCheckpoint(entryId: string, hash: string): string {
+  return createHmac('sha256', getCheckpointSigningKey())
+    .update(`${entryId}|${hash}`)
+    .digest('hex');
+}
+
+function isCheckpointSignatureValid(checkpoint: AuditChainCheckpoint): boolean {
+  const expected = Buffer.from(signCheckpoint(checkpoint.entry_id, checkpoint.hash), 'hex');
+  const actual = Buffer.from(checkpoint.signature || '', 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -265,6 +265,27 @@ export class AuditLogger {
     });
   }
 
+  /**
+   * Log reveal of redacted PII in an AI Brain log
+   */
+  async logAiPiiRevealed(actorUserId: string, logId: string, tokenCount: number, sessionId: string, ipAddress?: string, userAgent?: string): Promise<void> {
+    await this.logAuditEvent({
+      eventType: 'AI_PII_REVEALED',
+      actorUserId,
+      actorRole: 'admin',
+      sessionId,
+      entityType: 'ai_brain_log',
+      entityId: logId,
+      severity: 'warning',
+      ipAddress,
+      userAgent,
+      metadata: {
+        revealed_time: new Date().toISOString(),
+        token_count: tokenCount
+      }
+    });
+  }
+
   /**
    * Log security incident confirmed
    */
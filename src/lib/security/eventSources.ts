@@ -1,4 +1,48 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Describes where a rule's events come from.
+ * Table-backed sources only need the table and its timestamp column;
+ * anything else can supply its own fetch function.
+ */
+export interface EventSourceDefinition {
+  table?: string;
+  timestampField: string;
+  fetch?: (supabase: SupabaseClient, since: Date) => Promise<any[]>;
+}
+
+const eventSourceRegistry = new Map<string, EventSourceDefinition>();
+
+/**
+ * Register an event source so alert rules can use it as their source_type
+ * (or as the source of a sequence step)
+ */
+export function registerEventSource(sourceType: string, definition: EventSourceDefinition): void {
+  if (!definition.table && !definition.fetch) {
+    throw new Error(`Event source ${sourceType} needs a table or a fetch function`);
+  }
+  eventSourceRegistry.set(sourceType, definition);
+}
+
+/**
+ * Look up a registered event source
+ */
+export function getEventSourceDefinition(sourceType: string): EventSourceDefinition | undefined {
+  return eventSourceRegistry.get(sourceType);
+}
+
+/**
+ * Names of all registered event sources
+ */
+export function getRegisteredEventSources(): string[] {
+  return Array.from(eventSourceRegistry.keys());
+}
+
+// Built-in sources
+registerEventSource('admin_security_events', { table: 'admin_security_events', timestampField: 'event_timestamp' });
+registerEventSource('device_lock_conflicts', { table: 'device_lock_conflicts', timestampField: 'detected_at' });
+registerEventSource('login_otp_requests', { table: 'login_otp_requests', timestampField: 'created_at' });
+registerEventSource('audit_log_entries', { table: 'audit_log_entries', timestampField: 'created_at' });
 
 export class SecurityEventSource {
   private supabase;
@@ -10,6 +54,37 @@ export class SecurityEventSource {
     );
   }
 
+  /**
+   * Get events from a registered source since a point in time
+   */
+  async getEvents(sourceType: string, since: Date): Promise<any[]> {
+    const definition = eventSourceRegistry.get(sourceType);
+    if (!definition) {
+      throw new Error(`Unknown event source: ${sourceType}`);
+    }
+
+    try {
+      if (definition.fetch) {
+        return await definition.fetch(this.supabase, since);
+      }
+
+      const { data, error } = await this.supabase
+        .from(definition.table!)
+        .select('*')
+        .gte(definition.timestampField, since.toISOString());
+
+      if (error) {
+        console.error(`Error fetching ${sourceType} events:`, error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error(`Error in getEvents for ${sourceType}:`, error);
+      return [];
+    }
+  }
+
   /**
    * Get admin security events within a time window, optionally filtered by event type
    */
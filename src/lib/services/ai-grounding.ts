@@ -0,0 +1,98 @@
+// Grounding data for AI Brain packs
+// Loads the records a pack's answers must be based on, using the caller's session so RLS applies
+
+import { createClient } from '@/lib/supabase/server';
+import { repairGuideSchema, repairStepSchema, RepairGuide } from '@/lib/types/repair-guide';
+import type { AiRequestPayload, BrainPackGrounding } from '@/ai-brain/types';
+
+// Guides attached to a technician prompt
+const MAX_GUIDES = 2;
+// Rulesets attached to a pricing review prompt (active first, then newest)
+const MAX_RULESETS = 3;
+// Most recent timeline events attached to a support prompt
+const MAX_TIMELINE_EVENTS = 30;
+
+export class AiGroundingService {
+
+    /**
+     * Load grounding data for a pack
+     * @param grounding - The pack's grounding source
+     * @param payload - The brain request (question, metrics, ticket_id)
+     * @returns Grounding records, keyed for the prompt
+     */
+    static async load(grounding: BrainPackGrounding, payload: AiRequestPayload): Promise<Record<string, unknown>> {
+        const supabase = await createClient();
+
+        switch (grounding) {
+            case 'repair_guides':
+                return { repair_guides: await this.getRepairGuides(supabase, payload) };
+            case 'pricing_rulesets':
+                return { pricing_rulesets: await this.getPricingRulesets(supabase) };
+            case 'customer_timeline':
+                return { customer_timeline: await this.getCustomerTimeline(supabase, payload.ticket_id) };
+            default:
+                return {};
+        }
+    }
+
+    /**
+     * Guides matching the device model (or the question), with their steps.
+     * Same lookups as repairGuideApi.searchGuides / getGuideDetails.
+     */
+    private static async getRepairGuides(supabase: any, payload: AiRequestPayload): Promise<RepairGuide[]> {
+        const query = String(payload.metrics_snapshot?.device_model || payload.question || '').trim();
+        if (!query) return [];
+
+        const { data, error } = await supabase.rpc('rpc_search_guides', { p_query: query });
+        if (error) throw new Error(error.message);
+
+        const guides = (data || []).slice(0, MAX_GUIDES).map((d: any) => repairGuideSchema.parse(d));
+
+        for (const guide of guides) {
+            const { data: stepsData, error: stepsError } = await supabase
+                .from('repair_steps')
+                .select('*')
+                .eq('guide_id', guide.id)
+                .order('order_index', { ascending: true });
+
+            if (stepsError) throw new Error(stepsError.message);
+            guide.steps = (stepsData || []).map((d: any) => repairStepSchema.parse(d));
+        }
+
+        return guides;
+    }
+
+    /**
+     * C21 pricing rulesets. RLS limits managers to the active ruleset.
+     */
+    private static async getPricingRulesets(supabase: any): Promise<unknown[]> {
+        const { data, error } = await supabase
+            .from('pricing_rulesets')
+            .select('id, version, is_active, activated_at, created_at, rules')
+            .order('is_active', { ascending: false })
+            .order('created_at', { ascending: false })
+            .limit(MAX_RULESETS);
+
+        if (error) throw new Error(error.message);
+        return data || [];
+    }
+
+    /**
+     * Customer-facing timeline of a ticket, oldest first
+     */
+    private static async getCustomerTimeline(supabase: any, ticketId?: string): Promise<unknown[]> {
+        if (!ticketId) {
+            throw new Error('ticket_id is required for customer timeline grounding');
+        }
+
+        const { data, error } = await supabase
+            .from('customer_timeline')
+            .select('*')
+            .eq('ticket_id', ticketId)
+            .order('created_at', { ascending: false })
+            .limit(MAX_TIMELINE_EVENTS);
+
+        if (error) throw new Error(error.message);
+        return (data || []).reverse();
+    }
+}
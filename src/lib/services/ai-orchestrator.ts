@@ -1,38 +1,58 @@
+import { randomUUID } from 'crypto';
 import { createClient } from '@/lib/supabase/server';
-import { JAMES_TRONIC_CORE_PERSONA } from '@/ai-brain/core/persona';
-import { GOVERNANCE_RULES, BANNED_KEYWORDS } from '@/ai-brain/core/governance';
-import { ADMIN_COCKPIT_PACK } from '@/ai-brain/packs/admin-cockpit';
-import { AiBrainResponse, AiRequestPayload } from '@/ai-brain/types';
+import { BANNED_KEYWORDS } from '@/ai-brain/core/governance';
+import { PiiRedactor } from '@/ai-brain/core/redaction';
+import { getBrainPack } from '@/ai-brain/packs';
+import { AiBrainResponse, AiBrainResponseSchema, AiBrainResult, AiRequestPayload, BrainPack } from '@/ai-brain/types';
 import { ContextBuilderService } from './context-builder';
+import { AiGroundingService } from './ai-grounding';
+import { PiiVaultService } from './pii-vault';
 import { ValueFunctionService } from './value-function';
 import { PolicyGuardService } from './policy-guard';
+import {
+  LlmProvider,
+  LlmProviderError,
+  completeWithRetries,
+  createLlmProvider,
+  resolveModel
+} from './llm-provider';
+
+const DEFAULT_TIMEOUT_MS = 20000;
+const DEFAULT_MAX_RETRIES = 2;
 
 export class AiOrchestrator {
+  // Overrides the provider chosen from pack config/env (used by tests)
+  private static providerOverride: LlmProvider | null = null;
+
+  static setProvider(provider: LlmProvider | null): void {
+    this.providerOverride = provider;
+  }
 
   /**
    * Main entry point to query the AI Brain.
-   * Enforces Role Checks, Governance, Value Function Scoring, and Logging.
+   * Enforces Role Checks, Governance, PII Redaction, Value Function Scoring, and Logging.
    */
-  static async queryBrain(payload: AiRequestPayload): Promise<AiBrainResponse> {
+  static async queryBrain(payload: AiRequestPayload): Promise<AiBrainResult> {
     const { context, user_role, question, metrics_snapshot } = payload;
 
-    // 1. Role Guard
-    if (user_role !== 'admin') {
-      throw new Error('Unauthorized: Only Admin can access the AI Brain.');
+    // 1. Select Brain Pack
+    const pack = getBrainPack(context);
+    if (!pack) {
+      throw new Error(`Context ${context} not supported yet.`);
     }
 
-    // 2. Select Brain Pack
-    let pack = ADMIN_COCKPIT_PACK; // Default to Admin
-    if (context !== 'admin_cockpit') {
-      // Future packs would be selected here
-      throw new Error(`Context ${context} not supported yet.`);
+    // 2. Role Guard
+    if (!pack.allowed_roles.includes(user_role)) {
+      throw new Error(`Unauthorized: Role ${user_role} cannot access the ${pack.name} brain pack.`);
     }
 
-    // 3. Build Enhanced Context (C15.1 Integration)
-    let enhancedMetrics = metrics_snapshot || {};
+    // 3. Build Enhanced Context (C15.1 Integration), limited to the metrics the pack may read
+    let enhancedMetrics: Record<string, any> = Object.fromEntries(
+      Object.entries(metrics_snapshot || {}).filter(([key]) => pack.readable_metrics.includes(key))
+    );
 
     // If entity context provided, add value function scores
-    if (payload.entity_type && payload.entity_id) {
+    if (pack.value_scoring && payload.entity_type && payload.entity_id) {
       const scoringContext = await ContextBuilderService.buildContext(
         payload.entity_type,
         payload.entity_id
@@ -54,27 +74,44 @@ export class AiOrchestrator {
       }
     }
 
-    // 4. Construct System Prompt
+    // 4. Load grounding data and tokenise PII before anything reaches the prompt.
+    // One redactor per request, so a value gets the same token in metrics, grounding and question.
+    const grounding = pack.grounding ? await AiGroundingService.load(pack.grounding, payload) : {};
+    const redactor = new PiiRedactor(pack.redaction_rules);
+    const { metrics: safeMetrics, grounding: safeGrounding } = redactor.redact({ metrics: enhancedMetrics, grounding });
+    const safeQuestion = question ? redactor.redactText(question) : undefined;
+
+    // 5. Construct System Prompt
     const systemPrompt = `
 ${pack.system_prompt_template}
 
 LIVE METRICS SNAPSHOT:
-${JSON.stringify(enhancedMetrics, null, 2)}
-`;
+${JSON.stringify(safeMetrics, null, 2)}
+${Object.entries(safeGrounding).map(([key, value]) => `
+${key.toUpperCase().replace(/_/g, ' ')}:
+${JSON.stringify(value, null, 2)}
+`).join('')}`;
 
-    // 4. Governance Check (Input)
+    // 6. Governance Check (Input)
     if (question && BANNED_KEYWORDS.some(kw => question.toLowerCase().includes(kw))) {
       throw new Error('Governance Block: Question contains banned keywords.');
     }
 
     try {
-      // 5. Call LLM (mocking fetch for now, requires API_KEY in env)
-      const aiResponse = await this.callLlmProvider(systemPrompt, question || "Generate status report.");
+      // 7. Call LLM through the pack's configured provider
+      const rawResponse = await this.callLlmProvider(pack, systemPrompt, safeQuestion || "Generate status report.");
+
+      // 8. Governance Check (Output): the response keeps its tokens; only authorised
+      // server-side display (PiiVaultService) maps them back
+      const aiResponse = redactor.redact(rawResponse);
+      const interactionId = randomUUID();
 
-      // 6. Log Interaction (Fire and Forget)
-      this.logInteraction(payload, aiResponse, systemPrompt).catch(console.error);
+      // 9. Store tokens and log the redacted interaction (Fire and Forget)
+      PiiVaultService.store(interactionId, redactor.tokens)
+        .then(reversible => this.logInteraction(interactionId, payload, safeQuestion, aiResponse, systemPrompt, reversible))
+        .catch(console.error);
 
-      return aiResponse;
+      return { ...aiResponse, interaction_id: interactionId };
 
     } catch (error) {
       console.error('AI Brain Error:', error);
@@ -90,73 +127,57 @@ ${JSON.stringify(enhancedMetrics, null, 2)}
 
   /**
    * Provider-agnostic LLM caller.
-   * Currently mocked to generic response if API key is missing.
+   * Uses the pack's model, timeout and retry settings; the output must pass AiBrainResponseSchema.
    */
-  private static async callLlmProvider(system: string, user: string): Promise<AiBrainResponse> {
-    const apiKey = process.env.OPENROUTER_API_KEY || process.env.OPENAI_API_KEY;
-
-    if (!apiKey) {
-      console.error('[AI DEBUG] ❌ Missing OPENROUTER_API_KEY in process.env');
-      return this.simulateResponse();
-    }
-
-    // Actual Fetch Implementation (for OpenRouter/OpenAI)
-    try {
-      const modelToUse = 'qwen/qwen-2.5-7b-instruct'; // Paid but extremely cheap (~$0.00002/request)
-      console.log('[AI DEBUG] 🚀 Sending request to OpenRouter with model:', modelToUse);
-
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
-          'HTTP-Referer': 'https://jamestronic.com',
-          'X-Title': 'JamesTronic'
-        },
-        body: JSON.stringify({
-          model: modelToUse,
-          messages: [
-            { role: 'system', content: system },
-            { role: 'user', content: user }
-          ],
-          response_format: { type: 'json_object' }
-        })
-      });
-
-      if (!response.ok) {
-        const errText = await response.text();
-        console.error('[AI DEBUG] ❌ API Request Failed:', response.status, errText);
-        throw new Error(`AI Provider Failed: ${response.status}`);
+  private static async callLlmProvider(pack: BrainPack, system: string, user: string): Promise<AiBrainResponse> {
+    const provider = this.providerOverride ?? createLlmProvider(pack.model);
+    const model = resolveModel(pack.model, provider);
+    console.log(`[AI DEBUG] 🚀 Sending request to ${provider.kind} provider with model:`, model);
+
+    return completeWithRetries(
+      provider,
+      { model, system, user, temperature: pack.model.temperature },
+      (content) => this.parseResponse(content),
+      {
+        timeoutMs: pack.model.timeout_ms ?? DEFAULT_TIMEOUT_MS,
+        maxRetries: pack.model.max_retries ?? DEFAULT_MAX_RETRIES
       }
+    );
+  }
 
-      const data = await response.json();
-      console.log('[AI DEBUG] ✅ Received response from AI');
-      const content = data.choices[0].message.content;
-      return JSON.parse(content) as AiBrainResponse;
+  /**
+   * Parse and validate model output. Malformed output is retryable: models occasionally
+   * return invalid JSON or miss a field.
+   */
+  private static parseResponse(content: string): AiBrainResponse {
+    let json: unknown;
+    try {
+      json = JSON.parse(content);
+    } catch {
+      throw new LlmProviderError('AI Provider returned invalid JSON', true);
+    }
 
-    } catch (e) {
-      console.error("[AI DEBUG] 💥 AI Call Exception:", e);
-      return this.simulateResponse();
+    const parsed = AiBrainResponseSchema.safeParse(json);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+      throw new LlmProviderError(`AI response failed validation: ${issues}`, true);
     }
-  }
 
-  private static simulateResponse(): AiBrainResponse {
-    return {
-      summary: "Simulation: The ecosystem is stable. Ticket volume is normal.",
-      opportunities: ["Consider opening a Dark Store in Madhapur.", "Optimize transporter routes in Zone 3."],
-      risks: ["SLA breach 5% in Secunderabad.", "Technician device conflict detected."],
-      metrics_used: ["active_tickets", "sla_breaches"],
-      confidence_score: 85
-    };
+    console.log('[AI DEBUG] ✅ Received valid response from AI');
+    return parsed.data;
   }
 
   /**
    * Logs inputs/outputs to Supabase for C40 Compliance.
+   * Only redacted content is stored; tokens are kept in the PII vault under the same interaction_id.
    */
   private static async logInteraction(
+    interactionId: string,
     inputs: AiRequestPayload,
+    redactedQuestion: string | undefined,
     output: AiBrainResponse,
-    fullPrompt: string
+    fullPrompt: string,
+    piiReversible: boolean
   ) {
     const supabase = await createClient(); // Use server client
     const { data: { user } } = await supabase.auth.getUser();
@@ -165,11 +186,12 @@ ${JSON.stringify(enhancedMetrics, null, 2)}
 
     await supabase.from('ai_brain_logs').insert({
       user_id: user.id,
+      interaction_id: interactionId,
       context_type: inputs.context,
-      prompt_summary: inputs.question || 'Automated Briefing',
+      prompt_summary: redactedQuestion || 'Automated Briefing',
       ai_response_summary: output.summary,
       confidence_score: output.confidence_score,
-      meta_data: { full_prompt_length: fullPrompt.length, ...output }
+      meta_data: { full_prompt_length: fullPrompt.length, pii_reversible: piiReversible, ...output }
     });
   }
 }
@@ -0,0 +1,373 @@
+// courier-bookings.ts
+// Books logistics deliveries with external couriers through their adapters (src/lib/couriers), keeps
+// the booked fare as the delivery's estimated_cost, and follows the courier through tracking polls and
+// status webhooks
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { DeliveryStatus } from '@/lib/types/logistics';
+import {
+  COURIER_PROVIDERS,
+  CourierAdapter,
+  CourierDeliveryRequest,
+  CourierProvider,
+  CourierQuote,
+  CourierTracking,
+  createCourierAdapter,
+  isCourierStatusAdvance
+} from '@/lib/couriers';
+
+export interface CourierBookingRecord {
+  id: string;
+  delivery_id: string;
+  provider: CourierProvider;
+  provider_order_id: string;
+  status: 'booked' | 'cancelled';
+  amount: number;
+  currency: string;
+  provider_status: string | null;
+  tracking_url: string | null;
+  idempotency_key: string;
+  created_at: string;
+  cancelled_at: string | null;
+}
+
+export interface CourierQuoteResult {
+  provider: CourierProvider;
+  quote: CourierQuote | null;
+  error: string | null;
+}
+
+export type CourierWebhookOutcome = {
+  outcome: 'applied' | 'stale' | 'duplicate' | 'ignored' | 'unknown_order';
+  delivery_id?: string;
+};
+
+interface DeliveryRow {
+  id: string;
+  status: DeliveryStatus;
+  provider_type: string | null;
+  pickup_address: string;
+  delivery_address: string;
+  items_description: string | null;
+  items_weight_kg: number | null;
+  is_fragile: boolean;
+  pickup_lat: number | null;
+  pickup_lng: number | null;
+  delivery_lat: number | null;
+  delivery_lng: number | null;
+  external_order_id: string | null;
+}
+
+/**
+ * A booking the service refused, with an HTTP status for the API
+ */
+export class CourierBookingError extends Error {
+  constructor(
+    public readonly code: string,
+    public readonly status: number,
+    public readonly details: Record<string, unknown> = {}
+  ) {
+    super(code);
+    this.name = 'CourierBookingError';
+  }
+}
+
+const DELIVERY_COLUMNS = 'id, status, provider_type, pickup_address, delivery_address, items_description, items_weight_kg, is_fragile, pickup_lat, pickup_lng, delivery_lat, delivery_lng, external_order_id';
+
+/** Parcel weight assumed when the delivery has none */
+const DEFAULT_WEIGHT_KG = 3;
+
+export class CourierBookingService {
+  private supabase: SupabaseClient;
+
+  constructor(
+    supabase?: SupabaseClient,
+    private readonly adapterFor: (provider: CourierProvider) => CourierAdapter = createCourierAdapter
+  ) {
+    // Use service role key: bookings and webhook events are only written server-side
+    this.supabase = supabase ?? createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    );
+  }
+
+  /**
+   * Prices from each provider, cheapest first. A provider that cannot take the delivery reports its error.
+   */
+  async quote(deliveryId: string, providers: CourierProvider[] = COURIER_PROVIDERS): Promise<CourierQuoteResult[]> {
+    const request = this.toRequest(await this.loadDelivery(deliveryId));
+
+    const results = await Promise.all(providers.map(async provider => {
+      try {
+        return { provider, quote: await this.adapterFor(provider).quote(request), error: null };
+      } catch (error) {
+        return { provider, quote: null, error: (error as Error).message };
+      }
+    }));
+
+    return results.sort((a, b) => (a.quote?.amount ?? Infinity) - (b.quote?.amount ?? Infinity));
+  }
+
+  /**
+   * Book the delivery with a provider. Calling again for the same provider returns the live booking.
+   */
+  async book(
+    deliveryId: string,
+    provider: CourierProvider,
+    options: { quoteId?: string | null; bookedBy?: string | null } = {}
+  ): Promise<CourierBookingRecord> {
+    const delivery = await this.loadDelivery(deliveryId);
+    const request = this.toRequest(delivery);
+
+    const { data: previous, error: previousError } = await this.supabase
+      .from('courier_bookings')
+      .select('*')
+      .eq('delivery_id', deliveryId)
+      .order('created_at', { ascending: true });
+    if (previousError) throw new Error(`Failed to load courier bookings: ${previousError.message}`);
+
+    const live = (previous ?? []).find(booking => booking.status === 'booked') as CourierBookingRecord | undefined;
+    if (live) {
+      if (live.provider === provider) return live;
+      throw new CourierBookingError('already_booked', 409, { provider: live.provider });
+    }
+
+    // A new attempt after a cancellation is a new order at the provider
+    const idempotencyKey = `courier:${deliveryId}:${provider}:${(previous ?? []).length + 1}`;
+    const adapter = this.adapterFor(provider);
+    const booking = await adapter.book(request, idempotencyKey, options.quoteId);
+
+    const { data: record, error: insertError } = await this.supabase
+      .from('courier_bookings')
+      .insert({
+        delivery_id: deliveryId,
+        provider,
+        provider_order_id: booking.provider_order_id,
+        amount: booking.amount,
+        currency: booking.currency,
+        provider_status: booking.provider_status,
+        tracking_url: booking.tracking_url,
+        idempotency_key: idempotencyKey,
+        booked_by: options.bookedBy ?? null,
+      })
+      .select('*')
+      .single();
+
+    if (insertError) {
+      if (insertError.code === '23505') {
+        // A concurrent call for the same attempt got there first; the provider returned the same order
+        const { data: existing } = await this.supabase
+          .from('courier_bookings')
+          .select('*')
+          .eq('idempotency_key', idempotencyKey)
+          .maybeSingle();
+        if (existing) return existing as CourierBookingRecord;
+      }
+
+      await adapter.cancel(booking.provider_order_id, 'Booking could not be recorded').catch(error =>
+        console.error(`Failed to cancel unrecorded ${provider} order ${booking.provider_order_id}:`, error));
+      throw new Error(`Failed to record courier booking: ${insertError.message}`);
+    }
+
+    const { error: updateError } = await this.supabase
+      .from('logistics_deliveries')
+      .update({
+        provider_type: provider,
+        status: isCourierStatusAdvance(delivery.status, booking.status) ? booking.status : delivery.status,
+        estimated_cost: booking.amount,
+        external_order_id: booking.provider_order_id,
+        external_status: booking.provider_status,
+        tracking_url: booking.tracking_url,
+      })
+      .eq('id', deliveryId);
+    if (updateError) throw new Error(`Failed to update delivery: ${updateError.message}`);
+
+    return record as CourierBookingRecord;
+  }
+
+  /**
+   * Cancel the live booking at the provider and put the delivery back in the assignment queue
+   */
+  async cancel(deliveryId: string, reason: string): Promise<CourierBookingRecord> {
+    const { data: live, error } = await this.supabase
+      .from('courier_bookings')
+      .select('*')
+      .eq('delivery_id', deliveryId)
+      .eq('status', 'booked')
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load courier booking: ${error.message}`);
+    if (!live) throw new CourierBookingError('no_live_booking', 404);
+
+    await this.adapterFor(live.provider).cancel(live.provider_order_id, reason);
+
+    const { data: cancelled, error: cancelError } = await this.supabase
+      .from('courier_bookings')
+      .update({ status: 'cancelled', cancelled_at: new Date().toISOString(), cancel_reason: reason })
+      .eq('id', live.id)
+      .select('*')
+      .single();
+    if (cancelError) throw new Error(`Failed to cancel courier booking: ${cancelError.message}`);
+
+    await this.releaseAssignment(deliveryId);
+    return cancelled as CourierBookingRecord;
+  }
+
+  /**
+   * Back to pending_assignment, e.g. after the provider refused a booking the assignment RPC chose
+   */
+  async releaseAssignment(deliveryId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('logistics_deliveries')
+      .update({
+        status: 'pending_assignment',
+        provider_type: null,
+        assigned_transporter_id: null,
+        external_order_id: null,
+        external_status: null,
+        tracking_url: null,
+      })
+      .eq('id', deliveryId);
+    if (error) throw new Error(`Failed to release delivery: ${error.message}`);
+  }
+
+  /**
+   * Ask the provider where the delivery is, and apply any status progress
+   */
+  async refreshTracking(deliveryId: string): Promise<CourierTracking> {
+    const delivery = await this.loadDelivery(deliveryId);
+    if (!delivery.external_order_id || !delivery.provider_type) {
+      throw new CourierBookingError('not_booked_with_courier', 409);
+    }
+
+    const tracking = await this.adapterFor(delivery.provider_type as CourierProvider).track(delivery.external_order_id);
+    if (tracking.status) {
+      await this.applyStatus(delivery, tracking.status, tracking.provider_status, tracking.amount);
+    }
+    return tracking;
+  }
+
+  /**
+   * A provider status webhook. Redeliveries and out-of-order statuses change nothing.
+   */
+  async handleWebhook(provider: CourierProvider, rawBody: string, headers: Headers): Promise<CourierWebhookOutcome> {
+    const event = this.adapterFor(provider).parseWebhook(rawBody, headers);
+    if (!event) return { outcome: 'ignored' };
+
+    const { data: seen } = await this.supabase
+      .from('courier_webhook_events')
+      .select('id')
+      .eq('provider', provider)
+      .eq('event_id', event.event_id)
+      .maybeSingle();
+    if (seen) return { outcome: 'duplicate' };
+
+    const { data: delivery, error } = await this.supabase
+      .from('logistics_deliveries')
+      .select(DELIVERY_COLUMNS)
+      .eq('provider_type', provider)
+      .eq('external_order_id', event.provider_order_id)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load delivery: ${error.message}`);
+
+    let outcome: CourierWebhookOutcome['outcome'] = 'unknown_order';
+    if (delivery) {
+      const applied = await this.applyStatus(delivery as DeliveryRow, event.status, event.provider_status, event.amount);
+      outcome = applied ? 'applied' : 'stale';
+    }
+
+    const { error: eventError } = await this.supabase
+      .from('courier_webhook_events')
+      .insert({
+        provider,
+        event_id: event.event_id,
+        provider_order_id: event.provider_order_id,
+        delivery_id: delivery?.id ?? null,
+        status: event.status,
+        provider_status: event.provider_status,
+        outcome,
+        payload: event.payload,
+      });
+    if (eventError && eventError.code !== '23505') {
+      throw new Error(`Failed to record courier webhook: ${eventError.message}`);
+    }
+
+    return { outcome: eventError ? 'duplicate' : outcome, delivery_id: delivery?.id };
+  }
+
+  // Moves the delivery forward only; a final fare from the provider replaces the booked estimate.
+  // A provider cancellation ends the booking, not the delivery: it goes back to the assignment queue.
+  private async applyStatus(
+    delivery: DeliveryRow,
+    status: DeliveryStatus,
+    providerStatus: string | null,
+    amount: number | null
+  ): Promise<boolean> {
+    if (status === 'cancelled') return this.applyProviderCancellation(delivery, providerStatus);
+
+    const advance = isCourierStatusAdvance(delivery.status, status);
+    const changes: Record<string, unknown> = {};
+    if (advance) changes.status = status;
+    if (advance && providerStatus) changes.external_status = providerStatus;
+    if (amount != null && Number.isFinite(amount)) changes.estimated_cost = amount;
+    if (Object.keys(changes).length === 0) return false;
+
+    const { error } = await this.supabase
+      .from('logistics_deliveries')
+      .update(changes)
+      .eq('id', delivery.id);
+    if (error) throw new Error(`Failed to update delivery status: ${error.message}`);
+
+    if (advance) delivery.status = status;
+    return advance;
+  }
+
+  private async applyProviderCancellation(delivery: DeliveryRow, providerStatus: string | null): Promise<boolean> {
+    if (!delivery.external_order_id) return false;
+
+    const { data: cancelled, error } = await this.supabase
+      .from('courier_bookings')
+      .update({
+        status: 'cancelled',
+        provider_status: providerStatus,
+        cancelled_at: new Date().toISOString(),
+        cancel_reason: `Cancelled by ${delivery.provider_type ?? 'provider'}${providerStatus ? ` (${providerStatus})` : ''}`,
+      })
+      .eq('delivery_id', delivery.id)
+      .eq('provider_order_id', delivery.external_order_id)
+      .eq('status', 'booked')
+      .select('id');
+    if (error) throw new Error(`Failed to cancel courier booking: ${error.message}`);
+    if (!cancelled || cancelled.length === 0) return false;
+
+    await this.releaseAssignment(delivery.id);
+    delivery.status = 'pending_assignment';
+    return true;
+  }
+
+  private async loadDelivery(deliveryId: string): Promise<DeliveryRow> {
+    const { data, error } = await this.supabase
+      .from('logistics_deliveries')
+      .select(DELIVERY_COLUMNS)
+      .eq('id', deliveryId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load delivery: ${error.message}`);
+    if (!data) throw new CourierBookingError('delivery_not_found', 404);
+    return data as DeliveryRow;
+  }
+
+  private toRequest(delivery: DeliveryRow): CourierDeliveryRequest {
+    if (delivery.pickup_lat === null || delivery.pickup_lng === null || delivery.delivery_lat === null || delivery.delivery_lng === null) {
+      throw new CourierBookingError('delivery_missing_coordinates', 422);
+    }
+
+    return {
+      delivery_id: delivery.id,
+      pickup: { address: delivery.pickup_address, lat: delivery.pickup_lat, lng: delivery.pickup_lng },
+      drop: { address: delivery.delivery_address, lat: delivery.delivery_lat, lng: delivery.delivery_lng },
+      weight_kg: Number(delivery.items_weight_kg) || DEFAULT_WEIGHT_KG,
+      is_fragile: delivery.is_fragile,
+      items_description: delivery.items_description,
+    };
+  }
+}
@@ -1,11 +1,12 @@
 import { supabase } from '@/lib/supabase/supabase';
-import { sendNotificationToOneSignalPlayer } from '@/lib/notifications/onesignal-notification-service';
+import type { NotificationChannel } from '@/lib/notifications/channels/types';
+import { enqueueNotification, routeNotification, RoutedNotification } from './notificationRouter';
 
 // Define types for notification rules
 export interface NotificationRule {
   id: string;
   event_key: string;
-  channel: 'push' | 'sms' | 'email';
+  channel: NotificationChannel;
   priority: number;
   auto_message: string;
   tone: 'calm' | 'informative' | 'warning' | 'apology' | 'reassurance';
@@ -19,6 +20,8 @@ export interface NotificationContext {
   delayHours?: number;
   ticketDetails?: any;
   customerDetails?: any;
+  idempotencyKey?: string; // Defaults to ticket + event + channel + hour
+  template?: RoutedNotification['template']; // Rendered per customer language by the outbox worker
 }
 
 export interface NotificationMessage {
@@ -86,6 +89,24 @@ export async function getCustomerDetails(customerId: string) {
   return data;
 }
 
+/**
+ * Get the customer a ticket belongs to
+ */
+export async function getTicketCustomerId(ticketId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('tickets')
+    .select('customer_id')
+    .eq('id', ticketId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching ticket customer:', error);
+    return null;
+  }
+
+  return data?.customer_id ?? null;
+}
+
 /**
  * Get customer's OneSignal player ID
  */
@@ -105,7 +126,8 @@ export async function getCustomerPlayerId(customerId: string) {
 }
 
 /**
- * Queue notification for customer
+ * Queue notification for customer on the message's channel.
+ * Delivery happens in the outbox worker; a duplicate idempotency key is ignored.
  */
 export async function queueCustomerNotification(
   eventKey: string,
@@ -114,32 +136,20 @@ export async function queueCustomerNotification(
   message: NotificationMessage,
   sentiment: 'anxious' | 'neutral' | 'hopeful' | 'happy' | 'angry' = 'neutral'
 ) {
-  // Insert into notification queue
-  const { error } = await supabase
-    .from('customer_notification_queue')
-    .insert({
-      ticket_id: context.ticketId,
-      customer_id: context.customerId,
-      event_type: eventKey,
-      message: message.message,
-      channel: message.channel,
-      priority: message.priority,
-      status: 'pending',
-      retry_count: 0,
-      sentiment: sentiment,
-      created_at: new Date().toISOString()
-    });
-
-  if (error) {
-    console.error('Error queuing notification:', error);
-    return false;
-  }
-
-  return true;
+  return enqueueNotification({
+    ticketId: context.ticketId,
+    customerId: context.customerId,
+    eventKey,
+    message: message.message,
+    priority: message.priority,
+    sentiment,
+    idempotencyKey: context.idempotencyKey,
+    template: context.template
+  }, message.channel as NotificationChannel);
 }
 
 /**
- * Process a notification immediately if needed
+ * Build and queue a notification for immediate delivery by the outbox worker
  */
 export async function processImmediateNotification(
   eventKey: string,
@@ -174,30 +184,18 @@ export async function processImmediateNotification(
       sentiment = 'neutral';
   }
 
-  // Queue the notification
-  const queued = await queueCustomerNotification(eventKey, context, rule, message, sentiment);
-  if (!queued) {
-    return false;
-  }
-
-  // Send the notification based on channel
-  if (rule.channel === 'push') {
-    const playerId = await getCustomerPlayerId(context.customerId);
-    if (playerId) {
-      try {
-        await sendNotificationToOneSignalPlayer(
-          playerId,
-          'JamesTronic Update',
-          message.message,
-          `${window.location.origin}/tech/jobs`
-        );
-      } catch (error) {
-        console.error('Error sending OneSignal notification:', error);
-      }
-    }
-  }
-
-  return true;
+  // Queue on every channel the route calls for; the outbox worker applies the customer's
+  // preferences (opt-outs, WhatsApp consent, quiet hours) and delivers with retries
+  return routeNotification({
+    ticketId: context.ticketId,
+    customerId: context.customerId,
+    eventKey,
+    message: message.message,
+    priority: message.priority,
+    sentiment,
+    idempotencyKey: context.idempotencyKey,
+    template: context.template
+  }, rule.channel);
 }
 
 /**
@@ -208,6 +206,16 @@ export async function triggerCustomerNotification(
   context: NotificationContext
 ) {
   try {
+    // Callers that only know the ticket (e.g. part delays) leave the customer to be looked up
+    if (!context.customerId) {
+      const customerId = await getTicketCustomerId(context.ticketId);
+      if (!customerId) {
+        console.error(`No customer found for ticket: ${context.ticketId}`);
+        return false;
+      }
+      context = { ...context, customerId };
+    }
+
     // Check if same message was sent in the last hour to prevent spam
     const isSpam = await sameMessageSentLastHour(context.ticketId, eventKey);
     if (isSpam) {
@@ -0,0 +1,481 @@
+// device-custody.ts
+// Transporter hand-offs: geofence check on arrival, customer OTP and photos on pickup and delivery,
+// each recorded as an append-only custody event (record_device_custody_event). The OTP is only
+// consumed when the event is recorded, so a failed upload or a refused step does not burn it.
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { routeNotification } from '@/lib/services/notificationRouter';
+import {
+  buildCustodyChain,
+  CustodyEvent,
+  CustodyHolder,
+  custodyEndpoint,
+  CustodyPeriod,
+  CustodyStage,
+  describeCustodyEvent,
+  requiresCustomerOtp
+} from '@/lib/custody/chain';
+import { checkGeofence, GeofenceResult, GeoPosition, isValidPosition } from '@/lib/custody/geofence';
+import {
+  CUSTODY_OTP_MAX_ATTEMPTS,
+  CUSTODY_OTP_MAX_SENDS,
+  CUSTODY_OTP_TTL_MINUTES,
+  custodyOtpAttemptsUsed,
+  custodyOtpMatches,
+  custodyOtpSendError,
+  generateCustodyOtp,
+  hashCustodyOtp
+} from '@/lib/custody/otp';
+
+export const CUSTODY_PHOTO_BUCKET = 'device-custody-photos';
+export const MAX_CUSTODY_PHOTOS = 4;
+export const MAX_CUSTODY_PHOTO_BYTES = 8 * 1024 * 1024;
+
+export interface TransportJobRow {
+  id: string;
+  ticket_id: string;
+  job_type: string;
+  status: string;
+  branch_id: string | null;
+  assigned_transporter_id: string | null;
+  pickup_lat: number | null;
+  pickup_lng: number | null;
+  drop_lat: number | null;
+  drop_lng: number | null;
+}
+
+export interface HandoffActor {
+  userId: string;
+  profileId?: string | null;
+}
+
+export interface ArriveInput {
+  jobId: string;
+  stage: CustodyStage;
+  position: GeoPosition;
+  actor: HandoffActor;
+}
+
+export interface ConfirmHandoffInput extends ArriveInput {
+  otp?: string | null;
+  photos: File[];
+  note?: string | null;
+}
+
+export interface TicketCustody {
+  ticket_id: string;
+  current_holder: CustodyHolder | null;
+  chain: CustodyPeriod[];
+  events: CustodyEvent[];
+}
+
+/**
+ * A hand-off the API refused, with what the transporter needs to fix it
+ */
+export class CustodyHandoffError extends Error {
+  constructor(
+    public readonly code: string,
+    public readonly status: number,
+    public readonly details: Record<string, unknown> = {}
+  ) {
+    super(code);
+    this.name = 'CustodyHandoffError';
+  }
+}
+
+const JOB_COLUMNS = 'id, ticket_id, job_type, status, branch_id, assigned_transporter_id, pickup_lat, pickup_lng, drop_lat, drop_lng';
+
+export class DeviceCustodyService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase?: SupabaseClient) {
+    // Use service role key: custody events and OTPs are only written server-side
+    this.supabase = supabase ?? createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    );
+  }
+
+  /**
+   * The job, if it is assigned to this transporter
+   */
+  async getAssignedJob(jobId: string, actor: HandoffActor): Promise<TransportJobRow> {
+    const job = await this.getJob(jobId);
+    if (job.assigned_transporter_id !== actor.userId && job.assigned_transporter_id !== actor.profileId) {
+      throw new CustodyHandoffError('job_not_assigned_to_you', 403);
+    }
+
+    return job;
+  }
+
+  /**
+   * Arrival at the pickup or drop point. Fails outside the geofence; at the customer's end it
+   * sends the customer the hand-off OTP.
+   */
+  async arrive(input: ArriveInput): Promise<{ event: CustodyEvent; geofence: GeofenceResult; otp_sent: boolean }> {
+    const job = await this.getAssignedJob(input.jobId, input.actor);
+    const geofence = this.assertInsideGeofence(job, input.stage, input.position);
+
+    // Arriving does not move the device: at pickup it is still at the far end, at drop still with us
+    const holder = input.stage === 'pickup'
+      ? await this.resolveHolder(job, custodyEndpoint(job.job_type, 'pickup'), input.actor)
+      : await this.resolveHolder(job, 'transporter', input.actor);
+
+    const event = await this.record(job, input.stage === 'pickup' ? 'arrived_pickup' : 'arrived_drop', holder, {
+      position: input.position,
+      geofence,
+      otpId: null,
+      photoPaths: [],
+      note: null,
+      actor: input.actor,
+    });
+
+    let otpSent = false;
+    if (requiresCustomerOtp(job.job_type, input.stage)) {
+      otpSent = await this.issueOtp(job, input.stage);
+    }
+
+    return { event, geofence, otp_sent: otpSent };
+  }
+
+  /**
+   * The device changes hands: the transporter takes it at pickup, or hands it over at drop
+   */
+  async confirmHandoff(input: ConfirmHandoffInput): Promise<{ event: CustodyEvent; geofence: GeofenceResult }> {
+    const job = await this.getAssignedJob(input.jobId, input.actor);
+    const geofence = this.assertInsideGeofence(job, input.stage, input.position);
+
+    if (input.photos.length === 0) {
+      throw new CustodyHandoffError('photo_required', 400);
+    }
+    if (input.photos.length > MAX_CUSTODY_PHOTOS) {
+      throw new CustodyHandoffError('too_many_photos', 400, { max: MAX_CUSTODY_PHOTOS });
+    }
+    for (const photo of input.photos) {
+      if (!photo.type.startsWith('image/') || photo.size > MAX_CUSTODY_PHOTO_BYTES) {
+        throw new CustodyHandoffError('invalid_photo', 400, { max_bytes: MAX_CUSTODY_PHOTO_BYTES });
+      }
+    }
+
+    const otpId = requiresCustomerOtp(job.job_type, input.stage)
+      ? await this.verifyOtp(job, input.stage, input.otp ?? '')
+      : null;
+
+    const photoPaths = await this.uploadPhotos(job, input.stage, input.photos);
+    const holder = input.stage === 'pickup'
+      ? await this.resolveHolder(job, 'transporter', input.actor)
+      : await this.resolveHolder(job, custodyEndpoint(job.job_type, 'drop'), input.actor);
+
+    const event = await this.record(job, input.stage === 'pickup' ? 'picked_up' : 'delivered', holder, {
+      position: input.position,
+      geofence,
+      otpId,
+      photoPaths,
+      note: input.note ?? null,
+      actor: input.actor,
+    });
+
+    return { event, geofence };
+  }
+
+  /**
+   * Send a fresh OTP for a stage the transporter has already arrived at
+   */
+  async resendOtp(jobId: string, stage: CustodyStage, actor: HandoffActor): Promise<boolean> {
+    const job = await this.getAssignedJob(jobId, actor);
+    const arrivedStatus = stage === 'pickup' ? 'arrived_pickup' : 'arrived_drop';
+
+    if (job.status !== arrivedStatus) {
+      throw new CustodyHandoffError('invalid_transition', 409, { status: job.status });
+    }
+    if (!requiresCustomerOtp(job.job_type, stage)) {
+      throw new CustodyHandoffError('otp_not_required', 400);
+    }
+
+    return this.issueOtp(job, stage);
+  }
+
+  /**
+   * Staff override for a customer locked out of their hand-off code: every code issued for the
+   * stage stops counting towards the send and guess limits, and a fresh one is sent if the
+   * transporter is already waiting at that stage
+   * @returns Whether a new code was sent
+   */
+  async resetOtp(jobId: string, stage: CustodyStage, staffUserId: string): Promise<boolean> {
+    const job = await this.getJob(jobId);
+    if (!requiresCustomerOtp(job.job_type, stage)) {
+      throw new CustodyHandoffError('otp_not_required', 400);
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await this.supabase
+      .from('device_custody_otps')
+      .update({ reset_at: now, reset_by: staffUserId })
+      .eq('transport_job_id', job.id)
+      .eq('stage', stage)
+      .is('reset_at', null);
+
+    if (error) throw new Error(`Failed to reset custody OTPs: ${error.message}`);
+
+    await this.supabase
+      .from('device_custody_otps')
+      .update({ superseded_at: now })
+      .eq('transport_job_id', job.id)
+      .eq('stage', stage)
+      .is('consumed_at', null)
+      .is('superseded_at', null);
+
+    const arrivedStatus = stage === 'pickup' ? 'arrived_pickup' : 'arrived_drop';
+    return job.status === arrivedStatus ? this.issueOtp(job, stage) : false;
+  }
+
+  /**
+   * Every hand-off for a ticket and the holders they add up to. Before the first recorded
+   * hand-off the device is with the customer.
+   */
+  async getTicketCustody(ticketId: string): Promise<TicketCustody> {
+    const { data, error } = await this.supabase
+      .from('device_custody_events')
+      .select('*')
+      .eq('ticket_id', ticketId)
+      .order('recorded_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to load custody events: ${error.message}`);
+
+    const events = (data ?? []) as CustodyEvent[];
+    const initialHolder: CustodyHolder = { type: 'customer', id: null, name: null };
+    const chain = buildCustodyChain(events, initialHolder);
+
+    return {
+      ticket_id: ticketId,
+      current_holder: chain[chain.length - 1]?.holder ?? null,
+      chain,
+      events,
+    };
+  }
+
+  private assertInsideGeofence(job: TransportJobRow, stage: CustodyStage, position: GeoPosition): GeofenceResult {
+    if (!isValidPosition(position)) {
+      throw new CustodyHandoffError('location_required', 400);
+    }
+
+    const target = stage === 'pickup'
+      ? { lat: job.pickup_lat, lng: job.pickup_lng }
+      : { lat: job.drop_lat, lng: job.drop_lng };
+
+    const geofence = checkGeofence(position, target);
+    if (geofence.status === 'no_target') {
+      // Without coordinates the arrival cannot be checked; staff add them or record the move themselves
+      throw new CustodyHandoffError('job_location_missing', 422, { stage });
+    }
+    if (geofence.status === 'outside') {
+      throw new CustodyHandoffError('outside_geofence', 422, { ...geofence });
+    }
+    if (geofence.status === 'low_accuracy') {
+      throw new CustodyHandoffError('gps_accuracy_too_low', 422, { ...geofence });
+    }
+
+    return geofence;
+  }
+
+  private async getJob(jobId: string): Promise<TransportJobRow> {
+    const { data, error } = await this.supabase
+      .from('transport_jobs')
+      .select(JOB_COLUMNS)
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load transport job: ${error.message}`);
+    if (!data) throw new CustodyHandoffError('transport_job_not_found', 404);
+
+    return data as TransportJobRow;
+  }
+
+  private async resolveHolder(job: TransportJobRow, type: CustodyHolder['type'], actor: HandoffActor): Promise<CustodyHolder> {
+    if (type === 'transporter') {
+      const { data } = await this.supabase
+        .from('profiles')
+        .select('id, full_name')
+        .eq('user_id', actor.userId)
+        .maybeSingle();
+      return { type, id: actor.userId, name: data?.full_name ?? null };
+    }
+
+    if (type === 'branch') {
+      if (!job.branch_id) return { type, id: null, name: null };
+      const { data } = await this.supabase.from('branches').select('name').eq('id', job.branch_id).maybeSingle();
+      return { type, id: job.branch_id, name: data?.name ?? null };
+    }
+
+    const { data } = await this.supabase
+      .from('tickets')
+      .select('customer_id, customer:customers(name)')
+      .eq('id', job.ticket_id)
+      .maybeSingle();
+    const ticket = data as unknown as { customer_id: string | null; customer: { name: string | null } | null } | null;
+    return { type, id: ticket?.customer_id ?? null, name: ticket?.customer?.name ?? null };
+  }
+
+  private async record(
+    job: TransportJobRow,
+    eventType: CustodyEvent['event_type'],
+    holder: CustodyHolder,
+    details: {
+      position: GeoPosition;
+      geofence: GeofenceResult;
+      otpId: string | null; // Checked by verifyOtp; consumed by the RPC with the event
+      photoPaths: string[];
+      note: string | null;
+      actor: HandoffActor;
+    }
+  ): Promise<CustodyEvent> {
+    const title = {
+      arrived_pickup: 'Pickup Partner Arrived',
+      picked_up: 'Device Picked Up',
+      arrived_drop: 'Arrived at Drop-off',
+      delivered: 'Device Handed Over',
+      status_override: 'Custody Updated',
+    }[eventType];
+
+    const { data, error } = await this.supabase.rpc('record_device_custody_event', {
+      p_transport_job_id: job.id,
+      p_event_type: eventType,
+      p_holder_type: holder.type,
+      p_holder_id: holder.id,
+      p_holder_name: holder.name,
+      p_lat: details.position.lat,
+      p_lng: details.position.lng,
+      p_accuracy_m: details.position.accuracy_m ?? null,
+      p_distance_m: details.geofence.distance_m,
+      p_geofence_status: details.geofence.status,
+      p_otp_verified: details.otpId !== null,
+      p_photo_paths: details.photoPaths,
+      p_note: details.note,
+      p_recorded_by: details.actor.userId,
+      p_timeline_title: title,
+      p_timeline_description: describeCustodyEvent({ event_type: eventType, holder_type: holder.type, holder_name: holder.name }),
+      p_otp_id: details.otpId,
+    });
+
+    if (error) {
+      if (error.message?.includes('invalid_transition')) {
+        throw new CustodyHandoffError('invalid_transition', 409, { status: job.status });
+      }
+      if (error.message?.includes('otp_unavailable')) {
+        throw new CustodyHandoffError('otp_unavailable', 409);
+      }
+      throw new Error(`Failed to record custody event: ${error.message}`);
+    }
+
+    return data as CustodyEvent;
+  }
+
+  private async issueOtp(job: TransportJobRow, stage: CustodyStage): Promise<boolean> {
+    const { data: ticket } = await this.supabase
+      .from('tickets')
+      .select('customer_id')
+      .eq('id', job.ticket_id)
+      .maybeSingle();
+
+    if (!ticket?.customer_id) {
+      throw new CustodyHandoffError('customer_not_found', 404);
+    }
+
+    // Every code sent for this stage, so resends are capped and wrong guesses carry over
+    const { data: issued, error: issuedError } = await this.supabase
+      .from('device_custody_otps')
+      .select('attempts')
+      .eq('transport_job_id', job.id)
+      .eq('stage', stage)
+      .is('reset_at', null);
+
+    if (issuedError) throw new Error(`Failed to load custody OTPs: ${issuedError.message}`);
+
+    const refusal = custodyOtpSendError(issued ?? []);
+    if (refusal) {
+      throw new CustodyHandoffError(refusal, 429, { max_sends: CUSTODY_OTP_MAX_SENDS, max_attempts: CUSTODY_OTP_MAX_ATTEMPTS });
+    }
+
+    const now = new Date();
+    await this.supabase
+      .from('device_custody_otps')
+      .update({ superseded_at: now.toISOString() })
+      .eq('transport_job_id', job.id)
+      .eq('stage', stage)
+      .is('consumed_at', null)
+      .is('superseded_at', null);
+
+    const code = generateCustodyOtp();
+    const { data: otp, error } = await this.supabase
+      .from('device_custody_otps')
+      .insert({
+        transport_job_id: job.id,
+        stage,
+        code_hash: hashCustodyOtp(job.id, stage, code),
+        attempts: custodyOtpAttemptsUsed(issued ?? []),
+        max_attempts: CUSTODY_OTP_MAX_ATTEMPTS,
+        expires_at: new Date(now.getTime() + CUSTODY_OTP_TTL_MINUTES * 60_000).toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (error) throw new Error(`Failed to create custody OTP: ${error.message}`);
+
+    // custody_otp is transactional: the outbox sends it through quiet hours and opt-outs
+    const action = stage === 'pickup' ? 'collect your device' : 'hand your device back';
+    return routeNotification({
+      ticketId: job.ticket_id,
+      customerId: ticket.customer_id,
+      eventKey: 'custody_otp',
+      message: `Your hand-off code is ${code}. Share it with our delivery partner only when they ${action}. Valid for ${CUSTODY_OTP_TTL_MINUTES} minutes.`,
+      priority: 5,
+      idempotencyKey: `custody-otp:${otp.id}`,
+    }, 'sms');
+  }
+
+  /**
+   * Check the customer's code without consuming it
+   * @returns The OTP row, for record_device_custody_event to consume
+   */
+  private async verifyOtp(job: TransportJobRow, stage: CustodyStage, code: string): Promise<string> {
+    const { data, error } = await this.supabase
+      .from('device_custody_otps')
+      .select('id, code_hash, attempts, max_attempts, expires_at')
+      .eq('transport_job_id', job.id)
+      .eq('stage', stage)
+      .is('consumed_at', null)
+      .is('superseded_at', null)
+      .is('reset_at', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load custody OTP: ${error.message}`);
+    if (!data) throw new CustodyHandoffError('otp_not_issued', 409);
+    if (new Date(data.expires_at).getTime() <= Date.now()) throw new CustodyHandoffError('otp_expired', 410);
+    if (data.attempts >= data.max_attempts) throw new CustodyHandoffError('otp_attempts_exceeded', 429);
+
+    if (!custodyOtpMatches(job.id, stage, code.trim(), data.code_hash)) {
+      await this.supabase.from('device_custody_otps').update({ attempts: data.attempts + 1 }).eq('id', data.id);
+      throw new CustodyHandoffError('otp_invalid', 400, { attempts_left: data.max_attempts - data.attempts - 1 });
+    }
+
+    return data.id;
+  }
+
+  private async uploadPhotos(job: TransportJobRow, stage: CustodyStage, photos: File[]): Promise<string[]> {
+    const stamp = Date.now();
+
+    return Promise.all(photos.map(async (photo, index) => {
+      const extension = photo.type.split('/')[1]?.replace(/[^a-z0-9]/g, '') || 'jpg';
+      const path = `${job.ticket_id}/${job.id}/${stage}-${stamp}-${index + 1}.${extension}`;
+
+      const { error } = await this.supabase.storage
+        .from(CUSTODY_PHOTO_BUCKET)
+        .upload(path, photo, { contentType: photo.type, upsert: false });
+
+      if (error) throw new Error(`Failed to upload hand-off photo: ${error.message}`);
+      return path;
+    }));
+  }
+}
@@ -0,0 +1,197 @@
+import { AiBrainResponse, BrainPackModelConfig, LlmProviderKind } from '@/ai-brain/types';
+
+/**
+ * LLM provider abstraction for the AI Brain.
+ *
+ * Adapters:
+ * - openai_compatible: any /chat/completions endpoint (OpenRouter by default, or OpenAI)
+ * - local:             a local OpenAI-compatible server (llama.cpp, Ollama, LM Studio, ...)
+ * - fixture:           deterministic canned responses for tests and offline development
+ */
+
+export interface LlmChatRequest {
+  model: string;
+  system: string;
+  user: string;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  readonly kind: LlmProviderKind;
+  /**
+   * Returns the raw message content produced by the model
+   */
+  complete(request: LlmChatRequest): Promise<string>;
+}
+
+export class LlmProviderError extends Error {
+  constructor(message: string, public readonly retryable: boolean = false, public readonly status?: number) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+interface OpenAICompatibleOptions {
+  baseUrl: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+}
+
+export class OpenAICompatibleProvider implements LlmProvider {
+  constructor(private options: OpenAICompatibleOptions, public readonly kind: LlmProviderKind = 'openai_compatible') {}
+
+  async complete(request: LlmChatRequest): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.options.apiKey ? { 'Authorization': `Bearer ${this.options.apiKey}` } : {}),
+          ...this.options.headers
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: [
+            { role: 'system', content: request.system },
+            { role: 'user', content: request.user }
+          ],
+          temperature: request.temperature,
+          response_format: { type: 'json_object' }
+        }),
+        signal: request.signal
+      });
+    } catch (error) {
+      // Network failures and timeouts are worth retrying
+      throw new LlmProviderError(`LLM request failed: ${(error as Error).message}`, true);
+    }
+
+    if (!response.ok) {
+      const errText = await response.text().catch(() => '');
+      throw new LlmProviderError(
+        `AI Provider Failed: ${response.status} ${errText.slice(0, 200)}`,
+        response.status === 429 || response.status >= 500,
+        response.status
+      );
+    }
+
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new LlmProviderError('AI Provider returned no message content', true);
+    }
+    return content;
+  }
+}
+
+type FixtureResponder = (request: LlmChatRequest) => AiBrainResponse | string;
+
+export const DEFAULT_FIXTURE_RESPONSE: AiBrainResponse = {
+  summary: 'Fixture: The ecosystem is stable. Ticket volume is normal.',
+  opportunities: ['Consider opening a Dark Store in Madhapur.', 'Optimize transporter routes in Zone 3.'],
+  risks: ['SLA breach 5% in Secunderabad.', 'Technician device conflict detected.'],
+  metrics_used: ['active_tickets', 'sla_breaches'],
+  confidence_score: 85
+};
+
+/**
+ * Deterministic provider: returns the same output for the same request, with no network access
+ */
+export class FixtureProvider implements LlmProvider {
+  readonly kind: LlmProviderKind = 'fixture';
+  readonly requests: LlmChatRequest[] = [];
+
+  constructor(private responder: FixtureResponder | AiBrainResponse | string = DEFAULT_FIXTURE_RESPONSE) {}
+
+  async complete(request: LlmChatRequest): Promise<string> {
+    this.requests.push(request);
+    const output = typeof this.responder === 'function' ? this.responder(request) : this.responder;
+    return typeof output === 'string' ? output : JSON.stringify(output);
+  }
+}
+
+/**
+ * Build the provider for a brain pack. AI_BRAIN_PROVIDER overrides the pack's choice
+ * (e.g. 'local' in development, 'fixture' in tests).
+ */
+export function createLlmProvider(config: BrainPackModelConfig): LlmProvider {
+  const kind = (process.env.AI_BRAIN_PROVIDER as LlmProviderKind | undefined) || config.provider || 'openai_compatible';
+
+  switch (kind) {
+    case 'openai_compatible': {
+      const apiKey = process.env.OPENROUTER_API_KEY || process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new LlmProviderError('AI provider is not configured: set OPENROUTER_API_KEY or OPENAI_API_KEY');
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.AI_BRAIN_BASE_URL || 'https://openrouter.ai/api/v1',
+        apiKey,
+        headers: {
+          'HTTP-Referer': 'https://jamestronic.com',
+          'X-Title': 'JamesTronic'
+        }
+      });
+    }
+    case 'local':
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:8080/v1',
+        apiKey: process.env.LOCAL_LLM_API_KEY
+      }, 'local');
+    case 'fixture':
+      return new FixtureProvider();
+    default:
+      throw new LlmProviderError(`Unknown AI provider: ${kind}`);
+  }
+}
+
+/**
+ * Model to request for a pack; a local server usually serves a different model than the hosted one
+ */
+export function resolveModel(config: BrainPackModelConfig, provider: LlmProvider): string {
+  if (provider.kind === 'local' && process.env.LOCAL_LLM_MODEL) {
+    return process.env.LOCAL_LLM_MODEL;
+  }
+  return config.model;
+}
+
+interface RetryOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  backoffMs?: number;
+}
+
+/**
+ * Call the provider with a per-attempt timeout, retrying retryable failures with exponential backoff.
+ * `parse` runs on each attempt's output; a LlmProviderError it throws is retried like any other.
+ */
+export async function completeWithRetries<T>(
+  provider: LlmProvider,
+  request: Omit<LlmChatRequest, 'signal'>,
+  parse: (content: string) => T,
+  { timeoutMs, maxRetries, backoffMs = 500 }: RetryOptions
+): Promise<T> {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const content = await provider.complete({ ...request, signal: controller.signal });
+      return parse(content);
+    } catch (error) {
+      lastError = error;
+      const retryable = error instanceof LlmProviderError && error.retryable;
+      if (!retryable || attempt === maxRetries) {
+        break;
+      }
+      console.warn(`[AI Brain] Attempt ${attempt + 1} failed, retrying:`, (error as Error).message);
+      await new Promise(resolve => setTimeout(resolve, backoffMs * 2 ** attempt));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,148 @@
+// notification-preferences.ts
+// Reads and updates customer notification preferences, recording every consent change in the
+// append-only customer_consent_events ledger
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { NotificationChannel } from '@/lib/notifications/channels/types';
+import {
+  ALL_EVENTS,
+  CustomerNotificationPreferences,
+  defaultNotificationPreferences,
+  diffConsent
+} from '@/lib/notifications/preferences';
+
+export type ConsentSource = 'preferences_screen' | 'unsubscribe_link' | 'staff';
+
+/**
+ * Who changed consent and from where, kept with each ledger entry
+ */
+export interface ConsentContext {
+  source: ConsentSource;
+  actor_user_id?: string | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+}
+
+export type NotificationPreferencesUpdate = Partial<Pick<
+  CustomerNotificationPreferences,
+  'language' | 'timezone' | 'quiet_hours_start' | 'quiet_hours_end' | 'channel_opt_outs'
+>> & {
+  whatsapp_consent?: boolean;
+};
+
+const PREFERENCE_COLUMNS = 'customer_id, language, timezone, quiet_hours_start, quiet_hours_end, channel_opt_outs, whatsapp_consent_at, updated_at';
+
+export class NotificationPreferencesService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase?: SupabaseClient) {
+    // Use service role key: the consent ledger is written on the customer's behalf
+    this.supabase = supabase ?? createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    );
+  }
+
+  /**
+   * A customer's preferences, or the defaults if they have never saved any
+   */
+  async get(customerId: string): Promise<CustomerNotificationPreferences> {
+    const { data, error } = await this.supabase
+      .from('customer_notification_preferences')
+      .select(PREFERENCE_COLUMNS)
+      .eq('customer_id', customerId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load notification preferences: ${error.message}`);
+    }
+
+    if (!data) {
+      return defaultNotificationPreferences(customerId);
+    }
+
+    // Postgres returns TIME as HH:MM:SS
+    return {
+      ...data,
+      quiet_hours_start: data.quiet_hours_start ? data.quiet_hours_start.slice(0, 5) : null,
+      quiet_hours_end: data.quiet_hours_end ? data.quiet_hours_end.slice(0, 5) : null,
+      channel_opt_outs: data.channel_opt_outs || {}
+    } as CustomerNotificationPreferences;
+  }
+
+  /**
+   * Save changes to a customer's preferences and record any consent changes
+   */
+  async update(customerId: string, changes: NotificationPreferencesUpdate, context: ConsentContext): Promise<CustomerNotificationPreferences> {
+    const before = await this.get(customerId);
+    const { whatsapp_consent, ...fields } = changes;
+
+    const after: CustomerNotificationPreferences = {
+      ...before,
+      ...fields,
+      whatsapp_consent_at: whatsapp_consent === undefined
+        ? before.whatsapp_consent_at
+        : whatsapp_consent ? (before.whatsapp_consent_at ?? new Date().toISOString()) : null,
+      updated_at: new Date().toISOString()
+    };
+
+    const { error } = await this.supabase
+      .from('customer_notification_preferences')
+      .upsert(after, { onConflict: 'customer_id' });
+
+    if (error) {
+      throw new Error(`Failed to save notification preferences: ${error.message}`);
+    }
+
+    await this.recordConsentChanges(customerId, before, after, context);
+    return after;
+  }
+
+  /**
+   * Opt a customer out of a channel for every event (one-click unsubscribe).
+   * For WhatsApp this withdraws consent.
+   */
+  async optOut(customerId: string, channel: NotificationChannel, context: ConsentContext): Promise<CustomerNotificationPreferences> {
+    if (channel === 'whatsapp') {
+      return this.update(customerId, { whatsapp_consent: false }, context);
+    }
+
+    const current = await this.get(customerId);
+    const optedOut = current.channel_opt_outs[ALL_EVENTS] || [];
+
+    return this.update(customerId, {
+      channel_opt_outs: {
+        ...current.channel_opt_outs,
+        [ALL_EVENTS]: optedOut.includes(channel) ? optedOut : [...optedOut, channel]
+      }
+    }, context);
+  }
+
+  private async recordConsentChanges(
+    customerId: string,
+    before: CustomerNotificationPreferences,
+    after: CustomerNotificationPreferences,
+    context: ConsentContext
+  ): Promise<void> {
+    const changes = diffConsent(before, after);
+    if (changes.length === 0) return;
+
+    const { error } = await this.supabase
+      .from('customer_consent_events')
+      .insert(changes.map(change => ({
+        customer_id: customerId,
+        channel: change.channel,
+        event_type: change.event_type,
+        action: change.action,
+        source: context.source,
+        actor_user_id: context.actor_user_id ?? null,
+        ip_address: context.ip_address ?? null,
+        user_agent: context.user_agent ?? null
+      })));
+
+    if (error) {
+      // The preference itself is saved; a missing ledger entry must still be visible
+      console.error('[Notification Preferences] Error recording consent change:', error);
+    }
+  }
+}
@@ -1,5 +1,6 @@
-import { sendNotificationToOneSignalPlayer } from '@/lib/notifications/onesignal-notification-service';
 import { supabase } from '@/lib/supabase/supabase';
+import type { NotificationChannel } from '@/lib/notifications/channels/types';
+import type { TemplateValue } from '@/lib/notifications/templates';
 
 // Define notification priority types
 export type NotificationPriority = 'low' | 'medium' | 'high';
@@ -7,75 +8,132 @@ export type NotificationPriority = 'low' | 'medium' | 'high';
 // Define notification routing rules
 interface NotificationRoute {
   priority: NotificationPriority;
-  channels: ('push' | 'sms' | 'email')[];
+  channels: NotificationChannel[];
   enabled: boolean;
 }
 
 /**
- * Get notification routing configuration based on priority
+ * A customer notification to be routed to one or more channels
  */
-export function getNotificationRoute(priority: number): NotificationRoute {
+export interface RoutedNotification {
+  ticketId: string;
+  customerId: string;
+  eventKey: string;
+  message: string;
+  priority: number;
+  sentiment?: 'anxious' | 'neutral' | 'hopeful' | 'happy' | 'angry';
+  idempotencyKey?: string; // Defaults to ticket + event + channel + hour
+  // Registry template to render at delivery in the customer's language; message is the fallback
+  // text for channels the template does not cover
+  template?: { key: string; values: Record<string, TemplateValue> };
+}
+
+/**
+ * Get notification routing configuration based on priority.
+ * Pure: gives the same answer on the server and in the browser.
+ * @param priority Rule priority (4+ is high, 2-3 medium)
+ * @param requestedChannel Channel the rule asks for, always included
+ */
+export function getNotificationRoute(priority: number, requestedChannel?: NotificationChannel): NotificationRoute {
+  let route: NotificationRoute;
+
   if (priority >= 4) {
-    // High priority: push + sms
-    return {
+    // High priority: push + WhatsApp, kept in the inbox
+    route = {
       priority: 'high',
-      channels: ['push', 'sms'],
+      channels: ['push', 'whatsapp', 'in_app'],
       enabled: true
     };
   } else if (priority >= 2) {
-    // Medium priority: push only
-    return {
+    // Medium priority: push, kept in the inbox
+    route = {
       priority: 'medium',
-      channels: ['push'],
+      channels: ['push', 'in_app'],
       enabled: true
     };
   } else {
-    // Low priority: push only
-    return {
+    // Low priority: push, kept in the inbox
+    route = {
       priority: 'low',
-      channels: ['push'],
+      channels: ['push', 'in_app'],
       enabled: true
     };
   }
+
+  if (requestedChannel && !route.channels.includes(requestedChannel)) {
+    route.channels = [...route.channels, requestedChannel];
+  }
+
+  return route;
 }
 
 /**
- * Route notification to appropriate channels based on priority
+ * Idempotency key for enqueuing: the same event for the same ticket, channel and hour is one message
  */
-export async function routeNotification(
-  playerId: string,
-  message: string,
-  title: string,
-  priority: number,
-  originalChannel?: 'push' | 'sms' | 'email'
+export function buildNotificationIdempotencyKey(
+  ticketId: string,
+  eventKey: string,
+  channel: string,
+  at: Date = new Date()
+): string {
+  return `${ticketId}:${eventKey}:${channel}:${at.toISOString().slice(0, 13)}`;
+}
+
+/**
+ * Queue a notification on one channel. Delivery happens in the outbox worker
+ * (/api/internal/notifications/outbox); a duplicate idempotency key is ignored.
+ */
+export async function enqueueNotification(
+  notification: RoutedNotification,
+  channel: NotificationChannel
 ): Promise<boolean> {
-  try {
-    const route = getNotificationRoute(priority);
-
-    // Always send push notification
-    if (route.channels.includes('push')) {
-      try {
-        await sendNotificationToOneSignalPlayer(playerId, title, message, `${window.location.origin}/tech/jobs`);
-      } catch (pushError) {
-        console.error('Error sending push notification:', pushError);
-      }
-    }
+  const now = new Date();
 
-    // Send SMS for high priority notifications
-    if (route.channels.includes('sms')) {
-      // In a real implementation, we would call an SMS service
-      // For now we just log that we would send SMS
-      console.log(`Would send SMS to ${playerId}: ${message}`);
-    }
+  const { error } = await supabase
+    .from('customer_notification_queue')
+    .upsert({
+      ticket_id: notification.ticketId,
+      customer_id: notification.customerId,
+      event_type: notification.eventKey,
+      message: notification.message,
+      channel,
+      priority: notification.priority,
+      status: 'pending',
+      retry_count: 0,
+      sentiment: notification.sentiment || 'neutral',
+      template_key: notification.template?.key ?? null,
+      template_values: notification.template?.values ?? null,
+      idempotency_key: notification.idempotencyKey
+        ? `${notification.idempotencyKey}:${channel}`
+        : buildNotificationIdempotencyKey(notification.ticketId, notification.eventKey, channel, now),
+      next_attempt_at: now.toISOString(),
+      created_at: now.toISOString()
+    }, { onConflict: 'idempotency_key', ignoreDuplicates: true });
 
-    // Send email for high priority notifications
-    if (route.channels.includes('email')) {
-      // In a real implementation, we would call an email service
-      // For now we just log that we would send email
-      console.log(`Would send email to ${playerId}: ${message}`);
+  if (error) {
+    console.error('Error queuing notification:', error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Route notification to appropriate channels based on priority.
+ * Only queues rows, so it is safe to call from API routes and from the browser.
+ */
+export async function routeNotification(
+  notification: RoutedNotification,
+  requestedChannel?: NotificationChannel
+): Promise<boolean> {
+  try {
+    const route = getNotificationRoute(notification.priority, requestedChannel);
+    if (!route.enabled) {
+      return false;
     }
 
-    return true;
+    const results = await Promise.all(route.channels.map(channel => enqueueNotification(notification, channel)));
+    return results.every(Boolean);
   } catch (error) {
     console.error('Error routing notification:', error);
     return false;
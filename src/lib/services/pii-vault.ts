@@ -0,0 +1,101 @@
+// PII token vault for the AI Brain
+// Stores the values behind redaction tokens encrypted (AES-256-GCM), readable only with the service role
+
+import { createClient } from '@supabase/supabase-js';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import type { PiiCategory, PiiToken } from '@/ai-brain/core/redaction';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+function getVaultKey(): Buffer | null {
+    const secret = process.env.AI_PII_VAULT_KEY;
+    return secret ? createHash('sha256').update(secret).digest() : null;
+}
+
+/**
+ * Encrypt a PII value as base64 "iv.tag.ciphertext"
+ */
+export function encryptPiiValue(value: string, key: Buffer): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join('.');
+}
+
+/**
+ * Decrypt a value produced by encryptPiiValue
+ */
+export function decryptPiiValue(payload: string, key: Buffer): string {
+    const [iv, tag, ciphertext] = payload.split('.').map(part => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+function getServiceClient() {
+    return createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    );
+}
+
+export class PiiVaultService {
+
+    /**
+     * Store the tokens issued for one AI interaction
+     * @param interactionId - ID shared with the ai_brain_logs row
+     * @param tokens - Tokens and their original values
+     * @returns Whether the tokens can later be revealed
+     */
+    static async store(interactionId: string, tokens: PiiToken[]): Promise<boolean> {
+        if (tokens.length === 0) return true;
+
+        const key = getVaultKey();
+        if (!key) {
+            // Without a key the tokens simply stay irreversible
+            console.warn('[PII Vault] AI_PII_VAULT_KEY is not configured; redaction tokens will not be stored');
+            return false;
+        }
+
+        const { error } = await getServiceClient()
+            .from('ai_pii_tokens')
+            .insert(tokens.map(entry => ({
+                interaction_id: interactionId,
+                token: entry.token,
+                category: entry.category,
+                encrypted_value: encryptPiiValue(entry.value, key)
+            })));
+
+        if (error) {
+            console.error('[PII Vault] Failed to store redaction tokens:', error);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Load and decrypt the tokens of an interaction. Callers must have checked authorisation.
+     */
+    static async load(interactionId: string): Promise<PiiToken[]> {
+        const key = getVaultKey();
+        if (!key) {
+            throw new Error('AI_PII_VAULT_KEY is not configured');
+        }
+
+        const { data, error } = await getServiceClient()
+            .from('ai_pii_tokens')
+            .select('token, category, encrypted_value')
+            .eq('interaction_id', interactionId);
+
+        if (error) {
+            throw new Error(`Failed to load redaction tokens: ${error.message}`);
+        }
+
+        return (data || []).map((row: any) => ({
+            token: row.token,
+            category: row.category as PiiCategory,
+            value: decryptPiiValue(row.encrypted_value, key)
+        }));
+    }
+}
@@ -0,0 +1,403 @@
+// route-planner.ts
+// Run sheets for transporter shifts: batches each internal vehicle's open transport jobs and logistics
+// deliveries, solves the routing problem (src/lib/routing/vrp.ts) and stores one ordered run sheet per
+// vehicle. Pending deliveries can be included as proposals; the planner does not assign them.
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { isInboundJob } from '@/lib/custody/chain';
+import { DistanceSource, fetchOsrmMatrix, haversineMatrix, TravelMatrix } from '@/lib/routing/distance';
+import {
+  RouteStopLocation,
+  RouteTask,
+  RouteVehicle,
+  routingPoints,
+  solveRoutes,
+  TimeWindow,
+  UnplannedTask,
+  VehicleRoute
+} from '@/lib/routing/vrp';
+
+/** Used when a fleet row has no capacity_kg */
+export const DEFAULT_CAPACITY_KG: Record<string, number> = {
+  motorbike: 15,
+  scooter: 12,
+  three_wheeler: 250,
+  small_van: 600,
+  large_van: 1200,
+  truck: 3000,
+};
+
+/** A boxed phone, laptop or small appliance, when the job or delivery has no weight */
+export const DEFAULT_PARCEL_WEIGHT_KG = 3;
+
+/** A scheduled time without an explicit window is treated as the start of a two-hour slot */
+export const DEFAULT_SLOT_S = 2 * 60 * 60;
+
+const OPEN_JOB_STATUSES = ['assigned', 'en_route_pickup', 'arrived_pickup', 'picked_up', 'en_route_drop', 'arrived_drop'];
+const ONBOARD_JOB_STATUSES = ['picked_up', 'en_route_drop', 'arrived_drop'];
+const OPEN_DELIVERY_STATUSES = ['assigned', 'pickup_in_progress', 'picked_up', 'in_transit', 'delivery_attempted'];
+const ONBOARD_DELIVERY_STATUSES = ['picked_up', 'in_transit', 'delivery_attempted'];
+
+export interface PlanShiftInput {
+  shiftDate: string; // YYYY-MM-DD
+  shiftStart: string;
+  shiftEnd: string;
+  fleetIds?: string[];
+  includeUnassigned?: boolean;
+  createdBy?: string | null;
+}
+
+export interface RouteBatch {
+  id: string;
+  shift_date: string;
+  shift_start: string;
+  shift_end: string;
+  distance_source: DistanceSource;
+  unplanned: UnplannedTask[];
+  created_at: string;
+}
+
+export interface RunSheet extends Omit<VehicleRoute, 'vehicle_id'> {
+  id: string;
+  batch_id: string;
+  transporter_fleet_id: string;
+  driver_id: string | null;
+  shift_date: string;
+  vehicle_plate: string | null;
+  vehicle_type: string | null;
+}
+
+export interface ShiftRoutePlan {
+  batch: RouteBatch | null;
+  run_sheets: RunSheet[];
+}
+
+interface FleetRow {
+  id: string;
+  driver_id: string | null;
+  vehicle_plate: string | null;
+  vehicle_type: string;
+  capacity_kg: number | null;
+  start_lat: number | null;
+  start_lng: number | null;
+}
+
+interface JobRow {
+  id: string;
+  job_type: string;
+  status: string;
+  assigned_transporter_id: string | null;
+  pickup_address_text: string | null;
+  drop_address_text: string | null;
+  pickup_lat: number | null;
+  pickup_lng: number | null;
+  drop_lat: number | null;
+  drop_lng: number | null;
+  scheduled_at: string | null;
+  weight_kg: number | null;
+  window_start: string | null;
+  window_end: string | null;
+}
+
+interface DeliveryRow {
+  id: string;
+  status: string;
+  assigned_transporter_id: string | null;
+  pickup_address: string;
+  delivery_address: string;
+  items_description: string | null;
+  items_weight_kg: number | null;
+  pickup_lat: number | null;
+  pickup_lng: number | null;
+  delivery_lat: number | null;
+  delivery_lng: number | null;
+  scheduled_pickup: string | null;
+  window_start: string | null;
+  window_end: string | null;
+}
+
+const FLEET_COLUMNS = 'id, driver_id, vehicle_plate, vehicle_type, capacity_kg, start_lat, start_lng';
+
+const JOB_COLUMNS = 'id, job_type, status, assigned_transporter_id, pickup_address_text, drop_address_text, pickup_lat, pickup_lng, drop_lat, drop_lng, scheduled_at, weight_kg, window_start, window_end';
+
+const DELIVERY_COLUMNS = 'id, status, assigned_transporter_id, pickup_address, delivery_address, items_description, items_weight_kg, pickup_lat, pickup_lng, delivery_lat, delivery_lng, scheduled_pickup, window_start, window_end';
+
+const toEpoch = (value: string | null | undefined) => (value ? Math.floor(new Date(value).getTime() / 1000) : null);
+
+/**
+ * Explicit window if set, else a slot starting at the scheduled time, else open
+ */
+export function stopWindow(windowStart: string | null, windowEnd: string | null, scheduledAt?: string | null): TimeWindow | null {
+  if (windowStart || windowEnd) return { start: toEpoch(windowStart), end: toEpoch(windowEnd) };
+
+  const scheduled = toEpoch(scheduledAt);
+  return scheduled === null ? null : { start: scheduled, end: scheduled + DEFAULT_SLOT_S };
+}
+
+function location(lat: number | null, lng: number | null, address: string | null, window: TimeWindow | null): RouteStopLocation {
+  return { lat: lat ?? NaN, lng: lng ?? NaN, address: address ?? '', window };
+}
+
+/**
+ * A transport job as a routing task. The window belongs to the customer's end of the job.
+ */
+export function jobToTask(job: JobRow, vehicleId: string): RouteTask {
+  const window = stopWindow(job.window_start, job.window_end, job.scheduled_at);
+  const inbound = isInboundJob(job.job_type);
+  const onboard = ONBOARD_JOB_STATUSES.includes(job.status);
+
+  return {
+    id: `transport_job:${job.id}`,
+    source: 'transport_job',
+    ref_id: job.id,
+    label: `${job.job_type} job #${job.id.substring(0, 8)}`,
+    weight_kg: Number(job.weight_kg) || DEFAULT_PARCEL_WEIGHT_KG,
+    pickup: onboard ? null : location(job.pickup_lat, job.pickup_lng, job.pickup_address_text, inbound ? window : null),
+    drop: location(job.drop_lat, job.drop_lng, job.drop_address_text, inbound ? null : window),
+    vehicle_id: vehicleId,
+  };
+}
+
+/**
+ * A logistics delivery as a routing task: scheduled_pickup bounds the pickup, window_start/window_end the drop
+ */
+export function deliveryToTask(delivery: DeliveryRow): RouteTask {
+  const onboard = ONBOARD_DELIVERY_STATUSES.includes(delivery.status);
+
+  return {
+    id: `delivery:${delivery.id}`,
+    source: 'delivery',
+    ref_id: delivery.id,
+    label: delivery.items_description || `Delivery #${delivery.id.substring(0, 8)}`,
+    weight_kg: Number(delivery.items_weight_kg) || DEFAULT_PARCEL_WEIGHT_KG,
+    pickup: onboard
+      ? null
+      : location(delivery.pickup_lat, delivery.pickup_lng, delivery.pickup_address, stopWindow(null, null, delivery.scheduled_pickup)),
+    drop: location(delivery.delivery_lat, delivery.delivery_lng, delivery.delivery_address, stopWindow(delivery.window_start, delivery.window_end)),
+    vehicle_id: delivery.status === 'pending_assignment' ? null : delivery.assigned_transporter_id,
+  };
+}
+
+export class RoutePlannerService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase?: SupabaseClient) {
+    // Use service role key: run sheets are only written server-side
+    this.supabase = supabase ?? createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    );
+  }
+
+  /**
+   * Plan the shift for every active internal vehicle (or the given ones) and replace their run sheets
+   */
+  async planShift(input: PlanShiftInput): Promise<ShiftRoutePlan> {
+    const shiftStart = toEpoch(input.shiftStart)!;
+    const shiftEnd = toEpoch(input.shiftEnd)!;
+
+    let fleetQuery = this.supabase
+      .from('transporter_fleets')
+      .select(FLEET_COLUMNS)
+      .eq('is_active', true)
+      .eq('provider_type', 'internal');
+    if (input.fleetIds && input.fleetIds.length > 0) fleetQuery = fleetQuery.in('id', input.fleetIds);
+
+    const { data: fleetData, error: fleetError } = await fleetQuery;
+    if (fleetError) throw new Error(`Failed to load fleet: ${fleetError.message}`);
+    const fleets = (fleetData ?? []) as FleetRow[];
+
+    const fleetByDriver = await this.fleetsByDriverAlias(fleets);
+    const tasks = [
+      ...(await this.loadJobTasks(fleetByDriver, shiftStart, shiftEnd)),
+      ...(await this.loadDeliveryTasks(fleets.map(fleet => fleet.id), input.includeUnassigned ?? false)),
+    ];
+
+    const vehicles: RouteVehicle[] = fleets.map(fleet => ({
+      id: fleet.id,
+      vehicle_type: fleet.vehicle_type,
+      capacity_kg: Number(fleet.capacity_kg) || (DEFAULT_CAPACITY_KG[fleet.vehicle_type] ?? DEFAULT_CAPACITY_KG.motorbike),
+      start: fleet.start_lat !== null && fleet.start_lng !== null ? { lat: fleet.start_lat, lng: fleet.start_lng } : null,
+      shift_start: shiftStart,
+      shift_end: shiftEnd,
+    }));
+
+    const problem = { vehicles, tasks };
+    const points = routingPoints(problem);
+    const osrm = process.env.OSRM_BASE_URL ? await fetchOsrmMatrix(process.env.OSRM_BASE_URL, points) : null;
+    const matrices = new Map<string, TravelMatrix>();
+    const matrixFor = (vehicle: RouteVehicle) => {
+      if (osrm) return osrm;
+      if (!matrices.has(vehicle.vehicle_type)) matrices.set(vehicle.vehicle_type, haversineMatrix(points, vehicle.vehicle_type));
+      return matrices.get(vehicle.vehicle_type)!;
+    };
+
+    const solution = solveRoutes(problem, matrixFor);
+
+    const runSheets = solution.routes
+      .filter(route => route.stops.length > 0)
+      .map(route => {
+        const fleet = fleets.find(candidate => candidate.id === route.vehicle_id)!;
+        return {
+          transporter_fleet_id: fleet.id,
+          driver_id: fleet.driver_id,
+          stops: route.stops,
+          distance_m: route.distance_m,
+          duration_s: route.duration_s,
+          start_at: route.start_at,
+          end_at: route.end_at,
+          max_load_kg: route.max_load_kg,
+        };
+      });
+
+    // The batch, superseding the day's earlier run sheets and the new ones are saved in one transaction
+    const { error: saveError } = await this.supabase.rpc('save_transporter_route_plan', {
+      p_shift_date: input.shiftDate,
+      p_shift_start: input.shiftStart,
+      p_shift_end: input.shiftEnd,
+      p_distance_source: osrm ? 'osrm' : 'haversine',
+      p_unplanned: solution.unplanned,
+      p_fleet_ids: fleets.map(fleet => fleet.id),
+      p_run_sheets: runSheets,
+      p_created_by: input.createdBy ?? null,
+    });
+    if (saveError) throw new Error(`Failed to save route plan: ${saveError.message}`);
+
+    return this.getShiftPlan(input.shiftDate);
+  }
+
+  /**
+   * Active run sheets for the day, with the latest batch's unplanned stops
+   */
+  async getShiftPlan(shiftDate: string): Promise<ShiftRoutePlan> {
+    const { data: batch, error: batchError } = await this.supabase
+      .from('transporter_route_batches')
+      .select('*')
+      .eq('shift_date', shiftDate)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (batchError) throw new Error(`Failed to load route batch: ${batchError.message}`);
+
+    const { data, error } = await this.supabase
+      .from('transporter_run_sheets')
+      .select('*, fleet:transporter_fleets(vehicle_plate, vehicle_type)')
+      .eq('shift_date', shiftDate)
+      .eq('status', 'active')
+      .order('start_at', { ascending: true });
+    if (error) throw new Error(`Failed to load run sheets: ${error.message}`);
+
+    return {
+      batch: (batch as RouteBatch | null) ?? null,
+      run_sheets: (data ?? []).map(row => this.toRunSheet(row)),
+    };
+  }
+
+  /**
+   * The day's run sheet for the vehicle this transporter drives
+   */
+  async getDriverRunSheet(actor: { userId: string; profileId?: string | null }, shiftDate: string): Promise<RunSheet | null> {
+    const driverIds = [actor.userId, actor.profileId].filter((id): id is string => !!id);
+
+    const { data, error } = await this.supabase
+      .from('transporter_run_sheets')
+      .select('*, fleet:transporter_fleets(vehicle_plate, vehicle_type)')
+      .eq('shift_date', shiftDate)
+      .eq('status', 'active')
+      .in('driver_id', driverIds)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load run sheet: ${error.message}`);
+
+    return data ? this.toRunSheet(data) : null;
+  }
+
+  // Transport jobs are assigned to the driver's user (or profile) id; fleets carry the driver id
+  private async fleetsByDriverAlias(fleets: FleetRow[]): Promise<Map<string, FleetRow>> {
+    const byAlias = new Map<string, FleetRow>();
+    const driverIds = fleets.map(fleet => fleet.driver_id).filter((id): id is string => !!id);
+    if (driverIds.length === 0) return byAlias;
+
+    const { data: profiles, error } = await this.supabase
+      .from('profiles')
+      .select('id, user_id')
+      .or(`id.in.(${driverIds.join(',')}),user_id.in.(${driverIds.join(',')})`);
+    if (error) throw new Error(`Failed to load drivers: ${error.message}`);
+
+    for (const fleet of fleets) {
+      if (!fleet.driver_id) continue;
+      byAlias.set(fleet.driver_id, fleet);
+      for (const profile of profiles ?? []) {
+        if (profile.id === fleet.driver_id && profile.user_id) byAlias.set(profile.user_id, fleet);
+        if (profile.user_id === fleet.driver_id) byAlias.set(profile.id, fleet);
+      }
+    }
+
+    return byAlias;
+  }
+
+  // Open jobs for the shift: anything already under way, plus jobs whose slot falls in the shift
+  private async loadJobTasks(fleetByDriver: Map<string, FleetRow>, shiftStart: number, shiftEnd: number): Promise<RouteTask[]> {
+    if (fleetByDriver.size === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('transport_jobs')
+      .select(JOB_COLUMNS)
+      .in('status', OPEN_JOB_STATUSES)
+      .in('assigned_transporter_id', [...fleetByDriver.keys()]);
+    if (error) throw new Error(`Failed to load transport jobs: ${error.message}`);
+
+    return ((data ?? []) as JobRow[])
+      .filter(job => {
+        if (job.status !== 'assigned') return true;
+        const window = stopWindow(job.window_start, job.window_end, job.scheduled_at);
+        return !window || ((window.start ?? shiftStart) < shiftEnd && (window.end ?? shiftEnd) > shiftStart);
+      })
+      .map(job => jobToTask(job, fleetByDriver.get(job.assigned_transporter_id!)!.id));
+  }
+
+  private async loadDeliveryTasks(fleetIds: string[], includeUnassigned: boolean): Promise<RouteTask[]> {
+    const tasks: RouteTask[] = [];
+
+    if (fleetIds.length > 0) {
+      const { data, error } = await this.supabase
+        .from('logistics_deliveries')
+        .select(DELIVERY_COLUMNS)
+        .in('status', OPEN_DELIVERY_STATUSES)
+        .in('assigned_transporter_id', fleetIds);
+      if (error) throw new Error(`Failed to load deliveries: ${error.message}`);
+      tasks.push(...((data ?? []) as DeliveryRow[]).map(deliveryToTask));
+    }
+
+    if (includeUnassigned) {
+      const { data, error } = await this.supabase
+        .from('logistics_deliveries')
+        .select(DELIVERY_COLUMNS)
+        .eq('status', 'pending_assignment');
+      if (error) throw new Error(`Failed to load pending deliveries: ${error.message}`);
+      tasks.push(...((data ?? []) as DeliveryRow[]).map(deliveryToTask));
+    }
+
+    return tasks;
+  }
+
+  private toRunSheet(row: any): RunSheet {
+    const fleet = Array.isArray(row.fleet) ? row.fleet[0] : row.fleet;
+    return {
+      id: row.id,
+      batch_id: row.batch_id,
+      transporter_fleet_id: row.transporter_fleet_id,
+      driver_id: row.driver_id,
+      shift_date: row.shift_date,
+      vehicle_plate: fleet?.vehicle_plate ?? null,
+      vehicle_type: fleet?.vehicle_type ?? null,
+      stops: row.stops ?? [],
+      distance_m: row.distance_m,
+      duration_s: row.duration_s,
+      start_at: row.start_at,
+      end_at: row.end_at,
+      max_load_kg: Number(row.max_load_kg) || 0,
+    };
+  }
+}
@@ -46,11 +46,19 @@ export interface SLAPolicy {
   name: string;
   scope: 'global' | 'branch' | 'category' | 'service';
   branch_id?: string;
-  device_category?: string;
+  // Hierarchical match dimensions (null/undefined = wildcard), resolved in utils/sla-policy.ts
+  city?: string | null;
+  device_category?: string | null;
+  brand?: string | null;
+  urgency_tier?: string | null;
+  customer_segment?: string | null;
   service_type?: string;
   base_minutes: number;
   logic: any;
   active: boolean;
+  priority?: number; // Tie-breaker between equally specific policies
+  effective_from?: string | null; // ISO string
+  effective_to?: string | null; // ISO string (exclusive)
   created_at: string; // ISO string
   updated_at: string; // ISO string
 }
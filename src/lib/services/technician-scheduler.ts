@@ -0,0 +1,523 @@
+// technician-scheduler.ts
+// Day plans for field technicians: lays out each technician's shift over the open tickets with the
+// scheduler in src/lib/scheduling/day-plan.ts and keeps one entry per planned ticket. Tickets are
+// proposed, not assigned. Jobs that run over push the technician's later jobs and re-plan only those,
+// and dispatchers can move jobs by hand on the calendar within the same constraints.
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type {
+  JobMove,
+  ScheduledJob,
+  ScheduledTechnician,
+  ScheduleEntry,
+  TechnicianDayPlan
+} from '@/lib/types/scheduling';
+import { fromEpochSeconds, scheduledJobs, toEpochSeconds, toPlanJob, toPlanProblem } from '@/lib/scheduling/calendar';
+import {
+  applyMove,
+  buildDayPlan,
+  DayPlan,
+  replanAfterOverrun,
+  validateMove
+} from '@/lib/scheduling/day-plan';
+import { RepairStandard, repairRequirement } from '@/lib/scheduling/repair-standards';
+
+export type PlanTrigger = 'full' | 'overrun' | 'manual_move';
+
+export interface MoveEntryInput {
+  planDate: string; // YYYY-MM-DD
+  ticketId: string;
+  technicianId: string;
+  startAt: string;
+  movedBy?: string | null;
+}
+
+export interface OverrunResult {
+  plan: TechnicianDayPlan;
+  moved: JobMove[];
+}
+
+export interface OverrunSweep {
+  checked: number;
+  extended: number;
+  moved: number;
+  completed: number;
+}
+
+interface ShiftRow {
+  id: string;
+  user_id: string;
+  shift_date: string;
+  expected_start: string;
+  expected_end: string;
+  start_lat: number | null;
+  start_lng: number | null;
+}
+
+interface TicketRow {
+  id: string;
+  device_category: string;
+  brand: string | null;
+  status: string;
+  assigned_technician_id: string | null;
+  service_lat: number | null;
+  service_lng: number | null;
+}
+
+/**
+ * A scheduling request the service refused, with an HTTP status for the API
+ */
+export class SchedulingError extends Error {
+  constructor(
+    public readonly code: string,
+    public readonly status: number,
+    public readonly details: Record<string, unknown> = {}
+  ) {
+    super(code);
+    this.name = 'SchedulingError';
+  }
+}
+
+/** Shift times are local to the service area */
+export const SCHEDULING_TIMEZONE = 'Asia/Kolkata';
+
+/** How much longer a job that has run over is assumed to take, each time it is found still open */
+export const OVERRUN_EXTENSION_S = 15 * 60;
+
+const OPEN_TICKET_STATUSES = ['pending', 'in_progress'];
+
+const FINISHED_TICKET_STATUSES = ['completed', 'resolved', 'cancelled'];
+
+const ACTIVE_ENTRY_STATUSES = ['planned', 'in_progress'];
+
+const SHIFT_COLUMNS = 'id, user_id, shift_date, expected_start, expected_end, start_lat, start_lng';
+
+const TICKET_COLUMNS = 'id, device_category, brand, status, assigned_technician_id, service_lat, service_lng';
+
+const ENTRY_COLUMNS = 'id, ticket_id, technician_id, start_at, end_at, travel_s, distance_m, sla_breach, pinned, status, label, device_category, lat, lng, repair_s, required_skill_id, min_skill_level, sla_due_at, assigned_technician_id';
+
+// Offset of the zone from UTC at the given instant, in milliseconds
+function zoneOffsetMs(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find(candidate => candidate.type === type)?.value);
+  return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second')) - instant;
+}
+
+/**
+ * A local date and HH:MM[:SS] time in the scheduling zone as an instant
+ */
+export function localTimeToIso(date: string, time: string, timeZone = SCHEDULING_TIMEZONE): string {
+  const naive = Date.parse(`${date}T${time.length === 5 ? `${time}:00` : time}Z`);
+  return new Date(naive - zoneOffsetMs(naive, timeZone)).toISOString();
+}
+
+/**
+ * Today's date in the scheduling zone, YYYY-MM-DD
+ */
+export const localDate = (now: Date, timeZone = SCHEDULING_TIMEZONE) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+
+// Only the job fields; stored entries and unplanned jobs carry more
+const jobSnapshot = (job: ScheduledJob): ScheduledJob => ({
+  ticket_id: job.ticket_id,
+  label: job.label,
+  device_category: job.device_category,
+  lat: job.lat,
+  lng: job.lng,
+  repair_s: job.repair_s,
+  required_skill_id: job.required_skill_id,
+  min_skill_level: job.min_skill_level,
+  sla_due_at: job.sla_due_at,
+  assigned_technician_id: job.assigned_technician_id,
+});
+
+function shiftWindow(shift: ShiftRow): { start: string; end: string } {
+  const start = localTimeToIso(shift.shift_date, shift.expected_start);
+  let end = localTimeToIso(shift.shift_date, shift.expected_end);
+  // Shifts that cross midnight end the next day
+  if (end <= start) end = new Date(new Date(end).getTime() + 24 * 3600 * 1000).toISOString();
+  return { start, end };
+}
+
+export class TechnicianSchedulerService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase?: SupabaseClient) {
+    // Use service role key: day plans are only written server-side
+    this.supabase = supabase ?? createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    );
+  }
+
+  /**
+   * Plan the day for every technician on shift. Jobs under way and jobs a dispatcher placed by hand keep
+   * their slot; everything else open is laid out again. Nothing is planned in the past.
+   */
+  async planDay(planDate: string, createdBy: string | null = null, now = new Date()): Promise<TechnicianDayPlan> {
+    await this.closeFinishedEntries(planDate);
+    const current = await this.getDayPlan(planDate);
+    const { problem } = toPlanProblem(current);
+    const nowS = toEpochSeconds(now.toISOString());
+
+    // Kept jobs stay with the technician they are on
+    const kept = problem.jobs
+      .filter(job => job.in_progress || (job.pinned_start !== null && job.pinned_start >= nowS))
+      .map(job => ({ ...job, technician_id: current.entries.find(entry => entry.ticket_id === job.id)!.technician_id }));
+    const keptIds = new Set(kept.map(job => job.id));
+    const tickets = (await this.loadOpenJobs(planDate, current.technicians, now)).filter(job => !keptIds.has(job.ticket_id));
+
+    const jobs = scheduledJobs(current);
+    for (const job of tickets) jobs.set(job.ticket_id, job);
+
+    const plan = buildDayPlan({
+      technicians: problem.technicians.map(technician => ({ ...technician, shift_start: Math.max(technician.shift_start, nowS) })),
+      jobs: [...kept, ...tickets.map(job => toPlanJob(job))],
+    });
+
+    await this.savePlan(planDate, 'full', plan, jobs, { createdBy });
+    return this.getDayPlan(planDate);
+  }
+
+  /**
+   * The stored plan for a day, with every technician on shift
+   */
+  async getDayPlan(planDate: string): Promise<TechnicianDayPlan> {
+    const { data: run, error: runError } = await this.supabase
+      .from('technician_plan_runs')
+      .select('id, trigger, unplanned, created_at')
+      .eq('plan_date', planDate)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (runError) throw new Error(`Failed to load plan run: ${runError.message}`);
+
+    const { data: entries, error } = await this.supabase
+      .from('technician_schedule_entries')
+      .select(ENTRY_COLUMNS)
+      .eq('plan_date', planDate)
+      .neq('status', 'superseded')
+      .order('start_at', { ascending: true });
+    if (error) throw new Error(`Failed to load schedule: ${error.message}`);
+
+    return {
+      plan_date: planDate,
+      run: run ? { id: run.id, trigger: run.trigger, created_at: run.created_at } : null,
+      technicians: await this.loadTechnicians(planDate),
+      entries: (entries ?? []).map(entry => ({
+        ...entry,
+        lat: entry.lat === null ? null : Number(entry.lat),
+        lng: entry.lng === null ? null : Number(entry.lng),
+      })) as ScheduleEntry[],
+      unplanned: run?.unplanned ?? [],
+    };
+  }
+
+  /**
+   * A dispatcher's move on the calendar. Refused with the violated constraints, otherwise the job is
+   * pinned to the new technician and time.
+   */
+  async moveEntry(input: MoveEntryInput): Promise<TechnicianDayPlan> {
+    const current = await this.getDayPlan(input.planDate);
+    const { problem, plan } = toPlanProblem(current);
+    const move = { job_id: input.ticketId, technician_id: input.technicianId, start: toEpochSeconds(input.startAt) };
+
+    const violations = validateMove(problem, plan, move);
+    if (violations.length > 0) throw new SchedulingError('invalid_move', 409, { violations });
+
+    const next = applyMove(problem, plan, move);
+    await this.savePlan(input.planDate, 'manual_move', next.plan, scheduledJobs(current), {
+      createdBy: input.movedBy ?? null,
+      pinned: [input.ticketId],
+    });
+    return this.getDayPlan(input.planDate);
+  }
+
+  /**
+   * A job is now expected to finish at expectedEndAt: re-plan the technician's later jobs around it
+   */
+  async reportOverrun(ticketId: string, expectedEndAt: string, reportedBy: string | null = null, now = new Date()): Promise<OverrunResult> {
+    const { data: entry, error } = await this.supabase
+      .from('technician_schedule_entries')
+      .select('plan_date')
+      .eq('ticket_id', ticketId)
+      .in('status', ACTIVE_ENTRY_STATUSES)
+      .order('plan_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load schedule entry: ${error.message}`);
+    if (!entry) throw new SchedulingError('job_not_planned', 404);
+
+    const current = await this.getDayPlan(entry.plan_date);
+    const { problem, plan } = toPlanProblem(current);
+    const result = replanAfterOverrun(problem, plan, ticketId, toEpochSeconds(expectedEndAt), toEpochSeconds(now.toISOString()));
+    if (!result) throw new SchedulingError('job_not_planned', 404);
+
+    await this.savePlan(entry.plan_date, 'overrun', result, scheduledJobs(current), {
+      createdBy: reportedBy,
+      inProgress: [ticketId],
+    });
+    return { plan: await this.getDayPlan(entry.plan_date), moved: result.moved };
+  }
+
+  /**
+   * Today's jobs still open past their planned end are extended and their technician's day re-planned
+   */
+  async detectOverruns(now = new Date()): Promise<OverrunSweep> {
+    const planDate = localDate(now);
+    const completed = await this.closeFinishedEntries(planDate);
+
+    const { data, error } = await this.supabase
+      .from('technician_schedule_entries')
+      .select('ticket_id')
+      .eq('plan_date', planDate)
+      .in('status', ACTIVE_ENTRY_STATUSES)
+      .lt('end_at', now.toISOString());
+    if (error) throw new Error(`Failed to load overrunning jobs: ${error.message}`);
+
+    const sweep: OverrunSweep = { checked: data?.length ?? 0, extended: 0, moved: 0, completed };
+    const expectedEnd = new Date(now.getTime() + OVERRUN_EXTENSION_S * 1000).toISOString();
+
+    for (const { ticket_id } of data ?? []) {
+      try {
+        const result = await this.reportOverrun(ticket_id, expectedEnd, null, now);
+        sweep.extended += 1;
+        sweep.moved += result.moved.length;
+      } catch (err) {
+        console.error(`Failed to re-plan around overrunning ticket ${ticket_id}:`, err);
+      }
+    }
+
+    return sweep;
+  }
+
+  // Entries whose ticket has been finished since it was planned
+  private async closeFinishedEntries(planDate: string): Promise<number> {
+    const { data: entries, error } = await this.supabase
+      .from('technician_schedule_entries')
+      .select('id, ticket_id')
+      .eq('plan_date', planDate)
+      .in('status', ACTIVE_ENTRY_STATUSES);
+    if (error) throw new Error(`Failed to load schedule: ${error.message}`);
+    if (!entries || entries.length === 0) return 0;
+
+    const { data: finished, error: ticketError } = await this.supabase
+      .from('tickets')
+      .select('id')
+      .in('id', entries.map(entry => entry.ticket_id))
+      .in('status', FINISHED_TICKET_STATUSES);
+    if (ticketError) throw new Error(`Failed to load tickets: ${ticketError.message}`);
+
+    const finishedIds = new Set((finished ?? []).map(ticket => ticket.id));
+    const done = entries.filter(entry => finishedIds.has(entry.ticket_id)).map(entry => entry.id);
+    if (done.length === 0) return 0;
+
+    const { error: updateError } = await this.supabase
+      .from('technician_schedule_entries')
+      .update({ status: 'done', updated_at: new Date().toISOString() })
+      .in('id', done);
+    if (updateError) throw new Error(`Failed to close finished jobs: ${updateError.message}`);
+
+    return done.length;
+  }
+
+  // Technicians with a shift that day, their names and skill levels
+  private async loadTechnicians(planDate: string): Promise<ScheduledTechnician[]> {
+    const { data: shiftData, error } = await this.supabase
+      .from('workforce_shifts')
+      .select(SHIFT_COLUMNS)
+      .eq('shift_date', planDate);
+    if (error) throw new Error(`Failed to load shifts: ${error.message}`);
+    const shifts = (shiftData ?? []) as ShiftRow[];
+    if (shifts.length === 0) return [];
+
+    const { data: profiles, error: profileError } = await this.supabase
+      .from('profiles')
+      .select('user_id, full_name')
+      .in('user_id', shifts.map(shift => shift.user_id));
+    if (profileError) throw new Error(`Failed to load technicians: ${profileError.message}`);
+
+    return Promise.all(shifts.map(async shift => {
+      const window = shiftWindow(shift);
+      return {
+        technician_id: shift.user_id,
+        full_name: profiles?.find(profile => profile.user_id === shift.user_id)?.full_name ?? null,
+        shift_id: shift.id,
+        shift_start: window.start,
+        shift_end: window.end,
+        start_lat: shift.start_lat === null ? null : Number(shift.start_lat),
+        start_lng: shift.start_lng === null ? null : Number(shift.start_lng),
+        skills: await this.loadSkillLevels(shift.user_id),
+      };
+    }));
+  }
+
+  // Same skill tree the technician sees; a technician whose tree fails to load is planned without skills
+  private async loadSkillLevels(userId: string): Promise<Record<string, number>> {
+    const { data, error } = await this.supabase.rpc('rpc_get_technician_skill_tree', { p_user_id: userId });
+    if (error) {
+      console.error(`Failed to load skills for technician ${userId}:`, error);
+      return {};
+    }
+
+    const skills: { skill_id: string; user_level: number }[] = data?.skills ?? [];
+    return Object.fromEntries(skills.map(skill => [skill.skill_id, Number(skill.user_level) || 0]));
+  }
+
+  // Open tickets with their repair time, skill and SLA deadline, except those planned for another day
+  private async loadOpenJobs(planDate: string, technicians: ScheduledTechnician[], now: Date): Promise<ScheduledJob[]> {
+    const { data: ticketData, error } = await this.supabase
+      .from('tickets')
+      .select(TICKET_COLUMNS)
+      .in('status', OPEN_TICKET_STATUSES);
+    if (error) throw new Error(`Failed to load tickets: ${error.message}`);
+    const tickets = (ticketData ?? []) as TicketRow[];
+    if (tickets.length === 0) return [];
+
+    const { data: elsewhere, error: entryError } = await this.supabase
+      .from('technician_schedule_entries')
+      .select('ticket_id')
+      .neq('plan_date', planDate)
+      .gte('plan_date', localDate(now))
+      .in('status', ACTIVE_ENTRY_STATUSES);
+    if (entryError) throw new Error(`Failed to load schedule: ${entryError.message}`);
+    const plannedElsewhere = new Set((elsewhere ?? []).map(entry => entry.ticket_id));
+    const open = tickets.filter(ticket => !plannedElsewhere.has(ticket.id));
+    if (open.length === 0) return [];
+
+    const { data: standards, error: standardError } = await this.supabase
+      .from('device_repair_standards')
+      .select('device_category, repair_minutes, skill_id, min_skill_level');
+    if (standardError) throw new Error(`Failed to load repair standards: ${standardError.message}`);
+
+    const { data: slaStates, error: slaError } = await this.supabase
+      .from('ticket_sla_state')
+      .select('ticket_id, eta_at')
+      .in('ticket_id', open.map(ticket => ticket.id));
+    if (slaError) throw new Error(`Failed to load SLA deadlines: ${slaError.message}`);
+
+    const technicianIds = await this.technicianAliases(technicians);
+
+    return open.map(ticket => {
+      const requirement = repairRequirement(ticket.device_category, (standards ?? []) as RepairStandard[]);
+      return {
+        ticket_id: ticket.id,
+        label: `${ticket.brand ? `${ticket.brand} ` : ''}${ticket.device_category} #${ticket.id.substring(0, 8)}`,
+        device_category: ticket.device_category,
+        lat: ticket.service_lat === null ? null : Number(ticket.service_lat),
+        lng: ticket.service_lng === null ? null : Number(ticket.service_lng),
+        repair_s: requirement.duration_s,
+        required_skill_id: requirement.skill?.skill_id ?? null,
+        min_skill_level: requirement.skill?.min_level ?? null,
+        sla_due_at: slaStates?.find(state => state.ticket_id === ticket.id)?.eta_at ?? null,
+        assigned_technician_id: ticket.assigned_technician_id
+          ? technicianIds.get(ticket.assigned_technician_id) ?? ticket.assigned_technician_id
+          : null,
+      };
+    });
+  }
+
+  // Tickets are assigned to the technician's profile (or user) id; shifts carry the user id
+  private async technicianAliases(technicians: ScheduledTechnician[]): Promise<Map<string, string>> {
+    const byAlias = new Map<string, string>();
+    if (technicians.length === 0) return byAlias;
+
+    const { data: profiles, error } = await this.supabase
+      .from('profiles')
+      .select('id, user_id')
+      .in('user_id', technicians.map(technician => technician.technician_id));
+    if (error) throw new Error(`Failed to load technicians: ${error.message}`);
+
+    for (const profile of profiles ?? []) byAlias.set(profile.id, profile.user_id);
+    return byAlias;
+  }
+
+  /**
+   * Records the run and brings the entries in line with the plan: planned tickets are updated in place
+   * or added, and tickets that dropped out of the plan are superseded
+   */
+  private async savePlan(
+    planDate: string,
+    trigger: PlanTrigger,
+    plan: DayPlan,
+    jobs: Map<string, ScheduledJob>,
+    options: { createdBy?: string | null; pinned?: string[]; inProgress?: string[] } = {}
+  ): Promise<void> {
+    const { data: run, error: runError } = await this.supabase
+      .from('technician_plan_runs')
+      .insert({
+        plan_date: planDate,
+        trigger,
+        unplanned: plan.unscheduled
+          .filter(job => jobs.has(job.job_id))
+          .map(job => ({ ...jobSnapshot(jobs.get(job.job_id)!), reason: job.reason })),
+        created_by: options.createdBy ?? null,
+      })
+      .select('id')
+      .single();
+    if (runError) throw new Error(`Failed to save plan run: ${runError.message}`);
+
+    const { data: existing, error } = await this.supabase
+      .from('technician_schedule_entries')
+      .select('id, ticket_id')
+      .eq('plan_date', planDate)
+      .in('status', ACTIVE_ENTRY_STATUSES);
+    if (error) throw new Error(`Failed to load schedule: ${error.message}`);
+    const entryByTicket = new Map((existing ?? []).map(entry => [entry.ticket_id, entry.id]));
+
+    const updatedAt = new Date().toISOString();
+    const inserts: Record<string, unknown>[] = [];
+    const planned = new Set<string>();
+
+    for (const day of plan.days) {
+      for (const visit of day.visits) {
+        const job = jobs.get(visit.job_id);
+        if (!job) continue;
+        planned.add(visit.job_id);
+
+        const row: Record<string, unknown> = {
+          technician_id: day.technician_id,
+          start_at: fromEpochSeconds(visit.start),
+          end_at: fromEpochSeconds(visit.end),
+          travel_s: visit.travel_s,
+          distance_m: visit.distance_m,
+          sla_breach: visit.sla_breach,
+          updated_at: updatedAt,
+        };
+        if (options.pinned?.includes(visit.job_id)) row.pinned = true;
+        if (options.inProgress?.includes(visit.job_id)) row.status = 'in_progress';
+
+        const entryId = entryByTicket.get(visit.job_id);
+        if (entryId) {
+          const { error: updateError } = await this.supabase.from('technician_schedule_entries').update(row).eq('id', entryId);
+          if (updateError) throw new Error(`Failed to update schedule entry: ${updateError.message}`);
+        } else {
+          inserts.push({ ...jobSnapshot(job), ...row, run_id: run.id, plan_date: planDate });
+        }
+      }
+    }
+
+    if (inserts.length > 0) {
+      const { error: insertError } = await this.supabase.from('technician_schedule_entries').insert(inserts);
+      if (insertError) throw new Error(`Failed to save schedule: ${insertError.message}`);
+    }
+
+    const dropped = [...entryByTicket].filter(([ticketId]) => !planned.has(ticketId)).map(([, entryId]) => entryId);
+    if (dropped.length > 0) {
+      const { error: supersedeError } = await this.supabase
+        .from('technician_schedule_entries')
+        .update({ status: 'superseded', updated_at: updatedAt })
+        .in('id', dropped);
+      if (supersedeError) throw new Error(`Failed to supersede schedule entries: ${supersedeError.message}`);
+    }
+  }
+}
@@ -0,0 +1,294 @@
+// ticket-payments.ts
+// Advance deposits, balance payments and refunds for tickets. Entries are checked against the ledger and
+// created 'pending' by open_ticket_payment_entry / open_ticket_refund_entries, which lock the ticket row,
+// and settled only by the gateway's signed webhooks (apply_ticket_payment_event), which also post them to
+// financial_transactions.
+
+import { randomUUID } from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createPaymentGateway, PaymentGateway, PaymentGatewayError, PaymentMethod } from '@/lib/payments/gateways';
+import {
+  DEFAULT_ADVANCE_PERCENT,
+  summarizeTicketLedger,
+  TicketLedgerSummary,
+  TicketPaymentEntry
+} from '@/lib/payments/ledger';
+
+export interface TicketLedger {
+  ticket_id: string;
+  entries: TicketPaymentEntry[];
+  summary: TicketLedgerSummary;
+}
+
+export interface StartPaymentInput {
+  ticketId: string;
+  kind: 'advance' | 'balance';
+  method: PaymentMethod;
+  amount?: number | null; // Defaults to the standard advance, or the whole outstanding balance
+  idempotencyKey?: string | null; // Client-supplied; a repeated key returns the original entry
+  actorId?: string | null;
+}
+
+export interface RefundInput {
+  ticketId: string;
+  amount?: number | null; // Defaults to everything refundable
+  quotationId?: string | null; // The rejected or cancelled quotation the refund follows
+  reason: string;
+  actorId?: string | null;
+}
+
+export interface WebhookOutcome {
+  outcome: string;
+  entry_id?: string | null;
+}
+
+const REFUNDABLE_QUOTATION_STATUSES = ['rejected', 'cancelled'];
+
+const NOT_FOUND_ERRORS = ['ticket_not_found', 'quotation_not_found'];
+const CONFLICT_ERRORS = [
+  'nothing_due',
+  'amount_exceeds_balance',
+  'no_approved_quotation',
+  'quotation_not_cancelled',
+  'nothing_to_refund',
+  'refund_exceeds_refundable',
+  'provider_mismatch',
+];
+
+/**
+ * HTTP status for an error thrown by TicketPaymentService
+ */
+export function ticketPaymentErrorStatus(error: unknown): number {
+  if (error instanceof PaymentGatewayError) return 502;
+
+  const message = (error as Error)?.message ?? '';
+  if (NOT_FOUND_ERRORS.some(code => message.startsWith(code))) return 404;
+  if (CONFLICT_ERRORS.some(code => message.startsWith(code))) return 409;
+  if (message === 'invalid_amount' || message === 'amount_required') return 400;
+  return 500;
+}
+
+export class TicketPaymentService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase?: SupabaseClient, private gateway: PaymentGateway = createPaymentGateway()) {
+    // Use service role key: ledger rows are only written server-side
+    this.supabase = supabase ?? createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    );
+  }
+
+  async getLedger(ticketId: string): Promise<TicketLedger> {
+    const [{ data: entries, error }, amountDue] = await Promise.all([
+      this.supabase
+        .from('ticket_payment_entries')
+        .select('*')
+        .eq('ticket_id', ticketId)
+        .order('created_at', { ascending: true }),
+      this.getAmountDue(ticketId),
+    ]);
+
+    if (error) {
+      throw new Error(`Failed to load payment ledger: ${error.message}`);
+    }
+
+    const rows = (entries ?? []) as TicketPaymentEntry[];
+    return { ticket_id: ticketId, entries: rows, summary: summarizeTicketLedger(rows, amountDue) };
+  }
+
+  /**
+   * Request an advance or balance payment from the gateway. The returned entry carries what the
+   * customer needs to pay (gateway reference, checkout or UPI intent link).
+   */
+  async startPayment(input: StartPaymentInput): Promise<TicketPaymentEntry> {
+    const idempotencyKey = input.idempotencyKey ? `${input.ticketId}:${input.idempotencyKey}` : null;
+    const ticket = await this.getTicket(input.ticketId);
+
+    // The balance check and the pending entry happen under the ticket row lock, so concurrent
+    // requests cannot both collect the same outstanding amount
+    const { data, error } = await this.supabase.rpc('open_ticket_payment_entry', {
+      p_ticket_id: ticket.id,
+      p_kind: input.kind,
+      p_method: input.method,
+      p_amount: input.amount ?? null,
+      p_provider: this.gateway.provider,
+      p_idempotency_key: idempotencyKey ?? `${input.ticketId}:${input.kind}:${randomUUID()}`,
+      p_created_by: input.actorId ?? null,
+      p_advance_percent: DEFAULT_ADVANCE_PERCENT,
+    });
+
+    if (error) throw new Error(error.message);
+
+    const { entry, existing } = data as { entry: TicketPaymentEntry; existing: boolean };
+    if (existing) return entry;
+    const amount = Number(entry.amount);
+
+    try {
+      const intent = await this.gateway.createPayment({
+        ledger_entry_id: entry.id,
+        ticket_id: ticket.id,
+        amount,
+        currency: entry.currency,
+        method: input.method,
+        description: `${input.kind === 'advance' ? 'Advance' : 'Balance'} for repair ticket ${ticket.id}`,
+        customer_phone_e164: ticket.customer?.phone_e164 ?? null,
+      }, entry.idempotency_key);
+
+      return await this.updateEntry(entry.id, {
+        provider_payment_id: intent.provider_payment_id,
+        checkout_url: intent.checkout_url ?? null,
+        upi_intent_url: intent.upi_intent_url ?? null,
+      });
+    } catch (error) {
+      await this.updateEntry(entry.id, { status: 'failed', failure_reason: (error as Error).message });
+      throw error;
+    }
+  }
+
+  /**
+   * Refund captured payments, split across them newest first. One refund entry is created per
+   * payment touched; each settles when its webhook arrives.
+   */
+  async refund(input: RefundInput): Promise<TicketPaymentEntry[]> {
+    if (input.quotationId) {
+      const { data: quotation, error } = await this.supabase
+        .from('ticket_quotations')
+        .select('id, status')
+        .eq('id', input.quotationId)
+        .eq('ticket_id', input.ticketId)
+        .maybeSingle();
+
+      if (error) throw new Error(`Failed to load quotation: ${error.message}`);
+      if (!quotation) throw new Error('quotation_not_found');
+      if (!REFUNDABLE_QUOTATION_STATUSES.includes(quotation.status)) {
+        throw new Error('quotation_not_cancelled');
+      }
+    }
+
+    // Allocation and the pending refund entries happen under the ticket row lock, so concurrent
+    // refunds cannot both spend what is refundable
+    const { data, error } = await this.supabase.rpc('open_ticket_refund_entries', {
+      p_ticket_id: input.ticketId,
+      p_amount: input.amount ?? null,
+      p_provider: this.gateway.provider,
+      p_quotation_id: input.quotationId ?? null,
+      p_reason: input.reason,
+      p_created_by: input.actorId ?? null,
+    });
+
+    if (error) throw new Error(error.message);
+
+    const entries = (data ?? []) as TicketPaymentEntry[];
+    const refunds: TicketPaymentEntry[] = [];
+
+    for (const [index, entry] of entries.entries()) {
+      try {
+        const result = await this.gateway.refund({
+          ledger_entry_id: entry.id,
+          provider_charge_id: entry.provider_charge_id!,
+          amount: Number(entry.amount),
+          reason: input.reason,
+        }, entry.idempotency_key);
+
+        refunds.push(await this.updateEntry(entry.id, { provider_refund_id: result.provider_refund_id }));
+      } catch (error) {
+        await this.updateEntry(entry.id, { status: 'failed', failure_reason: (error as Error).message });
+        // The rest were never sent; release them so they stop counting against what is refundable
+        for (const unsent of entries.slice(index + 1)) {
+          await this.updateEntry(unsent.id, { status: 'cancelled', failure_reason: 'Not sent: an earlier refund in the same request failed' });
+        }
+        throw error;
+      }
+    }
+
+    return refunds;
+  }
+
+  /**
+   * Return whatever is refundable after the customer rejects a quotation. A ticket with nothing
+   * paid is left alone.
+   */
+  async refundForRejectedQuotation(ticketId: string, quotationId: string, actorId?: string | null): Promise<TicketPaymentEntry[]> {
+    const { summary } = await this.getLedger(ticketId);
+    if (summary.refundable <= 0) return [];
+
+    return this.refund({
+      ticketId,
+      quotationId,
+      reason: 'Quotation rejected by customer',
+      actorId,
+    });
+  }
+
+  /**
+   * Verify and apply one gateway webhook. Throws PaymentWebhookSignatureError for forged deliveries.
+   */
+  async handleWebhook(rawBody: string, headers: Headers): Promise<WebhookOutcome> {
+    const event = this.gateway.parseWebhook(rawBody, headers);
+    if (!event) return { outcome: 'ignored' };
+
+    const { data, error } = await this.supabase.rpc('apply_ticket_payment_event', {
+      p_provider: this.gateway.provider,
+      p_event_id: event.event_id,
+      p_event_type: event.type,
+      p_provider_payment_id: event.provider_payment_id,
+      p_provider_charge_id: event.provider_charge_id,
+      p_provider_refund_id: event.provider_refund_id,
+      p_failure_reason: event.failure_reason,
+      p_payload: event.payload,
+    });
+
+    if (error) {
+      throw new Error(`Failed to apply payment event: ${error.message}`);
+    }
+
+    return data as WebhookOutcome;
+  }
+
+  private async getTicket(ticketId: string) {
+    const { data, error } = await this.supabase
+      .from('tickets')
+      .select('id, customer_id, customer:customers(phone_e164)')
+      .eq('id', ticketId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load ticket: ${error.message}`);
+    if (!data) throw new Error('ticket_not_found');
+
+    return data as unknown as {
+      id: string;
+      customer_id: string | null;
+      customer: { phone_e164: string | null } | null;
+    };
+  }
+
+  /**
+   * Total of the ticket's approved quotation, or 0 if it has none yet
+   */
+  private async getAmountDue(ticketId: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('ticket_quotations')
+      .select('quoted_price')
+      .eq('ticket_id', ticketId)
+      .eq('status', 'approved')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load quotation: ${error.message}`);
+    return Number(data?.quoted_price ?? 0);
+  }
+
+  private async updateEntry(id: string, changes: Record<string, unknown>): Promise<TicketPaymentEntry> {
+    const { data, error } = await this.supabase
+      .from('ticket_payment_entries')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (error) throw new Error(`Failed to update payment entry: ${error.message}`);
+    return data as TicketPaymentEntry;
+  }
+}
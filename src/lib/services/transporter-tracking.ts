@@ -0,0 +1,554 @@
+// transporter-tracking.ts
+// Live GPS from the transporter PWA: batched pings are filtered and stored, the vehicle's latest fix is
+// kept, and every open job of the rider gets a smoothed ETA for its next stop. Customers read their
+// job's ETA, and a coarse rider position only when the rider is close and heading to them; dispatch
+// is alerted when a rider stops pinging mid-job.
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { LiveTracking } from '@/lib/types/logistics';
+import { custodyEndpoint, CustodyStage } from '@/lib/custody/chain';
+import { isValidPosition } from '@/lib/custody/geofence';
+import { LatLng } from '@/lib/routing/distance';
+import {
+  chainTravel,
+  customerVisiblePosition,
+  EtaEstimate,
+  HANDOFF_DWELL_S,
+  orderBySequence,
+  smoothEta,
+  smoothSpeed
+} from '@/lib/tracking/eta';
+import {
+  filterPings,
+  isPingStale,
+  LocationPing,
+  MIN_PING_INTERVAL_S,
+  PingRejection,
+  speedBetween
+} from '@/lib/tracking/pings';
+
+export interface TrackingActor {
+  userId: string;
+  profileId?: string | null;
+}
+
+export interface PingIngestResult {
+  accepted: number;
+  rejected: Partial<Record<PingRejection, number>>;
+  next_interval_s: number;
+}
+
+export type TicketTrackingStatus = 'not_scheduled' | 'awaiting_rider' | 'on_the_way' | 'arrived' | 'completed';
+
+export interface TicketTracking {
+  status: TicketTrackingStatus;
+  stage: CustodyStage | null;
+  destination: 'customer' | 'branch' | null;
+  eta_at: string | null;
+  stops_before: number | null;
+  live: boolean;
+  last_update_at: string | null;
+  rider_position: LatLng | null;
+}
+
+export interface StalenessSweep {
+  checked: number;
+  opened: number;
+  resolved: number;
+}
+
+interface FleetRow {
+  id: string;
+  driver_id: string | null;
+  vehicle_plate: string | null;
+  vehicle_type: string | null;
+}
+
+interface PositionRow {
+  transporter_fleet_id: string;
+  driver_id: string | null;
+  lat: number;
+  lng: number;
+  accuracy_m: number | null;
+  speed_kmh: number | null;
+  smoothed_speed_kmh: number | null;
+  heading: number | null;
+  battery_level: number | null;
+  recorded_at: string;
+}
+
+interface JobRow {
+  id: string;
+  ticket_id: string;
+  job_type: string;
+  status: string;
+  assigned_transporter_id: string | null;
+  pickup_lat: number | null;
+  pickup_lng: number | null;
+  drop_lat: number | null;
+  drop_lng: number | null;
+}
+
+interface EtaRow extends EtaEstimate {
+  transport_job_id: string;
+  transporter_fleet_id: string;
+  stage: CustodyStage;
+  stops_before: number;
+}
+
+/**
+ * A tracking request the service refused, with an HTTP status for the API
+ */
+export class TrackingError extends Error {
+  constructor(
+    public readonly code: string,
+    public readonly status: number,
+    public readonly details: Record<string, unknown> = {}
+  ) {
+    super(code);
+    this.name = 'TrackingError';
+  }
+}
+
+/** Jobs a rider is working on, from assignment until the drop is confirmed */
+const ACTIVE_JOB_STATUSES = ['assigned', 'en_route_pickup', 'arrived_pickup', 'picked_up', 'en_route_drop', 'arrived_drop'];
+
+/** The rider is on the way to a stop, at one, or carrying the device: silence here needs a look from dispatch */
+const MID_JOB_STATUSES = ['en_route_pickup', 'arrived_pickup', 'picked_up', 'en_route_drop', 'arrived_drop'];
+
+/** Jobs whose rider is heading to a stop rather than standing at one */
+const MOVING_JOB_STATUSES = ['assigned', 'en_route_pickup', 'picked_up', 'en_route_drop'];
+
+const PICKUP_STAGE_STATUSES = ['assigned', 'en_route_pickup', 'arrived_pickup'];
+
+const FINISHED_JOB_STATUSES = ['delivered', 'completed'];
+
+const FLEET_COLUMNS = 'id, driver_id, vehicle_plate, vehicle_type';
+
+const POSITION_COLUMNS = 'transporter_fleet_id, driver_id, lat, lng, accuracy_m, speed_kmh, smoothed_speed_kmh, heading, battery_level, recorded_at';
+
+const JOB_COLUMNS = 'id, ticket_id, job_type, status, assigned_transporter_id, pickup_lat, pickup_lng, drop_lat, drop_lng';
+
+const toNumber = (value: unknown) => (value == null ? null : Number(value));
+
+// The stop the job is heading to, from its status
+const jobStage = (status: string): CustodyStage => (PICKUP_STAGE_STATUSES.includes(status) ? 'pickup' : 'drop');
+
+function jobTarget(job: JobRow): LatLng | null {
+  const [lat, lng] = jobStage(job.status) === 'pickup' ? [job.pickup_lat, job.pickup_lng] : [job.drop_lat, job.drop_lng];
+  return lat !== null && lng !== null && isValidPosition({ lat, lng }) ? { lat, lng } : null;
+}
+
+function positionToPing(row: PositionRow): LocationPing {
+  return {
+    lat: row.lat,
+    lng: row.lng,
+    accuracy_m: toNumber(row.accuracy_m),
+    speed_kmh: toNumber(row.speed_kmh),
+    heading: toNumber(row.heading),
+    battery_level: toNumber(row.battery_level),
+    recorded_at: row.recorded_at,
+  };
+}
+
+export class TransporterTrackingService {
+  private supabase: SupabaseClient;
+
+  constructor(supabase?: SupabaseClient) {
+    // Use service role key: pings, ETAs and alerts are only written server-side
+    this.supabase = supabase ?? createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    );
+  }
+
+  /**
+   * Store a batch of pings from the rider's phone and refresh the ETAs of their open jobs. Pings the
+   * phone buffered while offline are stored, but only a fresh fix moves the ETAs.
+   */
+  async ingest(actor: TrackingActor, pings: LocationPing[], now: Date = new Date()): Promise<PingIngestResult> {
+    const fleet = await this.getFleet(actor);
+    const previous = await this.getPosition(fleet.id);
+    const { accepted, rejected } = filterPings(pings, previous ? positionToPing(previous) : null, now);
+
+    const result: PingIngestResult = { accepted: accepted.length, rejected: {}, next_interval_s: MIN_PING_INTERVAL_S };
+    for (const { reason } of rejected) result.rejected[reason] = (result.rejected[reason] ?? 0) + 1;
+    if (accepted.length === 0) return result;
+
+    const { error: logError } = await this.supabase
+      .from('vehicle_tracking_logs')
+      .insert(accepted.map(ping => ({
+        transporter_id: fleet.id,
+        driver_id: actor.userId,
+        lat: ping.lat,
+        lng: ping.lng,
+        accuracy_m: ping.accuracy_m,
+        speed_kmh: ping.speed_kmh,
+        heading: ping.heading,
+        battery_level: ping.battery_level,
+        recorded_at: ping.recorded_at,
+      })));
+    if (logError) throw new Error(`Failed to store location pings: ${logError.message}`);
+
+    // The phone's own speed when it reports one, else the speed between consecutive fixes
+    let speed = toNumber(previous?.smoothed_speed_kmh);
+    let last = previous ? positionToPing(previous) : null;
+    for (const ping of accepted) {
+      speed = smoothSpeed(speed, ping.speed_kmh ?? (last ? speedBetween(last, ping) : null));
+      last = ping;
+    }
+
+    const latest = accepted[accepted.length - 1];
+    const { error: positionError } = await this.supabase
+      .from('transporter_live_positions')
+      .upsert({
+        transporter_fleet_id: fleet.id,
+        driver_id: actor.userId,
+        lat: latest.lat,
+        lng: latest.lng,
+        accuracy_m: latest.accuracy_m,
+        speed_kmh: latest.speed_kmh,
+        smoothed_speed_kmh: speed,
+        heading: latest.heading,
+        battery_level: latest.battery_level,
+        recorded_at: latest.recorded_at,
+        updated_at: now.toISOString(),
+      }, { onConflict: 'transporter_fleet_id' });
+    if (positionError) throw new Error(`Failed to update live position: ${positionError.message}`);
+
+    if (!isPingStale(latest.recorded_at, now)) {
+      await this.updateEtas(actor, fleet, latest, speed, now);
+      await this.resolveAlerts([fleet.id], 'pings_resumed', now);
+    }
+
+    return result;
+  }
+
+  /**
+   * Where the ticket's current transport job is, as the customer may see it
+   */
+  async getTicketTracking(ticketId: string, now: Date = new Date()): Promise<TicketTracking> {
+    const tracking: TicketTracking = {
+      status: 'not_scheduled',
+      stage: null,
+      destination: null,
+      eta_at: null,
+      stops_before: null,
+      live: false,
+      last_update_at: null,
+      rider_position: null,
+    };
+
+    const { data, error } = await this.supabase
+      .from('transport_jobs')
+      .select(JOB_COLUMNS)
+      .eq('ticket_id', ticketId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load transport job: ${error.message}`);
+
+    const job = data as JobRow | null;
+    if (!job || job.status === 'cancelled') return tracking;
+    if (FINISHED_JOB_STATUSES.includes(job.status)) return { ...tracking, status: 'completed' };
+    if (!ACTIVE_JOB_STATUSES.includes(job.status)) return { ...tracking, status: 'awaiting_rider' };
+
+    tracking.stage = jobStage(job.status);
+    tracking.destination = custodyEndpoint(job.job_type, tracking.stage) === 'customer' ? 'customer' : 'branch';
+    if (job.status.startsWith('arrived_')) return { ...tracking, status: 'arrived' };
+
+    const { data: eta, error: etaError } = await this.supabase
+      .from('transport_job_etas')
+      .select('transport_job_id, transporter_fleet_id, stage, eta_at, distance_m, stops_before, updated_at')
+      .eq('transport_job_id', job.id)
+      .eq('stage', tracking.stage)
+      .maybeSingle();
+    if (etaError) throw new Error(`Failed to load ETA: ${etaError.message}`);
+    if (!eta) return { ...tracking, status: job.status === 'assigned' ? 'awaiting_rider' : 'on_the_way' };
+
+    const position = await this.getPosition(eta.transporter_fleet_id);
+    tracking.status = 'on_the_way';
+    tracking.eta_at = eta.eta_at;
+    tracking.stops_before = eta.stops_before;
+    tracking.last_update_at = position?.recorded_at ?? eta.updated_at;
+    tracking.live = !!position && !isPingStale(position.recorded_at, now);
+
+    if (position && tracking.live && tracking.destination === 'customer') {
+      tracking.rider_position = customerVisiblePosition(position, jobTarget(job), eta.stops_before === 0);
+    }
+
+    return tracking;
+  }
+
+  /**
+   * Open an alert for every rider mid-job whose pings have stopped, and close alerts for riders
+   * whose jobs are done. Riders who have never sent a ping are not tracked and not flagged.
+   */
+  async detectStaleRiders(now: Date = new Date()): Promise<StalenessSweep> {
+    const { data: jobs, error } = await this.supabase
+      .from('transport_jobs')
+      .select(JOB_COLUMNS)
+      .in('status', MID_JOB_STATUSES)
+      .not('assigned_transporter_id', 'is', null);
+    if (error) throw new Error(`Failed to load jobs in progress: ${error.message}`);
+
+    const driverIds = [...new Set((jobs ?? []).map(job => job.assigned_transporter_id as string))];
+    const fleetByDriver = await this.fleetsByDriverAlias(driverIds);
+
+    const jobByFleet = new Map<string, JobRow>();
+    for (const job of (jobs ?? []) as JobRow[]) {
+      const fleet = fleetByDriver.get(job.assigned_transporter_id!);
+      if (fleet && !jobByFleet.has(fleet.id)) jobByFleet.set(fleet.id, job);
+    }
+
+    const sweep: StalenessSweep = { checked: jobByFleet.size, opened: 0, resolved: 0 };
+
+    if (jobByFleet.size > 0) {
+      const { data: positions, error: positionError } = await this.supabase
+        .from('transporter_live_positions')
+        .select(POSITION_COLUMNS)
+        .in('transporter_fleet_id', [...jobByFleet.keys()]);
+      if (positionError) throw new Error(`Failed to load live positions: ${positionError.message}`);
+
+      for (const position of (positions ?? []) as PositionRow[]) {
+        if (!isPingStale(position.recorded_at, now)) continue;
+
+        const { error: alertError } = await this.supabase
+          .from('transporter_tracking_alerts')
+          .insert({
+            transporter_fleet_id: position.transporter_fleet_id,
+            driver_id: position.driver_id,
+            transport_job_id: jobByFleet.get(position.transporter_fleet_id)!.id,
+            last_ping_at: position.recorded_at,
+            opened_at: now.toISOString(),
+          });
+        // The vehicle already has an open alert
+        if (alertError?.code === '23505') continue;
+        if (alertError) throw new Error(`Failed to open tracking alert: ${alertError.message}`);
+        sweep.opened += 1;
+      }
+    }
+
+    const { data: open, error: openError } = await this.supabase
+      .from('transporter_tracking_alerts')
+      .select('transporter_fleet_id')
+      .eq('status', 'open');
+    if (openError) throw new Error(`Failed to load tracking alerts: ${openError.message}`);
+
+    const finished = (open ?? []).map(alert => alert.transporter_fleet_id as string).filter(id => !jobByFleet.has(id));
+    sweep.resolved = await this.resolveAlerts(finished, 'job_finished', now);
+
+    return sweep;
+  }
+
+  /**
+   * Every vehicle's latest fix and the open alerts, for the dispatch console
+   */
+  async getLiveOverview(now: Date = new Date()): Promise<LiveTracking> {
+    const { data: positions, error } = await this.supabase
+      .from('transporter_live_positions')
+      .select('*, fleet:transporter_fleets(vehicle_plate, vehicle_type)')
+      .order('recorded_at', { ascending: false });
+    if (error) throw new Error(`Failed to load live positions: ${error.message}`);
+
+    const { data: alerts, error: alertError } = await this.supabase
+      .from('transporter_tracking_alerts')
+      .select('*, fleet:transporter_fleets(vehicle_plate)')
+      .eq('status', 'open')
+      .order('opened_at', { ascending: true });
+    if (alertError) throw new Error(`Failed to load tracking alerts: ${alertError.message}`);
+
+    const fleetOf = (row: any) => (Array.isArray(row.fleet) ? row.fleet[0] : row.fleet);
+
+    return {
+      positions: (positions ?? []).map(row => ({
+        transporter_fleet_id: row.transporter_fleet_id,
+        driver_id: row.driver_id,
+        vehicle_plate: fleetOf(row)?.vehicle_plate ?? null,
+        vehicle_type: fleetOf(row)?.vehicle_type ?? null,
+        lat: row.lat,
+        lng: row.lng,
+        accuracy_m: toNumber(row.accuracy_m),
+        speed_kmh: toNumber(row.smoothed_speed_kmh ?? row.speed_kmh),
+        battery_level: toNumber(row.battery_level),
+        recorded_at: row.recorded_at,
+        stale: isPingStale(row.recorded_at, now),
+      })),
+      alerts: (alerts ?? []).map(row => ({
+        id: row.id,
+        transporter_fleet_id: row.transporter_fleet_id,
+        vehicle_plate: fleetOf(row)?.vehicle_plate ?? null,
+        driver_id: row.driver_id,
+        transport_job_id: row.transport_job_id,
+        kind: row.kind,
+        last_ping_at: row.last_ping_at,
+        opened_at: row.opened_at,
+      })),
+    };
+  }
+
+  /**
+   * Dispatch has dealt with the alert (called the rider, reassigned the job)
+   */
+  async dismissAlert(alertId: string, userId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('transporter_tracking_alerts')
+      .update({ status: 'resolved', resolution: 'dismissed', resolved_at: new Date().toISOString(), resolved_by: userId })
+      .eq('id', alertId)
+      .eq('status', 'open')
+      .select('id');
+    if (error) throw new Error(`Failed to dismiss tracking alert: ${error.message}`);
+    if (!data || data.length === 0) throw new TrackingError('alert_not_found', 404);
+  }
+
+  // Each open job's next stop, in the order of the rider's run sheet when one is planned and nearest
+  // first from the rider's fix otherwise. A rider standing at one stop finishes that hand-off before
+  // leaving for the others.
+  private async updateEtas(actor: TrackingActor, fleet: FleetRow, position: LatLng, speedKmh: number | null, now: Date) {
+    const driverIds = [actor.userId, actor.profileId].filter((id): id is string => !!id);
+    const { data, error } = await this.supabase
+      .from('transport_jobs')
+      .select(JOB_COLUMNS)
+      .in('assigned_transporter_id', driverIds)
+      .in('status', ACTIVE_JOB_STATUSES);
+    if (error) throw new Error(`Failed to load the rider's jobs: ${error.message}`);
+
+    const jobs = (data ?? []) as JobRow[];
+    const stops = jobs
+      .filter(job => MOVING_JOB_STATUSES.includes(job.status))
+      .map(job => ({ job, target: jobTarget(job) }))
+      .filter((stop): stop is { job: JobRow; target: LatLng } => stop.target !== null)
+      .map(stop => ({ ...stop.target, job: stop.job }));
+    if (stops.length === 0) return;
+
+    const { data: previous, error: previousError } = await this.supabase
+      .from('transport_job_etas')
+      .select('transport_job_id, transporter_fleet_id, stage, eta_at, distance_m, stops_before, updated_at')
+      .in('transport_job_id', stops.map(stop => stop.job.id));
+    if (previousError) throw new Error(`Failed to load ETAs: ${previousError.message}`);
+
+    const atStop = jobs.some(job => job.status.startsWith('arrived_'));
+    const sequence = await this.runSheetSequence(fleet.id, now);
+    const ordered = orderBySequence(position, stops, stop => sequence.get(`${stop.job.id}:${jobStage(stop.job.status)}`) ?? null);
+    const legs = chainTravel(position, ordered, speedKmh, fleet.vehicle_type);
+
+    const rows = legs.map(leg => {
+      const stage = jobStage(leg.stop.job.status);
+      const before = ((previous ?? []) as EtaRow[]).find(row => row.transport_job_id === leg.stop.job.id && row.stage === stage);
+      const estimate = smoothEta(before ?? null, {
+        seconds: leg.seconds + (atStop ? HANDOFF_DWELL_S : 0),
+        distance_m: leg.distance_m,
+      }, now);
+
+      return {
+        transport_job_id: leg.stop.job.id,
+        ticket_id: leg.stop.job.ticket_id,
+        transporter_fleet_id: fleet.id,
+        stage,
+        eta_at: estimate.eta_at,
+        distance_m: estimate.distance_m,
+        stops_before: leg.stops_before + (atStop ? 1 : 0),
+        updated_at: estimate.updated_at,
+      };
+    });
+
+    const { error: upsertError } = await this.supabase
+      .from('transport_job_etas')
+      .upsert(rows, { onConflict: 'transport_job_id' });
+    if (upsertError) throw new Error(`Failed to update ETAs: ${upsertError.message}`);
+  }
+
+  // Place of each transport job stop on the vehicle's live run sheet, keyed by job id and stage
+  private async runSheetSequence(fleetId: string, now: Date): Promise<Map<string, number>> {
+    const { data, error } = await this.supabase
+      .from('transporter_run_sheets')
+      .select('stops')
+      .eq('transporter_fleet_id', fleetId)
+      .eq('status', 'active')
+      .lte('shift_date', now.toISOString().slice(0, 10))
+      .order('shift_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load the run sheet: ${error.message}`);
+
+    const sequence = new Map<string, number>();
+    ((data?.stops ?? []) as Array<{ source: string; ref_id: string; kind: CustodyStage; sequence?: number }>).forEach((stop, index) => {
+      if (stop.source === 'transport_job') sequence.set(`${stop.ref_id}:${stop.kind}`, stop.sequence ?? index);
+    });
+    return sequence;
+  }
+
+  private async resolveAlerts(fleetIds: string[], resolution: 'pings_resumed' | 'job_finished', now: Date): Promise<number> {
+    if (fleetIds.length === 0) return 0;
+
+    const { data, error } = await this.supabase
+      .from('transporter_tracking_alerts')
+      .update({ status: 'resolved', resolution, resolved_at: now.toISOString() })
+      .in('transporter_fleet_id', fleetIds)
+      .eq('status', 'open')
+      .select('id');
+    if (error) throw new Error(`Failed to resolve tracking alerts: ${error.message}`);
+
+    return data?.length ?? 0;
+  }
+
+  private async getFleet(actor: TrackingActor): Promise<FleetRow> {
+    const driverIds = [actor.userId, actor.profileId].filter((id): id is string => !!id);
+    const { data, error } = await this.supabase
+      .from('transporter_fleets')
+      .select(FLEET_COLUMNS)
+      .in('driver_id', driverIds)
+      .eq('is_active', true)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load vehicle: ${error.message}`);
+    if (!data) throw new TrackingError('no_vehicle_assigned', 403);
+    return data as FleetRow;
+  }
+
+  private async getPosition(fleetId: string): Promise<PositionRow | null> {
+    const { data, error } = await this.supabase
+      .from('transporter_live_positions')
+      .select(POSITION_COLUMNS)
+      .eq('transporter_fleet_id', fleetId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load live position: ${error.message}`);
+    return data as PositionRow | null;
+  }
+
+  // Jobs are assigned to the rider's user (or profile) id; fleets carry either as the driver id
+  private async fleetsByDriverAlias(driverIds: string[]): Promise<Map<string, FleetRow>> {
+    const byAlias = new Map<string, FleetRow>();
+    if (driverIds.length === 0) return byAlias;
+
+    const { data: profiles, error } = await this.supabase
+      .from('profiles')
+      .select('id, user_id')
+      .or(`id.in.(${driverIds.join(',')}),user_id.in.(${driverIds.join(',')})`);
+    if (error) throw new Error(`Failed to load drivers: ${error.message}`);
+
+    const aliases = new Map<string, string[]>(driverIds.map(id => [id, [id]]));
+    for (const profile of profiles ?? []) {
+      for (const id of driverIds) {
+        if (id === profile.id && profile.user_id) aliases.get(id)!.push(profile.user_id);
+        if (id === profile.user_id) aliases.get(id)!.push(profile.id);
+      }
+    }
+
+    const { data: fleets, error: fleetError } = await this.supabase
+      .from('transporter_fleets')
+      .select(FLEET_COLUMNS)
+      .in('driver_id', [...new Set([...aliases.values()].flat())])
+      .eq('is_active', true);
+    if (fleetError) throw new Error(`Failed to load vehicles: ${fleetError.message}`);
+
+    for (const [id, ids] of aliases) {
+      const fleet = ((fleets ?? []) as FleetRow[]).find(candidate => candidate.driver_id && ids.includes(candidate.driver_id));
+      if (fleet) byAlias.set(id, fleet);
+    }
+
+    return byAlias;
+  }
+}
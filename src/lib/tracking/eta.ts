@@ -0,0 +1,157 @@
+// eta.ts
+// Customer-facing arrival estimates from live pings. The raw estimate is road distance over the
+// vehicle's recent speed (held within a band around the city speed for its type, so a red light
+// or an empty road does not swing it); successive estimates are then smoothed so the customer
+// sees a steady countdown rather than one that jumps with every ping.
+
+import { distanceMeters } from '@/lib/custody/geofence';
+import { CITY_SPEED_KMH, LatLng, ROAD_FACTOR } from '@/lib/routing/distance';
+
+export interface EtaEstimate {
+  eta_at: string;
+  distance_m: number;
+  updated_at: string;
+}
+
+const DEFAULT_SPEED_KMH = 18;
+
+/** Weight of the newest observation when smoothing speeds and ETAs */
+export const ETA_SMOOTHING = 0.3;
+
+/** An estimate older than this no longer anchors the next one */
+export const ETA_RESET_AFTER_S = 10 * 60;
+
+/** Recent speed may pull the estimate this far either side of the city speed */
+const SPEED_BAND = { min: 0.5, max: 1.6 };
+
+/** Time spent at each stop on the way: parking, OTP, photos */
+export const HANDOFF_DWELL_S = 5 * 60;
+
+/** Customers see the rider on a map only when they are this close and on the way to them */
+export const CUSTOMER_MAP_RADIUS_M = 3000;
+
+/** Rider positions shown to customers are rounded to about 100 m */
+const CUSTOMER_POSITION_DECIMALS = 3;
+
+/**
+ * Exponentially smoothed ground speed; a first observation is taken as is
+ */
+export function smoothSpeed(previousKmh: number | null, observedKmh: number | null, alpha = ETA_SMOOTHING): number | null {
+  if (observedKmh == null || !Number.isFinite(observedKmh)) return previousKmh;
+  if (previousKmh == null) return observedKmh;
+  return alpha * observedKmh + (1 - alpha) * previousKmh;
+}
+
+/**
+ * Seconds from the position to the target by road
+ */
+export function estimateTravelSeconds(
+  from: LatLng,
+  to: LatLng,
+  speedKmh: number | null,
+  vehicleType?: string | null
+): { seconds: number; distance_m: number } {
+  const citySpeed = (vehicleType && CITY_SPEED_KMH[vehicleType]) || DEFAULT_SPEED_KMH;
+  const speed = speedKmh == null
+    ? citySpeed
+    : Math.min(citySpeed * SPEED_BAND.max, Math.max(citySpeed * SPEED_BAND.min, speedKmh));
+  const distance = Math.round(distanceMeters(from, to) * ROAD_FACTOR);
+
+  return { seconds: Math.round(distance / (speed / 3.6)), distance_m: distance };
+}
+
+/**
+ * Nearest stop first, then the nearest to that, and so on
+ */
+export function orderByNearest<T extends LatLng>(from: LatLng, stops: T[]): T[] {
+  const remaining = [...stops];
+  const ordered: T[] = [];
+  let position = from;
+
+  while (remaining.length > 0) {
+    let nearest = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (distanceMeters(position, remaining[i]) < distanceMeters(position, remaining[nearest])) nearest = i;
+    }
+    position = remaining[nearest];
+    ordered.push(...remaining.splice(nearest, 1));
+  }
+
+  return ordered;
+}
+
+/**
+ * Stops in a planned order: those with a sequence first, by sequence, then the rest nearest first
+ * from the last planned stop
+ */
+export function orderBySequence<T extends LatLng>(from: LatLng, stops: T[], sequence: (stop: T) => number | null): T[] {
+  const planned = stops
+    .filter(stop => sequence(stop) !== null)
+    .sort((a, b) => (sequence(a) as number) - (sequence(b) as number));
+  const unplanned = stops.filter(stop => sequence(stop) === null);
+
+  return [...planned, ...orderByNearest(planned[planned.length - 1] ?? from, unplanned)];
+}
+
+/**
+ * Travel to each stop in turn from the current position, counting a hand-off at every stop before it
+ */
+export function chainTravel<T extends LatLng>(
+  from: LatLng,
+  stops: T[],
+  speedKmh: number | null,
+  vehicleType?: string | null,
+  dwellS = HANDOFF_DWELL_S
+): { stop: T; seconds: number; distance_m: number; stops_before: number }[] {
+  let position = from;
+  let seconds = 0;
+  let distance = 0;
+
+  return stops.map((stop, index) => {
+    const leg = estimateTravelSeconds(position, stop, speedKmh, vehicleType);
+    seconds += leg.seconds + (index > 0 ? dwellS : 0);
+    distance += leg.distance_m;
+    position = stop;
+    return { stop, seconds, distance_m: distance, stops_before: index };
+  });
+}
+
+/**
+ * Blend a fresh estimate with the previous one. Remaining time is what is smoothed: the previous
+ * estimate's remaining time as of now against the fresh one.
+ */
+export function smoothEta(
+  previous: EtaEstimate | null,
+  raw: { seconds: number; distance_m: number },
+  now: Date = new Date(),
+  alpha = ETA_SMOOTHING
+): EtaEstimate {
+  const nowMs = now.getTime();
+  let remainingS = raw.seconds;
+
+  if (previous && nowMs - Date.parse(previous.updated_at) <= ETA_RESET_AFTER_S * 1000) {
+    const previousRemainingS = Math.max(0, (Date.parse(previous.eta_at) - nowMs) / 1000);
+    remainingS = alpha * raw.seconds + (1 - alpha) * previousRemainingS;
+  }
+
+  return {
+    eta_at: new Date(nowMs + Math.round(remainingS) * 1000).toISOString(),
+    distance_m: raw.distance_m,
+    updated_at: now.toISOString(),
+  };
+}
+
+/**
+ * What a customer may see of the rider's position: nothing unless the rider is heading to them
+ * and nearby, and then only to about 100 m
+ */
+export function customerVisiblePosition(rider: LatLng, target: LatLng | null, headingToCustomer: boolean): LatLng | null {
+  if (!headingToCustomer || !target) return null;
+  if (distanceMeters(rider, target) > CUSTOMER_MAP_RADIUS_M) return null;
+
+  const factor = 10 ** CUSTOMER_POSITION_DECIMALS;
+  return {
+    lat: Math.round(rider.lat * factor) / factor,
+    lng: Math.round(rider.lng * factor) / factor,
+  };
+}
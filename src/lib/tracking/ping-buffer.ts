@@ -0,0 +1,85 @@
+// ping-buffer.ts
+// Client-side buffer for the transporter PWA. Fixes are throttled as they come in and kept in
+// local storage until the ingestion endpoint takes them, so pings recorded in a dead zone are sent
+// in batches once the phone is back online.
+
+import { LocationPing, MAX_PING_BATCH, MIN_PING_INTERVAL_S } from './pings';
+
+export interface PingStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+const STORAGE_KEY = 'transporter-location-pings-v1';
+
+/** About eight hours of pings at the minimum interval; older ones go first */
+export const MAX_BUFFERED_PINGS = 2000;
+
+export class LocationPingBuffer {
+  private flushing = false;
+  private lastAddedAt: number | null = null;
+
+  constructor(private readonly storage: PingStorage) {}
+
+  get size(): number {
+    return this.read().length;
+  }
+
+  /**
+   * Buffer a fix unless one was buffered less than the minimum interval ago
+   */
+  add(ping: LocationPing): boolean {
+    const at = Date.parse(ping.recorded_at);
+    if (this.lastAddedAt !== null && at - this.lastAddedAt < MIN_PING_INTERVAL_S * 1000) return false;
+
+    const pings = this.read();
+    pings.push(ping);
+    this.write(pings.slice(-MAX_BUFFERED_PINGS));
+    this.lastAddedAt = at;
+    return true;
+  }
+
+  /**
+   * Send the buffer oldest first, one batch at a time. A failed batch stays buffered for the next
+   * flush. Resolves to the number of pings sent.
+   */
+  async flush(send: (batch: LocationPing[]) => Promise<void>): Promise<number> {
+    if (this.flushing) return 0;
+    this.flushing = true;
+
+    let sent = 0;
+    try {
+      for (let batch = this.read().slice(0, MAX_PING_BATCH); batch.length > 0; batch = this.read().slice(0, MAX_PING_BATCH)) {
+        try {
+          await send(batch);
+        } catch {
+          break;
+        }
+        // Pings buffered while the batch was in flight stay behind it
+        this.write(this.read().slice(batch.length));
+        sent += batch.length;
+      }
+    } finally {
+      this.flushing = false;
+    }
+
+    return sent;
+  }
+
+  private read(): LocationPing[] {
+    try {
+      const stored = this.storage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(pings: LocationPing[]) {
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(pings));
+    } catch (error) {
+      console.error('Error buffering location pings:', error);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+// pings.ts
+// GPS pings from the transporter PWA. Batches arrive late and out of order after the phone has been
+// offline, so each batch is sorted, checked against the last ping already stored, thinned to one ping
+// per interval, and cleared of fixes that are too coarse or imply an impossible jump.
+
+import { distanceMeters, isValidPosition, MAX_GPS_ACCURACY_M } from '@/lib/custody/geofence';
+
+export interface LocationPing {
+  lat: number;
+  lng: number;
+  accuracy_m: number | null;
+  speed_kmh: number | null;
+  heading: number | null;
+  battery_level: number | null;
+  recorded_at: string;
+}
+
+export type PingRejection = 'invalid_position' | 'low_accuracy' | 'too_old' | 'in_future' | 'throttled' | 'implausible_jump';
+
+export interface PingFilterResult {
+  accepted: LocationPing[];
+  rejected: { ping: LocationPing; reason: PingRejection }[];
+}
+
+/** Pings closer together than this add nothing to the ETA and are dropped */
+export const MIN_PING_INTERVAL_S = 15;
+
+/** Largest batch the ingestion endpoint takes; the PWA flushes its buffer in batches of this size */
+export const MAX_PING_BATCH = 100;
+
+/** A phone buffering offline for longer than a shift has nothing useful to report */
+export const MAX_PING_AGE_S = 12 * 3600;
+
+/** Phone clocks drift; fixes further ahead of the server than this are rejected */
+export const MAX_CLOCK_SKEW_S = 120;
+
+/** Faster than any two-wheeler or van in the city: the fix jumped */
+export const MAX_PLAUSIBLE_SPEED_KMH = 150;
+
+/**
+ * Sort and thin a batch. `last` is the latest ping already stored for the vehicle; pings recorded
+ * before it (or too soon after it) are dropped.
+ */
+export function filterPings(pings: LocationPing[], last: LocationPing | null, now: Date = new Date()): PingFilterResult {
+  const result: PingFilterResult = { accepted: [], rejected: [] };
+  const nowMs = now.getTime();
+  let previous = last;
+
+  const sorted = [...pings].sort((a, b) => Date.parse(a.recorded_at) - Date.parse(b.recorded_at));
+  for (const ping of sorted) {
+    const at = Date.parse(ping.recorded_at);
+    let reason: PingRejection | null = null;
+
+    if (!isValidPosition(ping) || Number.isNaN(at)) {
+      reason = 'invalid_position';
+    } else if (ping.accuracy_m != null && ping.accuracy_m > MAX_GPS_ACCURACY_M) {
+      reason = 'low_accuracy';
+    } else if (at < nowMs - MAX_PING_AGE_S * 1000) {
+      reason = 'too_old';
+    } else if (at > nowMs + MAX_CLOCK_SKEW_S * 1000) {
+      reason = 'in_future';
+    } else if (previous) {
+      const elapsedS = (at - Date.parse(previous.recorded_at)) / 1000;
+      if (elapsedS < MIN_PING_INTERVAL_S) {
+        reason = 'throttled';
+      } else if ((distanceMeters(previous, ping) / elapsedS) * 3.6 > MAX_PLAUSIBLE_SPEED_KMH) {
+        reason = 'implausible_jump';
+      }
+    }
+
+    if (reason) {
+      result.rejected.push({ ping, reason });
+    } else {
+      result.accepted.push(ping);
+      previous = ping;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Ground speed between two pings in km/h, or null if they are at the same instant
+ */
+export function speedBetween(from: LocationPing, to: LocationPing): number | null {
+  const elapsedS = (Date.parse(to.recorded_at) - Date.parse(from.recorded_at)) / 1000;
+  if (!(elapsedS > 0)) return null;
+  return (distanceMeters(from, to) / elapsedS) * 3.6;
+}
+
+/** A rider mid-job who has not pinged for this long is flagged to dispatch */
+export const STALE_PINGS_AFTER_S = 5 * 60;
+
+export function isPingStale(lastRecordedAt: string | null, now: Date = new Date(), thresholdS = STALE_PINGS_AFTER_S): boolean {
+  if (!lastRecordedAt) return true;
+  return now.getTime() - Date.parse(lastRecordedAt) > thresholdS * 1000;
+}
@@ -16,6 +16,7 @@ export const DeliveryStatusSchema = z.enum([
     'pending_assignment', 'assigned', 'pickup_in_progress', 'picked_up',
     'in_transit', 'delivery_attempted', 'delivered', 'cancelled', 'returned'
 ]);
+export type DeliveryStatus = z.infer<typeof DeliveryStatusSchema>;
 
 // ============================================================================
 // SCHEMAS & TYPES
@@ -54,6 +55,8 @@ export const deliverySchema = z.object({
     status: DeliveryStatusSchema,
     estimated_cost: z.number().nullable(),
     scheduled_pickup: z.string().nullable(),
+    external_order_id: z.string().nullable().optional(),
+    tracking_url: z.string().nullable().optional(),
     created_at: z.string()
 });
 export type Delivery = z.infer<typeof deliverySchema>;
@@ -64,7 +67,105 @@ export const trackingLogSchema = z.object({
     transporter_id: z.string().uuid(),
     speed_kmh: z.number().nullable(),
     battery_level: z.number().nullable(),
+    lat: z.number().nullable().optional(),
+    lng: z.number().nullable().optional(),
+    accuracy_m: z.number().nullable().optional(),
     recorded_at: z.string()
 });
-// note: location is geoJSON in DB, typically need conversion if selecting it
+// note: location is geoJSON in DB, typically need conversion if selecting it; lat/lng are plain copies
 export type TrackingLog = z.infer<typeof trackingLogSchema>;
+
+// Live Tracking: each vehicle's latest fix, and alerts for dispatch when a rider stops pinging mid-job
+export const livePositionSchema = z.object({
+    transporter_fleet_id: z.string().uuid(),
+    driver_id: z.string().uuid().nullable(),
+    vehicle_plate: z.string().nullable(),
+    vehicle_type: z.string().nullable(),
+    lat: z.number(),
+    lng: z.number(),
+    accuracy_m: z.number().nullable(),
+    speed_kmh: z.number().nullable(),
+    battery_level: z.number().nullable(),
+    recorded_at: z.string(),
+    stale: z.boolean()
+});
+export type LivePosition = z.infer<typeof livePositionSchema>;
+
+export const trackingAlertSchema = z.object({
+    id: z.string().uuid(),
+    transporter_fleet_id: z.string().uuid(),
+    vehicle_plate: z.string().nullable(),
+    driver_id: z.string().uuid().nullable(),
+    transport_job_id: z.string().uuid().nullable(),
+    kind: z.enum(['pings_stale']),
+    last_ping_at: z.string().nullable(),
+    opened_at: z.string()
+});
+export type TrackingAlert = z.infer<typeof trackingAlertSchema>;
+
+export const liveTrackingSchema = z.object({
+    positions: z.array(livePositionSchema),
+    alerts: z.array(trackingAlertSchema)
+});
+export type LiveTracking = z.infer<typeof liveTrackingSchema>;
+
+// Route Planning: one ordered run sheet per vehicle and shift
+export const runSheetStopSchema = z.object({
+    sequence: z.number(),
+    task_id: z.string(),
+    source: z.enum(['transport_job', 'delivery']),
+    ref_id: z.string().uuid(),
+    label: z.string(),
+    kind: z.enum(['pickup', 'drop']),
+    address: z.string(),
+    lat: z.number(),
+    lng: z.number(),
+    arrival_at: z.string(),
+    departure_at: z.string(),
+    wait_s: z.number(),
+    window_start: z.string().nullable(),
+    window_end: z.string().nullable(),
+    distance_from_previous_m: z.number(),
+    load_after_kg: z.number(),
+    proposed: z.boolean()
+});
+export type RunSheetStop = z.infer<typeof runSheetStopSchema>;
+
+export const runSheetSchema = z.object({
+    id: z.string().uuid(),
+    batch_id: z.string().uuid(),
+    transporter_fleet_id: z.string().uuid(),
+    driver_id: z.string().uuid().nullable(),
+    shift_date: z.string(),
+    vehicle_plate: z.string().nullable(),
+    vehicle_type: z.string().nullable(),
+    stops: z.array(runSheetStopSchema),
+    distance_m: z.number(),
+    duration_s: z.number(),
+    start_at: z.string().nullable(),
+    end_at: z.string().nullable(),
+    max_load_kg: z.number()
+});
+export type RunSheet = z.infer<typeof runSheetSchema>;
+
+export const unplannedStopSchema = z.object({
+    task_id: z.string(),
+    source: z.enum(['transport_job', 'delivery']),
+    ref_id: z.string().uuid(),
+    reason: z.enum(['missing_coordinates', 'vehicle_unavailable', 'over_capacity', 'no_feasible_slot'])
+});
+export type UnplannedStop = z.infer<typeof unplannedStopSchema>;
+
+export const shiftRoutePlanSchema = z.object({
+    batch: z.object({
+        id: z.string().uuid(),
+        shift_date: z.string(),
+        shift_start: z.string(),
+        shift_end: z.string(),
+        distance_source: z.enum(['osrm', 'haversine']),
+        unplanned: z.array(unplannedStopSchema),
+        created_at: z.string()
+    }).nullable(),
+    run_sheets: z.array(runSheetSchema)
+});
+export type ShiftRoutePlan = z.infer<typeof shiftRoutePlanSchema>;
@@ -42,6 +42,18 @@ export const notificationLogSchema = z.object({
 });
 export type NotificationLog = z.infer<typeof notificationLogSchema>;
 
+// Template approval (WhatsApp Business review state of one registry version in one locale)
+export const TemplateApprovalStatusSchema = z.enum(['draft', 'pending', 'approved', 'rejected', 'paused', 'disabled']);
+export const templateApprovalSchema = z.object({
+    template_key: z.string(),
+    version: z.number().int(),
+    locale: z.enum(['en', 'hi', 'te']),
+    status: TemplateApprovalStatusSchema,
+    provider_template_name: z.string().nullable(),
+    rejection_reason: z.string().nullable(),
+    updated_at: z.string().optional()
+});
+
 // Trust Event
 export const trustEventSchema = z.object({
     id: z.string().uuid(),
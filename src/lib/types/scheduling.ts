@@ -42,3 +42,82 @@ export const jobAssignmentSchema = z.object({
 });
 
 export type JobAssignment = z.infer<typeof jobAssignmentSchema>;
+
+// ============================================================================
+// DAY PLANS
+// ============================================================================
+
+export const ScheduleEntryStatusSchema = z.enum(['planned', 'in_progress', 'done']);
+export const PlanTriggerSchema = z.enum(['full', 'overrun', 'manual_move']);
+export const UnscheduledReasonSchema = z.enum(['missing_coordinates', 'technician_unavailable', 'no_skilled_technician', 'no_feasible_slot']);
+
+// What the scheduler knows about a ticket's repair
+export const scheduledJobSchema = z.object({
+    ticket_id: z.string().uuid(),
+    label: z.string(),
+    device_category: z.string(),
+    lat: z.number().nullable(),
+    lng: z.number().nullable(),
+    repair_s: z.number(),
+    required_skill_id: z.string().uuid().nullable(),
+    min_skill_level: z.number().nullable(),
+    sla_due_at: z.string().nullable(), // ISO
+    assigned_technician_id: z.string().uuid().nullable()
+});
+
+export type ScheduledJob = z.infer<typeof scheduledJobSchema>;
+
+export const scheduleEntrySchema = scheduledJobSchema.extend({
+    id: z.string().uuid(),
+    technician_id: z.string().uuid(),
+    start_at: z.string(), // ISO
+    end_at: z.string(),   // ISO
+    travel_s: z.number(),
+    distance_m: z.number(),
+    sla_breach: z.boolean(),
+    pinned: z.boolean(),
+    status: ScheduleEntryStatusSchema
+});
+
+export type ScheduleEntry = z.infer<typeof scheduleEntrySchema>;
+
+export const unplannedJobSchema = scheduledJobSchema.extend({
+    reason: UnscheduledReasonSchema
+});
+
+export type UnplannedJob = z.infer<typeof unplannedJobSchema>;
+
+export const scheduledTechnicianSchema = z.object({
+    technician_id: z.string().uuid(),
+    full_name: z.string().nullable(),
+    shift_id: z.string().uuid(),
+    shift_start: z.string(), // ISO
+    shift_end: z.string(),   // ISO
+    start_lat: z.number().nullable(),
+    start_lng: z.number().nullable(),
+    skills: z.record(z.string(), z.number()) // skill id -> level
+});
+
+export type ScheduledTechnician = z.infer<typeof scheduledTechnicianSchema>;
+
+export const technicianDayPlanSchema = z.object({
+    plan_date: z.string(), // YYYY-MM-DD
+    run: z.object({
+        id: z.string().uuid(),
+        trigger: PlanTriggerSchema,
+        created_at: z.string()
+    }).nullable(),
+    technicians: z.array(scheduledTechnicianSchema),
+    entries: z.array(scheduleEntrySchema),
+    unplanned: z.array(unplannedJobSchema)
+});
+
+export type TechnicianDayPlan = z.infer<typeof technicianDayPlanSchema>;
+
+export const jobMoveSchema = z.object({
+    job_id: z.string().uuid(),
+    from_technician_id: z.string().uuid(),
+    to_technician_id: z.string().uuid().nullable()
+});
+
+export type JobMove = z.infer<typeof jobMoveSchema>;
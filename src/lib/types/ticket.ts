@@ -34,6 +34,12 @@ export type Ticket = z.infer<typeof ticketSchema> & {
     full_name: string;
   } | null;
   completed_at?: string; // Optional field for completion time
+  // SLA policy dimensions, when known
+  city?: string | null;
+  urgency_tier?: string | null;
+  customer_segment?: string | null;
+  // Dark store handling the ticket; selects the business-hours calendar for the SLA clock
+  dark_store_id?: string | null;
 };
 
 // Define schema for creating new tickets
@@ -0,0 +1,8 @@
+/**
+ * Absolute origin of the app, for links in notifications.
+ * Same result on server and client when NEXT_PUBLIC_APP_URL is set; the browser origin is
+ * only a fallback so client-side code keeps working without it.
+ */
+export function getAppOrigin(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || (typeof window !== 'undefined' ? window.location.origin : '');
+}
@@ -0,0 +1,222 @@
+// business-hours.ts
+// Working-hours calendars (shop hours, weekly offs, public holidays) for SLA clock computation
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Ticket } from '../types/ticket';
+
+/**
+ * A single opening window in local time, e.g. { start: '10:00', end: '20:00' }
+ */
+export interface BusinessHoursWindow {
+  start: string; // HH:MM
+  end: string;   // HH:MM, '24:00' allowed for end of day
+}
+
+/**
+ * Working-hours calendar for a zone or dark store. Weekdays without windows are weekly offs.
+ */
+export interface BusinessCalendar {
+  id: string;
+  name: string;
+  timezone: string;                                   // IANA timezone, e.g. 'Asia/Kolkata'
+  dark_store_id?: string | null;
+  city?: string | null;
+  weekly_hours: Record<number, BusinessHoursWindow[]>; // 0 = Sunday ... 6 = Saturday
+  holidays: string[];                                 // Local dates, YYYY-MM-DD
+  active: boolean;
+}
+
+/**
+ * Interval during which the SLA clock is running, in epoch milliseconds
+ */
+interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const ALL_DAY: BusinessHoursWindow[] = [{ start: '00:00', end: '24:00' }];
+
+/**
+ * Round-the-clock calendar used when no calendar is configured, so the SLA clock
+ * behaves like the wall clock
+ */
+export const ALWAYS_OPEN_CALENDAR: BusinessCalendar = {
+  id: 'builtin-always-open',
+  name: 'Always open',
+  timezone: 'Asia/Kolkata',
+  weekly_hours: { 0: ALL_DAY, 1: ALL_DAY, 2: ALL_DAY, 3: ALL_DAY, 4: ALL_DAY, 5: ALL_DAY, 6: ALL_DAY },
+  holidays: [],
+  active: true,
+};
+
+/**
+ * Load active calendars and their holidays from the database
+ * @param supabase Supabase client to read calendars with
+ * @returns The configured calendars
+ */
+export async function loadBusinessCalendars(supabase: SupabaseClient): Promise<BusinessCalendar[]> {
+  const { data: calendars, error } = await supabase
+    .from('business_calendars')
+    .select('*')
+    .eq('active', true);
+
+  if (error) {
+    throw new Error(`Failed to load business calendars: ${error.message}`);
+  }
+
+  const { data: holidays, error: holidaysError } = await supabase
+    .from('business_calendar_holidays')
+    .select('calendar_id, holiday_date');
+
+  if (holidaysError) {
+    throw new Error(`Failed to load business calendar holidays: ${holidaysError.message}`);
+  }
+
+  return (calendars || []).map((row: any) => ({
+    id: row.id,
+    name: row.name,
+    timezone: row.timezone || ALWAYS_OPEN_CALENDAR.timezone,
+    dark_store_id: row.dark_store_id,
+    city: row.city,
+    weekly_hours: row.weekly_hours || {},
+    holidays: (holidays || [])
+      .filter((holiday: any) => holiday.calendar_id === row.id)
+      .map((holiday: any) => holiday.holiday_date),
+    active: row.active,
+  }));
+}
+
+/**
+ * Pick the calendar that applies to a ticket: its dark store first, then its city,
+ * then a calendar with neither set (the default), then round-the-clock
+ * @param ticket The ticket to evaluate
+ * @param calendars Candidate calendars (none means round-the-clock)
+ * @returns The applicable calendar
+ */
+export function getBusinessCalendarForTicket(
+  ticket: Pick<Ticket, 'dark_store_id' | 'city'>,
+  calendars: BusinessCalendar[] = []
+): BusinessCalendar {
+  const active = calendars.filter(calendar => calendar.active);
+  const city = ticket.city?.trim().toLowerCase();
+
+  return (
+    (ticket.dark_store_id && active.find(c => c.dark_store_id === ticket.dark_store_id)) ||
+    (city && active.find(c => !c.dark_store_id && c.city?.trim().toLowerCase() === city)) ||
+    active.find(c => !c.dark_store_id && !c.city) ||
+    ALWAYS_OPEN_CALENDAR
+  );
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in milliseconds
+ */
+function getTimezoneOffset(instant: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUTC = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return asUTC - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Local calendar date of an instant, as epoch milliseconds of that date's UTC midnight
+ */
+function getLocalDay(instant: number, timezone: string): number {
+  const local = instant + getTimezoneOffset(instant, timezone);
+  return local - (((local % DAY_MS) + DAY_MS) % DAY_MS);
+}
+
+/**
+ * Convert a local wall-clock time on a given local day to an instant
+ */
+function localTimeToInstant(localDay: number, time: string, timezone: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = localDay + (hours * 60 + minutes) * MINUTE_MS;
+  // Second pass corrects for a DST change between the guess and the result
+  const guess = wallClock - getTimezoneOffset(wallClock, timezone);
+  return wallClock - getTimezoneOffset(guess, timezone);
+}
+
+const formatLocalDay = (localDay: number): string => new Date(localDay).toISOString().slice(0, 10);
+
+/**
+ * Calculate the business time between two instants
+ * @param start Start of the interval
+ * @param end End of the interval
+ * @param calendar The business calendar to apply
+ * @returns Business time in milliseconds
+ */
+export function calculateBusinessMilliseconds(start: Date, end: Date, calendar: BusinessCalendar): number {
+  const startMs = start.getTime();
+  const endMs = end.getTime();
+  if (!(endMs > startMs)) return 0;
+
+  const holidays = new Set(calendar.holidays);
+  let total = 0;
+
+  // Walk local days, starting a day early so windows spanning a DST shift are not missed
+  for (let day = getLocalDay(startMs, calendar.timezone) - DAY_MS; day <= getLocalDay(endMs, calendar.timezone); day += DAY_MS) {
+    if (holidays.has(formatLocalDay(day))) continue;
+
+    const windows = calendar.weekly_hours[new Date(day).getUTCDay()] || [];
+    for (const window of windows) {
+      const windowStart = Math.max(localTimeToInstant(day, window.start, calendar.timezone), startMs);
+      const windowEnd = Math.min(localTimeToInstant(day, window.end, calendar.timezone), endMs);
+      if (windowEnd > windowStart) {
+        total += windowEnd - windowStart;
+      }
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Calculate the business minutes between two instants
+ * @param start Start of the interval
+ * @param end End of the interval
+ * @param calendar The business calendar to apply
+ * @returns Business time in whole minutes
+ */
+export function calculateBusinessMinutes(start: Date, end: Date, calendar: BusinessCalendar): number {
+  return Math.round(calculateBusinessMilliseconds(start, end, calendar) / MINUTE_MS);
+}
+
+/**
+ * Remove paused periods from an interval
+ * @param interval The interval the clock would otherwise run for
+ * @param pauses Paused periods, possibly overlapping or outside the interval
+ * @returns The sub-intervals during which the clock was running
+ */
+export function subtractPausedIntervals(interval: TimeInterval, pauses: TimeInterval[]): TimeInterval[] {
+  const sorted = pauses
+    .map(pause => ({ start: Math.max(pause.start, interval.start), end: Math.min(pause.end, interval.end) }))
+    .filter(pause => pause.end > pause.start)
+    .sort((a, b) => a.start - b.start);
+
+  const running: TimeInterval[] = [];
+  let cursor = interval.start;
+  for (const pause of sorted) {
+    if (pause.start > cursor) {
+      running.push({ start: cursor, end: pause.start });
+    }
+    cursor = Math.max(cursor, pause.end);
+  }
+  if (interval.end > cursor) {
+    running.push({ start: cursor, end: interval.end });
+  }
+  return running;
+}
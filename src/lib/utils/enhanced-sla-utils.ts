@@ -4,32 +4,29 @@
 import { Ticket } from '../types/ticket';
 import { PartRequest } from '../api/parts';
 import { handleSlaRiskNotification, handlePartDelayNotification } from '../services/eventDispatcher';
+import { getSLATargetForTicket, SLAConfig } from './sla-policy';
+import {
+  calculateBusinessMilliseconds,
+  getBusinessCalendarForTicket,
+  subtractPausedIntervals
+} from './business-hours';
 
-/**
- * Get the SLA target time in minutes based on the device category
- * @param deviceCategory The category of the device (Mobile, Laptop, TV, Appliances)
- * @returns SLA target time in minutes
- */
-export function getSLATarget(deviceCategory: string): number {
-  const slaTargets: Record<string, number> = {
-    'Mobile': 1440,    // 24 hours in minutes
-    'Laptop': 2880,    // 48 hours in minutes
-    'TV': 4320,        // 72 hours in minutes
-    'Appliances': 2880 // 48 hours in minutes
-  };
-
-  // Return the SLA target for the given category, or default to 48 hours if not found
-  return slaTargets[deviceCategory] || 2880; // Default to 48 hours
-}
+// SLA targets are resolved by the policy engine; re-exported for existing callers
+export { getSLATarget } from './sla-policy';
 
 /**
  * Calculate SLA adjusted for pause periods
  * @param ticket The ticket to evaluate
  * @param pauseResumeLogs Array of pause/resume events with timestamps
+ * @param config SLA policies and business calendars loaded by the caller
  * @returns Adjusted SLA target time considering pause periods
  */
-export function calculateAdjustedSLATarget(ticket: Ticket, pauseResumeLogs: PauseResumeLog[]): number {
-  const baseSLATarget = getSLATarget(ticket.device_category || 'default');
+export function calculateAdjustedSLATarget(
+  ticket: Ticket,
+  pauseResumeLogs: PauseResumeLog[],
+  config: SLAConfig = {}
+): number {
+  const baseSLATarget = getSLATargetForTicket(ticket, config);
 
   // Calculate total pause time in minutes
   let totalPauseTime = 0;
@@ -49,10 +46,15 @@ export function calculateAdjustedSLATarget(ticket: Ticket, pauseResumeLogs: Paus
  * Calculate SLA considering part delay penalties
  * @param ticket The ticket to evaluate
  * @param partRequests Array of part requests related to this ticket
+ * @param config SLA policies and business calendars loaded by the caller
  * @returns Adjusted SLA target time considering part delays
  */
-export function calculateSLAWithPartDelays(ticket: Ticket, partRequests: PartRequest[]): number {
-  const baseSLATarget = getSLATarget(ticket.device_category || 'default');
+export function calculateSLAWithPartDelays(
+  ticket: Ticket,
+  partRequests: PartRequest[],
+  config: SLAConfig = {}
+): number {
+  const baseSLATarget = getSLATargetForTicket(ticket, config);
 
   // Calculate total part delay penalty time
   let totalPartDelayPenalty = 0;
@@ -98,10 +100,15 @@ function getUrgencyMultiplier(urgencyLevel: string): number {
  * Calculate SLA considering vendor delay penalties
  * @param ticket The ticket to evaluate
  * @param poDelays Array of purchase order delay records
+ * @param config SLA policies and business calendars loaded by the caller
  * @returns Adjusted SLA target time considering vendor delays
  */
-export function calculateSLAWithVendorDelays(ticket: Ticket, poDelays: VendorDelay[]): number {
-  const baseSLATarget = getSLATarget(ticket.device_category || 'default');
+export function calculateSLAWithVendorDelays(
+  ticket: Ticket,
+  poDelays: VendorDelay[],
+  config: SLAConfig = {}
+): number {
+  const baseSLATarget = getSLATargetForTicket(ticket, config);
 
   // Calculate total vendor delay penalty time
   let totalVendorDelayPenalty = 0;
@@ -118,15 +125,17 @@ export function calculateSLAWithVendorDelays(ticket: Ticket, poDelays: VendorDel
  * @param pauseResumeLogs Array of pause/resume events
  * @param partRequests Array of part requests related to this ticket
  * @param vendorDelays Array of vendor delay records
+ * @param config SLA policies and business calendars loaded by the caller
  * @returns Adjusted SLA target time considering all factors
  */
 export function calculateTotalAdjustedSLA(
   ticket: Ticket,
   pauseResumeLogs: PauseResumeLog[] = [],
   partRequests: PartRequest[] = [],
-  vendorDelays: VendorDelay[] = []
+  vendorDelays: VendorDelay[] = [],
+  config: SLAConfig = {}
 ): number {
-  let adjustedSLA = getSLATarget(ticket.device_category || 'default');
+  let adjustedSLA = getSLATargetForTicket(ticket, config);
 
   // Add pause time
   let totalPauseTime = 0;
@@ -169,40 +178,43 @@ export function calculateTotalAdjustedSLA(
 }
 
 /**
- * Calculate the actual completion time for a ticket adjusting for pause periods
+ * Calculate the actual completion time for a ticket adjusting for pause periods.
+ * The clock only runs during the working hours of the ticket's calendar, and
+ * pauses are applied on top of that.
  * @param ticket The ticket to calculate completion time for
  * @param pauseResumeLogs Array of pause/resume events
- * @returns Actual completion time in minutes adjusted for pauses
+ * @param config Business calendars loaded by the caller
+ * @returns Actual completion time in business minutes adjusted for pauses
  */
 export function calculateAdjustedTicketCompletionTime(
   ticket: Ticket,
-  pauseResumeLogs: PauseResumeLog[] = []
+  pauseResumeLogs: PauseResumeLog[] = [],
+  config: SLAConfig = {}
 ): number {
   try {
     // Parse creation and completion times
     const createdAt = new Date(ticket.created_at);
     const completedAt = ticket.completed_at ? new Date(ticket.completed_at) : new Date();
 
-    // Calculate the difference in milliseconds
-    const totalDiffInMs = completedAt.getTime() - createdAt.getTime();
-
-    // Calculate total pause duration
-    let totalPauseMs = 0;
-    for (const log of pauseResumeLogs) {
-      if (log.action === 'pause' && log.resumed_at) {
-        const pauseStart = new Date(log.paused_at).getTime();
-        const pauseEnd = new Date(log.resumed_at).getTime();
-        // Ensure pause is within ticket's timeline
-        const adjustedPauseStart = Math.max(pauseStart, createdAt.getTime());
-        const adjustedPauseEnd = Math.min(pauseEnd, completedAt.getTime());
-        if (adjustedPauseEnd > adjustedPauseStart) {
-          totalPauseMs += adjustedPauseEnd - adjustedPauseStart;
-        }
-      }
-    }
+    // Collect completed pauses; overlaps and time outside the ticket's timeline are trimmed
+    const pauses = pauseResumeLogs
+      .filter(log => log.action === 'pause' && log.resumed_at)
+      .map(log => ({
+        start: new Date(log.paused_at).getTime(),
+        end: new Date(log.resumed_at as string).getTime()
+      }));
+
+    const runningIntervals = subtractPausedIntervals(
+      { start: createdAt.getTime(), end: completedAt.getTime() },
+      pauses
+    );
 
-    // Calculate adjusted time (total time minus pause time)
-    const adjustedDiffInMs = totalDiffInMs - totalPauseMs;
+    // Count only running time that falls inside business hours
+    const calendar = getBusinessCalendarForTicket(ticket, config.calendars);
+    const adjustedDiffInMs = runningIntervals.reduce(
+      (total, interval) => total + calculateBusinessMilliseconds(new Date(interval.start), new Date(interval.end), calendar),
+      0
+    );
     const adjustedDiffInMinutes = Math.round(adjustedDiffInMs / (1000 * 60));
 
     return Math.max(0, adjustedDiffInMinutes); // Ensure non-negative result
@@ -218,13 +230,15 @@ export function calculateAdjustedTicketCompletionTime(
  * @param pauseResumeLogs Array of pause/resume events
  * @param partRequests Array of part requests related to this ticket
  * @param vendorDelays Array of vendor delay records
+ * @param config SLA policies and business calendars loaded by the caller
  * @returns boolean indicating if SLA was breached
  */
 export function isSLABreachedWithAdjustments(
   ticket: Ticket,
   pauseResumeLogs: PauseResumeLog[] = [],
   partRequests: PartRequest[] = [],
-  vendorDelays: VendorDelay[] = []
+  vendorDelays: VendorDelay[] = [],
+  config: SLAConfig = {}
 ): boolean {
   // If ticket is not completed, we can't determine SLA breach yet
   if (!ticket.completed_at) {
@@ -236,11 +250,12 @@ export function isSLABreachedWithAdjustments(
     ticket,
     pauseResumeLogs,
     partRequests,
-    vendorDelays
+    vendorDelays,
+    config
   );
 
   // Calculate actual completion time adjusted for pauses
-  const completionMinutes = calculateAdjustedTicketCompletionTime(ticket, pauseResumeLogs);
+  const completionMinutes = calculateAdjustedTicketCompletionTime(ticket, pauseResumeLogs, config);
 
   // Return whether the completion time exceeded the adjusted SLA target
   return completionMinutes > slaTargetMinutes;
@@ -252,13 +267,15 @@ export function isSLABreachedWithAdjustments(
  * @param pauseResumeLogs Array of pause/resume events
  * @param partRequests Array of part requests related to this ticket
  * @param vendorDelays Array of vendor delay records
+ * @param config SLA policies and business calendars loaded by the caller
  * @returns 'met', 'breached', or 'in-progress'
  */
 export function getSLAStatusWithAdjustments(
   ticket: Ticket,
   pauseResumeLogs: PauseResumeLog[] = [],
   partRequests: PartRequest[] = [],
-  vendorDelays: VendorDelay[] = []
+  vendorDelays: VendorDelay[] = [],
+  config: SLAConfig = {}
 ): 'met' | 'breached' | 'in-progress' {
   // If ticket is not completed yet, it's still in progress
   if (!ticket.completed_at) {
@@ -267,21 +284,18 @@ export function getSLAStatusWithAdjustments(
       ticket,
       pauseResumeLogs,
       partRequests,
-      vendorDelays
+      vendorDelays,
+      config
     );
 
-    const createdAt = new Date(ticket.created_at);
-    // Calculate adjusted elapsed time
-    const adjustedElapsedTime = calculateAdjustedTicketCompletionTime(ticket, pauseResumeLogs);
-
-    // Calculate deadline by adding adjusted SLA to creation time
-    const deadline = new Date(createdAt.getTime() + adjustedSLATarget * 60000);
+    // Calculate adjusted elapsed business time so far
+    const adjustedElapsedTime = calculateAdjustedTicketCompletionTime(ticket, pauseResumeLogs, config);
 
-    return new Date() > deadline ? 'breached' : 'in-progress';
+    return adjustedElapsedTime > adjustedSLATarget ? 'breached' : 'in-progress';
   }
 
   // If ticket is completed, check if SLA was met or breached considering adjustments
-  return isSLABreachedWithAdjustments(ticket, pauseResumeLogs, partRequests, vendorDelays) ? 'breached' : 'met';
+  return isSLABreachedWithAdjustments(ticket, pauseResumeLogs, partRequests, vendorDelays, config) ? 'breached' : 'met';
 }
 
 /**
@@ -334,13 +348,15 @@ export function isVendorDelayBreach(vendorDelay: VendorDelay, thresholdMinutes:
  * @param pauseResumeLogs Array of pause/resume events
  * @param partRequests Array of part requests related to this ticket
  * @param vendorDelays Array of vendor delay records
+ * @param config SLA policies and business calendars loaded by the caller
  * @returns boolean indicating if SLA is at risk and notification was triggered
  */
 export async function checkAndTriggerSLARiskNotification(
   ticket: Ticket,
   pauseResumeLogs: PauseResumeLog[] = [],
   partRequests: PartRequest[] = [],
-  vendorDelays: VendorDelay[] = []
+  vendorDelays: VendorDelay[] = [],
+  config: SLAConfig = {}
 ): Promise<boolean> {
   // Only check SLA risk for tickets that are not yet completed
   if (ticket.completed_at) {
@@ -352,18 +368,15 @@ export async function checkAndTriggerSLARiskNotification(
     ticket,
     pauseResumeLogs,
     partRequests,
-    vendorDelays
+    vendorDelays,
+    config
   );
 
-  const createdAt = new Date(ticket.created_at);
-  // Calculate adjusted elapsed time
-  const adjustedElapsedTime = calculateAdjustedTicketCompletionTime(ticket, pauseResumeLogs);
-
-  // Calculate deadline by adding adjusted SLA to creation time
-  const deadline = new Date(createdAt.getTime() + adjustedSLATarget * 60000);
+  // Calculate adjusted elapsed business time so far
+  const adjustedElapsedTime = calculateAdjustedTicketCompletionTime(ticket, pauseResumeLogs, config);
 
-  // Check if we're approaching the deadline (e.g., within 4 hours of SLA target)
-  const timeRemaining = deadline.getTime() - new Date().getTime();
+  // Check if we're approaching the deadline (e.g., within 4 business hours of SLA target)
+  const timeRemaining = (adjustedSLATarget - adjustedElapsedTime) * 60000;
   const fourHoursInMs = 4 * 60 * 60 * 1000; // 4 hours in milliseconds
 
   // If the ticket has part delays, trigger part delay notification
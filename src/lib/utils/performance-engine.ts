@@ -8,6 +8,7 @@ import {
   VendorDelay
 } from './enhanced-sla-utils';
 import { PartRequest } from '../api/parts';
+import { SLAConfig } from './sla-policy';
 
 /**
  * Calculate SLA compliance for a ticket with adjustments for pauses, part delays, and vendor delays
@@ -15,15 +16,17 @@ import { PartRequest } from '../api/parts';
  * @param pauseResumeLogs Array of pause/resume events
  * @param partRequests Array of part requests related to this ticket
  * @param vendorDelays Array of vendor delay records
+ * @param config SLA policies and business calendars loaded by the caller
  * @returns boolean indicating if SLA was met considering adjustments
  */
 export function calculateSLAWithAdjustments(
   ticket: Ticket,
   pauseResumeLogs: PauseResumeLog[] = [],
   partRequests: PartRequest[] = [],
-  vendorDelays: VendorDelay[] = []
+  vendorDelays: VendorDelay[] = [],
+  config: SLAConfig = {}
 ): boolean {
-  return !isSLABreachedWithAdjustments(ticket, pauseResumeLogs, partRequests, vendorDelays);
+  return !isSLABreachedWithAdjustments(ticket, pauseResumeLogs, partRequests, vendorDelays, config);
 }
 
 /**
@@ -33,6 +36,7 @@ export function calculateSLAWithAdjustments(
  * @param pauseResumeLogs Array of pause/resume events per ticket
  * @param partRequests Array of part requests per ticket
  * @param vendorDelays Array of vendor delay records per ticket
+ * @param config SLA policies and business calendars loaded by the caller
  * @returns The calculated performance score (0-100)
  */
 export function calculateScoreWithAdjustments(
@@ -46,7 +50,8 @@ export function calculateScoreWithAdjustments(
   tickets: Ticket[],
   pauseResumeLogs: Record<string, PauseResumeLog[]> = {},
   partRequests: Record<string, PartRequest[]> = {},
-  vendorDelays: Record<string, VendorDelay[]> = {}
+  vendorDelays: Record<string, VendorDelay[]> = {},
+  config: SLAConfig = {}
 ): number {
   // Default values for calculations if metrics are not provided
   const avgCompletionTime = performance.avg_completion_time_minutes || 0;
@@ -64,7 +69,7 @@ export function calculateScoreWithAdjustments(
     const ticketPartRequests = partRequests[ticket.id] || [];
     const ticketVendorDelays = vendorDelays[ticket.id] || [];
 
-    if (isSLABreachedWithAdjustments(ticket, ticketPauseLogs, ticketPartRequests, ticketVendorDelays)) {
+    if (isSLABreachedWithAdjustments(ticket, ticketPauseLogs, ticketPartRequests, ticketVendorDelays, config)) {
       adjustedSlaBreached++;
     } else {
       adjustedSlaMet++;
@@ -166,14 +171,16 @@ export function calculateScore(performance: {
  * Calculate the completion time in minutes between two timestamps with adjustments for pauses
  * @param ticket The ticket to calculate completion time for
  * @param pauseResumeLogs Array of pause/resume events
+ * @param config Business calendars loaded by the caller
  * @returns The completion time in minutes adjusted for pauses
  */
 export function calculateAdjustedCompletionMinutes(
   ticket: Ticket,
-  pauseResumeLogs: PauseResumeLog[] = []
+  pauseResumeLogs: PauseResumeLog[] = [],
+  config: SLAConfig = {}
 ): number {
   try {
-    return calculateAdjustedTicketCompletionTime(ticket, pauseResumeLogs);
+    return calculateAdjustedTicketCompletionTime(ticket, pauseResumeLogs, config);
   } catch (error) {
     console.error('Error calculating adjusted completion minutes:', error);
     return 0; // Return 0 in case of error
@@ -187,6 +194,7 @@ export function calculateAdjustedCompletionMinutes(
  * @param pauseResumeLogs Array of pause/resume events per ticket
  * @param partRequests Array of part requests per ticket
  * @param vendorDelays Array of vendor delay records per ticket
+ * @param config SLA policies and business calendars loaded by the caller
  * @returns Efficiency score (0-100)
  */
 export function calculateEfficiencyWithAdjustments(
@@ -199,7 +207,8 @@ export function calculateEfficiencyWithAdjustments(
   tickets: Ticket[],
   pauseResumeLogs: Record<string, PauseResumeLog[]> = {},
   partRequests: Record<string, PartRequest[]> = {},
-  vendorDelays: Record<string, VendorDelay[]> = {}
+  vendorDelays: Record<string, VendorDelay[]> = {},
+  config: SLAConfig = {}
 ): number {
   const jobsCompleted = performance.jobs_completed || 0;
   const totalJobs = performance.total_jobs || 1; // Avoid division by zero
@@ -213,7 +222,7 @@ export function calculateEfficiencyWithAdjustments(
     const ticketPartRequests = partRequests[ticket.id] || [];
     const ticketVendorDelays = vendorDelays[ticket.id] || [];
 
-    if (isSLABreachedWithAdjustments(ticket, ticketPauseLogs, ticketPartRequests, ticketVendorDelays)) {
+    if (isSLABreachedWithAdjustments(ticket, ticketPauseLogs, ticketPartRequests, ticketVendorDelays, config)) {
       adjustedSlaBreached++;
     } else {
       adjustedSlaMet++;
@@ -240,6 +249,7 @@ export function calculateEfficiencyWithAdjustments(
  * @param pauseResumeLogs Array of pause/resume events per ticket
  * @param partRequests Array of part requests per ticket
  * @param vendorDelays Array of vendor delay records per ticket
+ * @param config SLA policies and business calendars loaded by the caller
  * @returns Reliability score (0-100)
  */
 export function calculateReliabilityWithAdjustments(
@@ -250,7 +260,8 @@ export function calculateReliabilityWithAdjustments(
   tickets: Ticket[],
   pauseResumeLogs: Record<string, PauseResumeLog[]> = {},
   partRequests: Record<string, PartRequest[]> = {},
-  vendorDelays: Record<string, VendorDelay[]> = {}
+  vendorDelays: Record<string, VendorDelay[]> = {},
+  config: SLAConfig = {}
 ): number {
   // Calculate adjusted SLA metrics based on tickets and adjustments
   let adjustedSlaMet = 0;
@@ -261,7 +272,7 @@ export function calculateReliabilityWithAdjustments(
     const ticketPartRequests = partRequests[ticket.id] || [];
     const ticketVendorDelays = vendorDelays[ticket.id] || [];
 
-    if (isSLABreachedWithAdjustments(ticket, ticketPauseLogs, ticketPartRequests, ticketVendorDelays)) {
+    if (isSLABreachedWithAdjustments(ticket, ticketPauseLogs, ticketPartRequests, ticketVendorDelays, config)) {
       adjustedSlaBreached++;
     } else {
       adjustedSlaMet++;
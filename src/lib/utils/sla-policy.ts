@@ -0,0 +1,210 @@
+// sla-policy.ts
+// Hierarchical SLA policy resolution: the single source of SLA targets for tickets
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Ticket } from '../types/ticket';
+import { createSLAService, SLAPolicy } from '../services/sla-service';
+import { BusinessCalendar } from './business-hours';
+
+/**
+ * Attributes an SLA policy can be matched on. Unset attributes only match wildcard policies.
+ */
+export interface SLAPolicyCriteria {
+  city?: string | null;
+  deviceCategory?: string | null;
+  brand?: string | null;
+  urgencyTier?: string | null;     // e.g. 'standard', 'express', 'critical'
+  customerSegment?: string | null; // e.g. 'retail', 'business', 'vip'
+  at?: Date;                       // Point in time the policy must be effective at (defaults to now)
+}
+
+/**
+ * Result of resolving a policy for a set of criteria
+ */
+export interface ResolvedSLAPolicy {
+  policy: SLAPolicy;
+  targetMinutes: number;
+  specificity: number;
+}
+
+// Fallback target when no policy (not even a global one) matches: 48 hours
+const FALLBACK_TARGET_MINUTES = 2880;
+
+// Dimension weights: each level of the hierarchy outranks every combination of the levels above it,
+// so a brand-specific policy beats a city + category policy
+const DIMENSION_WEIGHTS = {
+  city: 1,
+  device_category: 2,
+  brand: 4,
+  urgency_tier: 8,
+  customer_segment: 16,
+} as const;
+
+const BUILT_IN_TIMESTAMP = '1970-01-01T00:00:00.000Z';
+
+const builtInPolicy = (id: string, name: string, baseMinutes: number, deviceCategory?: string): SLAPolicy => ({
+  id,
+  name,
+  scope: deviceCategory ? 'category' : 'global',
+  device_category: deviceCategory,
+  base_minutes: baseMinutes,
+  logic: {},
+  active: true,
+  created_at: BUILT_IN_TIMESTAMP,
+  updated_at: BUILT_IN_TIMESTAMP,
+});
+
+/**
+ * Built-in policies used when no policies are passed in
+ */
+export const DEFAULT_SLA_POLICIES: SLAPolicy[] = [
+  builtInPolicy('builtin-global', 'Default SLA', FALLBACK_TARGET_MINUTES),
+  builtInPolicy('builtin-mobile', 'Mobile SLA', 1440, 'Mobile'),         // 24 hours
+  builtInPolicy('builtin-laptop', 'Laptop SLA', 2880, 'Laptop'),         // 48 hours
+  builtInPolicy('builtin-tv', 'TV SLA', 4320, 'TV'),                     // 72 hours
+  builtInPolicy('builtin-appliances', 'Appliances SLA', 2880, 'Appliances'), // 48 hours
+];
+
+/**
+ * Policies and calendars an SLA calculation runs against. Server entry points load them with
+ * loadSLAPolicies / loadBusinessCalendars and pass them down; without them the built-in
+ * policies and a round-the-clock clock apply.
+ */
+export interface SLAConfig {
+  policies?: SLAPolicy[];
+  calendars?: BusinessCalendar[];
+}
+
+/**
+ * Load active policies from the sla_policies table
+ * @param supabase Supabase client to read policies with
+ * @returns The configured policies, or the built-in defaults if none are configured
+ */
+export async function loadSLAPolicies(supabase: SupabaseClient): Promise<SLAPolicy[]> {
+  const policies = await createSLAService(supabase).getSLAPolicies();
+  return policies.length > 0 ? policies : DEFAULT_SLA_POLICIES;
+}
+
+const normalize = (value?: string | null): string | null =>
+  value === undefined || value === null || value.trim() === '' ? null : value.trim().toLowerCase();
+
+/**
+ * Check whether a policy is effective at a point in time
+ * @param policy The policy to check
+ * @param at Point in time
+ * @returns boolean indicating if the policy is active and inside its effective window
+ */
+export function isSLAPolicyEffective(policy: SLAPolicy, at: Date = new Date()): boolean {
+  if (!policy.active) return false;
+  if (policy.effective_from && new Date(policy.effective_from) > at) return false;
+  if (policy.effective_to && new Date(policy.effective_to) <= at) return false;
+  return true;
+}
+
+/**
+ * Score how specifically a policy matches the criteria
+ * @param policy The policy to score
+ * @param criteria Ticket attributes
+ * @returns Specificity score, or null if the policy does not apply
+ */
+function scorePolicy(policy: SLAPolicy, criteria: SLAPolicyCriteria): number | null {
+  const pairs: Array<[keyof typeof DIMENSION_WEIGHTS, string | null | undefined, string | null | undefined]> = [
+    ['city', policy.city, criteria.city],
+    ['device_category', policy.device_category, criteria.deviceCategory],
+    ['brand', policy.brand, criteria.brand],
+    ['urgency_tier', policy.urgency_tier, criteria.urgencyTier],
+    ['customer_segment', policy.customer_segment, criteria.customerSegment],
+  ];
+
+  let specificity = 0;
+  for (const [dimension, policyValue, criteriaValue] of pairs) {
+    const expected = normalize(policyValue);
+    if (expected === null) continue; // Wildcard
+    if (expected !== normalize(criteriaValue)) return null;
+    specificity += DIMENSION_WEIGHTS[dimension];
+  }
+  return specificity;
+}
+
+/**
+ * Resolve the most specific effective policy for a set of ticket attributes.
+ * Ties are broken by explicit priority, then by the most recent effective_from.
+ * @param criteria Ticket attributes to match
+ * @param policies Candidate policies (defaults to the built-in policies)
+ * @returns The winning policy, or null if none applies
+ */
+export function resolveSLAPolicy(
+  criteria: SLAPolicyCriteria,
+  policies: SLAPolicy[] = DEFAULT_SLA_POLICIES
+): ResolvedSLAPolicy | null {
+  const at = criteria.at ?? new Date();
+  let best: ResolvedSLAPolicy | null = null;
+
+  for (const policy of policies) {
+    if (!isSLAPolicyEffective(policy, at)) continue;
+
+    const specificity = scorePolicy(policy, criteria);
+    if (specificity === null) continue;
+
+    if (!best || compareCandidates(policy, specificity, best) > 0) {
+      best = { policy, targetMinutes: policy.base_minutes, specificity };
+    }
+  }
+
+  return best;
+}
+
+function compareCandidates(policy: SLAPolicy, specificity: number, current: ResolvedSLAPolicy): number {
+  if (specificity !== current.specificity) return specificity - current.specificity;
+
+  const priorityDiff = (policy.priority ?? 0) - (current.policy.priority ?? 0);
+  if (priorityDiff !== 0) return priorityDiff;
+
+  const from = policy.effective_from ? new Date(policy.effective_from).getTime() : 0;
+  const currentFrom = current.policy.effective_from ? new Date(current.policy.effective_from).getTime() : 0;
+  return from - currentFrom;
+}
+
+/**
+ * Build policy criteria from a ticket. The SLA is resolved as of ticket creation,
+ * so later policy changes do not move the goalposts on open tickets.
+ * @param ticket The ticket to evaluate
+ * @returns Criteria for resolveSLAPolicy / getSLATarget
+ */
+export function slaCriteriaFromTicket(ticket: Ticket): SLAPolicyCriteria {
+  return {
+    city: ticket.city,
+    deviceCategory: ticket.device_category,
+    brand: ticket.brand,
+    urgencyTier: ticket.urgency_tier,
+    customerSegment: ticket.customer_segment,
+    at: ticket.created_at ? new Date(ticket.created_at) : undefined,
+  };
+}
+
+/**
+ * Get the SLA target time in minutes
+ * @param criteria A device category, or the full set of ticket attributes
+ * @param policies Candidate policies (defaults to the built-in policies)
+ * @returns SLA target time in minutes
+ */
+export function getSLATarget(
+  criteria: string | SLAPolicyCriteria,
+  policies: SLAPolicy[] = DEFAULT_SLA_POLICIES
+): number {
+  const resolved = resolveSLAPolicy(
+    typeof criteria === 'string' ? { deviceCategory: criteria } : criteria,
+    policies
+  );
+  return resolved ? resolved.targetMinutes : FALLBACK_TARGET_MINUTES;
+}
+
+/**
+ * Get the SLA target time in minutes for a ticket
+ * @param ticket The ticket to evaluate
+ * @param config Policies to resolve against (defaults to the built-in policies)
+ * @returns SLA target time in minutes
+ */
+export function getSLATargetForTicket(ticket: Ticket, config: SLAConfig = {}): number {
+  return getSLATarget(slaCriteriaFromTicket(ticket), config.policies);
+}
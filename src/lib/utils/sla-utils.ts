@@ -1,59 +1,47 @@
 import { Ticket } from '../types/ticket';
+import { getSLATargetForTicket, SLAConfig } from './sla-policy';
+import { calculateBusinessMinutes, getBusinessCalendarForTicket } from './business-hours';
 
-/**
- * Get the SLA target time in minutes based on the device category
- * @param deviceCategory The category of the device (Mobile, Laptop, TV, Appliances)
- * @returns SLA target time in minutes
- */
-export function getSLATarget(deviceCategory: string): number {
-  const slaTargets: Record<string, number> = {
-    'Mobile': 1440,    // 24 hours in minutes
-    'Laptop': 2880,    // 48 hours in minutes
-    'TV': 4320,        // 72 hours in minutes
-    'Appliances': 2880 // 48 hours in minutes
-  };
-
-  // Return the SLA target for the given category, or default to 48 hours if not found
-  return slaTargets[deviceCategory] || 2880; // Default to 48 hours
-}
+// SLA targets are resolved by the policy engine; re-exported for existing callers
+export { getSLATarget } from './sla-policy';
 
 /**
  * Determine if a ticket's SLA was breached based on its completion time
  * @param ticket The ticket to evaluate
+ * @param config SLA policies and business calendars loaded by the caller
  * @returns boolean indicating if SLA was breached
  */
-export function isSLABreached(ticket: Ticket): boolean {
+export function isSLABreached(ticket: Ticket, config: SLAConfig = {}): boolean {
   // If ticket is not completed, we can't determine SLA breach yet
   if (!ticket.completed_at) {
     return false; // Not breached yet, still in progress
   }
 
-  // Get the SLA target based on device category
-  const slaTargetMinutes = getSLATarget(ticket.device_category || 'default');
+  // Get the SLA target from the policy engine
+  const slaTargetMinutes = getSLATargetForTicket(ticket, config);
 
   // Calculate actual completion time in minutes
-  const completionMinutes = calculateTicketCompletionTime(ticket);
+  const completionMinutes = calculateTicketCompletionTime(ticket, config);
 
   // Return whether the completion time exceeded the SLA target
   return completionMinutes > slaTargetMinutes;
 }
 
 /**
- * Calculate the completion time for a ticket in minutes
+ * Calculate the completion time for a ticket in business minutes.
+ * The clock only runs during the working hours of the ticket's calendar.
  * @param ticket The ticket to calculate completion time for
+ * @param config Business calendars loaded by the caller
  * @returns Completion time in minutes
  */
-function calculateTicketCompletionTime(ticket: Ticket): number {
+function calculateTicketCompletionTime(ticket: Ticket, config: SLAConfig = {}): number {
   try {
     // Parse creation and completion times
     const createdAt = new Date(ticket.created_at);
     const completedAt = ticket.completed_at ? new Date(ticket.completed_at) : new Date();
 
-    // Calculate the difference in milliseconds
-    const diffInMs = completedAt.getTime() - createdAt.getTime();
-
-    // Convert milliseconds to minutes
-    const diffInMinutes = Math.round(diffInMs / (1000 * 60));
+    // Count only time inside business hours
+    const diffInMinutes = calculateBusinessMinutes(createdAt, completedAt, getBusinessCalendarForTicket(ticket, config.calendars));
 
     return Math.max(0, diffInMinutes); // Ensure non-negative result
   } catch (error) {
@@ -119,21 +107,21 @@ export function calculateSLAPercentageForPeriod(
 /**
  * Determine the SLA status for a ticket
  * @param ticket The ticket to evaluate
+ * @param config SLA policies and business calendars loaded by the caller
  * @returns 'met', 'breached', or 'in-progress'
  */
-export function getSLAStatus(ticket: Ticket): 'met' | 'breached' | 'in-progress' {
+export function getSLAStatus(ticket: Ticket, config: SLAConfig = {}): 'met' | 'breached' | 'in-progress' {
   // If ticket is not completed yet, it's still in progress
   if (!ticket.completed_at) {
-    // Check if the deadline has passed for in-progress tickets
-    const slaTargetMinutes = getSLATarget(ticket.device_category || 'default');
-    const createdAt = new Date(ticket.created_at);
-    const deadline = new Date(createdAt.getTime() + slaTargetMinutes * 60000); // Add minutes in milliseconds
-    
-    return new Date() > deadline ? 'breached' : 'in-progress';
+    // Check if the business time elapsed so far has passed the target
+    const slaTargetMinutes = getSLATargetForTicket(ticket, config);
+    const elapsedMinutes = calculateTicketCompletionTime(ticket, config);
+
+    return elapsedMinutes > slaTargetMinutes ? 'breached' : 'in-progress';
   }
 
   // If ticket is completed, check if SLA was met or breached
-  return isSLABreached(ticket) ? 'breached' : 'met';
+  return isSLABreached(ticket, config) ? 'breached' : 'met';
 }
 
 /**
@@ -102,4 +102,49 @@ export async function sendOtpEmail(to: string, otp: string, request_id: string):
     console.error(`[EMAIL SERVICE ERROR] Failed to send OTP to ${to} (Request ID: ${request_id}):`, error);
     return false;
   }
-}
\ No newline at end of file
+}
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Send a general email using nodemailer
+ * @returns The SMTP message ID, or null if SMTP is not configured (the email is logged instead)
+ * @throws If the SMTP server rejects the message
+ */
+export async function sendEmail(message: EmailMessage): Promise<string | null> {
+  const config = getEmailConfig();
+
+  if (!config) {
+    console.log(`[EMAIL SERVICE NOT CONFIGURED] Email to ${message.to}: ${message.subject}`);
+    return null;
+  }
+
+  // Dynamically import nodemailer to handle Next.js 16 ESM/CJS issues
+  const nodemailer = await import('nodemailer');
+  const transporter = nodemailer.default.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: {
+      user: config.auth.user,
+      pass: config.auth.pass,
+    },
+  });
+
+  const info = await transporter.sendMail({
+    from: config.from,
+    to: message.to,
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+    headers: message.headers,
+  });
+
+  console.log(`[EMAIL SERVICE] Email sent to ${message.to} - Message ID: ${info.messageId}`);
+  return info.messageId;
+}
@@ -1,28 +1,20 @@
-const whatsappTemplates = {
-  pending: "Hi {{name}}, your ticket {{ticket_id}} is created and marked *Pending*. We will diagnose and update you soon. — JamesTronic",
-  in_progress: "Update for {{name}} ({{ticket_id}}): Work is *In Progress*. Estimated time: {{eta}}. — JamesTronic",
-  part_required: "Hi {{name}}, for ticket {{ticket_id}} we need to source a part (*{{part}}*). Estimate: {{eta}}. — JamesTronic",
-  ready: "Great news {{name}}! Ticket {{ticket_id}} is *Ready*. Please pick up / confirm delivery. — JamesTronic",
-  waiting_customer: "Reminder {{name}}: Ticket {{ticket_id}} is *Waiting for your response*. Reply to proceed. — JamesTronic",
-  failed: "Hello {{name}}, ticket {{ticket_id}} repair *failed*. Reason: {{reason}}. We'll discuss next steps. — JamesTronic",
-  cancelled: "Hi {{name}}, ticket {{ticket_id}} is *Cancelled*. If this is unexpected, reply here. — JamesTronic"
-};
+import { renderNotificationTemplate, TemplateRenderError } from '@/lib/notifications/templates';
+import type { NotificationLanguage } from '@/lib/notifications/preferences';
 
 class WhatsAppTemplate {
-  static fillTemplate(status: string, data: Record<string, string>): string {
-    let template = whatsappTemplates[status as keyof typeof whatsappTemplates];
-    
-    if (!template) {
-      return `Hi ${data.name}, your ticket ${data.ticket_id} status is ${status}. — JamesTronic`;
+  /**
+   * Ticket status message for a wa.me link, from the template registry (ticket_<status>)
+   * @param locale - Customer's language; defaults to English
+   */
+  static fillTemplate(status: string, data: Record<string, string>, locale: NotificationLanguage = 'en'): string {
+    try {
+      return renderNotificationTemplate(`ticket_${status}`, data, { locale, format: 'whatsapp' });
+    } catch (error) {
+      if (!(error instanceof TemplateRenderError)) throw error;
+      // No template for this status, or data it needs is missing
+      return renderNotificationTemplate('ticket_status_update', { ...data, status }, { locale, format: 'whatsapp' });
     }
-    
-    // Replace placeholders with actual values
-    Object.entries(data).forEach(([key, value]) => {
-      template = template.replace(new RegExp(`{{${key}}}`, 'g'), value);
-    });
-    
-    return template;
   }
 }
 
-export { WhatsAppTemplate };
\ No newline at end of file
+export { WhatsAppTemplate };
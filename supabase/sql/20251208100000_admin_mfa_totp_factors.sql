@@ -0,0 +1,99 @@
+-- Admin MFA: real TOTP factors and single-use recovery codes
+-- Replaces the hash-only secret stored in admin_mfa_sessions, which could not be used to verify codes
+
+-- Create admin_mfa_factors table (one TOTP factor per admin)
+-- A secret being set up is kept in pending_secret, so re-enrolling never touches the active factor
+CREATE TABLE IF NOT EXISTS public.admin_mfa_factors (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    totp_secret TEXT,                               -- active base32 secret, readable only with the service role
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active')),
+    last_used_step BIGINT,                          -- last accepted TOTP time step (replay protection)
+    failed_attempts INTEGER NOT NULL DEFAULT 0,     -- login attempts since the last success, TOTP and recovery codes alike
+    locked_until TIMESTAMPTZ,
+    pending_secret TEXT,                            -- secret awaiting its first code
+    setup_failed_attempts INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    setup_expires_at TIMESTAMPTZ,
+    confirmed_at TIMESTAMPTZ,
+    last_verified_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (status = 'pending' OR totp_secret IS NOT NULL)
+);
+
+-- Create admin_mfa_recovery_codes table
+CREATE TABLE IF NOT EXISTS public.admin_mfa_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    code_hash TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    used_at TIMESTAMPTZ,
+    UNIQUE (user_id, code_hash)
+);
+
+CREATE TRIGGER update_admin_mfa_factors_updated_at
+    BEFORE UPDATE ON public.admin_mfa_factors
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_admin_mfa_recovery_codes_user_id
+    ON public.admin_mfa_recovery_codes(user_id) WHERE used_at IS NULL;
+
+-- Enable RLS. No policies are created: secrets and code hashes are only touched
+-- through the service role in Next.js API routes.
+ALTER TABLE public.admin_mfa_factors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.admin_mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Take one login attempt for an admin's factor. Attempts are counted before the code is checked, so
+-- parallel guesses cannot slip past the limit; a successful verification resets the count.
+-- The attempt that reaches p_max_attempts is still allowed and starts the lockout.
+CREATE OR REPLACE FUNCTION public.claim_admin_mfa_attempt(
+    p_user_id UUID,
+    p_max_attempts INTEGER,
+    p_lockout_seconds INTEGER
+)
+RETURNS TABLE (allowed BOOLEAN, locked_until TIMESTAMPTZ)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_now TIMESTAMPTZ := clock_timestamp();
+    v_attempts INTEGER;
+    v_locked_until TIMESTAMPTZ;
+BEGIN
+    SELECT f.failed_attempts, f.locked_until INTO v_attempts, v_locked_until
+    FROM public.admin_mfa_factors f
+    WHERE f.user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        allowed := FALSE;
+        RETURN NEXT;
+        RETURN;
+    END IF;
+
+    IF v_locked_until IS NOT NULL AND v_locked_until > v_now THEN
+        allowed := FALSE;
+        locked_until := v_locked_until;
+        RETURN NEXT;
+        RETURN;
+    END IF;
+
+    -- An expired lockout starts a fresh count
+    v_attempts := CASE WHEN v_locked_until IS NULL THEN v_attempts + 1 ELSE 1 END;
+    v_locked_until := CASE
+        WHEN v_attempts >= p_max_attempts THEN v_now + make_interval(secs => p_lockout_seconds)
+    END;
+
+    UPDATE public.admin_mfa_factors
+    SET failed_attempts = v_attempts, locked_until = v_locked_until
+    WHERE user_id = p_user_id;
+
+    allowed := TRUE;
+    locked_until := v_locked_until;
+    RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_admin_mfa_attempt(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
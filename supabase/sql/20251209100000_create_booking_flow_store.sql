@@ -0,0 +1,127 @@
+-- Phase C8.7: Persistent booking flow state
+-- Backing tables for SupabaseBookingFlowStore so booking flows survive restarts
+-- and can be resumed by booking_id on any instance
+
+-- Latest snapshot of each booking flow (everything except the state history)
+CREATE TABLE IF NOT EXISTS public.booking_flow_contexts (
+    booking_id TEXT PRIMARY KEY,
+    customer_id TEXT NOT NULL,
+    session_id TEXT NOT NULL,
+    current_state TEXT NOT NULL,
+    snapshot JSONB NOT NULL,
+    transition_count INTEGER NOT NULL DEFAULT 0, -- Version: transitions in the log when the snapshot was written
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Append-only state transition log; (booking_id, seq) rejects concurrent writers
+CREATE TABLE IF NOT EXISTS public.booking_flow_transitions (
+    id BIGSERIAL PRIMARY KEY,
+    booking_id TEXT NOT NULL REFERENCES public.booking_flow_contexts(booking_id),
+    seq INTEGER NOT NULL CHECK (seq >= 0),
+    from_state TEXT NOT NULL,
+    to_state TEXT NOT NULL,
+    reason TEXT,
+    occurred_at TIMESTAMPTZ NOT NULL,
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (booking_id, seq)
+);
+
+-- Drop-off detector session records
+CREATE TABLE IF NOT EXISTS public.booking_dropoff_sessions (
+    session_id TEXT PRIMARY KEY,
+    record JSONB NOT NULL,
+    is_complete BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Enforce append-only semantics on the transition log
+CREATE OR REPLACE FUNCTION prevent_booking_flow_transition_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'booking_flow_transitions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER booking_flow_transitions_append_only
+    BEFORE UPDATE OR DELETE ON public.booking_flow_transitions
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_booking_flow_transition_mutation();
+
+-- Save a booking flow snapshot and append its new transitions in one transaction.
+-- p_expected_count is how many transitions the writer loaded. If the log has moved on since,
+-- nothing is written and FALSE is returned, so a stale instance can neither overwrite the
+-- snapshot nor move current_state backwards.
+CREATE OR REPLACE FUNCTION public.save_booking_flow_context(
+    p_booking_id TEXT,
+    p_customer_id TEXT,
+    p_session_id TEXT,
+    p_current_state TEXT,
+    p_snapshot JSONB,
+    p_expected_count INTEGER,
+    p_transitions JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_count INTEGER;
+    v_transitions JSONB := COALESCE(p_transitions, '[]'::jsonb);
+BEGIN
+    IF p_expected_count = 0 THEN
+        INSERT INTO public.booking_flow_contexts (booking_id, customer_id, session_id, current_state, snapshot)
+        VALUES (p_booking_id, p_customer_id, p_session_id, p_current_state, p_snapshot)
+        ON CONFLICT (booking_id) DO NOTHING;
+    END IF;
+
+    SELECT transition_count INTO v_count
+    FROM public.booking_flow_contexts
+    WHERE booking_id = p_booking_id
+    FOR UPDATE;
+
+    IF v_count IS NULL OR v_count <> p_expected_count THEN
+        RETURN FALSE;
+    END IF;
+
+    INSERT INTO public.booking_flow_transitions (booking_id, seq, from_state, to_state, reason, occurred_at)
+    SELECT p_booking_id,
+           p_expected_count + (t.ordinality - 1)::INTEGER,
+           t.value ->> 'from',
+           t.value ->> 'to',
+           t.value ->> 'reason',
+           (t.value ->> 'timestamp')::TIMESTAMPTZ
+    FROM jsonb_array_elements(v_transitions) WITH ORDINALITY AS t(value, ordinality);
+
+    UPDATE public.booking_flow_contexts
+    SET customer_id = p_customer_id,
+        session_id = p_session_id,
+        current_state = p_current_state,
+        snapshot = p_snapshot,
+        transition_count = p_expected_count + jsonb_array_length(v_transitions),
+        updated_at = NOW()
+    WHERE booking_id = p_booking_id;
+
+    RETURN TRUE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_booking_flow_context(TEXT, TEXT, TEXT, TEXT, JSONB, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_booking_flow_contexts_customer_id ON public.booking_flow_contexts(customer_id);
+CREATE INDEX IF NOT EXISTS idx_booking_flow_contexts_current_state ON public.booking_flow_contexts(current_state);
+CREATE INDEX IF NOT EXISTS idx_booking_dropoff_sessions_open ON public.booking_dropoff_sessions(updated_at) WHERE is_complete = FALSE;
+
+-- Enable RLS; the store is used server-side with the service role
+ALTER TABLE public.booking_flow_contexts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.booking_flow_transitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.booking_dropoff_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view booking flows" ON public.booking_flow_contexts
+    FOR SELECT USING (get_my_role() = 'admin');
+
+CREATE POLICY "Admins can view booking flow transitions" ON public.booking_flow_transitions
+    FOR SELECT USING (get_my_role() = 'admin');
@@ -0,0 +1,45 @@
+-- C14 SLA Engine: hierarchical SLA policies
+-- Policies are matched on city, device category, brand, urgency tier and customer segment
+-- (NULL = wildcard); the most specific effective policy wins (see src/lib/utils/sla-policy.ts)
+
+ALTER TABLE public.sla_policies
+ADD COLUMN IF NOT EXISTS city TEXT,
+ADD COLUMN IF NOT EXISTS brand TEXT,
+ADD COLUMN IF NOT EXISTS urgency_tier TEXT,
+ADD COLUMN IF NOT EXISTS customer_segment TEXT,
+ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS effective_from TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS effective_to TIMESTAMPTZ;
+
+ALTER TABLE public.sla_policies
+ADD CONSTRAINT sla_policies_effective_window_check
+    CHECK (effective_to IS NULL OR effective_from IS NULL OR effective_to > effective_from);
+
+-- Optional ticket attributes used for policy matching
+ALTER TABLE public.tickets
+ADD COLUMN IF NOT EXISTS city TEXT,
+ADD COLUMN IF NOT EXISTS urgency_tier TEXT,
+ADD COLUMN IF NOT EXISTS customer_segment TEXT;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_sla_policies_match
+    ON public.sla_policies (device_category, city, brand)
+    WHERE active = TRUE;
+
+-- Seed the targets that were previously hard-coded in the app
+INSERT INTO public.sla_policies (name, scope, device_category, base_minutes, logic, active)
+SELECT v.name, v.scope, v.device_category, v.base_minutes, '{}'::jsonb, TRUE
+FROM (VALUES
+    ('Default SLA', 'global', NULL, 2880),
+    ('Mobile SLA', 'category', 'Mobile', 1440),
+    ('Laptop SLA', 'category', 'Laptop', 2880),
+    ('TV SLA', 'category', 'TV', 4320),
+    ('Appliances SLA', 'category', 'Appliances', 2880)
+) AS v(name, scope, device_category, base_minutes)
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.sla_policies p
+    WHERE p.scope = v.scope
+      AND p.device_category IS NOT DISTINCT FROM v.device_category
+      AND p.city IS NULL AND p.brand IS NULL
+      AND p.urgency_tier IS NULL AND p.customer_segment IS NULL
+);
@@ -0,0 +1,77 @@
+-- C14 SLA Engine: business-hours calendars
+-- The SLA clock only runs inside a calendar's working hours (see src/lib/utils/business-hours.ts).
+-- A ticket uses its dark store's calendar, then its city's, then the default calendar (no store, no city).
+
+CREATE TABLE IF NOT EXISTS public.business_calendars (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+    dark_store_id UUID,
+    city TEXT,
+    -- Keyed by weekday (0 = Sunday): {"1": [{"start": "10:00", "end": "20:00"}], ...}
+    -- Weekdays without windows are weekly offs
+    weekly_hours JSONB NOT NULL DEFAULT '{}'::jsonb,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.business_calendar_holidays (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    calendar_id UUID NOT NULL REFERENCES public.business_calendars(id) ON DELETE CASCADE,
+    holiday_date DATE NOT NULL,
+    name TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (calendar_id, holiday_date)
+);
+
+-- At most one active calendar per dark store
+CREATE UNIQUE INDEX IF NOT EXISTS idx_business_calendars_dark_store
+    ON public.business_calendars (dark_store_id)
+    WHERE active = TRUE AND dark_store_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_business_calendars_city
+    ON public.business_calendars (lower(city))
+    WHERE active = TRUE;
+
+-- Dark store handling the ticket, used to pick its calendar
+ALTER TABLE public.tickets
+ADD COLUMN IF NOT EXISTS dark_store_id UUID;
+
+-- RLS: staff read, admins manage
+ALTER TABLE public.business_calendars ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.business_calendar_holidays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read business calendars" ON public.business_calendars
+    FOR SELECT USING (
+        (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('admin', 'staff', 'manager', 'technician')
+    );
+
+CREATE POLICY "Admins can manage business calendars" ON public.business_calendars
+    FOR ALL USING (
+        (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin'
+    );
+
+CREATE POLICY "Staff can read business calendar holidays" ON public.business_calendar_holidays
+    FOR SELECT USING (
+        (SELECT role FROM public.profiles WHERE id = auth.uid()) IN ('admin', 'staff', 'manager', 'technician')
+    );
+
+CREATE POLICY "Admins can manage business calendar holidays" ON public.business_calendar_holidays
+    FOR ALL USING (
+        (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin'
+    );
+
+-- Default shop hours: Monday to Saturday, 10:00-20:00 IST, Sunday weekly off
+INSERT INTO public.business_calendars (name, timezone, weekly_hours)
+SELECT 'Default shop hours', 'Asia/Kolkata', '{
+    "1": [{"start": "10:00", "end": "20:00"}],
+    "2": [{"start": "10:00", "end": "20:00"}],
+    "3": [{"start": "10:00", "end": "20:00"}],
+    "4": [{"start": "10:00", "end": "20:00"}],
+    "5": [{"start": "10:00", "end": "20:00"}],
+    "6": [{"start": "10:00", "end": "20:00"}]
+}'::jsonb
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.business_calendars WHERE dark_store_id IS NULL AND city IS NULL
+);
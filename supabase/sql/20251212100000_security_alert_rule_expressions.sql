@@ -0,0 +1,38 @@
+-- Security alert rules: expression-based conditions and per-rule suppression
+-- condition.expression holds the expression tree evaluated by src/lib/security/alertConditions.ts;
+-- rules without one keep the count >= condition.threshold behaviour.
+
+ALTER TABLE public.security_alert_rules
+ADD COLUMN IF NOT EXISTS suppression_minutes INTEGER CHECK (suppression_minutes IS NULL OR suppression_minutes >= 0);
+
+COMMENT ON COLUMN public.security_alert_rules.suppression_minutes IS
+    'Minutes to suppress repeat alerts for the same rule and key; defaults to condition.window_minutes';
+
+CREATE INDEX IF NOT EXISTS idx_security_alerts_rule_key
+    ON public.security_alerts (rule_id, (metadata->>'key'), created_at DESC);
+
+-- Example sequence rule (disabled by default): an admin who fails MFA repeatedly and then
+-- performs a device unlock within 10 minutes
+INSERT INTO public.security_alert_rules (name, description, is_active, severity, source_type, condition, suppression_minutes)
+SELECT
+    'MFA_FAILURES_THEN_DEVICE_UNLOCK',
+    'Three or more admin MFA failures followed by a device unlock by the same admin within 10 minutes',
+    FALSE,
+    'high',
+    'audit_log_entries',
+    '{
+        "window_minutes": 10,
+        "group_by": "actor_user_id",
+        "expression": {
+            "type": "sequence",
+            "within_minutes": 10,
+            "steps": [
+                { "min_count": 3, "filters": [{ "field": "event_type", "op": "eq", "value": "ADMIN_MFA_FAILED" }] },
+                { "filters": [{ "field": "event_type", "op": "eq", "value": "DEVICE_UNLOCK_PERFORMED" }] }
+            ]
+        }
+    }'::jsonb,
+    60
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.security_alert_rules WHERE name = 'MFA_FAILURES_THEN_DEVICE_UNLOCK'
+);
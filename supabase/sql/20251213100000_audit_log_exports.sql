@@ -0,0 +1,28 @@
+-- Signed audit log exports
+-- One row per completed export; manifest holds the signed hash-chain proof served by
+-- /api/admin/security/audit/export/manifest (see src/lib/security/auditExport.ts)
+
+CREATE TABLE IF NOT EXISTS public.audit_log_exports (
+    id UUID PRIMARY KEY,
+    requested_by UUID REFERENCES auth.users(id),
+    format TEXT NOT NULL CHECK (format IN ('jsonl', 'csv')),
+    filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+    row_count INTEGER NOT NULL DEFAULT 0,
+    manifest JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_exports_requested_by
+    ON public.audit_log_exports (requested_by, created_at DESC);
+
+-- Keyset pagination for streamed exports
+CREATE INDEX IF NOT EXISTS idx_audit_log_entries_created_at_id
+    ON public.audit_log_entries (created_at, id);
+
+-- Only the service role writes exports; admins can read them
+ALTER TABLE public.audit_log_exports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read audit log exports" ON public.audit_log_exports
+    FOR SELECT USING (
+        (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin'
+    );
@@ -0,0 +1,40 @@
+-- Audit chain integrity checkpoints
+-- Each row records that the chain was verified up to and including entry_id, signed with
+-- HMAC-SHA256 (see src/lib/security/auditIntegrity.ts). Verification resumes from the newest
+-- valid checkpoint and only re-hashes entries after it.
+
+CREATE TABLE IF NOT EXISTS public.audit_chain_checkpoints (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    entry_id UUID NOT NULL REFERENCES public.audit_log_entries(id),
+    entry_created_at TIMESTAMPTZ NOT NULL,
+    hash TEXT NOT NULL,
+    verified_count INTEGER NOT NULL DEFAULT 0,
+    signature TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_chain_checkpoints_entry_created_at
+    ON public.audit_chain_checkpoints (entry_created_at DESC);
+
+-- Checkpoints are append-only
+CREATE OR REPLACE FUNCTION public.prevent_audit_checkpoint_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_chain_checkpoints is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_chain_checkpoints_append_only ON public.audit_chain_checkpoints;
+CREATE TRIGGER audit_chain_checkpoints_append_only
+    BEFORE UPDATE OR DELETE ON public.audit_chain_checkpoints
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_checkpoint_mutation();
+
+ALTER TABLE public.audit_chain_checkpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read audit checkpoints" ON public.audit_chain_checkpoints
+    FOR SELECT USING (
+        (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin'
+    );
+
+-- Tamper alerts are raised by the integrity service rather than by a rule
+ALTER TABLE public.security_alerts ALTER COLUMN rule_id DROP NOT NULL;
@@ -0,0 +1,23 @@
+-- AI Brain PII redaction
+-- Prompts and ai_brain_logs only ever hold tokens such as [PHONE_1]. The values behind the tokens
+-- are stored AES-256-GCM encrypted per interaction (see src/lib/services/pii-vault.ts) and revealed
+-- only through /api/admin/ai-brain/logs/reveal, which is audited.
+
+ALTER TABLE IF EXISTS public.ai_brain_logs
+    ADD COLUMN IF NOT EXISTS interaction_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_ai_brain_logs_interaction_id
+    ON public.ai_brain_logs (interaction_id);
+
+CREATE TABLE IF NOT EXISTS public.ai_pii_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    interaction_id UUID NOT NULL,
+    token TEXT NOT NULL,
+    category TEXT NOT NULL CHECK (category IN ('phone', 'address', 'email', 'name')),
+    encrypted_value TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (interaction_id, token)
+);
+
+-- No policies: only the service role can read or write the vault
+ALTER TABLE public.ai_pii_tokens ENABLE ROW LEVEL SECURITY;
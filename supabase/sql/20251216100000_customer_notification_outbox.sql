@@ -0,0 +1,104 @@
+-- Customer notification outbox
+-- customer_notification_queue becomes a durable outbox drained by /api/internal/notifications/outbox
+-- (see src/lib/notifications/notification-outbox.ts). Workers claim due rows under a lease,
+-- retry failures with exponential backoff and dead-letter them after the maximum attempts.
+
+CREATE TABLE IF NOT EXISTS public.customer_notification_queue (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ticket_id UUID,
+    customer_id UUID NOT NULL,
+    event_type TEXT NOT NULL,
+    message TEXT NOT NULL,
+    channel TEXT NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 1,
+    status TEXT NOT NULL DEFAULT 'pending',
+    retry_count INTEGER NOT NULL DEFAULT 0,
+    sentiment TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.customer_notification_queue
+    ADD COLUMN IF NOT EXISTS idempotency_key TEXT,
+    ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    ADD COLUMN IF NOT EXISTS locked_by TEXT,
+    ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS last_error TEXT,
+    ADD COLUMN IF NOT EXISTS provider_message_id TEXT,
+    ADD COLUMN IF NOT EXISTS sent_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- Existing rows get a key of their own so the unique index can be built
+UPDATE public.customer_notification_queue
+SET idempotency_key = 'legacy:' || id::text
+WHERE idempotency_key IS NULL;
+
+ALTER TABLE public.customer_notification_queue
+    ALTER COLUMN idempotency_key SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_notification_queue_idempotency_key
+    ON public.customer_notification_queue (idempotency_key);
+
+CREATE INDEX IF NOT EXISTS idx_customer_notification_queue_due
+    ON public.customer_notification_queue (status, next_attempt_at)
+    WHERE status IN ('pending', 'processing');
+
+ALTER TABLE public.customer_notification_queue
+    DROP CONSTRAINT IF EXISTS customer_notification_queue_status_check;
+
+ALTER TABLE public.customer_notification_queue
+    ADD CONSTRAINT customer_notification_queue_status_check
+    CHECK (status IN ('pending', 'processing', 'sent', 'failed', 'dead_letter'));
+
+-- Claim a batch of due notifications for one worker.
+-- A row is due when it is pending and its backoff has elapsed, or when the worker holding it
+-- let its lease expire (crashed or timed out). Rows locked by a concurrent claim are skipped.
+CREATE OR REPLACE FUNCTION public.claim_customer_notifications(
+    p_worker_id TEXT,
+    p_batch_size INTEGER DEFAULT 50,
+    p_lease_seconds INTEGER DEFAULT 120,
+    p_max_attempts INTEGER DEFAULT 5
+)
+RETURNS SETOF public.customer_notification_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- A lease that expired on the final attempt is not retried again
+    UPDATE public.customer_notification_queue
+    SET status = 'dead_letter',
+        dead_lettered_at = NOW(),
+        last_error = COALESCE(last_error, 'Lease expired on final attempt'),
+        locked_by = NULL,
+        lease_expires_at = NULL,
+        updated_at = NOW()
+    WHERE status = 'processing'
+      AND lease_expires_at < NOW()
+      AND attempt_count >= p_max_attempts;
+
+    RETURN QUERY
+    WITH due AS (
+        SELECT id
+        FROM public.customer_notification_queue
+        WHERE (status = 'pending' AND next_attempt_at <= NOW())
+           OR (status = 'processing' AND lease_expires_at < NOW())
+        ORDER BY priority DESC, next_attempt_at ASC
+        LIMIT p_batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    UPDATE public.customer_notification_queue q
+    SET status = 'processing',
+        locked_by = p_worker_id,
+        lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+        attempt_count = q.attempt_count + 1,
+        updated_at = NOW()
+    FROM due
+    WHERE q.id = due.id
+    RETURNING q.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_customer_notifications(TEXT, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_customer_notifications(TEXT, INTEGER, INTEGER, INTEGER) TO service_role;
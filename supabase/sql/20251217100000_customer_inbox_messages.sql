@@ -0,0 +1,31 @@
+-- In-app inbox channel
+-- Written by the notification outbox (src/lib/notifications/channels/in-app-inbox.ts); the
+-- idempotency key makes a redelivered notification a no-op.
+
+CREATE TABLE IF NOT EXISTS public.customer_inbox_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    customer_id UUID NOT NULL,
+    ticket_id UUID,
+    event_type TEXT NOT NULL,
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    idempotency_key TEXT NOT NULL UNIQUE,
+    read_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_inbox_messages_customer
+    ON public.customer_inbox_messages (customer_id, created_at DESC);
+
+-- Only the service role writes messages; customers read and mark their own as read
+ALTER TABLE public.customer_inbox_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can read their inbox" ON public.customer_inbox_messages
+    FOR SELECT USING (
+        customer_id IN (SELECT customer_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Customers can mark their inbox read" ON public.customer_inbox_messages
+    FOR UPDATE USING (
+        customer_id IN (SELECT customer_id FROM public.profiles WHERE user_id = auth.uid())
+    );
@@ -0,0 +1,76 @@
+-- Customer notification preferences and consent ledger
+-- Preferences are applied by the notification outbox at delivery time (see
+-- src/lib/notifications/preferences.ts): opted-out channels are suppressed and messages in the
+-- customer's quiet hours are deferred until they end. Every consent change is appended to
+-- customer_consent_events for compliance.
+
+CREATE TABLE IF NOT EXISTS public.customer_notification_preferences (
+    customer_id UUID PRIMARY KEY REFERENCES public.customers(id) ON DELETE CASCADE,
+    language TEXT NOT NULL DEFAULT 'en' CHECK (language IN ('en', 'hi', 'te')),
+    timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+    quiet_hours_start TIME,
+    quiet_hours_end TIME,
+    -- Event type (or '*' for all) -> channels the customer switched off
+    channel_opt_outs JSONB NOT NULL DEFAULT '{}'::jsonb,
+    whatsapp_consent_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT customer_notification_preferences_quiet_hours_check
+        CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+ALTER TABLE public.customer_notification_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through /api/customer/notification-preferences so the ledger stays complete
+CREATE POLICY "Customers can read their notification preferences" ON public.customer_notification_preferences
+    FOR SELECT USING (
+        customer_id IN (SELECT customer_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE TABLE IF NOT EXISTS public.customer_consent_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+    channel TEXT NOT NULL,
+    event_type TEXT NOT NULL DEFAULT '*',
+    action TEXT NOT NULL CHECK (action IN ('granted', 'revoked')),
+    source TEXT NOT NULL,
+    actor_user_id UUID,
+    ip_address TEXT,
+    user_agent TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_consent_events_customer
+    ON public.customer_consent_events (customer_id, created_at DESC);
+
+-- The ledger is append-only
+CREATE OR REPLACE FUNCTION public.prevent_consent_event_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'customer_consent_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS customer_consent_events_append_only ON public.customer_consent_events;
+CREATE TRIGGER customer_consent_events_append_only
+    BEFORE UPDATE OR DELETE ON public.customer_consent_events
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_consent_event_mutation();
+
+ALTER TABLE public.customer_consent_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can read their consent history" ON public.customer_consent_events
+    FOR SELECT USING (
+        customer_id IN (SELECT customer_id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY "Admins can read the consent ledger" ON public.customer_consent_events
+    FOR SELECT USING (
+        (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin'
+    );
+
+-- Notifications the customer opted out of are kept, marked suppressed
+ALTER TABLE public.customer_notification_queue
+    DROP CONSTRAINT IF EXISTS customer_notification_queue_status_check;
+
+ALTER TABLE public.customer_notification_queue
+    ADD CONSTRAINT customer_notification_queue_status_check
+    CHECK (status IN ('pending', 'processing', 'sent', 'suppressed', 'failed', 'dead_letter'));
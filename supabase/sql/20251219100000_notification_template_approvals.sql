@@ -0,0 +1,42 @@
+-- Notification template approvals
+-- Template content is versioned in code (src/lib/notifications/templates); this table tracks the
+-- WhatsApp Business review state of each version in each locale. WhatsApp sends only use
+-- approved rows. A version with no row is a draft.
+
+CREATE TABLE IF NOT EXISTS public.notification_template_approvals (
+    template_key TEXT NOT NULL,
+    version INTEGER NOT NULL CHECK (version > 0),
+    locale TEXT NOT NULL CHECK (locale IN ('en', 'hi', 'te')),
+    status TEXT NOT NULL DEFAULT 'draft'
+        CHECK (status IN ('draft', 'pending', 'approved', 'rejected', 'paused', 'disabled')),
+    -- Template name registered with the WhatsApp provider
+    provider_template_name TEXT,
+    rejection_reason TEXT,
+    updated_by UUID DEFAULT auth.uid(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (template_key, version, locale)
+);
+
+ALTER TABLE public.notification_template_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read template approvals" ON public.notification_template_approvals
+    FOR SELECT USING (
+        (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin'
+    );
+
+CREATE POLICY "Admins can record template approvals" ON public.notification_template_approvals
+    FOR INSERT WITH CHECK (
+        (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin'
+    );
+
+CREATE POLICY "Admins can update template approvals" ON public.notification_template_approvals
+    FOR UPDATE USING (
+        (SELECT role FROM public.profiles WHERE id = auth.uid()) = 'admin'
+    );
+
+-- Queued notifications may name a registry template and its values. The outbox worker then picks
+-- the version and locale to send with the approvals above, and holds back WhatsApp messages that
+-- have no approved version.
+ALTER TABLE public.customer_notification_queue
+    ADD COLUMN IF NOT EXISTS template_key TEXT,
+    ADD COLUMN IF NOT EXISTS template_values JSONB;
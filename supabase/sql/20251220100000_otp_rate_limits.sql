@@ -0,0 +1,264 @@
+-- OTP rate limiting state
+-- Token buckets and cooldown/lockout state for src/lib/auth-system/otpRateLimiter.ts, keyed by
+-- '<scope>:<dimension>:<value>' (e.g. 'otp_request:phone:+919876543210'). Only the service role
+-- reads or writes these tables.
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+    key TEXT PRIMARY KEY,
+    tokens DOUBLE PRECISION NOT NULL,
+    refilled_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_penalties (
+    key TEXT PRIMARY KEY,
+    failures INTEGER NOT NULL DEFAULT 0,
+    failure_window_started_at TIMESTAMPTZ,
+    strikes INTEGER NOT NULL DEFAULT 0,
+    last_strike_at TIMESTAMPTZ,
+    locked_until TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rate_limit_penalties ENABLE ROW LEVEL SECURITY;
+
+-- Refill a bucket for the time since it was last touched and take one token. The row lock and the
+-- database clock keep concurrent app instances from spending the same token.
+CREATE OR REPLACE FUNCTION public.take_rate_limit_token(
+    p_key TEXT,
+    p_capacity INTEGER,
+    p_refill_interval_ms INTEGER
+)
+RETURNS TABLE (allowed BOOLEAN, tokens DOUBLE PRECISION, retry_after_ms INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_now TIMESTAMPTZ := clock_timestamp();
+    v_tokens DOUBLE PRECISION;
+    v_refilled_at TIMESTAMPTZ;
+BEGIN
+    INSERT INTO public.rate_limit_buckets (key, tokens, refilled_at)
+    VALUES (p_key, p_capacity, v_now)
+    ON CONFLICT (key) DO NOTHING;
+
+    SELECT b.tokens, b.refilled_at INTO v_tokens, v_refilled_at
+    FROM public.rate_limit_buckets b
+    WHERE b.key = p_key
+    FOR UPDATE;
+
+    v_tokens := LEAST(
+        p_capacity,
+        v_tokens + GREATEST(0, EXTRACT(EPOCH FROM (v_now - v_refilled_at)) * 1000) / p_refill_interval_ms
+    );
+
+    IF v_tokens >= 1 THEN
+        v_tokens := v_tokens - 1;
+        allowed := TRUE;
+        retry_after_ms := 0;
+    ELSE
+        allowed := FALSE;
+        retry_after_ms := CEIL((1 - v_tokens) * p_refill_interval_ms);
+    END IF;
+
+    UPDATE public.rate_limit_buckets
+    SET tokens = v_tokens, refilled_at = v_now
+    WHERE key = p_key;
+
+    tokens := v_tokens;
+    RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.take_rate_limit_token(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Next step of an escalation ladder: strikes within p_decay_ms of the last one climb the ladder,
+-- and the cooldown lasts at least p_minimum_ms. Mirrors applyStrike in rateLimitBackend.ts.
+CREATE OR REPLACE FUNCTION public.apply_rate_limit_strike(
+    p_penalty public.rate_limit_penalties,
+    p_durations_ms INTEGER[],
+    p_decay_ms INTEGER,
+    p_minimum_ms INTEGER,
+    p_now TIMESTAMPTZ
+)
+RETURNS public.rate_limit_penalties
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    v_penalty public.rate_limit_penalties := p_penalty;
+BEGIN
+    IF v_penalty.last_strike_at IS NOT NULL
+        AND p_now - v_penalty.last_strike_at < p_decay_ms * INTERVAL '1 millisecond' THEN
+        v_penalty.strikes := v_penalty.strikes + 1;
+    ELSE
+        v_penalty.strikes := 1;
+    END IF;
+
+    v_penalty.last_strike_at := p_now;
+    v_penalty.locked_until := p_now + GREATEST(
+        p_minimum_ms,
+        p_durations_ms[LEAST(v_penalty.strikes, array_length(p_durations_ms, 1))]
+    ) * INTERVAL '1 millisecond';
+    v_penalty.updated_at := p_now;
+    RETURN v_penalty;
+END;
+$$;
+
+-- Lock a key's penalty row, creating it if needed
+CREATE OR REPLACE FUNCTION public.lock_rate_limit_penalty(p_key TEXT)
+RETURNS public.rate_limit_penalties
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_penalty public.rate_limit_penalties;
+BEGIN
+    INSERT INTO public.rate_limit_penalties (key)
+    VALUES (p_key)
+    ON CONFLICT (key) DO NOTHING;
+
+    SELECT * INTO v_penalty
+    FROM public.rate_limit_penalties
+    WHERE key = p_key
+    FOR UPDATE;
+
+    RETURN v_penalty;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.save_rate_limit_penalty(p_penalty public.rate_limit_penalties)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.rate_limit_penalties
+    SET failures = p_penalty.failures,
+        failure_window_started_at = p_penalty.failure_window_started_at,
+        strikes = p_penalty.strikes,
+        last_strike_at = p_penalty.last_strike_at,
+        locked_until = p_penalty.locked_until,
+        updated_at = p_penalty.updated_at
+    WHERE key = p_penalty.key;
+END;
+$$;
+
+-- Put a key into its next cooldown. The row lock keeps two instances that hit the limit at the
+-- same time from both reading the same strike count.
+CREATE OR REPLACE FUNCTION public.strike_rate_limit_key(
+    p_key TEXT,
+    p_durations_ms INTEGER[],
+    p_decay_ms INTEGER,
+    p_minimum_ms INTEGER DEFAULT 0
+)
+RETURNS public.rate_limit_penalties
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_penalty public.rate_limit_penalties;
+BEGIN
+    v_penalty := public.apply_rate_limit_strike(
+        public.lock_rate_limit_penalty(p_key), p_durations_ms, p_decay_ms, p_minimum_ms, clock_timestamp()
+    );
+    PERFORM public.save_rate_limit_penalty(v_penalty);
+    RETURN v_penalty;
+END;
+$$;
+
+-- Count one failure for a key; the p_max_failures-th failure within the window resets the count
+-- and applies the next lockout. Mirrors applyFailure in rateLimitBackend.ts.
+CREATE OR REPLACE FUNCTION public.record_rate_limit_failure(
+    p_key TEXT,
+    p_max_failures INTEGER,
+    p_window_ms INTEGER,
+    p_durations_ms INTEGER[],
+    p_decay_ms INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_now TIMESTAMPTZ := clock_timestamp();
+    v_penalty public.rate_limit_penalties;
+    v_struck BOOLEAN := FALSE;
+BEGIN
+    v_penalty := public.lock_rate_limit_penalty(p_key);
+
+    IF v_penalty.failure_window_started_at IS NOT NULL
+        AND v_now - v_penalty.failure_window_started_at < p_window_ms * INTERVAL '1 millisecond' THEN
+        v_penalty.failures := v_penalty.failures + 1;
+    ELSE
+        v_penalty.failures := 1;
+        v_penalty.failure_window_started_at := v_now;
+    END IF;
+    v_penalty.updated_at := v_now;
+
+    IF v_penalty.failures >= p_max_failures THEN
+        v_penalty.failures := 0;
+        v_penalty.failure_window_started_at := NULL;
+        v_penalty := public.apply_rate_limit_strike(v_penalty, p_durations_ms, p_decay_ms, 0, v_now);
+        v_struck := TRUE;
+    END IF;
+
+    PERFORM public.save_rate_limit_penalty(v_penalty);
+    RETURN to_jsonb(v_penalty) || jsonb_build_object('struck', v_struck);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_rate_limit_strike(public.rate_limit_penalties, INTEGER[], INTEGER, INTEGER, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.lock_rate_limit_penalty(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.save_rate_limit_penalty(public.rate_limit_penalties) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.strike_rate_limit_key(TEXT, INTEGER[], INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_rate_limit_failure(TEXT, INTEGER, INTEGER, INTEGER[], INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- OTP cooldowns and lockouts are logged before anyone has signed in, so they have no admin user
+ALTER TABLE public.admin_security_events ALTER COLUMN admin_user_id DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_admin_security_events_type_time
+    ON public.admin_security_events (event_type, event_timestamp DESC);
+
+-- OTP pumping: one IP pushed into request cooldowns for several phone numbers or devices
+INSERT INTO public.security_alert_rules (name, description, is_active, severity, source_type, condition, suppression_minutes)
+SELECT
+    'OTP_PUMPING_SINGLE_IP',
+    'Three or more OTP request cooldowns from the same IP within 30 minutes',
+    TRUE,
+    'high',
+    'admin_security_events',
+    '{
+        "event_type": "OTP_REQUEST_COOLDOWN",
+        "window_minutes": 30,
+        "threshold": 3,
+        "group_by": "ip_address"
+    }'::jsonb,
+    60
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.security_alert_rules WHERE name = 'OTP_PUMPING_SINGLE_IP'
+);
+
+-- Repeated verification lockouts for one phone suggest someone guessing codes
+INSERT INTO public.security_alert_rules (name, description, is_active, severity, source_type, condition, suppression_minutes)
+SELECT
+    'OTP_VERIFY_LOCKOUTS',
+    'Two or more OTP verification lockouts for the same phone within 24 hours',
+    TRUE,
+    'high',
+    'admin_security_events',
+    '{
+        "event_type": "OTP_VERIFY_LOCKOUT",
+        "window_minutes": 1440,
+        "threshold": 2,
+        "group_by": "metadata.phone_e164"
+    }'::jsonb,
+    1440
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.security_alert_rules WHERE name = 'OTP_VERIFY_LOCKOUTS'
+);
@@ -0,0 +1,377 @@
+-- Pricing quote revisions
+-- A revision is a new pricing_quotes row that supersedes an earlier one. Every revision links to
+-- the quote it replaces (revision_of) and to the first quote of the chain (root_quote_id), and
+-- carries the full list of line items. Quotes from create_pricing_quote have no line items; the
+-- app derives them from the breakdown (src/components/pricing/quotes/revisions.ts).
+--
+-- Line item: {"code": "labor", "label": "Labor", "kind": "labor", "amount": 450, "optional": false}
+-- Customers may decline optional items before accepting; total_amount always reflects the
+-- remaining items.
+
+ALTER TABLE public.pricing_quotes
+    ADD COLUMN IF NOT EXISTS root_quote_id UUID REFERENCES public.pricing_quotes(id),
+    ADD COLUMN IF NOT EXISTS revision_of UUID REFERENCES public.pricing_quotes(id),
+    ADD COLUMN IF NOT EXISTS revision_number INTEGER NOT NULL DEFAULT 1,
+    ADD COLUMN IF NOT EXISTS superseded_by UUID REFERENCES public.pricing_quotes(id),
+    ADD COLUMN IF NOT EXISTS revision_reason TEXT,
+    ADD COLUMN IF NOT EXISTS line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+    ADD COLUMN IF NOT EXISTS declined_line_items TEXT[] NOT NULL DEFAULT '{}';
+
+-- One revision per number in a chain, and no forks: a quote is revised at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pricing_quotes_revision_number
+    ON public.pricing_quotes (COALESCE(root_quote_id, id), revision_number);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pricing_quotes_revision_of
+    ON public.pricing_quotes (revision_of) WHERE revision_of IS NOT NULL;
+
+-- Staff who may see or revise a quote: admins everywhere, managers in their city, and the
+-- technician assigned to the quote's ticket
+CREATE OR REPLACE FUNCTION public.can_revise_pricing_quote(p_quote public.pricing_quotes)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_role TEXT := auth.jwt() -> 'app_metadata' ->> 'app_role';
+    v_city TEXT := auth.jwt() -> 'app_metadata' ->> 'city_id';
+BEGIN
+    IF v_role IN ('admin', 'super_admin') THEN
+        RETURN TRUE;
+    ELSIF v_role = 'manager' THEN
+        RETURN v_city IS NOT NULL AND v_city = p_quote.city_id::TEXT;
+    ELSIF v_role = 'technician' THEN
+        RETURN p_quote.ticket_id IS NOT NULL AND EXISTS (
+            SELECT 1 FROM public.tickets t
+            WHERE t.id = p_quote.ticket_id AND t.assigned_technician_id = auth.uid()
+        );
+    END IF;
+    RETURN FALSE;
+END;
+$$;
+
+-- Raises invalid_line_items unless every item is well formed and codes are unique
+CREATE OR REPLACE FUNCTION public.validate_pricing_quote_line_items(p_line_items JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+    IF jsonb_typeof(p_line_items) <> 'array' OR jsonb_array_length(p_line_items) = 0 THEN
+        RAISE EXCEPTION 'invalid_line_items: at least one line item is required';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_line_items) item
+        WHERE COALESCE(item ->> 'code', '') = ''
+           OR COALESCE(TRIM(item ->> 'label'), '') = ''
+           OR COALESCE(item ->> 'kind', '') NOT IN ('labor', 'parts', 'transport', 'diagnostic', 'surcharge', 'discount', 'tax', 'adjustment')
+           OR jsonb_typeof(item -> 'amount') <> 'number'
+           OR jsonb_typeof(item -> 'optional') <> 'boolean'
+    ) THEN
+        RAISE EXCEPTION 'invalid_line_items: each item needs a code, label, kind, amount and optional flag';
+    END IF;
+
+    IF (SELECT COUNT(DISTINCT item ->> 'code') FROM jsonb_array_elements(p_line_items) item) <> jsonb_array_length(p_line_items) THEN
+        RAISE EXCEPTION 'invalid_line_items: duplicate line item code';
+    END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.pricing_quote_line_items_total(p_line_items JSONB, p_declined TEXT[])
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT COALESCE(ROUND(SUM((item ->> 'amount')::NUMERIC), 2), 0)
+    FROM jsonb_array_elements(p_line_items) item
+    WHERE NOT ((item ->> 'optional')::BOOLEAN AND (item ->> 'code') = ANY(p_declined));
+$$;
+
+-- Create the next revision of a quote. The base quote must be the latest in its chain and still
+-- pending or accepted; a pending base expires so only the revision can be accepted.
+CREATE OR REPLACE FUNCTION public.create_pricing_quote_revision(
+    p_quote_id UUID,
+    p_line_items JSONB,
+    p_reason TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_base public.pricing_quotes%ROWTYPE;
+    v_new public.pricing_quotes%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'unauthorized';
+    END IF;
+
+    SELECT * INTO v_base FROM public.pricing_quotes WHERE id = p_quote_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'quote_not_found';
+    END IF;
+
+    IF NOT public.can_revise_pricing_quote(v_base) THEN
+        RAISE EXCEPTION 'forbidden';
+    END IF;
+
+    IF v_base.superseded_by IS NOT NULL THEN
+        RAISE EXCEPTION 'quote_superseded: revise the latest revision instead';
+    END IF;
+
+    IF v_base.status NOT IN ('pending', 'accepted') THEN
+        RAISE EXCEPTION 'invalid_status: only pending or accepted quotes can be revised';
+    END IF;
+
+    IF COALESCE(TRIM(p_reason), '') = '' THEN
+        RAISE EXCEPTION 'invalid_line_items: a reason is required';
+    END IF;
+
+    PERFORM public.validate_pricing_quote_line_items(p_line_items);
+
+    v_new := v_base;
+    v_new.id := gen_random_uuid();
+    v_new.root_quote_id := COALESCE(v_base.root_quote_id, v_base.id);
+    v_new.revision_of := v_base.id;
+    v_new.revision_number := v_base.revision_number + 1;
+    v_new.quote_key := v_base.quote_key || ':r' || (v_base.revision_number + 1);
+    v_new.superseded_by := NULL;
+    v_new.revision_reason := TRIM(p_reason);
+    v_new.line_items := p_line_items;
+    v_new.declined_line_items := '{}';
+    v_new.total_amount := public.pricing_quote_line_items_total(p_line_items, '{}');
+    v_new.status := 'pending';
+    v_new.expires_at := NOW() + GREATEST(v_base.expires_at - v_base.created_at, INTERVAL '1 day');
+    v_new.accepted_at := NULL;
+    v_new.accepted_by := NULL;
+    v_new.created_at := NOW();
+    v_new.created_by := auth.uid();
+
+    IF v_new.total_amount < 0 THEN
+        RAISE EXCEPTION 'invalid_line_items: total cannot be negative';
+    END IF;
+
+    INSERT INTO public.pricing_quotes SELECT (v_new).*;
+
+    UPDATE public.pricing_quotes
+    SET superseded_by = v_new.id,
+        status = CASE WHEN status = 'pending' THEN 'expired' ELSE status END
+    WHERE id = v_base.id;
+
+    INSERT INTO public.pricing_audit_log (
+        event_type, city_id, quote_id, actor_id, actor_role, payload, explanation
+    ) VALUES (
+        'QUOTE_REVISION_CREATED',
+        v_new.city_id,
+        v_new.id,
+        auth.uid(),
+        auth.jwt() -> 'app_metadata' ->> 'app_role',
+        jsonb_build_object(
+            'root_quote_id', v_new.root_quote_id,
+            'revision_of', v_base.id,
+            'revision_number', v_new.revision_number,
+            'previous_total', v_base.total_amount,
+            'total_amount', v_new.total_amount,
+            'line_items', p_line_items
+        ),
+        v_new.revision_reason
+    );
+
+    RETURN jsonb_build_object(
+        'quote_id', v_new.id,
+        'root_quote_id', v_new.root_quote_id,
+        'revision_number', v_new.revision_number,
+        'total_amount', v_new.total_amount,
+        'expires_at', v_new.expires_at
+    );
+END;
+$$;
+
+-- Every revision in the quote's chain, oldest first. Open to staff who can revise the quote and to
+-- the customer it was issued to.
+CREATE OR REPLACE FUNCTION public.get_pricing_quote_revisions(p_quote_id UUID)
+RETURNS SETOF public.pricing_quotes
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_quote public.pricing_quotes%ROWTYPE;
+BEGIN
+    SELECT * INTO v_quote FROM public.pricing_quotes WHERE id = p_quote_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'quote_not_found';
+    END IF;
+
+    IF NOT public.can_revise_pricing_quote(v_quote)
+       AND (v_quote.customer_id IS NULL OR v_quote.customer_id NOT IN (
+           SELECT customer_id FROM public.profiles WHERE user_id = auth.uid()
+       )) THEN
+        RAISE EXCEPTION 'forbidden';
+    END IF;
+
+    RETURN QUERY
+    SELECT * FROM public.pricing_quotes q
+    WHERE q.id = COALESCE(v_quote.root_quote_id, v_quote.id)
+       OR q.root_quote_id = COALESCE(v_quote.root_quote_id, v_quote.id)
+    ORDER BY q.revision_number;
+END;
+$$;
+
+-- Replace the set of optional line items declined on a pending revision and recompute its total.
+-- Callers authorise first: decline_pricing_quote_line_items for staff and linked customers,
+-- decline_shared_pricing_quote_line_items for customers on a share link.
+CREATE OR REPLACE FUNCTION public.apply_pricing_quote_line_item_declines(
+    p_quote_id UUID,
+    p_line_item_codes TEXT[],
+    p_actor_id UUID,
+    p_actor_role TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_quote public.pricing_quotes%ROWTYPE;
+    v_codes TEXT[] := COALESCE(p_line_item_codes, '{}');
+    v_total NUMERIC;
+BEGIN
+    SELECT * INTO v_quote FROM public.pricing_quotes WHERE id = p_quote_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'quote_not_found';
+    END IF;
+
+    IF v_quote.superseded_by IS NOT NULL THEN
+        RAISE EXCEPTION 'quote_superseded';
+    END IF;
+
+    IF v_quote.status <> 'pending' THEN
+        RAISE EXCEPTION 'invalid_status';
+    END IF;
+
+    IF v_quote.expires_at < NOW() THEN
+        RAISE EXCEPTION 'quote_expired';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM unnest(v_codes) code
+        WHERE NOT EXISTS (
+            SELECT 1 FROM jsonb_array_elements(v_quote.line_items) item
+            WHERE item ->> 'code' = code AND (item ->> 'optional')::BOOLEAN
+        )
+    ) THEN
+        RAISE EXCEPTION 'invalid_line_items: only optional line items can be declined';
+    END IF;
+
+    -- Nothing to record when the selection is unchanged
+    IF v_codes @> v_quote.declined_line_items AND v_quote.declined_line_items @> v_codes THEN
+        RETURN jsonb_build_object('quote_id', v_quote.id, 'declined_line_items', v_quote.declined_line_items, 'total_amount', v_quote.total_amount);
+    END IF;
+
+    v_total := public.pricing_quote_line_items_total(v_quote.line_items, v_codes);
+
+    UPDATE public.pricing_quotes
+    SET declined_line_items = v_codes,
+        total_amount = v_total
+    WHERE id = v_quote.id;
+
+    INSERT INTO public.pricing_audit_log (
+        event_type, city_id, quote_id, actor_id, actor_role, payload, explanation
+    ) VALUES (
+        'QUOTE_LINE_ITEMS_DECLINED',
+        v_quote.city_id,
+        v_quote.id,
+        p_actor_id,
+        p_actor_role,
+        jsonb_build_object(
+            'root_quote_id', COALESCE(v_quote.root_quote_id, v_quote.id),
+            'declined_line_items', v_codes,
+            'previous_declined_line_items', v_quote.declined_line_items,
+            'previous_total', v_quote.total_amount,
+            'total_amount', v_total
+        ),
+        'Customer changed declined optional items'
+    );
+
+    RETURN jsonb_build_object('quote_id', v_quote.id, 'declined_line_items', v_codes, 'total_amount', v_total);
+END;
+$$;
+
+-- Declined items for staff who can revise the quote and for the customer linked to it. An empty
+-- array takes all optional items back.
+CREATE OR REPLACE FUNCTION public.decline_pricing_quote_line_items(
+    p_quote_id UUID,
+    p_line_item_codes TEXT[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_quote public.pricing_quotes%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'unauthorized';
+    END IF;
+
+    SELECT * INTO v_quote FROM public.pricing_quotes WHERE id = p_quote_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'quote_not_found';
+    END IF;
+
+    IF NOT public.can_revise_pricing_quote(v_quote)
+       AND (v_quote.customer_id IS NULL OR v_quote.customer_id NOT IN (
+           SELECT customer_id FROM public.profiles WHERE user_id = auth.uid()
+       )) THEN
+        RAISE EXCEPTION 'forbidden';
+    END IF;
+
+    RETURN public.apply_pricing_quote_line_item_declines(
+        p_quote_id,
+        p_line_item_codes,
+        auth.uid(),
+        COALESCE(auth.jwt() -> 'app_metadata' ->> 'app_role', 'customer')
+    );
+END;
+$$;
+
+-- Declined items for a customer on a share link, who may have no profile linked to the quote.
+-- Called by the accept API with the service role once it has redeemed the share token for
+-- p_shared_quote_id; the quote being declined on must be a revision in the same chain.
+CREATE OR REPLACE FUNCTION public.decline_shared_pricing_quote_line_items(
+    p_shared_quote_id UUID,
+    p_quote_id UUID,
+    p_line_item_codes TEXT[],
+    p_actor_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM public.pricing_quotes shared
+        JOIN public.pricing_quotes q
+          ON COALESCE(q.root_quote_id, q.id) = COALESCE(shared.root_quote_id, shared.id)
+        WHERE shared.id = p_shared_quote_id AND q.id = p_quote_id
+    ) THEN
+        RAISE EXCEPTION 'forbidden';
+    END IF;
+
+    RETURN public.apply_pricing_quote_line_item_declines(p_quote_id, p_line_item_codes, p_actor_id, 'customer');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.can_revise_pricing_quote(public.pricing_quotes) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.apply_pricing_quote_line_item_declines(UUID, TEXT[], UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.decline_shared_pricing_quote_line_items(UUID, UUID, TEXT[], UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_pricing_quote_revision(UUID, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_pricing_quote_revisions(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.decline_pricing_quote_line_items(UUID, TEXT[]) TO authenticated;
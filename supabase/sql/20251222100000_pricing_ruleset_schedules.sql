@@ -0,0 +1,496 @@
+-- Scheduled ruleset activations and temporary pricing overrides
+-- 'activation' schedules switch the active ruleset at starts_at and, when they have an ends_at, switch
+-- back to the ruleset that was active before. 'override' schedules stack a partial rules patch on top
+-- of the active ruleset for one city (and optionally one service) during their window, e.g. a Diwali
+-- surge for Mobile in Hyderabad. process_pricing_ruleset_schedules() applies due changes and is run
+-- by the /api/internal/pricing/schedules worker.
+--
+-- After an activation or override starts, its health is the guardrail breach rate and acceptance rate
+-- of the quotes priced under it. When either crosses the schedule's threshold, managers can roll it
+-- back in one click; admins can always roll back.
+
+CREATE TABLE IF NOT EXISTS public.pricing_ruleset_schedules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    kind TEXT NOT NULL CHECK (kind IN ('activation', 'override')),
+    ruleset_id UUID REFERENCES public.pricing_rulesets(id),
+    city_id UUID,
+    service_code TEXT,
+    rules_patch JSONB,
+    priority INTEGER NOT NULL DEFAULT 0,
+    starts_at TIMESTAMPTZ NOT NULL,
+    ends_at TIMESTAMPTZ,
+    status TEXT NOT NULL DEFAULT 'scheduled'
+        CHECK (status IN ('scheduled', 'active', 'completed', 'cancelled', 'rolled_back')),
+    previous_ruleset_id UUID REFERENCES public.pricing_rulesets(id),
+    max_guardrail_breach_pct NUMERIC CHECK (max_guardrail_breach_pct BETWEEN 0 AND 100),
+    min_acceptance_pct NUMERIC CHECK (min_acceptance_pct BETWEEN 0 AND 100),
+    min_health_sample INTEGER NOT NULL DEFAULT 20,
+    reason TEXT NOT NULL,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    activated_at TIMESTAMPTZ,
+    ended_at TIMESTAMPTZ,
+    ended_by UUID REFERENCES auth.users(id),
+    end_reason TEXT,
+    CHECK (ends_at IS NULL OR ends_at > starts_at),
+    CHECK (kind <> 'activation' OR ruleset_id IS NOT NULL),
+    CHECK (kind <> 'override' OR (city_id IS NOT NULL AND rules_patch IS NOT NULL AND ends_at IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_ruleset_schedules_due
+    ON public.pricing_ruleset_schedules (status, starts_at);
+CREATE INDEX IF NOT EXISTS idx_pricing_ruleset_schedules_city
+    ON public.pricing_ruleset_schedules (city_id, service_code, status);
+
+ALTER TABLE public.pricing_ruleset_schedules ENABLE ROW LEVEL SECURITY;
+
+-- Admins see everything; managers see global activations and their own city's overrides
+CREATE POLICY pricing_ruleset_schedules_select ON public.pricing_ruleset_schedules
+    FOR SELECT USING (
+        (auth.jwt() -> 'app_metadata' ->> 'app_role') IN ('admin', 'super_admin')
+        OR (
+            (auth.jwt() -> 'app_metadata' ->> 'app_role') = 'manager'
+            AND (city_id IS NULL OR city_id::TEXT = auth.jwt() -> 'app_metadata' ->> 'city_id')
+        )
+    );
+
+-- Switch the active ruleset. Used by the scheduler and rollbacks, which run without a user session.
+CREATE OR REPLACE FUNCTION public.switch_active_pricing_ruleset(p_ruleset_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_previous UUID;
+BEGIN
+    SELECT id INTO v_previous FROM public.pricing_rulesets WHERE is_active = TRUE FOR UPDATE;
+
+    IF v_previous IS DISTINCT FROM p_ruleset_id THEN
+        UPDATE public.pricing_rulesets SET is_active = FALSE WHERE is_active = TRUE;
+        UPDATE public.pricing_rulesets
+        SET is_active = TRUE, activated_at = NOW(), activated_by = auth.uid()
+        WHERE id = p_ruleset_id;
+    END IF;
+
+    RETURN v_previous;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.switch_active_pricing_ruleset(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Schedule a ruleset to become active at p_starts_at, optionally reverting at p_ends_at.
+-- Admin only, like activate_pricing_ruleset. Activation windows may not overlap.
+CREATE OR REPLACE FUNCTION public.schedule_pricing_ruleset_activation(
+    p_ruleset_id UUID,
+    p_starts_at TIMESTAMPTZ,
+    p_ends_at TIMESTAMPTZ,
+    p_reason TEXT,
+    p_max_guardrail_breach_pct NUMERIC DEFAULT NULL,
+    p_min_acceptance_pct NUMERIC DEFAULT NULL
+)
+RETURNS public.pricing_ruleset_schedules
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_role TEXT := auth.jwt() -> 'app_metadata' ->> 'app_role';
+    v_schedule public.pricing_ruleset_schedules%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'unauthorized';
+    END IF;
+    IF v_role NOT IN ('admin', 'super_admin') THEN
+        RAISE EXCEPTION 'forbidden';
+    END IF;
+    IF LENGTH(COALESCE(TRIM(p_reason), '')) < 6 THEN
+        RAISE EXCEPTION 'reason_too_short';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM public.pricing_rulesets WHERE id = p_ruleset_id) THEN
+        RAISE EXCEPTION 'ruleset_not_found';
+    END IF;
+    IF p_starts_at < NOW() - INTERVAL '5 minutes' OR (p_ends_at IS NOT NULL AND p_ends_at <= p_starts_at) THEN
+        RAISE EXCEPTION 'invalid_window';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.pricing_ruleset_schedules s
+        WHERE s.kind = 'activation'
+          AND s.status IN ('scheduled', 'active')
+          AND tstzrange(s.starts_at, s.ends_at) && tstzrange(p_starts_at, p_ends_at)
+    ) THEN
+        RAISE EXCEPTION 'schedule_overlap';
+    END IF;
+
+    INSERT INTO public.pricing_ruleset_schedules (
+        kind, ruleset_id, starts_at, ends_at, reason, created_by,
+        max_guardrail_breach_pct, min_acceptance_pct
+    ) VALUES (
+        'activation', p_ruleset_id, p_starts_at, p_ends_at, TRIM(p_reason), auth.uid(),
+        p_max_guardrail_breach_pct, p_min_acceptance_pct
+    )
+    RETURNING * INTO v_schedule;
+
+    INSERT INTO public.pricing_audit_log (event_type, actor_id, actor_role, payload, explanation)
+    VALUES ('RULESET_ACTIVATION_SCHEDULED', auth.uid(), v_role, to_jsonb(v_schedule), v_schedule.reason);
+
+    RETURN v_schedule;
+END;
+$$;
+
+-- Schedule a temporary override for one city, optionally one service. Overrides stack: during
+-- overlapping windows, higher priority patches are applied last.
+CREATE OR REPLACE FUNCTION public.schedule_pricing_override(
+    p_city_id UUID,
+    p_service_code TEXT,
+    p_rules_patch JSONB,
+    p_starts_at TIMESTAMPTZ,
+    p_ends_at TIMESTAMPTZ,
+    p_priority INTEGER,
+    p_reason TEXT,
+    p_max_guardrail_breach_pct NUMERIC DEFAULT NULL,
+    p_min_acceptance_pct NUMERIC DEFAULT NULL
+)
+RETURNS public.pricing_ruleset_schedules
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_role TEXT := auth.jwt() -> 'app_metadata' ->> 'app_role';
+    v_city TEXT := auth.jwt() -> 'app_metadata' ->> 'city_id';
+    v_schedule public.pricing_ruleset_schedules%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'unauthorized';
+    END IF;
+    IF NOT (v_role IN ('admin', 'super_admin') OR (v_role = 'manager' AND v_city = p_city_id::TEXT)) THEN
+        RAISE EXCEPTION 'forbidden';
+    END IF;
+    IF LENGTH(COALESCE(TRIM(p_reason), '')) < 6 THEN
+        RAISE EXCEPTION 'reason_too_short';
+    END IF;
+    IF jsonb_typeof(p_rules_patch) <> 'object' OR p_rules_patch = '{}'::jsonb THEN
+        RAISE EXCEPTION 'invalid_rules_patch';
+    END IF;
+    IF p_ends_at IS NULL OR p_ends_at <= p_starts_at OR p_ends_at <= NOW() THEN
+        RAISE EXCEPTION 'invalid_window';
+    END IF;
+
+    INSERT INTO public.pricing_ruleset_schedules (
+        kind, city_id, service_code, rules_patch, priority, starts_at, ends_at, reason, created_by,
+        max_guardrail_breach_pct, min_acceptance_pct
+    ) VALUES (
+        'override', p_city_id, NULLIF(TRIM(p_service_code), ''), p_rules_patch, COALESCE(p_priority, 0),
+        p_starts_at, p_ends_at, TRIM(p_reason), auth.uid(),
+        p_max_guardrail_breach_pct, p_min_acceptance_pct
+    )
+    RETURNING * INTO v_schedule;
+
+    INSERT INTO public.pricing_audit_log (event_type, city_id, actor_id, actor_role, payload, explanation)
+    VALUES ('PRICING_OVERRIDE_SCHEDULED', p_city_id, auth.uid(), v_role, to_jsonb(v_schedule), v_schedule.reason);
+
+    RETURN v_schedule;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_pricing_schedule(p_schedule_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_role TEXT := auth.jwt() -> 'app_metadata' ->> 'app_role';
+    v_city TEXT := auth.jwt() -> 'app_metadata' ->> 'city_id';
+    v_schedule public.pricing_ruleset_schedules%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'unauthorized';
+    END IF;
+
+    SELECT * INTO v_schedule FROM public.pricing_ruleset_schedules WHERE id = p_schedule_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'schedule_not_found';
+    END IF;
+    IF NOT (v_role IN ('admin', 'super_admin')
+            OR (v_role = 'manager' AND v_schedule.kind = 'override' AND v_schedule.city_id::TEXT = v_city)) THEN
+        RAISE EXCEPTION 'forbidden';
+    END IF;
+    IF v_schedule.status <> 'scheduled' THEN
+        RAISE EXCEPTION 'invalid_status: only scheduled changes can be cancelled';
+    END IF;
+
+    UPDATE public.pricing_ruleset_schedules
+    SET status = 'cancelled', ended_at = NOW(), ended_by = auth.uid(), end_reason = p_reason
+    WHERE id = p_schedule_id;
+
+    INSERT INTO public.pricing_audit_log (event_type, city_id, actor_id, actor_role, payload, explanation)
+    VALUES ('PRICING_SCHEDULE_CANCELLED', v_schedule.city_id, auth.uid(), v_role,
+            jsonb_build_object('schedule_id', p_schedule_id, 'kind', v_schedule.kind), p_reason);
+END;
+$$;
+
+-- Guardrail breaches and acceptance of the quotes priced since a schedule started
+CREATE OR REPLACE FUNCTION public.get_pricing_schedule_health(p_schedule_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_schedule public.pricing_ruleset_schedules%ROWTYPE;
+    v_total INTEGER;
+    v_breaches INTEGER;
+    v_accepted INTEGER;
+    v_breach_pct NUMERIC;
+    v_acceptance_pct NUMERIC;
+BEGIN
+    SELECT * INTO v_schedule FROM public.pricing_ruleset_schedules WHERE id = p_schedule_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'schedule_not_found';
+    END IF;
+
+    SELECT COUNT(*),
+           COUNT(*) FILTER (WHERE q.status IN ('blocked', 'anomaly')),
+           COUNT(*) FILTER (WHERE q.status = 'accepted')
+    INTO v_total, v_breaches, v_accepted
+    FROM public.pricing_quotes q
+    WHERE v_schedule.activated_at IS NOT NULL
+      AND q.created_at >= v_schedule.activated_at
+      AND q.created_at < COALESCE(v_schedule.ended_at, NOW())
+      AND (v_schedule.kind <> 'activation' OR q.ruleset_id = v_schedule.ruleset_id)
+      AND (v_schedule.city_id IS NULL OR q.city_id = v_schedule.city_id)
+      AND (v_schedule.service_code IS NULL OR q.service_code = v_schedule.service_code);
+
+    v_breach_pct := CASE WHEN v_total > 0 THEN ROUND(v_breaches * 100.0 / v_total, 2) END;
+    v_acceptance_pct := CASE WHEN v_total > 0 THEN ROUND(v_accepted * 100.0 / v_total, 2) END;
+
+    RETURN jsonb_build_object(
+        'schedule_id', v_schedule.id,
+        'quote_count', v_total,
+        'guardrail_breaches', v_breaches,
+        'accepted', v_accepted,
+        'guardrail_breach_pct', v_breach_pct,
+        'acceptance_pct', v_acceptance_pct,
+        'breached', v_total >= v_schedule.min_health_sample AND (
+            (v_schedule.max_guardrail_breach_pct IS NOT NULL AND v_breach_pct > v_schedule.max_guardrail_breach_pct)
+            OR (v_schedule.min_acceptance_pct IS NOT NULL AND v_acceptance_pct < v_schedule.min_acceptance_pct)
+        )
+    );
+END;
+$$;
+
+-- End an activation or override window: activations revert to the ruleset that was active before,
+-- unless another ruleset has been activated since
+CREATE OR REPLACE FUNCTION public.end_pricing_schedule(
+    p_schedule_id UUID,
+    p_status TEXT,
+    p_reason TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_schedule public.pricing_ruleset_schedules%ROWTYPE;
+    v_reverted BOOLEAN := FALSE;
+BEGIN
+    SELECT * INTO v_schedule FROM public.pricing_ruleset_schedules WHERE id = p_schedule_id FOR UPDATE;
+    IF v_schedule.status <> 'active' THEN
+        RAISE EXCEPTION 'invalid_status: only active changes can be ended';
+    END IF;
+
+    IF v_schedule.kind = 'activation'
+       AND v_schedule.previous_ruleset_id IS NOT NULL
+       AND EXISTS (SELECT 1 FROM public.pricing_rulesets WHERE id = v_schedule.ruleset_id AND is_active = TRUE) THEN
+        PERFORM public.switch_active_pricing_ruleset(v_schedule.previous_ruleset_id);
+        v_reverted := TRUE;
+    END IF;
+
+    UPDATE public.pricing_ruleset_schedules
+    SET status = p_status, ended_at = NOW(), ended_by = auth.uid(), end_reason = p_reason
+    WHERE id = p_schedule_id;
+
+    INSERT INTO public.pricing_audit_log (event_type, city_id, actor_id, actor_role, payload, explanation)
+    VALUES (
+        CASE WHEN p_status = 'rolled_back' THEN 'PRICING_SCHEDULE_ROLLED_BACK' ELSE 'PRICING_SCHEDULE_ENDED' END,
+        v_schedule.city_id,
+        auth.uid(),
+        COALESCE(auth.jwt() -> 'app_metadata' ->> 'app_role', 'system'),
+        jsonb_build_object(
+            'schedule_id', v_schedule.id,
+            'kind', v_schedule.kind,
+            'ruleset_id', v_schedule.ruleset_id,
+            'reverted_to', CASE WHEN v_reverted THEN v_schedule.previous_ruleset_id END,
+            'health', public.get_pricing_schedule_health(v_schedule.id)
+        ),
+        p_reason
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.end_pricing_schedule(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- One-click rollback. Managers may roll back their city's overrides at any time, and activations
+-- once the health thresholds are breached; admins may always roll back.
+CREATE OR REPLACE FUNCTION public.rollback_pricing_schedule(p_schedule_id UUID, p_reason TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_role TEXT := auth.jwt() -> 'app_metadata' ->> 'app_role';
+    v_city TEXT := auth.jwt() -> 'app_metadata' ->> 'city_id';
+    v_schedule public.pricing_ruleset_schedules%ROWTYPE;
+    v_health JSONB;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'unauthorized';
+    END IF;
+
+    SELECT * INTO v_schedule FROM public.pricing_ruleset_schedules WHERE id = p_schedule_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'schedule_not_found';
+    END IF;
+
+    v_health := public.get_pricing_schedule_health(p_schedule_id);
+
+    IF NOT (
+        v_role IN ('admin', 'super_admin')
+        OR (v_role = 'manager' AND v_schedule.kind = 'override' AND v_schedule.city_id::TEXT = v_city)
+        OR (v_role = 'manager' AND v_schedule.kind = 'activation' AND (v_health ->> 'breached')::BOOLEAN)
+    ) THEN
+        RAISE EXCEPTION 'forbidden';
+    END IF;
+
+    PERFORM public.end_pricing_schedule(p_schedule_id, 'rolled_back', COALESCE(NULLIF(TRIM(p_reason), ''), 'Rolled back'));
+
+    RETURN v_health;
+END;
+$$;
+
+-- Apply due schedule changes: end expired windows first, then start due ones. A schedule whose
+-- window passed entirely while the worker was down is completed without being applied.
+CREATE OR REPLACE FUNCTION public.process_pricing_ruleset_schedules()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_schedule public.pricing_ruleset_schedules%ROWTYPE;
+    v_previous UUID;
+    v_started INTEGER := 0;
+    v_ended INTEGER := 0;
+    v_skipped INTEGER := 0;
+BEGIN
+    FOR v_schedule IN
+        SELECT * FROM public.pricing_ruleset_schedules
+        WHERE status = 'active' AND ends_at <= NOW()
+        ORDER BY ends_at
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        PERFORM public.end_pricing_schedule(v_schedule.id, 'completed', 'Scheduled window ended');
+        v_ended := v_ended + 1;
+    END LOOP;
+
+    FOR v_schedule IN
+        SELECT * FROM public.pricing_ruleset_schedules
+        WHERE status = 'scheduled' AND starts_at <= NOW()
+        ORDER BY starts_at, priority
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        IF v_schedule.ends_at IS NOT NULL AND v_schedule.ends_at <= NOW() THEN
+            UPDATE public.pricing_ruleset_schedules
+            SET status = 'completed', ended_at = NOW(), end_reason = 'Window passed before it could start'
+            WHERE id = v_schedule.id;
+            v_skipped := v_skipped + 1;
+            CONTINUE;
+        END IF;
+
+        IF v_schedule.kind = 'activation' THEN
+            v_previous := public.switch_active_pricing_ruleset(v_schedule.ruleset_id);
+        END IF;
+
+        UPDATE public.pricing_ruleset_schedules
+        SET status = 'active', activated_at = NOW(), previous_ruleset_id = v_previous
+        WHERE id = v_schedule.id;
+
+        INSERT INTO public.pricing_audit_log (event_type, city_id, actor_role, payload, explanation)
+        VALUES (
+            CASE WHEN v_schedule.kind = 'activation' THEN 'RULESET_SCHEDULE_ACTIVATED' ELSE 'PRICING_OVERRIDE_STARTED' END,
+            v_schedule.city_id,
+            'system',
+            jsonb_build_object(
+                'schedule_id', v_schedule.id,
+                'ruleset_id', v_schedule.ruleset_id,
+                'previous_ruleset_id', v_previous,
+                'service_code', v_schedule.service_code,
+                'rules_patch', v_schedule.rules_patch,
+                'ends_at', v_schedule.ends_at
+            ),
+            v_schedule.reason
+        );
+
+        v_previous := NULL;
+        v_started := v_started + 1;
+    END LOOP;
+
+    RETURN jsonb_build_object('started', v_started, 'ended', v_ended, 'skipped', v_skipped);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.process_pricing_ruleset_schedules() FROM PUBLIC, anon, authenticated;
+
+-- Rules of the active ruleset with the active overrides for a city and service merged on top, lowest
+-- priority first. Top-level objects (e.g. urgency_surcharge_pct) are merged key by key; other values
+-- are replaced. rpc_c21_quote_price and create_pricing_quote read their rules through it
+-- (20251223110000_pricing_quote_engine.sql).
+CREATE OR REPLACE FUNCTION public.get_effective_pricing_rules(p_city_id UUID, p_service_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_rules JSONB;
+    v_patch JSONB;
+    v_key TEXT;
+    v_value JSONB;
+BEGIN
+    SELECT rules INTO v_rules FROM public.pricing_rulesets WHERE is_active = TRUE;
+    v_rules := COALESCE(v_rules, '{}'::jsonb);
+
+    FOR v_patch IN
+        SELECT rules_patch FROM public.pricing_ruleset_schedules
+        WHERE kind = 'override'
+          AND status = 'active'
+          AND city_id = p_city_id
+          AND (service_code IS NULL OR service_code = p_service_code)
+        ORDER BY priority, starts_at
+    LOOP
+        FOR v_key, v_value IN SELECT * FROM jsonb_each(v_patch) LOOP
+            IF jsonb_typeof(v_value) = 'object' AND jsonb_typeof(v_rules -> v_key) = 'object' THEN
+                v_rules := jsonb_set(v_rules, ARRAY[v_key], (v_rules -> v_key) || v_value);
+            ELSE
+                v_rules := jsonb_set(v_rules, ARRAY[v_key], v_value);
+            END IF;
+        END LOOP;
+    END LOOP;
+
+    RETURN v_rules;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.schedule_pricing_ruleset_activation(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, NUMERIC, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.schedule_pricing_override(UUID, TEXT, JSONB, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, TEXT, NUMERIC, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_pricing_schedule(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rollback_pricing_schedule(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_pricing_schedule_health(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_effective_pricing_rules(UUID, TEXT) TO authenticated;
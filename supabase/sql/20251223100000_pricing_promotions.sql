@@ -0,0 +1,496 @@
+-- Promo and referral campaigns for pricing quotes
+-- A campaign has eligibility rules (cities, services, device brands, first-time customers), usage caps
+-- per customer and overall, a stacking rule ('exclusive' codes cannot be combined; 'stackable' ones add
+-- up) and a validity window. evaluate_pricing_promotions() resolves the codes a quote was requested with;
+-- src/lib/pricing/promotions.ts mirrors it. rpc_c21_quote_price (20251223110000_pricing_quote_engine.sql)
+-- calls it with p_promo_codes and takes the discount off the quote total.
+--
+-- Redemption lifecycle: the quote RPC locks the campaigns, prices the quote and reserves the applied codes
+-- against it in one transaction; accepting the quote redeems them (audited as PROMO_REDEEMED).
+-- Reservations on quotes that expire or are superseded simply stop counting towards the caps.
+--
+-- Referral campaigns are redeemed with a customer's personal code (pricing_referral_codes). Redeeming one
+-- creates a pending credit for the referrer, which is credited when the referee's ticket completes and
+-- voided if it is cancelled.
+
+CREATE TABLE IF NOT EXISTS public.pricing_promo_campaigns (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code TEXT NOT NULL UNIQUE CHECK (code = UPPER(code)),
+    name TEXT NOT NULL,
+    description TEXT,
+    kind TEXT NOT NULL DEFAULT 'promo' CHECK (kind IN ('promo', 'referral')),
+    discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'flat')),
+    discount_value NUMERIC NOT NULL CHECK (discount_value > 0),
+    max_discount_amount NUMERIC CHECK (max_discount_amount > 0),
+    city_ids UUID[],
+    service_codes TEXT[],
+    device_brands TEXT[],
+    first_time_only BOOLEAN NOT NULL DEFAULT FALSE,
+    max_redemptions INTEGER CHECK (max_redemptions > 0),
+    max_redemptions_per_customer INTEGER DEFAULT 1 CHECK (max_redemptions_per_customer > 0),
+    stacking TEXT NOT NULL DEFAULT 'exclusive' CHECK (stacking IN ('exclusive', 'stackable')),
+    referrer_reward_amount NUMERIC CHECK (referrer_reward_amount > 0),
+    starts_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_by UUID REFERENCES auth.users(id),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (expires_at > starts_at),
+    CHECK (discount_type <> 'percent' OR discount_value <= 100),
+    CHECK (kind <> 'referral' OR referrer_reward_amount IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS public.pricing_referral_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    campaign_id UUID NOT NULL REFERENCES public.pricing_promo_campaigns(id),
+    customer_id UUID NOT NULL REFERENCES public.customers(id),
+    code TEXT NOT NULL UNIQUE CHECK (code = UPPER(code)),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (campaign_id, customer_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.pricing_promo_redemptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    campaign_id UUID NOT NULL REFERENCES public.pricing_promo_campaigns(id),
+    code TEXT NOT NULL,
+    referral_code_id UUID REFERENCES public.pricing_referral_codes(id),
+    referrer_customer_id UUID REFERENCES public.customers(id),
+    customer_id UUID REFERENCES public.customers(id),
+    quote_id UUID NOT NULL REFERENCES public.pricing_quotes(id),
+    ticket_id UUID,
+    city_id UUID NOT NULL,
+    service_code TEXT NOT NULL,
+    discount_amount NUMERIC NOT NULL CHECK (discount_amount >= 0),
+    status TEXT NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'redeemed')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    redeemed_at TIMESTAMPTZ,
+    UNIQUE (campaign_id, quote_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_promo_redemptions_campaign
+    ON public.pricing_promo_redemptions (campaign_id, customer_id, status);
+CREATE INDEX IF NOT EXISTS idx_pricing_promo_redemptions_quote
+    ON public.pricing_promo_redemptions (quote_id);
+
+CREATE TABLE IF NOT EXISTS public.pricing_referral_credits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    redemption_id UUID NOT NULL UNIQUE REFERENCES public.pricing_promo_redemptions(id),
+    campaign_id UUID NOT NULL REFERENCES public.pricing_promo_campaigns(id),
+    referrer_customer_id UUID NOT NULL REFERENCES public.customers(id),
+    referee_customer_id UUID REFERENCES public.customers(id),
+    ticket_id UUID,
+    city_id UUID NOT NULL,
+    amount NUMERIC NOT NULL CHECK (amount > 0),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'credited', 'void')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    settled_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_referral_credits_ticket
+    ON public.pricing_referral_credits (ticket_id) WHERE status = 'pending';
+
+-- Staff read access; writes go through the pricing API (service role) and the functions below
+ALTER TABLE public.pricing_promo_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pricing_referral_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pricing_promo_redemptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pricing_referral_credits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY pricing_promo_campaigns_select ON public.pricing_promo_campaigns
+    FOR SELECT USING (
+        (auth.jwt() -> 'app_metadata' ->> 'app_role') IN ('admin', 'super_admin')
+        OR (
+            (auth.jwt() -> 'app_metadata' ->> 'app_role') = 'manager'
+            AND (city_ids IS NULL OR (auth.jwt() -> 'app_metadata' ->> 'city_id')::UUID = ANY (city_ids))
+        )
+    );
+
+CREATE POLICY pricing_promo_redemptions_select ON public.pricing_promo_redemptions
+    FOR SELECT USING (
+        (auth.jwt() -> 'app_metadata' ->> 'app_role') IN ('admin', 'super_admin')
+        OR (
+            (auth.jwt() -> 'app_metadata' ->> 'app_role') = 'manager'
+            AND city_id::TEXT = auth.jwt() -> 'app_metadata' ->> 'city_id'
+        )
+    );
+
+CREATE POLICY pricing_referral_credits_select ON public.pricing_referral_credits
+    FOR SELECT USING (
+        (auth.jwt() -> 'app_metadata' ->> 'app_role') IN ('admin', 'super_admin')
+        OR (
+            (auth.jwt() -> 'app_metadata' ->> 'app_role') = 'manager'
+            AND city_id::TEXT = auth.jwt() -> 'app_metadata' ->> 'city_id'
+        )
+    );
+
+-- Redemptions that count towards caps: redeemed, or reserved on a quote that can still be accepted
+CREATE OR REPLACE FUNCTION public.pricing_promo_usage(p_campaign_id UUID, p_customer_id UUID)
+RETURNS TABLE (total INTEGER, by_customer INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COUNT(*)::INTEGER,
+           COUNT(*) FILTER (WHERE r.customer_id = p_customer_id)::INTEGER
+    FROM public.pricing_promo_redemptions r
+    JOIN public.pricing_quotes q ON q.id = r.quote_id
+    WHERE r.campaign_id = p_campaign_id
+      AND (r.status = 'redeemed'
+           OR (q.status = 'pending' AND q.superseded_by IS NULL AND q.expires_at > NOW()));
+$$;
+
+-- Resolve promo and referral codes for a quote. Returns the total discount, the applied codes and the
+-- rejected ones with a reason. Same rules and order as evaluatePromoCampaign/applyPromoStacking.
+CREATE OR REPLACE FUNCTION public.evaluate_pricing_promotions(
+    p_codes TEXT[],
+    p_city_id UUID,
+    p_service_code TEXT,
+    p_customer_id UUID,
+    p_device_brand TEXT,
+    p_subtotal NUMERIC
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_code TEXT;
+    v_campaign public.pricing_promo_campaigns%ROWTYPE;
+    v_referral public.pricing_referral_codes%ROWTYPE;
+    v_usage RECORD;
+    v_first_time BOOLEAN;
+    v_reason TEXT;
+    v_discount NUMERIC;
+    v_seen UUID[] := '{}';
+    v_eligible JSONB := '[]'::jsonb;
+    v_rejected JSONB := '[]'::jsonb;
+    v_stackable JSONB := '[]'::jsonb;
+    v_stackable_total NUMERIC := 0;
+    v_best JSONB;
+    v_item JSONB;
+    v_applied JSONB;
+BEGIN
+    v_first_time := p_customer_id IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM public.tickets t WHERE t.customer_id = p_customer_id AND t.status = 'completed')
+        AND NOT EXISTS (SELECT 1 FROM public.pricing_quotes q WHERE q.customer_id = p_customer_id AND q.status = 'accepted');
+
+    FOREACH v_code IN ARRAY COALESCE(p_codes, '{}') LOOP
+        v_code := UPPER(TRIM(v_code));
+        CONTINUE WHEN v_code = '';
+        v_reason := NULL;
+        v_referral := NULL;
+
+        SELECT * INTO v_campaign FROM public.pricing_promo_campaigns WHERE code = v_code;
+        IF NOT FOUND THEN
+            SELECT * INTO v_referral FROM public.pricing_referral_codes WHERE code = v_code;
+            IF FOUND THEN
+                SELECT * INTO v_campaign FROM public.pricing_promo_campaigns WHERE id = v_referral.campaign_id;
+            END IF;
+        END IF;
+
+        IF v_campaign.id IS NULL THEN
+            v_reason := 'not_found';
+        ELSIF NOT v_campaign.is_active THEN
+            v_reason := 'inactive';
+        ELSIF v_campaign.starts_at > NOW() THEN
+            v_reason := 'not_started';
+        ELSIF v_campaign.expires_at <= NOW() THEN
+            v_reason := 'expired';
+        ELSIF COALESCE(array_length(v_campaign.city_ids, 1), 0) > 0 AND NOT p_city_id = ANY (v_campaign.city_ids) THEN
+            v_reason := 'city_not_eligible';
+        ELSIF COALESCE(array_length(v_campaign.service_codes, 1), 0) > 0 AND NOT COALESCE(p_service_code = ANY (v_campaign.service_codes), FALSE) THEN
+            v_reason := 'service_not_eligible';
+        ELSIF COALESCE(array_length(v_campaign.device_brands, 1), 0) > 0
+              AND NOT EXISTS (SELECT 1 FROM unnest(v_campaign.device_brands) b WHERE LOWER(b) = LOWER(p_device_brand)) THEN
+            v_reason := 'brand_not_eligible';
+        ELSIF p_customer_id IS NULL
+              AND (v_campaign.first_time_only OR v_campaign.max_redemptions_per_customer IS NOT NULL OR v_campaign.kind = 'referral') THEN
+            v_reason := 'customer_required';
+        ELSIF v_campaign.first_time_only AND NOT v_first_time THEN
+            v_reason := 'not_first_time';
+        ELSIF v_referral.customer_id IS NOT NULL AND v_referral.customer_id = p_customer_id THEN
+            v_reason := 'self_referral';
+        ELSE
+            SELECT * INTO v_usage FROM public.pricing_promo_usage(v_campaign.id, p_customer_id);
+            IF v_campaign.max_redemptions IS NOT NULL AND v_usage.total >= v_campaign.max_redemptions THEN
+                v_reason := 'global_cap_reached';
+            ELSIF v_campaign.max_redemptions_per_customer IS NOT NULL AND v_usage.by_customer >= v_campaign.max_redemptions_per_customer THEN
+                v_reason := 'customer_cap_reached';
+            ELSIF v_campaign.id = ANY (v_seen) THEN
+                v_reason := 'not_stackable';
+            END IF;
+        END IF;
+
+        IF v_reason IS NOT NULL THEN
+            v_rejected := v_rejected || jsonb_build_object('code', v_code, 'campaign_id', v_campaign.id, 'reason', v_reason);
+            v_campaign := NULL;
+            CONTINUE;
+        END IF;
+
+        v_discount := CASE WHEN v_campaign.discount_type = 'percent'
+                           THEN p_subtotal * v_campaign.discount_value / 100
+                           ELSE v_campaign.discount_value END;
+        IF v_campaign.max_discount_amount IS NOT NULL THEN
+            v_discount := LEAST(v_discount, v_campaign.max_discount_amount);
+        END IF;
+        v_discount := ROUND(GREATEST(0, LEAST(v_discount, p_subtotal)), 2);
+
+        v_seen := v_seen || v_campaign.id;
+        v_eligible := v_eligible || jsonb_build_object(
+            'code', v_code,
+            'campaign_id', v_campaign.id,
+            'kind', v_campaign.kind,
+            'stacking', v_campaign.stacking,
+            'discount_amount', v_discount,
+            'referral_code_id', v_referral.id,
+            'referrer_customer_id', v_referral.customer_id
+        );
+        v_campaign := NULL;
+    END LOOP;
+
+    -- Stacking: the best exclusive code alone, or all stackable codes together (stackable wins a tie)
+    FOR v_item IN SELECT * FROM jsonb_array_elements(v_eligible) LOOP
+        IF v_item ->> 'stacking' = 'stackable' THEN
+            v_stackable := v_stackable || v_item;
+            v_stackable_total := v_stackable_total + (v_item ->> 'discount_amount')::NUMERIC;
+        ELSIF v_best IS NULL OR (v_item ->> 'discount_amount')::NUMERIC > (v_best ->> 'discount_amount')::NUMERIC THEN
+            v_best := v_item;
+        END IF;
+    END LOOP;
+
+    IF v_best IS NOT NULL AND (v_best ->> 'discount_amount')::NUMERIC > v_stackable_total THEN
+        v_applied := jsonb_build_array(v_best);
+    ELSE
+        v_applied := v_stackable;
+    END IF;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(v_eligible) LOOP
+        IF NOT v_applied @> jsonb_build_array(v_item) THEN
+            v_rejected := v_rejected || jsonb_build_object(
+                'code', v_item ->> 'code', 'campaign_id', v_item ->> 'campaign_id', 'reason', 'not_stackable'
+            );
+        END IF;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'discount_amount', ROUND(LEAST(
+            COALESCE((SELECT SUM((a ->> 'discount_amount')::NUMERIC) FROM jsonb_array_elements(v_applied) a), 0),
+            p_subtotal
+        ), 2),
+        'applied', v_applied,
+        'rejected', v_rejected
+    );
+END;
+$$;
+
+-- Lock the campaigns behind a set of codes until the end of the transaction, so usage counted by
+-- evaluate_pricing_promotions cannot change before the applied codes are reserved. Call it before
+-- evaluating: the caps are then checked against every reservation committed ahead of this one.
+CREATE OR REPLACE FUNCTION public.lock_pricing_promo_campaigns(p_codes TEXT[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_codes TEXT[] := ARRAY(SELECT UPPER(TRIM(c)) FROM unnest(COALESCE(p_codes, '{}')) c);
+BEGIN
+    PERFORM 1
+    FROM public.pricing_promo_campaigns c
+    WHERE c.code = ANY (v_codes)
+       OR c.id IN (SELECT r.campaign_id FROM public.pricing_referral_codes r WHERE r.code = ANY (v_codes))
+    ORDER BY c.id
+    FOR UPDATE;
+END;
+$$;
+
+-- Reserve the codes applied to a new quote, so they count towards caps while the quote is open.
+-- p_applied is the 'applied' list of evaluate_pricing_promotions with the amounts the quote charges.
+CREATE OR REPLACE FUNCTION public.reserve_pricing_promotions(
+    p_quote public.pricing_quotes,
+    p_applied JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_item JSONB;
+BEGIN
+    FOR v_item IN SELECT * FROM jsonb_array_elements(COALESCE(p_applied, '[]'::jsonb)) LOOP
+        INSERT INTO public.pricing_promo_redemptions (
+            campaign_id, code, referral_code_id, referrer_customer_id, customer_id, quote_id,
+            city_id, service_code, discount_amount
+        ) VALUES (
+            (v_item ->> 'campaign_id')::UUID,
+            v_item ->> 'code',
+            (v_item ->> 'referral_code_id')::UUID,
+            (v_item ->> 'referrer_customer_id')::UUID,
+            p_quote.customer_id,
+            p_quote.id,
+            p_quote.city_id,
+            p_quote.service_code,
+            (v_item ->> 'discount_amount')::NUMERIC
+        )
+        ON CONFLICT (campaign_id, quote_id) DO NOTHING;
+    END LOOP;
+END;
+$$;
+
+-- Accepting a quote (or a revision of it) redeems its reserved codes
+CREATE OR REPLACE FUNCTION public.redeem_pricing_promotions_on_accept()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_redemption public.pricing_promo_redemptions%ROWTYPE;
+    v_campaign public.pricing_promo_campaigns%ROWTYPE;
+BEGIN
+    FOR v_redemption IN
+        UPDATE public.pricing_promo_redemptions
+        SET status = 'redeemed', redeemed_at = NOW(), ticket_id = NEW.ticket_id
+        WHERE status = 'reserved'
+          AND quote_id IN (NEW.id, COALESCE(NEW.root_quote_id, NEW.id))
+        RETURNING *
+    LOOP
+        SELECT * INTO v_campaign FROM public.pricing_promo_campaigns WHERE id = v_redemption.campaign_id;
+
+        INSERT INTO public.pricing_audit_log (event_type, city_id, quote_id, actor_id, actor_role, payload, explanation)
+        VALUES (
+            'PROMO_REDEEMED',
+            v_redemption.city_id,
+            NEW.id,
+            NEW.accepted_by,
+            COALESCE(auth.jwt() -> 'app_metadata' ->> 'app_role', 'customer'),
+            jsonb_build_object(
+                'redemption_id', v_redemption.id,
+                'campaign_id', v_campaign.id,
+                'campaign_kind', v_campaign.kind,
+                'code', v_redemption.code,
+                'customer_id', v_redemption.customer_id,
+                'referrer_customer_id', v_redemption.referrer_customer_id,
+                'discount_amount', v_redemption.discount_amount
+            ),
+            format('Code %s redeemed for %s off', v_redemption.code, v_redemption.discount_amount)
+        );
+
+        IF v_redemption.referrer_customer_id IS NOT NULL THEN
+            INSERT INTO public.pricing_referral_credits (
+                redemption_id, campaign_id, referrer_customer_id, referee_customer_id, ticket_id, city_id, amount
+            ) VALUES (
+                v_redemption.id, v_campaign.id, v_redemption.referrer_customer_id, v_redemption.customer_id,
+                NEW.ticket_id, v_redemption.city_id, v_campaign.referrer_reward_amount
+            );
+        END IF;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS pricing_quotes_redeem_promotions ON public.pricing_quotes;
+CREATE TRIGGER pricing_quotes_redeem_promotions
+    AFTER UPDATE OF status ON public.pricing_quotes
+    FOR EACH ROW
+    WHEN (NEW.status = 'accepted' AND OLD.status IS DISTINCT FROM 'accepted')
+    EXECUTE FUNCTION public.redeem_pricing_promotions_on_accept();
+
+-- Settle referral credits when the referee's ticket completes (credited) or is cancelled (void)
+CREATE OR REPLACE FUNCTION public.settle_referral_credits_on_ticket()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_credit public.pricing_referral_credits%ROWTYPE;
+    v_status TEXT := CASE WHEN NEW.status = 'completed' THEN 'credited' ELSE 'void' END;
+BEGIN
+    FOR v_credit IN
+        UPDATE public.pricing_referral_credits
+        SET status = v_status, settled_at = NOW()
+        WHERE ticket_id = NEW.id AND status = 'pending'
+        RETURNING *
+    LOOP
+        INSERT INTO public.pricing_audit_log (event_type, city_id, actor_role, payload, explanation)
+        VALUES (
+            CASE WHEN v_status = 'credited' THEN 'REFERRAL_CREDITED' ELSE 'REFERRAL_VOIDED' END,
+            v_credit.city_id,
+            'system',
+            jsonb_build_object(
+                'credit_id', v_credit.id,
+                'redemption_id', v_credit.redemption_id,
+                'referrer_customer_id', v_credit.referrer_customer_id,
+                'referee_customer_id', v_credit.referee_customer_id,
+                'ticket_id', NEW.id,
+                'amount', v_credit.amount
+            ),
+            format('Referral credit of %s %s: referee ticket %s', v_credit.amount, v_status, NEW.status)
+        );
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tickets_settle_referral_credits ON public.tickets;
+CREATE TRIGGER tickets_settle_referral_credits
+    AFTER UPDATE OF status ON public.tickets
+    FOR EACH ROW
+    WHEN (NEW.status IN ('completed', 'cancelled') AND OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION public.settle_referral_credits_on_ticket();
+
+-- A customer's personal code for the running referral campaign, created on first request.
+-- Called by the customer API with the service role after it resolves the customer.
+CREATE OR REPLACE FUNCTION public.issue_pricing_referral_code(p_customer_id UUID)
+RETURNS public.pricing_referral_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_campaign_id UUID;
+    v_code public.pricing_referral_codes%ROWTYPE;
+BEGIN
+    SELECT id INTO v_campaign_id
+    FROM public.pricing_promo_campaigns
+    WHERE kind = 'referral' AND is_active AND starts_at <= NOW() AND expires_at > NOW()
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_campaign_id IS NULL THEN
+        RAISE EXCEPTION 'referral_campaign_not_found';
+    END IF;
+
+    SELECT * INTO v_code FROM public.pricing_referral_codes
+    WHERE campaign_id = v_campaign_id AND customer_id = p_customer_id;
+    IF FOUND THEN
+        RETURN v_code;
+    END IF;
+
+    LOOP
+        BEGIN
+            INSERT INTO public.pricing_referral_codes (campaign_id, customer_id, code)
+            VALUES (v_campaign_id, p_customer_id, 'REF-' || UPPER(SUBSTR(MD5(gen_random_uuid()::TEXT), 1, 8)))
+            RETURNING * INTO v_code;
+            RETURN v_code;
+        EXCEPTION WHEN unique_violation THEN
+            -- Code collision: try another
+        END;
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_pricing_referral_code(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.pricing_promo_usage(UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.lock_pricing_promo_campaigns(TEXT[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reserve_pricing_promotions(public.pricing_quotes, JSONB) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.evaluate_pricing_promotions(TEXT[], UUID, TEXT, UUID, TEXT, NUMERIC) TO authenticated;
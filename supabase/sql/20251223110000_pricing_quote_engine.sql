@@ -0,0 +1,325 @@
+-- Quote pricing engine
+-- rpc_c21_quote_price and create_pricing_quote price a quote and issue it in one transaction. The steps
+-- are the ones src/lib/pricing/simulator.ts replays: base components from the current base rate, urgency
+-- and complexity surcharges on labor, surge cap, promotions, discount cap, margin floor, min/max clamp,
+-- then tax. Rules are read through get_effective_pricing_rules, so scheduled activations and active
+-- overrides for the quote's city and service apply.
+--
+-- Promotions: the codes are resolved by evaluate_pricing_promotions against the subtotal and the
+-- discount is taken off the total. Their campaign rows are locked first and the applied codes are
+-- reserved against the new quote before the transaction commits, so concurrent quotes cannot overrun
+-- a campaign's caps and every reserved discount is one the quote charges.
+--
+-- Replaces rpc_c21_quote_price(..., p_promo_code TEXT), which took a comma-joined code list, and the
+-- create_pricing_quote that read the active ruleset directly.
+
+DROP FUNCTION IF EXISTS public.rpc_c21_quote_price(UUID, TEXT, UUID, NUMERIC, TEXT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS public.create_pricing_quote(UUID, TEXT, NUMERIC, JSONB);
+DROP FUNCTION IF EXISTS public.create_pricing_quote(UUID, TEXT, UUID, UUID, TEXT, TEXT, NUMERIC);
+
+-- Price and insert a quote. Callers check who may quote; this only validates the inputs.
+CREATE OR REPLACE FUNCTION public.issue_pricing_quote(
+    p_city_id UUID,
+    p_service_code TEXT,
+    p_customer_id UUID,
+    p_ticket_id UUID,
+    p_parts_cost NUMERIC,
+    p_urgency TEXT,
+    p_complexity TEXT,
+    p_promo_codes TEXT[],
+    p_device_brand TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_ruleset public.pricing_rulesets%ROWTYPE;
+    v_rules JSONB;
+    v_rate public.pricing_base_rates%ROWTYPE;
+    v_guardrail public.pricing_guardrails%ROWTYPE;
+    v_quote public.pricing_quotes%ROWTYPE;
+    v_codes TEXT[];
+    v_key TEXT;
+    v_parts_cost NUMERIC := GREATEST(COALESCE(p_parts_cost, 0), 0);
+    v_parts NUMERIC;
+    v_base NUMERIC;
+    v_urgency NUMERIC;
+    v_complexity NUMERIC;
+    v_surge NUMERIC;
+    v_max_surge NUMERIC;
+    v_subtotal NUMERIC;
+    v_promotions JSONB;
+    v_promo_discount NUMERIC;
+    v_discount NUMERIC;
+    v_pretax NUMERIC;
+    v_floor NUMERIC;
+    v_tax NUMERIC;
+    v_reasons TEXT[] := '{}';
+    v_applied JSONB := '[]'::jsonb;
+    v_item JSONB;
+BEGIN
+    IF p_urgency NOT IN ('standard', 'next_day', 'same_day') OR p_complexity NOT IN ('simple', 'standard', 'complex') THEN
+        RAISE EXCEPTION 'invalid_input: unknown urgency or complexity';
+    END IF;
+
+    SELECT * INTO v_ruleset FROM public.pricing_rulesets WHERE is_active = TRUE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'no_active_ruleset';
+    END IF;
+    v_rules := public.get_effective_pricing_rules(p_city_id, p_service_code);
+    IF v_rules IS DISTINCT FROM COALESCE(v_ruleset.rules, '{}'::jsonb) THEN
+        v_reasons := v_reasons || 'PRICING_OVERRIDE';
+    END IF;
+
+    SELECT * INTO v_rate FROM public.pricing_base_rates
+    WHERE city_id = p_city_id AND service_code = p_service_code
+      AND effective_from <= NOW() AND (effective_to IS NULL OR effective_to > NOW())
+    ORDER BY effective_from DESC
+    LIMIT 1;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'base_rate_not_found';
+    END IF;
+
+    SELECT * INTO v_guardrail FROM public.pricing_guardrails
+    WHERE city_id = p_city_id AND service_code = p_service_code AND is_enabled
+      AND effective_from <= NOW() AND (effective_to IS NULL OR effective_to > NOW())
+    ORDER BY effective_from DESC
+    LIMIT 1;
+
+    v_codes := ARRAY(
+        SELECT UPPER(TRIM(c)) FROM unnest(COALESCE(p_promo_codes, '{}')) WITH ORDINALITY AS t(c, n)
+        WHERE TRIM(c) <> ''
+        ORDER BY n
+    );
+
+    -- Same request from the same caller within a minute returns the quote already issued
+    v_key := md5(concat_ws('|', auth.uid(), p_city_id, p_service_code, p_customer_id, p_ticket_id, v_parts_cost,
+                           p_urgency, p_complexity, array_to_string(v_codes, ','), v_ruleset.id,
+                           date_trunc('minute', NOW())));
+    SELECT * INTO v_quote FROM public.pricing_quotes WHERE quote_key = v_key;
+    IF FOUND THEN
+        RETURN jsonb_build_object(
+            'success', TRUE,
+            'quote_id', v_quote.id,
+            'quote', to_jsonb(v_quote),
+            'total_amount', v_quote.total_amount,
+            'breakdown', v_quote.breakdown,
+            'expires_at', v_quote.expires_at,
+            'reason_codes', v_quote.reason_codes,
+            'idempotent', TRUE,
+            'promotions', jsonb_build_object(
+                'discount_amount', v_quote.discount_amount,
+                'applied', COALESCE((
+                    SELECT jsonb_agg(jsonb_build_object('code', r.code, 'campaign_id', r.campaign_id, 'discount_amount', r.discount_amount))
+                    FROM public.pricing_promo_redemptions r WHERE r.quote_id = v_quote.id
+                ), '[]'::jsonb),
+                'rejected', '[]'::jsonb
+            )
+        );
+    END IF;
+
+    PERFORM public.lock_pricing_promo_campaigns(v_codes);
+
+    v_parts := ROUND(v_parts_cost * (1 + v_rate.parts_markup_pct / 100), 2);
+    v_base := v_rate.labor_base + v_parts + v_rate.transport_base + v_rate.diagnostic_fee;
+
+    v_urgency := v_rate.labor_base * COALESCE(
+        (v_rules -> 'urgency_surcharge_pct' ->> p_urgency)::NUMERIC,
+        CASE p_urgency WHEN 'next_day' THEN 20 WHEN 'same_day' THEN 50 ELSE 0 END
+    ) / 100;
+    v_complexity := v_rate.labor_base * COALESCE(
+        (v_rules -> 'complexity_surcharge_pct' ->> p_complexity)::NUMERIC,
+        CASE p_complexity WHEN 'simple' THEN -20 WHEN 'complex' THEN 50 ELSE 0 END
+    ) / 100;
+
+    -- Surge cap applies to the positive surcharges only
+    v_surge := GREATEST(v_urgency, 0) + GREATEST(v_complexity, 0);
+    v_max_surge := v_base * v_guardrail.max_surge_pct / 100;
+    IF v_guardrail.id IS NOT NULL AND v_surge > v_max_surge THEN
+        IF v_urgency > 0 THEN
+            v_urgency := v_urgency * v_max_surge / v_surge;
+        END IF;
+        IF v_complexity > 0 THEN
+            v_complexity := v_complexity * v_max_surge / v_surge;
+        END IF;
+        v_reasons := v_reasons || 'MAX_SURGE';
+    END IF;
+    v_urgency := ROUND(v_urgency, 2);
+    v_complexity := ROUND(v_complexity, 2);
+
+    v_subtotal := v_base + v_urgency + v_complexity;
+
+    v_promotions := public.evaluate_pricing_promotions(
+        v_codes, p_city_id, p_service_code, p_customer_id, p_device_brand, v_subtotal
+    );
+    v_promo_discount := (v_promotions ->> 'discount_amount')::NUMERIC;
+    v_discount := v_promo_discount;
+
+    IF v_guardrail.id IS NOT NULL AND v_discount > ROUND(v_subtotal * v_guardrail.max_discount_pct / 100, 2) THEN
+        v_discount := ROUND(v_subtotal * v_guardrail.max_discount_pct / 100, 2);
+        v_reasons := v_reasons || 'MAX_DISCOUNT';
+    END IF;
+
+    -- A capped discount is shared across the applied codes in proportion to what each would give
+    FOR v_item IN SELECT * FROM jsonb_array_elements(v_promotions -> 'applied') LOOP
+        IF v_discount < v_promo_discount THEN
+            v_item := jsonb_set(v_item, '{discount_amount}', to_jsonb(
+                ROUND((v_item ->> 'discount_amount')::NUMERIC * v_discount / v_promo_discount, 2)
+            ));
+        END IF;
+        v_applied := v_applied || v_item;
+    END LOOP;
+    v_promotions := v_promotions || jsonb_build_object('discount_amount', v_discount, 'applied', v_applied);
+    IF v_discount > 0 THEN
+        v_reasons := v_reasons || 'PROMO_APPLIED';
+    END IF;
+
+    v_pretax := v_subtotal - v_discount;
+
+    IF v_guardrail.id IS NOT NULL AND v_guardrail.floor_margin_pct > 0 AND v_guardrail.floor_margin_pct < 100 THEN
+        v_floor := v_parts_cost / (1 - v_guardrail.floor_margin_pct / 100);
+        IF v_pretax < v_floor THEN
+            v_pretax := v_floor;
+            v_reasons := v_reasons || 'FLOOR_MARGIN';
+        END IF;
+    END IF;
+
+    IF v_guardrail.id IS NOT NULL AND v_pretax < v_guardrail.min_total THEN
+        v_pretax := v_guardrail.min_total;
+        v_reasons := v_reasons || 'MIN_TOTAL';
+    ELSIF v_guardrail.id IS NOT NULL AND v_guardrail.max_total > 0 AND v_pretax > v_guardrail.max_total THEN
+        v_pretax := v_guardrail.max_total;
+        v_reasons := v_reasons || 'MAX_TOTAL';
+    END IF;
+
+    v_pretax := ROUND(v_pretax, 2);
+    v_tax := ROUND(v_pretax * COALESCE((v_rules ->> 'tax_pct')::NUMERIC, 18) / 100, 2);
+
+    INSERT INTO public.pricing_quotes (
+        quote_key, city_id, service_code, customer_id, ticket_id,
+        labor_amount, parts_amount, parts_cost, transport_amount, diagnostic_amount,
+        urgency_surcharge, complexity_surcharge, discount_amount, tax_amount, total_amount,
+        ruleset_id, ruleset_version, base_rate_ref, guardrail_ref, breakdown, reason_codes,
+        status, expires_at, created_by
+    ) VALUES (
+        v_key, p_city_id, p_service_code, p_customer_id, p_ticket_id,
+        v_rate.labor_base, v_parts, v_parts_cost, v_rate.transport_base, v_rate.diagnostic_fee,
+        v_urgency, v_complexity, v_discount, v_tax, v_pretax + v_tax,
+        v_ruleset.id, v_ruleset.version, to_jsonb(v_rate),
+        CASE WHEN v_guardrail.id IS NOT NULL THEN to_jsonb(v_guardrail) ELSE '{}'::jsonb END,
+        jsonb_build_object(
+            'labor', v_rate.labor_base,
+            'parts', v_parts,
+            'transport', v_rate.transport_base,
+            'diagnostic', v_rate.diagnostic_fee,
+            'urgency_surcharge', v_urgency,
+            'complexity_surcharge', v_complexity,
+            'subtotal_before_guardrails', v_subtotal
+        ),
+        v_reasons,
+        'pending', NOW() + INTERVAL '24 hours', auth.uid()
+    )
+    RETURNING * INTO v_quote;
+
+    PERFORM public.reserve_pricing_promotions(v_quote, v_applied);
+
+    INSERT INTO public.pricing_audit_log (event_type, city_id, quote_id, actor_id, actor_role, payload, explanation)
+    VALUES (
+        'QUOTE_CREATED',
+        p_city_id,
+        v_quote.id,
+        auth.uid(),
+        auth.jwt() -> 'app_metadata' ->> 'app_role',
+        jsonb_build_object(
+            'ruleset_id', v_ruleset.id,
+            'total_amount', v_quote.total_amount,
+            'discount_amount', v_discount,
+            'promo_codes', v_codes,
+            'reason_codes', v_reasons
+        ),
+        format('Quote %s priced at %s', v_quote.quote_key, v_quote.total_amount)
+    );
+
+    RETURN jsonb_build_object(
+        'success', TRUE,
+        'quote_id', v_quote.id,
+        'quote', to_jsonb(v_quote),
+        'total_amount', v_quote.total_amount,
+        'breakdown', v_quote.breakdown,
+        'expires_at', v_quote.expires_at,
+        'reason_codes', v_quote.reason_codes,
+        'idempotent', FALSE,
+        'promotions', v_promotions
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_pricing_quote(UUID, TEXT, UUID, UUID, NUMERIC, TEXT, TEXT, TEXT[], TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Quote a price for any signed-in user, with optional promo and referral codes
+CREATE OR REPLACE FUNCTION public.rpc_c21_quote_price(
+    p_city_id UUID,
+    p_service_code TEXT,
+    p_customer_id UUID DEFAULT NULL,
+    p_parts_cost NUMERIC DEFAULT 0,
+    p_urgency TEXT DEFAULT 'standard',
+    p_complexity TEXT DEFAULT 'standard',
+    p_promo_codes TEXT[] DEFAULT NULL,
+    p_device_brand TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'unauthorized';
+    END IF;
+
+    RETURN public.issue_pricing_quote(
+        p_city_id, p_service_code, p_customer_id, NULL, p_parts_cost,
+        COALESCE(p_urgency, 'standard'), COALESCE(p_complexity, 'standard'), p_promo_codes, p_device_brand
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rpc_c21_quote_price(UUID, TEXT, UUID, NUMERIC, TEXT, TEXT, TEXT[], TEXT) TO authenticated;
+
+-- Quote a price for a ticket from the pricing console. Admins quote in any city; other staff only in
+-- their own.
+CREATE OR REPLACE FUNCTION public.create_pricing_quote(
+    p_city_id UUID,
+    p_service_code TEXT,
+    p_customer_id UUID DEFAULT NULL,
+    p_ticket_id UUID DEFAULT NULL,
+    p_urgency TEXT DEFAULT 'standard',
+    p_complexity TEXT DEFAULT 'standard',
+    p_parts_cost NUMERIC DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_role TEXT := auth.jwt() -> 'app_metadata' ->> 'app_role';
+    v_city TEXT := auth.jwt() -> 'app_metadata' ->> 'city_id';
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'unauthorized';
+    END IF;
+    IF NOT (v_role IN ('admin', 'super_admin') OR (v_role IS NOT NULL AND v_city = p_city_id::TEXT)) THEN
+        RAISE EXCEPTION 'forbidden';
+    END IF;
+
+    RETURN public.issue_pricing_quote(
+        p_city_id, p_service_code, p_customer_id, p_ticket_id, p_parts_cost,
+        COALESCE(p_urgency, 'standard'), COALESCE(p_complexity, 'standard'), NULL, NULL
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_pricing_quote(UUID, TEXT, UUID, UUID, TEXT, TEXT, NUMERIC) TO authenticated;
@@ -0,0 +1,390 @@
+-- Ticket payment ledger: advance deposits, balance payments and refunds
+-- Every collection or refund is one row in ticket_payment_entries. Rows start 'pending' when the payment
+-- is requested from the gateway and are settled by its signed webhooks through
+-- apply_ticket_payment_event(). Settling a row as succeeded posts it to financial_transactions in the
+-- same transaction, so rpc_sync_daily_ledger totals always match the ledger: payments as revenue, refunds
+-- as negative revenue against the same category.
+--
+-- Refunds point at the payment they return (refund_of) and, when they follow a cancelled or rejected
+-- quotation, at that quotation (quotation_id).
+
+CREATE TABLE IF NOT EXISTS public.ticket_payment_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ticket_id UUID NOT NULL REFERENCES public.tickets(id),
+    customer_id UUID REFERENCES public.customers(id),
+    kind TEXT NOT NULL CHECK (kind IN ('advance', 'balance', 'refund')),
+    method TEXT CHECK (method IN ('upi', 'card')),
+    amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+    currency TEXT NOT NULL DEFAULT 'INR',
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed', 'cancelled')),
+    provider TEXT NOT NULL,
+    -- Gateway reference the payment was requested under (e.g. an order id), the captured charge, and the refund
+    provider_payment_id TEXT,
+    provider_charge_id TEXT,
+    provider_refund_id TEXT,
+    checkout_url TEXT,
+    upi_intent_url TEXT,
+    refund_of UUID REFERENCES public.ticket_payment_entries(id),
+    quotation_id UUID REFERENCES public.ticket_quotations(id),
+    reason TEXT,
+    failure_reason TEXT,
+    idempotency_key TEXT NOT NULL UNIQUE,
+    financial_transaction_id UUID,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    settled_at TIMESTAMPTZ,
+    CHECK ((kind = 'refund') = (refund_of IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_payment_entries_ticket
+    ON public.ticket_payment_entries (ticket_id, created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ticket_payment_entries_provider_payment
+    ON public.ticket_payment_entries (provider, provider_payment_id) WHERE kind <> 'refund' AND provider_payment_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ticket_payment_entries_provider_refund
+    ON public.ticket_payment_entries (provider, provider_refund_id) WHERE provider_refund_id IS NOT NULL;
+
+-- Every webhook delivery, de-duplicated by the provider's event id
+CREATE TABLE IF NOT EXISTS public.payment_webhook_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    provider TEXT NOT NULL,
+    event_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    entry_id UUID REFERENCES public.ticket_payment_entries(id),
+    outcome TEXT,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (provider, event_id)
+);
+
+ALTER TABLE public.ticket_payment_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Customers see their own tickets' ledger; staff see all. Writes go through the service role.
+CREATE POLICY ticket_payment_entries_customer_select ON public.ticket_payment_entries
+    FOR SELECT USING (
+        customer_id IN (SELECT id FROM public.customers WHERE user_id = auth.uid())
+    );
+
+CREATE POLICY ticket_payment_entries_staff_select ON public.ticket_payment_entries
+    FOR SELECT USING (
+        (auth.jwt() -> 'app_metadata' ->> 'app_role') IN ('admin', 'super_admin', 'manager', 'staff')
+    );
+
+-- Settle a ledger entry from a verified gateway event. Idempotent: a repeated event id, or an event for
+-- an entry that is already settled, changes nothing. The one exception is a failed payment: gateways let
+-- the customer retry against the same order, so a later capture still settles it as succeeded (the same
+-- rule as settledStatus() in src/lib/payments/ledger.ts). Service role only.
+CREATE OR REPLACE FUNCTION public.apply_ticket_payment_event(
+    p_provider TEXT,
+    p_event_id TEXT,
+    p_event_type TEXT,
+    p_provider_payment_id TEXT,
+    p_provider_charge_id TEXT,
+    p_provider_refund_id TEXT,
+    p_failure_reason TEXT,
+    p_payload JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_event_row UUID;
+    v_entry public.ticket_payment_entries%ROWTYPE;
+    v_status TEXT;
+    v_outcome TEXT;
+    v_transaction_id UUID;
+BEGIN
+    INSERT INTO public.payment_webhook_events (provider, event_id, event_type, payload)
+    VALUES (p_provider, p_event_id, p_event_type, COALESCE(p_payload, '{}'::jsonb))
+    ON CONFLICT (provider, event_id) DO NOTHING
+    RETURNING id INTO v_event_row;
+
+    IF v_event_row IS NULL THEN
+        RETURN jsonb_build_object('outcome', 'duplicate');
+    END IF;
+
+    IF p_event_type IN ('refund.succeeded', 'refund.failed') THEN
+        SELECT * INTO v_entry FROM public.ticket_payment_entries
+        WHERE provider = p_provider AND provider_refund_id = p_provider_refund_id
+        FOR UPDATE;
+    ELSE
+        SELECT * INTO v_entry FROM public.ticket_payment_entries
+        WHERE provider = p_provider AND kind <> 'refund' AND provider_payment_id = p_provider_payment_id
+        FOR UPDATE;
+    END IF;
+
+    v_status := CASE WHEN p_event_type IN ('payment.succeeded', 'refund.succeeded') THEN 'succeeded' ELSE 'failed' END;
+
+    IF v_entry.id IS NULL THEN
+        v_outcome := 'unknown_entry';
+    ELSIF v_entry.status <> 'pending'
+        AND NOT (v_entry.kind <> 'refund' AND v_entry.status = 'failed' AND v_status = 'succeeded') THEN
+        v_outcome := 'already_settled';
+    ELSE
+        IF v_status = 'succeeded' THEN
+            -- Refunds are negative revenue so daily revenue is net of them
+            INSERT INTO public.financial_transactions (
+                type, category, amount, description, reference_id, metadata, transaction_date
+            ) VALUES (
+                'revenue',
+                'repair_labor',
+                CASE WHEN v_entry.kind = 'refund' THEN -v_entry.amount ELSE v_entry.amount END,
+                format('Ticket %s %s (%s)', v_entry.kind, CASE WHEN v_entry.kind = 'refund' THEN 'refunded' ELSE 'collected' END, v_entry.method),
+                v_entry.id::TEXT,
+                jsonb_build_object(
+                    'source', 'ticket_payment_ledger',
+                    'ticket_id', v_entry.ticket_id,
+                    'ledger_entry_id', v_entry.id,
+                    'kind', v_entry.kind,
+                    'provider', v_entry.provider,
+                    'refund_of', v_entry.refund_of,
+                    'quotation_id', v_entry.quotation_id
+                ),
+                NOW()
+            )
+            RETURNING id INTO v_transaction_id;
+        END IF;
+
+        UPDATE public.ticket_payment_entries
+        SET status = v_status,
+            provider_charge_id = COALESCE(p_provider_charge_id, provider_charge_id),
+            failure_reason = CASE WHEN v_status = 'failed' THEN p_failure_reason END,
+            financial_transaction_id = v_transaction_id,
+            settled_at = NOW(),
+            updated_at = NOW()
+        WHERE id = v_entry.id;
+
+        INSERT INTO public.ticket_events (ticket_id, event_type, title, description, created_by)
+        VALUES (
+            v_entry.ticket_id,
+            CASE
+                WHEN v_entry.kind = 'refund' AND v_status = 'succeeded' THEN 'refund_processed'
+                WHEN v_entry.kind = 'refund' THEN 'refund_failed'
+                WHEN v_status = 'succeeded' THEN 'payment_received'
+                ELSE 'payment_failed'
+            END,
+            CASE
+                WHEN v_entry.kind = 'refund' AND v_status = 'succeeded' THEN 'Refund Processed'
+                WHEN v_entry.kind = 'refund' THEN 'Refund Failed'
+                WHEN v_status = 'succeeded' THEN 'Payment Received'
+                ELSE 'Payment Failed'
+            END,
+            format('%s of ₹%s %s', INITCAP(v_entry.kind), v_entry.amount,
+                   CASE WHEN v_status = 'succeeded' THEN 'succeeded' ELSE 'failed: ' || COALESCE(p_failure_reason, 'unknown reason') END),
+            NULL
+        );
+
+        v_outcome := v_status;
+    END IF;
+
+    UPDATE public.payment_webhook_events SET entry_id = v_entry.id, outcome = v_outcome WHERE id = v_event_row;
+
+    RETURN jsonb_build_object('outcome', v_outcome, 'entry_id', v_entry.id, 'financial_transaction_id', v_transaction_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_ticket_payment_event(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Paid, refunded and in-flight totals for a ticket, as summarizeTicketLedger() in
+-- src/lib/payments/ledger.ts computes them. Callers hold the ticket row lock.
+CREATE OR REPLACE FUNCTION public.ticket_payment_totals(p_ticket_id UUID)
+RETURNS TABLE (
+    amount_due NUMERIC,
+    paid NUMERIC,
+    refunded NUMERIC,
+    pending_payments NUMERIC,
+    pending_refunds NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        COALESCE((
+            SELECT q.quoted_price FROM public.ticket_quotations q
+            WHERE q.ticket_id = p_ticket_id AND q.status = 'approved'
+            ORDER BY q.created_at DESC
+            LIMIT 1
+        ), 0),
+        COALESCE(SUM(e.amount) FILTER (WHERE e.kind <> 'refund' AND e.status = 'succeeded'), 0),
+        COALESCE(SUM(e.amount) FILTER (WHERE e.kind = 'refund' AND e.status = 'succeeded'), 0),
+        COALESCE(SUM(e.amount) FILTER (WHERE e.kind <> 'refund' AND e.status = 'pending'), 0),
+        COALESCE(SUM(e.amount) FILTER (WHERE e.kind = 'refund' AND e.status = 'pending'), 0)
+    FROM public.ticket_payment_entries e
+    WHERE e.ticket_id = p_ticket_id;
+$$;
+
+-- Check a new advance or balance collection against the ledger and record it as pending, with the
+-- ticket row locked so two requests cannot both claim the same outstanding balance. A null amount
+-- takes the standard advance or the whole outstanding balance; the checks match paymentAmountError().
+-- A repeated idempotency key returns the original entry with existing = true. Service role only.
+CREATE OR REPLACE FUNCTION public.open_ticket_payment_entry(
+    p_ticket_id UUID,
+    p_kind TEXT,
+    p_method TEXT,
+    p_amount NUMERIC,
+    p_provider TEXT,
+    p_idempotency_key TEXT,
+    p_created_by UUID,
+    p_advance_percent NUMERIC DEFAULT 30
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_customer_id UUID;
+    v_totals RECORD;
+    v_outstanding NUMERIC;
+    v_amount NUMERIC := p_amount;
+    v_entry public.ticket_payment_entries%ROWTYPE;
+BEGIN
+    SELECT customer_id INTO v_customer_id
+    FROM public.tickets
+    WHERE id = p_ticket_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'ticket_not_found';
+    END IF;
+
+    SELECT * INTO v_entry FROM public.ticket_payment_entries WHERE idempotency_key = p_idempotency_key;
+    IF v_entry.id IS NOT NULL THEN
+        RETURN jsonb_build_object('entry', to_jsonb(v_entry), 'existing', TRUE);
+    END IF;
+
+    SELECT * INTO v_totals FROM public.ticket_payment_totals(p_ticket_id);
+    v_outstanding := GREATEST(0, v_totals.amount_due - (v_totals.paid - v_totals.refunded)) - v_totals.pending_payments;
+
+    IF v_amount IS NULL THEN
+        IF p_kind = 'balance' THEN
+            v_amount := GREATEST(0, v_outstanding);
+        ELSIF v_totals.amount_due > 0 THEN
+            v_amount := LEAST(v_totals.amount_due, CEIL(v_totals.amount_due * p_advance_percent / 100));
+        ELSE
+            RAISE EXCEPTION 'amount_required';
+        END IF;
+    END IF;
+
+    IF v_amount <= 0 OR ROUND(v_amount, 2) <> v_amount THEN
+        RAISE EXCEPTION 'invalid_amount';
+    END IF;
+
+    IF v_totals.amount_due <= 0 THEN
+        -- Before there is a quotation only an advance of an explicit amount can be taken
+        IF p_kind = 'balance' THEN
+            RAISE EXCEPTION 'no_approved_quotation';
+        END IF;
+    ELSIF v_outstanding <= 0 THEN
+        RAISE EXCEPTION 'nothing_due';
+    ELSIF v_amount > v_outstanding THEN
+        RAISE EXCEPTION 'amount_exceeds_balance';
+    END IF;
+
+    INSERT INTO public.ticket_payment_entries (
+        ticket_id, customer_id, kind, method, amount, provider, idempotency_key, created_by
+    ) VALUES (
+        p_ticket_id, v_customer_id, p_kind, p_method, v_amount, p_provider, p_idempotency_key, p_created_by
+    )
+    RETURNING * INTO v_entry;
+
+    RETURN jsonb_build_object('entry', to_jsonb(v_entry), 'existing', FALSE);
+END;
+$$;
+
+-- Split a refund across the ticket's captured payments, newest first, and record one pending refund
+-- entry per payment touched, with the ticket row locked so concurrent refunds cannot both spend what
+-- is refundable. A null amount refunds everything refundable. Matches allocateRefund(). Service role only.
+CREATE OR REPLACE FUNCTION public.open_ticket_refund_entries(
+    p_ticket_id UUID,
+    p_amount NUMERIC,
+    p_provider TEXT,
+    p_quotation_id UUID,
+    p_reason TEXT,
+    p_created_by UUID
+)
+RETURNS SETOF public.ticket_payment_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_customer_id UUID;
+    v_totals RECORD;
+    v_amount NUMERIC := p_amount;
+    v_remaining NUMERIC;
+    v_share NUMERIC;
+    v_payment RECORD;
+    v_entry public.ticket_payment_entries%ROWTYPE;
+BEGIN
+    SELECT customer_id INTO v_customer_id
+    FROM public.tickets
+    WHERE id = p_ticket_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'ticket_not_found';
+    END IF;
+
+    SELECT * INTO v_totals FROM public.ticket_payment_totals(p_ticket_id);
+    v_amount := COALESCE(v_amount, GREATEST(0, v_totals.paid - v_totals.refunded - v_totals.pending_refunds));
+
+    IF v_amount <= 0 THEN
+        RAISE EXCEPTION 'nothing_to_refund';
+    END IF;
+    IF ROUND(v_amount, 2) <> v_amount THEN
+        RAISE EXCEPTION 'invalid_amount';
+    END IF;
+
+    v_remaining := v_amount;
+
+    FOR v_payment IN
+        SELECT p.id, p.method, p.provider, p.provider_payment_id, p.provider_charge_id,
+               p.amount - COALESCE((
+                   SELECT SUM(r.amount) FROM public.ticket_payment_entries r
+                   WHERE r.refund_of = p.id AND r.status IN ('succeeded', 'pending')
+               ), 0) AS available
+        FROM public.ticket_payment_entries p
+        WHERE p.ticket_id = p_ticket_id
+          AND p.kind <> 'refund'
+          AND p.status = 'succeeded'
+          AND p.provider_charge_id IS NOT NULL
+        ORDER BY COALESCE(p.settled_at, p.created_at) DESC
+    LOOP
+        EXIT WHEN v_remaining <= 0;
+        CONTINUE WHEN v_payment.available <= 0;
+
+        IF v_payment.provider <> p_provider THEN
+            RAISE EXCEPTION 'provider_mismatch: payment was taken through %', v_payment.provider;
+        END IF;
+
+        v_share := LEAST(v_payment.available, v_remaining);
+
+        INSERT INTO public.ticket_payment_entries (
+            ticket_id, customer_id, kind, method, amount, provider, provider_payment_id, provider_charge_id,
+            refund_of, quotation_id, reason, idempotency_key, created_by
+        ) VALUES (
+            p_ticket_id, v_customer_id, 'refund', v_payment.method, v_share, v_payment.provider,
+            v_payment.provider_payment_id, v_payment.provider_charge_id, v_payment.id, p_quotation_id, p_reason,
+            format('%s:refund:%s:%s', p_ticket_id, v_payment.id, gen_random_uuid()), p_created_by
+        )
+        RETURNING * INTO v_entry;
+
+        v_remaining := v_remaining - v_share;
+        RETURN NEXT v_entry;
+    END LOOP;
+
+    IF v_remaining > 0 THEN
+        RAISE EXCEPTION 'refund_exceeds_refundable';
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ticket_payment_totals(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.open_ticket_payment_entry(UUID, TEXT, TEXT, NUMERIC, TEXT, TEXT, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.open_ticket_refund_entries(UUID, NUMERIC, TEXT, UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,242 @@
+-- Device chain of custody for transporter pickups and drops
+-- Every time a device changes hands (customer -> transporter -> branch, or back) an append-only row is
+-- written to device_custody_events with the GPS fix, geofence result, hand-off photos and whether the
+-- customer's OTP was verified. The row records who holds the device from that moment, so the chain of
+-- holders can be read straight off the table.
+--
+-- Transporter hand-offs go through record_device_custody_event(), which also moves the transport job
+-- along and posts to the customer timeline. A status change made any other way (e.g. from the logistics
+-- dashboard) is still recorded, as a 'status_override' event by whoever made it.
+
+CREATE TABLE IF NOT EXISTS public.device_custody_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ticket_id UUID NOT NULL REFERENCES public.tickets(id),
+    transport_job_id UUID REFERENCES public.transport_jobs(id),
+    event_type TEXT NOT NULL CHECK (event_type IN ('arrived_pickup', 'picked_up', 'arrived_drop', 'delivered', 'status_override')),
+    holder_type TEXT NOT NULL CHECK (holder_type IN ('customer', 'transporter', 'branch')),
+    holder_id UUID,
+    holder_name TEXT,
+    lat DOUBLE PRECISION,
+    lng DOUBLE PRECISION,
+    accuracy_m DOUBLE PRECISION,
+    distance_m INTEGER,
+    geofence_status TEXT CHECK (geofence_status IN ('inside', 'outside', 'low_accuracy', 'no_target')),
+    otp_verified BOOLEAN NOT NULL DEFAULT FALSE,
+    photo_paths TEXT[] NOT NULL DEFAULT '{}',
+    note TEXT,
+    recorded_by UUID REFERENCES auth.users(id),
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_custody_events_ticket
+    ON public.device_custody_events (ticket_id, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_device_custody_events_job
+    ON public.device_custody_events (transport_job_id, recorded_at);
+
+-- The custody chain is append-only
+CREATE OR REPLACE FUNCTION public.prevent_custody_event_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'device_custody_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS device_custody_events_append_only ON public.device_custody_events;
+CREATE TRIGGER device_custody_events_append_only
+    BEFORE UPDATE OR DELETE ON public.device_custody_events
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_custody_event_mutation();
+
+-- One-time hand-off codes; only an HMAC of the code is kept
+CREATE TABLE IF NOT EXISTS public.device_custody_otps (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transport_job_id UUID NOT NULL REFERENCES public.transport_jobs(id),
+    stage TEXT NOT NULL CHECK (stage IN ('pickup', 'drop')),
+    code_hash TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    expires_at TIMESTAMPTZ NOT NULL,
+    consumed_at TIMESTAMPTZ,
+    superseded_at TIMESTAMPTZ,
+    -- Set when staff reset the stage's codes; reset codes no longer count towards the send or guess limits
+    reset_at TIMESTAMPTZ,
+    reset_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_custody_otps_live
+    ON public.device_custody_otps (transport_job_id, stage, created_at DESC)
+    WHERE consumed_at IS NULL AND superseded_at IS NULL;
+
+-- Hand-off photos, written by the custody API with the service role
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('device-custody-photos', 'device-custody-photos', FALSE)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.device_custody_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.device_custody_otps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can read their device custody chain" ON public.device_custody_events
+    FOR SELECT USING (
+        ticket_id IN (
+            SELECT t.id FROM public.tickets t
+            JOIN public.customers c ON c.id = t.customer_id
+            WHERE c.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Transporters can read custody for their jobs" ON public.device_custody_events
+    FOR SELECT USING (
+        transport_job_id IN (SELECT id FROM public.transport_jobs WHERE assigned_transporter_id = auth.uid())
+    );
+
+CREATE POLICY "Staff can read device custody" ON public.device_custody_events
+    FOR SELECT USING (get_my_role() IN ('admin', 'staff', 'manager'));
+
+-- Record a transporter hand-off and advance the job. The job row is locked so two devices cannot
+-- record the same step. Service role only: the API checks geofence, OTP and photos first, and passes
+-- the checked OTP, which is consumed here so a failed hand-off leaves the customer's code usable.
+DROP FUNCTION IF EXISTS public.record_device_custody_event(
+    UUID, TEXT, TEXT, UUID, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER, TEXT, BOOLEAN, TEXT[], TEXT, UUID, TEXT, TEXT
+);
+
+CREATE OR REPLACE FUNCTION public.record_device_custody_event(
+    p_transport_job_id UUID,
+    p_event_type TEXT,
+    p_holder_type TEXT,
+    p_holder_id UUID,
+    p_holder_name TEXT,
+    p_lat DOUBLE PRECISION,
+    p_lng DOUBLE PRECISION,
+    p_accuracy_m DOUBLE PRECISION,
+    p_distance_m INTEGER,
+    p_geofence_status TEXT,
+    p_otp_verified BOOLEAN,
+    p_photo_paths TEXT[],
+    p_note TEXT,
+    p_recorded_by UUID,
+    p_timeline_title TEXT,
+    p_timeline_description TEXT,
+    p_otp_id UUID DEFAULT NULL
+)
+RETURNS public.device_custody_events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_job public.transport_jobs%ROWTYPE;
+    v_from TEXT[];
+    v_event public.device_custody_events%ROWTYPE;
+BEGIN
+    SELECT * INTO v_job FROM public.transport_jobs WHERE id = p_transport_job_id FOR UPDATE;
+    IF v_job.id IS NULL THEN
+        RAISE EXCEPTION 'transport_job_not_found';
+    END IF;
+
+    -- Mirrors CUSTODY_TRANSITIONS in src/lib/custody/chain.ts
+    v_from := CASE p_event_type
+        WHEN 'arrived_pickup' THEN ARRAY['assigned', 'en_route_pickup']
+        WHEN 'picked_up' THEN ARRAY['arrived_pickup']
+        WHEN 'arrived_drop' THEN ARRAY['picked_up', 'en_route_drop']
+        WHEN 'delivered' THEN ARRAY['arrived_drop']
+    END;
+
+    IF v_from IS NULL THEN
+        RAISE EXCEPTION 'invalid_custody_event: %', p_event_type;
+    END IF;
+
+    IF NOT (v_job.status = ANY (v_from)) THEN
+        RAISE EXCEPTION 'invalid_transition: job is %', v_job.status;
+    END IF;
+
+    IF COALESCE(p_otp_verified, FALSE) THEN
+        UPDATE public.device_custody_otps
+        SET consumed_at = NOW()
+        WHERE id = p_otp_id
+          AND transport_job_id = v_job.id
+          AND stage = CASE p_event_type WHEN 'picked_up' THEN 'pickup' ELSE 'drop' END
+          AND consumed_at IS NULL
+          AND superseded_at IS NULL
+          AND expires_at > NOW();
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'otp_unavailable: the code was used, replaced or expired';
+        END IF;
+    END IF;
+
+    INSERT INTO public.device_custody_events (
+        ticket_id, transport_job_id, event_type, holder_type, holder_id, holder_name,
+        lat, lng, accuracy_m, distance_m, geofence_status, otp_verified, photo_paths, note, recorded_by
+    ) VALUES (
+        v_job.ticket_id, v_job.id, p_event_type, p_holder_type, p_holder_id, p_holder_name,
+        p_lat, p_lng, p_accuracy_m, p_distance_m, p_geofence_status, COALESCE(p_otp_verified, FALSE),
+        COALESCE(p_photo_paths, '{}'), p_note, p_recorded_by
+    )
+    RETURNING * INTO v_event;
+
+    -- Tell the override trigger this change is already in the chain
+    PERFORM set_config('app.custody_event', 'on', TRUE);
+    UPDATE public.transport_jobs SET status = p_event_type WHERE id = v_job.id;
+    PERFORM set_config('app.custody_event', 'off', TRUE);
+
+    INSERT INTO public.customer_timeline (ticket_id, event_type, title, description)
+    VALUES (v_job.ticket_id, 'custody_' || p_event_type, p_timeline_title, p_timeline_description);
+
+    RETURN v_event;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_device_custody_event(
+    UUID, TEXT, TEXT, UUID, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER, TEXT, BOOLEAN, TEXT[], TEXT, UUID, TEXT, TEXT, UUID
+) FROM PUBLIC, anon, authenticated;
+
+-- A job marked picked up or delivered without a hand-off still moves the device; record who did it
+CREATE OR REPLACE FUNCTION public.record_custody_status_override()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_holder_type TEXT;
+    v_holder_id UUID;
+    v_holder_name TEXT;
+BEGIN
+    IF current_setting('app.custody_event', TRUE) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status = 'picked_up' THEN
+        v_holder_type := 'transporter';
+        v_holder_id := NEW.assigned_transporter_id;
+        SELECT full_name INTO v_holder_name FROM public.profiles
+        WHERE id = NEW.assigned_transporter_id OR user_id = NEW.assigned_transporter_id
+        LIMIT 1;
+    ELSIF NEW.job_type = 'pickup' THEN
+        v_holder_type := 'branch';
+        v_holder_id := NEW.branch_id;
+        SELECT name INTO v_holder_name FROM public.branches WHERE id = NEW.branch_id;
+    ELSE
+        v_holder_type := 'customer';
+        SELECT t.customer_id, c.name INTO v_holder_id, v_holder_name
+        FROM public.tickets t JOIN public.customers c ON c.id = t.customer_id
+        WHERE t.id = NEW.ticket_id;
+    END IF;
+
+    INSERT INTO public.device_custody_events (
+        ticket_id, transport_job_id, event_type, holder_type, holder_id, holder_name, note, recorded_by
+    ) VALUES (
+        NEW.ticket_id, NEW.id, 'status_override', v_holder_type, v_holder_id, v_holder_name,
+        format('Job marked %s without a recorded hand-off', NEW.status), auth.uid()
+    );
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS transport_jobs_custody_override ON public.transport_jobs;
+CREATE TRIGGER transport_jobs_custody_override
+    AFTER UPDATE OF status ON public.transport_jobs
+    FOR EACH ROW
+    WHEN (NEW.status IN ('picked_up', 'delivered') AND OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION public.record_custody_status_override();
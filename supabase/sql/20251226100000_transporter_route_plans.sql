@@ -0,0 +1,148 @@
+-- Multi-stop run sheets for transporter shifts
+-- The route planner (src/lib/services/route-planner.ts) batches each internal vehicle's open transport jobs
+-- and logistics deliveries for a shift, orders the stops under the vehicle's capacity and the stops' time
+-- windows, and stores the result here. A batch covers every vehicle planned in one run; re-planning a shift
+-- supersedes the earlier run sheets instead of deleting them.
+--
+-- Planning needs coordinates and time windows on deliveries and jobs, a parcel weight for jobs, and an
+-- optional start point per vehicle; those columns are added first.
+
+ALTER TABLE public.logistics_deliveries
+    ADD COLUMN IF NOT EXISTS pickup_lat DOUBLE PRECISION,
+    ADD COLUMN IF NOT EXISTS pickup_lng DOUBLE PRECISION,
+    ADD COLUMN IF NOT EXISTS delivery_lat DOUBLE PRECISION,
+    ADD COLUMN IF NOT EXISTS delivery_lng DOUBLE PRECISION,
+    ADD COLUMN IF NOT EXISTS window_start TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS window_end TIMESTAMPTZ;
+
+ALTER TABLE public.transport_jobs
+    ADD COLUMN IF NOT EXISTS weight_kg NUMERIC(8,2),
+    ADD COLUMN IF NOT EXISTS window_start TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS window_end TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.logistics_deliveries.window_start IS 'Drop-off window; scheduled_pickup bounds the pickup';
+COMMENT ON COLUMN public.transport_jobs.window_start IS 'Window at the customer end of the job; defaults to a slot from scheduled_at';
+
+ALTER TABLE public.transporter_fleets
+    ADD COLUMN IF NOT EXISTS start_lat DOUBLE PRECISION,
+    ADD COLUMN IF NOT EXISTS start_lng DOUBLE PRECISION;
+
+CREATE TABLE IF NOT EXISTS public.transporter_route_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    shift_date DATE NOT NULL,
+    shift_start TIMESTAMPTZ NOT NULL,
+    shift_end TIMESTAMPTZ NOT NULL,
+    distance_source TEXT NOT NULL CHECK (distance_source IN ('osrm', 'haversine')),
+    -- Stops the planner could not fit, with the reason: [{ task_id, source, ref_id, reason }]
+    unplanned JSONB NOT NULL DEFAULT '[]',
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (shift_end > shift_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transporter_route_batches_shift
+    ON public.transporter_route_batches (shift_date, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.transporter_run_sheets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    batch_id UUID NOT NULL REFERENCES public.transporter_route_batches(id) ON DELETE CASCADE,
+    transporter_fleet_id UUID NOT NULL REFERENCES public.transporter_fleets(id),
+    driver_id UUID,
+    shift_date DATE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'superseded')),
+    -- Ordered stops: [{ task_id, source, ref_id, kind, address, lat, lng, arrival_at, departure_at, ... }]
+    stops JSONB NOT NULL DEFAULT '[]',
+    distance_m INTEGER NOT NULL DEFAULT 0,
+    duration_s INTEGER NOT NULL DEFAULT 0,
+    start_at TIMESTAMPTZ,
+    end_at TIMESTAMPTZ,
+    max_load_kg NUMERIC(8,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One live run sheet per vehicle and day
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transporter_run_sheets_active
+    ON public.transporter_run_sheets (transporter_fleet_id, shift_date)
+    WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_transporter_run_sheets_driver
+    ON public.transporter_run_sheets (driver_id, shift_date);
+
+ALTER TABLE public.transporter_route_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transporter_run_sheets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read route batches" ON public.transporter_route_batches
+    FOR SELECT USING (get_my_role() IN ('admin', 'staff', 'manager'));
+
+CREATE POLICY "Staff can read run sheets" ON public.transporter_run_sheets
+    FOR SELECT USING (get_my_role() IN ('admin', 'staff', 'manager'));
+
+CREATE POLICY "Transporters can read their run sheets" ON public.transporter_run_sheets
+    FOR SELECT USING (
+        driver_id = auth.uid()
+        OR driver_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    );
+
+-- Batches and run sheets are written by the planner with the service role
+
+-- Save a planning run: the batch, the day's earlier run sheets for the planned vehicles marked
+-- superseded, and the new run sheets, in one transaction so a failed insert never leaves a vehicle
+-- without its live run sheet. The fleet rows are locked so two runs for the same vehicles queue up.
+CREATE OR REPLACE FUNCTION public.save_transporter_route_plan(
+    p_shift_date DATE,
+    p_shift_start TIMESTAMPTZ,
+    p_shift_end TIMESTAMPTZ,
+    p_distance_source TEXT,
+    p_unplanned JSONB,
+    p_fleet_ids UUID[],
+    p_run_sheets JSONB,
+    p_created_by UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_batch_id UUID;
+BEGIN
+    PERFORM 1 FROM public.transporter_fleets
+    WHERE id = ANY(p_fleet_ids)
+    ORDER BY id
+    FOR UPDATE;
+
+    INSERT INTO public.transporter_route_batches (
+        shift_date, shift_start, shift_end, distance_source, unplanned, created_by
+    ) VALUES (
+        p_shift_date, p_shift_start, p_shift_end, p_distance_source, COALESCE(p_unplanned, '[]'::jsonb), p_created_by
+    )
+    RETURNING id INTO v_batch_id;
+
+    UPDATE public.transporter_run_sheets
+    SET status = 'superseded'
+    WHERE shift_date = p_shift_date
+      AND status = 'active'
+      AND transporter_fleet_id = ANY(p_fleet_ids);
+
+    INSERT INTO public.transporter_run_sheets (
+        batch_id, transporter_fleet_id, driver_id, shift_date, stops,
+        distance_m, duration_s, start_at, end_at, max_load_kg
+    )
+    SELECT
+        v_batch_id, s.transporter_fleet_id, s.driver_id, p_shift_date, s.stops,
+        s.distance_m, s.duration_s, s.start_at, s.end_at, s.max_load_kg
+    FROM jsonb_to_recordset(COALESCE(p_run_sheets, '[]'::jsonb)) AS s(
+        transporter_fleet_id UUID,
+        driver_id UUID,
+        stops JSONB,
+        distance_m INTEGER,
+        duration_s INTEGER,
+        start_at TIMESTAMPTZ,
+        end_at TIMESTAMPTZ,
+        max_load_kg NUMERIC
+    );
+
+    RETURN v_batch_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_transporter_route_plan(DATE, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, JSONB, UUID[], JSONB, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,65 @@
+-- External courier bookings for logistics deliveries
+-- When a delivery is assigned to an external provider (Porter, Rapido, Dunzo, or a courier booked by
+-- phone), the booking made through the provider's adapter is recorded in courier_bookings and the
+-- delivery carries the provider's order id, tracking link and latest raw status. The booked fare is the
+-- delivery's estimated_cost.
+--
+-- Status webhooks are kept in courier_webhook_events; the (provider, event_id) key makes redeliveries
+-- no-ops.
+
+ALTER TABLE public.logistics_deliveries
+    ADD COLUMN IF NOT EXISTS external_order_id TEXT,
+    ADD COLUMN IF NOT EXISTS external_status TEXT,
+    ADD COLUMN IF NOT EXISTS tracking_url TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_logistics_deliveries_external_order
+    ON public.logistics_deliveries (provider_type, external_order_id)
+    WHERE external_order_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.courier_bookings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    delivery_id UUID NOT NULL REFERENCES public.logistics_deliveries(id),
+    provider TEXT NOT NULL CHECK (provider IN ('external_porter', 'external_rapido', 'external_dunzo', 'external_manual')),
+    provider_order_id TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'booked' CHECK (status IN ('booked', 'cancelled')),
+    amount NUMERIC(10,2) NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'INR',
+    provider_status TEXT,
+    tracking_url TEXT,
+    idempotency_key TEXT NOT NULL UNIQUE,
+    booked_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    cancelled_at TIMESTAMPTZ,
+    cancel_reason TEXT,
+    UNIQUE (provider, provider_order_id)
+);
+
+-- At most one live booking per delivery
+CREATE UNIQUE INDEX IF NOT EXISTS idx_courier_bookings_live
+    ON public.courier_bookings (delivery_id)
+    WHERE status = 'booked';
+
+CREATE TABLE IF NOT EXISTS public.courier_webhook_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    provider TEXT NOT NULL,
+    event_id TEXT NOT NULL,
+    provider_order_id TEXT NOT NULL,
+    delivery_id UUID REFERENCES public.logistics_deliveries(id),
+    status TEXT NOT NULL,
+    provider_status TEXT NOT NULL,
+    outcome TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (provider, event_id)
+);
+
+ALTER TABLE public.courier_bookings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.courier_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read courier bookings" ON public.courier_bookings
+    FOR SELECT USING (get_my_role() IN ('admin', 'staff', 'manager'));
+
+CREATE POLICY "Staff can read courier webhook events" ON public.courier_webhook_events
+    FOR SELECT USING (get_my_role() IN ('admin', 'staff', 'manager'));
+
+-- Bookings and webhook events are written by the courier booking service with the service role
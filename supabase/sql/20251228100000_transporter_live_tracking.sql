@@ -0,0 +1,98 @@
+-- Live transporter tracking and customer ETAs
+-- The transporter PWA sends GPS pings in batches (buffered while offline) to /api/transporter/locations.
+-- Accepted pings are appended to vehicle_tracking_logs, the vehicle's latest fix is kept in
+-- transporter_live_positions, and every open transport job of the rider gets a smoothed arrival
+-- estimate for its next stop in transport_job_etas, which the customer's pickup status card reads.
+--
+-- A periodic staleness check (/api/internal/logistics/tracking-staleness) opens a
+-- transporter_tracking_alerts row for dispatch when a rider who is mid-job stops pinging; the alert
+-- resolves itself when pings resume or the job is finished.
+
+CREATE TABLE IF NOT EXISTS public.vehicle_tracking_logs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transporter_id UUID NOT NULL REFERENCES public.transporter_fleets(id),
+    speed_kmh NUMERIC(6,2),
+    battery_level NUMERIC(5,2),
+    recorded_at TIMESTAMPTZ NOT NULL
+);
+
+-- Plain coordinates alongside (or instead of) the geoJSON location column, so the API can read pings
+-- without PostGIS conversions
+ALTER TABLE public.vehicle_tracking_logs
+    ADD COLUMN IF NOT EXISTS driver_id UUID,
+    ADD COLUMN IF NOT EXISTS lat DOUBLE PRECISION,
+    ADD COLUMN IF NOT EXISTS lng DOUBLE PRECISION,
+    ADD COLUMN IF NOT EXISTS accuracy_m NUMERIC(8,2),
+    ADD COLUMN IF NOT EXISTS heading NUMERIC(5,2),
+    ADD COLUMN IF NOT EXISTS received_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_tracking_logs_transporter_recorded
+    ON public.vehicle_tracking_logs (transporter_id, recorded_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.transporter_live_positions (
+    transporter_fleet_id UUID PRIMARY KEY REFERENCES public.transporter_fleets(id),
+    driver_id UUID,
+    lat DOUBLE PRECISION NOT NULL,
+    lng DOUBLE PRECISION NOT NULL,
+    accuracy_m NUMERIC(8,2),
+    speed_kmh NUMERIC(6,2),
+    -- Exponentially smoothed ground speed the ETAs are computed with
+    smoothed_speed_kmh NUMERIC(6,2),
+    heading NUMERIC(5,2),
+    battery_level NUMERIC(5,2),
+    recorded_at TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.transport_job_etas (
+    transport_job_id UUID PRIMARY KEY REFERENCES public.transport_jobs(id) ON DELETE CASCADE,
+    ticket_id UUID NOT NULL,
+    transporter_fleet_id UUID NOT NULL REFERENCES public.transporter_fleets(id),
+    stage TEXT NOT NULL CHECK (stage IN ('pickup', 'drop')),
+    eta_at TIMESTAMPTZ NOT NULL,
+    distance_m INTEGER NOT NULL,
+    -- Other hand-offs the rider will make before reaching this stop
+    stops_before INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transport_job_etas_ticket ON public.transport_job_etas (ticket_id);
+
+CREATE TABLE IF NOT EXISTS public.transporter_tracking_alerts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transporter_fleet_id UUID NOT NULL REFERENCES public.transporter_fleets(id),
+    driver_id UUID,
+    transport_job_id UUID REFERENCES public.transport_jobs(id),
+    kind TEXT NOT NULL DEFAULT 'pings_stale' CHECK (kind IN ('pings_stale')),
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+    last_ping_at TIMESTAMPTZ,
+    opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ,
+    resolution TEXT CHECK (resolution IN ('pings_resumed', 'job_finished', 'dismissed')),
+    resolved_by UUID REFERENCES auth.users(id)
+);
+
+-- One open alert per vehicle; the staleness check runs every few minutes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transporter_tracking_alerts_open
+    ON public.transporter_tracking_alerts (transporter_fleet_id)
+    WHERE status = 'open';
+
+ALTER TABLE public.vehicle_tracking_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transporter_live_positions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transport_job_etas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transporter_tracking_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read vehicle tracking logs" ON public.vehicle_tracking_logs
+    FOR SELECT USING (get_my_role() IN ('admin', 'staff', 'manager'));
+
+CREATE POLICY "Staff can read live positions" ON public.transporter_live_positions
+    FOR SELECT USING (get_my_role() IN ('admin', 'staff', 'manager'));
+
+CREATE POLICY "Staff can read job ETAs" ON public.transport_job_etas
+    FOR SELECT USING (get_my_role() IN ('admin', 'staff', 'manager'));
+
+CREATE POLICY "Staff can read tracking alerts" ON public.transporter_tracking_alerts
+    FOR SELECT USING (get_my_role() IN ('admin', 'staff', 'manager'));
+
+-- Pings, positions, ETAs and alerts are written by the tracking service with the service role.
+-- Customers get their ETA through the API, which coarsens the rider's position and never returns the trail.
@@ -0,0 +1,95 @@
+-- Technician day plans
+-- The scheduler (src/lib/services/technician-scheduler.ts) lays out each technician's shift: which open
+-- tickets they visit and when, honouring skills, shift times, travel between addresses, repair time by
+-- device category and SLA deadlines. Every planning run, overrun re-plan and manual move is recorded as
+-- a run together with the tickets that could not be placed; entries hold the current plan.
+--
+-- Planning needs the customer's address on the ticket and an optional start point per shift; those
+-- columns are added first.
+
+ALTER TABLE public.tickets
+    ADD COLUMN IF NOT EXISTS service_lat DOUBLE PRECISION,
+    ADD COLUMN IF NOT EXISTS service_lng DOUBLE PRECISION;
+
+ALTER TABLE public.workforce_shifts
+    ADD COLUMN IF NOT EXISTS start_lat DOUBLE PRECISION,
+    ADD COLUMN IF NOT EXISTS start_lng DOUBLE PRECISION;
+
+COMMENT ON COLUMN public.workforce_shifts.start_lat IS 'Where the technician starts the day; the first job when unset';
+
+-- Overrides the scheduler's built-in repair times; the skill, when set, is required at min_skill_level
+CREATE TABLE IF NOT EXISTS public.device_repair_standards (
+    device_category TEXT PRIMARY KEY,
+    repair_minutes INTEGER NOT NULL CHECK (repair_minutes > 0),
+    skill_id UUID,
+    min_skill_level INTEGER NOT NULL DEFAULT 1 CHECK (min_skill_level >= 1),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.technician_plan_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    plan_date DATE NOT NULL,
+    trigger TEXT NOT NULL CHECK (trigger IN ('full', 'overrun', 'manual_move')),
+    -- Tickets left out, with the job snapshot and the reason: [{ ticket_id, label, ..., reason }]
+    unplanned JSONB NOT NULL DEFAULT '[]',
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_technician_plan_runs_date
+    ON public.technician_plan_runs (plan_date, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.technician_schedule_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    run_id UUID NOT NULL REFERENCES public.technician_plan_runs(id) ON DELETE CASCADE,
+    plan_date DATE NOT NULL,
+    ticket_id UUID NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+    technician_id UUID NOT NULL REFERENCES auth.users(id),
+    start_at TIMESTAMPTZ NOT NULL,
+    end_at TIMESTAMPTZ NOT NULL,
+    travel_s INTEGER NOT NULL DEFAULT 0,
+    distance_m INTEGER NOT NULL DEFAULT 0,
+    sla_breach BOOLEAN NOT NULL DEFAULT FALSE,
+    -- Placed by a dispatcher: re-plans keep the technician and start time
+    pinned BOOLEAN NOT NULL DEFAULT FALSE,
+    status TEXT NOT NULL DEFAULT 'planned' CHECK (status IN ('planned', 'in_progress', 'done', 'superseded')),
+    -- Job snapshot taken when the ticket was planned
+    label TEXT NOT NULL,
+    device_category TEXT NOT NULL,
+    lat DOUBLE PRECISION,
+    lng DOUBLE PRECISION,
+    repair_s INTEGER NOT NULL,
+    required_skill_id UUID,
+    min_skill_level INTEGER,
+    sla_due_at TIMESTAMPTZ,
+    assigned_technician_id UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (end_at > start_at)
+);
+
+-- One live entry per ticket and day
+CREATE UNIQUE INDEX IF NOT EXISTS idx_technician_schedule_entries_active
+    ON public.technician_schedule_entries (ticket_id, plan_date)
+    WHERE status <> 'superseded';
+CREATE INDEX IF NOT EXISTS idx_technician_schedule_entries_day
+    ON public.technician_schedule_entries (plan_date, technician_id, start_at)
+    WHERE status <> 'superseded';
+
+ALTER TABLE public.device_repair_standards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.technician_plan_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.technician_schedule_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can read repair standards" ON public.device_repair_standards
+    FOR SELECT USING (get_my_role() IN ('admin', 'staff', 'manager'));
+
+CREATE POLICY "Staff can read plan runs" ON public.technician_plan_runs
+    FOR SELECT USING (get_my_role() IN ('admin', 'staff', 'manager'));
+
+CREATE POLICY "Staff can read schedule entries" ON public.technician_schedule_entries
+    FOR SELECT USING (get_my_role() IN ('admin', 'staff', 'manager'));
+
+CREATE POLICY "Technicians can read their schedule" ON public.technician_schedule_entries
+    FOR SELECT USING (technician_id = auth.uid());
+
+-- Runs and entries are written by the scheduler with the service role
@@ -5,12 +5,17 @@
 BEGIN;
 
 -- Restore create_pricing_quote
-GRANT EXECUTE ON FUNCTION public.create_pricing_quote(uuid, text, numeric, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_pricing_quote(uuid, text, uuid, uuid, text, text, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rpc_c21_quote_price(uuid, text, uuid, numeric, text, text, text[], text) TO authenticated;
 -- Note: Further RLS/Role checks are inside the function
 
 -- Restore accept_pricing_quote
 GRANT EXECUTE ON FUNCTION public.accept_pricing_quote(uuid, uuid) TO authenticated;
 
+-- Restore revisions
+GRANT EXECUTE ON FUNCTION public.create_pricing_quote_revision(uuid, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.decline_pricing_quote_line_items(uuid, text[]) TO authenticated;
+
 -- Restore Share functions
 GRANT EXECUTE ON FUNCTION public.create_quote_share_token(uuid, text, interval, text) TO authenticated;
 GRANT EXECUTE ON FUNCTION public.redeem_quote_share_token(text, text) TO authenticated;
@@ -4,14 +4,19 @@
 
 BEGIN;
 
-REVOKE EXECUTE ON FUNCTION public.create_pricing_quote(uuid, text, numeric, jsonb) FROM authenticated;
-REVOKE EXECUTE ON FUNCTION public.create_pricing_quote(uuid, text, numeric, jsonb) FROM anon;
-REVOKE EXECUTE ON FUNCTION public.create_pricing_quote(uuid, text, numeric, jsonb) FROM public;
+REVOKE EXECUTE ON FUNCTION public.create_pricing_quote(uuid, text, uuid, uuid, text, text, numeric) FROM authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_pricing_quote(uuid, text, uuid, uuid, text, text, numeric) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.create_pricing_quote(uuid, text, uuid, uuid, text, text, numeric) FROM public;
+REVOKE EXECUTE ON FUNCTION public.rpc_c21_quote_price(uuid, text, uuid, numeric, text, text, text[], text) FROM authenticated;
 
 REVOKE EXECUTE ON FUNCTION public.accept_pricing_quote(uuid, uuid) FROM authenticated;
 REVOKE EXECUTE ON FUNCTION public.accept_pricing_quote(uuid, uuid) FROM anon;
 REVOKE EXECUTE ON FUNCTION public.accept_pricing_quote(uuid, uuid) FROM public;
 
+-- Revisions
+REVOKE EXECUTE ON FUNCTION public.create_pricing_quote_revision(uuid, jsonb, text) FROM authenticated;
+REVOKE EXECUTE ON FUNCTION public.decline_pricing_quote_line_items(uuid, text[]) FROM authenticated;
+
 -- Also revoke Share functions 
 REVOKE EXECUTE ON FUNCTION public.create_quote_share_token(uuid, text, interval, text) FROM authenticated;
 REVOKE EXECUTE ON FUNCTION public.redeem_quote_share_token(text, text) FROM authenticated;